@@ -17,9 +17,11 @@ import SplashScreen from './components/SplashScreen';
 import { rateLimiter } from './utils/rateLimiter';
 import { databaseService } from './services/databaseService';
 import { creditsService } from './services/creditsService';
+import { generationJobService } from './services/generationJobService';
 import { supabase } from './services/supabaseClient';
 import LoginModal from './components/LoginModal';
 import UserProfile from './components/UserProfile';
+import PortraitGalleryModal from './components/PortraitGalleryModal';
 import HelpSupportModal from './components/HelpSupportModal';
 import SettingsModal from './components/SettingsModal';
 import { useAuth } from './hooks/useAuth';
@@ -41,10 +43,11 @@ import { editImageWithNanoBanana } from './services/geminiService';
 import { secureGeminiService, userIdentificationService } from './services';
 // Enhanced services - with fallback handling
 // import { enhancedSecureGeminiService } from './services/enhancedSecureGeminiService';
-import { GeneratedContent } from './types';
+import { GeneratedContent, SourcePhoto } from './types';
 import { useViewport } from './hooks/useViewport';
 import { useNetworkStatus } from './hooks/useNetworkStatus';
 import { posthogService } from './services/posthogService';
+import { experimentService } from './services/experimentService';
 import { counterService } from './services/counterService';
 // Enhanced template engine support
 import { migrationUtils, TemplateEngineMigration } from './utils/templateEngineMigration';
@@ -126,6 +129,8 @@ interface AppProps {
 function App({ navigate }: AppProps) {
   const [sourceImageFile, setSourceImageFile] = useState<File | null>(null);
   const [sourceImageUrl, setSourceImageUrl] = useState<string | null>(null);
+  // Separate photos of each person (empty when one photo shows everyone)
+  const [sourcePhotos, setSourcePhotos] = useState<SourcePhoto[]>([]);
   const [generatedContents, setGeneratedContents] = useState<GeneratedContent[] | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
@@ -140,6 +145,7 @@ function App({ navigate }: AppProps) {
   const [showPricingModal, setShowPricingModal] = useState<boolean>(false);
   const [showHelpModal, setShowHelpModal] = useState<boolean>(false);
   const [showSettingsModal, setShowSettingsModal] = useState<boolean>(false);
+  const [showGalleryModal, setShowGalleryModal] = useState<boolean>(false);
   const [showSuccessPage, setShowSuccessPage] = useState<boolean>(false);
   const [successSessionId, setSuccessSessionId] = useState<string | null>(null);
   const [loginMode, setLoginMode] = useState<'signin' | 'signup'>('signin');
@@ -153,6 +159,10 @@ function App({ navigate }: AppProps) {
     status: 'waiting' | 'in_progress' | 'completed' | 'failed';
     startTime?: number;
   }>>([]);
+  // Whether the current shoot runs as a resumable server-side job
+  const [isBackgroundJob, setIsBackgroundJob] = useState<boolean>(false);
+  // Package credits given back for styles that failed in the current shoot
+  const [creditsRefunded, setCreditsRefunded] = useState<number>(0);
   
   // Enhanced features state
   const [useEnhancedComponents, setUseEnhancedComponents] = useState<boolean>(true);
@@ -173,6 +183,8 @@ function App({ navigate }: AppProps) {
   // const { flags: featureFlags } = useAppFeatureFlags();
   const featureFlags = { enable_sequential_generation: false };
 
+  const multiPhotoSources = photoType !== 'single' && sourcePhotos.length > 1 ? sourcePhotos : undefined;
+
   // Shared handler functions - defined after hooks
   const handleImageUpload = (file: File) => {
     setSourceImageFile(file);
@@ -436,6 +448,7 @@ function App({ navigate }: AppProps) {
       theme: theme
     }));
     setGenerationProgress(initialProgress);
+    setCreditsRefunded(0);
 
     const generationId = `gen_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     setCurrentGenerationId(generationId);
@@ -460,28 +473,57 @@ function App({ navigate }: AppProps) {
       
       console.log(`🎨 Generating ${enhancedThemes.length} styles using package system`);
       
-      // Use the regular generation system but with package themes
-      const generationResult = await secureGeminiService.generateMultiplePortraits(
-        sourceImageFile,
-        enhancedThemes.map(t => t.name),
-        customPrompt, // User's custom prompt is still applied
-        photoType,
-        familyMemberCount,
-        (style, status) => {
-          setGenerationProgress(prev => prev.map(p => 
-            p.style === style 
-              ? { ...p, status, startTime: status === 'in_progress' ? Date.now() : p.startTime }
-              : p
-          ));
-        },
-        {
-          packageId: packageInfo.id,
-          tierId: 'fallback-tier', // Use fallback tier that's handled by the service
-          themes: themes, // Pass the original themes with full prompt data
-          packageData: packageInfo // Pass the full package data with prompt templates
+      const onProgressUpdate = (style: string, status: 'in_progress' | 'completed' | 'failed', refundedSoFar?: number) => {
+        setGenerationProgress(prev => prev.map(p => 
+          p.style === style 
+            ? { ...p, status, startTime: status === 'in_progress' ? Date.now() : p.startTime }
+            : p
+        ));
+        if (refundedSoFar) {
+          setCreditsRefunded(refundedSoFar);
         }
-      );
+      };
+
+      // Signed-in users run the shoot as a server-side job so it survives tab closes;
+      // the job reserves the credit itself, so it is not consumed again below.
+      // Jobs keep a single source photo, so per-person photos generate in the browser session.
+      const useBackgroundJob = !!user && !multiPhotoSources;
+      if (useBackgroundJob) {
+        setIsBackgroundJob(true);
+      }
+
+      // Use the regular generation system but with package themes
+      const generationResult = useBackgroundJob
+        ? await generationJobService.runShoot({
+            imageFile: sourceImageFile,
+            styles: enhancedThemes.map(t => t.name),
+            customPrompt,
+            photoType,
+            familyMemberCount,
+            packageConfig: {
+              packageId: packageInfo.id,
+              themes: themes,
+              packageData: packageInfo
+            }
+          }, onProgressUpdate)
+        : await secureGeminiService.generateMultiplePortraits(
+            sourceImageFile,
+            enhancedThemes.map(t => t.name),
+            customPrompt, // User's custom prompt is still applied
+            photoType,
+            familyMemberCount,
+            onProgressUpdate,
+            {
+              packageId: packageInfo.id,
+              tierId: 'fallback-tier', // Use fallback tier that's handled by the service
+              themes: themes, // Pass the original themes with full prompt data
+              packageData: packageInfo // Pass the full package data with prompt templates
+            },
+            multiPhotoSources
+          );
       
+      setCreditsRefunded(generationResult.creditsRefunded || 0);
+
       // Process results (same as original logic)
       const finalContents: GeneratedContent[] = [];
       
@@ -533,7 +575,7 @@ function App({ navigate }: AppProps) {
       }
       
       // Handle remaining logic (same as original)
-      if (user && generationResult.successful > 0) {
+      if (user && !useBackgroundJob && generationResult.successful > 0) {
         const consumeResult = await creditsService.consumeCredit(`${packageInfo.name} generation - ${photoType}`);
         if (!consumeResult.success) {
           console.warn('Failed to consume credit after generation:', consumeResult.error);
@@ -573,6 +615,7 @@ function App({ navigate }: AppProps) {
       const successfulStyles = finalContents.filter(c => c.imageUrl !== null).map(c => c.style);
       const failedStyles = finalContents.filter(c => c.imageUrl === null).map(c => c.style);
       posthogService.trackGenerationCompleted(generationId, successfulStyles, failedStyles);
+      experimentService.recordGenerationOutcomes(finalContents);
       
       // Increment counter
       incrementCounterWithMetadata(
@@ -619,6 +662,7 @@ function App({ navigate }: AppProps) {
       setError(errorMessage);
     } finally {
       setIsLoading(false);
+      setIsBackgroundJob(false);
     }
   };
 
@@ -759,6 +803,7 @@ function App({ navigate }: AppProps) {
       theme: theme
     }));
     setGenerationProgress(initialProgress);
+    setCreditsRefunded(0);
 
     // Generate unique ID for this generation session
     const generationId = `gen_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -782,7 +827,8 @@ function App({ navigate }: AppProps) {
       
       let generationResult;
       
-      if (enhancedSystemReady && enhancedSecureGeminiService) {
+      // The enhanced service sends a single photo; per-person photos go through the legacy path
+      if (enhancedSystemReady && enhancedSecureGeminiService && !multiPhotoSources) {
         console.log(`🎨 Generating ${themesToGenerate.length} styles using enhanced system`);
         
         try {
@@ -822,7 +868,9 @@ function App({ navigate }: AppProps) {
                   ? { ...p, status, startTime: status === 'in_progress' ? Date.now() : p.startTime }
                   : p
               ));
-            }
+            },
+            undefined, // not a package shoot
+            multiPhotoSources
           );
         }
       } else {
@@ -841,7 +889,9 @@ function App({ navigate }: AppProps) {
                 ? { ...p, status, startTime: status === 'in_progress' ? Date.now() : p.startTime }
                 : p
             ));
-          }
+          },
+          undefined, // not a package shoot
+          multiPhotoSources
         );
       }
       
@@ -938,6 +988,7 @@ function App({ navigate }: AppProps) {
       const successfulStyles = finalContents.filter(c => c.imageUrl !== null).map(c => c.style);
       const failedStyles = finalContents.filter(c => c.imageUrl === null).map(c => c.style);
       posthogService.trackGenerationCompleted(generationId, successfulStyles, failedStyles);
+      experimentService.recordGenerationOutcomes(finalContents);
       
       // Increment counter
       incrementCounterWithMetadata(
@@ -1101,6 +1152,7 @@ function App({ navigate }: AppProps) {
       status: 'waiting' as const
     }));
     setGenerationProgress(initialProgress);
+    setCreditsRefunded(0);
 
     // Generate unique ID for this generation session
     const generationId = `gen_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -1136,7 +1188,9 @@ function App({ navigate }: AppProps) {
               ? { ...p, status, startTime: status === 'in_progress' ? Date.now() : p.startTime }
               : p
           ));
-        }
+        },
+        undefined, // not a package shoot
+        multiPhotoSources
       );
       
       // Process results
@@ -1235,6 +1289,7 @@ function App({ navigate }: AppProps) {
       const successfulStyles = finalContents.filter(c => c.imageUrl !== null).map(c => c.style);
       const failedStyles = finalContents.filter(c => c.imageUrl === null).map(c => c.style);
       posthogService.trackGenerationCompleted(generationId, successfulStyles, failedStyles);
+      experimentService.recordGenerationOutcomes(finalContents);
       
       // Increment counter for successful generation with enhanced metadata
       incrementCounterWithMetadata(
@@ -1400,11 +1455,13 @@ function App({ navigate }: AppProps) {
   const resetState = () => {
     setSourceImageFile(null);
     setSourceImageUrl(null);
+    setSourcePhotos([]);
     setGeneratedContents(null);
     setError(null);
     setCurrentGenerationId(null);
     setCurrentStyles([]);
     setGenerationProgress([]);
+    setCreditsRefunded(0);
   };
 
   // Mobile app initialization
@@ -1523,6 +1580,56 @@ function App({ navigate }: AppProps) {
     });
   }, []);
 
+  // Resume a background photo shoot that was running when the page was closed
+  useEffect(() => {
+    if (!user) return;
+
+    const activeJob = generationJobService.getActiveJob();
+    if (!activeJob) return;
+
+    const controller = new AbortController();
+    console.log('📸 Resuming background photo shoot:', activeJob.jobId);
+
+    setIsLoading(true);
+    setIsBackgroundJob(true);
+    setPhotoType(activeJob.photoType);
+    setCurrentStyles(activeJob.styles);
+    setGenerationProgress(activeJob.styles.map(style => ({ style, status: 'waiting' as const })));
+
+    generationJobService.waitForJob(activeJob.jobId, (style, status) => {
+      setGenerationProgress(prev => prev.map(p =>
+        p.style === style
+          ? { ...p, status, startTime: status === 'in_progress' ? Date.now() : p.startTime }
+          : p
+      ));
+    }, controller.signal)
+      .then(snapshot => {
+        const shoot = generationJobService.toShootResult(snapshot);
+        setCurrentGenerationId(snapshot.job.generation_id);
+        setGeneratedContents(shoot.results.map(result =>
+          result.success && result.data
+            ? { ...result.data, packageName: activeJob.packageName }
+            : { imageUrl: null, text: result.error || 'Generation failed', style: result.style, packageName: activeJob.packageName }
+        ));
+        if (shoot.successful === 0) {
+          setError('Generation failed: All styles encountered issues. Please try with a different photo.');
+        }
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          console.warn('Failed to resume background photo shoot:', err);
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+          setIsBackgroundJob(false);
+        }
+      });
+
+    return () => controller.abort();
+  }, [user?.id]);
+
   // Show success page if payment was successful
   if (showSuccessPage) {
     return (
@@ -1556,6 +1663,7 @@ function App({ navigate }: AppProps) {
         // Shared state
         sourceImageFile={sourceImageFile}
         sourceImageUrl={sourceImageUrl}
+        sourcePhotos={sourcePhotos}
         generatedContents={generatedContents}
         isLoading={isLoading}
         error={error}
@@ -1569,6 +1677,7 @@ function App({ navigate }: AppProps) {
         loginMode={loginMode}
         // Shared handlers
         handleImageUpload={handleImageUpload}
+        setSourcePhotos={setSourcePhotos}
         handleGenerate={selectedPackage ? handlePackageGenerate : handleGenerate}
         handleCustomPromptChange={handleCustomPromptChange}
         setPhotoType={setPhotoType}
@@ -1580,6 +1689,8 @@ function App({ navigate }: AppProps) {
         // Mobile-specific props
         stylesToGenerate={currentStyles}
         generationProgress={generationProgress}
+        isBackgroundJob={isBackgroundJob}
+        creditsRefunded={creditsRefunded}
         resetState={resetState}
         // Package-related props
         selectedPackage={selectedPackage}
@@ -1614,6 +1725,7 @@ function App({ navigate }: AppProps) {
         onProfile={() => setShowProfileModal(true)}
         onHelp={() => setShowHelpModal(true)}
         onSettings={() => setShowSettingsModal(true)}
+        onGallery={isAuthenticated ? () => setShowGalleryModal(true) : undefined}
       />
       
       <main className={getMainClasses()}>
@@ -1636,6 +1748,10 @@ function App({ navigate }: AppProps) {
             <SuspenseImageUploader 
               onImageUpload={handleImageUpload} 
               sourceImageUrl={sourceImageUrl} 
+              photoType={photoType}
+              familyMemberCount={familyMemberCount}
+              sourcePhotos={sourcePhotos}
+              onSourcePhotosChange={setSourcePhotos}
             />
           </div>
 
@@ -1733,9 +1849,11 @@ function App({ navigate }: AppProps) {
             <div className="w-full max-w-4xl mx-auto">
               <Loader 
                 message={
-                  isSlowConnection && isMobile 
-                    ? "Creating portraits one by one for better performance..." 
-                    : "Our AI is crafting 3 unique wedding portraits from 10 amazing styles..."
+                  isBackgroundJob
+                    ? "Your photo shoot continues in the background - you can close this tab and come back later."
+                    : isSlowConnection && isMobile 
+                      ? "Creating portraits one by one for better performance..." 
+                      : "Our AI is crafting 3 unique wedding portraits from 10 amazing styles..."
                 } 
               />
             </div>
@@ -1987,6 +2105,14 @@ function App({ navigate }: AppProps) {
         />
       )}
 
+      {/* My Portraits Gallery */}
+      {user && (
+        <PortraitGalleryModal
+          isOpen={showGalleryModal}
+          onClose={() => setShowGalleryModal(false)}
+        />
+      )}
+
       {/* Pricing Modal */}
       <PricingModal
         isOpen={showPricingModal}
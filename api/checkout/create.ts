@@ -12,10 +12,86 @@ const supabaseUrl = process.env.VITE_SUPABASE_URL!
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
 const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
+interface ReservedPromotion {
+  redemption_id: string
+  promotion_id: string
+  code: string
+  percent_off: number | null
+  amount_off: number | null
+  stripe_coupon_id: string | null
+}
+
+interface GiftDetails {
+  recipientName?: string
+  recipientEmail?: string
+  message?: string
+  deliverAt?: string
+}
+
+// Promotions and revenue are kept in the base currency
+const BASE_CURRENCY = 'usd'
+
+// Value of one unit of the currency in the base currency
+async function getRateToBase(currency: string): Promise<number> {
+  if (currency.toLowerCase() === BASE_CURRENCY) return 1
+
+  const { data } = await supabase
+    .from('exchange_rates')
+    .select('rate_to_base')
+    .eq('currency', currency.toUpperCase())
+    .maybeSingle()
+
+  return Number(data?.rate_to_base) || 1
+}
+
+// Reuse the promotion's Stripe coupon, creating it if it's missing in this Stripe environment
+async function getStripeCoupon(promotion: ReservedPromotion, currency: string): Promise<string> {
+  // The stored coupon is in the base currency; other currencies get a single-use
+  // coupon for the converted amount
+  if (promotion.amount_off && currency.toLowerCase() !== BASE_CURRENCY) {
+    const rate = await getRateToBase(currency)
+    const coupon = await stripe.coupons.create({
+      name: promotion.code,
+      duration: 'once',
+      amount_off: Math.round(promotion.amount_off / rate),
+      currency,
+      max_redemptions: 1,
+      metadata: { promotion_id: promotion.promotion_id }
+    })
+    return coupon.id
+  }
+
+  if (promotion.stripe_coupon_id) {
+    try {
+      const existing = await stripe.coupons.retrieve(promotion.stripe_coupon_id)
+      if (existing.valid) return existing.id
+    } catch {
+      console.log('Stored coupon not found in current Stripe environment, creating new one')
+    }
+  }
+
+  const coupon = await stripe.coupons.create({
+    name: promotion.code,
+    duration: 'once',
+    ...(promotion.percent_off
+      ? { percent_off: promotion.percent_off }
+      : { amount_off: promotion.amount_off as number, currency }),
+    metadata: { promotion_id: promotion.promotion_id }
+  })
+
+  await supabase
+    .from('promotions')
+    .update({ stripe_coupon_id: coupon.id, updated_at: new Date().toISOString() })
+    .eq('id', promotion.promotion_id)
+
+  return coupon.id
+}
+
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json()
-    const { priceId, userId, couponCode } = body
+    const { priceId, userId, couponCode, organizationId } = body
+    const gift: GiftDetails | undefined = body.gift
 
     if (!priceId || !userId) {
       return NextResponse.json(
@@ -24,6 +100,33 @@ export async function POST(req: NextRequest) {
       )
     }
 
+    // The signed-in user, from the session token. Coupon codes are reserved
+    // for this user, never for the body's userId.
+    const token = req.headers.get('authorization')?.replace('Bearer ', '') || ''
+    const { data: { user: authUser } } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null } }
+
+    if (authUser && authUser.id !== userId) {
+      return NextResponse.json(
+        { error: 'userId does not match the signed-in user' },
+        { status: 403 }
+      )
+    }
+
+    // Regional prices carry their pack's credits, so the webhook doesn't have to
+    // infer them from the amount paid
+    const { data: regionalPrice } = await supabase.rpc('resolve_checkout_price', {
+      p_stripe_price_id: priceId
+    })
+
+    if (regionalPrice?.found && !regionalPrice.active) {
+      return NextResponse.json(
+        { error: 'This price is no longer available' },
+        { status: 400 }
+      )
+    }
+
     // Get user details
     const { data: userData, error: userError } = await supabase
       .from('users')
@@ -85,22 +188,134 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    // Apply coupon if provided
+    if (regionalPrice?.found) {
+      sessionParams.metadata = {
+        ...sessionParams.metadata,
+        pack_id: regionalPrice.product_id,
+        credits: String(regionalPrice.credits ?? ''),
+        price_book: regionalPrice.price_book
+      }
+    }
+
+    // Credits bought with a team wallet selected go to the team; any member can top it up
+    if (organizationId && !gift) {
+      const { data: membership } = await supabase
+        .from('organization_members')
+        .select('role')
+        .eq('organization_id', organizationId)
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      if (!membership) {
+        return NextResponse.json(
+          { error: 'You are not a member of this team' },
+          { status: 403 }
+        )
+      }
+
+      sessionParams.metadata.organization_id = organizationId
+    }
+
+    // Gift purchases pay out to a redeemable code instead of the buyer's balance
+    let giftCardId: string | null = null
+    if (gift) {
+      const { data: giftCard, error: giftError } = await supabase.rpc('create_gift_card', {
+        p_purchaser_user_id: userId,
+        p_price_id: priceId,
+        p_recipient_name: gift.recipientName || null,
+        p_recipient_email: gift.recipientEmail || null,
+        p_message: gift.message || null,
+        p_deliver_at: gift.deliverAt || null
+      })
+
+      if (giftError) {
+        return NextResponse.json(
+          { error: giftError.message || 'Invalid gift details' },
+          { status: 400 }
+        )
+      }
+
+      giftCardId = giftCard.id
+      sessionParams.metadata.gift_card_id = giftCard.id
+      sessionParams.success_url = `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/gift?purchased={CHECKOUT_SESSION_ID}`
+    }
+
+    // Validate and reserve the promotion code server-side
+    let promotion: ReservedPromotion | null = null
     if (couponCode) {
-      try {
-        const coupon = await stripe.coupons.retrieve(couponCode)
-        if (coupon.valid) {
-          sessionParams.discounts = [{
-            coupon: couponCode
-          }]
-        }
-      } catch (couponError) {
-        console.warn('Invalid coupon code:', couponCode)
-        // Continue without coupon rather than failing
+      if (!authUser) {
+        return NextResponse.json(
+          { error: 'Please sign in to use a coupon code' },
+          { status: 401 }
+        )
+      }
+
+      const price = await stripe.prices.retrieve(priceId)
+      const { data: reservation, error: reservationError } = await supabase.rpc('reserve_promotion', {
+        p_code: couponCode,
+        p_user_id: authUser.id,
+        p_price_id: regionalPrice?.promotion_price_id || priceId,
+        p_amount: Math.round((price.unit_amount ?? 0) * await getRateToBase(price.currency))
+      })
+
+      if (reservationError) {
+        throw reservationError
+      }
+
+      if (!reservation?.valid) {
+        return NextResponse.json(
+          { error: reservation?.error || 'Invalid coupon code' },
+          { status: 400 }
+        )
+      }
+
+      promotion = reservation as ReservedPromotion
+      sessionParams.metadata = {
+        ...sessionParams.metadata,
+        promotion_code: promotion.code,
+        promotion_redemption_id: promotion.redemption_id
+      }
+
+      // Bonus-credit-only codes have nothing to discount
+      if (promotion.percent_off || promotion.amount_off) {
+        sessionParams.discounts = [{
+          coupon: await getStripeCoupon(promotion, price.currency)
+        }]
       }
     }
 
-    const session = await stripe.checkout.sessions.create(sessionParams)
+    let session: Stripe.Checkout.Session
+    try {
+      session = await stripe.checkout.sessions.create(sessionParams)
+    } catch (sessionError) {
+      if (promotion) {
+        await supabase
+          .from('promotion_redemptions')
+          .update({ status: 'released' })
+          .eq('id', promotion.redemption_id)
+      }
+      if (giftCardId) {
+        await supabase
+          .from('gift_cards')
+          .update({ status: 'canceled', updated_at: new Date().toISOString() })
+          .eq('id', giftCardId)
+      }
+      throw sessionError
+    }
+
+    if (promotion) {
+      await supabase
+        .from('promotion_redemptions')
+        .update({ stripe_session_id: session.id })
+        .eq('id', promotion.redemption_id)
+    }
+
+    if (giftCardId) {
+      await supabase
+        .from('gift_cards')
+        .update({ stripe_session_id: session.id })
+        .eq('id', giftCardId)
+    }
 
     return NextResponse.json({
       success: true,
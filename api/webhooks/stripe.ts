@@ -149,8 +149,10 @@ async function handleCheckoutSessionCompleted(event: WebhookEvent): Promise<Webh
   const paymentIntentId = session.payment_intent as string;
   const amountTotal = session.amount_total || 0;
   
-  // Calculate credits based on our pricing tiers
-  const creditsToAdd = getCreditsFromAmount(amountTotal);
+  // Regional prices carry their credits in the metadata. Otherwise calculate them from
+  // our pricing tiers; the subtotal is the price before any promotion
+  const creditsToAdd = Number(session.metadata?.credits)
+    || getCreditsFromAmount(session.amount_subtotal ?? amountTotal);
 
   try {
     // Start transaction
@@ -165,23 +167,69 @@ async function handleCheckoutSessionCompleted(event: WebhookEvent): Promise<Webh
     }
 
     const userId = customerData.user_id;
+    const giftCardId = session.metadata?.gift_card_id;
+    const organizationId = session.metadata?.organization_id;
+
+    if (giftCardId) {
+      // Gift purchases activate the code; the recipient gets the credits on redemption
+      const { error: giftError } = await supabaseAdmin.rpc('activate_gift_card', {
+        p_gift_card_id: giftCardId,
+        p_stripe_session_id: session.id,
+        p_stripe_payment_id: paymentIntentId,
+        p_credits: creditsToAdd,
+        p_amount_paid: amountTotal
+      });
+
+      if (giftError) {
+        throw giftError;
+      }
 
-    // Add credits atomically
-    const { error: creditsError } = await supabaseAdmin.rpc(
-      'add_paid_credits',
-      {
+      console.log(`Activated ${creditsToAdd}-credit gift card ${giftCardId} bought by user ${userId}`);
+    } else if (organizationId) {
+      // Bought with a team wallet selected: the credits go to the organization
+      const { error: teamError } = await supabaseAdmin.rpc('add_organization_credits', {
+        p_organization_id: organizationId,
         p_user_id: userId,
         p_credits: creditsToAdd,
         p_stripe_payment_id: paymentIntentId,
-        p_description: `Credit purchase - Session ${session.id}`
+        p_description: `Team credit purchase - Session ${session.id}`
+      });
+
+      if (teamError) {
+        throw teamError;
       }
-    );
 
-    if (creditsError) {
-      throw creditsError;
+      console.log(`Successfully added ${creditsToAdd} credits to team ${organizationId} for user ${userId}`);
+    } else {
+      // Add credits atomically
+      const { error: creditsError } = await supabaseAdmin.rpc(
+        'add_paid_credits',
+        {
+          p_user_id: userId,
+          p_credits: creditsToAdd,
+          p_stripe_payment_id: paymentIntentId,
+          p_description: `Credit purchase - Session ${session.id}`
+        }
+      );
+
+      if (creditsError) {
+        throw creditsError;
+      }
+
+      console.log(`Successfully added ${creditsToAdd} credits to user ${userId}`);
     }
 
-    console.log(`Successfully added ${creditsToAdd} credits to user ${userId}`);
+    // Mark the promotion redeemed and grant any bonus credits it carries
+    const redemptionId = session.metadata?.promotion_redemption_id;
+    if (redemptionId) {
+      const { error: promotionError } = await supabaseAdmin.rpc('redeem_promotion', {
+        p_redemption_id: redemptionId
+      });
+
+      if (promotionError) {
+        console.error('Failed to redeem promotion:', promotionError);
+      }
+    }
 
     return {
       success: true,
@@ -217,6 +265,7 @@ async function handlePaymentIntentSucceeded(event: WebhookEvent): Promise<Webhoo
         stripe_payment_id: paymentIntent.id,
         customer_id: customerId,
         amount,
+        currency: paymentIntent.currency.toUpperCase(),
         status: 'succeeded',
         event_type: 'payment_intent.succeeded',
         metadata: paymentIntent.metadata,
@@ -261,6 +310,7 @@ async function handlePaymentIntentFailed(event: WebhookEvent): Promise<WebhookPr
         stripe_payment_id: paymentIntent.id,
         customer_id: customerId,
         amount: paymentIntent.amount,
+        currency: paymentIntent.currency.toUpperCase(),
         status: 'failed',
         event_type: 'payment_intent.payment_failed',
         error_code: failureCode,
@@ -1,8 +1,10 @@
 import React, { useState } from 'react';
 import { GeneratedContent } from '../types';
 import { themeManager } from '../services/templateEngine/ThemeManager';
+import { experimentService } from '../services/experimentService';
 import ThemePreview from './ThemePreview';
 import Modal from './Modal';
+import PortraitRating from './PortraitRating';
 
 interface EnhancedImageDisplayProps {
   contents: GeneratedContent[];
@@ -27,6 +29,7 @@ const EnhancedImageDisplay: React.FC<EnhancedImageDisplayProps> = ({
   const [showThemeDetails, setShowThemeDetails] = useState<string | null>(null);
 
   const downloadImage = (imageUrl: string, styleName: string) => {
+    experimentService.recordOutcome(styleName, 'download');
     const link = document.createElement('a');
     link.href = imageUrl;
     link.download = `wedding-portrait-${styleName.replace(/\s+/g, '-').toLowerCase()}-${Date.now()}.png`;
@@ -190,6 +193,16 @@ const EnhancedImageDisplay: React.FC<EnhancedImageDisplayProps> = ({
                   </div>
                 </div>
               )}
+
+              {content.imageUrl && !isGenerating && content.style && (
+                <div className="px-4 pb-4">
+                  <PortraitRating
+                    style={content.style}
+                    generationId={generationId}
+                    portraitId={content.portraitId}
+                  />
+                </div>
+              )}
             </div>
           );
         })}
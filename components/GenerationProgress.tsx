@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import Icon from './Icon';
+import { useNetworkStatus } from '../hooks/useNetworkStatus';
 
 interface GenerationProgressProps {
   styles: string[];
@@ -11,6 +12,10 @@ interface GenerationProgressProps {
     status: 'waiting' | 'in_progress' | 'completed' | 'failed';
     startTime?: number;
   }>;
+  // Shoot is running as a server-side job and keeps going if the tab closes
+  isBackgroundJob?: boolean;
+  // Package credits given back so far for styles that failed
+  creditsRefunded?: number;
 }
 
 const GenerationProgress: React.FC<GenerationProgressProps> = ({ 
@@ -18,9 +23,12 @@ const GenerationProgress: React.FC<GenerationProgressProps> = ({
   currentIndex = 0,
   completedCount = 0,
   className = '',
-  progressData
+  progressData,
+  isBackgroundJob = false,
+  creditsRefunded = 0
 }) => {
   const [animatedDots, setAnimatedDots] = useState('');
+  const { isOnline } = useNetworkStatus();
   
   // Animate dots
   useEffect(() => {
@@ -157,6 +165,24 @@ const GenerationProgress: React.FC<GenerationProgressProps> = ({
         </p>
       </div>
 
+      {creditsRefunded > 0 && (
+        <div className="mt-4 rounded-lg p-3 text-xs text-center bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200">
+          Refunded {creditsRefunded} credit{creditsRefunded === 1 ? '' : 's'} for portraits that couldn't be created.
+        </div>
+      )}
+
+      {isBackgroundJob && (
+        <div className={`mt-4 rounded-lg p-3 text-xs text-center ${
+          isOnline
+            ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-800 dark:text-blue-200'
+            : 'bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200'
+        }`}>
+          {isOnline
+            ? 'Your photo shoot continues in the background. You can close this tab and come back later.'
+            : "You're offline. Your photo shoot is still running - we'll reconnect when you're back online."}
+        </div>
+      )}
+
       <style jsx>{`
         @keyframes progress {
           0% { width: 0%; }
@@ -0,0 +1,264 @@
+import React, { useEffect, useState } from 'react';
+import Icon from './Icon';
+import LoginModal from './LoginModal';
+import { useAuth } from '../hooks/useAuth';
+import { giftCardService, GiftCardPreview, PurchasedGiftCard } from '../services/giftCardService';
+
+interface GiftPageProps {
+  code?: string;
+  purchasedSessionId?: string;
+  onDone: () => void;
+}
+
+const GIFT_ICON = 'M12 8v13m0-13V6a2 2 0 112 2h-2zm0 0V5.5A2.5 2.5 0 109.5 8H12zm-7 4h14M5 12a2 2 0 110-4h14a2 2 0 110 4M5 12v7a2 2 0 002 2h10a2 2 0 002-2v-7';
+const MAX_CONFIRMATION_CHECKS = 10;
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString(undefined, {
+  month: 'long',
+  day: 'numeric',
+  year: 'numeric'
+});
+
+/**
+ * Confirmation screen after buying a gift, and the redemption screen for recipients
+ */
+const GiftPage: React.FC<GiftPageProps> = ({ code, purchasedSessionId, onDone }) => {
+  const { user } = useAuth();
+  const [codeInput, setCodeInput] = useState(code || '');
+  const [preview, setPreview] = useState<GiftCardPreview | null>(null);
+  const [purchased, setPurchased] = useState<PurchasedGiftCard | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [redeemedCredits, setRedeemedCredits] = useState<number | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [showLogin, setShowLogin] = useState(false);
+  const [confirmationDelayed, setConfirmationDelayed] = useState(false);
+
+  // The webhook activates the gift a moment after Stripe redirects back
+  useEffect(() => {
+    if (!purchasedSessionId) return;
+
+    let checks = 0;
+    let timer: ReturnType<typeof setTimeout>;
+    const check = async () => {
+      const gift = await giftCardService.getPurchasedGift(purchasedSessionId);
+      setPurchased(gift);
+      checks++;
+      if (gift && gift.status !== 'pending') return;
+      if (checks < MAX_CONFIRMATION_CHECKS) {
+        timer = setTimeout(check, 2000);
+      } else {
+        setConfirmationDelayed(true);
+      }
+    };
+    check();
+
+    return () => clearTimeout(timer);
+  }, [purchasedSessionId]);
+
+  useEffect(() => {
+    if (code) {
+      lookUp(code);
+    }
+  }, [code]);
+
+  const lookUp = async (value: string) => {
+    if (!value.trim()) return;
+    setIsLoading(true);
+    setError(null);
+
+    const result = await giftCardService.getGiftCard(value);
+    setPreview(result);
+    if (!result.found) {
+      setError('We couldn\'t find that gift code. Check it and try again.');
+    }
+    setIsLoading(false);
+  };
+
+  const redeem = async () => {
+    if (!preview?.code) return;
+    if (!user) {
+      setShowLogin(true);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    const result = await giftCardService.redeem(preview.code);
+    if (result.success) {
+      setRedeemedCredits(result.credits ?? preview.credits ?? 0);
+    } else {
+      setError(result.error || 'Failed to redeem gift');
+    }
+    setIsLoading(false);
+  };
+
+  const copyLink = async (giftCode: string) => {
+    try {
+      await navigator.clipboard.writeText(giftCardService.getRedeemLink(giftCode));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError('Could not copy the link. Please copy the code manually.');
+    }
+  };
+
+  const renderPurchase = () => {
+    if (!purchased || purchased.status === 'pending') {
+      return (
+        <>
+          {!confirmationDelayed && (
+            <div className="animate-spin w-12 h-12 border-4 border-pink-500 border-t-transparent rounded-full mx-auto mb-4"></div>
+          )}
+          <h2 className="text-xl font-bold text-gray-900 mb-2">Wrapping your gift...</h2>
+          <p className="text-gray-600 mb-4">
+            {confirmationDelayed
+              ? 'Your payment is still being confirmed. Refresh this page in a minute to see your gift code.'
+              : 'Please wait while we confirm your payment'}
+          </p>
+        </>
+      );
+    }
+
+    if (purchased.status !== 'active' && purchased.status !== 'redeemed') {
+      return (
+        <>
+          <h2 className="text-xl font-bold text-gray-900 mb-2">This gift is no longer active</h2>
+          <p className="text-gray-600">The payment was canceled or refunded.</p>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Your gift is ready! 🎁</h2>
+        <p className="text-gray-600 mb-4">
+          {purchased.credits} portrait credits{purchased.recipientName ? ` for ${purchased.recipientName}` : ''}.
+          Share the code or link below.
+        </p>
+
+        <div className="bg-pink-50 border border-pink-200 rounded-lg p-4 mb-4">
+          <div className="text-2xl font-mono font-bold tracking-wider text-pink-700">{purchased.code}</div>
+          {purchased.deliverAt && (
+            <p className="text-xs text-pink-700 mt-2">Opens on {formatDate(purchased.deliverAt)}</p>
+          )}
+        </div>
+
+        {purchased.message && (
+          <p className="text-sm text-gray-600 italic mb-4">"{purchased.message}"</p>
+        )}
+
+        <button
+          onClick={() => copyLink(purchased.code)}
+          className="w-full bg-pink-600 hover:bg-pink-700 text-white font-medium py-2 px-4 rounded-lg transition-colors mb-3"
+        >
+          {copied ? 'Link copied!' : 'Copy gift link'}
+        </button>
+      </>
+    );
+  };
+
+  const renderRedeem = () => {
+    if (redeemedCredits !== null) {
+      return (
+        <>
+          <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Icon path="M5 13l4 4L19 7" className="w-8 h-8 text-green-600" />
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Gift redeemed! 🎉</h2>
+          <p className="text-gray-600 mb-4">{redeemedCredits} credits have been added to your account.</p>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">Redeem a gift</h2>
+
+        <div className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={codeInput}
+            onChange={(e) => setCodeInput(e.target.value.toUpperCase())}
+            onKeyDown={(e) => e.key === 'Enter' && lookUp(codeInput)}
+            placeholder="GIFT-XXXX-XXXX-XXXX"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono text-gray-900 focus:outline-none focus:ring-2 focus:ring-pink-500"
+          />
+          <button
+            onClick={() => lookUp(codeInput)}
+            disabled={isLoading || !codeInput.trim()}
+            className="px-4 py-2 bg-gray-800 hover:bg-gray-900 disabled:bg-gray-400 text-white rounded-lg transition-colors"
+          >
+            Check
+          </button>
+        </div>
+
+        {preview?.found && (
+          <div className="bg-pink-50 border border-pink-200 rounded-lg p-4 mb-4 text-left">
+            <p className="text-gray-900 font-medium">
+              {preview.credits} portrait credits
+              {preview.senderName ? ` from ${preview.senderName}` : ''}
+              {preview.recipientName ? ` for ${preview.recipientName}` : ''}
+            </p>
+            {preview.message && (
+              <p className="text-sm text-gray-700 italic mt-2">"{preview.message}"</p>
+            )}
+            {preview.status === 'active' && !preview.redeemable && preview.deliverAt && (
+              <p className="text-sm text-pink-700 mt-2">This gift opens on {formatDate(preview.deliverAt)}.</p>
+            )}
+            {preview.status === 'redeemed' && (
+              <p className="text-sm text-gray-600 mt-2">This gift has already been redeemed.</p>
+            )}
+            {preview.status === 'refunded' && (
+              <p className="text-sm text-gray-600 mt-2">This gift is no longer valid.</p>
+            )}
+          </div>
+        )}
+
+        {preview?.redeemable && (
+          <button
+            onClick={redeem}
+            disabled={isLoading}
+            className="w-full bg-pink-600 hover:bg-pink-700 disabled:bg-gray-400 text-white font-bold py-3 px-6 rounded-lg transition-colors mb-3"
+          >
+            {isLoading ? 'Redeeming...' : user ? 'Redeem gift' : 'Sign in to redeem'}
+          </button>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-50 to-rose-100 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl p-8 max-w-md w-full text-center">
+        <div className="w-16 h-16 bg-pink-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Icon path={GIFT_ICON} className="w-8 h-8 text-pink-600" />
+        </div>
+
+        {purchasedSessionId ? renderPurchase() : renderRedeem()}
+
+        {error && (
+          <p className="text-sm text-red-600 mb-3">{error}</p>
+        )}
+
+        <button
+          onClick={onDone}
+          className="text-sm text-gray-600 hover:text-gray-900 underline"
+        >
+          Back to App
+        </button>
+      </div>
+
+      {showLogin && (
+        <LoginModal
+          isOpen={showLogin}
+          onClose={() => setShowLogin(false)}
+          onSuccess={() => setShowLogin(false)}
+          title="Sign in to redeem your gift"
+        />
+      )}
+    </div>
+  );
+};
+
+export default GiftPage;
@@ -5,9 +5,11 @@ import { useViewport } from '../hooks/useViewport';
 import { useLazyImage } from '../hooks/useIntersectionObserver';
 import { useTouch } from '../hooks/useTouch';
 import { posthogService } from '../services/posthogService';
+import { experimentService } from '../services/experimentService';
 import { generatePortraitFilename } from '../utils/filenameUtils';
 import ImagePreviewModal from './ImagePreviewModal';
 import SwipeableGallery from './SwipeableGallery';
+import PortraitRating from './PortraitRating';
 
 interface ImageDisplayProps {
   contents: GeneratedContent[];
@@ -34,6 +36,7 @@ const handleDownload = async (
   
   // Track download event
   posthogService.trackImageDownloaded(style, generationId || 'unknown');
+  experimentService.recordOutcome(style, 'download');
   
   const link = document.createElement('a');
   link.href = imageUrl;
@@ -321,6 +324,17 @@ const GeneratedImageCard: React.FC<{
           {`"${text.length > 100 ? text.substring(0, 100) + '...' : text}"`}
         </p>
       )}
+
+      {imageUrl && (
+        <div className="mt-3">
+          <PortraitRating
+            style={style}
+            generationId={generationId}
+            portraitId={content.portraitId}
+            compact={isMobile}
+          />
+        </div>
+      )}
       
       {/* Preview Modal */}
       {imageUrl && (
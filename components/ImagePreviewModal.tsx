@@ -1,6 +1,7 @@
 import React, { useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { generatePortraitFilename } from '../utils/filenameUtils';
+import { experimentService } from '../services/experimentService';
 
 interface ImagePreviewModalProps {
   imageUrl: string;
@@ -85,7 +86,10 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({
               style: style || title.replace(' Wedding Portrait', '')
             })}
             className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors flex items-center gap-2"
-            onClick={(e) => e.stopPropagation()}
+            onClick={(e) => {
+              e.stopPropagation();
+              if (style) experimentService.recordOutcome(style, 'download');
+            }}
           >
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
@@ -3,25 +3,54 @@ import React, { useState, useCallback, useRef } from 'react';
 import Icon from './Icon';
 import { useViewport } from '../hooks/useViewport';
 import { posthogService } from '../services/posthogService';
+import {
+  imagePreprocessingService,
+  PeopleEstimate,
+  UploadPhotoType,
+  DEFAULT_MAX_EDGE
+} from '../services/imagePreprocessingService';
+import { SourcePhoto } from '../types';
 
 interface ImageUploaderProps {
   onImageUpload: (file: File) => void;
   sourceImageUrl: string | null;
+  photoType?: UploadPhotoType;
+  familyMemberCount?: number;
+  maxEdge?: number;
+  // Separate photos of each person; empty while a single photo is used
+  sourcePhotos?: SourcePhoto[];
+  onSourcePhotosChange?: (photos: SourcePhoto[]) => void;
 }
 
-const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, sourceImageUrl }) => {
+const MAX_SOURCE_PHOTOS = 6;
+
+const defaultRole = (index: number, photoType?: UploadPhotoType) =>
+  photoType === 'family' ? `Family member ${index + 1}` : `Partner ${index + 1}`;
+
+const ImageUploader: React.FC<ImageUploaderProps> = ({
+  onImageUpload,
+  sourceImageUrl,
+  photoType,
+  familyMemberCount = 3,
+  maxEdge = DEFAULT_MAX_EDGE,
+  sourcePhotos = [],
+  onSourcePhotosChange
+}) => {
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isAddingPhoto, setIsAddingPhoto] = useState(false);
+  const [peopleEstimate, setPeopleEstimate] = useState<PeopleEstimate | null>(null);
   const { isMobile, orientation } = useViewport();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const addPhotoInputRef = useRef<HTMLInputElement>(null);
 
   // Enhanced file validation for mobile
   const validateFile = useCallback((file: File): string | null => {
     const maxSize = 10 * 1024 * 1024; // 10MB
     const allowedTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
 
-    if (!allowedTypes.includes(file.type)) {
-      return 'Please select a valid image file (PNG, JPG, GIF, or WebP)';
+    if (!allowedTypes.includes(file.type) && !imagePreprocessingService.isHeic(file)) {
+      return 'Please select a valid image file (PNG, JPG, GIF, WebP, or HEIC)';
     }
 
     if (file.size > maxSize) {
@@ -33,6 +62,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, sourceImag
 
   const processFile = useCallback(async (file: File, uploadMethod: 'drag' | 'click') => {
     setIsProcessing(true);
+    setPeopleEstimate(null);
     
     // Track upload started
     posthogService.trackImageUpload('started', {
@@ -55,17 +85,24 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, sourceImag
         return;
       }
 
-      // Add a small delay for mobile processing feedback
-      if (isMobile) {
-        await new Promise(resolve => setTimeout(resolve, 300));
-      }
+      // Normalize orientation, size and metadata before anything leaves the device
+      const processed = await imagePreprocessingService.preprocess(file, { maxEdge });
+      setPeopleEstimate(processed.people);
+
+      onImageUpload(processed.file);
 
-      onImageUpload(file);
+      // The main photo is also the first of the per-person photos
+      if (sourcePhotos.length > 0 && onSourcePhotosChange) {
+        onSourcePhotosChange([
+          { ...sourcePhotos[0], file: processed.file, previewUrl: URL.createObjectURL(processed.file) },
+          ...sourcePhotos.slice(1)
+        ]);
+      }
       
       // Track successful upload
       posthogService.trackImageUpload('completed', {
-        fileSize: file.size,
-        fileType: file.type,
+        fileSize: processed.file.size,
+        fileType: processed.file.type,
         uploadMethod,
       });
     } catch (err) {
@@ -76,12 +113,75 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, sourceImag
         uploadMethod,
         error: err instanceof Error ? err.message : 'Unknown error',
       });
-      alert('Error processing file. Please try again.');
+      alert(err instanceof Error ? err.message : 'Error processing file. Please try again.');
       console.error('File processing error:', err);
     } finally {
       setIsProcessing(false);
     }
-  }, [isMobile, onImageUpload, validateFile]);
+  }, [maxEdge, onImageUpload, onSourcePhotosChange, sourcePhotos, validateFile]);
+
+  // One photo of a single partner is expected when composing from several photos
+  const peopleWarning = photoType && sourcePhotos.length < 2
+    ? imagePreprocessingService.getPeopleCountWarning(peopleEstimate, photoType, familyMemberCount)
+    : null;
+
+  const canAddPhotos = !!onSourcePhotosChange && !!sourceImageUrl && !!photoType && photoType !== 'single';
+  const maxPhotos = photoType === 'family' ? Math.min(familyMemberCount, MAX_SOURCE_PHOTOS) : 2;
+
+  const handleAddPhoto = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onSourcePhotosChange || !sourceImageUrl) return;
+
+    const error = validateFile(file);
+    if (error) {
+      alert(error);
+      return;
+    }
+
+    setIsAddingPhoto(true);
+    try {
+      const processed = await imagePreprocessingService.preprocess(file, { maxEdge });
+
+      // The first extra photo turns the main upload into the first per-person photo
+      let photos = sourcePhotos;
+      if (photos.length === 0) {
+        const blob = await fetch(sourceImageUrl).then(response => response.blob());
+        const primary = new File([blob], 'photo-1', { type: blob.type });
+        photos = [{ file: primary, role: defaultRole(0, photoType), previewUrl: sourceImageUrl }];
+      }
+
+      onSourcePhotosChange([
+        ...photos,
+        {
+          file: processed.file,
+          role: defaultRole(photos.length, photoType),
+          previewUrl: URL.createObjectURL(processed.file)
+        }
+      ]);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Error processing file. Please try again.');
+      console.error('Additional photo processing error:', err);
+    } finally {
+      setIsAddingPhoto(false);
+    }
+  }, [maxEdge, onSourcePhotosChange, photoType, sourceImageUrl, sourcePhotos, validateFile]);
+
+  const handleRoleChange = (index: number, role: string) => {
+    onSourcePhotosChange?.(sourcePhotos.map((photo, i) => (i === index ? { ...photo, role } : photo)));
+  };
+
+  const handleRemovePhoto = (index: number) => {
+    const remaining = sourcePhotos.filter((_, i) => i !== index);
+    // Back to a single photo: the remaining one becomes the main upload
+    if (remaining.length < 2) {
+      if (index === 0 && remaining[0]) onImageUpload(remaining[0].file);
+      onSourcePhotosChange?.([]);
+      return;
+    }
+    if (index === 0) onImageUpload(remaining[0].file);
+    onSourcePhotosChange?.(remaining);
+  };
 
   const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -152,7 +252,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, sourceImag
           type="file"
           id="file-upload"
           className="hidden"
-          accept="image/*"
+          accept="image/*,.heic,.heif"
           onChange={handleFileChange}
           disabled={isProcessing}
         />
@@ -196,7 +296,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, sourceImag
               {!isMobile && ' or drag and drop'}
             </p>
             <p className={`text-gray-500 mt-1 ${isMobile ? 'text-xs' : 'text-xs'}`}>
-              PNG, JPG, GIF, WebP up to 10MB
+              PNG, JPG, GIF, WebP, HEIC up to 10MB
             </p>
             {isMobile && (
               <p className="text-xs text-gray-500 mt-1">
@@ -206,6 +306,68 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, sourceImag
           </div>
         )}
       </label>
+
+      {canAddPhotos && (
+        <div className="mt-3 space-y-2">
+          {sourcePhotos.length > 1 && (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {sourcePhotos.map((photo, index) => (
+                <div key={photo.previewUrl} className="relative rounded-lg border border-gray-600 bg-gray-800 p-2">
+                  <img src={photo.previewUrl} alt={photo.role} className="h-20 w-full rounded object-cover" />
+                  <input
+                    type="text"
+                    value={photo.role}
+                    onChange={(e) => handleRoleChange(index, e.target.value)}
+                    placeholder={defaultRole(index, photoType)}
+                    aria-label={`Who is in photo ${index + 1}`}
+                    className="mt-2 w-full rounded bg-gray-700 px-2 py-1 text-xs text-white border border-gray-600"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleRemovePhoto(index)}
+                    className="absolute top-1 right-1 rounded-full bg-black/70 px-1.5 text-xs text-white hover:bg-red-600"
+                    aria-label={`Remove photo ${index + 1}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {Math.max(sourcePhotos.length, 1) < maxPhotos && (
+            <>
+              <input
+                ref={addPhotoInputRef}
+                type="file"
+                className="hidden"
+                accept="image/*,.heic,.heif"
+                onChange={handleAddPhoto}
+                disabled={isAddingPhoto}
+              />
+              <button
+                type="button"
+                onClick={() => addPhotoInputRef.current?.click()}
+                disabled={isAddingPhoto}
+                className="w-full rounded-lg border border-dashed border-gray-600 px-3 py-2 text-sm text-gray-300 hover:border-purple-500 hover:text-white disabled:opacity-60"
+              >
+                {isAddingPhoto
+                  ? 'Processing photo...'
+                  : sourcePhotos.length > 1
+                    ? '+ Add a photo of another person'
+                    : '+ No photo together? Add a separate photo of each person'}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {peopleWarning && sourceImageUrl && !isProcessing && (
+        <div className="mt-3 flex items-start gap-2 rounded-lg border border-yellow-500/50 bg-yellow-900/30 px-3 py-2 text-sm text-yellow-200">
+          <span aria-hidden="true">⚠️</span>
+          <span>{peopleWarning}</span>
+        </div>
+      )}
     </div>
   );
 };
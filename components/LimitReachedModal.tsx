@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import Icon from './Icon';
 import { rateLimiter } from '../utils/rateLimiter';
 import authService from '../services/authService';
+import { stripeService } from '../services/stripeService';
 
 interface LimitReachedModalProps {
   isOpen: boolean;
@@ -17,6 +18,7 @@ interface PricingTier {
   credits: number;
   price: number;
   priceId: string;
+  currency?: string;
   popular: boolean;
   bestValue: boolean;
   features: string[];
@@ -42,7 +44,7 @@ const LimitReachedModal: React.FC<LimitReachedModalProps> = ({
   });
 
   // Use same pricing structure as PricingModal
-  const pricingTiers: PricingTier[] = [
+  const defaultTiers: PricingTier[] = [
     {
       id: 'starter',
       name: 'Starter Pack',
@@ -78,6 +80,15 @@ const LimitReachedModal: React.FC<LimitReachedModalProps> = ({
     }
   ];
 
+  const [pricingTiers, setPricingTiers] = useState<PricingTier[]>(defaultTiers);
+
+  // Show the visitor's regional prices
+  useEffect(() => {
+    if (isOpen) {
+      stripeService.getLocalizedPricingTiers(defaultTiers).then(setPricingTiers);
+    }
+  }, [isOpen]);
+
   useEffect(() => {
     if (isOpen) {
       const updateTime = () => {
@@ -314,14 +325,14 @@ const LimitReachedModal: React.FC<LimitReachedModalProps> = ({
                     </p>
                     <div className="mb-4">
                       <span className="text-3xl font-bold text-gray-900 dark:text-white">
-                        ${(tier.price / 100).toFixed(2)}
+                        {stripeService.formatPrice(tier.price, tier.currency)}
                       </span>
                       <span className="text-sm text-gray-600 dark:text-gray-400 ml-1">
                         / {tier.credits} credits
                       </span>
                     </div>
                     <div className="text-xs text-gray-500 dark:text-gray-400">
-                      ${((tier.price / 100) / tier.credits).toFixed(2)} per credit
+                      {stripeService.formatPrice(Math.round(tier.price / tier.credits), tier.currency)} per credit
                     </div>
                   </div>
 
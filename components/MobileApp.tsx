@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { GeneratedContent } from '../types';
+import { GeneratedContent, SourcePhoto } from '../types';
 import { useViewport } from '../hooks/useViewport';
 import { useNetworkStatus } from '../hooks/useNetworkStatus';
 import { useAuth } from '../hooks/useAuth';
@@ -51,6 +51,7 @@ interface MobileAppProps {
   // Shared state from App.tsx
   sourceImageFile: File | null;
   sourceImageUrl: string | null;
+  sourcePhotos: SourcePhoto[];
   generatedContents: GeneratedContent[] | null;
   isLoading: boolean;
   error: string | null;
@@ -64,6 +65,7 @@ interface MobileAppProps {
   loginMode: 'signin' | 'signup';
   // Shared handlers from App.tsx
   handleImageUpload: (file: File) => void;
+  setSourcePhotos: (photos: SourcePhoto[]) => void;
   handleGenerate: () => Promise<void>;
   handleCustomPromptChange: (prompt: string) => void;
   setPhotoType: (type: 'single' | 'couple' | 'family') => void;
@@ -84,6 +86,8 @@ interface MobileAppProps {
     status: 'waiting' | 'in_progress' | 'completed' | 'failed';
     startTime?: number;
   }>;
+  isBackgroundJob?: boolean;
+  creditsRefunded?: number;
   resetState: () => void;
 }
 
@@ -105,6 +109,7 @@ const MobileApp: React.FC<MobileAppProps> = ({
   // Shared state from App.tsx
   sourceImageFile,
   sourceImageUrl,
+  sourcePhotos,
   generatedContents,
   isLoading,
   error,
@@ -118,6 +123,7 @@ const MobileApp: React.FC<MobileAppProps> = ({
   loginMode,
   // Shared handlers from App.tsx
   handleImageUpload,
+  setSourcePhotos,
   handleGenerate,
   handleCustomPromptChange,
   setPhotoType,
@@ -133,6 +139,8 @@ const MobileApp: React.FC<MobileAppProps> = ({
   onPackageSelected,
   stylesToGenerate = [],
   generationProgress = [],
+  isBackgroundJob = false,
+  creditsRefunded = 0,
   resetState
 }) => {
   // Mobile-specific states only
@@ -350,6 +358,8 @@ const MobileApp: React.FC<MobileAppProps> = ({
             currentIndex={0}
             completedCount={0}
             progressData={generationProgress.length > 0 ? generationProgress : undefined}
+            isBackgroundJob={isBackgroundJob}
+            creditsRefunded={creditsRefunded}
             className="w-full max-w-md"
           />
         </div>
@@ -392,6 +402,10 @@ const MobileApp: React.FC<MobileAppProps> = ({
         <SuspenseImageUploader 
           onImageUpload={handleMobileImageUpload}
           sourceImageUrl={sourceImageUrl}
+          photoType={photoType}
+          familyMemberCount={familyMemberCount}
+          sourcePhotos={sourcePhotos}
+          onSourcePhotosChange={setSourcePhotos}
         />
 
         {/* Package Picker - Only show if image uploaded but no package selected */}
@@ -53,6 +53,7 @@ export default function PackageSelector({ onPackageSelected, isLoading = false }
       const [themes, tiers] = await Promise.all([
         PhotoPackagesService.getPackageThemes(pkg.id),
         PhotoPackagesService.getPackagePricingTiers(pkg.id)
+          .then(PhotoPackagesService.localizeTierPrices)
       ]);
       
       setPackageThemes(themes);
@@ -0,0 +1,262 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Icon from './Icon';
+import SwipeableGallery from './SwipeableGallery';
+import {
+  portraitGalleryService,
+  StoredPortrait,
+  PortraitShoot,
+  PortraitPhotoType
+} from '../services/portraitGalleryService';
+
+interface PortraitGalleryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const PHOTO_TYPE_FILTERS: Array<{ value: PortraitPhotoType | ''; label: string }> = [
+  { value: '', label: 'All' },
+  { value: 'single', label: '👤 Single' },
+  { value: 'couple', label: '💑 Couple' },
+  { value: 'family', label: '👨‍👩‍👧‍👦 Family' }
+];
+
+const PortraitGalleryModal: React.FC<PortraitGalleryModalProps> = ({
+  isOpen,
+  onClose
+}) => {
+  const [portraits, setPortraits] = useState<StoredPortrait[]>([]);
+  const [styles, setStyles] = useState<string[]>([]);
+  const [styleFilter, setStyleFilter] = useState<string>('');
+  const [photoTypeFilter, setPhotoTypeFilter] = useState<PortraitPhotoType | ''>('');
+  const [selectedShoot, setSelectedShoot] = useState<PortraitShoot | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [toast, setToast] = useState<string>('');
+
+  const loadPortraits = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [portraitList, styleList] = await Promise.all([
+        portraitGalleryService.listPortraits({
+          style: styleFilter || undefined,
+          photoType: photoTypeFilter || undefined
+        }),
+        portraitGalleryService.getAvailableStyles()
+      ]);
+      setPortraits(portraitList);
+      setStyles(styleList);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [styleFilter, photoTypeFilter]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadPortraits();
+    } else {
+      setSelectedShoot(null);
+    }
+  }, [isOpen, loadPortraits]);
+
+  const handleEscapeKey = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  // Add escape key listener and prevent background scroll
+  useEffect(() => {
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscapeKey);
+      document.body.style.overflow = 'hidden';
+      return () => {
+        document.removeEventListener('keydown', handleEscapeKey);
+        document.body.style.overflow = 'unset';
+      };
+    }
+  }, [isOpen]);
+
+  const handleDelete = async (portraitId: string) => {
+    const deleted = await portraitGalleryService.deletePortrait(portraitId);
+    if (deleted) {
+      setPortraits(prev => prev.filter(p => p.id !== portraitId));
+      setSelectedShoot(null);
+      showToast('Portrait removed from your gallery');
+    } else {
+      showToast('Failed to remove portrait');
+    }
+  };
+
+  const showToast = (message: string) => {
+    setToast(message);
+    setTimeout(() => setToast(''), 3000);
+  };
+
+  if (!isOpen) return null;
+
+  const shoots = portraitGalleryService.groupByShoot(portraits);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 p-4 animate-in fade-in duration-200 overflow-y-auto"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+      style={{ paddingTop: 'max(2rem, env(safe-area-inset-top))' }}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-4xl w-full mx-4 my-8 animate-in zoom-in-95 duration-200 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        style={{ maxHeight: 'calc(100vh - 4rem)' }}
+      >
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            {selectedShoot && (
+              <button
+                onClick={() => setSelectedShoot(null)}
+                className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                aria-label="Back to gallery"
+              >
+                <Icon path="M15 19l-7-7 7-7" className="w-5 h-5" />
+              </button>
+            )}
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+              My Portraits
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="flex items-center justify-center w-10 h-10 text-gray-700 dark:text-gray-200 hover:text-gray-900 dark:hover:text-white bg-gray-100 dark:bg-gray-600 hover:bg-gray-200 dark:hover:bg-gray-500 border-2 border-gray-300 dark:border-gray-500 rounded-full transition-all duration-200 shadow-sm hover:shadow-md"
+            aria-label="Close modal"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2.5">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 overflow-y-auto flex-1">
+          {toast && (
+            <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-300 dark:border-blue-700 rounded-lg p-3 text-sm text-blue-800 dark:text-blue-200">
+              {toast}
+            </div>
+          )}
+
+          {selectedShoot ? (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400 text-center">
+                {selectedShoot.packageName ? `${selectedShoot.packageName} • ` : ''}
+                {new Date(selectedShoot.createdAt).toLocaleString()}
+              </p>
+              <SwipeableGallery
+                contents={portraitGalleryService.toGeneratedContents(selectedShoot.portraits)}
+                generationId={selectedShoot.generationId}
+                photoType={selectedShoot.photoType}
+                onShowToast={(message) => showToast(message)}
+              />
+              <div className="flex flex-wrap justify-center gap-2">
+                {selectedShoot.portraits.map(portrait => (
+                  <button
+                    key={portrait.id}
+                    onClick={() => handleDelete(portrait.id)}
+                    className="px-3 py-1 text-xs text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors"
+                  >
+                    Remove {portrait.style}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <>
+              {/* Filters */}
+              <div className="flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between">
+                <div className="flex flex-wrap gap-2">
+                  {PHOTO_TYPE_FILTERS.map(filter => (
+                    <button
+                      key={filter.value || 'all'}
+                      onClick={() => setPhotoTypeFilter(filter.value)}
+                      className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-all duration-200 ${
+                        photoTypeFilter === filter.value
+                          ? 'bg-gradient-to-r from-blue-500 to-teal-500 text-white shadow'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                      }`}
+                    >
+                      {filter.label}
+                    </button>
+                  ))}
+                </div>
+                <select
+                  value={styleFilter}
+                  onChange={(e) => setStyleFilter(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                >
+                  <option value="">All styles</option>
+                  {styles.map(style => (
+                    <option key={style} value={style}>{style}</option>
+                  ))}
+                </select>
+              </div>
+
+              {isLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <div className="animate-spin w-6 h-6 border-2 border-blue-500 border-t-transparent rounded-full"></div>
+                  <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">Loading portraits...</span>
+                </div>
+              ) : shoots.length === 0 ? (
+                <div className="text-center py-12">
+                  <span className="text-4xl">📷</span>
+                  <p className="mt-3 text-gray-700 dark:text-gray-300 font-medium">No portraits yet</p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Portraits from your photo shoots will appear here automatically.
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-6">
+                  {shoots.map(shoot => (
+                    <div key={shoot.generationId}>
+                      <div className="flex justify-between items-baseline mb-2">
+                        <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+                          {shoot.packageName || 'Photo Shoot'}
+                        </h3>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          {new Date(shoot.createdAt).toLocaleDateString()}
+                        </span>
+                      </div>
+                      <div className="grid grid-cols-3 gap-2">
+                        {shoot.portraits.map(portrait => (
+                          <button
+                            key={portrait.id}
+                            onClick={() => setSelectedShoot(shoot)}
+                            className="relative aspect-square rounded-lg overflow-hidden bg-gray-100 dark:bg-gray-700 group"
+                            title={portrait.style}
+                          >
+                            {portrait.signedUrl ? (
+                              <img
+                                src={portrait.signedUrl}
+                                alt={`Wedding portrait in ${portrait.style} style`}
+                                className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                                loading="lazy"
+                              />
+                            ) : (
+                              <div className="w-full h-full flex items-center justify-center text-xs text-gray-400">
+                                Unavailable
+                              </div>
+                            )}
+                            <span className="absolute bottom-0 left-0 right-0 px-2 py-1 bg-gradient-to-t from-black/70 to-transparent text-white text-xs truncate text-left">
+                              {portrait.style}
+                            </span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PortraitGalleryModal;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import {
+  portraitRatingService,
+  RATING_REASON_TAGS,
+  RatingReasonTag
+} from '../services/portraitRatingService';
+
+interface PortraitRatingProps {
+  style: string;
+  generationId?: string | null;
+  portraitId?: string | null;
+  compact?: boolean;
+}
+
+const PortraitRating: React.FC<PortraitRatingProps> = ({ style, generationId, portraitId, compact = false }) => {
+  const saved = portraitRatingService.getRating(generationId, style);
+  const [rating, setRating] = useState<number>(saved?.rating || 0);
+  const [hovered, setHovered] = useState(0);
+  const [reasonTags, setReasonTags] = useState<RatingReasonTag[]>(saved?.reasonTags || []);
+  const [status, setStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>(saved ? 'saved' : 'idle');
+
+  const save = async (nextRating: number, nextTags: RatingReasonTag[]) => {
+    setStatus('saving');
+    const ok = await portraitRatingService.ratePortrait({
+      rating: nextRating,
+      style,
+      generationId,
+      portraitId,
+      reasonTags: nextTags
+    });
+    setStatus(ok ? 'saved' : 'error');
+  };
+
+  const handleRate = (value: number) => {
+    // Drop tags that don't apply to the new score
+    const nextTags = reasonTags.filter(tag => (value >= 4) === (tag === 'love_it'));
+    setRating(value);
+    setReasonTags(nextTags);
+    save(value, nextTags);
+  };
+
+  const toggleTag = (tag: RatingReasonTag) => {
+    const nextTags = reasonTags.includes(tag)
+      ? reasonTags.filter(t => t !== tag)
+      : [...reasonTags, tag];
+    setReasonTags(nextTags);
+    if (rating > 0) save(rating, nextTags);
+  };
+
+  // Positive ratings only offer the positive tag; low ratings offer the problem tags
+  const visibleTags = RATING_REASON_TAGS.filter(tag =>
+    rating >= 4 ? tag.id === 'love_it' : tag.id !== 'love_it'
+  );
+
+  return (
+    <div className="flex flex-col items-center gap-2" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-1" onMouseLeave={() => setHovered(0)}>
+        <button
+          type="button"
+          onClick={() => handleRate(1)}
+          className={`px-1 text-lg transition-transform hover:scale-110 ${rating === 1 ? 'opacity-100' : 'opacity-60'}`}
+          title="Not good"
+          aria-label="Thumbs down"
+        >
+          👎
+        </button>
+        {[1, 2, 3, 4, 5].map(value => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => handleRate(value)}
+            onMouseEnter={() => setHovered(value)}
+            className={`${compact ? 'text-lg' : 'text-xl'} leading-none transition-colors ${
+              value <= (hovered || rating) ? 'text-yellow-400' : 'text-gray-500'
+            }`}
+            aria-label={`Rate ${value} out of 5`}
+          >
+            ★
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => handleRate(5)}
+          className={`px-1 text-lg transition-transform hover:scale-110 ${rating === 5 ? 'opacity-100' : 'opacity-60'}`}
+          title="Love it"
+          aria-label="Thumbs up"
+        >
+          👍
+        </button>
+      </div>
+
+      {rating > 0 && (
+        <div className="flex flex-wrap justify-center gap-1.5">
+          {visibleTags.map(tag => (
+            <button
+              key={tag.id}
+              type="button"
+              onClick={() => toggleTag(tag.id)}
+              className={`text-xs px-2 py-1 rounded-full border transition-colors ${
+                reasonTags.includes(tag.id)
+                  ? 'bg-purple-600 border-purple-500 text-white'
+                  : 'bg-gray-700/80 border-gray-600 text-gray-300 hover:border-gray-500'
+              }`}
+            >
+              {tag.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {status === 'saved' && <span className="text-xs text-green-400">Thanks for the feedback!</span>}
+      {status === 'error' && <span className="text-xs text-red-400">Couldn't save your rating. Please try again.</span>}
+    </div>
+  );
+};
+
+export default PortraitRating;
@@ -1,6 +1,7 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import Icon from './Icon';
 import { AuthUser } from '../services/authService';
+import { stripeService } from '../services/stripeService';
 
 interface PricingTier {
   id: string;
@@ -9,6 +10,7 @@ interface PricingTier {
   credits: number;
   price: number;
   priceId: string;
+  currency?: string;
   popular: boolean;
   bestValue: boolean;
   features: string[];
@@ -32,7 +34,7 @@ const PricingModal: React.FC<PricingModalProps> = ({
   const [isLoading, setIsLoading] = useState(false);
   const [selectedPlan, setSelectedPlan] = useState<string | null>(null);
 
-  const pricingTiers: PricingTier[] = [
+  const defaultTiers: PricingTier[] = [
     {
       id: 'starter',
       name: 'Starter Pack',
@@ -68,6 +70,15 @@ const PricingModal: React.FC<PricingModalProps> = ({
     }
   ];
 
+  const [pricingTiers, setPricingTiers] = useState<PricingTier[]>(defaultTiers);
+
+  // Show the visitor's regional prices
+  useEffect(() => {
+    if (isOpen) {
+      stripeService.getLocalizedPricingTiers(defaultTiers).then(setPricingTiers);
+    }
+  }, [isOpen]);
+
   const handlePurchaseClick = async (tier: PricingTier) => {
     if (!isAuthenticated || !user) {
       alert('Please sign in to purchase photo packs');
@@ -170,14 +181,14 @@ const PricingModal: React.FC<PricingModalProps> = ({
                     </p>
                     <div className="mb-4">
                       <span className="text-3xl font-bold text-gray-900 dark:text-white">
-                        ${(tier.price / 100).toFixed(2)}
+                        {stripeService.formatPrice(tier.price, tier.currency)}
                       </span>
                       <span className="text-sm text-gray-600 dark:text-gray-400 ml-1">
                         / {tier.credits} credits
                       </span>
                     </div>
                     <div className="text-xs text-gray-500 dark:text-gray-400">
-                      ${((tier.price / 100) / tier.credits).toFixed(2)} per credit
+                      {stripeService.formatPrice(Math.round(tier.price / tier.credits), tier.currency)} per credit
                     </div>
                   </div>
 
@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react'
 import { stripeService, PricingTier, CouponValidation } from '../services/stripeService'
+import { promotionService } from '../services/promotionService'
+import { GIFT_MESSAGE_MAX_LENGTH, type GiftDetails } from '../services/giftCardService'
 import { authService } from '../services/authService'
 import { useAuth } from '../hooks/useAuth'
 import { LoginModal } from './LoginModal'
@@ -14,6 +16,14 @@ interface CouponState {
   loading: boolean
 }
 
+interface GiftFormState {
+  enabled: boolean
+  recipientName: string
+  recipientEmail: string
+  message: string
+  deliverDate: string // YYYY-MM-DD, empty = right away
+}
+
 export const PricingPage: React.FC<PricingPageProps> = ({ onClose }) => {
   const { user } = useAuth()
   const [loading, setLoading] = useState<string | null>(null)
@@ -24,8 +34,16 @@ export const PricingPage: React.FC<PricingPageProps> = ({ onClose }) => {
     loading: false
   })
   const [stripeAvailable, setStripeAvailable] = useState(true)
+  const [gift, setGift] = useState<GiftFormState>({
+    enabled: false,
+    recipientName: '',
+    recipientEmail: '',
+    message: '',
+    deliverDate: ''
+  })
 
-  const tiers = stripeService.getPricingTiers()
+  const [tiers, setTiers] = useState<PricingTier[]>(stripeService.getPricingTiers())
+  const today = new Date().toLocaleDateString('en-CA') // YYYY-MM-DD in local time
 
   // Check Stripe availability on component mount
   useEffect(() => {
@@ -36,6 +54,11 @@ export const PricingPage: React.FC<PricingPageProps> = ({ onClose }) => {
     checkStripeAvailability()
   }, [])
 
+  // Switch to the visitor's regional prices once the price book loads
+  useEffect(() => {
+    stripeService.getLocalizedPricingTiers(stripeService.getPricingTiers()).then(setTiers)
+  }, [])
+
   const handlePurchase = async (tier: PricingTier) => {
     if (!user) {
       setShowLoginModal(true)
@@ -47,12 +70,28 @@ export const PricingPage: React.FC<PricingPageProps> = ({ onClose }) => {
       return
     }
 
+    let giftDetails: GiftDetails | undefined
+    if (gift.enabled) {
+      if (gift.deliverDate && gift.deliverDate < today) {
+        alert('The delivery date can\'t be in the past.')
+        return
+      }
+      giftDetails = {
+        recipientName: gift.recipientName.trim() || undefined,
+        recipientEmail: gift.recipientEmail.trim() || undefined,
+        message: gift.message.trim() || undefined,
+        // Open the gift on the morning of the chosen day, in the buyer's timezone
+        deliverAt: gift.deliverDate ? new Date(`${gift.deliverDate}T09:00:00`).toISOString() : undefined
+      }
+    }
+
     setLoading(tier.id)
 
     try {
       const result = await stripeService.createCheckoutSession(
         tier.priceId,
-        coupon.validation?.valid ? coupon.code : undefined
+        couponAppliesTo(tier) ? coupon.code.trim() : undefined,
+        giftDetails
       )
 
       if (!result.success) {
@@ -94,15 +133,17 @@ export const PricingPage: React.FC<PricingPageProps> = ({ onClose }) => {
     }
   }
 
-  const getDiscountedPrice = (originalPrice: number): number => {
-    if (!coupon.validation?.valid || !coupon.validation.discountPercent) {
-      return originalPrice
-    }
-    return stripeService.calculateDiscountedPrice(originalPrice, coupon.validation.discountPercent)
+  const couponAppliesTo = (tier: PricingTier): boolean => {
+    return !!coupon.validation?.valid
+      && promotionService.appliesTo(coupon.validation, tier.promotionPriceId ?? tier.priceId)
+  }
+
+  const getDiscountedPrice = (tier: PricingTier): number => {
+    return stripeService.getDiscountedTierPrice(tier, coupon.validation)
   }
 
-  const formatPrice = (price: number): string => {
-    return stripeService.formatPrice(price)
+  const formatPrice = (price: number, currency?: string): string => {
+    return stripeService.formatPrice(price, currency)
   }
 
   return (
@@ -147,7 +188,7 @@ export const PricingPage: React.FC<PricingPageProps> = ({ onClose }) => {
               value={coupon.code}
               onChange={handleCouponChange}
               onBlur={validateCoupon}
-              placeholder="Enter code (e.g., EARLYBIRD)"
+              placeholder="Enter code"
               className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
             <button
@@ -166,7 +207,8 @@ export const PricingPage: React.FC<PricingPageProps> = ({ onClose }) => {
                   <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
                     <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
                   </svg>
-                  {coupon.validation.discountPercent}% discount applied!
+                  {promotionService.describe(coupon.validation)} applied!
+                  {!!coupon.validation.priceIds?.length && ' (selected packs only)'}
                 </span>
               ) : (
                 <span className="flex items-center gap-1">
@@ -180,12 +222,76 @@ export const PricingPage: React.FC<PricingPageProps> = ({ onClose }) => {
           )}
         </div>
 
+        {/* Gift Section */}
+        <div className="max-w-md mx-auto mb-8 bg-gray-800 rounded-lg p-6 border border-gray-700">
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={gift.enabled}
+              onChange={(e) => setGift(prev => ({ ...prev, enabled: e.target.checked }))}
+              className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-pink-500 focus:ring-pink-500"
+            />
+            <span className="text-lg font-semibold">Buying for the couple? Send it as a gift</span>
+          </label>
+
+          {gift.enabled ? (
+            <div className="mt-4 space-y-3">
+              <p className="text-sm text-gray-400">
+                You'll get a gift code after checkout to share however you like. The credits go to whoever redeems it.
+              </p>
+              <input
+                type="text"
+                value={gift.recipientName}
+                onChange={(e) => setGift(prev => ({ ...prev, recipientName: e.target.value }))}
+                placeholder="Recipient name (e.g. Sam & Alex)"
+                maxLength={100}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-pink-500"
+              />
+              <input
+                type="email"
+                value={gift.recipientEmail}
+                onChange={(e) => setGift(prev => ({ ...prev, recipientEmail: e.target.value }))}
+                placeholder="Recipient email (optional, for your records)"
+                maxLength={255}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-pink-500"
+              />
+              <textarea
+                value={gift.message}
+                onChange={(e) => setGift(prev => ({ ...prev, message: e.target.value }))}
+                placeholder="Add a message (optional)"
+                maxLength={GIFT_MESSAGE_MAX_LENGTH}
+                rows={3}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-pink-500"
+              />
+              <div>
+                <label htmlFor="gift-deliver-date" className="block text-sm text-gray-400 mb-1">
+                  Open on (optional) - the message stays hidden and the code can't be redeemed until then
+                </label>
+                <input
+                  id="gift-deliver-date"
+                  type="date"
+                  value={gift.deliverDate}
+                  min={today}
+                  onChange={(e) => setGift(prev => ({ ...prev, deliverDate: e.target.value }))}
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-pink-500"
+                />
+              </div>
+            </div>
+          ) : (
+            <p className="mt-2 text-sm text-gray-400">
+              Received a gift code?{' '}
+              <a href="/gift" className="text-pink-400 hover:text-pink-300 underline">Redeem it here</a>
+            </p>
+          )}
+        </div>
+
         {/* Pricing Tiers */}
         <div className="grid md:grid-cols-3 gap-8 max-w-5xl mx-auto">
           {tiers.map((tier) => {
             const originalPrice = tier.price
-            const discountedPrice = getDiscountedPrice(originalPrice)
+            const discountedPrice = getDiscountedPrice(tier)
             const hasDiscount = discountedPrice < originalPrice
+            const bonusCredits = couponAppliesTo(tier) ? coupon.validation?.bonusCredits || 0 : 0
 
             return (
               <div
@@ -223,21 +329,24 @@ export const PricingPage: React.FC<PricingPageProps> = ({ onClose }) => {
                   <div className="mb-4">
                     {hasDiscount && (
                       <div className="text-gray-400 line-through text-lg mb-1">
-                        {formatPrice(originalPrice)}
+                        {formatPrice(originalPrice, tier.currency)}
                       </div>
                     )}
                     <div className={`text-4xl font-bold ${hasDiscount ? 'text-green-400' : 'text-white'}`}>
-                      {formatPrice(discountedPrice)}
+                      {formatPrice(discountedPrice, tier.currency)}
                     </div>
                     {hasDiscount && (
                       <div className="text-green-400 text-sm font-medium mt-1">
-                        Save {formatPrice(originalPrice - discountedPrice)}!
+                        Save {formatPrice(originalPrice - discountedPrice, tier.currency)}!
                       </div>
                     )}
                   </div>
 
                   <div className="text-gray-300">
                     {tier.credits} AI Portrait Credits
+                    {bonusCredits > 0 && (
+                      <span className="text-green-400"> + {bonusCredits} bonus</span>
+                    )}
                   </div>
                 </div>
 
@@ -294,6 +403,8 @@ export const PricingPage: React.FC<PricingPageProps> = ({ onClose }) => {
                     </span>
                   ) : !stripeAvailable ? (
                     'Payment Unavailable'
+                  ) : gift.enabled ? (
+                    `Gift ${tier.name}`
                   ) : (
                     `Get ${tier.name}`
                   )}
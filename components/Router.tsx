@@ -4,14 +4,16 @@ import PrivacyPolicy from './PrivacyPolicy';
 import TermsOfService from './TermsOfService';
 import SuccessPage from './SuccessPage';
 import PasswordResetPage from './PasswordResetPage';
+import GiftPage from './GiftPage';
 import AdminDashboard from '../src/components/admin/AdminDashboard';
 import AdminProtectedRoute from '../src/components/admin/AdminProtectedRoute';
 
-type Route = 'home' | 'privacy' | 'terms' | 'success' | 'reset-password' | 'admin' | 'admin/users' | 'admin/alerts' | 'admin/packages' | 'admin/themes' | 'admin/prompts' | 'admin/credits';
+type Route = 'home' | 'privacy' | 'terms' | 'success' | 'reset-password' | 'gift' | 'admin' | 'admin/users' | 'admin/alerts' | 'admin/packages' | 'admin/themes' | 'admin/prompts' | 'admin/credits' | 'admin/promotions' | 'admin/api-keys' | 'admin/webhooks';
 
 const Router: React.FC = () => {
   const [currentRoute, setCurrentRoute] = useState<Route>('home');
   const [sessionId, setSessionId] = useState<string | undefined>();
+  const [giftCode, setGiftCode] = useState<string | undefined>();
 
   useEffect(() => {
     // Simple hash-based routing with query parameter support
@@ -26,6 +28,14 @@ const Router: React.FC = () => {
         return;
       }
       
+      // Gift redemption (?code=) and gift purchase confirmation (?purchased=)
+      if (window.location.pathname === '/gift') {
+        setCurrentRoute('gift');
+        setGiftCode(params.get('code') || undefined);
+        setSessionId(params.get('purchased') || undefined);
+        return;
+      }
+      
       // Check for password reset route from pathname
       if (window.location.pathname === '/reset-password' || hash.includes('type=recovery')) {
         setCurrentRoute('reset-password');
@@ -54,6 +64,15 @@ const Router: React.FC = () => {
       } else if (window.location.pathname === '/admin/credits') {
         setCurrentRoute('admin/credits');
         return;
+      } else if (window.location.pathname === '/admin/promotions') {
+        setCurrentRoute('admin/promotions');
+        return;
+      } else if (window.location.pathname === '/admin/api-keys') {
+        setCurrentRoute('admin/api-keys');
+        return;
+      } else if (window.location.pathname === '/admin/webhooks') {
+        setCurrentRoute('admin/webhooks');
+        return;
       }
       
       switch (hash) {
@@ -91,6 +110,15 @@ const Router: React.FC = () => {
         case 'admin/credits':
           setCurrentRoute('admin/credits');
           break;
+        case 'admin/promotions':
+          setCurrentRoute('admin/promotions');
+          break;
+        case 'admin/api-keys':
+          setCurrentRoute('admin/api-keys');
+          break;
+        case 'admin/webhooks':
+          setCurrentRoute('admin/webhooks');
+          break;
         default:
           setCurrentRoute('home');
       }
@@ -110,6 +138,9 @@ const Router: React.FC = () => {
   }, []);
 
   const navigate = (route: Route) => {
+    if (window.location.pathname === '/gift') {
+      window.history.pushState(null, '', '/');
+    }
     const hash = route === 'home' ? '' : route;
     window.location.hash = hash;
     setCurrentRoute(route);
@@ -156,6 +187,8 @@ const Router: React.FC = () => {
       return <SuccessPage sessionId={sessionId} />;
     case 'reset-password':
       return <PasswordResetPage navigate={navigate} />;
+    case 'gift':
+      return <GiftPage code={giftCode} purchasedSessionId={sessionId} onDone={() => navigate('home')} />;
     default:
       return <App navigate={navigate} />;
   }
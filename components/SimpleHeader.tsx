@@ -2,6 +2,7 @@ import React from 'react';
 import Icon from './Icon';
 import ThemeToggle from './ThemeToggle';
 import PWAInstallButton from './PWAInstallButton';
+import WalletSwitcher from './WalletSwitcher';
 import { useGenerationCounter } from '../hooks/useGenerationCounter';
 import { useAuth } from '../hooks/useAuth';
 
@@ -10,10 +11,11 @@ interface SimpleHeaderProps {
   onProfile?: () => void;
   onHelp?: () => void;
   onSettings?: () => void;
+  onGallery?: () => void;
   hideAuthButtons?: boolean;
 }
 
-const SimpleHeader: React.FC<SimpleHeaderProps> = ({ onLogin, onProfile, onHelp, onSettings, hideAuthButtons = false }) => {
+const SimpleHeader: React.FC<SimpleHeaderProps> = ({ onLogin, onProfile, onHelp, onSettings, onGallery, hideAuthButtons = false }) => {
   const { totalGenerations, dailyGenerations } = useGenerationCounter();
   const { user, isAuthenticated, isLoading } = useAuth();
   
@@ -118,6 +120,20 @@ const SimpleHeader: React.FC<SimpleHeaderProps> = ({ onLogin, onProfile, onHelp,
                   <>
                     {/* Separator */}
                     <div className="hidden md:block h-6 w-px bg-gray-300 dark:bg-gray-600"></div>
+                    <WalletSwitcher />
+                    {onGallery && (
+                      <button
+                        onClick={onGallery}
+                        className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-all duration-200"
+                        title="My Portraits"
+                      >
+                        <Icon 
+                          path="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" 
+                          className="w-5 h-5 md:w-4 md:h-4" 
+                        />
+                        <span className="hidden md:inline">My Portraits</span>
+                      </button>
+                    )}
                     <button
                       onClick={onProfile}
                       className="flex items-center gap-2 px-3 py-2 bg-gradient-to-r from-blue-50 to-teal-50 dark:from-blue-900/30 dark:to-teal-900/30 border border-blue-200 dark:border-blue-800 rounded-lg hover:from-blue-100 hover:to-teal-100 dark:hover:from-blue-900/40 dark:hover:to-teal-900/40 transition-all duration-300"
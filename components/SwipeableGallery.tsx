@@ -4,7 +4,9 @@ import { useTouch } from '../hooks/useTouch';
 import { useHapticFeedback } from './MobileEnhancements';
 import Icon from './Icon';
 import ImagePreviewModal from './ImagePreviewModal';
+import PortraitRating from './PortraitRating';
 import { posthogService } from '../services/posthogService';
+import { experimentService } from '../services/experimentService';
 import { generatePortraitFilename } from '../utils/filenameUtils';
 
 interface SwipeableGalleryProps {
@@ -169,6 +171,8 @@ const SwipeableGallery: React.FC<SwipeableGalleryProps> = ({
       onShowToast?.('No image available to save', 'error');
       return;
     }
+
+    if (content.style) experimentService.recordOutcome(content.style, 'download');
     
     try {
       const filename = generatePortraitFilename({
@@ -217,13 +221,23 @@ const SwipeableGallery: React.FC<SwipeableGalleryProps> = ({
       } else {
         // Standard download for desktop browsers, Chrome mobile, etc.
         try {
+          // Gallery images are signed storage URLs - browsers ignore the download
+          // attribute for cross-origin links, so fetch them into a blob first
+          const isRemote = !content.imageUrl.startsWith('data:') && !content.imageUrl.startsWith('blob:');
+          const href = isRemote
+            ? URL.createObjectURL(await (await fetch(content.imageUrl)).blob())
+            : content.imageUrl;
+
           const link = document.createElement('a');
-          link.href = content.imageUrl;
+          link.href = href;
           link.download = filename;
           link.style.display = 'none';
           document.body.appendChild(link);
           link.click();
           document.body.removeChild(link);
+          if (isRemote) {
+            setTimeout(() => URL.revokeObjectURL(href), 2000);
+          }
           onShowToast?.('Photo saved successfully!', 'success');
         } catch (downloadError) {
           // If standard download fails, try opening in new tab
@@ -371,6 +385,17 @@ const SwipeableGallery: React.FC<SwipeableGalleryProps> = ({
             `}
             onClick={(e) => e.stopPropagation()}
           >
+            {currentContent.style && (
+              <div className="mb-4">
+                <PortraitRating
+                  key={`${generationId || ''}:${currentContent.style}`}
+                  style={currentContent.style}
+                  generationId={generationId}
+                  portraitId={currentContent.portraitId}
+                  compact
+                />
+              </div>
+            )}
             <div className="flex justify-center gap-4">
               <button
                 onClick={() => setShowPreview(true)}
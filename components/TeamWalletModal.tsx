@@ -0,0 +1,308 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import Icon from './Icon';
+import { authService } from '../services/authService';
+import {
+  organizationService,
+  Organization,
+  OrganizationInvitation,
+  OrganizationRole,
+  MemberUsage
+} from '../services/organizationService';
+
+interface TeamWalletModalProps {
+  isOpen: boolean;
+  organizationId: string;
+  onClose: () => void;
+}
+
+const parseLimit = (value: string): number | null => {
+  const limit = parseInt(value, 10);
+  return Number.isNaN(limit) || limit < 0 ? null : limit;
+};
+
+const TeamWalletModal: React.FC<TeamWalletModalProps> = ({ isOpen, organizationId, onClose }) => {
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [members, setMembers] = useState<MemberUsage[]>([]);
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteLimit, setInviteLimit] = useState('');
+  const [limitDrafts, setLimitDrafts] = useState<Record<string, string>>({});
+  const [action, setAction] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const currentUserId = authService.getCurrentUser()?.id;
+  const isOwner = organization?.role === 'owner';
+
+  useEffect(() => {
+    if (isOpen) {
+      loadTeam();
+    }
+  }, [isOpen, organizationId]);
+
+  const loadTeam = async () => {
+    const organizations = await organizationService.getOrganizations();
+    const team = organizations.find(org => org.id === organizationId) || null;
+    setOrganization(team);
+    if (!team) return;
+
+    const usage = await organizationService.getMemberUsage(organizationId);
+    setMembers(usage);
+    setLimitDrafts(Object.fromEntries(usage.map(member => [
+      member.userId,
+      member.monthlyCreditLimit === null ? '' : String(member.monthlyCreditLimit)
+    ])));
+
+    setInvitations(team.role === 'owner'
+      ? await organizationService.getSentInvitations(organizationId)
+      : []);
+  };
+
+  const runAction = async (key: string, task: () => Promise<void>, message?: string) => {
+    setAction(key);
+    setError('');
+    setSuccess('');
+    try {
+      await task();
+      if (message) setSuccess(message);
+      await loadTeam();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setAction(null);
+    }
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = inviteEmail.trim();
+    if (!email) return;
+
+    runAction('invite', async () => {
+      await organizationService.inviteMember(organizationId, email, 'member', parseLimit(inviteLimit));
+      setInviteEmail('');
+      setInviteLimit('');
+    }, `Invitation sent to ${email}. They can accept it from the wallet menu once signed in.`);
+  };
+
+  const handleLeave = () => {
+    if (!currentUserId) return;
+    runAction('leave', async () => {
+      await organizationService.removeMember(organizationId, currentUserId);
+      onClose();
+    });
+  };
+
+  if (!isOpen) return null;
+
+  const totalUsed = members.reduce((sum, member) => sum + member.creditsUsed, 0);
+
+  // Portaled: the header it opens from has a backdrop filter, which would clip a fixed overlay
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-[60] p-4 animate-in fade-in duration-200 overflow-y-auto"
+      onClick={onClose}
+      style={{ paddingTop: 'max(2rem, env(safe-area-inset-top))' }}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-lg w-full mx-4 my-8 animate-in zoom-in-95 duration-200 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        style={{ maxHeight: 'calc(100vh - 4rem)' }}
+      >
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+              {organization?.name || 'Team'}
+            </h2>
+            {organization && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {organization.credits} credits in the team wallet
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="flex items-center justify-center w-10 h-10 text-gray-700 dark:text-gray-200 hover:text-gray-900 dark:hover:text-white bg-gray-100 dark:bg-gray-600 hover:bg-gray-200 dark:hover:bg-gray-500 border-2 border-gray-300 dark:border-gray-500 rounded-full transition-all duration-200 shadow-sm hover:shadow-md"
+            aria-label="Close modal"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2.5">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 overflow-y-auto flex-1">
+          {success && (
+            <div className="bg-green-50 dark:bg-green-900/20 border border-green-300 dark:border-green-700 rounded-lg p-3">
+              <div className="flex items-center gap-2">
+                <Icon path="M5 13l4 4L19 7" className="w-5 h-5 text-green-600 dark:text-green-400" />
+                <span className="text-green-800 dark:text-green-200 text-sm">{success}</span>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-300 dark:border-red-700 rounded-lg p-3">
+              <div className="flex items-center gap-2">
+                <Icon path="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z" className="w-5 h-5 text-red-600 dark:text-red-400" />
+                <span className="text-red-800 dark:text-red-200 text-sm">{error}</span>
+              </div>
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            While this wallet is selected, portraits are charged to the team and credit packs you buy are added to it.
+          </p>
+
+          {/* Usage by member */}
+          <div className="bg-white dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600 p-4">
+            <h4 className="font-semibold text-gray-900 dark:text-white mb-3 flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <Icon path="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+                Members
+              </span>
+              <span className="text-xs font-normal text-gray-500 dark:text-gray-400">
+                {totalUsed} credits used this month
+              </span>
+            </h4>
+            <div className="space-y-2">
+              {members.map(member => (
+                <div key={member.userId} className="px-3 py-2 border border-gray-200 dark:border-gray-600 rounded-lg">
+                  <div className="flex justify-between items-start gap-3">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {member.displayName || member.email}
+                        {member.userId === currentUserId && ' (you)'}
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {member.role === 'owner' ? 'Owner' : 'Member'} · {member.creditsUsed}
+                        {member.monthlyCreditLimit !== null && ` / ${member.monthlyCreditLimit}`} credits used this month
+                        {member.creditsPurchased > 0 && ` · bought ${member.creditsPurchased}`}
+                      </div>
+                    </div>
+                    {isOwner && member.userId !== currentUserId && (
+                      <button
+                        onClick={() => runAction(`remove:${member.userId}`, () => organizationService.removeMember(organizationId, member.userId))}
+                        disabled={action !== null}
+                        className="text-xs text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+
+                  {isOwner && (
+                    <div className="flex items-center gap-2 mt-2 text-xs">
+                      <select
+                        value={member.role}
+                        onChange={(e) => runAction(
+                          `role:${member.userId}`,
+                          () => organizationService.updateMember(organizationId, member.userId, e.target.value as OrganizationRole, member.monthlyCreditLimit)
+                        )}
+                        disabled={action !== null}
+                        className="px-2 py-1 border border-gray-300 dark:border-gray-500 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                      >
+                        <option value="member">Member</option>
+                        <option value="owner">Owner</option>
+                      </select>
+                      <input
+                        type="number"
+                        min={0}
+                        placeholder="No limit"
+                        value={limitDrafts[member.userId] ?? ''}
+                        onChange={(e) => setLimitDrafts(drafts => ({ ...drafts, [member.userId]: e.target.value }))}
+                        className="w-24 px-2 py-1 border border-gray-300 dark:border-gray-500 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                      />
+                      <span className="text-gray-500 dark:text-gray-400">credits / month</span>
+                      <button
+                        onClick={() => runAction(
+                          `limit:${member.userId}`,
+                          () => organizationService.updateMember(organizationId, member.userId, member.role, parseLimit(limitDrafts[member.userId] ?? '')),
+                          'Limit saved'
+                        )}
+                        disabled={action !== null}
+                        className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                      >
+                        Save
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Invitations */}
+          {isOwner && (
+            <div className="bg-white dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600 p-4">
+              <h4 className="font-semibold text-gray-900 dark:text-white mb-3 flex items-center gap-2">
+                <Icon path="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+                Invite a member
+              </h4>
+              <form onSubmit={handleInvite} className="flex flex-wrap gap-2">
+                <input
+                  type="email"
+                  required
+                  placeholder="photographer@example.com"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 dark:border-gray-500 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="Monthly limit"
+                  value={inviteLimit}
+                  onChange={(e) => setInviteLimit(e.target.value)}
+                  className="w-32 px-3 py-2 text-sm border border-gray-300 dark:border-gray-500 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+                <button
+                  type="submit"
+                  disabled={action !== null}
+                  className="px-4 py-2 bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700 text-white text-sm font-medium rounded-lg disabled:opacity-50"
+                >
+                  {action === 'invite' ? 'Sending...' : 'Invite'}
+                </button>
+              </form>
+
+              {invitations.length > 0 && (
+                <div className="mt-3 space-y-1">
+                  {invitations.map(invitation => (
+                    <div key={invitation.id} className="flex justify-between items-center text-xs text-gray-600 dark:text-gray-300">
+                      <span>
+                        {invitation.email} · expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                      </span>
+                      <button
+                        onClick={() => runAction(`revoke:${invitation.id}`, () => organizationService.revokeInvitation(invitation.id))}
+                        disabled={action !== null}
+                        className="text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                      >
+                        Revoke
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {organization && !isOwner && (
+            <button
+              onClick={handleLeave}
+              disabled={action !== null}
+              className="w-full px-4 py-2 text-sm font-medium text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+            >
+              {action === 'leave' ? 'Leaving...' : 'Leave team'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default TeamWalletModal;
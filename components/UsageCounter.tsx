@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import Icon from './Icon';
 import { rateLimiter, RateLimitResult } from '../utils/rateLimiter';
-import { creditsService, CreditBalance } from '../services/creditsService';
+import { creditsService, CreditBalance, ExpiringCredits } from '../services/creditsService';
 import { useAuth } from '../hooks/useAuth';
 
 interface UsageCounterProps {
@@ -18,6 +18,7 @@ const UsageCounter: React.FC<UsageCounterProps> = ({
   const { user } = useAuth();
   const [limitInfo, setLimitInfo] = useState<RateLimitResult | null>(null);
   const [creditBalance, setCreditBalance] = useState<CreditBalance | null>(null);
+  const [expiringCredits, setExpiringCredits] = useState<ExpiringCredits | null>(null);
   const [timeUntilReset, setTimeUntilReset] = useState<string>('');
   const [hasConnectionError, setHasConnectionError] = useState<boolean>(false);
 
@@ -25,8 +26,12 @@ const UsageCounter: React.FC<UsageCounterProps> = ({
     if (user) {
       // For authenticated users, get credit balance with error handling
       try {
-        const balance = await creditsService.getBalance();
+        const [balance, expiring] = await Promise.all([
+          creditsService.getBalance(),
+          creditsService.getExpiringCredits()
+        ]);
         setCreditBalance(balance);
+        setExpiringCredits(expiring);
         setLimitInfo(null);
         setHasConnectionError(false); // Clear any previous connection errors
         
@@ -43,6 +48,7 @@ const UsageCounter: React.FC<UsageCounterProps> = ({
           freeCreditsRemaining: 0,
           paidCredits: 0,
           bonusCredits: 0,
+          subscriptionCredits: 0,
           totalAvailable: 0,
           canUseCredits: false
         };
@@ -67,6 +73,7 @@ const UsageCounter: React.FC<UsageCounterProps> = ({
         
         setLimitInfo(info);
         setCreditBalance(null);
+        setExpiringCredits(null);
         
         if (showTimeUntilReset) {
           setTimeUntilReset(rateLimiter.getTimeUntilReset());
@@ -188,6 +195,10 @@ const UsageCounter: React.FC<UsageCounterProps> = ({
     return 'bg-green-500';
   };
 
+  const expiryDate = expiringCredits
+    ? new Date(expiringCredits.nextExpiresAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+    : '';
+
   const progressPercentage = isAuthenticated ? 
     (total > 0 ? Math.round(((total - remaining) / total) * 100) : 0) :
     Math.round(used / displayLimit * 100);
@@ -203,8 +214,8 @@ const UsageCounter: React.FC<UsageCounterProps> = ({
           {isAuthenticated ? (
             creditBalance?.totalAvailable ? (
               creditBalance.freeCreditsRemaining > 0 ? (
-                creditBalance.paidCredits + creditBalance.bonusCredits > 0 ?
-                  `${Math.min(creditBalance.freeCreditsRemaining, 3)}/3 free + ${creditBalance.paidCredits + creditBalance.bonusCredits} photo shoots` :
+                creditBalance.paidCredits + creditBalance.bonusCredits + creditBalance.subscriptionCredits > 0 ?
+                  `${Math.min(creditBalance.freeCreditsRemaining, 3)}/3 free + ${creditBalance.paidCredits + creditBalance.bonusCredits + creditBalance.subscriptionCredits} photo shoots` :
                   `${Math.min(creditBalance.freeCreditsRemaining, 3)}/3 free photo shoots available (${Math.min(creditBalance.freeCreditsRemaining, 3) * 3} images)`
               ) : (
                 `${creditBalance.totalAvailable} photo shoots available`
@@ -221,6 +232,14 @@ const UsageCounter: React.FC<UsageCounterProps> = ({
             (resets in {timeUntilReset})
           </span>
         )}
+        {isAuthenticated && expiringCredits && (
+          <span
+            className="text-xs px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300"
+            title={`${creditsService.formatCredits(expiringCredits.credits)} expiring soon, the first on ${expiryDate}`}
+          >
+            {expiringCredits.credits} expiring {expiryDate}
+          </span>
+        )}
       </div>
     );
   }
@@ -272,6 +291,19 @@ const UsageCounter: React.FC<UsageCounterProps> = ({
         </div>
       )}
 
+      {/* Expiring Credits */}
+      {isAuthenticated && expiringCredits && (
+        <div className="mb-3 p-2 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded text-xs text-amber-800 dark:text-amber-200">
+          <div className="flex items-center gap-1">
+            <Icon 
+              path="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" 
+              className="w-3 h-3" 
+            />
+            {creditsService.formatCredits(expiringCredits.credits)} expiring soon, the first on {expiryDate}. These are used first.
+          </div>
+        </div>
+      )}
+
       {/* Status Message */}
       <div className="text-sm text-gray-600 dark:text-gray-400">
         {isAuthenticated ? (
@@ -280,6 +312,9 @@ const UsageCounter: React.FC<UsageCounterProps> = ({
               {creditBalance.freeCreditsRemaining > 0 && (
                 <div>Free today: <strong className={getStatusColor()}>{Math.min(creditBalance.freeCreditsRemaining, 3)}/3</strong> <span className="text-xs text-gray-500">({Math.min(creditBalance.freeCreditsRemaining, 3) * 3} images)</span></div>
               )}
+              {creditBalance.subscriptionCredits > 0 && (
+                <div>Subscription: <strong className="text-purple-600 dark:text-purple-400">{creditBalance.subscriptionCredits}</strong> <span className="text-xs text-gray-500">({creditBalance.subscriptionCredits * 3} images)</span></div>
+              )}
               {creditBalance.paidCredits > 0 && (
                 <div>Purchased: <strong className="text-blue-600 dark:text-blue-400">{creditBalance.paidCredits}</strong> <span className="text-xs text-gray-500">({creditBalance.paidCredits * 3} images)</span></div>
               )}
@@ -3,6 +3,9 @@ import Icon from './Icon';
 import { authService, AuthUser } from '../services/authService';
 import { rateLimiter } from '../utils/rateLimiter';
 import { creditsService, CreditBalance } from '../services/creditsService';
+import { referralService, ReferralSummary } from '../services/referralService';
+import { subscriptionService, SubscriptionPlan, UserSubscription } from '../services/subscriptionService';
+import { receiptService, Receipt } from '../services/receiptService';
 
 interface UserProfileProps {
   isOpen: boolean;
@@ -29,6 +32,12 @@ const UserProfile: React.FC<UserProfileProps> = ({
     percentage: 0
   });
   const [creditBalance, setCreditBalance] = useState<CreditBalance | null>(null);
+  const [referralSummary, setReferralSummary] = useState<ReferralSummary | null>(null);
+  const [subscription, setSubscription] = useState<UserSubscription | null>(null);
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+  const [subscriptionAction, setSubscriptionAction] = useState<string | null>(null);
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [receiptAction, setReceiptAction] = useState<string | null>(null);
 
   useEffect(() => {
     if (isOpen) {
@@ -37,6 +46,9 @@ const UserProfile: React.FC<UserProfileProps> = ({
       
       // Load comprehensive credit balance
       loadCreditBalance();
+      loadReferralSummary();
+      loadSubscription();
+      loadReceipts();
     }
   }, [isOpen]);
 
@@ -49,6 +61,72 @@ const UserProfile: React.FC<UserProfileProps> = ({
     }
   };
 
+  const loadReferralSummary = async () => {
+    setReferralSummary(await referralService.getSummary());
+  };
+
+  const loadSubscription = async () => {
+    const [current, available] = await Promise.all([
+      subscriptionService.getCurrentSubscription(),
+      subscriptionService.getPlans()
+    ]);
+    setSubscription(current);
+    setPlans(available);
+  };
+
+  const runSubscriptionAction = async (key: string, action: () => Promise<void>, message?: string) => {
+    setError('');
+    setSubscriptionAction(key);
+    try {
+      await action();
+      if (message) {
+        setSuccess(message);
+        setTimeout(() => setSuccess(''), 3000);
+      }
+      await Promise.all([loadSubscription(), loadCreditBalance()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Subscription update failed');
+    } finally {
+      setSubscriptionAction(null);
+    }
+  };
+
+  const handleCancelSubscription = () => {
+    if (!subscription) return;
+    const endsOn = new Date(subscription.currentPeriodEnd).toLocaleDateString();
+    if (!confirm(`Cancel your subscription? You keep your credits and plan until ${endsOn}.`)) return;
+    runSubscriptionAction('cancel', () => subscriptionService.cancel(), `Subscription will end on ${endsOn}`);
+  };
+
+  const handleChangePlan = (plan: SubscriptionPlan) => {
+    const isUpgrade = !!subscription?.plan && plan.monthly_credits > subscription.plan.monthly_credits;
+    const note = isUpgrade
+      ? 'You will be charged the prorated difference now and get the extra credits for the rest of this period.'
+      : 'The new allowance starts with your next billing period.';
+    if (!confirm(`Switch to ${plan.name} (${subscriptionService.formatPrice(plan)})? ${note}`)) return;
+    runSubscriptionAction(plan.id, () => subscriptionService.changePlan(plan.id), `Switched to ${plan.name}`);
+  };
+
+  const loadReceipts = async () => {
+    setReceipts(await receiptService.getReceipts());
+  };
+
+  const runReceiptAction = async (key: string, action: () => Promise<void>, message?: string) => {
+    setError('');
+    setReceiptAction(key);
+    try {
+      await action();
+      if (message) {
+        setSuccess(message);
+        setTimeout(() => setSuccess(''), 3000);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Receipt request failed');
+    } finally {
+      setReceiptAction(null);
+    }
+  };
+
   const handleUpdateProfile = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -87,12 +165,17 @@ const UserProfile: React.FC<UserProfileProps> = ({
     }
   };
 
-  const copyReferralLink = () => {
-    if (user.referralCode) {
-      const referralUrl = `${window.location.origin}?ref=${user.referralCode}`;
-      navigator.clipboard.writeText(referralUrl);
-      setSuccess('Referral link copied!');
-      setTimeout(() => setSuccess(''), 3000);
+  const referralCode = referralSummary?.referralCode || user.referralCode;
+
+  const copyReferralLink = async () => {
+    if (referralCode) {
+      try {
+        await navigator.clipboard.writeText(referralService.getShareLink(referralCode));
+        setSuccess('Referral link copied!');
+        setTimeout(() => setSuccess(''), 3000);
+      } catch {
+        setError('Could not copy the link. Please copy it manually.');
+      }
     }
   };
 
@@ -270,6 +353,15 @@ const UserProfile: React.FC<UserProfileProps> = ({
                     </div>
                   )}
                   
+                  {creditBalance.subscriptionCredits > 0 && (
+                    <div className="flex justify-between items-center text-sm">
+                      <span className="text-gray-600 dark:text-gray-400">Subscription</span>
+                      <span className="font-medium text-teal-600 dark:text-teal-400">
+                        {creditBalance.subscriptionCredits}
+                      </span>
+                    </div>
+                  )}
+
                   {creditBalance.paidCredits > 0 && (
                     <div className="flex justify-between items-center text-sm">
                       <span className="text-gray-600 dark:text-gray-400">Purchased</span>
@@ -332,21 +424,190 @@ const UserProfile: React.FC<UserProfileProps> = ({
             )}
           </div>
 
+          {/* Subscription */}
+          {(subscription || plans.length > 0) && (
+            <div className="bg-white dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600 p-4">
+              <h4 className="font-semibold text-gray-900 dark:text-white mb-3 flex items-center gap-2">
+                <Icon path="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" className="w-4 h-4 text-teal-600 dark:text-teal-400" />
+                Subscription
+              </h4>
+
+              {subscription ? (
+                <div className="space-y-3">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <div className="font-medium text-gray-900 dark:text-white">
+                        {subscription.plan?.name || 'Subscription'}
+                      </div>
+                      {subscription.plan && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {subscription.plan.monthly_credits} credits/month · {subscriptionService.formatPrice(subscription.plan)}
+                        </div>
+                      )}
+                    </div>
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${
+                      subscription.status === 'past_due'
+                        ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+                        : subscription.cancelAtPeriodEnd
+                          ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+                          : 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                    }`}>
+                      {subscription.status === 'past_due' ? 'Payment due' : subscription.cancelAtPeriodEnd ? 'Canceling' : 'Active'}
+                    </span>
+                  </div>
+
+                  <p className="text-xs text-gray-600 dark:text-gray-400">
+                    {subscription.cancelAtPeriodEnd ? 'Ends' : 'Renews'} on {new Date(subscription.currentPeriodEnd).toLocaleDateString()}
+                    {subscription.creditsThisPeriod > 0 && ` · ${subscription.creditsThisPeriod} credits granted this period`}
+                  </p>
+                  {subscription.plan?.rollover_cap !== undefined && !subscription.cancelAtPeriodEnd && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {subscription.plan.rollover_cap === null
+                        ? 'Unused subscription credits roll over.'
+                        : subscription.plan.rollover_cap > 0
+                          ? `Up to ${subscription.plan.rollover_cap} unused subscription credits roll over at renewal.`
+                          : 'Unused subscription credits expire at renewal.'}
+                    </p>
+                  )}
+
+                  {!subscription.cancelAtPeriodEnd && plans.filter(plan => plan.id !== subscription.plan?.id).length > 0 && (
+                    <div className="space-y-2 pt-2 border-t border-gray-200 dark:border-gray-600">
+                      <span className="text-xs text-gray-500 dark:text-gray-400">Change plan</span>
+                      {plans.filter(plan => plan.id !== subscription.plan?.id).map(plan => (
+                        <button
+                          key={plan.id}
+                          onClick={() => handleChangePlan(plan)}
+                          disabled={subscriptionAction !== null}
+                          className="w-full flex justify-between items-center text-sm px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+                        >
+                          <span className="text-gray-900 dark:text-white">{plan.name} · {plan.monthly_credits} credits</span>
+                          <span className="text-gray-600 dark:text-gray-300">
+                            {subscriptionAction === plan.id ? 'Switching...' : subscriptionService.formatPrice(plan)}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  {subscription.cancelAtPeriodEnd ? (
+                    <button
+                      onClick={() => runSubscriptionAction('resume', () => subscriptionService.resume(), 'Subscription resumed')}
+                      disabled={subscriptionAction !== null}
+                      className="w-full bg-teal-600 hover:bg-teal-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg text-sm transition-colors"
+                    >
+                      {subscriptionAction === 'resume' ? 'Resuming...' : 'Keep my subscription'}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleCancelSubscription}
+                      disabled={subscriptionAction !== null}
+                      className="text-sm text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                    >
+                      {subscriptionAction === 'cancel' ? 'Canceling...' : 'Cancel subscription'}
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Get fresh credits every month. Unused credits roll over, cancel anytime.
+                  </p>
+                  {plans.map(plan => (
+                    <div key={plan.id} className="flex justify-between items-center gap-3 px-3 py-2 border border-gray-200 dark:border-gray-600 rounded-lg">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900 dark:text-white">{plan.name}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {plan.monthly_credits} credits/month · {subscriptionService.formatPrice(plan)}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => runSubscriptionAction(plan.id, () => subscriptionService.subscribe(plan.id))}
+                        disabled={subscriptionAction !== null}
+                        className="bg-teal-600 hover:bg-teal-700 disabled:bg-gray-400 text-white px-3 py-1.5 rounded-lg text-sm transition-colors"
+                      >
+                        {subscriptionAction === plan.id ? 'Redirecting...' : 'Subscribe'}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Purchases */}
+          {receipts.length > 0 && (
+            <div className="bg-white dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600 p-4">
+              <h4 className="font-semibold text-gray-900 dark:text-white mb-3 flex items-center gap-2">
+                <Icon path="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" className="w-4 h-4 text-indigo-600 dark:text-indigo-400" />
+                Purchases
+              </h4>
+              <div className="space-y-2">
+                {receipts.map(receipt => (
+                  <div key={receipt.id} className="px-3 py-2 border border-gray-200 dark:border-gray-600 rounded-lg">
+                    <div className="flex justify-between items-start gap-3">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900 dark:text-white">
+                          {receipt.line_items[0]?.description || 'Credit pack'}
+                          {receipt.gift_card_id && ' (gift)'}
+                        </div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {receipt.receipt_number} · {new Date(receipt.created_at).toLocaleDateString()} · {receipt.credits_granted} credits
+                          {receipt.bonus_credits > 0 && ` + ${receipt.bonus_credits} bonus`}
+                        </div>
+                      </div>
+                      <span className="text-sm font-medium text-gray-900 dark:text-white">
+                        {receiptService.formatTotal(receipt)}
+                      </span>
+                    </div>
+                    <div className="flex gap-3 mt-2 text-xs">
+                      <button
+                        onClick={() => runReceiptAction(`pdf:${receipt.id}`, () => receiptService.printReceipt(receipt))}
+                        disabled={receiptAction !== null}
+                        className="text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50"
+                      >
+                        {receiptAction === `pdf:${receipt.id}` ? 'Opening...' : 'PDF'}
+                      </button>
+                      <button
+                        onClick={() => runReceiptAction(`html:${receipt.id}`, () => receiptService.downloadReceipt(receipt))}
+                        disabled={receiptAction !== null}
+                        className="text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50"
+                      >
+                        {receiptAction === `html:${receipt.id}` ? 'Downloading...' : 'HTML'}
+                      </button>
+                      <button
+                        onClick={() => runReceiptAction(
+                          `email:${receipt.id}`,
+                          () => receiptService.resendReceipt(receipt),
+                          `Receipt ${receipt.receipt_number} emailed`
+                        )}
+                        disabled={receiptAction !== null}
+                        className="text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50"
+                      >
+                        {receiptAction === `email:${receipt.id}` ? 'Sending...' : 'Email me'}
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Referral Section */}
-          {user.referralCode && (
+          {referralCode && (
             <div className="bg-gradient-to-br from-green-50 to-emerald-50 dark:from-green-900/20 dark:to-emerald-900/20 rounded-lg p-4">
               <h4 className="font-semibold text-gray-900 dark:text-white mb-2 flex items-center gap-2">
                 <Icon path="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.367 2.684 3 3 0 00-5.367-2.684z" className="w-4 h-4 text-green-600 dark:text-green-400" />
                 Refer Friends
               </h4>
               <p className="text-sm text-gray-700 dark:text-gray-300 mb-3">
-                Share your referral link and earn credits when friends join!
+                Share your link. When a friend makes their first purchase, you get 5 credits and they get 10.
               </p>
               <div className="flex gap-2">
                 <input
                   type="text"
-                  value={`${window.location.origin}?ref=${user.referralCode}`}
+                  value={referralService.getShareLink(referralCode)}
                   readOnly
+                  onFocus={(e) => e.target.select()}
                   className="flex-1 px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-sm"
                 />
                 <button
@@ -356,6 +617,29 @@ const UserProfile: React.FC<UserProfileProps> = ({
                   Copy
                 </button>
               </div>
+
+              {referralSummary && (
+                <div className="grid grid-cols-3 gap-2 mt-3 text-center">
+                  <div className="bg-white/60 dark:bg-gray-800/40 rounded-lg py-2">
+                    <div className="text-lg font-semibold text-gray-900 dark:text-white">{referralSummary.pending}</div>
+                    <div className="text-xs text-gray-600 dark:text-gray-400">Signed up</div>
+                  </div>
+                  <div className="bg-white/60 dark:bg-gray-800/40 rounded-lg py-2">
+                    <div className="text-lg font-semibold text-gray-900 dark:text-white">{referralSummary.completed}</div>
+                    <div className="text-xs text-gray-600 dark:text-gray-400">Purchased</div>
+                  </div>
+                  <div className="bg-white/60 dark:bg-gray-800/40 rounded-lg py-2">
+                    <div className="text-lg font-semibold text-green-700 dark:text-green-400">{referralSummary.creditsEarned}</div>
+                    <div className="text-xs text-gray-600 dark:text-gray-400">Credits earned</div>
+                  </div>
+                </div>
+              )}
+
+              {referralSummary?.referredByStatus === 'pending' && (
+                <p className="text-xs text-green-700 dark:text-green-400 mt-3">
+                  You joined with a friend's link. Make your first purchase to get 10 bonus credits.
+                </p>
+              )}
             </div>
           )}
 
@@ -375,10 +659,6 @@ const UserProfile: React.FC<UserProfileProps> = ({
                 'Sign Out'
               )}
             </button>
-            
-            <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
-              Premium plans coming soon with unlimited portraits!
-            </p>
           </div>
         </div>
       </div>
@@ -0,0 +1,229 @@
+import React, { useState, useEffect, useRef } from 'react';
+import Icon from './Icon';
+import TeamWalletModal from './TeamWalletModal';
+import { creditsService } from '../services/creditsService';
+import {
+  organizationService,
+  Organization,
+  OrganizationInvitation,
+  WALLET_CHANGED_EVENT
+} from '../services/organizationService';
+
+const WALLET_ICON = 'M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z';
+
+/**
+ * Header dropdown for choosing which wallet credits are spent from: the
+ * user's own credits or a team wallet they belong to
+ */
+const WalletSwitcher: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(organizationService.getSelectedWalletId());
+  const [available, setAvailable] = useState<number | null>(null);
+  const [teamName, setTeamName] = useState('');
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [manageTeamId, setManageTeamId] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    loadWallets();
+
+    const handleWalletChange = () => loadWallets();
+    window.addEventListener(WALLET_CHANGED_EVENT, handleWalletChange);
+    window.addEventListener('counterUpdate', handleWalletChange);
+    return () => {
+      window.removeEventListener(WALLET_CHANGED_EVENT, handleWalletChange);
+      window.removeEventListener('counterUpdate', handleWalletChange);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const loadWallets = async () => {
+    const [teams, pending] = await Promise.all([
+      organizationService.getOrganizations(),
+      organizationService.getMyInvitations()
+    ]);
+    setOrganizations(teams);
+    setInvitations(pending);
+
+    try {
+      const balance = await creditsService.getBalance();
+      setSelectedId(balance.organizationId || null);
+      setAvailable(balance.totalAvailable);
+    } catch (err) {
+      console.error('Failed to load wallet balance:', err);
+    }
+  };
+
+  const selectWallet = (organizationId: string | null) => {
+    organizationService.selectWallet(organizationId);
+    setIsOpen(false);
+  };
+
+  const handleCreateTeam = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!teamName.trim()) return;
+
+    setIsBusy(true);
+    setError('');
+    try {
+      const team = await organizationService.createOrganization(teamName.trim());
+      setTeamName('');
+      organizationService.selectWallet(team.id);
+      setManageTeamId(team.id);
+      setIsOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create team');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAccept = async (invitation: OrganizationInvitation) => {
+    setIsBusy(true);
+    setError('');
+    const result = await organizationService.acceptInvitation(invitation.id);
+    setIsBusy(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to join team');
+      return;
+    }
+    organizationService.selectWallet(invitation.organizationId);
+  };
+
+  const selectedTeam = organizations.find(org => org.id === selectedId);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-all duration-200"
+        title="Choose which credits to use"
+      >
+        <span className="relative">
+          <Icon path={WALLET_ICON} className="w-5 h-5 md:w-4 md:h-4" />
+          {invitations.length > 0 && (
+            <span className="absolute -top-1 -right-1 w-2 h-2 bg-red-500 rounded-full" />
+          )}
+        </span>
+        <span className="hidden md:inline max-w-[8rem] truncate">
+          {selectedTeam ? selectedTeam.name : 'Personal'}
+        </span>
+        {available !== null && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">{available}</span>
+        )}
+        <Icon path="M19 9l-7 7-7-7" className="w-3 h-3 text-gray-500" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl z-50 p-2">
+          <p className="px-2 py-1 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase">
+            Spend credits from
+          </p>
+
+          <button
+            onClick={() => selectWallet(null)}
+            className={`w-full flex justify-between items-center px-3 py-2 text-sm rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 ${!selectedId ? 'text-blue-600 dark:text-blue-400 font-medium' : 'text-gray-700 dark:text-gray-300'}`}
+          >
+            <span>Personal</span>
+            {!selectedId && <Icon path="M5 13l4 4L19 7" className="w-4 h-4" />}
+          </button>
+
+          {organizations.map(org => (
+            <div key={org.id} className="flex items-center">
+              <button
+                onClick={() => selectWallet(org.id)}
+                className={`flex-1 flex justify-between items-center px-3 py-2 text-sm rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 ${selectedId === org.id ? 'text-blue-600 dark:text-blue-400 font-medium' : 'text-gray-700 dark:text-gray-300'}`}
+              >
+                <span className="truncate">{org.name}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">{org.credits} credits</span>
+              </button>
+              <button
+                onClick={() => {
+                  setManageTeamId(org.id);
+                  setIsOpen(false);
+                }}
+                className="p-2 text-gray-500 hover:text-blue-600 dark:hover:text-blue-400"
+                title={org.role === 'owner' ? 'Manage team' : 'Team usage'}
+              >
+                <Icon path="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+
+          {invitations.length > 0 && (
+            <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+              <p className="px-2 py-1 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase">
+                Invitations
+              </p>
+              {invitations.map(invitation => (
+                <div key={invitation.id} className="flex justify-between items-center px-3 py-2 text-sm text-gray-700 dark:text-gray-300">
+                  <span className="truncate">
+                    {invitation.organizationName}
+                    {invitation.invitedBy && <span className="block text-xs text-gray-500 dark:text-gray-400">from {invitation.invitedBy}</span>}
+                  </span>
+                  <button
+                    onClick={() => handleAccept(invitation)}
+                    disabled={isBusy}
+                    className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                  >
+                    Join
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleCreateTeam} className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-700 flex gap-2 px-1">
+            <input
+              type="text"
+              placeholder="New team name"
+              maxLength={80}
+              value={teamName}
+              onChange={(e) => setTeamName(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+            />
+            <button
+              type="submit"
+              disabled={isBusy || !teamName.trim()}
+              className="px-3 py-1 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded disabled:opacity-50"
+            >
+              Create
+            </button>
+          </form>
+
+          {error && (
+            <p className="px-2 pt-2 text-xs text-red-600 dark:text-red-400">{error}</p>
+          )}
+        </div>
+      )}
+
+      {manageTeamId && (
+        <TeamWalletModal
+          isOpen
+          organizationId={manageTeamId}
+          onClose={() => {
+            setManageTeamId(null);
+            loadWallets();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default WalletSwitcher;
@@ -4,6 +4,10 @@ import ReactDOM from 'react-dom/client';
 import Router from './components/Router';
 import './index.css';
 import { posthogService } from './services/posthogService';
+import { referralService } from './services/referralService';
+
+// Remember ?ref= invite codes until the visitor signs up
+referralService.captureFromUrl();
 
 // Initialize PostHog analytics
 const posthogApiKey = process.env.POSTHOG_API_KEY;
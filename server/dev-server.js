@@ -12,7 +12,9 @@ const port = 3001;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// The Stripe webhook needs its raw body
+const jsonBody = express.json();
+app.use((req, res, next) => (req.path === '/api/webhooks/stripe' ? next() : jsonBody(req, res, next)));
 
 // Initialize Stripe
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
@@ -25,11 +27,70 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY
 );
 
+// Promotions and revenue are kept in the base currency
+const BASE_CURRENCY = 'usd';
+
+// Value of one unit of the currency in the base currency
+async function getRateToBase(currency) {
+  if (currency.toLowerCase() === BASE_CURRENCY) return 1;
+
+  const { data } = await supabase
+    .from('exchange_rates')
+    .select('rate_to_base')
+    .eq('currency', currency.toUpperCase())
+    .maybeSingle();
+
+  return Number(data?.rate_to_base) || 1;
+}
+
+// Reuse the promotion's Stripe coupon, creating it if it's missing in this Stripe environment
+async function getStripeCoupon(promotion, currency) {
+  // The stored coupon is in the base currency; other currencies get a single-use
+  // coupon for the converted amount
+  if (promotion.amount_off && currency.toLowerCase() !== BASE_CURRENCY) {
+    const rate = await getRateToBase(currency);
+    const coupon = await stripe.coupons.create({
+      name: promotion.code,
+      duration: 'once',
+      amount_off: Math.round(promotion.amount_off / rate),
+      currency,
+      max_redemptions: 1,
+      metadata: { promotion_id: promotion.promotion_id }
+    });
+    return coupon.id;
+  }
+
+  if (promotion.stripe_coupon_id) {
+    try {
+      const existing = await stripe.coupons.retrieve(promotion.stripe_coupon_id);
+      if (existing.valid) return existing.id;
+    } catch {
+      console.log('Stored coupon not found in current Stripe environment, creating new one');
+    }
+  }
+
+  const coupon = await stripe.coupons.create({
+    name: promotion.code,
+    duration: 'once',
+    ...(promotion.percent_off
+      ? { percent_off: promotion.percent_off }
+      : { amount_off: promotion.amount_off, currency }),
+    metadata: { promotion_id: promotion.promotion_id }
+  });
+
+  await supabase
+    .from('promotions')
+    .update({ stripe_coupon_id: coupon.id, updated_at: new Date().toISOString() })
+    .eq('id', promotion.promotion_id);
+
+  return coupon.id;
+}
+
 // Checkout endpoint
 app.post('/api/checkout/create', async (req, res) => {
   console.log('📦 Checkout request received:', { body: req.body });
   try {
-    const { priceId, userId, couponCode } = req.body;
+    const { priceId, userId, couponCode, gift, organizationId } = req.body;
 
     if (!priceId || !userId) {
       return res.status(400).json({ 
@@ -37,6 +98,27 @@ app.post('/api/checkout/create', async (req, res) => {
       });
     }
 
+    // The signed-in user, from the session token. Coupon codes are reserved
+    // for this user, never for the body's userId.
+    const token = req.headers.authorization?.replace('Bearer ', '') || '';
+    const { data: { user: authUser } } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null } };
+
+    if (authUser && authUser.id !== userId) {
+      return res.status(403).json({ error: 'userId does not match the signed-in user' });
+    }
+
+    // Regional prices carry their pack's credits, so the webhook doesn't have to
+    // infer them from the amount paid
+    const { data: regionalPrice } = await supabase.rpc('resolve_checkout_price', {
+      p_stripe_price_id: priceId
+    });
+
+    if (regionalPrice?.found && !regionalPrice.active) {
+      return res.status(400).json({ error: 'This price is no longer available' });
+    }
+
     // Get user details
     const { data: userData, error: userError } = await supabase
       .from('users')
@@ -95,22 +177,122 @@ app.post('/api/checkout/create', async (req, res) => {
       }
     };
 
-    // Apply coupon if provided
+    if (regionalPrice?.found) {
+      sessionParams.metadata = {
+        ...sessionParams.metadata,
+        pack_id: regionalPrice.product_id,
+        credits: String(regionalPrice.credits ?? ''),
+        price_book: regionalPrice.price_book
+      };
+    }
+
+    // Credits bought with a team wallet selected go to the team; any member can top it up
+    if (organizationId && !gift) {
+      const { data: membership } = await supabase
+        .from('organization_members')
+        .select('role')
+        .eq('organization_id', organizationId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (!membership) {
+        return res.status(403).json({ error: 'You are not a member of this team' });
+      }
+
+      sessionParams.metadata = { ...sessionParams.metadata, organization_id: organizationId };
+    }
+
+    // Gift purchases pay out to a redeemable code instead of the buyer's balance
+    let giftCardId = null;
+    if (gift) {
+      const { data: giftCard, error: giftError } = await supabase.rpc('create_gift_card', {
+        p_purchaser_user_id: userId,
+        p_price_id: priceId,
+        p_recipient_name: gift.recipientName || null,
+        p_recipient_email: gift.recipientEmail || null,
+        p_message: gift.message || null,
+        p_deliver_at: gift.deliverAt || null
+      });
+
+      if (giftError) {
+        return res.status(400).json({ error: giftError.message || 'Invalid gift details' });
+      }
+
+      giftCardId = giftCard.id;
+      sessionParams.metadata = { ...sessionParams.metadata, gift_card_id: giftCard.id };
+      sessionParams.success_url = `http://localhost:5173/gift?purchased={CHECKOUT_SESSION_ID}`;
+    }
+
+    // Validate and reserve the promotion code server-side
+    let promotion = null;
     if (couponCode) {
-      try {
-        const coupon = await stripe.coupons.retrieve(couponCode);
-        if (coupon.valid) {
-          sessionParams.discounts = [{
-            coupon: couponCode
-          }];
-        }
-      } catch (couponError) {
-        console.warn('Invalid coupon code:', couponCode);
-        // Continue without coupon rather than failing
+      if (!authUser) {
+        return res.status(401).json({ error: 'Please sign in to use a coupon code' });
+      }
+
+      const price = await stripe.prices.retrieve(priceId);
+      const { data: reservation, error: reservationError } = await supabase.rpc('reserve_promotion', {
+        p_code: couponCode,
+        p_user_id: authUser.id,
+        p_price_id: regionalPrice?.promotion_price_id || priceId,
+        p_amount: Math.round((price.unit_amount ?? 0) * await getRateToBase(price.currency))
+      });
+
+      if (reservationError) {
+        throw reservationError;
+      }
+
+      if (!reservation?.valid) {
+        return res.status(400).json({ error: reservation?.error || 'Invalid coupon code' });
+      }
+
+      promotion = reservation;
+      sessionParams.metadata = {
+        ...sessionParams.metadata,
+        promotion_code: promotion.code,
+        promotion_redemption_id: promotion.redemption_id
+      };
+
+      // Bonus-credit-only codes have nothing to discount
+      if (promotion.percent_off || promotion.amount_off) {
+        sessionParams.discounts = [{
+          coupon: await getStripeCoupon(promotion, price.currency)
+        }];
+      }
+    }
+
+    let session;
+    try {
+      session = await stripe.checkout.sessions.create(sessionParams);
+    } catch (sessionError) {
+      if (promotion) {
+        await supabase
+          .from('promotion_redemptions')
+          .update({ status: 'released' })
+          .eq('id', promotion.redemption_id);
+      }
+      if (giftCardId) {
+        await supabase
+          .from('gift_cards')
+          .update({ status: 'canceled', updated_at: new Date().toISOString() })
+          .eq('id', giftCardId);
       }
+      throw sessionError;
+    }
+
+    if (promotion) {
+      await supabase
+        .from('promotion_redemptions')
+        .update({ stripe_session_id: session.id })
+        .eq('id', promotion.redemption_id);
     }
 
-    const session = await stripe.checkout.sessions.create(sessionParams);
+    if (giftCardId) {
+      await supabase
+        .from('gift_cards')
+        .update({ stripe_session_id: session.id })
+        .eq('id', giftCardId);
+    }
     
     console.log('✅ Checkout session created:', session.id);
     console.log('🔗 Redirect URL:', session.url);
@@ -137,83 +319,54 @@ app.post('/api/webhooks/test', express.json(), async (req, res) => {
 });
 
 // Webhook endpoint (for Stripe events)
-// Note: This endpoint needs raw body for signature verification
+// Forwards to the stripe-webhook edge function, so local events get the same
+// handling as production (credits, gift cards, team wallets, receipts,
+// invoice.paid and refunds). The raw body is passed on untouched for the
+// function's signature check.
 app.post('/api/webhooks/stripe', express.raw({ type: 'application/json' }), async (req, res) => {
-  const sig = req.headers['stripe-signature'];
-  const endpointSecret = process.env.STRIPE_WEBHOOK_SECRET;
-
   try {
-    const event = stripe.webhooks.constructEvent(req.body, sig, endpointSecret);
-    
-    console.log(`Received webhook: ${event.type} (${event.id})`);
-
-    // Handle the event
-    switch (event.type) {
-      case 'checkout.session.completed':
-        const session = event.data.object;
-        console.log('Payment successful for session:', session.id);
-        
-        // Extract metadata
-        const userId = session.metadata.user_id;
-        const amountTotal = session.amount_total || 0;
-        
-        // Calculate credits based on amount
-        let creditsToAdd = 0;
-        switch (amountTotal) {
-          case 499:  // $4.99 - Starter Pack
-            creditsToAdd = 10;
-            break;
-          case 999:  // $9.99 - Wedding Pack
-            creditsToAdd = 25;
-            break;
-          case 2499: // $24.99 - Party Pack
-            creditsToAdd = 75;
-            break;
-          default:
-            console.warn(`Unknown payment amount: ${amountTotal} cents`);
-        }
-        
-        if (creditsToAdd > 0 && userId) {
-          try {
-            // Update user credits in database
-            const { error } = await supabase.rpc('add_paid_credits', {
-              p_user_id: userId,
-              p_credits: creditsToAdd,
-              p_stripe_payment_id: session.payment_intent,
-              p_description: `Credit purchase - Session ${session.id}`
-            });
-            
-            if (error) {
-              console.error('Error adding credits:', error);
-            } else {
-              console.log(`Successfully added ${creditsToAdd} credits to user ${userId}`);
-            }
-          } catch (dbError) {
-            console.error('Database error:', dbError);
-          }
-        }
-        break;
-        
-      case 'payment_intent.succeeded':
-        console.log('Payment intent succeeded:', event.data.object.id);
-        break;
-        
-      case 'payment_intent.payment_failed':
-        console.log('Payment failed:', event.data.object.id);
-        break;
-        
-      default:
-        console.log(`Unhandled event type ${event.type}`);
-    }
+    const response = await fetch(`${process.env.VITE_SUPABASE_URL}/functions/v1/stripe-webhook`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'stripe-signature': req.headers['stripe-signature'] || ''
+      },
+      body: req.body
+    });
 
-    res.json({ received: true });
+    const text = await response.text();
+    console.log(`Forwarded webhook to stripe-webhook: ${response.status}`);
+    res.status(response.status).type('application/json').send(text);
   } catch (err) {
     console.error('Webhook Error:', err.message);
-    res.status(400).send(`Webhook Error: ${err.message}`);
+    res.status(502).send(`Webhook Error: ${err.message}`);
   }
 });
 
+// Alert notification capture sink. Set ALERT_CAPTURE_URL on the edge functions
+// to http://host.docker.internal:3001/api/dev/alert-capture and alert emails,
+// Slack messages and webhooks are collected here instead of being sent.
+const capturedAlerts = [];
+
+app.post('/api/dev/alert-capture', (req, res) => {
+  const notification = { ...req.body, received_at: new Date().toISOString() };
+  capturedAlerts.unshift(notification);
+  capturedAlerts.length = Math.min(capturedAlerts.length, 100);
+  console.log(`🔔 Captured ${notification.channel?.type} alert for ${notification.channel?.target}: ${notification.subject}`);
+  res.json({ received: true });
+});
+
+app.get('/api/dev/alert-capture', (req, res) => {
+  res.json({ notifications: capturedAlerts });
+});
+
+app.delete('/api/dev/alert-capture', (req, res) => {
+  capturedAlerts.length = 0;
+  res.json({ cleared: true });
+});
+
 app.listen(port, () => {
   console.log(`Dev server running at http://localhost:${port}`);
   console.log('Stripe checkout endpoint: http://localhost:3001/api/checkout/create');
+  console.log('Alert capture sink: http://localhost:3001/api/dev/alert-capture');
 });
\ No newline at end of file
@@ -2,6 +2,7 @@ import { supabase } from './supabaseClient'
 import { User, Session, AuthError } from '@supabase/supabase-js'
 import { rateLimiter } from '../utils/rateLimiter'
 import { authErrorHandler, type ErrorContext } from '../utils/authErrors'
+import { referralService } from './referralService'
 
 export interface AuthUser {
   id: string
@@ -35,6 +36,33 @@ export interface SignInData {
   password: string
 }
 
+export type AdminRole = 'super_admin' | 'admin' | 'viewer'
+
+// Mirrors the admin_permissions catalogue (see the admin_rbac migration)
+export type AdminPermission =
+  | 'dashboard.view'
+  | 'users.view'
+  | 'users.edit'
+  | 'users.suspend'
+  | 'users.delete'
+  | 'credits.grant'
+  | 'export.data'
+  | 'export.pii'
+  | 'packages.edit'
+  | 'themes.edit'
+  | 'pricing.edit'
+  | 'prompts.edit'
+  | 'promotions.edit'
+  | 'alerts.manage'
+  | 'api_keys.manage'
+  | 'webhooks.manage'
+  | 'admins.manage'
+
+export interface AdminAccess {
+  role: AdminRole
+  permissions: AdminPermission[]
+}
+
 interface SessionInfo {
   id: string
   userId: string
@@ -49,6 +77,8 @@ class AuthService {
   private currentSession: Session | null = null
   private sessionInfo: SessionInfo | null = null
   private sessionRefreshTimer: NodeJS.Timeout | null = null
+  private referralCheckedFor: string | null = null
+  private adminAccess: AdminAccess | null = null
 
   constructor() {
     // Set up auth state listener
@@ -76,6 +106,12 @@ class AuthService {
             console.log('User role loaded:', profile.role);
           }
         })
+
+        // Record the device and claim a captured referral code once per sign-in
+        if (event === 'SIGNED_IN' && this.referralCheckedFor !== session.user.id) {
+          this.referralCheckedFor = session.user.id
+          referralService.onSignedIn()
+        }
         
         console.log('Auth state listener completed for:', this.currentUser?.email)
       } else {
@@ -227,13 +263,19 @@ class AuthService {
       console.log('Attempting signup for:', data.email)
       console.log('Supabase URL:', supabase.supabaseUrl)
       
+      // Kept in the signup metadata so the referral can still be claimed if the
+      // confirmation link is opened in another browser
+      const referralCode = data.referralCode || referralService.getPendingCode() || ''
+      const deviceFingerprint = referralCode ? await referralService.getDeviceFingerprint() : null
+
       const { data: authData, error: authError } = await supabase.auth.signUp({
         email: data.email,
         password: data.password,
         options: {
           data: {
             display_name: data.displayName || '',
-            referral_code: data.referralCode || ''
+            referral_code: referralCode,
+            device_fingerprint: deviceFingerprint || ''
           },
           emailRedirectTo: `${window.location.origin}`
         }
@@ -483,6 +525,7 @@ class AuthService {
       this.currentUser = null
       this.currentSession = null
       this.sessionInfo = null
+      this.adminAccess = null
       this.clearSessionRefreshTimer()
       
       return { success: true }
@@ -597,6 +640,34 @@ class AuthService {
     return this.currentUser?.role === 'super_admin'
   }
 
+  /**
+   * Load the current user's admin role and effective permissions (null for non-admins)
+   */
+  async loadAdminAccess(): Promise<AdminAccess | null> {
+    const { data, error } = await supabase.rpc('get_admin_access')
+
+    if (error) {
+      console.error('Failed to load admin access:', error)
+    }
+
+    this.adminAccess = data ? { role: data.role, permissions: data.permissions || [] } : null
+    return this.adminAccess
+  }
+
+  /**
+   * Admin access loaded by loadAdminAccess
+   */
+  getAdminAccess(): AdminAccess | null {
+    return this.adminAccess
+  }
+
+  /**
+   * Check if the current admin holds a permission
+   */
+  hasAdminPermission(permission: AdminPermission): boolean {
+    return !!this.adminAccess?.permissions.includes(permission)
+  }
+
   /**
    * Get session from storage (for initial load)
    */
@@ -8,12 +8,14 @@
 import { supabase } from './supabaseClient';
 import { authService } from './authService';
 import { PhotoPackagesService, type PackagePricingTier } from './photoPackagesService';
+import { organizationService } from './organizationService';
 
 export interface UserCredits {
   user_id: string;
   free_credits_used_today: number;
   paid_credits: number;
   bonus_credits: number;
+  subscription_credits: number;
   last_free_reset: string;
   total_available: number; // computed field
 }
@@ -23,14 +25,16 @@ export interface CreditBalance {
   freeCreditsRemaining: number;
   paidCredits: number;
   bonusCredits: number;
+  subscriptionCredits: number; // monthly plan allowance, spent before paid/bonus credits
   totalAvailable: number;
   canUseCredits: boolean;
+  organizationId?: string; // set when the balance is a team wallet's
 }
 
 export interface CreditTransaction {
   id: string;
   user_id: string;
-  type: 'free_daily' | 'purchase' | 'bonus' | 'usage' | 'refund';
+  type: 'free_daily' | 'purchase' | 'bonus' | 'usage' | 'refund' | 'subscription' | 'subscription_expired' | 'admin_adjustment' | 'correction' | 'expired';
   amount: number;
   balance_after: number;
   description?: string;
@@ -38,6 +42,11 @@ export interface CreditTransaction {
   created_at: string;
 }
 
+export interface ExpiringCredits {
+  credits: number; // across all lots expiring within the window
+  nextExpiresAt: string; // the soonest of those expiry dates
+}
+
 export interface ConsumeResult {
   success: boolean;
   newBalance: CreditBalance;
@@ -56,10 +65,12 @@ export interface PackageConsumeResult {
 
 const FREE_DAILY_LIMIT = 5;
 const DISPLAY_DAILY_LIMIT = 3; // What we show to users
+export const EXPIRY_WARNING_DAYS = 14;
 
 class CreditsService {
   /**
-   * Get current user's credit balance with retry logic
+   * Get current user's credit balance with retry logic. With a team wallet
+   * selected this is what the user may spend from that wallet.
    */
   async getBalance(): Promise<CreditBalance> {
     const maxRetries = 3;
@@ -70,6 +81,14 @@ class CreditsService {
       throw new Error('User not authenticated');
     }
 
+    const organizationId = organizationService.getSelectedWalletId();
+    if (organizationId) {
+      const walletBalance = await this.getWalletBalance(organizationId);
+      if (walletBalance) {
+        return walletBalance;
+      }
+    }
+
     // Check cache first for recent data
     const cacheKey = `credit_balance_${user.id}`;
     const cached = this.getCachedBalance(cacheKey);
@@ -107,17 +126,20 @@ class CreditsService {
           ret_free_credits_used_today: 0,
           ret_paid_credits: 0,
           ret_bonus_credits: 0,
+          ret_subscription_credits: 0,
           ret_last_free_reset: new Date().toISOString().split('T')[0]
         };
 
         const freeCreditsRemaining = Math.max(0, FREE_DAILY_LIMIT - (credits.ret_free_credits_used_today || 0));
-        const totalAvailable = freeCreditsRemaining + (credits.ret_paid_credits || 0) + (credits.ret_bonus_credits || 0);
+        const subscriptionCredits = credits.ret_subscription_credits || 0;
+        const totalAvailable = freeCreditsRemaining + (credits.ret_paid_credits || 0) + (credits.ret_bonus_credits || 0) + subscriptionCredits;
 
         const balance = {
           freeCreditsUsed: credits.ret_free_credits_used_today || 0,
           freeCreditsRemaining,
           paidCredits: credits.ret_paid_credits || 0,
           bonusCredits: credits.ret_bonus_credits || 0,
+          subscriptionCredits,
           totalAvailable,
           canUseCredits: totalAvailable > 0
         };
@@ -149,6 +171,7 @@ class CreditsService {
           freeCreditsRemaining: 0,
           paidCredits: 0,
           bonusCredits: 0,
+          subscriptionCredits: 0,
           totalAvailable: 0,
           canUseCredits: false
         };
@@ -161,11 +184,85 @@ class CreditsService {
       freeCreditsRemaining: 0,
       paidCredits: 0,
       bonusCredits: 0,
+      subscriptionCredits: 0,
       totalAvailable: 0,
       canUseCredits: false
     };
   }
 
+  /**
+   * Team wallet balance, capped by the member's monthly limit. Returns null
+   * (and drops the selection) when the user is no longer on the team.
+   */
+  private async getWalletBalance(organizationId: string): Promise<CreditBalance | null> {
+    try {
+      const wallet = await organizationService.getWallet(organizationId);
+      return {
+        freeCreditsUsed: 0,
+        freeCreditsRemaining: 0,
+        paidCredits: wallet.available,
+        bonusCredits: 0,
+        subscriptionCredits: 0,
+        totalAvailable: wallet.available,
+        canUseCredits: wallet.available > 0,
+        organizationId
+      };
+    } catch (error: any) {
+      if (error.message?.includes('not a member')) {
+        organizationService.selectWallet(null);
+        return null;
+      }
+
+      console.error('Failed to get team wallet balance:', error);
+      return {
+        freeCreditsUsed: 0,
+        freeCreditsRemaining: 0,
+        paidCredits: 0,
+        bonusCredits: 0,
+        subscriptionCredits: 0,
+        totalAvailable: 0,
+        canUseCredits: false,
+        organizationId
+      };
+    }
+  }
+
+  /**
+   * Credits that expire within the next few days. Spending already uses these
+   * first, so this is only for warning the user.
+   */
+  async getExpiringCredits(withinDays: number = EXPIRY_WARNING_DAYS): Promise<ExpiringCredits | null> {
+    const user = authService.getCurrentUser();
+    if (!user) {
+      return null;
+    }
+
+    const cutoff = new Date(Date.now() + withinDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await supabase
+      .from('credit_lots')
+      .select('remaining, expires_at')
+      .eq('user_id', user.id)
+      .gt('remaining', 0)
+      .not('expires_at', 'is', null)
+      .lte('expires_at', cutoff)
+      .order('expires_at', { ascending: true });
+
+    if (error) {
+      console.error('Error getting expiring credits:', error);
+      return null;
+    }
+
+    if (!data || data.length === 0) {
+      return null;
+    }
+
+    return {
+      credits: data.reduce((sum, lot) => sum + lot.remaining, 0),
+      nextExpiresAt: data[0].expires_at
+    };
+  }
+
   /**
    * Check if error should trigger a retry
    */
@@ -301,7 +398,9 @@ class CreditsService {
   }
 
   /**
-   * Consume credits for package usage
+   * Consume credits for package usage. process_package_usage takes the
+   * soonest-expiring bonus or purchased credits first; with a team wallet
+   * selected the wallet is charged instead.
    */
   async consumePackageCredits(
     packageId: string,
@@ -338,6 +437,11 @@ class CreditsService {
         };
       }
 
+      const organizationId = organizationService.getSelectedWalletId();
+      if (organizationId) {
+        return this.consumeWalletPackageCredits(organizationId, packageId, tierId, affordability.tier, themesUsed, sessionId, uploadType);
+      }
+
       // Process package usage through PhotoPackagesService
       const result = await PhotoPackagesService.processPackageUsage(
         user.id,
@@ -399,7 +503,61 @@ class CreditsService {
   }
 
   /**
-   * Consume one credit for portrait generation
+   * Package usage charged to a team wallet, recorded under the member
+   */
+  private async consumeWalletPackageCredits(
+    organizationId: string,
+    packageId: string,
+    tierId: string,
+    tier: PackagePricingTier,
+    themesUsed: string[],
+    sessionId: string | undefined,
+    uploadType: string
+  ): Promise<PackageConsumeResult> {
+    const { data, error } = await supabase.rpc('process_organization_package_usage', {
+      p_organization_id: organizationId,
+      p_package_id: packageId,
+      p_tier_id: tierId,
+      p_session_id: sessionId,
+      p_themes_used: themesUsed,
+      p_upload_type: uploadType
+    });
+
+    const newBalance = await this.getBalance();
+
+    if (error || !data?.success) {
+      if (error) {
+        console.error('Error charging team wallet:', error);
+      }
+      return {
+        success: false,
+        newBalance,
+        error: data?.error || 'Failed to process package usage',
+        usageId: '',
+        creditsUsed: 0,
+        tier
+      };
+    }
+
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('counterUpdate', {
+        detail: { credits: newBalance.totalAvailable }
+      }));
+    }
+
+    return {
+      success: true,
+      newBalance,
+      usageId: data.usage_id,
+      creditsUsed: data.credits_used,
+      tier
+    };
+  }
+
+  /**
+   * Consume one credit for portrait generation: free daily credits first, then
+   * whichever credits expire soonest (see consume_credit_atomic). With a team
+   * wallet selected the credit comes from the wallet.
    */
   async consumeCredit(description: string = 'Portrait generation'): Promise<ConsumeResult> {
     try {
@@ -423,13 +581,19 @@ class CreditsService {
       }
 
       // Consume credit atomically
-      const { data, error } = await supabase.rpc(
-        'consume_credit_atomic',
-        { 
-          p_user_id: user.id,
-          p_description: description
-        }
-      );
+      const organizationId = currentBalance.organizationId;
+      const { error } = organizationId
+        ? await supabase.rpc('consume_organization_credit', {
+            p_organization_id: organizationId,
+            p_description: description
+          })
+        : await supabase.rpc(
+            'consume_credit_atomic',
+            { 
+              p_user_id: user.id,
+              p_description: description
+            }
+          );
 
       if (error) {
         console.error('Error consuming credit:', error);
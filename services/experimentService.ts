@@ -0,0 +1,393 @@
+/**
+ * Experiment Service
+ *
+ * A/B experiments over prompt wording. Admins define weighted variants of a
+ * prompt template, package template or theme setting prompt; each user (or
+ * anonymous session) is deterministically bucketed into one variant, and the
+ * outcome of portraits generated with it is reported back per variant.
+ */
+
+import { supabase } from './supabaseClient';
+
+const SESSION_KEY = 'wedai_experiment_session';
+const CACHE_TTL_MS = 60 * 1000;
+
+export type ExperimentTargetType = 'prompt_template' | 'package_template' | 'theme_setting_prompt';
+export type ExperimentStatus = 'draft' | 'running' | 'paused' | 'completed';
+export type ExperimentEventType = 'success' | 'failure' | 'download' | 'regenerate' | 'rating';
+
+export interface ExperimentVariant {
+  id: string;
+  experiment_id: string;
+  name: string;
+  content: string | null; // null = control, keeps the current prompt
+  weight: number;
+  sort_order: number;
+}
+
+export interface PromptExperiment {
+  id: string;
+  name: string;
+  description: string | null;
+  target_type: ExperimentTargetType;
+  target_id: string;
+  status: ExperimentStatus;
+  started_at: string | null;
+  ended_at: string | null;
+  created_at: string;
+  variants: ExperimentVariant[];
+}
+
+export interface ExperimentAssignment {
+  experimentId: string;
+  variantId: string;
+  variantName: string;
+}
+
+export interface ExperimentVariantResult {
+  variant_id: string;
+  variant_name: string;
+  weight: number;
+  is_control: boolean;
+  subjects: number;
+  generations: number;
+  failures: number;
+  failure_rate: number;
+  downloads: number;
+  download_rate: number;
+  regenerates: number;
+  regenerate_rate: number;
+  ratings: number;
+  average_rating: number;
+}
+
+/**
+ * FNV-1a hash mapped to [0, 1). Stable across sessions and platforms.
+ */
+function hashToUnit(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Pick a variant for a subject in proportion to the variant weights.
+ * The same subject always lands in the same variant while weights are unchanged.
+ */
+export function pickVariant(
+  experimentId: string,
+  subjectId: string,
+  variants: ExperimentVariant[]
+): ExperimentVariant | null {
+  const eligible = variants.filter(v => v.weight > 0);
+  const totalWeight = eligible.reduce((sum, v) => sum + v.weight, 0);
+  if (totalWeight === 0) return null;
+
+  let point = hashToUnit(`${experimentId}:${subjectId}`) * totalWeight;
+  for (const variant of eligible) {
+    if (point < variant.weight) return variant;
+    point -= variant.weight;
+  }
+  return eligible[eligible.length - 1];
+}
+
+class ExperimentService {
+  private experiments: PromptExperiment[] | null = null;
+  private loadedAt = 0;
+  private loading: Promise<PromptExperiment[]> | null = null;
+  private recordedAssignments = new Set<string>();
+  // Assignments that shaped the prompt for each style in the current session,
+  // so later outcomes (success, download, rating) can be attributed
+  private exposures = new Map<string, ExperimentAssignment[]>();
+
+  /**
+   * Stable subject id: the signed-in user, otherwise a per-browser session id
+   */
+  public async getSubjectId(): Promise<string> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (session?.user?.id) return session.user.id;
+    } catch {
+      // fall through to the anonymous session id
+    }
+
+    try {
+      let sessionId = localStorage.getItem(SESSION_KEY);
+      if (!sessionId) {
+        sessionId = crypto.randomUUID();
+        localStorage.setItem(SESSION_KEY, sessionId);
+      }
+      return sessionId;
+    } catch {
+      return 'anonymous';
+    }
+  }
+
+  /**
+   * Running experiments with their variants, cached briefly
+   */
+  public async getRunningExperiments(): Promise<PromptExperiment[]> {
+    if (this.experiments && Date.now() - this.loadedAt < CACHE_TTL_MS) {
+      return this.experiments;
+    }
+    if (this.loading) return this.loading;
+
+    this.loading = (async () => {
+      try {
+        const { data, error } = await supabase
+          .from('prompt_experiments')
+          .select('*, variants:prompt_experiment_variants(*)')
+          .eq('status', 'running');
+
+        if (error) throw error;
+
+        this.experiments = (data || []) as PromptExperiment[];
+      } catch (error) {
+        console.warn('Failed to load prompt experiments:', error);
+        this.experiments = [];
+      }
+      this.loadedAt = Date.now();
+      this.loading = null;
+      return this.experiments;
+    })();
+
+    return this.loading;
+  }
+
+  /**
+   * Resolve the prompt text for a target. Returns the original text when no
+   * experiment is running or the subject's variant is the control.
+   */
+  public async resolvePrompt(
+    targetType: ExperimentTargetType,
+    targetId: string | undefined | null,
+    originalContent: string
+  ): Promise<{ content: string; assignment: ExperimentAssignment | null }> {
+    if (!targetId) return { content: originalContent, assignment: null };
+
+    try {
+      const experiments = await this.getRunningExperiments();
+      const experiment = experiments.find(e => e.target_type === targetType && e.target_id === targetId);
+      if (!experiment) return { content: originalContent, assignment: null };
+
+      const subjectId = await this.getSubjectId();
+      const variant = pickVariant(experiment.id, subjectId, experiment.variants || []);
+      if (!variant) return { content: originalContent, assignment: null };
+
+      const assignment: ExperimentAssignment = {
+        experimentId: experiment.id,
+        variantId: variant.id,
+        variantName: variant.name
+      };
+      this.recordAssignment(assignment, subjectId);
+
+      return { content: variant.content ?? originalContent, assignment };
+    } catch (error) {
+      console.warn('Failed to resolve prompt experiment:', error);
+      return { content: originalContent, assignment: null };
+    }
+  }
+
+  /**
+   * Remember which variants produced the prompt for a style. Generating the
+   * same style again in a session counts as a regenerate for those variants.
+   */
+  public noteExposure(style: string, assignments: Array<ExperimentAssignment | null>): void {
+    const active = assignments.filter((a): a is ExperimentAssignment => !!a);
+    if (active.length === 0) {
+      this.exposures.delete(style);
+      return;
+    }
+
+    const previous = this.exposures.get(style);
+    if (previous) {
+      this.recordEvent(previous, 'regenerate', undefined, { style });
+    }
+    this.exposures.set(style, active);
+  }
+
+  /**
+   * Report success/failure for each generated style
+   */
+  public recordGenerationOutcomes(contents: Array<{ style?: string; imageUrl: string | null }>): void {
+    for (const content of contents) {
+      if (!content.style) continue;
+      this.recordOutcome(content.style, content.imageUrl ? 'success' : 'failure');
+    }
+  }
+
+  /**
+   * Attribute an outcome for a generated style to the variants that produced it
+   */
+  public recordOutcome(style: string, eventType: ExperimentEventType, value?: number): void {
+    const assignments = this.exposures.get(style);
+    if (!assignments) return;
+    this.recordEvent(assignments, eventType, value, { style });
+  }
+
+  // ---- Admin ----
+
+  public async listExperiments(): Promise<PromptExperiment[]> {
+    const { data, error } = await supabase
+      .from('prompt_experiments')
+      .select('*, variants:prompt_experiment_variants(*)')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load experiments: ${error.message}`);
+    }
+
+    return (data || []).map((experiment: PromptExperiment) => ({
+      ...experiment,
+      variants: [...(experiment.variants || [])].sort((a, b) => a.sort_order - b.sort_order)
+    }));
+  }
+
+  public async createExperiment(input: {
+    name: string;
+    description?: string;
+    targetType: ExperimentTargetType;
+    targetId: string;
+    variants: Array<{ name: string; content: string | null; weight: number }>;
+  }): Promise<string> {
+    if (input.variants.length < 2) {
+      throw new Error('An experiment needs at least two variants');
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data: experiment, error } = await supabase
+      .from('prompt_experiments')
+      .insert({
+        name: input.name,
+        description: input.description || null,
+        target_type: input.targetType,
+        target_id: input.targetId,
+        created_by: user?.id || null
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create experiment: ${error.message}`);
+    }
+
+    const { error: variantError } = await supabase
+      .from('prompt_experiment_variants')
+      .insert(input.variants.map((variant, index) => ({
+        experiment_id: experiment.id,
+        name: variant.name,
+        content: variant.content,
+        weight: variant.weight,
+        sort_order: index
+      })));
+
+    if (variantError) {
+      await supabase.from('prompt_experiments').delete().eq('id', experiment.id);
+      throw new Error(`Failed to create experiment variants: ${variantError.message}`);
+    }
+
+    return experiment.id;
+  }
+
+  public async setStatus(experimentId: string, status: ExperimentStatus): Promise<void> {
+    const update: Record<string, any> = { status };
+    if (status === 'running') update.started_at = new Date().toISOString();
+    if (status === 'completed') update.ended_at = new Date().toISOString();
+
+    const { error } = await supabase
+      .from('prompt_experiments')
+      .update(update)
+      .eq('id', experimentId);
+
+    if (error) {
+      throw new Error(`Failed to update experiment: ${error.message}`);
+    }
+    this.experiments = null;
+  }
+
+  public async deleteExperiment(experimentId: string): Promise<void> {
+    const { error } = await supabase
+      .from('prompt_experiments')
+      .delete()
+      .eq('id', experimentId);
+
+    if (error) {
+      throw new Error(`Failed to delete experiment: ${error.message}`);
+    }
+    this.experiments = null;
+  }
+
+  public async getResults(experimentId: string): Promise<ExperimentVariantResult[]> {
+    const { data, error } = await supabase.rpc('get_experiment_results', {
+      p_experiment_id: experimentId
+    });
+
+    if (error) {
+      throw new Error(`Failed to load experiment results: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => ({
+      ...row,
+      subjects: Number(row.subjects),
+      generations: Number(row.generations),
+      failures: Number(row.failures),
+      failure_rate: Number(row.failure_rate),
+      downloads: Number(row.downloads),
+      download_rate: Number(row.download_rate),
+      regenerates: Number(row.regenerates),
+      regenerate_rate: Number(row.regenerate_rate),
+      ratings: Number(row.ratings),
+      average_rating: Number(row.average_rating)
+    }));
+  }
+
+  // ---- Reporting (fire and forget; experiments must never break generation) ----
+
+  private recordAssignment(assignment: ExperimentAssignment, subjectId: string): void {
+    const key = `${assignment.experimentId}:${subjectId}`;
+    if (this.recordedAssignments.has(key)) return;
+    this.recordedAssignments.add(key);
+
+    supabase
+      .rpc('record_experiment_assignment', {
+        p_experiment_id: assignment.experimentId,
+        p_variant_id: assignment.variantId,
+        p_subject_id: subjectId
+      })
+      .then(({ error }) => {
+        if (error) console.warn('Failed to record experiment assignment:', error);
+      });
+  }
+
+  private async recordEvent(
+    assignments: ExperimentAssignment[],
+    eventType: ExperimentEventType,
+    value?: number,
+    metadata: Record<string, any> = {}
+  ): Promise<void> {
+    try {
+      const subjectId = await this.getSubjectId();
+      await Promise.all(assignments.map(async assignment => {
+        const { error } = await supabase.rpc('record_experiment_event', {
+          p_experiment_id: assignment.experimentId,
+          p_variant_id: assignment.variantId,
+          p_subject_id: subjectId,
+          p_event_type: eventType,
+          p_value: value ?? null,
+          p_metadata: metadata
+        });
+        if (error) console.warn(`Failed to record experiment ${eventType}:`, error);
+      }));
+    } catch (error) {
+      console.warn(`Failed to record experiment ${eventType}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const experimentService = new ExperimentService();
+export default experimentService;
@@ -1,8 +1,6 @@
 
-import { GoogleGenAI, Modality, GenerateContentResponse } from "@google/genai";
 import { GeneratedContent } from '../types';
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+import { getImageProvider } from './imageProviders';
 
 const fileToBase64 = (file: File): Promise<{ base64: string; mimeType: string }> => {
   return new Promise((resolve, reject) => {
@@ -28,47 +26,17 @@ export const editImageWithNanoBanana = async (
   try {
     const { base64, mimeType } = await fileToBase64(imageFile);
 
-    const imagePart = {
-      inlineData: {
-        data: base64,
-        mimeType: mimeType,
-      },
-    };
-
-    const textPart = {
-      text: prompt,
-    };
+    const result = await getImageProvider().generate({ data: base64, mimeType }, prompt);
 
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image-preview',
-      contents: {
-        parts: [imagePart, textPart],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE, Modality.TEXT],
-      },
-    });
+    if (result.safety.blocked || !result.imageUrl) {
+        throw new Error("API did not return an image. It may have considered the prompt unsafe.");
+    }
 
     const generatedContent: GeneratedContent = {
-      imageUrl: null,
-      text: null,
+      imageUrl: result.imageUrl,
+      text: result.text,
     };
 
-    if (response.candidates && response.candidates.length > 0) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.text) {
-          generatedContent.text = part.text;
-        } else if (part.inlineData) {
-          const base64ImageBytes: string = part.inlineData.data;
-          generatedContent.imageUrl = `data:${part.inlineData.mimeType};base64,${base64ImageBytes}`;
-        }
-      }
-    }
-    
-    if (!generatedContent.imageUrl) {
-        throw new Error("API did not return an image. It may have considered the prompt unsafe.");
-    }
-
     return generatedContent;
   } catch (error: any) {
     console.error(`Error editing image (attempt ${retryCount + 1}):`, error);
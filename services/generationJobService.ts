@@ -0,0 +1,371 @@
+/**
+ * Generation Job Service
+ *
+ * Submits a photo shoot to the generation-jobs edge function and polls it until
+ * every style settles. The active job id is kept in localStorage so a reload,
+ * closed tab or dropped mobile connection can pick the shoot back up.
+ */
+
+import { supabase } from './supabaseClient';
+import { secureGeminiService, type GenerationResult } from './secureGeminiService';
+import { organizationService } from './organizationService';
+import type { PackageTheme } from './photoPackagesService';
+
+const ACTIVE_JOB_KEY = 'wedai_active_generation_job';
+const POLL_INTERVAL_MS = 3000;
+const MAX_POLL_INTERVAL_MS = 30000;
+const MAX_ACTIVE_JOB_AGE_MS = 24 * 60 * 60 * 1000; // don't resume shoots older than a day
+
+export type GenerationJobStatus = 'queued' | 'processing' | 'completed' | 'partial' | 'failed' | 'cancelled';
+export type GenerationJobItemStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface GenerationJob {
+  id: string;
+  status: GenerationJobStatus;
+  generation_id: string | null;
+  photo_type: 'single' | 'couple' | 'family';
+  total_styles: number;
+  completed_styles: number;
+  failed_styles: number;
+  credits_reserved: number;
+  credits_refunded: number;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface GenerationJobItem {
+  id: string;
+  style: string;
+  theme_id: string | null;
+  status: GenerationJobItemStatus;
+  attempts: number;
+  portrait_id: string | null;
+  text: string | null;
+  identity_score: number | null; // similarity to the uploaded photo, 0-1
+  identity_flagged: boolean;
+  error: string | null;
+  image_url: string | null;
+}
+
+export interface GenerationJobSnapshot {
+  job: GenerationJob;
+  items: GenerationJobItem[];
+}
+
+export interface ActiveJobRecord {
+  jobId: string;
+  styles: string[];
+  photoType: 'single' | 'couple' | 'family';
+  packageName?: string;
+  startedAt: number;
+}
+
+export interface StartShootOptions {
+  imageFile: File;
+  styles: string[];
+  customPrompt?: string;
+  photoType?: 'single' | 'couple' | 'family';
+  familyMemberCount?: number;
+  packageConfig?: {
+    packageId: string;
+    themes?: PackageTheme[];
+    packageData?: any;
+  };
+}
+
+export interface ShootResult {
+  results: (GenerationResult & { style: string })[];
+  successful: number;
+  failed: number;
+  creditsRefunded: number;
+}
+
+type ProgressCallback = (style: string, status: 'in_progress' | 'completed' | 'failed') => void;
+
+const TERMINAL_STATUSES: GenerationJobStatus[] = ['completed', 'partial', 'failed', 'cancelled'];
+
+class GenerationJobService {
+  private readonly edgeFunctionUrl: string;
+
+  constructor() {
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
+    this.edgeFunctionUrl = `${supabaseUrl}/functions/v1/generation-jobs`;
+  }
+
+  /**
+   * Build prompts client-side, upload the photo and queue the shoot
+   */
+  async createJob(options: StartShootOptions): Promise<ActiveJobRecord> {
+    const {
+      imageFile,
+      styles,
+      customPrompt = '',
+      photoType = 'couple',
+      familyMemberCount = 3,
+      packageConfig
+    } = options;
+
+    const stylesWithPrompts = await Promise.all(styles.map(async style => ({
+      style,
+      prompt: await secureGeminiService.buildStylePrompt(style, customPrompt, photoType, familyMemberCount, packageConfig),
+      themeId: packageConfig?.themes?.find(theme => theme.name === style || theme.id === style)?.id
+    })));
+
+    const { base64, mimeType } = await this.fileToBase64(imageFile);
+
+    const response = await fetch(this.edgeFunctionUrl, {
+      method: 'POST',
+      headers: await this.getAuthHeaders(),
+      body: JSON.stringify({
+        action: 'create',
+        imageData: base64,
+        imageType: mimeType,
+        styles: stylesWithPrompts,
+        photoType,
+        generationId: `shoot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        packageId: packageConfig?.packageId,
+        organizationId: organizationService.getSelectedWalletId()
+      })
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Failed to start photo shoot: ${response.status}`);
+    }
+
+    const record: ActiveJobRecord = {
+      jobId: data.jobId,
+      styles,
+      photoType,
+      packageName: packageConfig?.packageData?.name,
+      startedAt: Date.now()
+    };
+    this.setActiveJob(record);
+    return record;
+  }
+
+  /**
+   * Fetch the current state of a job. The edge function also restarts stalled workers.
+   */
+  async getJob(jobId: string): Promise<GenerationJobSnapshot> {
+    const response = await fetch(`${this.edgeFunctionUrl}?jobId=${encodeURIComponent(jobId)}`, {
+      method: 'GET',
+      headers: await this.getAuthHeaders()
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      const error = new Error(data.error || `Failed to load photo shoot: ${response.status}`);
+      (error as any).status = response.status;
+      throw error;
+    }
+
+    return { job: data.job, items: data.items };
+  }
+
+  /**
+   * Cancel styles that have not started yet; their credits are refunded
+   */
+  async cancelJob(jobId: string): Promise<void> {
+    await fetch(this.edgeFunctionUrl, {
+      method: 'POST',
+      headers: await this.getAuthHeaders(),
+      body: JSON.stringify({ action: 'cancel', jobId })
+    });
+    this.clearActiveJob();
+  }
+
+  /**
+   * Poll a job until it reaches a terminal status. Network errors (offline,
+   * flaky mobile data) back off and keep polling instead of failing the shoot.
+   */
+  async waitForJob(
+    jobId: string,
+    onProgressUpdate?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<GenerationJobSnapshot> {
+    const reported = new Map<string, string>();
+    let interval = POLL_INTERVAL_MS;
+
+    while (!signal?.aborted) {
+      try {
+        if (typeof navigator !== 'undefined' && !navigator.onLine) {
+          await this.waitForOnline(signal);
+          continue;
+        }
+
+        const snapshot = await this.getJob(jobId);
+        interval = POLL_INTERVAL_MS;
+
+        for (const item of snapshot.items) {
+          const status = this.toProgressStatus(item.status);
+          if (status && reported.get(item.style) !== status) {
+            reported.set(item.style, status);
+            onProgressUpdate?.(item.style, status);
+          }
+        }
+
+        if (TERMINAL_STATUSES.includes(snapshot.job.status)) {
+          this.clearActiveJob();
+          return snapshot;
+        }
+      } catch (error: any) {
+        if (error?.status === 404 || error?.status === 401) {
+          this.clearActiveJob();
+          throw error;
+        }
+        console.warn('Photo shoot status check failed, retrying:', error);
+        interval = Math.min(interval * 2, MAX_POLL_INTERVAL_MS);
+      }
+
+      await this.delay(interval, signal);
+    }
+
+    throw new Error('Photo shoot polling was cancelled');
+  }
+
+  /**
+   * Start a shoot and wait for it, returning the same shape as
+   * secureGeminiService.generateMultiplePortraits
+   */
+  async runShoot(options: StartShootOptions, onProgressUpdate?: ProgressCallback): Promise<ShootResult> {
+    const record = await this.createJob(options);
+    const snapshot = await this.waitForJob(record.jobId, onProgressUpdate);
+    return this.toShootResult(snapshot);
+  }
+
+  /**
+   * Convert a finished job into per-style generation results
+   */
+  toShootResult(snapshot: GenerationJobSnapshot): ShootResult {
+    const results = snapshot.items.map(item => {
+      if (item.status === 'completed' && item.image_url) {
+        return {
+          success: true,
+          style: item.style,
+          data: {
+            imageUrl: item.image_url,
+            text: item.text,
+            style: item.style,
+            portraitId: item.portrait_id
+          }
+        };
+      }
+
+      return {
+        success: false,
+        style: item.style,
+        error: item.status === 'cancelled' ? 'Cancelled' : item.error || 'Generation failed'
+      };
+    });
+
+    const successful = results.filter(r => r.success).length;
+    return {
+      results,
+      successful,
+      failed: results.length - successful,
+      creditsRefunded: snapshot.job.credits_refunded
+    };
+  }
+
+  /**
+   * The shoot that was running when the page was last closed, if any
+   */
+  getActiveJob(): ActiveJobRecord | null {
+    try {
+      const stored = localStorage.getItem(ACTIVE_JOB_KEY);
+      if (!stored) return null;
+
+      const record = JSON.parse(stored) as ActiveJobRecord;
+      if (Date.now() - record.startedAt > MAX_ACTIVE_JOB_AGE_MS) {
+        this.clearActiveJob();
+        return null;
+      }
+      return record;
+    } catch (error) {
+      console.warn('Error reading active photo shoot:', error);
+      return null;
+    }
+  }
+
+  clearActiveJob(): void {
+    try {
+      localStorage.removeItem(ACTIVE_JOB_KEY);
+    } catch (error) {
+      console.warn('Error clearing active photo shoot:', error);
+    }
+  }
+
+  private setActiveJob(record: ActiveJobRecord): void {
+    try {
+      localStorage.setItem(ACTIVE_JOB_KEY, JSON.stringify(record));
+    } catch (error) {
+      console.warn('Error saving active photo shoot:', error);
+    }
+  }
+
+  private toProgressStatus(status: GenerationJobItemStatus): 'in_progress' | 'completed' | 'failed' | null {
+    switch (status) {
+      case 'processing':
+        return 'in_progress';
+      case 'completed':
+        return 'completed';
+      case 'failed':
+      case 'cancelled':
+        return 'failed';
+      default:
+        return null;
+    }
+  }
+
+  private async getAuthHeaders(): Promise<Record<string, string>> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      throw new Error('Please sign in to run a background photo shoot');
+    }
+
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`
+    };
+  }
+
+  private async fileToBase64(file: File): Promise<{ base64: string; mimeType: string }> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.readAsDataURL(file);
+      reader.onload = () => {
+        const result = reader.result as string;
+        const [header, data] = result.split(',');
+        const mimeType = header.match(/:(.*?);/)?.[1] || 'application/octet-stream';
+        resolve({ base64: data, mimeType });
+      };
+      reader.onerror = error => reject(error);
+    });
+  }
+
+  private waitForOnline(signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        window.removeEventListener('online', done);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      };
+      window.addEventListener('online', done);
+      signal?.addEventListener('abort', done);
+    });
+  }
+
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+}
+
+// Export singleton instance
+export const generationJobService = new GenerationJobService();
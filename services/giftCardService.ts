@@ -0,0 +1,120 @@
+/**
+ * Gift Card Service
+ *
+ * Credit packs bought for someone else. The buyer checks out through the usual
+ * Stripe flow with gift details attached and gets a code once the payment is
+ * confirmed; the recipient redeems the code for paid credits.
+ */
+
+import { supabase } from './supabaseClient';
+
+export interface GiftDetails {
+  recipientName?: string;
+  recipientEmail?: string;
+  message?: string;
+  deliverAt?: string; // ISO timestamp; the gift can't be opened before this
+}
+
+export interface GiftCardPreview {
+  found: boolean;
+  code?: string;
+  status?: 'active' | 'redeemed' | 'refunded';
+  credits?: number;
+  senderName?: string | null;
+  recipientName?: string | null;
+  message?: string | null; // hidden until the delivery date
+  deliverAt?: string | null;
+  redeemable?: boolean;
+}
+
+export interface PurchasedGiftCard {
+  code: string;
+  status: 'pending' | 'active' | 'redeemed' | 'refunded' | 'canceled';
+  credits: number;
+  recipientName: string | null;
+  message: string | null;
+  deliverAt: string | null;
+}
+
+export interface GiftRedemptionResult {
+  success: boolean;
+  credits?: number;
+  error?: string;
+}
+
+export const GIFT_MESSAGE_MAX_LENGTH = 500;
+
+class GiftCardService {
+  public async getGiftCard(code: string): Promise<GiftCardPreview> {
+    const { data, error } = await supabase.rpc('get_gift_card', { p_code: code.trim() });
+
+    if (error) {
+      console.error('Failed to look up gift card:', error);
+      return { found: false };
+    }
+    if (!data?.found) {
+      return { found: false };
+    }
+
+    return {
+      found: true,
+      code: data.code,
+      status: data.status,
+      credits: data.credits,
+      senderName: data.sender_name,
+      recipientName: data.recipient_name,
+      message: data.message,
+      deliverAt: data.deliver_at,
+      redeemable: data.redeemable
+    };
+  }
+
+  /**
+   * Add the gift's credits to the signed-in user's balance
+   */
+  public async redeem(code: string): Promise<GiftRedemptionResult> {
+    const { data, error } = await supabase.rpc('redeem_gift_card', { p_code: code.trim() });
+
+    if (error) {
+      console.error('Gift redemption failed:', error);
+      return { success: false, error: 'Failed to redeem gift. Please try again.' };
+    }
+
+    return data as GiftRedemptionResult;
+  }
+
+  /**
+   * The gift bought in a checkout session, for the buyer's confirmation screen.
+   * Stays 'pending' until the Stripe webhook confirms the payment.
+   */
+  public async getPurchasedGift(sessionId: string): Promise<PurchasedGiftCard | null> {
+    const { data, error } = await supabase
+      .from('gift_cards')
+      .select('code, status, credits, recipient_name, message, deliver_at')
+      .eq('stripe_session_id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to load purchased gift:', error);
+      return null;
+    }
+    if (!data) return null;
+
+    return {
+      code: data.code,
+      status: data.status,
+      credits: data.credits,
+      recipientName: data.recipient_name,
+      message: data.message,
+      deliverAt: data.deliver_at
+    };
+  }
+
+  public getRedeemLink(code: string): string {
+    return `${window.location.origin}/gift?code=${encodeURIComponent(code)}`;
+  }
+}
+
+// Export singleton instance
+export const giftCardService = new GiftCardService();
+export default giftCardService;
@@ -0,0 +1,328 @@
+/**
+ * Image Preprocessing Service
+ *
+ * Prepares an uploaded photo before it is sent for generation: converts
+ * HEIC/HEIF, applies the EXIF orientation, downscales to a max edge, drops
+ * metadata (including GPS) by re-encoding, and estimates how many people are
+ * in the photo so the uploader can warn about a photo type mismatch.
+ */
+
+export type UploadPhotoType = 'single' | 'couple' | 'family';
+
+export interface PreprocessOptions {
+  maxEdge?: number; // longest side in pixels after resizing
+  quality?: number; // JPEG quality when the image is re-encoded
+}
+
+export interface PeopleEstimate {
+  count: number | null;
+  // 'face-detector' uses the browser's Shape Detection API; 'skin-regions' is a rough fallback
+  method: 'face-detector' | 'skin-regions' | null;
+}
+
+export interface PreprocessedImage {
+  file: File;
+  width: number;
+  height: number;
+  originalWidth: number;
+  originalHeight: number;
+  convertedFromHeic: boolean;
+  resized: boolean;
+  orientation: number; // EXIF orientation of the original, 1 = upright
+  removedGps: boolean;
+  people: PeopleEstimate;
+}
+
+interface ExifInfo {
+  orientation: number;
+  hasGps: boolean;
+}
+
+export const DEFAULT_MAX_EDGE = 2048;
+const DEFAULT_QUALITY = 0.92;
+const EXIF_SCAN_BYTES = 128 * 1024;
+const DETECTION_EDGE = 160;
+const HEIC_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+
+declare global {
+  interface Window {
+    FaceDetector?: new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => {
+      detect(image: ImageBitmapSource): Promise<unknown[]>;
+    };
+  }
+}
+
+class ImagePreprocessingService {
+  public isHeic(file: File): boolean {
+    return HEIC_TYPES.includes(file.type.toLowerCase()) || /\.(heic|heif)$/i.test(file.name);
+  }
+
+  /**
+   * Run the full pipeline. Throws if the image can't be decoded.
+   */
+  public async preprocess(file: File, options: PreprocessOptions = {}): Promise<PreprocessedImage> {
+    const maxEdge = options.maxEdge || DEFAULT_MAX_EDGE;
+    const quality = options.quality || DEFAULT_QUALITY;
+
+    const convertedFromHeic = this.isHeic(file);
+    const source: Blob = convertedFromHeic ? await this.convertHeic(file, quality) : file;
+    const exif = source.type === 'image/jpeg' ? await this.readExif(source) : { orientation: 1, hasGps: false };
+
+    const image = await this.loadImage(source);
+    const autoOriented = this.browserAppliesOrientation();
+    const swapsAxes = !autoOriented && exif.orientation >= 5 && exif.orientation <= 8;
+    const originalWidth = swapsAxes ? image.naturalHeight : image.naturalWidth;
+    const originalHeight = swapsAxes ? image.naturalWidth : image.naturalHeight;
+
+    const scale = Math.min(1, maxEdge / Math.max(originalWidth, originalHeight));
+    const width = Math.round(originalWidth * scale);
+    const height = Math.round(originalHeight * scale);
+    const canvas = this.drawOriented(image, width, height, autoOriented ? 1 : exif.orientation);
+
+    const people = await this.estimatePeople(canvas);
+
+    // Keep the original bytes when nothing about them needs to change
+    const needsReencode = convertedFromHeic
+      || scale < 1
+      || exif.orientation !== 1
+      || exif.hasGps
+      || !['image/jpeg', 'image/png'].includes(source.type);
+
+    const output = needsReencode
+      ? await this.encode(canvas, file.name, quality)
+      : file;
+
+    return {
+      file: output,
+      width,
+      height,
+      originalWidth,
+      originalHeight,
+      convertedFromHeic,
+      resized: scale < 1,
+      orientation: exif.orientation,
+      removedGps: exif.hasGps,
+      people
+    };
+  }
+
+  /**
+   * Warning to show when the detected number of people doesn't fit the selected photo type
+   */
+  public getPeopleCountWarning(
+    estimate: PeopleEstimate | null,
+    photoType: UploadPhotoType,
+    familyMemberCount: number
+  ): string | null {
+    if (!estimate || estimate.count === null) return null;
+
+    const expected = photoType === 'single' ? 1 : photoType === 'couple' ? 2 : familyMemberCount;
+    const { count, method } = estimate;
+
+    // The skin-region fallback miscounts easily, so only flag clear mismatches from it
+    if (method === 'skin-regions' && (count === 0 || Math.abs(count - expected) < 2)) return null;
+    if (count === expected) return null;
+
+    const people = count === 0 ? 'no people' : count === 1 ? '1 person' : `${count} people`;
+    const selected = photoType === 'family' ? `a family of ${familyMemberCount}` : `a ${photoType} portrait`;
+    return `This photo looks like it has ${people}, but ${selected} is selected. Results are best when they match.`;
+  }
+
+  private async convertHeic(file: File, quality: number): Promise<Blob> {
+    try {
+      // Loaded on demand; the converter is large and only iPhone uploads need it
+      const { default: heic2any } = await import('heic2any');
+      const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality });
+      return Array.isArray(converted) ? converted[0] : converted;
+    } catch (error) {
+      console.error('HEIC conversion failed:', error);
+      throw new Error('Could not read this HEIC photo. Please export it as JPEG and try again.');
+    }
+  }
+
+  // Minimal EXIF reader: IFD0 orientation and whether a GPS IFD is present
+  private async readExif(blob: Blob): Promise<ExifInfo> {
+    const info: ExifInfo = { orientation: 1, hasGps: false };
+
+    try {
+      const view = new DataView(await blob.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+      if (view.getUint16(0) !== 0xffd8) return info;
+
+      let offset = 2;
+      while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        const length = view.getUint16(offset + 2);
+
+        // APP1 segment starting with "Exif\0\0"
+        if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+          const tiff = offset + 10;
+          const little = view.getUint16(tiff) === 0x4949;
+          const ifd = tiff + view.getUint32(tiff + 4, little);
+          const entries = view.getUint16(ifd, little);
+
+          for (let i = 0; i < entries; i++) {
+            const entry = ifd + 2 + i * 12;
+            if (entry + 12 > view.byteLength) break;
+            const tag = view.getUint16(entry, little);
+            if (tag === 0x0112) info.orientation = view.getUint16(entry + 8, little) || 1;
+            if (tag === 0x8825) info.hasGps = true;
+          }
+          return info;
+        }
+
+        if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break; // start of scan, no more headers
+        offset += 2 + length;
+      }
+    } catch (error) {
+      console.warn('Could not read EXIF data:', error);
+    }
+
+    return info;
+  }
+
+  private loadImage(blob: Blob): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const url = URL.createObjectURL(blob);
+      const image = new Image();
+      image.onload = () => {
+        URL.revokeObjectURL(url);
+        resolve(image);
+      };
+      image.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error('This image could not be opened. Please try a different photo.'));
+      };
+      image.src = url;
+    });
+  }
+
+  // Current browsers draw JPEGs upright already; older ones need the transform applied by hand
+  private browserAppliesOrientation(): boolean {
+    return typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image');
+  }
+
+  private drawOriented(image: HTMLImageElement, width: number, height: number, orientation: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+
+    // Flatten transparency onto white so JPEG output doesn't turn it black
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+
+    switch (orientation) {
+      case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+      case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+      case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+      case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+      case 6: ctx.transform(0, 1, -1, 0, width, 0); break;
+      case 7: ctx.transform(0, -1, -1, 0, width, height); break;
+      case 8: ctx.transform(0, -1, 1, 0, 0, height); break;
+    }
+
+    const swapsAxes = orientation >= 5 && orientation <= 8;
+    ctx.drawImage(image, 0, 0, swapsAxes ? height : width, swapsAxes ? width : height);
+    return canvas;
+  }
+
+  private encode(canvas: HTMLCanvasElement, name: string, quality: number): Promise<File> {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => {
+        if (!blob) {
+          reject(new Error('Failed to prepare the image. Please try again.'));
+          return;
+        }
+        const baseName = name.replace(/\.[^.]+$/, '') || 'photo';
+        resolve(new File([blob], `${baseName}.jpg`, { type: 'image/jpeg', lastModified: Date.now() }));
+      }, 'image/jpeg', quality);
+    });
+  }
+
+  private async estimatePeople(canvas: HTMLCanvasElement): Promise<PeopleEstimate> {
+    if (window.FaceDetector) {
+      try {
+        const detector = new window.FaceDetector({ fastMode: true, maxDetectedFaces: 12 });
+        const faces = await detector.detect(canvas);
+        return { count: faces.length, method: 'face-detector' };
+      } catch (error) {
+        console.warn('FaceDetector unavailable, using skin-region estimate:', error);
+      }
+    }
+
+    try {
+      return { count: this.countSkinRegions(canvas), method: 'skin-regions' };
+    } catch (error) {
+      console.warn('People estimate failed:', error);
+      return { count: null, method: null };
+    }
+  }
+
+  // Counts face-shaped blobs of skin-coloured pixels on a small copy of the image
+  private countSkinRegions(source: HTMLCanvasElement): number {
+    const scale = Math.min(1, DETECTION_EDGE / Math.max(source.width, source.height));
+    const width = Math.max(1, Math.round(source.width * scale));
+    const height = Math.max(1, Math.round(source.height * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(source, 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+
+    const skin = new Uint8Array(width * height);
+    for (let i = 0; i < skin.length; i++) {
+      const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+      const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+      const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+      skin[i] = cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173 ? 1 : 0;
+    }
+
+    const minArea = width * height * 0.004;
+    const maxArea = width * height * 0.25;
+    let count = 0;
+
+    for (let start = 0; start < skin.length; start++) {
+      if (skin[start] !== 1) continue;
+
+      // Flood fill the region, tracking its area and bounding box
+      const stack = [start];
+      skin[start] = 2;
+      let area = 0, left = width, right = 0, top = height, bottom = 0;
+      while (stack.length > 0) {
+        const index = stack.pop()!;
+        const x = index % width, y = Math.floor(index / width);
+        area++;
+        left = Math.min(left, x); right = Math.max(right, x);
+        top = Math.min(top, y); bottom = Math.max(bottom, y);
+
+        const neighbours = [
+          x > 0 ? index - 1 : -1,
+          x < width - 1 ? index + 1 : -1,
+          y > 0 ? index - width : -1,
+          y < height - 1 ? index + width : -1
+        ];
+        for (const next of neighbours) {
+          if (next >= 0 && skin[next] === 1) {
+            skin[next] = 2;
+            stack.push(next);
+          }
+        }
+      }
+
+      const boxWidth = right - left + 1;
+      const boxHeight = bottom - top + 1;
+      const aspect = boxHeight / boxWidth;
+      const fill = area / (boxWidth * boxHeight);
+      if (area >= minArea && area <= maxArea && aspect >= 0.8 && aspect <= 2.2 && fill >= 0.45) {
+        count++;
+      }
+    }
+
+    return count;
+  }
+}
+
+// Export singleton instance
+export const imagePreprocessingService = new ImagePreprocessingService();
+export default imagePreprocessingService;
@@ -0,0 +1,207 @@
+/**
+ * Image Generation Providers
+ *
+ * Provider abstraction for client-side image generation. VITE_IMAGE_PROVIDER
+ * selects the implementation: 'gemini' (default) or 'stub', which renders a
+ * deterministic watermarked placeholder locally so flows can be exercised
+ * without network access or API spend. The edge functions have a matching
+ * abstraction in supabase/functions/_shared/imageProvider.ts.
+ */
+
+import { GoogleGenAI, Modality, GenerateContentResponse } from "@google/genai";
+
+export interface ImageGenerationInput {
+  data: string; // base64 encoded image
+  mimeType: string;
+}
+
+export interface ImageGenerationOptions {
+  style?: string;
+}
+
+export interface SafetyVerdict {
+  blocked: boolean;
+  reason?: string;
+}
+
+export interface ImageGenerationResult {
+  imageUrl: string | null; // data URL
+  text: string | null;
+  safety: SafetyVerdict;
+  provider: string;
+}
+
+export interface ImageGenerationProvider {
+  readonly name: string;
+  generate(image: ImageGenerationInput, prompt: string, options?: ImageGenerationOptions): Promise<ImageGenerationResult>;
+}
+
+// Prompts containing this marker are blocked by the stub provider to exercise safety handling
+export const STUB_BLOCK_MARKER = '[stub:block]';
+
+// Finish reasons Gemini uses when it refuses to produce an image
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+class GeminiImageProvider implements ImageGenerationProvider {
+  readonly name = 'gemini';
+  private ai: GoogleGenAI | null = null;
+
+  async generate(image: ImageGenerationInput, prompt: string): Promise<ImageGenerationResult> {
+    // Created lazily so the stub provider works without an API key
+    if (!this.ai) {
+      this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+    }
+
+    const response: GenerateContentResponse = await this.ai.models.generateContent({
+      model: 'gemini-2.5-flash-image-preview',
+      contents: {
+        parts: [
+          { inlineData: { data: image.data, mimeType: image.mimeType } },
+          { text: prompt },
+        ],
+      },
+      config: {
+        responseModalities: [Modality.IMAGE, Modality.TEXT],
+      },
+    });
+
+    const result: ImageGenerationResult = {
+      imageUrl: null,
+      text: null,
+      safety: { blocked: false },
+      provider: this.name,
+    };
+
+    const candidate = response.candidates?.[0];
+    for (const part of candidate?.content?.parts || []) {
+      if (part.text) {
+        result.text = part.text;
+      } else if (part.inlineData) {
+        result.imageUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+      }
+    }
+
+    const finishReason = candidate?.finishReason as string | undefined;
+    const blockReason = response.promptFeedback?.blockReason
+      || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason) ? finishReason : undefined);
+
+    if (blockReason || !result.imageUrl) {
+      result.safety = { blocked: true, reason: blockReason || 'No image returned' };
+    }
+
+    return result;
+  }
+}
+
+class StubImageProvider implements ImageGenerationProvider {
+  readonly name = 'stub';
+
+  async generate(image: ImageGenerationInput, prompt: string, options: ImageGenerationOptions = {}): Promise<ImageGenerationResult> {
+    if (prompt.includes(STUB_BLOCK_MARKER)) {
+      return {
+        imageUrl: null,
+        text: null,
+        safety: { blocked: true, reason: 'Blocked by stub provider marker' },
+        provider: this.name,
+      };
+    }
+
+    const seed = this.fingerprint(image.data, prompt, options.style || '');
+    const imageUrl = await this.renderPlaceholder(image, seed, options.style);
+
+    return {
+      imageUrl,
+      text: `Stub placeholder for "${options.style || 'portrait'}" (${seed.toString(16)})`,
+      safety: { blocked: false },
+      provider: this.name,
+    };
+  }
+
+  // FNV-1a, good enough to derive a stable fingerprint and colour
+  private fingerprint(...parts: string[]): number {
+    let hash = 0x811c9dc5;
+    for (const part of parts) {
+      for (let i = 0; i < part.length; i++) {
+        hash ^= part.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+      }
+    }
+    return hash;
+  }
+
+  /**
+   * Draw the uploaded photo tinted with a seed-derived colour and stamped with a watermark
+   */
+  private async renderPlaceholder(image: ImageGenerationInput, seed: number, style?: string): Promise<string> {
+    const size = 512;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas is not available for the stub image provider');
+    }
+
+    try {
+      const source = await this.loadImage(`data:${image.mimeType};base64,${image.data}`);
+      const scale = Math.max(size / source.width, size / source.height);
+      const width = source.width * scale;
+      const height = source.height * scale;
+      ctx.drawImage(source, (size - width) / 2, (size - height) / 2, width, height);
+    } catch {
+      ctx.fillStyle = '#6b7280';
+      ctx.fillRect(0, 0, size, size);
+    }
+
+    ctx.fillStyle = `hsla(${seed % 360}, 60%, 45%, 0.45)`;
+    ctx.fillRect(0, 0, size, size);
+
+    ctx.save();
+    ctx.translate(size / 2, size / 2);
+    ctx.rotate(-Math.PI / 6);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = 'bold 96px sans-serif';
+    ctx.fillText('STUB', 0, 0);
+    ctx.restore();
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.fillRect(0, size - 56, size, 56);
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'center';
+    ctx.font = '18px sans-serif';
+    ctx.fillText(`${style || 'Portrait'} • ${seed.toString(16).padStart(8, '0')}`, size / 2, size - 24);
+
+    return canvas.toDataURL('image/png');
+  }
+
+  private loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = reject;
+      img.src = src;
+    });
+  }
+}
+
+const providers: Record<string, ImageGenerationProvider> = {
+  gemini: new GeminiImageProvider(),
+  stub: new StubImageProvider(),
+};
+
+/**
+ * Provider selected by VITE_IMAGE_PROVIDER, defaulting to Gemini
+ */
+export const getImageProvider = (): ImageGenerationProvider => {
+  const configured = (import.meta.env.VITE_IMAGE_PROVIDER || 'gemini').toLowerCase();
+  const provider = providers[configured];
+
+  if (!provider) {
+    console.warn(`Unknown VITE_IMAGE_PROVIDER "${configured}", falling back to gemini`);
+    return providers.gemini;
+  }
+
+  return provider;
+};
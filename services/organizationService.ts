@@ -0,0 +1,314 @@
+/**
+ * Organization Service
+ *
+ * Team accounts for planners and studios. Members share the organization's
+ * credit wallet; owners invite members, set per-member monthly limits and see
+ * usage broken down by member. The wallet the user is spending from is kept
+ * per browser and read by creditsService.
+ */
+
+import { supabase } from './supabaseClient';
+import { authService } from './authService';
+
+export type OrganizationRole = 'owner' | 'member';
+
+export interface Organization {
+  id: string;
+  name: string;
+  credits: number;
+  role: OrganizationRole;
+  monthlyCreditLimit: number | null;
+}
+
+export interface OrganizationWallet {
+  organizationId: string;
+  credits: number;
+  role: OrganizationRole;
+  monthlyCreditLimit: number | null;
+  usedThisMonth: number;
+  available: number; // wallet balance capped by what is left of the member's limit
+}
+
+export interface OrganizationInvitation {
+  id: string;
+  organizationId: string;
+  organizationName?: string;
+  email?: string;
+  role: OrganizationRole;
+  monthlyCreditLimit?: number | null;
+  invitedBy?: string | null;
+  expiresAt: string;
+}
+
+export interface MemberUsage {
+  userId: string;
+  email: string;
+  displayName: string | null;
+  role: OrganizationRole;
+  monthlyCreditLimit: number | null;
+  creditsUsed: number;
+  creditsPurchased: number;
+  joinedAt: string;
+}
+
+export const WALLET_CHANGED_EVENT = 'walletChanged';
+
+class OrganizationService {
+  /**
+   * Teams the signed-in user belongs to, with their role and limit in each
+   */
+  async getOrganizations(): Promise<Organization[]> {
+    const user = authService.getCurrentUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('role, monthly_credit_limit, organization:organizations(id, name, credits)')
+      .eq('user_id', user.id)
+      .order('joined_at', { ascending: true });
+
+    if (error) {
+      console.error('Failed to load teams:', error);
+      return [];
+    }
+
+    return (data || []).map((row: any) => ({
+      id: row.organization.id,
+      name: row.organization.name,
+      credits: row.organization.credits,
+      role: row.role,
+      monthlyCreditLimit: row.monthly_credit_limit
+    }));
+  }
+
+  async createOrganization(name: string): Promise<Organization> {
+    const { data, error } = await supabase.rpc('create_organization', { p_name: name });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to create team');
+    }
+
+    return {
+      id: data.id,
+      name: data.name,
+      credits: data.credits,
+      role: 'owner',
+      monthlyCreditLimit: null
+    };
+  }
+
+  async getWallet(organizationId: string): Promise<OrganizationWallet> {
+    const { data, error } = await supabase.rpc('get_organization_wallet', {
+      p_organization_id: organizationId
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to load team wallet');
+    }
+
+    return {
+      organizationId: data.organization_id,
+      credits: data.credits,
+      role: data.role,
+      monthlyCreditLimit: data.monthly_credit_limit,
+      usedThisMonth: data.used_this_month,
+      available: data.available
+    };
+  }
+
+  /**
+   * Wallet usage per member for the current month (owners see everyone)
+   */
+  async getMemberUsage(organizationId: string, since?: Date): Promise<MemberUsage[]> {
+    const { data, error } = await supabase.rpc('get_organization_usage', {
+      p_organization_id: organizationId,
+      ...(since && { p_since: since.toISOString() })
+    });
+
+    if (error) {
+      console.error('Failed to load team usage:', error);
+      return [];
+    }
+
+    return (data || []).map((row: any) => ({
+      userId: row.user_id,
+      email: row.email,
+      displayName: row.display_name,
+      role: row.role,
+      monthlyCreditLimit: row.monthly_credit_limit,
+      creditsUsed: row.credits_used,
+      creditsPurchased: row.credits_purchased,
+      joinedAt: row.joined_at
+    }));
+  }
+
+  async inviteMember(
+    organizationId: string,
+    email: string,
+    role: OrganizationRole = 'member',
+    monthlyCreditLimit: number | null = null
+  ): Promise<void> {
+    const { error } = await supabase.rpc('invite_organization_member', {
+      p_organization_id: organizationId,
+      p_email: email,
+      p_role: role,
+      p_monthly_credit_limit: monthlyCreditLimit
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to send invitation');
+    }
+  }
+
+  /**
+   * Pending invitations sent from a team (owners only)
+   */
+  async getSentInvitations(organizationId: string): Promise<OrganizationInvitation[]> {
+    const { data, error } = await supabase
+      .from('organization_invitations')
+      .select('id, organization_id, email, role, monthly_credit_limit, expires_at')
+      .eq('organization_id', organizationId)
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Failed to load invitations:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      organizationId: row.organization_id,
+      email: row.email,
+      role: row.role,
+      monthlyCreditLimit: row.monthly_credit_limit,
+      expiresAt: row.expires_at
+    }));
+  }
+
+  async revokeInvitation(invitationId: string): Promise<void> {
+    const { error } = await supabase.rpc('revoke_organization_invitation', {
+      p_invitation_id: invitationId
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to revoke invitation');
+    }
+  }
+
+  /**
+   * Invitations addressed to the signed-in user's email
+   */
+  async getMyInvitations(): Promise<OrganizationInvitation[]> {
+    const { data, error } = await supabase.rpc('get_my_organization_invitations');
+
+    if (error) {
+      console.error('Failed to load team invitations:', error);
+      return [];
+    }
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      organizationId: row.organization_id,
+      organizationName: row.organization_name,
+      role: row.role,
+      invitedBy: row.invited_by,
+      expiresAt: row.expires_at
+    }));
+  }
+
+  async acceptInvitation(invitationId: string): Promise<{ success: boolean; organizationId?: string; error?: string }> {
+    const { data, error } = await supabase.rpc('accept_organization_invitation', {
+      p_invitation_id: invitationId
+    });
+
+    if (error) {
+      console.error('Failed to accept invitation:', error);
+      return { success: false, error: 'Failed to join team. Please try again.' };
+    }
+
+    return {
+      success: data.success,
+      organizationId: data.organization_id,
+      error: data.error
+    };
+  }
+
+  async updateMember(
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole,
+    monthlyCreditLimit: number | null
+  ): Promise<void> {
+    const { error } = await supabase.rpc('update_organization_member', {
+      p_organization_id: organizationId,
+      p_user_id: userId,
+      p_role: role,
+      p_monthly_credit_limit: monthlyCreditLimit
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to update member');
+    }
+  }
+
+  /**
+   * Remove a member, or leave the team when userId is the signed-in user
+   */
+  async removeMember(organizationId: string, userId: string): Promise<void> {
+    const { error } = await supabase.rpc('remove_organization_member', {
+      p_organization_id: organizationId,
+      p_user_id: userId
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to remove member');
+    }
+
+    if (userId === authService.getCurrentUser()?.id && this.getSelectedWalletId() === organizationId) {
+      this.selectWallet(null);
+    }
+  }
+
+  /**
+   * The team whose wallet credits are spent from, or null for the user's own credits
+   */
+  getSelectedWalletId(): string | null {
+    const user = authService.getCurrentUser();
+    if (!user || typeof window === 'undefined') return null;
+
+    try {
+      return localStorage.getItem(this.getSelectionKey(user.id));
+    } catch {
+      return null;
+    }
+  }
+
+  selectWallet(organizationId: string | null): void {
+    const user = authService.getCurrentUser();
+    if (!user || typeof window === 'undefined') return;
+
+    try {
+      if (organizationId) {
+        localStorage.setItem(this.getSelectionKey(user.id), organizationId);
+      } else {
+        localStorage.removeItem(this.getSelectionKey(user.id));
+      }
+    } catch (error) {
+      console.warn('Error saving wallet selection:', error);
+    }
+
+    window.dispatchEvent(new CustomEvent(WALLET_CHANGED_EVENT, {
+      detail: { organizationId }
+    }));
+  }
+
+  private getSelectionKey(userId: string): string {
+    return `selected_wallet_${userId}`;
+  }
+}
+
+// Export singleton instance
+export const organizationService = new OrganizationService();
+export default organizationService;
@@ -46,6 +46,7 @@ export interface PackageGenerationResult {
   tierUsed?: PackagePricingTier;
   themesUsed: PackageTheme[];
   creditsUsed: number;
+  creditsRefunded?: number; // given back for styles that failed
   usageId?: string;
   
   // System information
@@ -146,13 +147,14 @@ class PackageGenerationCoordinator {
 
       // Step 5: Execute generation with package integration
       options.onSystemUpdate?.('coordinator', 'Starting AI generation');
-      const generationResult = await this.executeGeneration(options, packageConfig, themeResult);
+      const generationResult = await this.executeGeneration(options, packageConfig, themeResult, result.usageId);
       systemsUsed.push('AI Generation');
 
       // Step 6: Process results and update usage tracking
       result.results = generationResult.results;
       result.successful = generationResult.successful;
       result.failed = generationResult.failed;
+      result.creditsRefunded = generationResult.creditsRefunded;
       result.success = generationResult.successful > 0;
 
       // Complete usage tracking if applicable
@@ -483,11 +485,13 @@ class PackageGenerationCoordinator {
   private async executeGeneration(
     options: PackageGenerationOptions,
     packageConfig: any,
-    themeResult: any
+    themeResult: any,
+    usageId?: string
   ): Promise<{
     results: (GeneratedContent & { style: string })[];
     successful: number;
     failed: number;
+    creditsRefunded: number;
   }> {
     const styles = themeResult.themes.map((theme: PackageTheme) => theme.name);
 
@@ -503,6 +507,7 @@ class PackageGenerationCoordinator {
         {
           packageId: packageConfig.package.id,
           tierId: packageConfig.tier.id,
+          usageId,
           themes: themeResult.themes
         }
       );
@@ -533,7 +538,7 @@ class PackageGenerationCoordinator {
         usageId,
         status,
         processingTime,
-        undefined, // quality score
+        undefined, // quality score is set later from the user's ratings (rate_portrait)
         errorMessage
       );
     } catch (error) {
@@ -4,6 +4,7 @@
  */
 
 import { supabase } from './supabaseClient';
+import { priceBookService } from './priceBookService';
 
 // ==========================================
 // TYPES AND INTERFACES
@@ -407,6 +408,18 @@ export class PhotoPackagesService {
     return transformedData;
   }
 
+  /**
+   * Tier display prices from the visitor's regional price book, where it has one
+   */
+  static async localizeTierPrices(tiers: PackagePricingTier[]): Promise<PackagePricingTier[]> {
+    return Promise.all(tiers.map(async tier => {
+      const localPrice = await priceBookService.getPrice('package_tier', tier.id);
+      return localPrice
+        ? { ...tier, price_amount_cents: localPrice.amountCents, currency: localPrice.currency }
+        : tier;
+    }));
+  }
+
   /**
    * Get a specific pricing tier by ID
    */
@@ -1151,11 +1164,7 @@ export class PhotoPackagesService {
    * Format package pricing for display
    */
   static formatPackagePrice(priceCents: number, currency: string = 'USD'): string {
-    const price = priceCents / 100;
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency.toUpperCase()
-    }).format(price);
+    return priceBookService.formatAmount(priceCents, currency.toUpperCase());
   }
 
   /**
@@ -0,0 +1,187 @@
+/**
+ * Portrait Gallery Service
+ *
+ * Lists, signs and deletes the portraits the portrait-generation edge function
+ * stores in the private `portraits` bucket for signed-in users
+ */
+
+import { supabase } from './supabaseClient';
+import { authService } from './authService';
+import { GeneratedContent } from '../types';
+
+const PORTRAITS_BUCKET = 'portraits';
+const SIGNED_URL_TTL_SECONDS = 60 * 60; // 1 hour
+
+export type PortraitPhotoType = 'single' | 'couple' | 'family';
+
+export interface StoredPortrait {
+  id: string;
+  storage_path: string;
+  mime_type: string;
+  style: string;
+  photo_type: PortraitPhotoType;
+  generation_id: string | null;
+  package_id: string | null;
+  package_name: string | null;
+  theme_id: string | null;
+  created_at: string;
+  signedUrl?: string | null;
+}
+
+export interface PortraitFilters {
+  style?: string;
+  photoType?: PortraitPhotoType;
+  limit?: number;
+  offset?: number;
+}
+
+export interface PortraitShoot {
+  generationId: string;
+  createdAt: string;
+  photoType: PortraitPhotoType;
+  packageName: string | null;
+  portraits: StoredPortrait[];
+}
+
+class PortraitGalleryService {
+  /**
+   * List the current user's portraits with signed URLs, newest first
+   */
+  async listPortraits(filters: PortraitFilters = {}): Promise<StoredPortrait[]> {
+    const user = authService.getCurrentUser();
+    if (!user) {
+      return [];
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_user_portraits', {
+        p_user_id: user.id,
+        p_style: filters.style || null,
+        p_photo_type: filters.photoType || null,
+        p_limit: filters.limit ?? 50,
+        p_offset: filters.offset ?? 0
+      });
+
+      if (error) {
+        console.error('Error loading portraits:', error);
+        return [];
+      }
+
+      const portraits = (data || []) as StoredPortrait[];
+      return this.attachSignedUrls(portraits);
+    } catch (error) {
+      console.error('Failed to load portraits:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Distinct styles the user has portraits for, used to populate the style filter
+   */
+  async getAvailableStyles(): Promise<string[]> {
+    const user = authService.getCurrentUser();
+    if (!user) {
+      return [];
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('generated_portraits')
+        .select('style')
+        .eq('user_id', user.id)
+        .is('deleted_at', null);
+
+      if (error) {
+        console.error('Error loading portrait styles:', error);
+        return [];
+      }
+
+      return Array.from(new Set((data || []).map(row => row.style as string))).sort();
+    } catch (error) {
+      console.error('Failed to load portrait styles:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Soft delete a portrait; the storage object is kept until the retention job removes it
+   */
+  async deletePortrait(portraitId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('delete_user_portrait', {
+        p_portrait_id: portraitId
+      });
+
+      if (error) {
+        console.error('Error deleting portrait:', error);
+        return false;
+      }
+
+      return data === true;
+    } catch (error) {
+      console.error('Failed to delete portrait:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Group portraits by the shoot that produced them
+   */
+  groupByShoot(portraits: StoredPortrait[]): PortraitShoot[] {
+    const shoots = new Map<string, PortraitShoot>();
+
+    for (const portrait of portraits) {
+      const key = portrait.generation_id || portrait.id;
+      const existing = shoots.get(key);
+      if (existing) {
+        existing.portraits.push(portrait);
+      } else {
+        shoots.set(key, {
+          generationId: key,
+          createdAt: portrait.created_at,
+          photoType: portrait.photo_type,
+          packageName: portrait.package_name,
+          portraits: [portrait]
+        });
+      }
+    }
+
+    return Array.from(shoots.values());
+  }
+
+  /**
+   * Convert stored portraits to the shape used by the gallery components
+   */
+  toGeneratedContents(portraits: StoredPortrait[]): GeneratedContent[] {
+    return portraits.map(portrait => ({
+      imageUrl: portrait.signedUrl || null,
+      text: portrait.signedUrl ? null : 'Image is no longer available',
+      style: portrait.style,
+      portraitId: portrait.id
+    }));
+  }
+
+  /**
+   * Sign all storage paths in a single request
+   */
+  private async attachSignedUrls(portraits: StoredPortrait[]): Promise<StoredPortrait[]> {
+    if (portraits.length === 0) {
+      return portraits;
+    }
+
+    const { data, error } = await supabase.storage
+      .from(PORTRAITS_BUCKET)
+      .createSignedUrls(portraits.map(p => p.storage_path), SIGNED_URL_TTL_SECONDS);
+
+    if (error) {
+      console.error('Error signing portrait URLs:', error);
+      return portraits.map(p => ({ ...p, signedUrl: null }));
+    }
+
+    const urlsByPath = new Map((data || []).map(entry => [entry.path, entry.signedUrl]));
+    return portraits.map(p => ({ ...p, signedUrl: urlsByPath.get(p.storage_path) || null }));
+  }
+}
+
+// Export singleton instance
+export const portraitGalleryService = new PortraitGalleryService();
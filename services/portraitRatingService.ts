@@ -0,0 +1,105 @@
+/**
+ * Portrait Rating Service
+ *
+ * Stores a user's 1-5 rating and reason tags for a generated portrait. Ratings
+ * are rolled up per package theme on the server (popularity score and package
+ * usage quality score) and reported to any running prompt experiment.
+ */
+
+import { supabase } from './supabaseClient';
+import { userIdentificationService } from './userIdentificationService';
+import { experimentService } from './experimentService';
+
+export const RATING_REASON_TAGS = [
+  { id: 'faces_changed', label: 'Faces changed' },
+  { id: 'wrong_outfit', label: 'Wrong outfit' },
+  { id: 'wrong_people_count', label: 'Wrong number of people' },
+  { id: 'wrong_setting', label: "Setting doesn't match" },
+  { id: 'artifacts', label: 'Distorted or artifacts' },
+  { id: 'low_quality', label: 'Blurry or low quality' },
+  { id: 'love_it', label: 'Love it' }
+] as const;
+
+export type RatingReasonTag = typeof RATING_REASON_TAGS[number]['id'];
+
+export interface PortraitRatingInput {
+  rating: number; // 1-5; thumbs up/down are 5/1
+  style: string;
+  generationId?: string | null;
+  portraitId?: string | null;
+  themeId?: string | null;
+  packageId?: string | null;
+  reasonTags?: RatingReasonTag[];
+  comment?: string;
+}
+
+export interface SavedPortraitRating {
+  rating: number;
+  reasonTags: RatingReasonTag[];
+}
+
+class PortraitRatingService {
+  // Ratings given in this session, so cards re-render with the user's choice
+  private ratings = new Map<string, SavedPortraitRating>();
+
+  private key(generationId: string | null | undefined, style: string): string {
+    return `${generationId || ''}:${style}`;
+  }
+
+  public getRating(generationId: string | null | undefined, style: string): SavedPortraitRating | null {
+    return this.ratings.get(this.key(generationId, style)) || null;
+  }
+
+  /**
+   * Save (or update) the current user's rating for a portrait
+   */
+  public async ratePortrait(input: PortraitRatingInput): Promise<boolean> {
+    const rating = Math.round(input.rating);
+    if (rating < 1 || rating > 5) {
+      throw new Error('Rating must be between 1 and 5');
+    }
+
+    const reasonTags = input.reasonTags || [];
+    const previous = this.getRating(input.generationId, input.style);
+    this.ratings.set(this.key(input.generationId, input.style), { rating, reasonTags });
+
+    try {
+      const identification = await userIdentificationService.getCurrentIdentification();
+
+      const { error } = await supabase.rpc('rate_portrait', {
+        p_rating: rating,
+        p_style: input.style,
+        p_generation_id: input.generationId || null,
+        p_portrait_id: input.portraitId || null,
+        p_theme_id: input.themeId || null,
+        p_package_id: input.packageId || null,
+        p_reason_tags: reasonTags,
+        p_comment: input.comment || null,
+        p_session_id: identification.sessionId || null
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      // Tag-only edits keep the same score and aren't reported again
+      if (!previous || previous.rating !== rating) {
+        experimentService.recordOutcome(input.style, 'rating', rating);
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Failed to save portrait rating:', error);
+      if (previous) {
+        this.ratings.set(this.key(input.generationId, input.style), previous);
+      } else {
+        this.ratings.delete(this.key(input.generationId, input.style));
+      }
+      return false;
+    }
+  }
+}
+
+// Export singleton instance
+export const portraitRatingService = new PortraitRatingService();
+export default portraitRatingService;
@@ -0,0 +1,290 @@
+/**
+ * Price Book Service
+ *
+ * Regional pricing. Each price book prices the credit packs and package tiers
+ * in one currency for a set of countries; visitors see the book for their
+ * region and check out with its Stripe prices. Admins manage the books and the
+ * exchange rates used to report revenue in the base currency.
+ */
+
+import { supabase } from './supabaseClient';
+
+export type PriceBookProductType = 'credit_pack' | 'package_tier';
+
+export interface PriceBookPrice {
+  productType: PriceBookProductType;
+  productId: string;
+  amountCents: number; // minor units of the book's currency
+  credits: number | null;
+  stripePriceId: string | null;
+}
+
+export interface PriceBook {
+  code: string;
+  name: string;
+  currency: string;
+  rateToBase: number; // value of one unit of the currency in the base currency
+  isDefault: boolean;
+  prices: PriceBookPrice[];
+}
+
+export interface VisitorRegion {
+  country: string | null;
+  locale: string;
+}
+
+export interface AdminPriceBookPrice extends PriceBookPrice {
+  id: string;
+  isActive: boolean;
+}
+
+export interface AdminPriceBook {
+  id: string;
+  code: string;
+  name: string;
+  currency: string;
+  countries: string[];
+  isDefault: boolean;
+  isActive: boolean;
+  prices: AdminPriceBookPrice[];
+}
+
+export interface ExchangeRate {
+  currency: string;
+  rateToBase: number;
+  isBase: boolean;
+  updatedAt: string;
+}
+
+export const BASE_CURRENCY = 'USD';
+
+// Time zones of the regions we price for, used when the browser language has no region
+const TIME_ZONE_COUNTRIES: Record<string, string> = {
+  'Europe/London': 'GB',
+  'Europe/Dublin': 'IE',
+  'Europe/Paris': 'FR',
+  'Europe/Berlin': 'DE',
+  'Europe/Madrid': 'ES',
+  'Europe/Rome': 'IT',
+  'Europe/Amsterdam': 'NL',
+  'Europe/Brussels': 'BE',
+  'Europe/Vienna': 'AT',
+  'Europe/Lisbon': 'PT',
+  'Europe/Helsinki': 'FI',
+  'Asia/Kolkata': 'IN',
+  'Asia/Calcutta': 'IN',
+  'Australia/Sydney': 'AU',
+  'Australia/Melbourne': 'AU',
+  'Australia/Brisbane': 'AU',
+  'Australia/Perth': 'AU',
+  'Australia/Adelaide': 'AU'
+};
+
+const mapAdminPrice = (row: any): AdminPriceBookPrice => ({
+  id: row.id,
+  productType: row.product_type,
+  productId: row.product_id,
+  amountCents: row.amount_cents,
+  credits: row.credits,
+  stripePriceId: row.stripe_price_id,
+  isActive: row.is_active
+});
+
+class PriceBookService {
+  private priceBookPromise: Promise<PriceBook | null> | null = null;
+
+  /**
+   * Country and locale of the visitor, from the browser's language settings
+   * with the time zone as a fallback
+   */
+  public detectVisitorRegion(): VisitorRegion {
+    if (typeof navigator === 'undefined') {
+      return { country: null, locale: 'en-US' };
+    }
+
+    const languages = navigator.languages?.length ? navigator.languages : [navigator.language];
+    const locale = languages[0] || 'en-US';
+
+    for (const language of languages) {
+      try {
+        const region = new Intl.Locale(language).region;
+        if (region) return { country: region.toUpperCase(), locale };
+      } catch {
+        // Ignore malformed language tags
+      }
+    }
+
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return { country: TIME_ZONE_COUNTRIES[timeZone] || null, locale };
+  }
+
+  /**
+   * The visitor's price book, fetched once per page load
+   */
+  public getPriceBook(): Promise<PriceBook | null> {
+    if (!this.priceBookPromise) {
+      this.priceBookPromise = this.fetchPriceBook();
+    }
+    return this.priceBookPromise;
+  }
+
+  private async fetchPriceBook(): Promise<PriceBook | null> {
+    const { country } = this.detectVisitorRegion();
+    const { data, error } = await supabase.rpc('get_price_book', { p_country: country });
+
+    if (error || !data) {
+      if (error) console.error('Failed to load price book:', error);
+      // Let the next caller try again
+      this.priceBookPromise = null;
+      return null;
+    }
+
+    return {
+      code: data.code,
+      name: data.name,
+      currency: data.currency,
+      rateToBase: Number(data.rate_to_base) || 1,
+      isDefault: data.is_default,
+      prices: (data.prices || []).map((price: any) => ({
+        productType: price.product_type,
+        productId: price.product_id,
+        amountCents: price.amount_cents,
+        credits: price.credits,
+        stripePriceId: price.stripe_price_id
+      }))
+    };
+  }
+
+  /**
+   * The visitor's price for a product. Prices without a Stripe price can't be
+   * charged yet, so they are skipped and the caller keeps its default price.
+   */
+  public async getPrice(
+    productType: PriceBookProductType,
+    productId: string
+  ): Promise<(PriceBookPrice & { currency: string; rateToBase: number }) | null> {
+    const book = await this.getPriceBook();
+    const price = book?.prices.find(p =>
+      p.productType === productType && p.productId === productId
+    );
+
+    if (!book || !price) return null;
+    if (productType === 'credit_pack' && !price.stripePriceId) return null;
+
+    return { ...price, currency: book.currency, rateToBase: book.rateToBase };
+  }
+
+  /**
+   * Format an amount in minor units for the visitor's locale
+   */
+  public formatAmount(amountCents: number, currency: string = BASE_CURRENCY): string {
+    const { locale } = this.detectVisitorRegion();
+    try {
+      return new Intl.NumberFormat(locale, {
+        style: 'currency',
+        currency
+      }).format(amountCents / 100);
+    } catch {
+      return `${(amountCents / 100).toFixed(2)} ${currency}`;
+    }
+  }
+
+  // Admin
+
+  public async listPriceBooks(): Promise<AdminPriceBook[]> {
+    const { data, error } = await supabase
+      .from('price_books')
+      .select('*, price_book_prices(*)')
+      .order('is_default', { ascending: false })
+      .order('name');
+
+    if (error) throw error;
+
+    return (data || []).map((book: any) => ({
+      id: book.id,
+      code: book.code,
+      name: book.name,
+      currency: book.currency,
+      countries: book.countries || [],
+      isDefault: book.is_default,
+      isActive: book.is_active,
+      prices: (book.price_book_prices || []).map(mapAdminPrice)
+    }));
+  }
+
+  public async updatePriceBook(
+    id: string,
+    updates: { name?: string; countries?: string[]; isActive?: boolean }
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('price_books')
+      .update({
+        ...(updates.name !== undefined && { name: updates.name }),
+        ...(updates.countries !== undefined && {
+          countries: updates.countries.map(country => country.trim().toUpperCase()).filter(Boolean)
+        }),
+        ...(updates.isActive !== undefined && { is_active: updates.isActive }),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Create or update a product's price in a book
+   */
+  public async savePrice(
+    priceBookId: string,
+    price: Omit<AdminPriceBookPrice, 'id'>
+  ): Promise<AdminPriceBookPrice> {
+    const { data, error } = await supabase
+      .from('price_book_prices')
+      .upsert({
+        price_book_id: priceBookId,
+        product_type: price.productType,
+        product_id: price.productId,
+        amount_cents: price.amountCents,
+        credits: price.credits,
+        stripe_price_id: price.stripePriceId?.trim() || null,
+        is_active: price.isActive,
+        updated_at: new Date().toISOString()
+      }, {
+        onConflict: 'price_book_id,product_type,product_id'
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return mapAdminPrice(data);
+  }
+
+  public async listExchangeRates(): Promise<ExchangeRate[]> {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('*')
+      .order('is_base', { ascending: false })
+      .order('currency');
+
+    if (error) throw error;
+
+    return (data || []).map((rate: any) => ({
+      currency: rate.currency,
+      rateToBase: Number(rate.rate_to_base),
+      isBase: rate.is_base,
+      updatedAt: rate.updated_at
+    }));
+  }
+
+  public async updateExchangeRate(currency: string, rateToBase: number): Promise<void> {
+    const { error } = await supabase
+      .from('exchange_rates')
+      .update({ rate_to_base: rateToBase, updated_at: new Date().toISOString() })
+      .eq('currency', currency);
+
+    if (error) throw error;
+  }
+}
+
+export const priceBookService = new PriceBookService();
+export default priceBookService;
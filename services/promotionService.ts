@@ -0,0 +1,194 @@
+/**
+ * Promotion Service
+ *
+ * Coupon codes managed by admins: percent or amount off, bonus credits, credit
+ * pack restrictions, schedule and redemption limits. Codes are previewed here;
+ * the checkout endpoints validate and reserve them again server-side.
+ */
+
+import { supabase } from './supabaseClient';
+
+export interface PromotionValidation {
+  valid: boolean;
+  error?: string;
+  promotionId?: string;
+  code?: string;
+  description?: string | null;
+  percentOff?: number | null;
+  amountOff?: number | null; // in cents
+  bonusCredits?: number;
+  priceIds?: string[]; // empty = every credit pack
+  discountAmount?: number | null; // in cents, when an amount was given
+}
+
+export interface Promotion {
+  id: string;
+  code: string;
+  description: string | null;
+  percent_off: number | null;
+  amount_off: number | null;
+  bonus_credits: number;
+  price_ids: string[];
+  starts_at: string | null;
+  expires_at: string | null;
+  max_redemptions: number | null;
+  per_user_limit: number | null;
+  first_purchase_only: boolean;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface PromotionSummary extends Promotion {
+  redeemed_count: number;
+  reserved_count: number;
+  total_discount: number;
+  total_bonus_credits: number;
+  revenue: number;
+}
+
+export interface PromotionRedemption {
+  id: string;
+  user_email: string | null;
+  price_id: string | null;
+  status: 'reserved' | 'redeemed' | 'released';
+  original_amount: number;
+  discount_amount: number;
+  bonus_credits: number;
+  stripe_session_id: string | null;
+  stripe_payment_id: string | null;
+  payment_status: string | null;
+  created_at: string;
+  redeemed_at: string | null;
+}
+
+export type PromotionInput = Omit<Promotion, 'id' | 'created_at'>;
+
+class PromotionService {
+  /**
+   * Check a code for the signed-in user, optionally against one credit pack
+   */
+  public async validate(code: string, priceId?: string, amount?: number): Promise<PromotionValidation> {
+    const { data, error } = await supabase.rpc('validate_promotion', {
+      p_code: code.trim(),
+      p_price_id: priceId || null,
+      p_amount: amount ?? null
+    });
+
+    if (error) {
+      console.error('Promotion validation failed:', error);
+      return { valid: false, error: 'Failed to validate coupon' };
+    }
+
+    if (!data?.valid) {
+      return { valid: false, error: data?.error || 'Invalid coupon code' };
+    }
+
+    return {
+      valid: true,
+      promotionId: data.promotion_id,
+      code: data.code,
+      description: data.description,
+      percentOff: data.percent_off,
+      amountOff: data.amount_off,
+      bonusCredits: data.bonus_credits || 0,
+      priceIds: data.price_ids || [],
+      discountAmount: data.discount_amount
+    };
+  }
+
+  /**
+   * Price in cents after the promotion, or the original price if it doesn't apply to this pack
+   */
+  public applyToPrice(validation: PromotionValidation | null, priceId: string, price: number): number {
+    if (!validation?.valid || !this.appliesTo(validation, priceId)) {
+      return price;
+    }
+    if (validation.percentOff) {
+      return Math.max(0, price - Math.round(price * validation.percentOff / 100));
+    }
+    if (validation.amountOff) {
+      return Math.max(0, price - validation.amountOff);
+    }
+    return price;
+  }
+
+  public appliesTo(validation: PromotionValidation, priceId: string): boolean {
+    return !validation.priceIds?.length || validation.priceIds.includes(priceId);
+  }
+
+  public describe(validation: PromotionValidation): string {
+    const parts: string[] = [];
+    if (validation.percentOff) parts.push(`${validation.percentOff}% off`);
+    if (validation.amountOff) parts.push(`$${(validation.amountOff / 100).toFixed(2)} off`);
+    if (validation.bonusCredits) parts.push(`${validation.bonusCredits} bonus credits`);
+    return parts.join(' + ');
+  }
+
+  // Admin operations (RLS restricts these to admins)
+
+  public async listPromotions(): Promise<PromotionSummary[]> {
+    const { data, error } = await supabase.rpc('get_promotion_summaries');
+    if (error) {
+      throw new Error(`Failed to load promotions: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => ({
+      ...row,
+      price_ids: row.price_ids || [],
+      redeemed_count: Number(row.redeemed_count),
+      reserved_count: Number(row.reserved_count),
+      total_discount: Number(row.total_discount),
+      total_bonus_credits: Number(row.total_bonus_credits),
+      revenue: Number(row.revenue)
+    }));
+  }
+
+  public async createPromotion(input: PromotionInput): Promise<string> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('promotions')
+      .insert({
+        ...input,
+        code: input.code.trim().toUpperCase(),
+        created_by: user?.id || null
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new Error(error.code === '23505'
+        ? `A promotion with code ${input.code.toUpperCase()} already exists`
+        : `Failed to create promotion: ${error.message}`);
+    }
+
+    return data.id;
+  }
+
+  public async setActive(promotionId: string, isActive: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('promotions')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', promotionId);
+
+    if (error) {
+      throw new Error(`Failed to update promotion: ${error.message}`);
+    }
+  }
+
+  public async getRedemptions(promotionId: string): Promise<PromotionRedemption[]> {
+    const { data, error } = await supabase.rpc('get_promotion_redemptions', {
+      p_promotion_id: promotionId
+    });
+
+    if (error) {
+      throw new Error(`Failed to load redemptions: ${error.message}`);
+    }
+
+    return data || [];
+  }
+}
+
+// Export singleton instance
+export const promotionService = new PromotionService();
+export default promotionService;
@@ -19,6 +19,20 @@ export interface DatabasePromptTemplate {
   updated_by?: string;
 }
 
+export interface PromptTemplateVersion {
+  id: string;
+  templateId: string;
+  version: number;
+  name: string;
+  template: string;
+  isDefault: boolean;
+  changeNote: string | null;
+  restoredFromVersion: number | null;
+  authorId: string | null;
+  authorEmail: string | null;
+  createdAt: Date;
+}
+
 class PromptDatabaseService {
   /**
    * Get all prompt templates from database
@@ -121,21 +135,17 @@ class PromptDatabaseService {
   }
 
   /**
-   * Update existing prompt template
+   * Update existing prompt template. The database bumps the version and
+   * records the saved content in prompt_template_versions.
    */
-  public async updatePrompt(prompt: PromptTemplate): Promise<PromptTemplate> {
+  public async updatePrompt(prompt: PromptTemplate, changeNote?: string): Promise<PromptTemplate> {
     try {
-      const { data, error } = await supabase
-        .from('prompt_templates')
-        .update({
-          name: prompt.name,
-          template: prompt.template,
-          is_default: prompt.isDefault,
-          version: prompt.version + 1 // Increment version
-        })
-        .eq('id', prompt.id)
-        .select()
-        .single();
+      const { data, error } = await supabase.rpc('save_prompt_template', {
+        p_template_id: prompt.id,
+        p_template: prompt.template,
+        p_name: prompt.name,
+        p_change_note: changeNote || null
+      });
 
       if (error) {
         throw new Error(`Failed to update prompt: ${error.message}`);
@@ -148,6 +158,60 @@ class PromptDatabaseService {
     }
   }
 
+  /**
+   * Get saved versions of a prompt template, newest first
+   */
+  public async getPromptVersions(id: string): Promise<PromptTemplateVersion[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_prompt_template_versions', {
+        p_template_id: id
+      });
+
+      if (error) {
+        throw new Error(`Failed to fetch prompt versions: ${error.message}`);
+      }
+
+      return (data || []).map((row: any) => ({
+        id: row.id,
+        templateId: row.template_id,
+        version: row.version,
+        name: row.name,
+        template: row.template,
+        isDefault: row.is_default,
+        changeNote: row.change_note,
+        restoredFromVersion: row.restored_from_version,
+        authorId: row.author_id,
+        authorEmail: row.author_email,
+        createdAt: new Date(row.created_at)
+      }));
+    } catch (error) {
+      console.error('Failed to get prompt versions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore an earlier version. This saves it as a new version and keeps the history.
+   */
+  public async rollbackPrompt(id: string, version: number, changeNote?: string): Promise<PromptTemplate> {
+    try {
+      const { data, error } = await supabase.rpc('rollback_prompt_template', {
+        p_template_id: id,
+        p_version: version,
+        p_change_note: changeNote || null
+      });
+
+      if (error) {
+        throw new Error(`Failed to roll back prompt: ${error.message}`);
+      }
+
+      return this.convertDatabaseToPromptTemplate(data);
+    } catch (error) {
+      console.error('Failed to roll back prompt:', error);
+      throw error;
+    }
+  }
+
   /**
    * Delete prompt template
    */
@@ -187,21 +251,7 @@ class PromptDatabaseService {
 
       const defaultTemplate = defaultTemplates[currentPrompt.type];
 
-      const { data, error } = await supabase
-        .from('prompt_templates')
-        .update({
-          template: defaultTemplate,
-          version: currentPrompt.version + 1
-        })
-        .eq('id', id)
-        .select()
-        .single();
-
-      if (error) {
-        throw new Error(`Failed to reset prompt: ${error.message}`);
-      }
-
-      return this.convertDatabaseToPromptTemplate(data);
+      return await this.updatePrompt({ ...currentPrompt, template: defaultTemplate }, 'Reset to default');
     } catch (error) {
       console.error('Failed to reset prompt to default:', error);
       throw error;
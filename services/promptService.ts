@@ -6,6 +6,7 @@
 
 import { promptDatabaseService } from './promptDatabaseService';
 import { PhotoPackagesService, type PackageTheme } from './photoPackagesService';
+import { experimentService } from './experimentService';
 
 export interface PromptTemplate {
   id: string;
@@ -317,16 +318,26 @@ class PromptService {
     style: string,
     customPrompt: string = '',
     familyMemberCount: number = 3,
-    packageTheme?: PackageTheme
+    packageTheme?: PackageTheme,
+    sourceRoles: string[] = []
   ): Promise<string> {
     // First try package theme if provided
     if (packageTheme?.prompt_template) {
       try {
         let prompt = packageTheme.prompt_template;
         
+        // Setting prompt may be under an A/B experiment
+        const settingPrompt = await experimentService.resolvePrompt(
+          'theme_setting_prompt',
+          packageTheme.id,
+          packageTheme.setting_prompt || ''
+        );
+        experimentService.noteExposure(style, [settingPrompt.assignment]);
+        
         // Replace package-specific variables
         const variables = packageTheme.prompt_variables || {};
         prompt = prompt
+          .replace(/{setting_prompt}/g, settingPrompt.content)
           .replace(/{photoType}/g, type)
           .replace(/{familyMemberCount}/g, familyMemberCount.toString())
           .replace(/{customPrompt}/g, customPrompt)
@@ -356,14 +367,35 @@ class PromptService {
         }
         
         if (import.meta.env.DEV) console.log(`[PromptService] Using package theme template for ${type}: ${packageTheme.name}`);
-        return prompt;
+        return prompt + this.buildSourcePhotosSection(sourceRoles, type, familyMemberCount);
       } catch (error) {
         console.warn('Failed to use package theme template, falling back:', error);
       }
     }
     
     // Fallback to standard prompt generation
-    return this.generatePrompt(type, style, customPrompt, familyMemberCount);
+    return this.generatePrompt(type, style, customPrompt, familyMemberCount, sourceRoles);
+  }
+
+  /**
+   * Prompt section for portraits composed from separate photos, naming the person in each image.
+   * Empty for a single source photo.
+   */
+  public buildSourcePhotosSection(
+    sourceRoles: string[],
+    type: 'single' | 'couple' | 'family',
+    familyMemberCount: number = 3
+  ): string {
+    if (sourceRoles.length < 2) return '';
+
+    const images = sourceRoles
+      .map((role, index) => `Image ${index + 1}: ${role.trim() || `Person ${index + 1}`}.`)
+      .join(' ');
+    const people = type === 'family' ? `all ${familyMemberCount} family members from these photos` : 'both people';
+
+    return `\n\nREFERENCE PHOTOS: You are given ${sourceRoles.length} separate photos. ${images} ` +
+      `Compose ONE portrait showing ${people} together in the same scene. Take each person's face, hair, skin tone and build ONLY from their own photo ` +
+      `and keep every face EXACTLY identical to it. Do not blend features between people and do not reuse the backgrounds of the reference photos.`;
   }
 
   /**
@@ -373,7 +405,8 @@ class PromptService {
     type: 'single' | 'couple' | 'family',
     style: string,
     customPrompt: string = '',
-    familyMemberCount: number = 3
+    familyMemberCount: number = 3,
+    sourceRoles: string[] = []
   ): Promise<string> {
     // Try to get fresh template from database first
     let template: PromptTemplate | null = null;
@@ -390,6 +423,10 @@ class PromptService {
       throw new Error(`No prompt template found for type: ${type}`);
     }
 
+    const experiment = await experimentService.resolvePrompt('prompt_template', template.id, template.template);
+    experimentService.noteExposure(style, [experiment.assignment]);
+    template = { ...template, template: experiment.content };
+
     let prompt = template.template
       .replace(/\{style\}/g, style);
 
@@ -413,7 +450,7 @@ class PromptService {
     if (import.meta.env.DEV) console.log(`[PromptService] Using template version ${template.version} for ${type}, modified: ${template.lastModified}`);
     if (import.meta.env.DEV) console.log(`[PromptService] First 150 chars of prompt:`, prompt.substring(0, 150));
     
-    return prompt;
+    return prompt + this.buildSourcePhotosSection(sourceRoles, type, familyMemberCount);
   }
   
   /**
@@ -423,7 +460,8 @@ class PromptService {
     type: 'single' | 'couple' | 'family',
     style: string,
     customPrompt: string = '',
-    familyMemberCount: number = 3
+    familyMemberCount: number = 3,
+    sourceRoles: string[] = []
   ): string {
     // Use sync version for backward compatibility
     const template = this.getPromptByTypeSync(type);
@@ -453,7 +491,7 @@ class PromptService {
 
     if (import.meta.env.DEV) console.log(`[PromptService] Using template version ${template.version} for ${type} (sync), modified: ${template.lastModified}`);
     
-    return prompt;
+    return prompt + this.buildSourcePhotosSection(sourceRoles, type, familyMemberCount);
   }
 
   /**
@@ -0,0 +1,136 @@
+/**
+ * Receipt Service
+ *
+ * Receipts for credit pack purchases. The list is read directly (RLS scopes it
+ * to the user); the receipt document itself is rendered by the `receipts` edge
+ * function from the same template as the receipt email.
+ */
+
+import { supabase } from './supabaseClient';
+import { priceBookService } from './priceBookService';
+
+export interface ReceiptLineItem {
+  description: string;
+  quantity: number;
+  unit_amount: number;
+  amount: number;
+}
+
+export interface Receipt {
+  id: string;
+  receipt_number: string;
+  currency: string;
+  line_items: ReceiptLineItem[];
+  subtotal_cents: number;
+  discount_cents: number;
+  tax_cents: number;
+  total_cents: number;
+  credits_granted: number;
+  bonus_credits: number;
+  promotion_code: string | null;
+  gift_card_id: string | null;
+  emailed_at: string | null;
+  created_at: string;
+}
+
+class ReceiptService {
+  private readonly edgeFunctionUrl: string;
+
+  constructor() {
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
+    this.edgeFunctionUrl = `${supabaseUrl}/functions/v1/receipts`;
+  }
+
+  async getReceipts(limit: number = 20): Promise<Receipt[]> {
+    const { data, error } = await supabase
+      .from('receipts')
+      .select('id, receipt_number, currency, line_items, subtotal_cents, discount_cents, tax_cents, total_cents, credits_granted, bonus_credits, promotion_code, gift_card_id, emailed_at, created_at')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Failed to load receipts:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Save the receipt as an HTML file
+   */
+  async downloadReceipt(receipt: Receipt): Promise<void> {
+    const html = await this.fetchDocument(receipt.id);
+    const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `receipt-${receipt.receipt_number}.html`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Open the receipt in the browser's print dialog, where it can be saved as a PDF
+   */
+  async printReceipt(receipt: Receipt): Promise<void> {
+    // Opened before the fetch so popup blockers see it as part of the click
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      throw new Error('Allow pop-ups to save the receipt as a PDF');
+    }
+
+    try {
+      const html = await this.fetchDocument(receipt.id);
+      printWindow.document.open();
+      printWindow.document.write(html);
+      printWindow.document.close();
+      printWindow.onload = () => printWindow.print();
+    } catch (error) {
+      printWindow.close();
+      throw error;
+    }
+  }
+
+  async resendReceipt(receipt: Receipt): Promise<void> {
+    const response = await fetch(this.edgeFunctionUrl, {
+      method: 'POST',
+      headers: await this.getHeaders({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ action: 'resend', id: receipt.id })
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `Failed to email receipt: ${response.status}`);
+    }
+  }
+
+  formatTotal(receipt: Receipt): string {
+    return priceBookService.formatAmount(receipt.total_cents, receipt.currency);
+  }
+
+  private async fetchDocument(receiptId: string): Promise<string> {
+    const response = await fetch(`${this.edgeFunctionUrl}?id=${encodeURIComponent(receiptId)}&format=html`, {
+      headers: await this.getHeaders()
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to load receipt: ${response.status}`);
+    }
+    return response.text();
+  }
+
+  private async getHeaders(headers: Record<string, string> = {}): Promise<Record<string, string>> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      throw new Error('Please sign in to view your receipts');
+    }
+    return { ...headers, 'Authorization': `Bearer ${session.access_token}` };
+  }
+}
+
+// Export singleton instance
+export const receiptService = new ReceiptService();
+export default receiptService;
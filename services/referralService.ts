@@ -0,0 +1,133 @@
+/**
+ * Referral Service
+ *
+ * Captures a `?ref=` code from the landing URL, claims it for the account once
+ * the referred user signs in, and loads the referrer's share link and stats.
+ * Rewards are granted server-side on the referred user's first paid purchase.
+ */
+
+import { supabase } from './supabaseClient';
+import { userIdentificationService } from './userIdentificationService';
+
+export interface ReferralSummary {
+  referralCode: string;
+  pending: number;
+  completed: number;
+  creditsEarned: number;
+  referredByStatus: 'pending' | 'completed' | 'rejected' | null;
+}
+
+export interface ReferralClaimResult {
+  success: boolean;
+  status?: 'pending' | 'completed' | 'rejected';
+  reason?: string;
+}
+
+const STORAGE_KEY = 'wedai_referral_code';
+const CODE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const CODE_PATTERN = /^[a-z0-9-]{4,32}$/;
+
+class ReferralService {
+  /**
+   * Remember a `?ref=` code from the current URL and remove it from the address bar
+   */
+  public captureFromUrl(): string | null {
+    try {
+      const url = new URL(window.location.href);
+      const code = url.searchParams.get('ref')?.trim().toLowerCase();
+      if (!code) return null;
+
+      url.searchParams.delete('ref');
+      window.history.replaceState(window.history.state, '', url.pathname + url.search + url.hash);
+
+      if (!CODE_PATTERN.test(code)) return null;
+
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ code, capturedAt: Date.now() }));
+      return code;
+    } catch (error) {
+      console.warn('Failed to capture referral code:', error);
+      return null;
+    }
+  }
+
+  public getPendingCode(): string | null {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return null;
+
+      const { code, capturedAt } = JSON.parse(stored);
+      if (typeof code !== 'string' || Date.now() - capturedAt > CODE_TTL_MS) {
+        this.clearPendingCode();
+        return null;
+      }
+      return code;
+    } catch {
+      this.clearPendingCode();
+      return null;
+    }
+  }
+
+  public clearPendingCode(): void {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+
+  public getShareLink(referralCode: string): string {
+    return `${window.location.origin}/?ref=${encodeURIComponent(referralCode)}`;
+  }
+
+  public async getDeviceFingerprint(): Promise<string | null> {
+    try {
+      const identification = await userIdentificationService.getCurrentIdentification();
+      return identification.fingerprint || null;
+    } catch (error) {
+      console.warn('Failed to read device fingerprint:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Record this device against the signed-in account and claim any stored code.
+   * The server also falls back to the code saved in the signup metadata.
+   */
+  public async onSignedIn(): Promise<ReferralClaimResult | null> {
+    const fingerprint = await this.getDeviceFingerprint();
+
+    try {
+      const { data, error } = await supabase.rpc('claim_referral', {
+        p_code: this.getPendingCode(),
+        p_fingerprint: fingerprint
+      });
+
+      if (error) throw error;
+
+      // Every outcome other than a failed request is final for this account
+      this.clearPendingCode();
+      return data as ReferralClaimResult;
+    } catch (error) {
+      console.error('Failed to claim referral:', error);
+      return null;
+    }
+  }
+
+  public async getSummary(): Promise<ReferralSummary | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_my_referral_summary');
+      if (error) throw error;
+
+      return {
+        referralCode: data.referral_code,
+        pending: Number(data.pending) || 0,
+        completed: Number(data.completed) || 0,
+        creditsEarned: Number(data.credits_earned) || 0,
+        referredByStatus: data.referred_by_status || null
+      };
+    } catch (error) {
+      console.error('Failed to load referral summary:', error);
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const referralService = new ReferralService();
+export default referralService;
@@ -3,12 +3,13 @@
  * Handles portrait generation through secure backend with rate limiting
  */
 
-import { GeneratedContent } from '../types'
+import { GeneratedContent, SourcePhoto } from '../types'
 import { userIdentificationService } from './userIdentificationService'
 import { supabase } from './supabaseClient'
 import { promptService } from './promptService'
 import { PhotoPackagesService, type Package, type PackageTheme, type PackagePricingTier } from './photoPackagesService'
 import { creditsService } from './creditsService'
+import { experimentService } from './experimentService'
 
 export interface GenerationOptions {
   imageFile: File
@@ -18,6 +19,10 @@ export interface GenerationOptions {
   packageId?: string
   tierId?: string
   themeId?: string
+  usageId?: string // package usage already paid for; skips per-style usage processing
+  photoType?: 'single' | 'couple' | 'family'
+  generationId?: string
+  sourcePhotos?: SourcePhoto[] // separate photos of each person; the first one replaces imageFile
 }
 
 export interface GenerationResult {
@@ -32,6 +37,7 @@ export interface GenerationResult {
   processing_time_ms?: number
   usageId?: string
   creditsUsed?: number
+  creditsRefunded?: number // given back by the backend when this style failed
   remainingCredits?: number
 }
 
@@ -202,7 +208,7 @@ class SecureGeminiService {
         usageId,
         status,
         processingTime,
-        undefined, // quality score
+        undefined, // quality score is set later from the user's ratings (rate_portrait)
         errorMessage
       )
     } catch (error) {
@@ -238,7 +244,11 @@ class SecureGeminiService {
         }
       }
       
-      throw new Error(responseData.error || `API error: ${response.status}`)
+      const apiError: Error & { details?: string; creditsRefunded?: number } =
+        new Error(responseData.error || `API error: ${response.status}`)
+      apiError.details = responseData.details
+      apiError.creditsRefunded = responseData.credits_refunded || 0
+      throw apiError
     }
 
     return {
@@ -311,14 +321,16 @@ class SecureGeminiService {
    * Generate portrait with secure backend
    */
   public async generatePortrait(options: GenerationOptions): Promise<GenerationResult> {
-    const { imageFile, prompt, style, retryCount = 0, packageId, tierId, themeId } = options
+    const { imageFile, prompt, style, retryCount = 0, packageId, tierId, themeId, photoType, generationId, sourcePhotos } = options
+    // A prepaid usage is completed by whoever created it, not per style
+    const prepaidUsageId = options.usageId
     let usageId: string | undefined
     let usageResult: any = null
     const startTime = Date.now()
 
     try {
       // Validate package usage if using package system
-      if (packageId && tierId) {
+      if (packageId && tierId && !prepaidUsageId) {
         const validation = await this.validatePackageUsage(packageId, tierId)
         if (!validation.canProceed) {
           return {
@@ -348,17 +360,27 @@ class SecureGeminiService {
       // Get user identification
       const identification = await userIdentificationService.getCurrentIdentification()
       
-      // Convert image to base64
-      const { base64, mimeType } = await this.fileToBase64(imageFile)
+      // Convert image(s) to base64; extra photos travel as additional inline images
+      const files = sourcePhotos && sourcePhotos.length > 1 ? sourcePhotos.map(photo => photo.file) : [imageFile]
+      const [{ base64, mimeType }, ...additional] = await Promise.all(files.map(file => this.fileToBase64(file)))
 
       // Prepare request data
       const requestData = {
         imageData: base64,
         imageType: mimeType,
+        additionalImages: additional.length > 0
+          ? additional.map(image => ({ data: image.base64, mimeType: image.mimeType }))
+          : undefined,
         prompt,
         style,
         userId: identification.userId,
-        sessionId: identification.sessionId
+        sessionId: identification.sessionId,
+        // Gallery metadata - the backend stores the image for signed-in users
+        photoType,
+        generationId,
+        usageId: prepaidUsageId || usageId,
+        packageId,
+        themeId
       }
 
       // Make API call
@@ -382,7 +404,7 @@ class SecureGeminiService {
 
         return {
           ...result,
-          usageId,
+          usageId: prepaidUsageId || usageId,
           creditsUsed: usageResult?.creditsUsed || 0
         }
       }
@@ -416,6 +438,8 @@ class SecureGeminiService {
       }
       
       const lowerErrorMessage = errorMessage.toLowerCase()
+      const lowerErrorDetails = (error?.details || '').toLowerCase()
+      const creditsRefunded: number = error?.creditsRefunded || 0
       
       // Handle different types of errors with user-friendly messages
       if (lowerErrorMessage.includes('rate limit') || lowerErrorMessage.includes('429')) {
@@ -425,10 +449,11 @@ class SecureGeminiService {
         }
       }
       
-      if (lowerErrorMessage.includes('unsafe') || lowerErrorMessage.includes('blocked')) {
+      if ([lowerErrorMessage, lowerErrorDetails].some(text => text.includes('unsafe') || text.includes('blocked'))) {
         return {
           success: false,
-          error: "🛡️ Content safety check: Please try with a different photo or ensure it shows people clearly."
+          error: "🛡️ Content safety check: Please try with a different photo or ensure it shows people clearly.",
+          creditsRefunded
         }
       }
       
@@ -464,183 +489,234 @@ class SecureGeminiService {
       // Default error message
       return {
         success: false,
-        error: `Failed to generate portrait: ${errorMessage}`
+        error: `Failed to generate portrait: ${errorMessage}`,
+        creditsRefunded
       }
     }
   }
 
   /**
-   * Generate multiple portrait styles with package integration
+   * Build the generation prompt for one style, preferring package templates,
+   * then package themes, then the prompt service with hardcoded fallbacks
    */
-  public async generateMultiplePortraits(
-    imageFile: File,
-    styles: string[],
+  public async buildStylePrompt(
+    style: string,
     customPrompt: string = '',
     photoType: string = 'couple',
     familyMemberCount: number = 3,
-    onProgressUpdate?: (style: string, status: 'in_progress' | 'completed' | 'failed') => void,
     packageConfig?: {
-      packageId: string
-      tierId: string
       themes?: PackageTheme[]
-      packageData?: any // Full package data with prompt templates
-    }
-  ): Promise<{
-    results: (GenerationResult & { style: string })[]
-    successful: number
-    failed: number
-  }> {
-    const results: (GenerationResult & { style: string })[] = []
-    
-    // Generate prompts for each style using the prompt service with package support
-    const generatePrompt = async (style: string): Promise<string> => {
-      try {
-        // PRIORITY 1: Use package prompt templates if available
-        if (packageConfig?.packageData) {
-          const pkg = packageConfig.packageData;
-          let baseTemplate = '';
+      packageData?: any
+    },
+    sourceRoles: string[] = []
+  ): Promise<string> {
+    const sourcePhotosSection = promptService.buildSourcePhotosSection(
+      sourceRoles,
+      photoType as 'single' | 'couple' | 'family',
+      familyMemberCount
+    )
+
+    try {
+      // PRIORITY 1: Use package prompt templates if available
+      if (packageConfig?.packageData) {
+        const pkg = packageConfig.packageData;
+        let baseTemplate = '';
+        
+        // Select the appropriate template based on photo type
+        if (photoType === 'single' && pkg.single_prompt_template) {
+          baseTemplate = pkg.single_prompt_template;
+        } else if (photoType === 'couple' && pkg.couple_prompt_template) {
+          baseTemplate = pkg.couple_prompt_template;
+        } else if (photoType === 'family' && pkg.family_prompt_template) {
+          baseTemplate = pkg.family_prompt_template;
+        } else if (pkg.base_prompt_template) {
+          baseTemplate = pkg.base_prompt_template;
+        }
+        
+        if (baseTemplate) {
+          // Find the matching theme for this style to get theme-specific prompts
+          const matchingTheme = packageConfig.themes?.find(
+            theme => theme.name === style || theme.id === style
+          );
+
+          // Either prompt may be under an A/B experiment
+          const templateExperiment = await experimentService.resolvePrompt('package_template', pkg.id, baseTemplate);
+          const settingExperiment = await experimentService.resolvePrompt(
+            'theme_setting_prompt',
+            matchingTheme?.id,
+            matchingTheme?.setting_prompt || ''
+          );
+          experimentService.noteExposure(style, [templateExperiment.assignment, settingExperiment.assignment]);
+          baseTemplate = templateExperiment.content;
           
-          // Select the appropriate template based on photo type
-          if (photoType === 'single' && pkg.single_prompt_template) {
-            baseTemplate = pkg.single_prompt_template;
-          } else if (photoType === 'couple' && pkg.couple_prompt_template) {
-            baseTemplate = pkg.couple_prompt_template;
-          } else if (photoType === 'family' && pkg.family_prompt_template) {
-            baseTemplate = pkg.family_prompt_template;
-          } else if (pkg.base_prompt_template) {
-            baseTemplate = pkg.base_prompt_template;
-          }
+          // Replace placeholders in the template
+          let finalPrompt = baseTemplate
+            .replace(/\{style\}/g, style)
+            .replace(/\{customPrompt\}/g, customPrompt || '')
+            .replace(/\{familyMemberCount\}/g, familyMemberCount.toString());
           
-          if (baseTemplate) {
-            // Find the matching theme for this style to get theme-specific prompts
-            const matchingTheme = packageConfig.themes?.find(
-              theme => theme.name === style || theme.id === style
-            );
-            
-            // Replace placeholders in the template
-            let finalPrompt = baseTemplate
-              .replace(/\{style\}/g, style)
-              .replace(/\{customPrompt\}/g, customPrompt || '')
-              .replace(/\{familyMemberCount\}/g, familyMemberCount.toString());
-            
-            // Handle {enhanceSection} replacement with structured prefix
-            const enhanceSection = customPrompt ? `, Additional: ${customPrompt}` : '';
-            finalPrompt = finalPrompt.replace(/\{enhanceSection\}/g, enhanceSection);
-            
-            // Replace theme-specific placeholders with structured prefixes if theme data is available
-            if (matchingTheme) {
-              // Helper function to add prefix only if not already present
-              const addPrefix = (text: string, prefix: string) => {
-                if (!text) return '';
-                const upperText = text.toUpperCase();
-                if (upperText.startsWith(prefix.toUpperCase() + ':') || upperText.startsWith(prefix.toUpperCase())) {
-                  return text; // Already has prefix
-                }
-                return `${prefix}: ${text}`;
-              };
-
-              finalPrompt = finalPrompt
-                .replace(/\{setting_prompt\}/g, addPrefix(matchingTheme.setting_prompt || '', 'Setting'))
-                .replace(/\{clothing_prompt\}/g, addPrefix(matchingTheme.clothing_prompt || '', 'Attire'))
-                .replace(/\{atmosphere_prompt\}/g, addPrefix(matchingTheme.atmosphere_prompt || '', 'Mood'))
-                .replace(/\{technical_prompt\}/g, addPrefix(matchingTheme.technical_prompt || '', 'Technical'));
-            }
-              
-            if (import.meta.env.DEV) console.log(`[PackagePrompts] Generated prompt for ${photoType} ${style} from package template:`, finalPrompt.substring(0, 100) + '...');
-            return finalPrompt;
+          // Handle {enhanceSection} replacement with structured prefix
+          const enhanceSection = customPrompt ? `, Additional: ${customPrompt}` : '';
+          finalPrompt = finalPrompt.replace(/\{enhanceSection\}/g, enhanceSection);
+          
+          // Replace theme-specific placeholders with structured prefixes if theme data is available
+          if (matchingTheme) {
+            // Helper function to add prefix only if not already present
+            const addPrefix = (text: string, prefix: string) => {
+              if (!text) return '';
+              const upperText = text.toUpperCase();
+              if (upperText.startsWith(prefix.toUpperCase() + ':') || upperText.startsWith(prefix.toUpperCase())) {
+                return text; // Already has prefix
+              }
+              return `${prefix}: ${text}`;
+            };
+
+            finalPrompt = finalPrompt
+              .replace(/\{setting_prompt\}/g, addPrefix(settingExperiment.content, 'Setting'))
+              .replace(/\{clothing_prompt\}/g, addPrefix(matchingTheme.clothing_prompt || '', 'Attire'))
+              .replace(/\{atmosphere_prompt\}/g, addPrefix(matchingTheme.atmosphere_prompt || '', 'Mood'))
+              .replace(/\{technical_prompt\}/g, addPrefix(matchingTheme.technical_prompt || '', 'Technical'));
           }
+            
+          if (import.meta.env.DEV) console.log(`[PackagePrompts] Generated prompt for ${photoType} ${style} from package template:`, finalPrompt.substring(0, 100) + '...');
+          return finalPrompt + sourcePhotosSection;
         }
+      }
+      
+      // PRIORITY 2: If using package system, find the matching theme
+      if (packageConfig?.themes) {
+        const matchingTheme = packageConfig.themes.find(
+          theme => theme.name === style || theme.id === style
+        )
         
-        // PRIORITY 2: If using package system, find the matching theme
-        if (packageConfig?.themes) {
-          const matchingTheme = packageConfig.themes.find(
-            theme => theme.name === style || theme.id === style
+        if (matchingTheme) {
+          const settingExperiment = await experimentService.resolvePrompt(
+            'theme_setting_prompt',
+            matchingTheme.id,
+            matchingTheme.setting_prompt || ''
           )
+          experimentService.noteExposure(style, [settingExperiment.assignment])
+
+          // Build package theme prompt from components
+          let prompt = `Transform the image into a ${style} style wedding portrait.`
           
-          if (matchingTheme) {
-            // Build package theme prompt from components
-            let prompt = `Transform the image into a ${style} style wedding portrait.`
-            
-            // Add setting prompt (main description)
-            if (matchingTheme.setting_prompt) {
-              prompt += ` ${matchingTheme.setting_prompt}`
-            }
-            
-            // Add clothing prompt if available
-            if (matchingTheme.clothing_prompt) {
-              prompt += ` Clothing: ${matchingTheme.clothing_prompt}`
-            }
-            
-            // Add atmosphere prompt if available
-            if (matchingTheme.atmosphere_prompt) {
-              prompt += ` Atmosphere: ${matchingTheme.atmosphere_prompt}`
-            }
-            
-            // Add technical prompt if available
-            if (matchingTheme.technical_prompt) {
-              prompt += ` Technical: ${matchingTheme.technical_prompt}`
-            }
-            
-            // Add photo type specific instructions
-            if (photoType === 'single') {
-              prompt += ` This is a SINGLE PERSON portrait - show only one person.`
-            } else if (photoType === 'couple') {
-              prompt += ` This is a COUPLE portrait - show exactly two people.`
-            } else if (photoType === 'family') {
-              prompt += ` This is a FAMILY portrait with ${familyMemberCount} people - show all family members.`
-            }
-            
-            // Add custom prompt if provided
-            if (customPrompt) {
-              prompt += ` ${customPrompt}`
-            }
-            
-            // Add style modifiers if available
-            if (matchingTheme.style_modifiers && matchingTheme.style_modifiers.length > 0) {
-              prompt += ` Style modifiers: ${matchingTheme.style_modifiers.join(', ')}`
-            }
-            
-            if (import.meta.env.DEV) console.log(`[PackageService] Generated prompt for ${photoType} ${style} from package theme:`, prompt.substring(0, 100) + '...')
-            return prompt
+          // Add setting prompt (main description)
+          if (settingExperiment.content) {
+            prompt += ` ${settingExperiment.content}`
+          }
+          
+          // Add clothing prompt if available
+          if (matchingTheme.clothing_prompt) {
+            prompt += ` Clothing: ${matchingTheme.clothing_prompt}`
+          }
+          
+          // Add atmosphere prompt if available
+          if (matchingTheme.atmosphere_prompt) {
+            prompt += ` Atmosphere: ${matchingTheme.atmosphere_prompt}`
+          }
+          
+          // Add technical prompt if available
+          if (matchingTheme.technical_prompt) {
+            prompt += ` Technical: ${matchingTheme.technical_prompt}`
+          }
+          
+          // Add photo type specific instructions
+          if (photoType === 'single') {
+            prompt += ` This is a SINGLE PERSON portrait - show only one person.`
+          } else if (photoType === 'couple') {
+            prompt += ` This is a COUPLE portrait - show exactly two people.`
+          } else if (photoType === 'family') {
+            prompt += ` This is a FAMILY portrait with ${familyMemberCount} people - show all family members.`
+          }
+          
+          // Add custom prompt if provided
+          if (customPrompt) {
+            prompt += ` ${customPrompt}`
+          }
+          
+          // Add style modifiers if available
+          if (matchingTheme.style_modifiers && matchingTheme.style_modifiers.length > 0) {
+            prompt += ` Style modifiers: ${matchingTheme.style_modifiers.join(', ')}`
           }
+          
+          if (import.meta.env.DEV) console.log(`[PackageService] Generated prompt for ${photoType} ${style} from package theme:`, prompt.substring(0, 100) + '...')
+          return prompt + sourcePhotosSection
         }
+      }
 
-        // Try database/localStorage prompt service for legacy themes
-        const generatedPrompt = await promptService.generatePrompt(
+      // Try database/localStorage prompt service for legacy themes
+      const generatedPrompt = await promptService.generatePrompt(
+        photoType as 'single' | 'couple' | 'family',
+        style,
+        customPrompt,
+        familyMemberCount,
+        sourceRoles
+      )
+      if (import.meta.env.DEV) console.log(`[PromptService] Generated prompt for ${photoType} ${style} from database:`, generatedPrompt.substring(0, 100) + '...')
+      return generatedPrompt
+    } catch (error) {
+      console.warn('Failed to generate prompt from database, trying localStorage:', error)
+      
+      try {
+        // Fallback to sync version (localStorage)
+        const generatedPrompt = promptService.generatePromptSync(
           photoType as 'single' | 'couple' | 'family',
           style,
           customPrompt,
-          familyMemberCount
+          familyMemberCount,
+          sourceRoles
         )
-        if (import.meta.env.DEV) console.log(`[PromptService] Generated prompt for ${photoType} ${style} from database:`, generatedPrompt.substring(0, 100) + '...')
+        if (import.meta.env.DEV) console.log(`[PromptService] Generated prompt for ${photoType} ${style} from localStorage:`, generatedPrompt.substring(0, 100) + '...')
         return generatedPrompt
-      } catch (error) {
-        console.warn('Failed to generate prompt from database, trying localStorage:', error)
+      } catch (syncError) {
+        console.warn('Failed to generate prompt from localStorage, using hardcoded fallback:', syncError)
         
-        try {
-          // Fallback to sync version (localStorage)
-          const generatedPrompt = promptService.generatePromptSync(
-            photoType as 'single' | 'couple' | 'family',
-            style,
-            customPrompt,
-            familyMemberCount
-          )
-          if (import.meta.env.DEV) console.log(`[PromptService] Generated prompt for ${photoType} ${style} from localStorage:`, generatedPrompt.substring(0, 100) + '...')
-          return generatedPrompt
-        } catch (syncError) {
-          console.warn('Failed to generate prompt from localStorage, using hardcoded fallback:', syncError)
-          
-          // Final fallback to hardcoded prompts
-          const basePrompts = {
-            single: `Transform the SINGLE PERSON in this image into a FULL BODY wedding portrait with a "${style}" theme. This is a SINGLE PERSON portrait - NOT a couple. Create a professional bridal/groom portrait showing them ALONE. Keep their face EXACTLY identical to the original - preserve ALL facial features, expressions, and complete likeness. Show the complete wedding outfit from head to toe, including dress/suit details, shoes, and accessories. ${customPrompt}. Ensure their face remains perfectly consistent and unchanged from the original photo while creating a stunning full-length INDIVIDUAL portrait.`,
-            couple: `Transform the TWO PEOPLE (couple) in this image into a beautiful wedding portrait with a "${style}" theme. This is a COUPLE portrait - there should be TWO people in the result. Keep BOTH their faces EXACTLY identical to the original - preserve their facial features, expressions, and likeness completely. Maintain BOTH subjects' identity while transforming only their clothing and background to match the wedding style. ${customPrompt}. Make them look like they are dressed for a wedding in that style, but ensure BOTH faces remain perfectly consistent and unchanged from the original photo.`,
-            family: `Transform this family of ${familyMemberCount} people into a beautiful wedding portrait with a "${style}" theme. Crucially, preserve the exact likeness of EACH and EVERY family member's face and unique facial features. Only transform their clothing and the environment. Ensure all ${familyMemberCount} individuals from the original photo are present and their identity is clearly recognizable. ${customPrompt}.`
-          }
-          
-          return basePrompts[photoType as keyof typeof basePrompts] || basePrompts.couple
+        // Final fallback to hardcoded prompts
+        const basePrompts = {
+          single: `Transform the SINGLE PERSON in this image into a FULL BODY wedding portrait with a "${style}" theme. This is a SINGLE PERSON portrait - NOT a couple. Create a professional bridal/groom portrait showing them ALONE. Keep their face EXACTLY identical to the original - preserve ALL facial features, expressions, and complete likeness. Show the complete wedding outfit from head to toe, including dress/suit details, shoes, and accessories. ${customPrompt}. Ensure their face remains perfectly consistent and unchanged from the original photo while creating a stunning full-length INDIVIDUAL portrait.`,
+          couple: `Transform the TWO PEOPLE (couple) in this image into a beautiful wedding portrait with a "${style}" theme. This is a COUPLE portrait - there should be TWO people in the result. Keep BOTH their faces EXACTLY identical to the original - preserve their facial features, expressions, and likeness completely. Maintain BOTH subjects' identity while transforming only their clothing and background to match the wedding style. ${customPrompt}. Make them look like they are dressed for a wedding in that style, but ensure BOTH faces remain perfectly consistent and unchanged from the original photo.`,
+          family: `Transform this family of ${familyMemberCount} people into a beautiful wedding portrait with a "${style}" theme. Crucially, preserve the exact likeness of EACH and EVERY family member's face and unique facial features. Only transform their clothing and the environment. Ensure all ${familyMemberCount} individuals from the original photo are present and their identity is clearly recognizable. ${customPrompt}.`
         }
+        
+        return (basePrompts[photoType as keyof typeof basePrompts] || basePrompts.couple) + sourcePhotosSection
       }
     }
+  }
+
+  /**
+   * Generate multiple portrait styles with package integration
+   */
+  public async generateMultiplePortraits(
+    imageFile: File,
+    styles: string[],
+    customPrompt: string = '',
+    photoType: string = 'couple',
+    familyMemberCount: number = 3,
+    onProgressUpdate?: (style: string, status: 'in_progress' | 'completed' | 'failed', creditsRefunded?: number) => void,
+    packageConfig?: {
+      packageId: string
+      tierId: string
+      usageId?: string // set when the package credits were taken up front
+      themes?: PackageTheme[]
+      packageData?: any // Full package data with prompt templates
+    },
+    sourcePhotos?: SourcePhoto[]
+  ): Promise<{
+    results: (GenerationResult & { style: string })[]
+    successful: number
+    failed: number
+    creditsRefunded: number
+  }> {
+    const results: (GenerationResult & { style: string })[] = []
+    let creditsRefunded = 0
+    // Groups the images of this shoot in the gallery
+    const generationId = `shoot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    
+    const sourceRoles = sourcePhotos && sourcePhotos.length > 1 ? sourcePhotos.map(photo => photo.role) : []
+
+    // Generate prompts for each style using the prompt service with package support
+    const generatePrompt = (style: string): Promise<string> =>
+      this.buildStylePrompt(style, customPrompt, photoType, familyMemberCount, packageConfig, sourceRoles)
 
     // Generate portraits in parallel for better performance
     const generateStylePortrait = async (style: string) => {
@@ -661,14 +737,19 @@ class SecureGeminiService {
           style,
           packageId: packageConfig?.packageId,
           tierId: packageConfig?.tierId,
-          themeId
+          themeId,
+          usageId: packageConfig?.usageId,
+          photoType: photoType as 'single' | 'couple' | 'family',
+          generationId,
+          sourcePhotos
         })
         
         // Notify completion status
         if (result.success) {
           onProgressUpdate?.(style, 'completed')
         } else {
-          onProgressUpdate?.(style, 'failed')
+          creditsRefunded += result.creditsRefunded || 0
+          onProgressUpdate?.(style, 'failed', creditsRefunded)
         }
         
         return { ...result, style }
@@ -713,7 +794,8 @@ class SecureGeminiService {
     return {
       results,
       successful,
-      failed
+      failed,
+      creditsRefunded
     }
   }
 
@@ -7,6 +7,11 @@
 
 import { loadStripe, Stripe as StripeJS } from '@stripe/stripe-js';
 import { authService } from './authService';
+import { supabase } from './supabaseClient';
+import { promotionService, PromotionValidation } from './promotionService';
+import type { GiftDetails } from './giftCardService';
+import { priceBookService, BASE_CURRENCY } from './priceBookService';
+import { organizationService } from './organizationService';
 
 // Client-side Stripe instance
 let stripePromise: Promise<StripeJS | null> | null = null;
@@ -26,16 +31,17 @@ export interface PricingTier {
   credits: number;
   price: number; // in cents
   priceId: string; // Stripe price ID
+  currency?: string; // defaults to the base currency
+  rateToBase?: number; // set on regional prices, for converting amount-off coupons
+  promotionPriceId?: string; // default-region price that promotions are limited by
   popular?: boolean;
   bestValue?: boolean;
   features: string[];
 }
 
-export interface CouponValidation {
-  valid: boolean;
-  discountPercent?: number;
-  error?: string;
-}
+type LocalizableTier = Pick<PricingTier, 'id' | 'price' | 'priceId' | 'currency' | 'rateToBase' | 'promotionPriceId'>;
+
+export type CouponValidation = PromotionValidation;
 
 export interface CheckoutResult {
   success: boolean;
@@ -128,6 +134,28 @@ class StripeService {
     return PRICING_TIERS;
   }
 
+  /**
+   * Pricing tiers in the visitor's regional price book. Packs the book doesn't
+   * sell keep their default price.
+   */
+  async getLocalizedPricingTiers<T extends LocalizableTier>(tiers: T[]): Promise<T[]> {
+    return Promise.all(tiers.map(async tier => {
+      const localPrice = await priceBookService.getPrice('credit_pack', tier.id);
+      if (!localPrice?.stripePriceId || localPrice.stripePriceId === tier.priceId) {
+        return tier;
+      }
+
+      return {
+        ...tier,
+        price: localPrice.amountCents,
+        priceId: localPrice.stripePriceId,
+        currency: localPrice.currency,
+        rateToBase: localPrice.rateToBase,
+        promotionPriceId: tier.priceId
+      };
+    }));
+  }
+
   /**
    * Get pricing tier by ID
    */
@@ -138,8 +166,8 @@ class StripeService {
   /**
    * Format price for display
    */
-  formatPrice(cents: number): string {
-    return `$${(cents / 100).toFixed(2)}`;
+  formatPrice(cents: number, currency: string = BASE_CURRENCY): string {
+    return priceBookService.formatAmount(cents, currency);
   }
 
   /**
@@ -150,23 +178,16 @@ class StripeService {
   }
 
   /**
-   * Validate coupon code
+   * Validate coupon code. The checkout endpoint validates it again before applying it.
    */
-  async validateCoupon(couponCode: string): Promise<CouponValidation> {
+  async validateCoupon(couponCode: string, tier?: PricingTier): Promise<CouponValidation> {
     try {
-      // For now, support a hardcoded EARLYBIRD coupon (50% off)
-      // In production, this should call your backend to validate with Stripe
-      if (couponCode.toUpperCase() === 'EARLYBIRD') {
-        return {
-          valid: true,
-          discountPercent: 50
-        };
-      }
-
-      return {
-        valid: false,
-        error: 'Invalid coupon code'
-      };
+      // Promotions are priced in the base currency
+      return await promotionService.validate(
+        couponCode,
+        tier?.promotionPriceId ?? tier?.priceId,
+        tier ? Math.round(tier.price * (tier.rateToBase ?? 1)) : undefined
+      );
     } catch (error) {
       console.error('Coupon validation error:', error);
       return {
@@ -177,11 +198,23 @@ class StripeService {
   }
 
   /**
-   * Create checkout session
+   * Price of a tier after a validated coupon
+   */
+  getDiscountedTierPrice(tier: PricingTier, coupon: CouponValidation | null): number {
+    const localCoupon = coupon?.amountOff && tier.rateToBase
+      ? { ...coupon, amountOff: Math.round(coupon.amountOff / tier.rateToBase) }
+      : coupon;
+    return promotionService.applyToPrice(localCoupon, tier.promotionPriceId ?? tier.priceId, tier.price);
+  }
+
+  /**
+   * Create checkout session. With gift details the pack is bought as a gift code;
+   * otherwise the credits go to the selected wallet (the user's own or a team's).
    */
   async createCheckoutSession(
     priceId: string,
-    couponCode?: string
+    couponCode?: string,
+    gift?: GiftDetails
   ): Promise<CheckoutResult> {
     try {
       const user = authService.getCurrentUser();
@@ -200,16 +233,23 @@ class StripeService {
         };
       }
 
+      // The session token identifies the user to the checkout API, which
+      // reserves coupon codes for that user only
+      const { data: { session } } = await supabase.auth.getSession();
+
       // Call our API to create checkout session
       const response = await fetch('/api/checkout/create', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          ...(session?.access_token ? { 'Authorization': `Bearer ${session.access_token}` } : {})
         },
         body: JSON.stringify({
           priceId,
           userId: user.id,
-          couponCode
+          couponCode,
+          gift,
+          organizationId: gift ? undefined : organizationService.getSelectedWalletId() || undefined
         })
       });
 
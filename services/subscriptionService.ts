@@ -0,0 +1,166 @@
+/**
+ * Subscription Service
+ *
+ * Monthly plans that grant a credit allowance on every paid invoice. Plans and
+ * the current subscription are read directly (RLS scopes them to the user);
+ * checkout, cancellation and plan changes go through the `subscriptions` edge
+ * function, which talks to Stripe.
+ */
+
+import { supabase } from './supabaseClient';
+import { authService } from './authService';
+
+export interface SubscriptionPlan {
+  id: string;
+  name: string;
+  description: string | null;
+  stripe_price_id: string | null;
+  monthly_credits: number;
+  price_cents: number;
+  rollover_cap: number | null;
+  features: string[];
+}
+
+export interface UserSubscription {
+  stripeSubscriptionId: string;
+  status: string;
+  plan: SubscriptionPlan | null;
+  currentPeriodStart: string;
+  currentPeriodEnd: string;
+  cancelAtPeriodEnd: boolean;
+  creditsThisPeriod: number;
+}
+
+const MANAGEABLE_STATUSES = ['active', 'trialing', 'past_due'];
+
+class SubscriptionService {
+  private readonly edgeFunctionUrl: string;
+
+  constructor() {
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
+    this.edgeFunctionUrl = `${supabaseUrl}/functions/v1/subscriptions`;
+  }
+
+  /**
+   * Plans that can be subscribed to (an admin has attached a Stripe price)
+   */
+  async getPlans(): Promise<SubscriptionPlan[]> {
+    const { data, error } = await supabase
+      .from('subscription_plans')
+      .select('id, name, description, stripe_price_id, monthly_credits, price_cents, rollover_cap, features')
+      .eq('is_active', true)
+      .not('stripe_price_id', 'is', null)
+      .order('sort_order');
+
+    if (error) {
+      console.error('Failed to load subscription plans:', error);
+      return [];
+    }
+
+    return (data || []).map(plan => ({ ...plan, features: plan.features || [] }));
+  }
+
+  async getCurrentSubscription(): Promise<UserSubscription | null> {
+    const user = authService.getCurrentUser();
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from('user_subscriptions')
+      .select('stripe_subscription_id, status, plan_id, current_period_start, current_period_end, cancel_at_period_end')
+      .eq('user_id', user.id)
+      .in('status', MANAGEABLE_STATUSES)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to load subscription:', error);
+      return null;
+    }
+    if (!data) return null;
+
+    // plan_id holds the plan slug, or the Stripe price ID for older rows
+    const [{ data: plan }, { data: grants }] = await Promise.all([
+      supabase
+        .from('subscription_plans')
+        .select('id, name, description, stripe_price_id, monthly_credits, price_cents, rollover_cap, features')
+        .or(`id.eq.${data.plan_id},stripe_price_id.eq.${data.plan_id}`)
+        .limit(1)
+        .maybeSingle(),
+      supabase
+        .from('subscription_credit_grants')
+        .select('credits_granted')
+        .eq('stripe_subscription_id', data.stripe_subscription_id)
+        .gte('created_at', data.current_period_start)
+    ]);
+
+    return {
+      stripeSubscriptionId: data.stripe_subscription_id,
+      status: data.status,
+      plan: plan ? { ...plan, features: plan.features || [] } : null,
+      currentPeriodStart: data.current_period_start,
+      currentPeriodEnd: data.current_period_end,
+      cancelAtPeriodEnd: !!data.cancel_at_period_end,
+      creditsThisPeriod: (grants || []).reduce((sum, grant) => sum + grant.credits_granted, 0)
+    };
+  }
+
+  /**
+   * Start a Stripe subscription checkout and redirect to it
+   */
+  async subscribe(planId: string): Promise<void> {
+    const data = await this.callAction('checkout', { planId });
+    if (!data.url) {
+      throw new Error('No checkout URL returned');
+    }
+    window.location.href = data.url;
+  }
+
+  /**
+   * Cancel at the end of the current period; the allowance stays usable until then
+   */
+  async cancel(): Promise<void> {
+    await this.callAction('cancel');
+  }
+
+  async resume(): Promise<void> {
+    await this.callAction('resume');
+  }
+
+  /**
+   * Switch plans now. Upgrades are charged and credited pro rata for the rest of the period.
+   */
+  async changePlan(planId: string): Promise<void> {
+    await this.callAction('change_plan', { planId });
+  }
+
+  formatPrice(plan: SubscriptionPlan): string {
+    return `$${(plan.price_cents / 100).toFixed(2)}/mo`;
+  }
+
+  private async callAction(action: string, params: Record<string, unknown> = {}): Promise<any> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      throw new Error('Please sign in to manage your subscription');
+    }
+
+    const response = await fetch(this.edgeFunctionUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({ action, ...params })
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Subscription request failed: ${response.status}`);
+    }
+    return data;
+  }
+}
+
+// Export singleton instance
+export const subscriptionService = new SubscriptionService();
+export default subscriptionService;
@@ -400,7 +400,7 @@ class MigrationService {
           familyMemberCount: 3
         };
         
-        const compiled = await promptBuilder.compile(enhancedTemplate, testContext);
+        const compiled = await promptBuilder.compile(enhancedTemplate, testContext, { experiments: false });
         
         if (compiled.errors && compiled.errors.length > 0) {
           warnings.push(`Template '${template.name}' has compilation errors: ${compiled.errors.join(', ')}`);
@@ -23,6 +23,7 @@ import { TemplateParser } from './TemplateParser';
 import { VariableProcessor } from './VariableProcessor';
 import { TemplateValidator } from './TemplateValidator';
 import { TemplateCache } from './TemplateCache';
+import { experimentService } from '../experimentService';
 
 export class PromptBuilder {
   private parser: TemplateParser;
@@ -59,6 +60,7 @@ export class PromptBuilder {
       useCache?: boolean;
       validation?: boolean;
       styleVariation?: string;
+      experiments?: boolean; // set false to compile the template as saved, e.g. for previews
     }
   ): Promise<CompiledTemplate> {
     const startTime = Date.now();
@@ -66,8 +68,19 @@ export class PromptBuilder {
     const enableValidation = options?.validation !== false;
     
     try {
+      // Swap in the A/B variant assigned to this user/session, if any
+      let experiment: CompilationMetadata['experiment'];
+      if (options?.experiments !== false) {
+        const resolved = await experimentService.resolvePrompt('prompt_template', template.id, template.template);
+        experimentService.noteExposure(context.style, [resolved.assignment]);
+        if (resolved.assignment) {
+          experiment = resolved.assignment;
+          template = { ...template, template: resolved.content };
+        }
+      }
+
       // Generate cache key
-      const cacheKey = this.generateCacheKey(template, context, options);
+      const cacheKey = this.generateCacheKey(template, context, options, experiment?.variantId);
       
       // Check cache first
       if (useCache) {
@@ -132,7 +145,8 @@ export class PromptBuilder {
         style: context.style,
         compiledAt: new Date(),
         compilationTime,
-        cacheHit: false
+        cacheHit: false,
+        experiment
       };
 
       const result: CompiledTemplate = {
@@ -214,24 +228,32 @@ export class PromptBuilder {
         );
 
       case 'conditional':
-        const conditionMet = this.evaluateCondition(
-          segment.condition,
-          variables,
-          context
-        );
+        const rules = segment.conditions || [segment.condition];
+        const conditionMet = segment.operator === 'or'
+          ? rules.some(rule => this.evaluateCondition(rule, variables, context))
+          : rules.every(rule => this.evaluateCondition(rule, variables, context));
         
         const contentToCompile = conditionMet 
           ? segment.trueContent 
           : (segment.falseContent || []);
         
-        const compiledContent: string[] = [];
-        for (const contentSegment of contentToCompile) {
-          const compiled = await this.compileSegment(contentSegment, variables, context);
-          if (compiled) {
-            compiledContent.push(compiled);
-          }
+        return this.compileSegmentList(contentToCompile, variables, context);
+
+      case 'each':
+        const items = this.resolveList(
+          variables[segment.listVariable] ?? context[segment.listVariable as keyof VariableContext]
+        );
+        
+        if (items.length === 0) {
+          return this.compileSegmentList(segment.emptyContent || [], variables, context);
         }
-        return compiledContent.join('');
+        
+        const iterations: string[] = [];
+        for (let index = 0; index < items.length; index++) {
+          const scope = this.createLoopScope(segment.itemAlias, items[index], index, items.length, variables);
+          iterations.push(await this.compileSegmentList(segment.content, scope, context));
+        }
+        return iterations.join('');
 
       case 'dynamic':
         return this.processDynamicSegment(segment, variables, context);
@@ -241,6 +263,74 @@ export class PromptBuilder {
     }
   }
 
+  /**
+   * Compile a list of segments and join the output
+   */
+  private async compileSegmentList(
+    segments: TemplateSegment[],
+    variables: Record<string, any>,
+    context: VariableContext
+  ): Promise<string> {
+    const compiledContent: string[] = [];
+    for (const contentSegment of segments) {
+      const compiled = await this.compileSegment(contentSegment, variables, context);
+      if (compiled) {
+        compiledContent.push(compiled);
+      }
+    }
+    return compiledContent.join('');
+  }
+
+  /**
+   * Normalize an {{#each}} source into a list; comma-separated strings are split
+   */
+  private resolveList(value: any): any[] {
+    if (Array.isArray(value)) {
+      return value;
+    }
+    if (typeof value === 'string') {
+      return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+    }
+    if (value === undefined || value === null || value === false) {
+      return [];
+    }
+    return [value];
+  }
+
+  /**
+   * Variables visible inside one {{#each}} iteration. Object items are flattened
+   * so {member.name} resolves through the regular variable substitution.
+   */
+  private createLoopScope(
+    alias: string,
+    item: any,
+    index: number,
+    count: number,
+    variables: Record<string, any>
+  ): Record<string, any> {
+    const scope: Record<string, any> = {
+      ...variables,
+      '@index': index,
+      '@number': index + 1,
+      '@first': index === 0,
+      '@last': index === count - 1,
+      '@count': count
+    };
+
+    for (const name of new Set([alias, 'this'])) {
+      if (item !== null && typeof item === 'object' && !Array.isArray(item)) {
+        scope[name] = item.name ?? item.label ?? item.value ?? '';
+        for (const [key, value] of Object.entries(item)) {
+          scope[`${name}.${key}`] = value;
+        }
+      } else {
+        scope[name] = item;
+      }
+    }
+
+    return scope;
+  }
+
   /**
    * Evaluate conditional rule
    */
@@ -249,24 +339,51 @@ export class PromptBuilder {
     variables: Record<string, any>,
     context: VariableContext
   ): boolean {
-    const variableValue = variables[condition.variable] || context[condition.variable as keyof VariableContext];
+    const variableValue = variables[condition.variable] ?? context[condition.variable as keyof VariableContext];
     
     switch (condition.operator) {
+      case 'truthy':
+        return this.isTruthy(variableValue);
+      case 'falsy':
+        return !this.isTruthy(variableValue);
       case 'equals':
-        return variableValue === condition.value;
+        return this.valuesEqual(variableValue, condition.value);
       case 'not_equals':
-        return variableValue !== condition.value;
+        return !this.valuesEqual(variableValue, condition.value);
       case 'contains':
         return String(variableValue).includes(String(condition.value));
       case 'in':
-        return Array.isArray(condition.value) && condition.value.includes(variableValue);
+        return Array.isArray(condition.value) && condition.value.some((value: any) => this.valuesEqual(variableValue, value));
       case 'not_in':
-        return Array.isArray(condition.value) && !condition.value.includes(variableValue);
+        return Array.isArray(condition.value) && !condition.value.some((value: any) => this.valuesEqual(variableValue, value));
       default:
         return false;
     }
   }
 
+  /**
+   * Template literals are parsed as strings, so compare across types by string value
+   */
+  private valuesEqual(actual: any, expected: any): boolean {
+    if (actual === expected) {
+      return true;
+    }
+    if (actual === undefined || actual === null) {
+      return false;
+    }
+    return String(actual) === String(expected);
+  }
+
+  private isTruthy(value: any): boolean {
+    if (Array.isArray(value)) {
+      return value.length > 0;
+    }
+    if (typeof value === 'string') {
+      return value.trim().length > 0 && value !== 'false';
+    }
+    return Boolean(value);
+  }
+
   /**
    * Process dynamic segment
    */
@@ -318,11 +435,13 @@ export class PromptBuilder {
   private generateCacheKey(
     template: EnhancedPromptTemplate,
     context: VariableContext,
-    options?: any
+    options?: any,
+    variantId?: string
   ): string {
     const keyData = {
       templateId: template.id,
       version: template.version,
+      variantId,
       context: {
         style: context.style,
         customPrompt: context.customPrompt,
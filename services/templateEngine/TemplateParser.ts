@@ -1,6 +1,12 @@
 /**
  * Template Parser
  * Parses template strings into structured segments for compilation
+ *
+ * Supported syntax:
+ *   {variable}                                 variable substitution
+ *   {{#if a and b}}...{{else if c}}...{{else}}...{{/if}}
+ *   {{#each list as item}}...{{else}}...{{/each}}   ({{else}} renders for empty lists)
+ *   {{generator:params}}                       dynamic generator
  */
 
 import {
@@ -9,13 +15,48 @@ import {
   TextSegment,
   VariableSegment,
   ConditionalSegment,
+  EachSegment,
   DynamicSegment,
   ConditionalBlock,
+  ConditionalRule,
   ParseMetadata,
   TemplateEngineConfig,
+  TemplatePosition,
   CompilationError
 } from './types';
 
+type TagKind = 'if' | 'elseif' | 'else' | 'endif' | 'each' | 'endeach' | 'dynamic';
+
+interface TemplateTag {
+  kind: TagKind;
+  expression: string;
+  source: string;
+  start: number;
+}
+
+interface ParseState {
+  template: string;
+  position: number;
+  variables: Set<string>;
+  conditionals: ConditionalBlock[];
+  loopAliases: string[];
+}
+
+// Names available inside {{#each}} bodies besides the item alias
+const LOOP_VARIABLES = ['this', '@index', '@number', '@first', '@last', '@count'];
+
+const CONDITION_OPERATORS: Record<string, ConditionalRule['operator']> = {
+  'equals': 'equals',
+  'is': 'equals',
+  '==': 'equals',
+  'not_equals': 'not_equals',
+  'is_not': 'not_equals',
+  '!=': 'not_equals',
+  'contains': 'contains',
+  'in': 'in',
+  'not_in': 'not_in'
+};
+
 export class TemplateParser {
   private config: TemplateEngineConfig;
 
@@ -28,7 +69,7 @@ export class TemplateParser {
    */
   async parse(template: string): Promise<ParsedTemplate> {
     const startTime = Date.now();
-    
+
     try {
       // Validate template size
       if (template.length > this.config.maxTemplateSize) {
@@ -38,85 +79,16 @@ export class TemplateParser {
         );
       }
 
-      const segments: TemplateSegment[] = [];
-      const variables = new Set<string>();
-      const conditionals: ConditionalBlock[] = [];
-      
-      let position = 0;
-      let segmentId = 0;
-
-      while (position < template.length) {
-        // Look for variable patterns: {variableName}
-        const variableMatch = template.substring(position).match(/^\{([^}]+)\}/);
-        
-        // Look for conditional patterns: {{#if condition}}...{{/if}}
-        const conditionalMatch = template.substring(position).match(/^\{\{#if\s+([^}]+)\}\}/);
-        
-        // Look for dynamic patterns: {{generator:params}}
-        const dynamicMatch = template.substring(position).match(/^\{\{([^:]+):([^}]*)\}\}/);
-
-        if (variableMatch) {
-          // Process variable segment
-          const variableId = variableMatch[1].trim();
-          variables.add(variableId);
-          
-          const segment: VariableSegment = {
-            type: 'variable',
-            variableId,
-            formatting: this.parseVariableFormatting(variableId),
-            fallback: this.parseVariableFallback(variableId)
-          };
-          
-          segments.push(segment);
-          position += variableMatch[0].length;
-          
-        } else if (conditionalMatch && this.config.enableDebugMode) {
-          // Process conditional segment (advanced feature)
-          const { segment: conditionalSegment, endPosition } = await this.parseConditional(
-            template,
-            position,
-            segmentId++
-          );
-          
-          if (conditionalSegment) {
-            segments.push(conditionalSegment);
-            conditionals.push({
-              id: `conditional_${segmentId}`,
-              conditions: [conditionalSegment.condition],
-              operator: 'and',
-              content: conditionalSegment.trueContent
-            });
-          }
-          
-          position = endPosition;
-          
-        } else if (dynamicMatch && this.config.enableDebugMode) {
-          // Process dynamic segment (advanced feature)
-          const segment: DynamicSegment = {
-            type: 'dynamic',
-            generator: dynamicMatch[1].trim(),
-            parameters: this.parseDynamicParameters(dynamicMatch[2])
-          };
-          
-          segments.push(segment);
-          position += dynamicMatch[0].length;
-          
-        } else {
-          // Process text segment
-          const nextSpecialChar = this.findNextSpecialPosition(template, position);
-          const textContent = template.substring(position, nextSpecialChar);
-          
-          if (textContent.length > 0) {
-            const segment: TextSegment = {
-              type: 'text',
-              content: textContent
-            };
-            segments.push(segment);
-          }
-          
-          position = nextSpecialChar;
-        }
-      }
+      const state: ParseState = {
+        template,
+        position: 0,
+        variables: new Set<string>(),
+        conditionals: [],
+        loopAliases: []
+      };
+
+      const { segments } = this.parseSegments(state, []);
+      const { variables, conditionals } = state;
 
       // Validate variable count
       if (variables.size > this.config.maxVariableCount) {
@@ -155,90 +127,303 @@ export class TemplateParser {
   }
 
   /**
-   * Parse conditional block
+   * Parse segments until the end of the template or one of the given closing tags.
+   * The closing tag is consumed and returned so the caller can decide what follows.
    */
-  private async parseConditional(
-    template: string,
-    startPosition: number,
-    segmentId: number
-  ): Promise<{ segment: ConditionalSegment | null; endPosition: number }> {
-    const conditionalPattern = /\{\{#if\s+([^}]+)\}\}(.*?)\{\{\/if\}\}/s;
-    const conditionalWithElsePattern = /\{\{#if\s+([^}]+)\}\}(.*?)\{\{else\}\}(.*?)\{\{\/if\}\}/s;
-    
-    const remainingTemplate = template.substring(startPosition);
-    
-    // Try pattern with else first
-    let match = remainingTemplate.match(conditionalWithElsePattern);
-    let hasElse = true;
-    
-    if (!match) {
-      // Try pattern without else
-      match = remainingTemplate.match(conditionalPattern);
-      hasElse = false;
+  private parseSegments(
+    state: ParseState,
+    terminators: TagKind[]
+  ): { segments: TemplateSegment[]; terminator?: TemplateTag } {
+    const segments: TemplateSegment[] = [];
+    const { template } = state;
+
+    while (state.position < template.length) {
+      if (template.startsWith('{{', state.position)) {
+        const tag = this.readTag(state);
+
+        switch (tag.kind) {
+          case 'if':
+            segments.push(this.parseConditional(state, tag, tag));
+            break;
+
+          case 'each':
+            segments.push(this.parseEach(state, tag));
+            break;
+
+          case 'dynamic': {
+            const separator = tag.expression.indexOf(':');
+            const segment: DynamicSegment = {
+              type: 'dynamic',
+              generator: tag.expression.substring(0, separator).trim(),
+              parameters: this.parseDynamicParameters(tag.expression.substring(separator + 1))
+            };
+            segments.push(segment);
+            break;
+          }
+
+          default:
+            if (terminators.includes(tag.kind)) {
+              return { segments, terminator: tag };
+            }
+            const expected = terminators.includes('endif') ? ', expected {{/if}}'
+              : terminators.includes('endeach') ? ', expected {{/each}}'
+              : '';
+            throw this.syntaxError(state, `Unexpected ${tag.source}${expected}`, tag.start);
+        }
+        continue;
+      }
+
+      // Look for variable patterns: {variableName}
+      const variableMatch = template.substring(state.position).match(/^\{([^{}]+)\}/);
+      if (variableMatch) {
+        const variableId = variableMatch[1].trim();
+        this.trackVariable(state, variableId);
+
+        const segment: VariableSegment = {
+          type: 'variable',
+          variableId,
+          formatting: this.parseVariableFormatting(variableId),
+          fallback: this.parseVariableFallback(variableId)
+        };
+
+        segments.push(segment);
+        state.position += variableMatch[0].length;
+        continue;
+      }
+
+      // Process text segment up to the next brace; a lone brace is kept as text
+      const nextBrace = template.indexOf('{', state.position + 1);
+      const end = nextBrace === -1 ? template.length : nextBrace;
+      const content = template.substring(state.position, end);
+      const previous = segments[segments.length - 1];
+
+      if (previous && previous.type === 'text') {
+        previous.content += content;
+      } else {
+        const segment: TextSegment = { type: 'text', content };
+        segments.push(segment);
+      }
+
+      state.position = end;
     }
-    
-    if (!match) {
-      return { segment: null, endPosition: startPosition + 1 };
+
+    return { segments };
+  }
+
+  /**
+   * Parse an {{#if}} or {{else if}} branch through its closing {{/if}}.
+   * {{else if}} chains are represented as a nested conditional in falseContent.
+   */
+  private parseConditional(state: ParseState, tag: TemplateTag, openingTag: TemplateTag): ConditionalSegment {
+    const { conditions, operator } = this.parseConditionExpression(state, tag);
+
+    const body = this.parseSegments(state, ['elseif', 'else', 'endif']);
+    if (!body.terminator) {
+      throw this.syntaxError(state, `Unclosed ${openingTag.source} block, expected {{/if}}`, openingTag.start);
     }
 
-    const conditionStr = match[1].trim();
-    const trueContent = match[2];
-    const falseContent = hasElse ? match[3] : '';
-    
-    // Parse condition
-    const condition = this.parseCondition(conditionStr);
-    
-    // Parse content segments
-    const trueSegments = await this.parseContentSegments(trueContent);
-    const falseSegments = falseContent.length > 0 
-      ? await this.parseContentSegments(falseContent)
-      : undefined;
+    state.conditionals.push({
+      id: `conditional_${state.conditionals.length + 1}`,
+      conditions,
+      operator,
+      content: body.segments
+    });
 
     const segment: ConditionalSegment = {
       type: 'conditional',
-      condition,
-      trueContent: trueSegments,
-      falseContent: falseSegments
+      condition: conditions[0],
+      conditions,
+      operator,
+      trueContent: body.segments
     };
 
-    return {
-      segment,
-      endPosition: startPosition + match[0].length
+    if (body.terminator.kind === 'elseif') {
+      segment.falseContent = [this.parseConditional(state, body.terminator, openingTag)];
+    } else if (body.terminator.kind === 'else') {
+      const elseBody = this.parseSegments(state, ['endif']);
+      if (!elseBody.terminator) {
+        throw this.syntaxError(state, `Unclosed ${openingTag.source} block, expected {{/if}}`, openingTag.start);
+      }
+      segment.falseContent = elseBody.segments;
+    }
+
+    return segment;
+  }
+
+  /**
+   * Parse an {{#each}} block through its closing {{/each}}
+   */
+  private parseEach(state: ParseState, tag: TemplateTag): EachSegment {
+    const match = tag.expression.match(/^([\w@.]+)(?:\s+as\s+([A-Za-z_]\w*))?$/);
+    if (!match) {
+      throw this.syntaxError(state, `Invalid {{#each}} expression "${tag.expression}", expected "list" or "list as item"`, tag.start);
+    }
+
+    const listVariable = match[1];
+    const itemAlias = match[2] || 'this';
+    this.trackVariable(state, listVariable);
+
+    state.loopAliases.push(itemAlias);
+    const body = this.parseSegments(state, ['else', 'endeach']);
+    state.loopAliases.pop();
+
+    if (!body.terminator) {
+      throw this.syntaxError(state, `Unclosed ${tag.source} block, expected {{/each}}`, tag.start);
+    }
+
+    const segment: EachSegment = {
+      type: 'each',
+      listVariable,
+      itemAlias,
+      content: body.segments
     };
+
+    if (body.terminator.kind === 'else') {
+      const emptyBody = this.parseSegments(state, ['endeach']);
+      if (!emptyBody.terminator) {
+        throw this.syntaxError(state, `Unclosed ${tag.source} block, expected {{/each}}`, tag.start);
+      }
+      segment.emptyContent = emptyBody.segments;
+    }
+
+    return segment;
   }
 
   /**
-   * Parse content segments recursively
+   * Read and classify the {{...}} tag at the current position
    */
-  private async parseContentSegments(content: string): Promise<TemplateSegment[]> {
-    if (!content.trim()) {
-      return [];
+  private readTag(state: ParseState): TemplateTag {
+    const start = state.position;
+    const close = state.template.indexOf('}}', start + 2);
+    if (close === -1) {
+      throw this.syntaxError(state, 'Unclosed tag, expected "}}"', start);
+    }
+
+    const source = state.template.substring(start, close + 2);
+    const content = source.slice(2, -2).trim();
+    state.position = close + 2;
+
+    const classify = (kind: TagKind, expression: string = ''): TemplateTag => ({ kind, expression: expression.trim(), source, start });
+
+    let match: RegExpMatchArray | null;
+    if ((match = content.match(/^#if(?:\s+(.*))?$/s))) {
+      if (!match[1]?.trim()) throw this.syntaxError(state, '{{#if}} is missing a condition', start);
+      return classify('if', match[1]);
+    }
+    if ((match = content.match(/^else\s+if(?:\s+(.*))?$/s))) {
+      if (!match[1]?.trim()) throw this.syntaxError(state, '{{else if}} is missing a condition', start);
+      return classify('elseif', match[1]);
+    }
+    if (content === 'else') return classify('else');
+    if (content === '/if') return classify('endif');
+    if ((match = content.match(/^#each(?:\s+(.*))?$/s))) {
+      if (!match[1]?.trim()) throw this.syntaxError(state, '{{#each}} is missing a list variable', start);
+      return classify('each', match[1]);
     }
-    
-    const parsed = await this.parse(content);
-    return parsed.segments;
+    if (content === '/each') return classify('endeach');
+    if (/^[\w-]+\s*:/.test(content)) return classify('dynamic', content);
+
+    throw this.syntaxError(state, `Unknown tag ${source}`, start);
+  }
+
+  /**
+   * Parse "a and b" / "a or b" into rules. Mixing both in one tag is ambiguous
+   * and rejected; nest {{#if}} blocks instead.
+   */
+  private parseConditionExpression(
+    state: ParseState,
+    tag: TemplateTag
+  ): { conditions: ConditionalRule[]; operator: 'and' | 'or' } {
+    const parts = tag.expression.split(/\s+(and|or|&&|\|\|)\s+/);
+    const operators = new Set<'and' | 'or'>();
+    const conditions: ConditionalRule[] = [];
+
+    parts.forEach((part, index) => {
+      if (index % 2 === 1) {
+        operators.add(part === 'and' || part === '&&' ? 'and' : 'or');
+      } else {
+        conditions.push(this.parseCondition(state, part.trim(), tag));
+      }
+    });
+
+    if (operators.size > 1) {
+      throw this.syntaxError(state, `Cannot mix "and" and "or" in ${tag.source}; nest {{#if}} blocks instead`, tag.start);
+    }
+
+    return { conditions, operator: operators.has('or') ? 'or' : 'and' };
   }
 
   /**
    * Parse condition string into structured condition
    */
-  private parseCondition(conditionStr: string): any {
-    // Simple condition parsing: variable operator value
+  private parseCondition(state: ParseState, conditionStr: string, tag: TemplateTag): ConditionalRule {
+    // Negated boolean condition: not variable / !variable
+    const negated = conditionStr.match(/^(?:not\s+|!)([\w@.]+)$/);
+    if (negated) {
+      this.trackVariable(state, negated[1]);
+      return { variable: negated[1], operator: 'falsy', value: true };
+    }
+
     const parts = conditionStr.split(/\s+/);
-    
-    if (parts.length >= 3) {
-      return {
-        variable: parts[0],
-        operator: parts[1],
-        value: parts.slice(2).join(' ').replace(/['"]/g, '')
-      };
+
+    // Boolean condition: variable
+    if (parts.length === 1 && /^[\w@.]+$/.test(parts[0])) {
+      this.trackVariable(state, parts[0]);
+      return { variable: parts[0], operator: 'truthy', value: true };
+    }
+
+    // Comparison: variable operator value
+    if (parts.length >= 3 && /^[\w@.]+$/.test(parts[0])) {
+      const operator = CONDITION_OPERATORS[parts[1]];
+      if (!operator) {
+        throw this.syntaxError(state, `Unknown operator "${parts[1]}" in ${tag.source}`, tag.start);
+      }
+
+      this.trackVariable(state, parts[0]);
+      const rawValue = parts.slice(2).join(' ');
+      const value = operator === 'in' || operator === 'not_in'
+        ? rawValue.split(',').map(item => this.parseLiteral(item))
+        : this.parseLiteral(rawValue);
+
+      return { variable: parts[0], operator, value };
+    }
+
+    throw this.syntaxError(state, `Invalid condition "${conditionStr}" in ${tag.source}`, tag.start);
+  }
+
+  private parseLiteral(raw: string): any {
+    const trimmed = raw.trim();
+    if (trimmed === 'true') return true;
+    if (trimmed === 'false') return false;
+    return trimmed.replace(/^['"]|['"]$/g, '');
+  }
+
+  /**
+   * Record a template variable, ignoring names scoped to an enclosing {{#each}}
+   */
+  private trackVariable(state: ParseState, variableId: string): void {
+    const root = variableId.split(/[.|:]/)[0].trim();
+    if (state.loopAliases.includes(root) || (state.loopAliases.length > 0 && LOOP_VARIABLES.includes(root))) {
+      return;
     }
-    
-    // Default boolean condition
+    state.variables.add(variableId);
+  }
+
+  private syntaxError(state: ParseState, message: string, offset: number): CompilationError {
+    const position = this.getPosition(state.template, offset);
+    return new CompilationError(
+      `${message} at line ${position.line}, column ${position.column}`,
+      'template-syntax-error',
+      position
+    );
+  }
+
+  private getPosition(template: string, offset: number): TemplatePosition {
+    const preceding = template.substring(0, offset).split('\n');
     return {
-      variable: conditionStr,
-      operator: 'equals',
-      value: true
+      offset,
+      line: preceding.length,
+      column: preceding[preceding.length - 1].length + 1
     };
   }
 
@@ -249,7 +434,7 @@ export class TemplateParser {
     if (!paramStr.trim()) {
       return {};
     }
-    
+
     try {
       // Try to parse as JSON
       return JSON.parse(`{${paramStr}}`);
@@ -257,7 +442,7 @@ export class TemplateParser {
       // Fallback to simple key=value parsing
       const params: Record<string, any> = {};
       const pairs = paramStr.split(',');
-      
+
       for (const pair of pairs) {
         const [key, ...valueParts] = pair.split('=');
         if (key && valueParts.length > 0) {
@@ -265,7 +450,7 @@ export class TemplateParser {
           params[key.trim()] = value;
         }
       }
-      
+
       return params;
     }
   }
@@ -276,14 +461,14 @@ export class TemplateParser {
   private parseVariableFormatting(variableId: string): any {
     // Check for formatting options: {variable|format}
     const formatMatch = variableId.match(/^([^|]+)\|(.+)$/);
-    
+
     if (formatMatch) {
       const actualVariableId = formatMatch[1];
       const formatOptions = formatMatch[2];
-      
+
       return this.parseFormatOptions(formatOptions);
     }
-    
+
     return undefined;
   }
 
@@ -293,11 +478,11 @@ export class TemplateParser {
   private parseVariableFallback(variableId: string): string | undefined {
     // Check for fallback: {variable:fallback}
     const fallbackMatch = variableId.match(/^([^:]+):(.+)$/);
-    
+
     if (fallbackMatch) {
       return fallbackMatch[2];
     }
-    
+
     return undefined;
   }
 
@@ -307,10 +492,10 @@ export class TemplateParser {
   private parseFormatOptions(formatStr: string): any {
     const options: any = {};
     const parts = formatStr.split('|');
-    
+
     for (const part of parts) {
       const trimmed = part.trim();
-      
+
       if (trimmed === 'uppercase') {
         options.transform = 'uppercase';
       } else if (trimmed === 'lowercase') {
@@ -323,39 +508,8 @@ export class TemplateParser {
         options.suffix = trimmed.substring(7);
       }
     }
-    
-    return Object.keys(options).length > 0 ? options : undefined;
-  }
 
-  /**
-   * Find next special character position
-   */
-  private findNextSpecialPosition(template: string, startPosition: number): number {
-    const remaining = template.substring(startPosition);
-    
-    // Look for variable start
-    const variableIndex = remaining.search(/\{[^}]*\}/);
-    
-    // Look for conditional start (if enabled)
-    const conditionalIndex = this.config.enableDebugMode 
-      ? remaining.search(/\{\{#if/)
-      : -1;
-    
-    // Look for dynamic start (if enabled)
-    const dynamicIndex = this.config.enableDebugMode 
-      ? remaining.search(/\{\{[^#][^}]*:/)
-      : -1;
-    
-    // Find the closest special character
-    const indices = [variableIndex, conditionalIndex, dynamicIndex]
-      .filter(index => index >= 0)
-      .sort((a, b) => a - b);
-    
-    if (indices.length > 0) {
-      return startPosition + indices[0];
-    }
-    
-    return template.length;
+    return Object.keys(options).length > 0 ? options : undefined;
   }
 
   /**
@@ -369,15 +523,16 @@ export class TemplateParser {
     const variableCount = variables.size;
     const conditionalCount = conditionals.length;
     const dynamicCount = segments.filter(s => s.type === 'dynamic').length;
-    
-    if (variableCount > 10 || conditionalCount > 3 || dynamicCount > 2) {
+    const loopCount = segments.filter(s => s.type === 'each').length;
+
+    if (variableCount > 10 || conditionalCount > 3 || dynamicCount > 2 || loopCount > 1) {
       return 'complex';
-    } else if (variableCount > 5 || conditionalCount > 1 || dynamicCount > 0) {
+    } else if (variableCount > 5 || conditionalCount > 1 || dynamicCount > 0 || loopCount > 0) {
       return 'moderate';
     }
-    
+
     return 'simple';
   }
 }
 
-export default TemplateParser;
\ No newline at end of file
+export default TemplateParser;
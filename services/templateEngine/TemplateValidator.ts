@@ -8,8 +8,13 @@ import {
   TemplateVariable,
   ValidationRule,
   TemplateEngineConfig,
-  ValidationError
+  ValidationError,
+  CompilationError
 } from './types';
+import { TemplateParser } from './TemplateParser';
+
+// {{#if ...}}, {{else}}, {{#each ...}} and other block tags
+const BLOCK_TAG_PATTERN = /\{\{[^{}]*\}\}/g;
 
 export interface ValidationResult {
   isValid: boolean;
@@ -46,6 +51,11 @@ export class TemplateValidator {
       warnings.push(...contentResult.warnings);
       score -= contentResult.penaltyPoints;
 
+      // Block syntax validation
+      const syntaxResult = await this.validateBlockSyntax(template.template);
+      errors.push(...syntaxResult.errors);
+      score -= syntaxResult.penaltyPoints;
+
       // Variables validation
       const variablesResult = this.validateVariables(template.templateVariables);
       errors.push(...variablesResult.errors);
@@ -152,10 +162,29 @@ export class TemplateValidator {
     return { errors, warnings, penaltyPoints };
   }
 
+  /**
+   * Validate {{#if}}/{{#each}} nesting by parsing the template; errors carry line and column
+   */
+  private async validateBlockSyntax(template: string): Promise<{
+    errors: string[];
+    penaltyPoints: number;
+  }> {
+    try {
+      await new TemplateParser(this.config).parse(template);
+      return { errors: [], penaltyPoints: 0 };
+    } catch (error) {
+      if (error instanceof CompilationError && error.position) {
+        return { errors: [error.message], penaltyPoints: 20 };
+      }
+      // Size and variable-count limits are reported by the other checks
+      return { errors: [], penaltyPoints: 0 };
+    }
+  }
+
   /**
    * Validate template content
    */
-  private validateContent(template: string): {
+  private validateContent(rawTemplate: string): {
     errors: string[];
     warnings: string[];
     penaltyPoints: number;
@@ -164,8 +193,11 @@ export class TemplateValidator {
     const warnings: string[] = [];
     let penaltyPoints = 0;
 
+    // Block tags are checked by validateBlockSyntax; only single-brace variables are checked here
+    const template = rawTemplate.replace(BLOCK_TAG_PATTERN, '');
+
     // Length validation
-    if (template.length > this.config.maxTemplateSize) {
+    if (rawTemplate.length > this.config.maxTemplateSize) {
       errors.push(`Template exceeds maximum size of ${this.config.maxTemplateSize} characters`);
       penaltyPoints += 25;
     }
@@ -540,8 +572,10 @@ export class TemplateValidator {
    * Extract variable names from template string
    */
   private extractVariableNames(template: string): string[] {
-    const matches = template.match(/\{([^}]+)\}/g) || [];
-    return matches.map(match => {
+    // Names scoped to {{#each list as item}} bodies are not template variables
+    const loopAliases = ['this', ...Array.from(template.matchAll(/\{\{#each\s+[\w@.]+\s+as\s+(\w+)\s*\}\}/g), m => m[1])];
+    const matches = template.replace(BLOCK_TAG_PATTERN, '').match(/\{([^}]+)\}/g) || [];
+    const variableNames = matches.map(match => {
       const content = match.slice(1, -1).trim();
       // Handle formatted variables like {variable|format}
       const pipeIndex = content.indexOf('|');
@@ -556,6 +590,21 @@ export class TemplateValidator {
       
       return variableName.trim();
     });
+
+    // Variables referenced by {{#each list}} and {{#if}}/{{else if}} conditions
+    const blockVariables: string[] = [];
+    for (const [, list] of template.matchAll(/\{\{#each\s+([\w@.]+)/g)) {
+      blockVariables.push(list);
+    }
+    for (const [, expression] of template.matchAll(/\{\{(?:#if|else\s+if)\s+([^{}]+)\}\}/g)) {
+      for (const condition of expression.split(/\s+(?:and|or|&&|\|\|)\s+/)) {
+        const name = condition.trim().replace(/^(?:not\s+|!)/, '').split(/\s+/)[0];
+        if (name) blockVariables.push(name);
+      }
+    }
+
+    return [...variableNames, ...blockVariables]
+      .filter(name => !name.startsWith('@') && !loopAliases.includes(name.split('.')[0]));
   }
 
   /**
@@ -42,7 +42,9 @@ export type {
   TextSegment,
   VariableSegment,
   ConditionalSegment,
+  EachSegment,
   DynamicSegment,
+  TemplatePosition,
   
   // Migration types
   MigrationPlan,
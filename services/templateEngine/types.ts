@@ -123,7 +123,7 @@ export interface PromptModifier {
 // Conditional rule for dynamic content
 export interface ConditionalRule {
   variable: string;
-  operator: 'equals' | 'not_equals' | 'contains' | 'in' | 'not_in';
+  operator: 'equals' | 'not_equals' | 'contains' | 'in' | 'not_in' | 'truthy' | 'falsy';
   value: any;
 }
 
@@ -186,6 +186,7 @@ export interface CompilationMetadata {
   compiledAt: Date;
   compilationTime: number; // milliseconds
   cacheHit: boolean;
+  experiment?: { experimentId: string; variantId: string; variantName: string }; // A/B variant used, if any
 }
 
 // Variable context for template compilation
@@ -225,6 +226,7 @@ export type TemplateSegment =
   | TextSegment 
   | VariableSegment 
   | ConditionalSegment 
+  | EachSegment
   | DynamicSegment;
 
 export interface TextSegment {
@@ -241,9 +243,20 @@ export interface VariableSegment {
 
 export interface ConditionalSegment {
   type: 'conditional';
-  condition: ConditionalRule;
+  condition: ConditionalRule; // first rule, kept for single-condition consumers
+  conditions?: ConditionalRule[];
+  operator?: 'and' | 'or';
   trueContent: TemplateSegment[];
-  falseContent?: TemplateSegment[];
+  falseContent?: TemplateSegment[]; // {{else if}} branches nest as a conditional segment here
+}
+
+// {{#each list as item}}...{{else}}...{{/each}}
+export interface EachSegment {
+  type: 'each';
+  listVariable: string;
+  itemAlias: string;
+  content: TemplateSegment[];
+  emptyContent?: TemplateSegment[];
 }
 
 export interface DynamicSegment {
@@ -288,8 +301,15 @@ export class VariableError extends TemplateEngineError {
   }
 }
 
+// Location of a construct in the template source
+export interface TemplatePosition {
+  offset: number;
+  line: number;
+  column: number;
+}
+
 export class CompilationError extends TemplateEngineError {
-  constructor(message: string, templateId: string) {
+  constructor(message: string, templateId: string, public position?: TemplatePosition) {
     super(message, 'COMPILATION_ERROR', templateId);
     this.name = 'CompilationError';
   }
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import AdminLayoutSimple from './AdminLayoutSimple';
+import AdminLayoutSimple, { adminRoutePermissions } from './AdminLayoutSimple';
+import AdminProtectedRoute from './AdminProtectedRoute';
 import DashboardSimple from '../../pages/admin/DashboardSimple';
 import UserManagement from '../../pages/admin/UserManagement';
 import Alerts from '../../pages/admin/Alerts';
@@ -7,8 +8,11 @@ import CreditsManagement from '../../pages/admin/CreditsManagement';
 import PromptManagement from '../../pages/admin/PromptManagement';
 import ThemeManagement from '../../pages/admin/ThemeManagement';
 import PackageManagement from '../../pages/admin/PackageManagement';
+import PromotionsManagement from '../../pages/admin/PromotionsManagement';
+import ApiKeys from '../../pages/admin/ApiKeys';
+import Webhooks from '../../pages/admin/Webhooks';
 
-type AdminRoute = 'dashboard' | 'users' | 'alerts' | 'generations' | 'credits' | 'packages' | 'prompts' | 'themes' | 'activity' | 'settings';
+type AdminRoute = 'dashboard' | 'users' | 'alerts' | 'generations' | 'credits' | 'promotions' | 'packages' | 'prompts' | 'themes' | 'activity' | 'api-keys' | 'webhooks' | 'settings';
 
 const AdminDashboard: React.FC = () => {
   const [currentRoute, setCurrentRoute] = useState<AdminRoute>(() => {
@@ -18,8 +22,11 @@ const AdminDashboard: React.FC = () => {
     if (path === '/admin/themes') return 'themes';
     if (path === '/admin/prompts') return 'prompts';
     if (path === '/admin/credits') return 'credits';
+    if (path === '/admin/promotions') return 'promotions';
     if (path === '/admin/users') return 'users';
     if (path === '/admin/alerts') return 'alerts';
+    if (path === '/admin/api-keys') return 'api-keys';
+    if (path === '/admin/webhooks') return 'webhooks';
     return 'dashboard';
   });
 
@@ -31,8 +38,11 @@ const AdminDashboard: React.FC = () => {
       else if (path === '/admin/themes' && currentRoute !== 'themes') setCurrentRoute('themes');
       else if (path === '/admin/prompts' && currentRoute !== 'prompts') setCurrentRoute('prompts');
       else if (path === '/admin/credits' && currentRoute !== 'credits') setCurrentRoute('credits');
+      else if (path === '/admin/promotions' && currentRoute !== 'promotions') setCurrentRoute('promotions');
       else if (path === '/admin/users' && currentRoute !== 'users') setCurrentRoute('users');
       else if (path === '/admin/alerts' && currentRoute !== 'alerts') setCurrentRoute('alerts');
+      else if (path === '/admin/api-keys' && currentRoute !== 'api-keys') setCurrentRoute('api-keys');
+      else if (path === '/admin/webhooks' && currentRoute !== 'webhooks') setCurrentRoute('webhooks');
       else if (path === '/admin' && currentRoute !== 'dashboard') setCurrentRoute('dashboard');
     };
 
@@ -66,6 +76,8 @@ const AdminDashboard: React.FC = () => {
         );
       case 'credits':
         return <CreditsManagement />; // Note: This manages photo shoots (credits)
+      case 'promotions':
+        return <PromotionsManagement />;
       case 'packages':
         return <PackageManagement />;
       case 'prompts':
@@ -79,6 +91,10 @@ const AdminDashboard: React.FC = () => {
             <p className="text-gray-400 mt-2">Coming soon...</p>
           </div>
         );
+      case 'api-keys':
+        return <ApiKeys />;
+      case 'webhooks':
+        return <Webhooks />;
       case 'settings':
         return (
           <div className="p-6">
@@ -91,7 +107,13 @@ const AdminDashboard: React.FC = () => {
     }
   };
 
-  return <AdminLayoutSimple currentRoute={currentRoute} onRouteChange={handleRouteChange}>{renderContent()}</AdminLayoutSimple>;
+  // Screens the current role can't use are also hidden from the sidebar
+  const permission = adminRoutePermissions[currentRoute];
+  const content = permission
+    ? <AdminProtectedRoute permission={permission}>{renderContent()}</AdminProtectedRoute>
+    : renderContent();
+
+  return <AdminLayoutSimple currentRoute={currentRoute} onRouteChange={handleRouteChange}>{content}</AdminLayoutSimple>;
 };
 
 export default AdminDashboard;
\ No newline at end of file
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import Icon from '../../../components/Icon';
-import authService from '../../../services/authService';
+import authService, { AdminPermission } from '../../../services/authService';
 
 interface AdminLayoutProps {
   children: React.ReactNode;
@@ -8,11 +8,23 @@ interface AdminLayoutProps {
   onRouteChange: (route: any) => void;
 }
 
+// Screens that need more than admin access; the rest are open to every admin role
+export const adminRoutePermissions: Record<string, AdminPermission> = {
+  dashboard: 'dashboard.view',
+  users: 'users.view',
+  credits: 'users.view',
+  promotions: 'promotions.edit',
+  prompts: 'prompts.edit',
+  'api-keys': 'api_keys.manage',
+  webhooks: 'webhooks.manage'
+};
+
 // Icon paths
 const iconPaths = {
   dashboard: "M3 13h8V3H3v10zm0 8h8v-6H3v6zm10 0h8V11h-8v10zm0-18v6h8V3h-8z",
   users: "M16 11c1.66 0 2.99-1.34 2.99-3S17.66 5 16 5c-1.66 0-3 1.34-3 3s1.34 3 3 3zm-8 0c1.66 0 2.99-1.34 2.99-3S9.66 5 8 5C6.34 5 5 6.34 5 8s1.34 3 3 3zm0 2c-2.33 0-7 1.17-7 3.5V19h14v-2.5c0-2.33-4.67-3.5-7-3.5zm8 0c-.29 0-.62.02-.97.05 1.16.84 1.97 1.97 1.97 3.45V19h6v-2.5c0-2.33-4.67-3.5-7-3.5z",
   image: "M21 19V5c0-1.1-.9-2-2-2H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2zM8.5 13.5l2.5 3.01L14.5 12l4.5 6H5l3.5-4.5z",
+  tag: "M21.41 11.58l-9-9C12.05 2.22 11.55 2 11 2H4c-1.1 0-2 .9-2 2v7c0 .55.22 1.05.59 1.42l9 9c.36.36.86.58 1.41.58.55 0 1.05-.22 1.41-.59l7-7c.37-.36.59-.86.59-1.41 0-.55-.23-1.06-.59-1.42zM5.5 7C4.67 7 4 6.33 4 5.5S4.67 4 5.5 4 7 4.67 7 5.5 6.33 7 5.5 7z",
   creditCard: "M20 4H4c-1.11 0-1.99.89-1.99 2L2 18c0 1.11.89 2 2 2h16c1.11 0 2-.89 2-2V6c0-1.11-.89-2-2-2zm0 14H4v-6h16v6zm0-10H4V6h16v2z",
   activity: "M13.5.67s.74 2.65.74 4.8c0 2.06-1.35 3.73-3.41 3.73-2.07 0-3.63-1.67-3.63-3.73l.03-.36C5.21 7.51 4 10.62 4 14c0 4.42 3.58 8 8 8s8-3.58 8-8C20 8.61 17.41 3.8 13.5.67zM11.71 19c-1.78 0-3.22-1.4-3.22-3.14 0-1.62 1.05-2.76 2.81-3.12 1.77-.36 3.6-1.21 4.62-2.58.39 1.29.59 2.65.59 4.04 0 2.65-2.15 4.8-4.8 4.8z",
   alert: "M1 21h22L12 2 1 21zm12-3h-2v-2h2v2zm0-4h-2v-4h2v4z",
@@ -23,6 +35,8 @@ const iconPaths = {
   bell: "M12 22c1.1 0 2-.9 2-2h-4c0 1.1.89 2 2 2zm6-6v-5c0-3.07-1.64-5.64-4.5-6.32V4c0-.83-.67-1.5-1.5-1.5s-1.5.67-1.5 1.5v.68C7.63 5.36 6 7.92 6 11v5l-2 2v1h16v-1l-2-2z",
   prompt: "M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z",
   palette: "M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10c1.1 0 2-.9 2-2 0-.55-.22-1.05-.59-1.41-.36-.36-.91-.59-1.41-.59H10c-1.1 0-2-.9-2-2v-1.17c0-.83.67-1.5 1.5-1.5s1.5.67 1.5 1.5V16h2v-1.17C13 13.24 14.24 12 15.83 12c.83 0 1.5-.67 1.5-1.5S16.66 9 15.83 9H15c-.55 0-1-.45-1-1s.45-1 1-1h.83c.83 0 1.5-.67 1.5-1.5S16.66 4.5 15.83 4.5C14.24 4.5 13 3.24 13 1.67 13 .74 12.26 0 11.33 0 5.48 0 1 4.48 1 12s4.48 12 10 12z",
+  webhook: "M10 15l5.88 0c.27-.31.67-.5 1.12-.5.83 0 1.5.67 1.5 1.5s-.67 1.5-1.5 1.5c-.44 0-.84-.19-1.12-.5H11.9c-.46 2.28-2.48 4-4.9 4-2.76 0-5-2.24-5-5 0-2.42 1.72-4.44 4-4.9v2.07c-1.16.41-2 1.53-2 2.83 0 1.65 1.35 3 3 3s3-1.35 3-3v-1zm2.5-11c1.65 0 3 1.35 3 3h2c0-2.76-2.24-5-5-5s-5 2.24-5 5c0 1.43.6 2.71 1.55 3.62l-2.35 3.9C6.02 14.66 5.5 15.27 5.5 16c0 .83.67 1.5 1.5 1.5s1.5-.67 1.5-1.5c0-.17-.03-.33-.08-.48l3.38-5.63C10.49 9.61 9.5 8.42 9.5 7c0-1.65 1.35-3 3-3zm4.5 9c-.64 0-1.23.2-1.72.54l-3.05-5.07C11.53 8.35 11 7.74 11 7c0-.83.67-1.5 1.5-1.5S14 6.17 14 7c0 .15-.02.29-.06.43l2.19 3.65c.29-.05.57-.08.87-.08 2.76 0 5 2.24 5 5s-2.24 5-5 5c-1.85 0-3.47-1.01-4.33-2.5h2.67c.48.32 1.05.5 1.66.5 1.65 0 3-1.35 3-3s-1.35-3-3-3z",
+  key: "M12.65 10C11.83 7.67 9.61 6 7 6c-3.31 0-6 2.69-6 6s2.69 6 6 6c2.61 0 4.83-1.67 5.65-4H17v4h4v-4h2v-4H12.65zM7 14c-1.1 0-2-.9-2-2s.9-2 2-2 2 .9 2 2-.9 2-2 2z",
   packages: "M20 6h-2c0-2.21-1.79-4-4-4s-4 1.79-4 4H8c-1.1 0-2 .9-2 2v10c0 1.1.9 2 2 2h12c1.1 0 2-.9 2-2V8c0-1.1-.9-2-2-2zm-6-2c1.1 0 2 .9 2 2h-4c0-1.1.9-2 2-2zm6 14H8V8h2v2c0 .55.45 1 1 1s1-.45 1-1V8h4v2c0 .55.45 1 1 1s1-.45 1-1V8h2v10z"
 };
 
@@ -34,13 +48,19 @@ const AdminLayoutSimple: React.FC<AdminLayoutProps> = ({ children, currentRoute,
     { name: 'Users', route: 'users', iconPath: iconPaths.users },
     { name: 'Generations', route: 'generations', iconPath: iconPaths.image },
     { name: 'Credits', route: 'credits', iconPath: iconPaths.creditCard },
+    { name: 'Promotions', route: 'promotions', iconPath: iconPaths.tag },
     { name: 'Packages', route: 'packages', iconPath: iconPaths.packages },
     { name: 'Prompts', route: 'prompts', iconPath: iconPaths.prompt },
     { name: 'Themes', route: 'themes', iconPath: iconPaths.palette },
     { name: 'Activity', route: 'activity', iconPath: iconPaths.activity },
     { name: 'Alerts', route: 'alerts', iconPath: iconPaths.alert },
+    { name: 'API Keys', route: 'api-keys', iconPath: iconPaths.key },
+    { name: 'Webhooks', route: 'webhooks', iconPath: iconPaths.webhook },
     { name: 'Settings', route: 'settings', iconPath: iconPaths.settings },
-  ];
+  ].filter(item => {
+    const permission = adminRoutePermissions[item.route];
+    return !permission || authService.hasAdminPermission(permission);
+  });
 
   const isActive = (route: string) => {
     return currentRoute === route;
@@ -149,7 +169,7 @@ const AdminLayoutSimple: React.FC<AdminLayoutProps> = ({ children, currentRoute,
                 </div>
                 <div className="hidden md:block">
                   <p className="text-sm font-medium text-white">{authService.getCurrentUser()?.email || 'Admin'}</p>
-                  <p className="text-xs text-gray-400">{authService.getCurrentUser()?.role || 'Administrator'}</p>
+                  <p className="text-xs text-gray-400">{authService.getAdminAccess()?.role || authService.getCurrentUser()?.role || 'Administrator'}</p>
                 </div>
               </div>
             </div>
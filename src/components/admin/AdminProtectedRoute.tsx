@@ -1,17 +1,23 @@
 import React, { useEffect, useState } from 'react';
-import authService from '../../../services/authService';
+import authService, { AdminPermission } from '../../../services/authService';
 import Loader from '../../../components/Loader';
 
 interface AdminProtectedRouteProps {
   children: React.ReactNode;
+  // Also require this permission; screens inside the admin layout pass one
+  permission?: AdminPermission;
 }
 
-const AdminProtectedRoute: React.FC<AdminProtectedRouteProps> = ({ children }) => {
-  const [isLoading, setIsLoading] = useState(true);
-  const [isAdmin, setIsAdmin] = useState(false);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+const AdminProtectedRoute: React.FC<AdminProtectedRouteProps> = ({ children, permission }) => {
+  // Admin access is loaded once per visit, so nested routes don't check again
+  const loadedAccess = authService.getAdminAccess();
+  const [isLoading, setIsLoading] = useState(!loadedAccess);
+  const [isAdmin, setIsAdmin] = useState(!!loadedAccess);
+  const [isAuthenticated, setIsAuthenticated] = useState(!!loadedAccess);
 
   useEffect(() => {
+    if (loadedAccess) return;
+
     const checkAdminAccess = async () => {
       try {
         // First check if we have a session
@@ -25,10 +31,10 @@ const AdminProtectedRoute: React.FC<AdminProtectedRouteProps> = ({ children }) =
           // Refresh user profile to ensure we have the latest role
           await authService.refreshUserProfile();
           
-          // Check if user is admin
-          const adminStatus = authService.isAdmin();
-          setIsAdmin(adminStatus);
-          console.log('Admin check:', authService.getCurrentUser()?.email, 'isAdmin:', adminStatus);
+          // Check if user is admin, with their role's permissions
+          const access = await authService.loadAdminAccess();
+          setIsAdmin(!!access);
+          console.log('Admin check:', authService.getCurrentUser()?.email, 'role:', access?.role);
         }
       } catch (error) {
         console.error('Error checking admin access:', error);
@@ -80,6 +86,20 @@ const AdminProtectedRoute: React.FC<AdminProtectedRouteProps> = ({ children }) =
     );
   }
 
+  if (permission && !authService.hasAdminPermission(permission)) {
+    return (
+      <div className="p-6">
+        <div className="bg-gray-800 rounded-lg border border-gray-700 p-6 text-center">
+          <h1 className="text-xl font-bold text-white mb-2">Not available for your role</h1>
+          <p className="text-gray-400">
+            This screen needs the <code className="text-gray-300">{permission}</code> permission.
+            Ask a super admin if you need access.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   // User is authenticated and is admin, render children
   return <>{children}</>;
 };
@@ -0,0 +1,402 @@
+import React, { useState, useEffect } from 'react';
+import {
+  adminService,
+  AlertConfig,
+  AlertConfigInput,
+  AlertChannelType,
+  AlertOperator,
+  AlertSeverity
+} from '../../services/adminService';
+import LoadingSpinner from './LoadingSpinner';
+
+// Metrics written by metrics-aggregator, plus the computed checks in check_alerts()
+const KNOWN_METRICS = [
+  'api_response_time',
+  'generation_time',
+  'db_query_time',
+  'error',
+  'low_credits',
+  'high_error_rate'
+];
+
+const OPERATORS: AlertOperator[] = ['>', '>=', '<', '<=', '='];
+const SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+const CHANNEL_TYPES: AlertChannelType[] = ['email', 'slack', 'webhook'];
+
+interface RuleDraft {
+  name: string;
+  description: string;
+  metric: string;
+  operator: AlertOperator;
+  threshold: string;
+  windowMinutes: string;
+  cooldownMinutes: string;
+  severity: AlertSeverity;
+  channels: string[];
+  enabled: boolean;
+}
+
+const toDraft = (config?: AlertConfig): RuleDraft => ({
+  name: config?.name || '',
+  description: config?.description || '',
+  metric: config?.metric || '',
+  operator: config?.operator || '>',
+  threshold: config ? String(config.threshold) : '',
+  windowMinutes: config ? String(config.windowMinutes) : '0',
+  cooldownMinutes: config ? String(config.cooldownMinutes) : '60',
+  severity: config?.severity || 'warning',
+  channels: config?.channels || [],
+  enabled: config?.enabled ?? true
+});
+
+const AlertConfigsPanel: React.FC = () => {
+  const [configs, setConfigs] = useState<AlertConfig[]>([]);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [draft, setDraft] = useState<RuleDraft>(toDraft());
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadConfigs();
+  }, []);
+
+  const loadConfigs = async () => {
+    setLoading(true);
+    try {
+      setConfigs(await adminService.getAlertConfigs());
+      setError(null);
+    } catch (err: any) {
+      console.error('Failed to load alert rules:', err);
+      setError(err.message || 'Failed to load alert rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEditing = (config?: AlertConfig) => {
+    setEditingId(config?.id || 'new');
+    setDraft(toDraft(config));
+    setError(null);
+  };
+
+  const updateDraft = (changes: Partial<RuleDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const threshold = parseFloat(draft.threshold);
+    const windowMinutes = parseInt(draft.windowMinutes, 10);
+    const cooldownMinutes = parseInt(draft.cooldownMinutes, 10);
+    if (!draft.metric.trim()) {
+      setError('Choose a metric');
+      return;
+    }
+    if (!Number.isFinite(threshold)) {
+      setError('Enter a valid threshold');
+      return;
+    }
+    if (!(windowMinutes >= 0) || !(cooldownMinutes >= 0)) {
+      setError('Window and cooldown must be zero or more minutes');
+      return;
+    }
+
+    const existing = configs.find(config => config.id === editingId);
+    const input: AlertConfigInput = {
+      name: draft.name,
+      description: draft.description,
+      metric: draft.metric,
+      operator: draft.operator,
+      threshold,
+      windowMinutes,
+      cooldownMinutes,
+      severity: draft.severity,
+      channels: draft.channels,
+      enabled: draft.enabled
+    };
+
+    setSaving(true);
+    try {
+      await adminService.saveAlertConfig(input, existing?.id);
+      setEditingId(null);
+      await loadConfigs();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save alert rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (config: AlertConfig) => {
+    try {
+      const { id, createdAt, updatedAt, ...input } = config;
+      await adminService.saveAlertConfig({ ...input, enabled: !config.enabled }, id);
+      setConfigs(configs.map(c => c.id === id ? { ...c, enabled: !c.enabled } : c));
+    } catch (err: any) {
+      setError(err.message || 'Failed to update alert rule');
+    }
+  };
+
+  const handleDelete = async (config: AlertConfig) => {
+    if (!confirm(`Delete "${config.name || config.metric}"? Alerts it raised will be deleted too.`)) {
+      return;
+    }
+
+    try {
+      await adminService.deleteAlertConfig(config.id);
+      setConfigs(configs.filter(c => c.id !== config.id));
+      if (editingId === config.id) setEditingId(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete alert rule');
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm';
+
+  if (loading) {
+    return (
+      <div className="bg-gray-800 rounded-lg border border-gray-700 p-6 flex justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Alert Rules</h3>
+          <p className="text-sm text-gray-400">
+            A rule fires when the metric, averaged over its window, crosses the threshold. It won't
+            fire again while its last alert is open or within the cooldown.
+          </p>
+        </div>
+        {editingId === null && (
+          <button
+            onClick={() => startEditing()}
+            className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors text-sm"
+          >
+            New Rule
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-900/50 border border-red-500 rounded-lg p-3 flex items-center justify-between">
+          <span className="text-red-200 text-sm">{error}</span>
+          <button onClick={() => setError(null)} className="text-red-400 hover:text-red-300">✕</button>
+        </div>
+      )}
+
+      {editingId !== null && (
+        <form onSubmit={handleSave} className="bg-gray-900 rounded-lg border border-gray-700 p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="Slow generations"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Metric</label>
+              <input
+                type="text"
+                list="alert-metrics"
+                value={draft.metric}
+                onChange={(e) => updateDraft({ metric: e.target.value })}
+                placeholder="generation_time"
+                className={`${inputClass} font-mono`}
+              />
+              <datalist id="alert-metrics">
+                {KNOWN_METRICS.map(metric => <option key={metric} value={metric} />)}
+              </datalist>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">Description</label>
+            <input
+              type="text"
+              value={draft.description}
+              onChange={(e) => updateDraft({ description: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Operator</label>
+              <select
+                value={draft.operator}
+                onChange={(e) => updateDraft({ operator: e.target.value as AlertOperator })}
+                className={inputClass}
+              >
+                {OPERATORS.map(op => <option key={op} value={op}>{op}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Threshold</label>
+              <input
+                type="number"
+                step="any"
+                value={draft.threshold}
+                onChange={(e) => updateDraft({ threshold: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Window (min)</label>
+              <input
+                type="number"
+                min="0"
+                value={draft.windowMinutes}
+                onChange={(e) => updateDraft({ windowMinutes: e.target.value })}
+                title="0 checks each recorded value"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Cooldown (min)</label>
+              <input
+                type="number"
+                min="0"
+                value={draft.cooldownMinutes}
+                onChange={(e) => updateDraft({ cooldownMinutes: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Severity</label>
+              <select
+                value={draft.severity}
+                onChange={(e) => updateDraft({ severity: e.target.value as AlertSeverity })}
+                className={inputClass}
+              >
+                {SEVERITIES.map(severity => <option key={severity} value={severity}>{severity}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-4">
+            <span className="text-sm text-gray-400">Notify:</span>
+            {CHANNEL_TYPES.map(type => (
+              <label key={type} className="flex items-center space-x-2 text-gray-300 text-sm cursor-pointer capitalize">
+                <input
+                  type="checkbox"
+                  checked={draft.channels.includes(type)}
+                  onChange={(e) => updateDraft({
+                    channels: e.target.checked
+                      ? [...draft.channels, type]
+                      : draft.channels.filter(channel => channel !== type)
+                  })}
+                  className="rounded border-gray-600 bg-gray-700 text-purple-600"
+                />
+                <span>{type}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-2 text-gray-400 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(e) => updateDraft({ enabled: e.target.checked })}
+                className="rounded border-gray-600 bg-gray-700 text-purple-600"
+              />
+              <span>Enabled</span>
+            </label>
+            <div className="flex space-x-2">
+              <button
+                type="button"
+                onClick={() => setEditingId(null)}
+                className="bg-gray-700 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors text-sm disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : editingId === 'new' ? 'Create Rule' : 'Save Rule'}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {configs.length === 0 ? (
+        <p className="text-sm text-gray-500">No alert rules yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-700">
+                <th className="py-2 pr-4">Rule</th>
+                <th className="py-2 pr-4">Condition</th>
+                <th className="py-2 pr-4">Window</th>
+                <th className="py-2 pr-4">Cooldown</th>
+                <th className="py-2 pr-4">Severity</th>
+                <th className="py-2 pr-4">Notifies</th>
+                <th className="py-2 pr-4">Enabled</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {configs.map(config => (
+                <tr key={config.id} className="border-b border-gray-700">
+                  <td className="py-2 pr-4">
+                    <div className="text-white">{config.name || config.metric}</div>
+                    {config.description && <div className="text-xs text-gray-500">{config.description}</div>}
+                  </td>
+                  <td className="py-2 pr-4 font-mono text-gray-300">
+                    {config.metric} {config.operator} {config.threshold}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-300">
+                    {config.windowMinutes > 0 ? `${config.windowMinutes} min` : 'Each value'}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-300">{config.cooldownMinutes} min</td>
+                  <td className="py-2 pr-4 text-gray-300 capitalize">{config.severity}</td>
+                  <td className="py-2 pr-4 text-gray-300">
+                    {config.channels.length > 0 ? config.channels.join(', ') : <span className="text-gray-500">Alerts page only</span>}
+                  </td>
+                  <td className="py-2 pr-4">
+                    <input
+                      type="checkbox"
+                      checked={config.enabled}
+                      onChange={() => handleToggle(config)}
+                      className="rounded border-gray-600 bg-gray-700 text-purple-600"
+                    />
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap space-x-3">
+                    <button
+                      onClick={() => startEditing(config)}
+                      className="text-purple-500 hover:text-purple-400"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(config)}
+                      className="text-red-500 hover:text-red-400"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertConfigsPanel;
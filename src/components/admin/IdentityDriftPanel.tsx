@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../../../services/supabaseClient';
+import LoadingSpinner from './LoadingSpinner';
+
+interface ThemeIdentityDrift {
+  theme_id: string | null;
+  theme_name: string;
+  package_name: string | null;
+  scorer: string;
+  check_count: number;
+  average_score: number;
+  flagged_count: number;
+  flagged_rate: number;
+  retried_count: number;
+  faces_changed_reports: number;
+}
+
+const RANGE_DAYS = [7, 30, 90];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const IdentityDriftPanel: React.FC = () => {
+  const [rows, setRows] = useState<ThemeIdentityDrift[]>([]);
+  const [days, setDays] = useState(30);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDrift();
+  }, [days]);
+
+  const loadDrift = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_theme_identity_drift', {
+        p_start_date: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+      });
+
+      if (error) throw error;
+
+      setRows((data || []).map((row: any) => ({
+        ...row,
+        check_count: Number(row.check_count),
+        average_score: Number(row.average_score),
+        flagged_count: Number(row.flagged_count),
+        flagged_rate: Number(row.flagged_rate),
+        retried_count: Number(row.retried_count),
+        faces_changed_reports: Number(row.faces_changed_reports)
+      })));
+      setError(null);
+    } catch (err: any) {
+      console.error('Failed to load identity drift:', err);
+      setError(err.message || 'Failed to load identity drift');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Identity Drift</h3>
+          <p className="text-sm text-gray-400">How closely results resemble the uploaded photo, by theme. Worst first.</p>
+        </div>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+        >
+          {RANGE_DAYS.map(value => (
+            <option key={value} value={value}>Last {value} days</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="bg-red-900/50 border border-red-500 rounded-lg p-3 flex items-center justify-between">
+          <span className="text-red-200 text-sm">{error}</span>
+          <button onClick={() => setError(null)} className="text-red-400 hover:text-red-300">✕</button>
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner size="sm" />
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-gray-400">No identity checks recorded in this period.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400 border-b border-gray-700">
+              <th className="py-2 pr-4">Theme</th>
+              <th className="py-2 pr-4">Scorer</th>
+              <th className="py-2 pr-4">Checks</th>
+              <th className="py-2 pr-4">Avg similarity</th>
+              <th className="py-2 pr-4">Flagged</th>
+              <th className="py-2 pr-4">Retried</th>
+              <th className="py-2 pr-4">"Faces changed" reports</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={`${row.theme_id || row.theme_name}:${row.scorer}`} className="border-b border-gray-800 text-gray-200">
+                <td className="py-2 pr-4">
+                  {row.theme_name}
+                  {row.package_name && <span className="ml-2 text-xs text-gray-400">{row.package_name}</span>}
+                </td>
+                <td className="py-2 pr-4">{row.scorer}</td>
+                <td className="py-2 pr-4">{row.check_count}</td>
+                <td className="py-2 pr-4">{row.average_score.toFixed(2)}</td>
+                <td className={`py-2 pr-4 ${row.flagged_rate >= 0.2 ? 'text-red-400' : ''}`}>
+                  {formatPercent(row.flagged_rate)} ({row.flagged_count})
+                </td>
+                <td className="py-2 pr-4">{row.retried_count}</td>
+                <td className="py-2 pr-4">{row.faces_changed_reports}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default IdentityDriftPanel;
@@ -0,0 +1,367 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import {
+  adminService,
+  AlertChannelType,
+  AlertDelivery,
+  NotificationChannel,
+  NotificationChannelInput
+} from '../../services/adminService';
+import LoadingSpinner from './LoadingSpinner';
+
+const CHANNEL_TYPES: { value: AlertChannelType; label: string; placeholder: string }[] = [
+  { value: 'email', label: 'Email', placeholder: 'ops@example.com' },
+  { value: 'slack', label: 'Slack', placeholder: 'https://hooks.slack.com/services/...' },
+  { value: 'webhook', label: 'Webhook', placeholder: 'https://example.com/alerts' }
+];
+
+const emptyDraft: NotificationChannelInput = { name: '', type: 'email', target: '', enabled: true };
+
+const statusStyles: Record<AlertDelivery['status'], string> = {
+  delivered: 'bg-green-900 text-green-300',
+  pending: 'bg-yellow-900 text-yellow-300',
+  failed: 'bg-red-900 text-red-300'
+};
+
+const NotificationChannelsPanel: React.FC = () => {
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [deliveries, setDeliveries] = useState<AlertDelivery[]>([]);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [draft, setDraft] = useState<NotificationChannelInput>(emptyDraft);
+  const [revealedSecretId, setRevealedSecretId] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadChannels();
+  }, []);
+
+  const loadChannels = async () => {
+    try {
+      const [allChannels, recentDeliveries] = await Promise.all([
+        adminService.getNotificationChannels(),
+        adminService.getAlertDeliveries()
+      ]);
+      setChannels(allChannels);
+      setDeliveries(recentDeliveries);
+      setError(null);
+    } catch (err: any) {
+      console.error('Failed to load notification channels:', err);
+      setError(err.message || 'Failed to load notification channels');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEditing = (channel?: NotificationChannel) => {
+    setEditingId(channel?.id || 'new');
+    setDraft(channel
+      ? { name: channel.name, type: channel.type, target: channel.target, enabled: channel.enabled }
+      : emptyDraft
+    );
+    setError(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim() || !draft.target.trim()) {
+      setError('Enter a name and a destination');
+      return;
+    }
+    if (draft.type !== 'email' && !/^https?:\/\//.test(draft.target.trim())) {
+      setError('Enter the full URL, starting with https://');
+      return;
+    }
+
+    setBusy('save');
+    try {
+      await adminService.saveNotificationChannel(draft, editingId === 'new' ? undefined : editingId || undefined);
+      setEditingId(null);
+      setSuccess(`Saved ${draft.name.trim()}`);
+      await loadChannels();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save channel');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async (channel: NotificationChannel) => {
+    if (!confirm(`Delete "${channel.name}"? Its delivery log will be deleted too.`)) {
+      return;
+    }
+
+    try {
+      await adminService.deleteNotificationChannel(channel.id);
+      await loadChannels();
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete channel');
+    }
+  };
+
+  const handleTest = async (channel: NotificationChannel) => {
+    setBusy(`test:${channel.id}`);
+    try {
+      const status = await adminService.sendTestAlert(channel.id);
+      if (status === 'delivered') {
+        setSuccess(`Test alert delivered to ${channel.name}`);
+        setError(null);
+      } else {
+        setError(`Test alert to ${channel.name} failed; see the delivery log`);
+      }
+      await loadChannels();
+    } catch (err: any) {
+      setError(err.message || 'Failed to send test alert');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRetry = async (delivery: AlertDelivery) => {
+    setBusy(`retry:${delivery.id}`);
+    try {
+      const status = await adminService.retryAlertDelivery(delivery.id);
+      if (status === 'delivered') {
+        setSuccess('Notification delivered');
+        setError(null);
+      } else {
+        setError('Delivery failed again; it will keep retrying with backoff');
+      }
+      await loadChannels();
+    } catch (err: any) {
+      setError(err.message || 'Failed to retry delivery');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm';
+
+  if (loading) {
+    return (
+      <div className="bg-gray-800 rounded-lg border border-gray-700 p-6 flex justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Notification Channels</h3>
+          <p className="text-sm text-gray-400">
+            Alert rules notify every enabled channel of the types they select; payment dispute alerts
+            go to all channels. Failed deliveries are retried with backoff.
+          </p>
+        </div>
+        {editingId === null && (
+          <button
+            onClick={() => startEditing()}
+            className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors text-sm"
+          >
+            New Channel
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-900/50 border border-red-500 rounded-lg p-3 flex items-center justify-between">
+          <span className="text-red-200 text-sm">{error}</span>
+          <button onClick={() => setError(null)} className="text-red-400 hover:text-red-300">✕</button>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-900/50 border border-green-500 rounded-lg p-3 flex items-center justify-between">
+          <span className="text-green-200 text-sm">{success}</span>
+          <button onClick={() => setSuccess(null)} className="text-green-400 hover:text-green-300">✕</button>
+        </div>
+      )}
+
+      {editingId !== null && (
+        <form onSubmit={handleSave} className="bg-gray-900 rounded-lg border border-gray-700 p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="On-call"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Type</label>
+              <select
+                value={draft.type}
+                onChange={(e) => setDraft({ ...draft, type: e.target.value as AlertChannelType })}
+                className={inputClass}
+              >
+                {CHANNEL_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">
+                {draft.type === 'email' ? 'Email address' : 'URL'}
+              </label>
+              <input
+                type={draft.type === 'email' ? 'email' : 'url'}
+                value={draft.target}
+                onChange={(e) => setDraft({ ...draft, target: e.target.value })}
+                placeholder={CHANNEL_TYPES.find(type => type.value === draft.type)?.placeholder}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-2 text-gray-400 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+                className="rounded border-gray-600 bg-gray-700 text-purple-600"
+              />
+              <span>Enabled</span>
+            </label>
+            <div className="flex space-x-2">
+              <button
+                type="button"
+                onClick={() => setEditingId(null)}
+                className="bg-gray-700 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={busy === 'save'}
+                className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors text-sm disabled:opacity-50"
+              >
+                {busy === 'save' ? 'Saving...' : 'Save Channel'}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {channels.length === 0 ? (
+        <p className="text-sm text-gray-500">No notification channels yet. Alerts are only listed on this page.</p>
+      ) : (
+        <div className="space-y-3">
+          {channels.map(channel => (
+            <div key={channel.id} className="bg-gray-900 rounded-lg border border-gray-700 p-4">
+              <div className="flex items-start justify-between">
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span className={`font-medium ${channel.enabled ? 'text-white' : 'text-gray-500'}`}>{channel.name}</span>
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-gray-700 text-gray-300 capitalize">{channel.type}</span>
+                    {!channel.enabled && <span className="text-xs text-gray-500">Disabled</span>}
+                  </div>
+                  <p className="text-sm text-gray-400 font-mono truncate">{channel.target}</p>
+                  {channel.type === 'webhook' && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Signing secret:{' '}
+                      {revealedSecretId === channel.id ? (
+                        <span className="font-mono text-gray-300 select-all">{channel.signingSecret}</span>
+                      ) : (
+                        <button onClick={() => setRevealedSecretId(channel.id)} className="text-purple-500 hover:text-purple-400">
+                          Reveal
+                        </button>
+                      )}
+                    </p>
+                  )}
+                </div>
+                <div className="flex space-x-3 ml-4 text-sm whitespace-nowrap">
+                  <button
+                    onClick={() => handleTest(channel)}
+                    disabled={busy === `test:${channel.id}`}
+                    className="text-green-500 hover:text-green-400 disabled:opacity-50"
+                  >
+                    {busy === `test:${channel.id}` ? 'Sending...' : 'Send test alert'}
+                  </button>
+                  <button onClick={() => startEditing(channel)} className="text-purple-500 hover:text-purple-400">
+                    Edit
+                  </button>
+                  <button onClick={() => handleDelete(channel)} className="text-red-500 hover:text-red-400">
+                    Delete
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-md font-semibold text-white">Delivery Log</h4>
+          <button onClick={loadChannels} className="text-sm text-gray-400 hover:text-white">Refresh</button>
+        </div>
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing sent yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700">
+                  <th className="py-2 pr-4">Queued</th>
+                  <th className="py-2 pr-4">Channel</th>
+                  <th className="py-2 pr-4">Alert</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2 pr-4">Attempts</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.map(delivery => (
+                  <tr key={delivery.id} className="border-b border-gray-700 align-top">
+                    <td className="py-2 pr-4 text-gray-300 whitespace-nowrap">
+                      {format(delivery.createdAt, 'MMM dd, HH:mm')}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-300">
+                      {delivery.channelName || 'Deleted channel'}
+                      {delivery.channelType && <span className="text-xs text-gray-500"> ({delivery.channelType})</span>}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-300">
+                      {delivery.isTest && <span className="text-xs text-gray-500 mr-1">[Test]</span>}
+                      {delivery.message}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <span className={`px-2 py-0.5 text-xs rounded-full ${statusStyles[delivery.status]}`}>
+                        {delivery.status}
+                      </span>
+                      {delivery.lastError && delivery.status !== 'delivered' && (
+                        <div className="text-xs text-red-400 mt-1 max-w-xs break-words">{delivery.lastError}</div>
+                      )}
+                      {delivery.status === 'pending' && delivery.attempts > 0 && (
+                        <div className="text-xs text-gray-500 mt-1">Next try {format(delivery.nextAttemptAt, 'HH:mm')}</div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-300">{delivery.attempts}/{delivery.maxAttempts}</td>
+                    <td className="py-2 text-right">
+                      {delivery.status !== 'delivered' && delivery.channelName && (
+                        <button
+                          onClick={() => handleRetry(delivery)}
+                          disabled={busy === `retry:${delivery.id}`}
+                          className="text-purple-500 hover:text-purple-400 disabled:opacity-50"
+                        >
+                          Retry now
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NotificationChannelsPanel;
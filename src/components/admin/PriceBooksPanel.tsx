@@ -0,0 +1,408 @@
+import React, { useState, useEffect } from 'react';
+import {
+  priceBookService,
+  AdminPriceBook,
+  AdminPriceBookPrice,
+  ExchangeRate,
+  PriceBookProductType,
+  BASE_CURRENCY
+} from '../../../services/priceBookService';
+import { PRICING_TIERS } from '../../../services/stripeService';
+import type { PackagePricingTier } from '../../../services/photoPackagesService';
+import LoadingSpinner from './LoadingSpinner';
+
+interface PriceBooksPanelProps {
+  packageName?: string;
+  packageTiers: PackagePricingTier[]; // tiers of the package selected on the page
+  readOnly?: boolean; // hides the save controls for admins without pricing.edit
+}
+
+interface PriceDraft {
+  amount: string; // major units, as typed
+  stripePriceId: string;
+  isActive: boolean;
+}
+
+const draftKey = (productType: PriceBookProductType, productId: string) => `${productType}:${productId}`;
+
+const toDraft = (price?: AdminPriceBookPrice): PriceDraft => ({
+  amount: price ? (price.amountCents / 100).toFixed(2) : '',
+  stripePriceId: price?.stripePriceId || '',
+  isActive: price?.isActive ?? true
+});
+
+const PriceBooksPanel: React.FC<PriceBooksPanelProps> = ({ packageName, packageTiers, readOnly = false }) => {
+  const [books, setBooks] = useState<AdminPriceBook[]>([]);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [selectedBookId, setSelectedBookId] = useState<string | null>(null);
+  const [countries, setCountries] = useState('');
+  const [drafts, setDrafts] = useState<Record<string, PriceDraft>>({});
+  const [rateDrafts, setRateDrafts] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const selectedBook = books.find(book => book.id === selectedBookId) || null;
+
+  useEffect(() => {
+    loadPriceBooks();
+  }, []);
+
+  // Reset the form to the selected book's saved prices
+  useEffect(() => {
+    if (!selectedBook) return;
+    setCountries(selectedBook.countries.join(', '));
+    setDrafts(Object.fromEntries(selectedBook.prices.map(price => [
+      draftKey(price.productType, price.productId),
+      toDraft(price)
+    ])));
+  }, [selectedBookId, books]);
+
+  const loadPriceBooks = async () => {
+    setLoading(true);
+    try {
+      const [allBooks, allRates] = await Promise.all([
+        priceBookService.listPriceBooks(),
+        priceBookService.listExchangeRates()
+      ]);
+      setBooks(allBooks);
+      setRates(allRates);
+      setRateDrafts(Object.fromEntries(allRates.map(rate => [rate.currency, String(rate.rateToBase)])));
+      setSelectedBookId(current => current ?? allBooks[0]?.id ?? null);
+      setError(null);
+    } catch (err: any) {
+      console.error('Failed to load price books:', err);
+      setError(err.message || 'Failed to load price books');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getDraft = (productType: PriceBookProductType, productId: string): PriceDraft =>
+    drafts[draftKey(productType, productId)] || toDraft();
+
+  const updateDraft = (productType: PriceBookProductType, productId: string, changes: Partial<PriceDraft>) => {
+    const key = draftKey(productType, productId);
+    setDrafts(prev => ({ ...prev, [key]: { ...(prev[key] || toDraft()), ...changes } }));
+  };
+
+  const handleSavePrice = async (productType: PriceBookProductType, productId: string, credits: number | null) => {
+    if (!selectedBook) return;
+
+    const draft = getDraft(productType, productId);
+    const amountCents = Math.round(parseFloat(draft.amount) * 100);
+    if (!Number.isFinite(amountCents) || amountCents < 0) {
+      setError('Enter a valid price');
+      return;
+    }
+
+    setSaving(draftKey(productType, productId));
+    try {
+      const saved = await priceBookService.savePrice(selectedBook.id, {
+        productType,
+        productId,
+        amountCents,
+        credits,
+        stripePriceId: productType === 'credit_pack' ? draft.stripePriceId : null,
+        isActive: draft.isActive
+      });
+      setBooks(books.map(book => book.id === selectedBook.id
+        ? { ...book, prices: [...book.prices.filter(price => price.id !== saved.id), saved] }
+        : book
+      ));
+      setSuccess(`Saved ${selectedBook.name} price`);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save price');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleSaveBook = async (changes: { isActive?: boolean } = {}) => {
+    if (!selectedBook) return;
+
+    setSaving('book');
+    try {
+      const countryList = countries.split(',').map(country => country.trim().toUpperCase()).filter(Boolean);
+      await priceBookService.updatePriceBook(selectedBook.id, { countries: countryList, ...changes });
+      setBooks(books.map(book => book.id === selectedBook.id
+        ? { ...book, countries: countryList, isActive: changes.isActive ?? book.isActive }
+        : book
+      ));
+      setSuccess(`Saved ${selectedBook.name}`);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save price book');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleSaveRate = async (currency: string) => {
+    const rateToBase = parseFloat(rateDrafts[currency]);
+    if (!(rateToBase > 0)) {
+      setError('Enter a rate above zero');
+      return;
+    }
+
+    setSaving(`rate:${currency}`);
+    try {
+      await priceBookService.updateExchangeRate(currency, rateToBase);
+      setRates(rates.map(rate => rate.currency === currency
+        ? { ...rate, rateToBase, updatedAt: new Date().toISOString() }
+        : rate
+      ));
+      setSuccess(`Saved ${currency} exchange rate`);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save exchange rate');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const renderPriceRow = (
+    productType: PriceBookProductType,
+    productId: string,
+    label: string,
+    credits: number | null,
+    defaultPrice: string
+  ) => {
+    const draft = getDraft(productType, productId);
+    const key = draftKey(productType, productId);
+
+    return (
+      <tr key={key} className="border-b border-gray-700">
+        <td className="py-2 pr-4">
+          <div className="text-white">{label}</div>
+          <div className="text-xs text-gray-500">{defaultPrice}</div>
+        </td>
+        <td className="py-2 pr-4">
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={draft.amount}
+            onChange={(e) => updateDraft(productType, productId, { amount: e.target.value })}
+            placeholder="0.00"
+            className="w-28 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+          />
+        </td>
+        {productType === 'credit_pack' && (
+          <td className="py-2 pr-4">
+            <input
+              type="text"
+              value={draft.stripePriceId}
+              onChange={(e) => updateDraft(productType, productId, { stripePriceId: e.target.value })}
+              placeholder="price_..."
+              className="w-56 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm font-mono"
+            />
+          </td>
+        )}
+        <td className="py-2 pr-4">
+          <input
+            type="checkbox"
+            checked={draft.isActive}
+            onChange={(e) => updateDraft(productType, productId, { isActive: e.target.checked })}
+            className="rounded border-gray-600 bg-gray-700 text-purple-600"
+          />
+        </td>
+        <td className="py-2 text-right">
+          {!readOnly && (
+            <button
+              onClick={() => handleSavePrice(productType, productId, credits)}
+              disabled={saving === key || !draft.amount}
+              className="px-3 py-1 text-sm bg-purple-600 text-white rounded hover:bg-purple-700 transition-colors disabled:opacity-50"
+            >
+              {saving === key ? 'Saving...' : 'Save'}
+            </button>
+          )}
+        </td>
+      </tr>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-gray-800 rounded-lg border border-gray-700 p-6 flex justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-white">Regional Price Books</h3>
+        <p className="text-sm text-gray-400">
+          Visitors see the book for their country, or the default book. A credit pack is only sold
+          in a region once it has a Stripe price in that region's currency.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-900/50 border border-red-500 rounded-lg p-3 flex items-center justify-between">
+          <span className="text-red-200 text-sm">{error}</span>
+          <button onClick={() => setError(null)} className="text-red-400 hover:text-red-300">✕</button>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-900/50 border border-green-500 rounded-lg p-3 flex items-center justify-between">
+          <span className="text-green-200 text-sm">{success}</span>
+          <button onClick={() => setSuccess(null)} className="text-green-400 hover:text-green-300">✕</button>
+        </div>
+      )}
+
+      <div className="border-b border-gray-700">
+        <nav className="flex flex-wrap gap-x-6">
+          {books.map(book => (
+            <button
+              key={book.id}
+              onClick={() => setSelectedBookId(book.id)}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                book.id === selectedBookId
+                  ? 'border-purple-500 text-purple-400'
+                  : 'border-transparent text-gray-400 hover:text-gray-300'
+              } ${book.isActive ? '' : 'opacity-50'}`}
+            >
+              {book.name} ({book.currency}){book.isDefault && ' · Default'}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {selectedBook && (
+        <div className="space-y-6">
+          <div className="flex flex-col md:flex-row md:items-end gap-3">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-300 mb-1">
+                Countries (ISO codes, comma separated)
+              </label>
+              <input
+                type="text"
+                value={countries}
+                onChange={(e) => setCountries(e.target.value)}
+                placeholder={selectedBook.isDefault ? 'Everyone not covered by another book' : 'e.g. DE, FR'}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+              />
+            </div>
+            {!readOnly && (
+              <button
+                onClick={() => handleSaveBook()}
+                disabled={saving === 'book'}
+                className="px-4 py-2 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+              >
+                Save Countries
+              </button>
+            )}
+            {!readOnly && !selectedBook.isDefault && (
+              <button
+                onClick={() => handleSaveBook({ isActive: !selectedBook.isActive })}
+                disabled={saving === 'book'}
+                className="px-4 py-2 text-sm bg-gray-700 text-gray-300 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+              >
+                {selectedBook.isActive ? 'Deactivate' : 'Activate'}
+              </button>
+            )}
+          </div>
+
+          <div>
+            <h4 className="font-medium text-white mb-2">Credit Packs</h4>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="text-gray-400 border-b border-gray-700">
+                  <tr>
+                    <th className="py-2 pr-4">Pack</th>
+                    <th className="py-2 pr-4">Price ({selectedBook.currency})</th>
+                    <th className="py-2 pr-4">Stripe Price ID</th>
+                    <th className="py-2 pr-4">Active</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {PRICING_TIERS.map(tier => renderPriceRow(
+                    'credit_pack',
+                    tier.id,
+                    `${tier.name} · ${tier.credits} credits`,
+                    tier.credits,
+                    `Default ${priceBookService.formatAmount(tier.price, BASE_CURRENCY)}`
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="font-medium text-white mb-2">
+              Package Tiers{packageName && ` · ${packageName}`}
+            </h4>
+            {packageTiers.length === 0 ? (
+              <p className="text-sm text-gray-400">Select a package to set its tier prices for this region.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                  <thead className="text-gray-400 border-b border-gray-700">
+                    <tr>
+                      <th className="py-2 pr-4">Tier</th>
+                      <th className="py-2 pr-4">Price ({selectedBook.currency})</th>
+                      <th className="py-2 pr-4">Active</th>
+                      <th className="py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {packageTiers.map(tier => renderPriceRow(
+                      'package_tier',
+                      tier.id,
+                      tier.display_name,
+                      null,
+                      `Default ${priceBookService.formatAmount(tier.price_amount_cents, tier.currency)}`
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h4 className="font-medium text-white mb-1">Exchange Rates</h4>
+        <p className="text-sm text-gray-400 mb-2">
+          Value of one unit of each currency in {BASE_CURRENCY}. Revenue reports convert with these rates.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {rates.map(rate => (
+            <div key={rate.currency} className="flex items-center gap-2 p-3 border border-gray-600 rounded-lg bg-gray-700/50">
+              <span className="text-white font-medium w-12">{rate.currency}</span>
+              <input
+                type="number"
+                min="0"
+                step="0.0001"
+                value={rateDrafts[rate.currency] ?? ''}
+                onChange={(e) => setRateDrafts(prev => ({ ...prev, [rate.currency]: e.target.value }))}
+                disabled={rate.isBase}
+                className="flex-1 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm disabled:opacity-50"
+              />
+              {rate.isBase ? (
+                <span className="text-xs text-gray-400">Base</span>
+              ) : !readOnly && (
+                <button
+                  onClick={() => handleSaveRate(rate.currency)}
+                  disabled={saving === `rate:${rate.currency}`}
+                  className="px-3 py-1 text-sm bg-purple-600 text-white rounded hover:bg-purple-700 transition-colors disabled:opacity-50"
+                >
+                  Save
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PriceBooksPanel;
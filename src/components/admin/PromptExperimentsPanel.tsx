@@ -0,0 +1,447 @@
+import React, { useState, useEffect } from 'react';
+import {
+  experimentService,
+  PromptExperiment,
+  ExperimentStatus,
+  ExperimentTargetType,
+  ExperimentVariantResult
+} from '../../../services/experimentService';
+import { supabase } from '../../../services/supabaseClient';
+import LoadingSpinner from './LoadingSpinner';
+
+interface TargetOption {
+  id: string;
+  label: string;
+}
+
+interface VariantDraft {
+  name: string;
+  content: string;
+  weight: number;
+  isControl: boolean;
+}
+
+const TARGET_LABELS: Record<ExperimentTargetType, string> = {
+  prompt_template: 'Prompt template',
+  package_template: 'Package base prompt template',
+  theme_setting_prompt: 'Package theme setting prompt'
+};
+
+const STATUS_STYLES: Record<ExperimentStatus, string> = {
+  draft: 'bg-gray-600 text-gray-200',
+  running: 'bg-green-600 text-white',
+  paused: 'bg-yellow-600 text-white',
+  completed: 'bg-blue-600 text-white'
+};
+
+const emptyVariants = (): VariantDraft[] => [
+  { name: 'Control', content: '', weight: 50, isControl: true },
+  { name: 'Variant B', content: '', weight: 50, isControl: false }
+];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const PromptExperimentsPanel: React.FC = () => {
+  const [experiments, setExperiments] = useState<PromptExperiment[]>([]);
+  const [results, setResults] = useState<Record<string, ExperimentVariantResult[]>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [targetType, setTargetType] = useState<ExperimentTargetType>('package_template');
+  const [targetId, setTargetId] = useState('');
+  const [targetOptions, setTargetOptions] = useState<TargetOption[]>([]);
+  const [variants, setVariants] = useState<VariantDraft[]>(emptyVariants());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadExperiments();
+  }, []);
+
+  useEffect(() => {
+    if (showForm) loadTargetOptions(targetType);
+  }, [showForm, targetType]);
+
+  const loadExperiments = async () => {
+    setLoading(true);
+    try {
+      setExperiments(await experimentService.listExperiments());
+    } catch (err: any) {
+      console.error('Failed to load experiments:', err);
+      setError(err.message || 'Failed to load experiments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadTargetOptions = async (type: ExperimentTargetType) => {
+    setTargetId('');
+    try {
+      if (type === 'prompt_template') {
+        const { data, error } = await supabase.from('prompt_templates').select('id, name, type').order('type');
+        if (error) throw error;
+        setTargetOptions((data || []).map((row: any) => ({ id: row.id, label: `${row.name} (${row.type})` })));
+      } else if (type === 'package_template') {
+        const { data, error } = await supabase.from('photo_packages').select('id, name').order('sort_order');
+        if (error) throw error;
+        setTargetOptions((data || []).map((row: any) => ({ id: row.id, label: row.name })));
+      } else {
+        const { data, error } = await supabase
+          .from('package_themes')
+          .select('id, name, photo_packages(name)')
+          .order('sort_order');
+        if (error) throw error;
+        setTargetOptions((data || []).map((row: any) => ({
+          id: row.id,
+          label: row.photo_packages?.name ? `${row.photo_packages.name} — ${row.name}` : row.name
+        })));
+      }
+    } catch (err) {
+      console.error('Failed to load experiment targets:', err);
+      setTargetOptions([]);
+    }
+  };
+
+  const toggleResults = async (experimentId: string) => {
+    if (expandedId === experimentId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(experimentId);
+    try {
+      const data = await experimentService.getResults(experimentId);
+      setResults(prev => ({ ...prev, [experimentId]: data }));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load experiment results');
+    }
+  };
+
+  const changeStatus = async (experimentId: string, status: ExperimentStatus) => {
+    try {
+      await experimentService.setStatus(experimentId, status);
+      await loadExperiments();
+    } catch (err: any) {
+      setError(err.message || 'Failed to update experiment');
+    }
+  };
+
+  const removeExperiment = async (experimentId: string) => {
+    if (!confirm('Delete this experiment and all of its results? This action cannot be undone.')) return;
+    try {
+      await experimentService.deleteExperiment(experimentId);
+      await loadExperiments();
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete experiment');
+    }
+  };
+
+  const updateVariant = (index: number, changes: Partial<VariantDraft>) => {
+    setVariants(prev => prev.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setName('');
+    setDescription('');
+    setVariants(emptyVariants());
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim() || !targetId) {
+      setError('Experiment name and target are required');
+      return;
+    }
+    if (variants.some(v => !v.isControl && !v.content.trim())) {
+      setError('Every non-control variant needs prompt text');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await experimentService.createExperiment({
+        name: name.trim(),
+        description: description.trim(),
+        targetType,
+        targetId,
+        variants: variants.map(v => ({
+          name: v.name.trim() || 'Variant',
+          content: v.isControl ? null : v.content,
+          weight: Math.max(0, Math.round(v.weight))
+        }))
+      });
+      resetForm();
+      await loadExperiments();
+    } catch (err: any) {
+      setError(err.message || 'Failed to create experiment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const totalWeight = variants.reduce((sum, v) => sum + (v.weight || 0), 0);
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Prompt Experiments</h3>
+          <p className="text-sm text-gray-400">A/B test prompt wording. Users are assigned a variant by weight and keep it.</p>
+        </div>
+        <button
+          onClick={() => (showForm ? resetForm() : setShowForm(true))}
+          className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 text-sm"
+        >
+          {showForm ? 'Cancel' : 'New Experiment'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-900/50 border border-red-500 rounded-lg p-3 flex items-center justify-between">
+          <span className="text-red-200 text-sm">{error}</span>
+          <button onClick={() => setError(null)} className="text-red-400 hover:text-red-300">✕</button>
+        </div>
+      )}
+
+      {showForm && (
+        <div className="bg-gray-900 border border-gray-700 rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+                placeholder="e.g. Softer lighting wording"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Description</label>
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+                placeholder="Hypothesis being tested"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Target</label>
+              <select
+                value={targetType}
+                onChange={(e) => setTargetType(e.target.value as ExperimentTargetType)}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+              >
+                {(Object.keys(TARGET_LABELS) as ExperimentTargetType[]).map(type => (
+                  <option key={type} value={type}>{TARGET_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Applies to</label>
+              <select
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+              >
+                <option value="">Select...</option>
+                {targetOptions.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {variants.map((variant, index) => (
+              <div key={index} className="border border-gray-700 rounded-lg p-3 space-y-2">
+                <div className="flex flex-wrap items-center gap-3">
+                  <input
+                    type="text"
+                    value={variant.name}
+                    onChange={(e) => updateVariant(index, { name: e.target.value })}
+                    className="flex-1 min-w-[8rem] px-3 py-1.5 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+                  />
+                  <label className="text-sm text-gray-300 flex items-center gap-2">
+                    Weight
+                    <input
+                      type="number"
+                      min={0}
+                      value={variant.weight}
+                      onChange={(e) => updateVariant(index, { weight: parseInt(e.target.value) || 0 })}
+                      className="w-20 px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+                    />
+                    <span className="text-xs text-gray-400">
+                      {totalWeight > 0 ? formatPercent(variant.weight / totalWeight) : '0%'}
+                    </span>
+                  </label>
+                  <label className="text-sm text-gray-300 flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={variant.isControl}
+                      onChange={(e) => updateVariant(index, { isControl: e.target.checked })}
+                    />
+                    Control (current prompt)
+                  </label>
+                  {variants.length > 2 && (
+                    <button
+                      onClick={() => setVariants(prev => prev.filter((_, i) => i !== index))}
+                      className="text-red-400 hover:text-red-300 text-sm"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+                {!variant.isControl && (
+                  <textarea
+                    value={variant.content}
+                    onChange={(e) => updateVariant(index, { content: e.target.value })}
+                    rows={4}
+                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm resize-y"
+                    placeholder="Prompt text used for this variant (same placeholders as the original)"
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-between">
+            <button
+              onClick={() => setVariants(prev => [...prev, {
+                name: `Variant ${String.fromCharCode(65 + prev.length)}`,
+                content: '',
+                weight: 50,
+                isControl: false
+              }])}
+              className="text-purple-400 hover:text-purple-300 text-sm"
+            >
+              + Add variant
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={saving}
+              className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            >
+              {saving ? 'Creating...' : 'Create as Draft'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner size="sm" text="Loading experiments..." />
+      ) : experiments.length === 0 ? (
+        <p className="text-sm text-gray-400">No experiments yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {experiments.map(experiment => (
+            <div key={experiment.id} className="bg-gray-900 border border-gray-700 rounded-lg p-4">
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-white font-medium">{experiment.name}</span>
+                    <span className={`text-xs px-2 py-0.5 rounded ${STATUS_STYLES[experiment.status]}`}>
+                      {experiment.status}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-400 mt-1">
+                    {TARGET_LABELS[experiment.target_type]} • {experiment.variants.length} variants
+                    {experiment.started_at && ` • started ${new Date(experiment.started_at).toLocaleDateString()}`}
+                  </div>
+                  {experiment.description && (
+                    <div className="text-xs text-gray-300 mt-1">{experiment.description}</div>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {(experiment.status === 'draft' || experiment.status === 'paused') && (
+                    <button
+                      onClick={() => changeStatus(experiment.id, 'running')}
+                      className="bg-green-600 text-white px-3 py-1.5 rounded-lg hover:bg-green-700 text-sm"
+                    >
+                      {experiment.status === 'draft' ? 'Start' : 'Resume'}
+                    </button>
+                  )}
+                  {experiment.status === 'running' && (
+                    <button
+                      onClick={() => changeStatus(experiment.id, 'paused')}
+                      className="bg-yellow-600 text-white px-3 py-1.5 rounded-lg hover:bg-yellow-700 text-sm"
+                    >
+                      Pause
+                    </button>
+                  )}
+                  {(experiment.status === 'running' || experiment.status === 'paused') && (
+                    <button
+                      onClick={() => changeStatus(experiment.id, 'completed')}
+                      className="bg-blue-600 text-white px-3 py-1.5 rounded-lg hover:bg-blue-700 text-sm"
+                    >
+                      Complete
+                    </button>
+                  )}
+                  <button
+                    onClick={() => toggleResults(experiment.id)}
+                    className="bg-gray-700 text-gray-300 px-3 py-1.5 rounded-lg hover:bg-gray-600 text-sm"
+                  >
+                    {expandedId === experiment.id ? 'Hide Results' : 'Results'}
+                  </button>
+                  <button
+                    onClick={() => removeExperiment(experiment.id)}
+                    className="text-red-400 hover:text-red-300 px-2 text-sm"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {expandedId === experiment.id && (
+                <div className="mt-4 overflow-x-auto">
+                  {!results[experiment.id] ? (
+                    <LoadingSpinner size="sm" />
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-400 border-b border-gray-700">
+                          <th className="py-2 pr-4">Variant</th>
+                          <th className="py-2 pr-4">Weight</th>
+                          <th className="py-2 pr-4">Users</th>
+                          <th className="py-2 pr-4">Generations</th>
+                          <th className="py-2 pr-4">Failure rate</th>
+                          <th className="py-2 pr-4">Download rate</th>
+                          <th className="py-2 pr-4">Regenerate rate</th>
+                          <th className="py-2 pr-4">Avg rating</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {results[experiment.id].map(row => (
+                          <tr key={row.variant_id} className="border-b border-gray-800 text-gray-200">
+                            <td className="py-2 pr-4">
+                              {row.variant_name}
+                              {row.is_control && <span className="ml-2 text-xs text-gray-400">(control)</span>}
+                            </td>
+                            <td className="py-2 pr-4">{row.weight}</td>
+                            <td className="py-2 pr-4">{row.subjects}</td>
+                            <td className="py-2 pr-4">{row.generations}</td>
+                            <td className="py-2 pr-4">{formatPercent(row.failure_rate)}</td>
+                            <td className="py-2 pr-4">{formatPercent(row.download_rate)}</td>
+                            <td className="py-2 pr-4">{formatPercent(row.regenerate_rate)}</td>
+                            <td className="py-2 pr-4">
+                              {row.ratings > 0 ? `${row.average_rating.toFixed(2)} (${row.ratings})` : '—'}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptExperimentsPanel;
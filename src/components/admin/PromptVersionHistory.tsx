@@ -0,0 +1,172 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { promptDatabaseService, PromptTemplateVersion } from '../../../services/promptDatabaseService';
+import { diffWords, summarizeDiff } from '../../../utils/textDiff';
+import LoadingSpinner from './LoadingSpinner';
+
+interface PromptVersionHistoryProps {
+  templateId: string;
+  currentTemplate: string;
+  currentVersion: number;
+  onRollback: (version: number) => Promise<void>;
+}
+
+const PromptVersionHistory: React.FC<PromptVersionHistoryProps> = ({
+  templateId,
+  currentTemplate,
+  currentVersion,
+  onRollback
+}) => {
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever the template or its current version changes (save, reset, rollback)
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadVersions = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await promptDatabaseService.getPromptVersions(templateId);
+        if (cancelled) return;
+        setVersions(data);
+        const previous = data.find(v => v.version !== currentVersion);
+        setSelectedVersion(previous ? previous.version : data[0]?.version ?? null);
+      } catch (err) {
+        if (!cancelled) setError('Failed to load version history');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadVersions();
+    return () => {
+      cancelled = true;
+    };
+  }, [templateId, currentVersion]);
+
+  const selected = versions.find(v => v.version === selectedVersion) || null;
+
+  const diff = useMemo(
+    () => (selected ? diffWords(selected.template, currentTemplate) : []),
+    [selected, currentTemplate]
+  );
+  const summary = summarizeDiff(diff);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (!confirm(`Restore version ${selected.version}? It will be saved as a new version.`)) return;
+
+    setRestoring(true);
+    try {
+      await onRollback(selected.version);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner size="sm" text="Loading version history..." />;
+  }
+
+  if (error) {
+    return <div className="text-sm text-red-400">{error}</div>;
+  }
+
+  if (versions.length === 0) {
+    return <div className="text-sm text-gray-400">No saved versions yet.</div>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      {/* Version list */}
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {versions.map(version => (
+          <button
+            key={version.id}
+            onClick={() => setSelectedVersion(version.version)}
+            className={`w-full text-left p-3 rounded-lg border transition-colors ${
+              selectedVersion === version.version
+                ? 'bg-purple-900/30 border-purple-600'
+                : 'bg-gray-900 border-gray-700 hover:border-gray-600'
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-white">v{version.version}</span>
+              {version.version === currentVersion && (
+                <span className="text-xs bg-green-600 text-white px-2 py-0.5 rounded">Current</span>
+              )}
+            </div>
+            <div className="text-xs text-gray-400 mt-1">
+              {version.createdAt.toLocaleString()} • {version.authorEmail || 'Unknown author'}
+            </div>
+            {version.changeNote && (
+              <div className="text-xs text-gray-300 mt-1 line-clamp-2">{version.changeNote}</div>
+            )}
+            {version.restoredFromVersion !== null && (
+              <div className="text-xs text-yellow-400 mt-1">Restored from v{version.restoredFromVersion}</div>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {/* Side-by-side diff against the current template */}
+      <div className="md:col-span-2 space-y-3">
+        {selected && (
+          <>
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-gray-300">
+                v{selected.version} → current (v{currentVersion})
+                <span className="ml-2 text-green-400">+{summary.added}</span>
+                <span className="ml-1 text-red-400">-{summary.removed}</span>
+              </div>
+              {selected.version !== currentVersion && (
+                <button
+                  onClick={handleRestore}
+                  disabled={restoring}
+                  className="bg-yellow-600 text-white px-3 py-1.5 rounded-lg hover:bg-yellow-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                >
+                  {restoring ? 'Restoring...' : `Restore v${selected.version}`}
+                </button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <div className="text-xs text-gray-400 mb-1">Version {selected.version}</div>
+                <div className="bg-gray-900 border border-gray-600 rounded-lg p-3 text-gray-300 text-sm max-h-80 overflow-y-auto whitespace-pre-wrap">
+                  {diff.filter(part => part.type !== 'added').map((part, index) => (
+                    <span
+                      key={index}
+                      className={part.type === 'removed' ? 'bg-red-900/60 text-red-200 line-through' : undefined}
+                    >
+                      {part.value}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-400 mb-1">Current</div>
+                <div className="bg-gray-900 border border-gray-600 rounded-lg p-3 text-gray-300 text-sm max-h-80 overflow-y-auto whitespace-pre-wrap">
+                  {diff.filter(part => part.type !== 'removed').map((part, index) => (
+                    <span
+                      key={index}
+                      className={part.type === 'added' ? 'bg-green-900/60 text-green-200' : undefined}
+                    >
+                      {part.value}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromptVersionHistory;
@@ -1,7 +1,12 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import Icon from '../../../components/Icon';
 import AlertNotification from '../../components/admin/AlertNotification';
+import AlertConfigsPanel from '../../components/admin/AlertConfigsPanel';
+import NotificationChannelsPanel from '../../components/admin/NotificationChannelsPanel';
+import LoadingSpinner from '../../components/admin/LoadingSpinner';
+import { adminService, SystemAlert, AlertSeverity, AlertStatus } from '../../services/adminService';
 import { format } from 'date-fns';
+import authService from '../../../services/authService';
 
 // Icon paths
 const iconPaths = {
@@ -13,85 +18,78 @@ const iconPaths = {
   filter: "M10 18h4v-2h-4v2zM3 6v2h18V6H3zm3 7h12v-2H6v2z"
 };
 
-interface SystemAlert {
-  id: string;
-  type: 'success' | 'error' | 'warning' | 'info';
-  title: string;
-  message: string;
-  timestamp: Date;
-  read: boolean;
-  category: 'system' | 'user' | 'payment' | 'generation';
-}
+type NotificationType = 'success' | 'error' | 'warning' | 'info';
 
 const Alerts: React.FC = () => {
-  const [alerts, setAlerts] = useState<SystemAlert[]>([
-    {
-      id: '1',
-      type: 'error',
-      title: 'API Rate Limit Exceeded',
-      message: 'Gemini API rate limit reached. Some generation requests may fail.',
-      timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000),
-      read: false,
-      category: 'system'
-    },
-    {
-      id: '2',
-      type: 'warning',
-      title: 'High Generation Volume',
-      message: 'Generation requests increased by 45% in the last hour.',
-      timestamp: new Date(Date.now() - 3 * 60 * 60 * 1000),
-      read: false,
-      category: 'generation'
-    },
-    {
-      id: '3',
-      type: 'success',
-      title: 'Payment Processed',
-      message: 'Successfully processed 23 payments totaling $456.78',
-      timestamp: new Date(Date.now() - 5 * 60 * 60 * 1000),
-      read: true,
-      category: 'payment'
-    },
-    {
-      id: '4',
-      type: 'info',
-      title: 'New User Milestone',
-      message: 'Congratulations! You\'ve reached 1,000 registered users.',
-      timestamp: new Date(Date.now() - 24 * 60 * 60 * 1000),
-      read: true,
-      category: 'user'
-    }
-  ]);
+  const [alerts, setAlerts] = useState<SystemAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filterStatus, setFilterStatus] = useState<AlertStatus | 'all'>('open');
+  const [filterSeverity, setFilterSeverity] = useState<'all' | AlertSeverity>('all');
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [resolutionNote, setResolutionNote] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notification, setNotification] = useState<{ type: NotificationType; title: string; message: string } | null>(null);
 
-  const [filterCategory, setFilterCategory] = useState<'all' | SystemAlert['category']>('all');
-  const [showUnreadOnly, setShowUnreadOnly] = useState(false);
-  const [showNotification, setShowNotification] = useState(false);
+  const canManageAlerts = authService.hasAdminPermission('alerts.manage');
 
-  const filteredAlerts = alerts.filter(alert => {
-    const categoryMatch = filterCategory === 'all' || alert.category === filterCategory;
-    const unreadMatch = !showUnreadOnly || !alert.read;
-    return categoryMatch && unreadMatch;
-  });
+  useEffect(() => {
+    loadAlerts();
+  }, [filterStatus]);
 
-  const markAsRead = (alertId: string) => {
-    setAlerts(prev => 
-      prev.map(alert => 
-        alert.id === alertId ? { ...alert, read: true } : alert
-      )
-    );
+  const loadAlerts = async () => {
+    setLoading(true);
+    try {
+      setAlerts(await adminService.getAlerts(filterStatus));
+    } catch (err: any) {
+      console.error('Failed to load alerts:', err);
+      setNotification({ type: 'error', title: 'Failed to load alerts', message: err.message || 'Please try again.' });
+    } finally {
+      setLoading(false);
+    }
   };
 
-  const markAllAsRead = () => {
-    setAlerts(prev => 
-      prev.map(alert => ({ ...alert, read: true }))
-    );
+  const filteredAlerts = alerts.filter(alert =>
+    filterSeverity === 'all' || alert.severity === filterSeverity
+  );
+
+  const handleAcknowledge = async (alert: SystemAlert) => {
+    setBusyId(alert.id);
+    try {
+      await adminService.acknowledgeAlert(alert.id);
+      setNotification({ type: 'success', title: 'Alert acknowledged', message: alert.message });
+      await loadAlerts();
+    } catch (err: any) {
+      setNotification({ type: 'error', title: 'Failed to acknowledge alert', message: err.message || 'Please try again.' });
+    } finally {
+      setBusyId(null);
+    }
   };
 
-  const deleteAlert = (alertId: string) => {
-    setAlerts(prev => prev.filter(alert => alert.id !== alertId));
+  const handleResolve = async (alert: SystemAlert) => {
+    setBusyId(alert.id);
+    try {
+      await adminService.resolveAlert(alert.id, resolutionNote);
+      setResolvingId(null);
+      setResolutionNote('');
+      setNotification({ type: 'success', title: 'Alert resolved', message: alert.message });
+      await loadAlerts();
+    } catch (err: any) {
+      setNotification({ type: 'error', title: 'Failed to resolve alert', message: err.message || 'Please try again.' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const getDisplayType = (alert: SystemAlert): NotificationType => {
+    if (alert.status === 'resolved') return 'success';
+    switch (alert.severity) {
+      case 'critical': return 'error';
+      case 'warning': return 'warning';
+      case 'info': return 'info';
+    }
   };
 
-  const getIconPath = (type: SystemAlert['type']) => {
+  const getIconPath = (type: NotificationType) => {
     switch (type) {
       case 'success': return iconPaths.checkCircle;
       case 'error': return iconPaths.xCircle;
@@ -100,7 +98,7 @@ const Alerts: React.FC = () => {
     }
   };
 
-  const getIconColor = (type: SystemAlert['type']) => {
+  const getIconColor = (type: NotificationType) => {
     switch (type) {
       case 'success': return 'text-green-500';
       case 'error': return 'text-red-500';
@@ -109,16 +107,15 @@ const Alerts: React.FC = () => {
     }
   };
 
-  const getCategoryBadge = (category: SystemAlert['category']) => {
+  const getSeverityBadge = (severity: AlertSeverity) => {
     const styles = {
-      system: 'bg-purple-900 text-purple-300',
-      user: 'bg-blue-900 text-blue-300',
-      payment: 'bg-green-900 text-green-300',
-      generation: 'bg-orange-900 text-orange-300'
+      critical: 'bg-red-900 text-red-300',
+      warning: 'bg-yellow-900 text-yellow-300',
+      info: 'bg-blue-900 text-blue-300'
     };
     return (
-      <span className={`px-2 py-1 text-xs font-medium rounded-full ${styles[category]}`}>
-        {category}
+      <span className={`px-2 py-1 text-xs font-medium rounded-full ${styles[severity]}`}>
+        {severity}
       </span>
     );
   };
@@ -129,31 +126,24 @@ const Alerts: React.FC = () => {
       <div className="flex flex-col md:flex-row md:items-center md:justify-between">
         <div>
           <h1 className="text-3xl font-bold text-white">System Alerts</h1>
-          <p className="text-gray-400 mt-2">Monitor system notifications and alerts</p>
+          <p className="text-gray-400 mt-2">Alerts raised by your alert rules and payment events</p>
         </div>
         <div className="mt-4 md:mt-0 flex space-x-2">
           <button
-            onClick={() => setShowNotification(true)}
-            className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
-          >
-            Test Alert
-          </button>
-          <button
-            onClick={markAllAsRead}
+            onClick={loadAlerts}
             className="bg-gray-700 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors"
           >
-            Mark All Read
+            Refresh
           </button>
         </div>
       </div>
 
-      {/* Demo notification */}
-      {showNotification && (
+      {notification && (
         <AlertNotification
-          type="info"
-          title="Test Alert"
-          message="This is a demo alert notification. It will auto-close in 5 seconds."
-          onClose={() => setShowNotification(false)}
+          type={notification.type}
+          title={notification.title}
+          message={notification.message}
+          onClose={() => setNotification(null)}
           autoClose={true}
         />
       )}
@@ -163,89 +153,131 @@ const Alerts: React.FC = () => {
         <div className="flex flex-col md:flex-row gap-4">
           <div className="flex items-center space-x-2">
             <Icon path={iconPaths.filter} className="w-5 h-5 text-gray-400" />
-            <span className="text-gray-400">Category:</span>
+            <span className="text-gray-400">Status:</span>
             <div className="flex space-x-2">
-              {['all', 'system', 'user', 'payment', 'generation'].map((category) => (
+              {(['open', 'acknowledged', 'resolved', 'all'] as const).map((status) => (
                 <button
-                  key={category}
-                  onClick={() => setFilterCategory(category as any)}
+                  key={status}
+                  onClick={() => setFilterStatus(status)}
                   className={`px-3 py-1 rounded-lg text-sm ${
-                    filterCategory === category
+                    filterStatus === status
                       ? 'bg-purple-600 text-white'
                       : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
                   } transition-colors`}
                 >
-                  {category.charAt(0).toUpperCase() + category.slice(1)}
+                  {status.charAt(0).toUpperCase() + status.slice(1)}
                 </button>
               ))}
             </div>
           </div>
-          <label className="flex items-center space-x-2 text-gray-400 cursor-pointer">
-            <input
-              type="checkbox"
-              checked={showUnreadOnly}
-              onChange={(e) => setShowUnreadOnly(e.target.checked)}
-              className="w-4 h-4 text-purple-600 bg-gray-600 border-gray-500 rounded focus:ring-purple-500"
-            />
-            <span>Unread only</span>
-          </label>
+          <div className="flex items-center space-x-2">
+            <span className="text-gray-400">Severity:</span>
+            <select
+              value={filterSeverity}
+              onChange={(e) => setFilterSeverity(e.target.value as 'all' | AlertSeverity)}
+              className="px-3 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+            >
+              <option value="all">All</option>
+              <option value="critical">Critical</option>
+              <option value="warning">Warning</option>
+              <option value="info">Info</option>
+            </select>
+          </div>
         </div>
       </div>
 
       {/* Alerts List */}
       <div className="space-y-4">
-        {filteredAlerts.length === 0 ? (
+        {loading ? (
+          <div className="bg-gray-800 rounded-lg border border-gray-700 p-12 flex justify-center">
+            <LoadingSpinner />
+          </div>
+        ) : filteredAlerts.length === 0 ? (
           <div className="bg-gray-800 rounded-lg border border-gray-700 p-12 text-center">
             <Icon path={iconPaths.bell} className="w-12 h-12 text-gray-600 mx-auto mb-4" />
             <p className="text-gray-400">No alerts found</p>
           </div>
         ) : (
           filteredAlerts.map((alert) => {
-            const iconPath = getIconPath(alert.type);
+            const displayType = getDisplayType(alert);
             return (
               <div
                 key={alert.id}
                 className={`bg-gray-800 rounded-lg border ${
-                  alert.read ? 'border-gray-700' : 'border-purple-600'
+                  alert.status === 'open' ? 'border-purple-600' : 'border-gray-700'
                 } p-4 transition-all`}
               >
                 <div className="flex items-start space-x-4">
-                  <div className={`p-2 rounded-lg bg-gray-700 ${getIconColor(alert.type)}`}>
-                    <Icon path={iconPath} className="w-5 h-5" />
+                  <div className={`p-2 rounded-lg bg-gray-700 ${getIconColor(displayType)}`}>
+                    <Icon path={getIconPath(displayType)} className="w-5 h-5" />
                   </div>
                   <div className="flex-1">
                     <div className="flex items-start justify-between">
                       <div>
                         <div className="flex items-center space-x-2 mb-1">
                           <h3 className={`text-lg font-medium ${
-                            alert.read ? 'text-gray-300' : 'text-white'
+                            alert.status === 'open' ? 'text-white' : 'text-gray-300'
                           }`}>
-                            {alert.title}
+                            {alert.name || alert.metric || 'System alert'}
                           </h3>
-                          {getCategoryBadge(alert.category)}
+                          {getSeverityBadge(alert.severity)}
                         </div>
                         <p className="text-gray-400">{alert.message}</p>
                         <p className="text-sm text-gray-500 mt-2">
-                          {format(alert.timestamp, 'MMM dd, yyyy HH:mm')}
+                          Triggered {format(alert.triggeredAt, 'MMM dd, yyyy HH:mm')}
+                          {alert.acknowledgedAt && alert.status === 'acknowledged' && (
+                            <> · Acknowledged {format(alert.acknowledgedAt, 'MMM dd, HH:mm')}{alert.acknowledgedBy && ` by ${alert.acknowledgedBy}`}</>
+                          )}
+                          {alert.resolvedAt && (
+                            <> · Resolved {format(alert.resolvedAt, 'MMM dd, HH:mm')}{alert.resolvedBy && ` by ${alert.resolvedBy}`}</>
+                          )}
                         </p>
+                        {alert.resolutionNote && (
+                          <p className="text-sm text-gray-400 mt-1 italic">{alert.resolutionNote}</p>
+                        )}
                       </div>
-                      <div className="flex space-x-2 ml-4">
-                        {!alert.read && (
+                      {alert.status !== 'resolved' && (
+                        <div className="flex space-x-3 ml-4 whitespace-nowrap">
+                          {alert.status === 'open' && (
+                            <button
+                              onClick={() => handleAcknowledge(alert)}
+                              disabled={busyId === alert.id}
+                              className="text-purple-500 hover:text-purple-400 text-sm disabled:opacity-50"
+                            >
+                              Acknowledge
+                            </button>
+                          )}
                           <button
-                            onClick={() => markAsRead(alert.id)}
-                            className="text-purple-500 hover:text-purple-400 text-sm"
+                            onClick={() => {
+                              setResolvingId(resolvingId === alert.id ? null : alert.id);
+                              setResolutionNote('');
+                            }}
+                            className="text-green-500 hover:text-green-400 text-sm"
                           >
-                            Mark as read
+                            Resolve
                           </button>
-                        )}
+                        </div>
+                      )}
+                    </div>
+
+                    {resolvingId === alert.id && (
+                      <div className="mt-3 flex gap-2">
+                        <input
+                          type="text"
+                          value={resolutionNote}
+                          onChange={(e) => setResolutionNote(e.target.value)}
+                          placeholder="Resolution note (optional)"
+                          className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+                        />
                         <button
-                          onClick={() => deleteAlert(alert.id)}
-                          className="text-red-500 hover:text-red-400 text-sm"
+                          onClick={() => handleResolve(alert)}
+                          disabled={busyId === alert.id}
+                          className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors text-sm disabled:opacity-50"
                         >
-                          Delete
+                          Mark Resolved
                         </button>
                       </div>
-                    </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -253,8 +285,16 @@ const Alerts: React.FC = () => {
           })
         )}
       </div>
+
+      {canManageAlerts && (
+        <>
+          <AlertConfigsPanel />
+
+          <NotificationChannelsPanel />
+        </>
+      )}
     </div>
   );
 };
 
-export default Alerts;
\ No newline at end of file
+export default Alerts;
@@ -0,0 +1,395 @@
+import React, { useState, useEffect } from 'react';
+import Icon from '../../../components/Icon';
+import AlertNotification from '../../components/admin/AlertNotification';
+import LoadingSpinner from '../../components/admin/LoadingSpinner';
+import { adminService, PartnerApiKey, ApiKeyInput, ApiKeyScope, IssuedApiKey } from '../../services/adminService';
+import { format } from 'date-fns';
+
+// Icon paths
+const iconPaths = {
+  key: "M12.65 10C11.83 7.67 9.61 6 7 6c-3.31 0-6 2.69-6 6s2.69 6 6 6c2.61 0 4.83-1.67 5.65-4H17v4h4v-4h2v-4H12.65zM7 14c-1.1 0-2-.9-2-2s.9-2 2-2 2 .9 2 2-.9 2-2 2z",
+  copy: "M16 1H4c-1.1 0-2 .9-2 2v14h2V3h12V1zm3 4H8c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h11c1.1 0 2-.9 2-2V7c0-1.1-.9-2-2-2zm0 16H8V7h11v14z"
+};
+
+const SCOPES: { value: ApiKeyScope; label: string }[] = [
+  { value: 'shoots:write', label: 'Create shoots' },
+  { value: 'shoots:read', label: 'Read shoots and results' },
+  { value: 'catalog:read', label: 'Read packages and themes' },
+  { value: 'webhooks:write', label: 'Manage webhooks' }
+];
+
+const emptyForm: ApiKeyInput = {
+  name: '',
+  ownerEmail: '',
+  scopes: ['shoots:write', 'shoots:read', 'catalog:read'],
+  rateLimitPerHour: 100,
+  expiresDays: null,
+  description: ''
+};
+
+type NotificationType = 'success' | 'error' | 'warning' | 'info';
+
+const ApiKeys: React.FC = () => {
+  const [keys, setKeys] = useState<PartnerApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<ApiKeyInput>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [issued, setIssued] = useState<(IssuedApiKey & { name: string }) | null>(null);
+  const [showRevoked, setShowRevoked] = useState(false);
+  const [notification, setNotification] = useState<{ type: NotificationType; title: string; message: string } | null>(null);
+
+  useEffect(() => {
+    loadKeys();
+  }, []);
+
+  const loadKeys = async () => {
+    setLoading(true);
+    try {
+      setKeys(await adminService.getApiKeys());
+    } catch (err: any) {
+      console.error('Failed to load API keys:', err);
+      setNotification({ type: 'error', title: 'Failed to load API keys', message: err.message || 'Please try again.' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setForm(prev => ({
+      ...prev,
+      scopes: prev.scopes.includes(scope)
+        ? prev.scopes.filter(s => s !== scope)
+        : [...prev.scopes, scope]
+    }));
+  };
+
+  const handleIssue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const key = await adminService.issueApiKey(form);
+      setIssued({ ...key, name: form.name.trim() });
+      setForm(emptyForm);
+      setShowForm(false);
+      await loadKeys();
+    } catch (err: any) {
+      setNotification({ type: 'error', title: 'Failed to issue key', message: err.message || 'Please try again.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRotate = async (key: PartnerApiKey) => {
+    if (!confirm(`Rotate "${key.name}"? The current key stops working immediately.`)) return;
+    setBusyId(key.id);
+    try {
+      const rotated = await adminService.rotateApiKey(key.id);
+      setIssued({ ...rotated, name: key.name });
+      await loadKeys();
+    } catch (err: any) {
+      setNotification({ type: 'error', title: 'Failed to rotate key', message: err.message || 'Please try again.' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevoke = async (key: PartnerApiKey) => {
+    if (!confirm(`Revoke "${key.name}"? Requests with this key will be rejected.`)) return;
+    setBusyId(key.id);
+    try {
+      await adminService.revokeApiKey(key.id);
+      setNotification({ type: 'success', title: 'Key revoked', message: key.name });
+      await loadKeys();
+    } catch (err: any) {
+      setNotification({ type: 'error', title: 'Failed to revoke key', message: err.message || 'Please try again.' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const copyIssuedKey = async () => {
+    if (!issued) return;
+    try {
+      await navigator.clipboard.writeText(issued.key);
+      setNotification({ type: 'success', title: 'Copied', message: 'API key copied to clipboard' });
+    } catch {
+      setNotification({ type: 'warning', title: 'Copy failed', message: 'Select the key and copy it manually.' });
+    }
+  };
+
+  const getStatusBadge = (status: PartnerApiKey['status']) => {
+    const styles = {
+      active: 'bg-green-900 text-green-300',
+      expired: 'bg-yellow-900 text-yellow-300',
+      revoked: 'bg-red-900 text-red-300'
+    };
+    return (
+      <span className={`px-2 py-1 text-xs font-medium rounded-full ${styles[status]}`}>
+        {status}
+      </span>
+    );
+  };
+
+  const visibleKeys = keys.filter(key => showRevoked || key.status !== 'revoked');
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-white">API Keys</h1>
+          <p className="text-gray-400 mt-2">
+            Keys for partner photographers and planners using the public API. Shoots spend the owner account's credits.
+          </p>
+        </div>
+        <div className="mt-4 md:mt-0 flex space-x-2">
+          <button
+            onClick={loadKeys}
+            className="bg-gray-700 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Refresh
+          </button>
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+          >
+            {showForm ? 'Cancel' : 'Issue Key'}
+          </button>
+        </div>
+      </div>
+
+      {notification && (
+        <AlertNotification
+          type={notification.type}
+          title={notification.title}
+          message={notification.message}
+          onClose={() => setNotification(null)}
+          autoClose={true}
+        />
+      )}
+
+      {issued && (
+        <div className="bg-green-900/50 border border-green-500 rounded-lg p-4">
+          <div className="flex items-start justify-between">
+            <div className="flex-1 min-w-0">
+              <p className="text-green-200 font-medium">New key for {issued.name}</p>
+              <p className="text-green-300 text-sm mt-1">
+                Copy it now and send it to the partner securely. It will not be shown again.
+              </p>
+              <div className="mt-3 flex items-center gap-2">
+                <code className="flex-1 px-3 py-2 bg-gray-900 rounded-lg text-white text-sm break-all select-all">
+                  {issued.key}
+                </code>
+                <button
+                  onClick={copyIssuedKey}
+                  className="bg-gray-700 text-white px-3 py-2 rounded-lg hover:bg-gray-600 transition-colors"
+                  title="Copy key"
+                >
+                  <Icon path={iconPaths.copy} className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            <button
+              onClick={() => setIssued(null)}
+              className="ml-4 text-green-300 hover:text-green-100 text-sm"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleIssue} className="bg-gray-800 rounded-lg border border-gray-700 p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-white">Issue a partner key</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Key name</label>
+              <input
+                type="text"
+                required
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Lumière Studio production"
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Owner account email</label>
+              <input
+                type="email"
+                required
+                value={form.ownerEmail}
+                onChange={(e) => setForm({ ...form, ownerEmail: e.target.value })}
+                placeholder="partner@example.com"
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Requests per hour</label>
+              <input
+                type="number"
+                min={1}
+                required
+                value={form.rateLimitPerHour}
+                onChange={(e) => setForm({ ...form, rateLimitPerHour: parseInt(e.target.value, 10) || 0 })}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Expires after (days)</label>
+              <input
+                type="number"
+                min={1}
+                value={form.expiresDays ?? ''}
+                onChange={(e) => setForm({ ...form, expiresDays: e.target.value ? parseInt(e.target.value, 10) : null })}
+                placeholder="Never"
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">Description</label>
+            <input
+              type="text"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="Who uses this key and for what"
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+            />
+          </div>
+          <div>
+            <span className="block text-sm text-gray-400 mb-2">Scopes</span>
+            <div className="flex flex-wrap gap-4">
+              {SCOPES.map(scope => (
+                <label key={scope.value} className="flex items-center space-x-2 text-gray-300 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={form.scopes.includes(scope.value)}
+                    onChange={() => toggleScope(scope.value)}
+                    className="rounded bg-gray-700 border-gray-600"
+                  />
+                  <span>{scope.label} <code className="text-gray-500">{scope.value}</code></span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving || form.scopes.length === 0}
+              className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Issuing...' : 'Issue Key'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Keys */}
+      <div className="bg-gray-800 rounded-lg border border-gray-700">
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 className="text-lg font-semibold text-white">Partner keys</h2>
+          <label className="flex items-center space-x-2 text-sm text-gray-400">
+            <input
+              type="checkbox"
+              checked={showRevoked}
+              onChange={(e) => setShowRevoked(e.target.checked)}
+              className="rounded bg-gray-700 border-gray-600"
+            />
+            <span>Show revoked</span>
+          </label>
+        </div>
+
+        {loading ? (
+          <div className="p-12 flex justify-center">
+            <LoadingSpinner />
+          </div>
+        ) : visibleKeys.length === 0 ? (
+          <div className="p-12 text-center">
+            <Icon path={iconPaths.key} className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+            <p className="text-gray-400">No API keys issued yet</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700">
+                  <th className="px-4 py-3 font-medium">Key</th>
+                  <th className="px-4 py-3 font-medium">Owner</th>
+                  <th className="px-4 py-3 font-medium">Scopes</th>
+                  <th className="px-4 py-3 font-medium">This hour</th>
+                  <th className="px-4 py-3 font-medium">Last 24h</th>
+                  <th className="px-4 py-3 font-medium">Last used</th>
+                  <th className="px-4 py-3 font-medium">Status</th>
+                  <th className="px-4 py-3 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleKeys.map(key => (
+                  <tr key={key.id} className="border-b border-gray-700 last:border-0">
+                    <td className="px-4 py-3">
+                      <div className="text-white">{key.name}</div>
+                      <code className="text-gray-500 text-xs">wpk_{key.keyPrefix}_…</code>
+                      {key.description && <div className="text-gray-500 text-xs mt-1">{key.description}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-300">{key.ownerEmail || key.ownerId}</td>
+                    <td className="px-4 py-3 text-gray-300">
+                      {key.scopes.map(scope => (
+                        <div key={scope}><code>{scope}</code></div>
+                      ))}
+                    </td>
+                    <td className="px-4 py-3 text-gray-300">
+                      <span className={key.requestsThisHour >= key.rateLimitPerHour ? 'text-red-400' : ''}>
+                        {key.requestsThisHour}
+                      </span>
+                      {' / '}{key.rateLimitPerHour}
+                    </td>
+                    <td className="px-4 py-3 text-gray-300">
+                      {key.requestsLast24h} requests
+                      <div className="text-gray-500 text-xs">{key.shootsLast24h} shoots</div>
+                    </td>
+                    <td className="px-4 py-3 text-gray-400">
+                      {key.lastUsedAt ? format(key.lastUsedAt, 'MMM dd, HH:mm') : 'Never'}
+                      {key.expiresAt && (
+                        <div className="text-gray-500 text-xs">Expires {format(key.expiresAt, 'MMM dd, yyyy')}</div>
+                      )}
+                      {key.rotatedAt && (
+                        <div className="text-gray-500 text-xs">Rotated {format(key.rotatedAt, 'MMM dd, yyyy')}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">{getStatusBadge(key.status)}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-right">
+                      {key.status !== 'revoked' && (
+                        <div className="flex justify-end space-x-3">
+                          <button
+                            onClick={() => handleRotate(key)}
+                            disabled={busyId === key.id}
+                            className="text-purple-500 hover:text-purple-400 disabled:opacity-50"
+                          >
+                            Rotate
+                          </button>
+                          <button
+                            onClick={() => handleRevoke(key)}
+                            disabled={busyId === key.id}
+                            className="text-red-500 hover:text-red-400 disabled:opacity-50"
+                          >
+                            Revoke
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeys;
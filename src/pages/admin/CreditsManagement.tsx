@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import Icon from '../../../components/Icon';
 import SearchInput from '../../components/admin/SearchInput';
-import { adminService, User } from '../../services/adminService';
+import authService from '../../../services/authService';
+import { adminService, User, CreditMismatch, CreditReconciliationRun } from '../../services/adminService';
 import { format } from 'date-fns';
 
 // Icon paths
@@ -15,6 +16,7 @@ const iconPaths = {
   dollarSign: "M7 15h2c0 1.08 1.37 2 3 2s3-.92 3-2c0-1.1-1.04-1.5-3.24-2.03C9.64 12.44 7 11.78 7 9c0-1.79 1.47-4 5-4s5 2.21 5 4h-2c0-1.08-1.37-2-3-2s-3 .92-3 2c0 1.1 1.04 1.5 3.24 2.03C14.36 11.56 17 12.22 17 15c0 1.79-1.47 4-5 4s-5-2.21-5-4z",
   trendingUp: "M16 6l2.29 2.29-4.88 4.88-4-4L2 16.59 3.41 18l6-6 4 4 6.3-6.29L22 12V6z",
   trendingDown: "M16 18l2.29-2.29-4.88-4.88-4 4L2 7.41 3.41 6l6 6 4-4 6.3 6.29L22 12v6z",
+  check: "M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z",
   refreshCw: "M17.65 6.35C16.2 4.9 14.21 4 12 4c-4.42 0-7.99 3.58-7.99 8s3.57 8 7.99 8c3.73 0 6.84-2.55 7.73-6h-2.08c-.82 2.33-3.04 4-5.65 4-3.31 0-6-2.69-6-6s2.69-6 6-6c1.66 0 3.14.69 4.22 1.78L13 11h7V4l-2.35 2.35z"
 };
 
@@ -51,6 +53,7 @@ interface UserCreditsInfo extends User {
 }
 
 const CreditsManagement: React.FC = () => {
+  const canGrantCredits = authService.hasAdminPermission('credits.grant');
   const [users, setUsers] = useState<UserCreditsInfo[]>([]);
   const [transactions, setTransactions] = useState<CreditTransaction[]>([]);
   const [stats, setStats] = useState<CreditsStats>({
@@ -64,7 +67,7 @@ const CreditsManagement: React.FC = () => {
   
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
-  const [selectedTab, setSelectedTab] = useState<'users' | 'transactions' | 'bulk'>('users');
+  const [selectedTab, setSelectedTab] = useState<'users' | 'transactions' | 'reconciliation' | 'bulk'>('users');
   const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
   
   // Modal states
@@ -76,6 +79,12 @@ const CreditsManagement: React.FC = () => {
   const [actionLoading, setActionLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Ledger reconciliation
+  const [mismatches, setMismatches] = useState<CreditMismatch[]>([]);
+  const [lastRun, setLastRun] = useState<CreditReconciliationRun | null>(null);
+  const [reconciling, setReconciling] = useState(false);
+  const [correctingId, setCorrectingId] = useState<string | null>(null);
+
   // Pagination
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage] = useState(20);
@@ -103,10 +112,50 @@ const CreditsManagement: React.FC = () => {
     }
   };
 
+  const loadReconciliation = async () => {
+    try {
+      const result = await adminService.getCreditReconciliation();
+      setMismatches(result.mismatches);
+      setLastRun(result.lastRun);
+    } catch (error) {
+      console.error('Failed to load reconciliation report:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load reconciliation report');
+    }
+  };
+
   useEffect(() => {
     loadCreditsData();
+    loadReconciliation();
   }, []);
 
+  const handleRunReconciliation = async () => {
+    setReconciling(true);
+    setError(null);
+    try {
+      await adminService.runCreditReconciliation();
+      await loadReconciliation();
+    } catch (error) {
+      console.error('Failed to run reconciliation:', error);
+      setError(error instanceof Error ? error.message : 'Failed to run reconciliation');
+    } finally {
+      setReconciling(false);
+    }
+  };
+
+  const handleCorrectMismatch = async (mismatch: CreditMismatch) => {
+    setCorrectingId(mismatch.id);
+    setError(null);
+    try {
+      await adminService.correctCreditMismatch(mismatch.id);
+      await Promise.all([loadReconciliation(), loadCreditsData()]);
+    } catch (error) {
+      console.error('Failed to correct balance:', error);
+      setError(error instanceof Error ? error.message : 'Failed to correct balance');
+    } finally {
+      setCorrectingId(null);
+    }
+  };
+
   const handleGrantCredits = async () => {
     if (!selectedUser || !actionAmount || !actionReason) return;
 
@@ -253,6 +302,7 @@ const CreditsManagement: React.FC = () => {
           {[
             { id: 'users', label: 'User Photo Shoots', count: users.length },
             { id: 'transactions', label: 'Transactions', count: transactions.length },
+            { id: 'reconciliation', label: 'Reconciliation', count: mismatches.length },
             { id: 'bulk', label: 'Bulk Operations', count: selectedUsers.length }
           ].map(tab => (
             <button
@@ -355,28 +405,30 @@ const CreditsManagement: React.FC = () => {
                           {format(user.lastActivity, 'MMM dd, yyyy')}
                         </td>
                         <td className="px-6 py-4">
-                          <div className="flex items-center space-x-2">
-                            <button 
-                              onClick={() => {
-                                setSelectedUser(user);
-                                setShowGrantModal(true);
-                              }}
-                              className="text-green-400 hover:text-green-300 p-1 rounded"
-                              title="Grant photo shoots"
-                            >
-                              <Icon path={iconPaths.plus} className="w-4 h-4" />
-                            </button>
-                            <button 
-                              onClick={() => {
-                                setSelectedUser(user);
-                                setShowDeductModal(true);
-                              }}
-                              className="text-red-400 hover:text-red-300 p-1 rounded"
-                              title="Deduct photo shoots"
-                            >
-                              <Icon path={iconPaths.minus} className="w-4 h-4" />
-                            </button>
-                          </div>
+                          {canGrantCredits && (
+                            <div className="flex items-center space-x-2">
+                              <button 
+                                onClick={() => {
+                                  setSelectedUser(user);
+                                  setShowGrantModal(true);
+                                }}
+                                className="text-green-400 hover:text-green-300 p-1 rounded"
+                                title="Grant photo shoots"
+                              >
+                                <Icon path={iconPaths.plus} className="w-4 h-4" />
+                              </button>
+                              <button 
+                                onClick={() => {
+                                  setSelectedUser(user);
+                                  setShowDeductModal(true);
+                                }}
+                                className="text-red-400 hover:text-red-300 p-1 rounded"
+                                title="Deduct photo shoots"
+                              >
+                                <Icon path={iconPaths.minus} className="w-4 h-4" />
+                              </button>
+                            </div>
+                          )}
                         </td>
                       </tr>
                     ))
@@ -478,6 +530,90 @@ const CreditsManagement: React.FC = () => {
         </div>
       )}
 
+      {selectedTab === 'reconciliation' && (
+        <div className="bg-gray-800 rounded-lg border border-gray-700 overflow-hidden">
+          <div className="p-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <h3 className="text-lg font-semibold text-white">Ledger Reconciliation</h3>
+              <p className="text-gray-400 text-sm mt-1">
+                {lastRun
+                  ? `Last run ${format(lastRun.startedAt, 'MMM dd, yyyy HH:mm')} • ${lastRun.usersChecked} users checked • ${lastRun.mismatchesFound} mismatches`
+                  : 'Balances have not been reconciled against the ledger yet'}
+              </p>
+              {lastRun && lastRun.unbalancedEntries > 0 && (
+                <p className="text-red-400 text-sm mt-1">
+                  {lastRun.unbalancedEntries} ledger entries do not balance
+                </p>
+              )}
+            </div>
+            <button
+              onClick={handleRunReconciliation}
+              disabled={reconciling}
+              className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors flex items-center disabled:opacity-50"
+            >
+              <Icon path={iconPaths.refreshCw} className={`w-5 h-5 mr-2 ${reconciling ? 'animate-spin' : ''}`} />
+              {reconciling ? 'Reconciling...' : 'Run Reconciliation'}
+            </button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-700">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">User</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Balance</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Recorded</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Ledger</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Drift</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Detected</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {mismatches.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-12 text-center text-gray-400">
+                      Every balance matches the ledger
+                    </td>
+                  </tr>
+                ) : (
+                  mismatches.map((mismatch) => {
+                    const drift = mismatch.recordedBalance - mismatch.ledgerBalance;
+                    return (
+                      <tr key={mismatch.id} className="hover:bg-gray-750 transition-colors">
+                        <td className="px-6 py-4 text-sm text-white">{mismatch.email}</td>
+                        <td className="px-6 py-4 text-sm text-gray-300 capitalize">{mismatch.bucket}</td>
+                        <td className="px-6 py-4 text-sm text-gray-300">{mismatch.recordedBalance}</td>
+                        <td className="px-6 py-4 text-sm text-gray-300">{mismatch.ledgerBalance}</td>
+                        <td className={`px-6 py-4 text-sm font-medium ${drift > 0 ? 'text-yellow-400' : 'text-red-400'}`}>
+                          {drift > 0 ? '+' : ''}{drift}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-300">
+                          {format(mismatch.detectedAt, 'MMM dd, yyyy')}
+                        </td>
+                        <td className="px-6 py-4">
+                          {canGrantCredits && (
+                            <button
+                              onClick={() => handleCorrectMismatch(mismatch)}
+                              disabled={correctingId === mismatch.id}
+                              className="text-green-400 hover:text-green-300 text-sm flex items-center disabled:opacity-50"
+                              title="Set the balance to the ledger balance"
+                            >
+                              <Icon path={iconPaths.check} className="w-4 h-4 mr-1" />
+                              {correctingId === mismatch.id ? 'Correcting...' : 'Correct'}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {selectedTab === 'bulk' && (
         <div className="bg-gray-800 rounded-lg border border-gray-700 p-6">
           <h3 className="text-lg font-semibold text-white mb-4">Bulk Operations</h3>
@@ -4,6 +4,8 @@ import LoadingSpinner from '../../components/admin/LoadingSpinner';
 import AlertNotification from '../../components/admin/AlertNotification';
 import Icon from '../../../components/Icon';
 import SearchInput from '../../components/admin/SearchInput';
+import PriceBooksPanel from '../../components/admin/PriceBooksPanel';
+import authService from '../../../services/authService';
 
 // Icon paths for consistency with other admin pages
 const iconPaths = {
@@ -36,6 +38,10 @@ export default function PackageManagement({ className = '' }: PackageManagementP
   const [editingPricingTier, setEditingPricingTier] = useState<Partial<PackagePricingTier>>({});
   const [searchTerm, setSearchTerm] = useState('');
 
+  const canEditPackages = authService.hasAdminPermission('packages.edit');
+  const canEditThemes = authService.hasAdminPermission('themes.edit');
+  const canEditPricing = authService.hasAdminPermission('pricing.edit');
+
   // Load initial data
   useEffect(() => {
     loadPackages();
@@ -241,7 +247,7 @@ export default function PackageManagement({ className = '' }: PackageManagementP
       <div className="flex flex-col md:flex-row md:items-center md:justify-between">
         <div>
           <h1 className="text-3xl font-bold text-white">Package Management</h1>
-          <p className="text-gray-400 mt-2">Manage photo packages, themes, and pricing tiers</p>
+          <p className="text-gray-400 mt-2">Manage photo packages, themes, pricing tiers and regional prices</p>
         </div>
         <div className="mt-4 md:mt-0 flex space-x-2">
           <button
@@ -252,25 +258,27 @@ export default function PackageManagement({ className = '' }: PackageManagementP
             <Icon path={iconPaths.refreshCw} className="w-5 h-5 mr-2" />
             Refresh
           </button>
-          <button
-            onClick={() => {
-              setEditingPackage({
-                name: '',
-                description: '',
-                category: 'wedding',
-                images_per_generation: 3,
-                base_prompt_template: '',
-                is_active: true,
-                is_featured: false,
-                sort_order: 0
-              });
-              setIsEditingPackage(true);
-            }}
-            className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors flex items-center"
-          >
-            <Icon path={iconPaths.plus} className="w-5 h-5 mr-2" />
-            Create Package
-          </button>
+          {canEditPackages && (
+            <button
+              onClick={() => {
+                setEditingPackage({
+                  name: '',
+                  description: '',
+                  category: 'wedding',
+                  images_per_generation: 3,
+                  base_prompt_template: '',
+                  is_active: true,
+                  is_featured: false,
+                  sort_order: 0
+                });
+                setIsEditingPackage(true);
+              }}
+              className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors flex items-center"
+            >
+              <Icon path={iconPaths.plus} className="w-5 h-5 mr-2" />
+              Create Package
+            </button>
+          )}
         </div>
       </div>
 
@@ -381,25 +389,27 @@ export default function PackageManagement({ className = '' }: PackageManagementP
                     <h3 className="font-semibold text-white">
                       {selectedPackage.name}
                     </h3>
-                    <div className="flex space-x-2">
-                      <button
-                        onClick={() => {
-                          setEditingPackage(selectedPackage);
-                          setIsEditingPackage(true);
-                        }}
-                        className="px-3 py-1 text-sm bg-gray-700 text-gray-300 rounded hover:bg-gray-600 transition-colors flex items-center"
-                      >
-                        <Icon path={iconPaths.edit} className="w-4 h-4 mr-1" />
-                        Edit
-                      </button>
-                      <button
-                        onClick={() => handleDeletePackage(selectedPackage.id)}
-                        className="px-3 py-1 text-sm bg-red-900 text-red-300 rounded hover:bg-red-800 transition-colors flex items-center"
-                      >
-                        <Icon path={iconPaths.trash} className="w-4 h-4 mr-1" />
-                        Delete
-                      </button>
-                    </div>
+                    {canEditPackages && (
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => {
+                            setEditingPackage(selectedPackage);
+                            setIsEditingPackage(true);
+                          }}
+                          className="px-3 py-1 text-sm bg-gray-700 text-gray-300 rounded hover:bg-gray-600 transition-colors flex items-center"
+                        >
+                          <Icon path={iconPaths.edit} className="w-4 h-4 mr-1" />
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDeletePackage(selectedPackage.id)}
+                          className="px-3 py-1 text-sm bg-red-900 text-red-300 rounded hover:bg-red-800 transition-colors flex items-center"
+                        >
+                          <Icon path={iconPaths.trash} className="w-4 h-4 mr-1" />
+                          Delete
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </div>
                 <div className="p-4">
@@ -464,24 +474,26 @@ export default function PackageManagement({ className = '' }: PackageManagementP
                         <h4 className="font-medium text-white">
                           Package Themes
                         </h4>
-                        <button
-                          onClick={() => {
-                            setEditingTheme({
-                              package_id: selectedPackage.id,
-                              name: '',
-                              description: '',
-                              setting_prompt: '',
-                              is_active: true,
-                              is_premium: false,
-                              sort_order: packageThemes.length
-                            });
-                            setIsEditingTheme(true);
-                          }}
-                          className="px-3 py-1 text-sm bg-purple-600 text-white rounded hover:bg-purple-700 transition-colors flex items-center"
-                        >
-                          <Icon path={iconPaths.plus} className="w-4 h-4 mr-1" />
-                          Add Theme
-                        </button>
+                        {canEditThemes && (
+                          <button
+                            onClick={() => {
+                              setEditingTheme({
+                                package_id: selectedPackage.id,
+                                name: '',
+                                description: '',
+                                setting_prompt: '',
+                                is_active: true,
+                                is_premium: false,
+                                sort_order: packageThemes.length
+                              });
+                              setIsEditingTheme(true);
+                            }}
+                            className="px-3 py-1 text-sm bg-purple-600 text-white rounded hover:bg-purple-700 transition-colors flex items-center"
+                          >
+                            <Icon path={iconPaths.plus} className="w-4 h-4 mr-1" />
+                            Add Theme
+                          </button>
+                        )}
                       </div>
 
                       <div className="grid grid-cols-1 gap-3">
@@ -514,23 +526,25 @@ export default function PackageManagement({ className = '' }: PackageManagementP
                                 }`}>
                                   {theme.is_active ? 'Active' : 'Inactive'}
                                 </span>
-                                <div className="flex space-x-2">
-                                  <button
-                                    onClick={() => {
-                                      setEditingTheme(theme);
-                                      setIsEditingTheme(true);
-                                    }}
-                                    className="text-purple-400 hover:text-purple-300 text-sm"
-                                  >
-                                    Edit
-                                  </button>
-                                  <button
-                                    onClick={() => handleDeleteTheme(theme.id)}
-                                    className="text-red-400 hover:text-red-300 text-sm"
-                                  >
-                                    Delete
-                                  </button>
-                                </div>
+                                {canEditThemes && (
+                                  <div className="flex space-x-2">
+                                    <button
+                                      onClick={() => {
+                                        setEditingTheme(theme);
+                                        setIsEditingTheme(true);
+                                      }}
+                                      className="text-purple-400 hover:text-purple-300 text-sm"
+                                    >
+                                      Edit
+                                    </button>
+                                    <button
+                                      onClick={() => handleDeleteTheme(theme.id)}
+                                      className="text-red-400 hover:text-red-300 text-sm"
+                                    >
+                                      Delete
+                                    </button>
+                                  </div>
+                                )}
                               </div>
                             </div>
                           </div>
@@ -545,26 +559,28 @@ export default function PackageManagement({ className = '' }: PackageManagementP
                         <h4 className="font-medium text-white">
                           Pricing Tiers
                         </h4>
-                        <button
-                          onClick={() => {
-                            setEditingPricingTier({
-                              package_id: selectedPackage.id,
-                              name: '',
-                              shoots_count: 1,
-                              price_cents: 0,
-                              features: [],
-                              restrictions: {},
-                              sort_order: pricingTiers.length,
-                              is_active: true,
-                              is_default: false
-                            });
-                            setIsEditingPricingTier(true);
-                          }}
-                          className="px-3 py-1 text-sm bg-purple-600 text-white rounded hover:bg-purple-700 transition-colors flex items-center"
-                        >
-                          <Icon path={iconPaths.plus} className="w-4 h-4 mr-1" />
-                          Add Tier
-                        </button>
+                        {canEditPricing && (
+                          <button
+                            onClick={() => {
+                              setEditingPricingTier({
+                                package_id: selectedPackage.id,
+                                name: '',
+                                shoots_count: 1,
+                                price_cents: 0,
+                                features: [],
+                                restrictions: {},
+                                sort_order: pricingTiers.length,
+                                is_active: true,
+                                is_default: false
+                              });
+                              setIsEditingPricingTier(true);
+                            }}
+                            className="px-3 py-1 text-sm bg-purple-600 text-white rounded hover:bg-purple-700 transition-colors flex items-center"
+                          >
+                            <Icon path={iconPaths.plus} className="w-4 h-4 mr-1" />
+                            Add Tier
+                          </button>
+                        )}
                       </div>
 
                       <div className="grid grid-cols-1 gap-3">
@@ -600,23 +616,25 @@ export default function PackageManagement({ className = '' }: PackageManagementP
                                 }`}>
                                   {tier.is_active ? 'Active' : 'Inactive'}
                                 </span>
-                                <div className="flex space-x-2">
-                                  <button
-                                    onClick={() => {
-                                      setEditingPricingTier(tier);
-                                      setIsEditingPricingTier(true);
-                                    }}
-                                    className="text-purple-400 hover:text-purple-300 text-sm"
-                                  >
-                                    Edit
-                                  </button>
-                                  <button
-                                    onClick={() => handleDeletePricingTier(tier.id)}
-                                    className="text-red-400 hover:text-red-300 text-sm"
-                                  >
-                                    Delete
-                                  </button>
-                                </div>
+                                {canEditPricing && (
+                                  <div className="flex space-x-2">
+                                    <button
+                                      onClick={() => {
+                                        setEditingPricingTier(tier);
+                                        setIsEditingPricingTier(true);
+                                      }}
+                                      className="text-purple-400 hover:text-purple-300 text-sm"
+                                    >
+                                      Edit
+                                    </button>
+                                    <button
+                                      onClick={() => handleDeletePricingTier(tier.id)}
+                                      className="text-red-400 hover:text-red-300 text-sm"
+                                    >
+                                      Delete
+                                    </button>
+                                  </div>
+                                )}
                               </div>
                             </div>
                           </div>
@@ -637,6 +655,13 @@ export default function PackageManagement({ className = '' }: PackageManagementP
         </div>
       </div>
 
+      {/* Regional pricing */}
+      <PriceBooksPanel
+        packageName={selectedPackage?.name}
+        packageTiers={selectedPackage ? pricingTiers : []}
+        readOnly={!canEditPricing}
+      />
+
       {/* Package Edit Modal */}
       {isEditingPackage && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
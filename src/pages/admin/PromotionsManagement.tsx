@@ -0,0 +1,512 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import LoadingSpinner from '../../components/admin/LoadingSpinner';
+import { stripeService } from '../../../services/stripeService';
+import {
+  promotionService,
+  PromotionSummary,
+  PromotionRedemption,
+  PromotionInput
+} from '../../../services/promotionService';
+
+type DiscountType = 'percent' | 'amount' | 'none';
+
+interface PromotionForm {
+  code: string;
+  description: string;
+  discountType: DiscountType;
+  discountValue: string;
+  bonusCredits: string;
+  priceIds: string[];
+  startsAt: string;
+  expiresAt: string;
+  maxRedemptions: string;
+  perUserLimit: string;
+  firstPurchaseOnly: boolean;
+}
+
+const EMPTY_FORM: PromotionForm = {
+  code: '',
+  description: '',
+  discountType: 'percent',
+  discountValue: '',
+  bonusCredits: '',
+  priceIds: [],
+  startsAt: '',
+  expiresAt: '',
+  maxRedemptions: '',
+  perUserLimit: '1',
+  firstPurchaseOnly: false
+};
+
+const tiers = stripeService.getPricingTiers();
+
+const optionalInt = (value: string): number | null => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const formatDate = (value: string | null) => value ? format(new Date(value), 'MMM d, yyyy') : '—';
+
+const describeDiscount = (promotion: PromotionSummary): string => {
+  const parts: string[] = [];
+  if (promotion.percent_off) parts.push(`${promotion.percent_off}% off`);
+  if (promotion.amount_off) parts.push(`${stripeService.formatPrice(promotion.amount_off)} off`);
+  if (promotion.bonus_credits) parts.push(`+${promotion.bonus_credits} credits`);
+  return parts.join(', ');
+};
+
+const getStatus = (promotion: PromotionSummary): { label: string; className: string } => {
+  const now = Date.now();
+  if (!promotion.is_active) return { label: 'Disabled', className: 'bg-gray-700 text-gray-300' };
+  if (promotion.expires_at && new Date(promotion.expires_at).getTime() <= now) {
+    return { label: 'Expired', className: 'bg-red-900/50 text-red-300' };
+  }
+  if (promotion.starts_at && new Date(promotion.starts_at).getTime() > now) {
+    return { label: 'Scheduled', className: 'bg-blue-900/50 text-blue-300' };
+  }
+  if (promotion.max_redemptions && promotion.redeemed_count >= promotion.max_redemptions) {
+    return { label: 'Used up', className: 'bg-yellow-900/50 text-yellow-300' };
+  }
+  return { label: 'Active', className: 'bg-green-900/50 text-green-300' };
+};
+
+const PromotionsManagement: React.FC = () => {
+  const [promotions, setPromotions] = useState<PromotionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [form, setForm] = useState<PromotionForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [selected, setSelected] = useState<PromotionSummary | null>(null);
+  const [redemptions, setRedemptions] = useState<PromotionRedemption[]>([]);
+  const [redemptionsLoading, setRedemptionsLoading] = useState(false);
+
+  useEffect(() => {
+    loadPromotions();
+  }, []);
+
+  const loadPromotions = async () => {
+    setLoading(true);
+    try {
+      setPromotions(await promotionService.listPromotions());
+      setError(null);
+    } catch (err: any) {
+      console.error('Failed to load promotions:', err);
+      setError(err.message || 'Failed to load promotions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openRedemptions = async (promotion: PromotionSummary) => {
+    setSelected(promotion);
+    setRedemptionsLoading(true);
+    try {
+      setRedemptions(await promotionService.getRedemptions(promotion.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load redemptions');
+      setRedemptions([]);
+    } finally {
+      setRedemptionsLoading(false);
+    }
+  };
+
+  const toggleActive = async (promotion: PromotionSummary) => {
+    try {
+      await promotionService.setActive(promotion.id, !promotion.is_active);
+      await loadPromotions();
+    } catch (err: any) {
+      setError(err.message || 'Failed to update promotion');
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const discountValue = parseFloat(form.discountValue);
+    const bonusCredits = optionalInt(form.bonusCredits) || 0;
+
+    if (form.discountType === 'percent' && !(discountValue >= 1 && discountValue <= 100)) {
+      setError('Percent off must be between 1 and 100');
+      return;
+    }
+    if (form.discountType === 'amount' && !(discountValue > 0)) {
+      setError('Amount off must be greater than 0');
+      return;
+    }
+    if (form.discountType === 'none' && bonusCredits === 0) {
+      setError('A promotion needs a discount or bonus credits');
+      return;
+    }
+
+    const input: PromotionInput = {
+      code: form.code,
+      description: form.description.trim() || null,
+      percent_off: form.discountType === 'percent' ? Math.round(discountValue) : null,
+      amount_off: form.discountType === 'amount' ? Math.round(discountValue * 100) : null,
+      bonus_credits: bonusCredits,
+      price_ids: form.priceIds,
+      starts_at: form.startsAt ? new Date(form.startsAt).toISOString() : null,
+      expires_at: form.expiresAt ? new Date(form.expiresAt).toISOString() : null,
+      max_redemptions: optionalInt(form.maxRedemptions),
+      per_user_limit: optionalInt(form.perUserLimit),
+      first_purchase_only: form.firstPurchaseOnly,
+      is_active: true
+    };
+
+    setSaving(true);
+    try {
+      await promotionService.createPromotion(input);
+      setShowCreateModal(false);
+      setForm(EMPTY_FORM);
+      setError(null);
+      await loadPromotions();
+    } catch (err: any) {
+      setError(err.message || 'Failed to create promotion');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const togglePriceId = (priceId: string) => {
+    setForm(prev => ({
+      ...prev,
+      priceIds: prev.priceIds.includes(priceId)
+        ? prev.priceIds.filter(id => id !== priceId)
+        : [...prev.priceIds, priceId]
+    }));
+  };
+
+  const tierName = (priceId: string | null) =>
+    tiers.find(tier => tier.priceId === priceId)?.name || priceId || '—';
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Promotions</h1>
+          <p className="text-gray-400 mt-2">Create coupon codes and audit how they were used</p>
+        </div>
+        <div className="mt-4 md:mt-0">
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+          >
+            New Promotion
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-900/50 border border-red-500 rounded-lg p-3 flex items-center justify-between">
+          <span className="text-red-200 text-sm">{error}</span>
+          <button onClick={() => setError(null)} className="text-red-400 hover:text-red-300">✕</button>
+        </div>
+      )}
+
+      <div className="bg-gray-800 rounded-lg border border-gray-700 p-6">
+        {loading ? (
+          <LoadingSpinner size="sm" />
+        ) : promotions.length === 0 ? (
+          <p className="text-sm text-gray-400">No promotions yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700">
+                  <th className="py-2 pr-4">Code</th>
+                  <th className="py-2 pr-4">Offer</th>
+                  <th className="py-2 pr-4">Packs</th>
+                  <th className="py-2 pr-4">Valid</th>
+                  <th className="py-2 pr-4">Redeemed</th>
+                  <th className="py-2 pr-4">Discount given</th>
+                  <th className="py-2 pr-4">Revenue</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2 pr-4"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {promotions.map(promotion => {
+                  const status = getStatus(promotion);
+                  return (
+                    <tr key={promotion.id} className="border-b border-gray-800 text-gray-200">
+                      <td className="py-2 pr-4">
+                        <div className="font-mono font-semibold">{promotion.code}</div>
+                        {promotion.description && <div className="text-xs text-gray-400">{promotion.description}</div>}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {describeDiscount(promotion)}
+                        {promotion.first_purchase_only && <div className="text-xs text-gray-400">First purchase only</div>}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {promotion.price_ids.length === 0 ? 'All' : promotion.price_ids.map(tierName).join(', ')}
+                      </td>
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        {formatDate(promotion.starts_at)} – {formatDate(promotion.expires_at)}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {promotion.redeemed_count}
+                        {promotion.max_redemptions ? ` / ${promotion.max_redemptions}` : ''}
+                        {promotion.reserved_count > 0 && (
+                          <div className="text-xs text-gray-400">{promotion.reserved_count} in checkout</div>
+                        )}
+                        <div className="text-xs text-gray-400">
+                          {promotion.per_user_limit ? `${promotion.per_user_limit} per user` : 'No per-user limit'}
+                        </div>
+                      </td>
+                      <td className="py-2 pr-4">
+                        {stripeService.formatPrice(promotion.total_discount)}
+                        {promotion.total_bonus_credits > 0 && (
+                          <div className="text-xs text-gray-400">+{promotion.total_bonus_credits} credits</div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">{stripeService.formatPrice(promotion.revenue)}</td>
+                      <td className="py-2 pr-4">
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${status.className}`}>
+                          {status.label}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-4 whitespace-nowrap space-x-3">
+                        <button onClick={() => openRedemptions(promotion)} className="text-purple-400 hover:text-purple-300">
+                          Audit
+                        </button>
+                        <button onClick={() => toggleActive(promotion)} className="text-gray-400 hover:text-white">
+                          {promotion.is_active ? 'Disable' : 'Enable'}
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Redemptions audit */}
+      {selected && (
+        <div className="bg-gray-800 rounded-lg border border-gray-700 p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-white">
+              Redemptions of <span className="font-mono">{selected.code}</span>
+            </h3>
+            <button onClick={() => setSelected(null)} className="text-gray-400 hover:text-white">✕</button>
+          </div>
+
+          {redemptionsLoading ? (
+            <LoadingSpinner size="sm" />
+          ) : redemptions.length === 0 ? (
+            <p className="text-sm text-gray-400">This code hasn't been used yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-gray-700">
+                    <th className="py-2 pr-4">Date</th>
+                    <th className="py-2 pr-4">User</th>
+                    <th className="py-2 pr-4">Pack</th>
+                    <th className="py-2 pr-4">Status</th>
+                    <th className="py-2 pr-4">Price</th>
+                    <th className="py-2 pr-4">Discount</th>
+                    <th className="py-2 pr-4">Bonus</th>
+                    <th className="py-2 pr-4">Payment</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {redemptions.map(redemption => (
+                    <tr key={redemption.id} className="border-b border-gray-800 text-gray-200">
+                      <td className="py-2 pr-4 whitespace-nowrap">{format(new Date(redemption.created_at), 'MMM d, yyyy HH:mm')}</td>
+                      <td className="py-2 pr-4">{redemption.user_email || '—'}</td>
+                      <td className="py-2 pr-4">{tierName(redemption.price_id)}</td>
+                      <td className="py-2 pr-4">{redemption.status}</td>
+                      <td className="py-2 pr-4">{stripeService.formatPrice(redemption.original_amount)}</td>
+                      <td className="py-2 pr-4">{stripeService.formatPrice(redemption.discount_amount)}</td>
+                      <td className="py-2 pr-4">{redemption.bonus_credits || '—'}</td>
+                      <td className="py-2 pr-4">
+                        {redemption.stripe_payment_id ? (
+                          <>
+                            <span className="font-mono text-xs">{redemption.stripe_payment_id}</span>
+                            <div className="text-xs text-gray-400">{redemption.payment_status}</div>
+                          </>
+                        ) : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Create modal */}
+      {showCreateModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <form
+            onSubmit={handleCreate}
+            className="bg-gray-800 rounded-lg p-6 w-full max-w-lg border border-gray-700 max-h-[90vh] overflow-y-auto"
+          >
+            <h3 className="text-lg font-semibold text-white mb-4">New Promotion</h3>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Code</label>
+                  <input
+                    type="text"
+                    required
+                    minLength={3}
+                    maxLength={32}
+                    value={form.code}
+                    onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase().replace(/\s/g, '') })}
+                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Description</label>
+                  <input
+                    type="text"
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Discount</label>
+                  <select
+                    value={form.discountType}
+                    onChange={(e) => setForm({ ...form, discountType: e.target.value as DiscountType })}
+                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+                  >
+                    <option value="percent">Percent off</option>
+                    <option value="amount">Amount off ($)</option>
+                    <option value="none">No discount</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    {form.discountType === 'amount' ? 'Amount ($)' : 'Percent'}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step={form.discountType === 'amount' ? '0.01' : '1'}
+                    disabled={form.discountType === 'none'}
+                    value={form.discountValue}
+                    onChange={(e) => setForm({ ...form, discountValue: e.target.value })}
+                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white disabled:opacity-50"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Bonus credits</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={form.bonusCredits}
+                  onChange={(e) => setForm({ ...form, bonusCredits: e.target.value })}
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Credit packs (none selected = all)</label>
+                <div className="flex flex-wrap gap-3">
+                  {tiers.map(tier => (
+                    <label key={tier.id} className="flex items-center gap-2 text-sm text-gray-200">
+                      <input
+                        type="checkbox"
+                        checked={form.priceIds.includes(tier.priceId)}
+                        onChange={() => togglePriceId(tier.priceId)}
+                      />
+                      {tier.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Starts</label>
+                  <input
+                    type="datetime-local"
+                    value={form.startsAt}
+                    onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Expires</label>
+                  <input
+                    type="datetime-local"
+                    value={form.expiresAt}
+                    onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Max redemptions</label>
+                  <input
+                    type="number"
+                    min="1"
+                    placeholder="Unlimited"
+                    value={form.maxRedemptions}
+                    onChange={(e) => setForm({ ...form, maxRedemptions: e.target.value })}
+                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Uses per user</label>
+                  <input
+                    type="number"
+                    min="1"
+                    placeholder="Unlimited"
+                    value={form.perUserLimit}
+                    onChange={(e) => setForm({ ...form, perUserLimit: e.target.value })}
+                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-200">
+                <input
+                  type="checkbox"
+                  checked={form.firstPurchaseOnly}
+                  onChange={(e) => setForm({ ...form, firstPurchaseOnly: e.target.checked })}
+                />
+                First purchase only
+              </label>
+            </div>
+
+            <div className="flex justify-end space-x-2 mt-6">
+              <button
+                type="button"
+                onClick={() => { setShowCreateModal(false); setForm(EMPTY_FORM); }}
+                className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+              >
+                {saving ? 'Creating...' : 'Create'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromotionsManagement;
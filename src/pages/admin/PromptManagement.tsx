@@ -4,6 +4,7 @@ import { promptDatabaseService } from '../../../services/promptDatabaseService';
 import { supabase } from '../../../services/supabaseClient';
 import { ThemeManager, WEDDING_THEMES } from '../../config/themes.config.js';
 import { unifiedThemeService } from '../../../services/unifiedThemeService';
+import PromptVersionHistory from '../../components/admin/PromptVersionHistory';
 // Enhanced prompt service import temporarily commented for build compatibility
 // import { enhancedPromptService } from '../../../services/enhancedPromptService';
 
@@ -16,7 +17,8 @@ const iconPaths = {
   test: "M19 3H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm-5 14H7v-2h7v2zm3-4H7v-2h10v2zm0-4H7V7h10v2z",
   warning: "M1 21h22L12 2 1 21zm12-3h-2v-2h2v2zm0-4h-2v-4h2v4z",
   download: "M19 9h-4V3H9v6H5l7 7 7-7zM5 18v2h14v-2H5z",
-  upload: "M9 16h6v-6h4l-7-7-7 7h4zm-4 2h14v2H5z"
+  upload: "M9 16h6v-6h4l-7-7-7 7h4zm-4 2h14v2H5z",
+  history: "M13 3c-4.97 0-9 4.03-9 9H1l3.89 3.89.07.14L9 12H6c0-3.87 3.13-7 7-7s7 3.13 7 7-3.13 7-7 7c-1.93 0-3.68-.79-4.94-2.06l-1.42 1.42C8.27 19.99 10.51 21 13 21c4.97 0 9-4.03 9-9s-4.03-9-9-9zm-1 5v5l4.28 2.54.72-1.21-3.5-2.08V8H12z"
 };
 
 interface PromptTemplate {
@@ -101,6 +103,8 @@ const PromptManagement: React.FC = () => {
   const [selectedPrompt, setSelectedPrompt] = useState<PromptTemplate | null>(null);
   const [editMode, setEditMode] = useState(false);
   const [editedTemplate, setEditedTemplate] = useState('');
+  const [changeNote, setChangeNote] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -307,7 +311,7 @@ const PromptManagement: React.FC = () => {
 
       // Save single prompt to database
       try {
-        const savedPrompt = await promptDatabaseService.updatePrompt(updatedPrompt);
+        const savedPrompt = await promptDatabaseService.updatePrompt(updatedPrompt, changeNote.trim());
         console.log('Prompt saved to database:', savedPrompt);
         
         // Update local state
@@ -336,6 +340,7 @@ const PromptManagement: React.FC = () => {
       }
       
       setEditMode(false);
+      setChangeNote('');
       setTimeout(() => setSuccess(null), 3000);
     } catch (error) {
       console.error('Failed to save prompt:', error);
@@ -345,6 +350,28 @@ const PromptManagement: React.FC = () => {
     }
   };
 
+  const handleRollback = async (version: number) => {
+    if (!selectedPrompt) return;
+
+    try {
+      const restoredPrompt = await promptDatabaseService.rollbackPrompt(selectedPrompt.id, version);
+
+      const updatedPrompts = prompts.map(p =>
+        p.id === selectedPrompt.id ? restoredPrompt : p
+      );
+      setPrompts(updatedPrompts);
+      setSelectedPrompt(restoredPrompt);
+      setEditedTemplate(restoredPrompt.template);
+      localStorage.setItem('wedai_admin_prompts', JSON.stringify(updatedPrompts));
+
+      setSuccess(`Restored version ${version} as version ${restoredPrompt.version}`);
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (error) {
+      console.error('Failed to roll back prompt:', error);
+      setError('Failed to restore version');
+    }
+  };
+
   const handleResetToDefault = async () => {
     if (!selectedPrompt) return;
 
@@ -965,6 +992,17 @@ const PromptManagement: React.FC = () => {
                     <Icon path={iconPaths.test} className="w-4 h-4 mr-2 inline" />
                     Test
                   </button>
+                  <button
+                    onClick={() => setShowHistory(!showHistory)}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      showHistory
+                        ? 'bg-purple-600 text-white'
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                  >
+                    <Icon path={iconPaths.history} className="w-4 h-4 mr-2 inline" />
+                    History
+                  </button>
                   <button
                     onClick={() => {
                       setEditMode(!editMode);
@@ -1059,6 +1097,19 @@ const PromptManagement: React.FC = () => {
                 </div>
               )}
 
+              {/* Version History */}
+              {showHistory && (
+                <div className="bg-purple-900/10 border border-purple-800 rounded-lg p-4 space-y-4">
+                  <h4 className="font-medium text-purple-200">Version History</h4>
+                  <PromptVersionHistory
+                    templateId={selectedPrompt.id}
+                    currentTemplate={selectedPrompt.template}
+                    currentVersion={selectedPrompt.version}
+                    onRollback={handleRollback}
+                  />
+                </div>
+              )}
+
               {/* Edit Mode */}
               {editMode ? (
                 <div className="space-y-4">
@@ -1090,6 +1141,18 @@ const PromptManagement: React.FC = () => {
                     </div>
                   </div>
 
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Change Note</label>
+                    <input
+                      type="text"
+                      value={changeNote}
+                      onChange={(e) => setChangeNote(e.target.value)}
+                      maxLength={500}
+                      placeholder="What changed and why (shown in version history)"
+                      className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+                    />
+                  </div>
+
                   <div className="flex space-x-3">
                     <button
                       onClick={handleSavePrompt}
@@ -1103,6 +1166,7 @@ const PromptManagement: React.FC = () => {
                       onClick={() => {
                         setEditMode(false);
                         setEditedTemplate(selectedPrompt.template);
+                        setChangeNote('');
                       }}
                       className="bg-gray-600 text-white px-4 py-2 rounded-lg hover:bg-gray-700 text-sm"
                     >
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import Icon from '../../../components/Icon';
 import { supabase } from '../../../services/supabaseClient';
+import PromptExperimentsPanel from '../../components/admin/PromptExperimentsPanel';
+import IdentityDriftPanel from '../../components/admin/IdentityDriftPanel';
 
 // Icon paths
 const iconPaths = {
@@ -322,6 +324,12 @@ const TemplateEngineStats: React.FC = () => {
         </div>
       </div>
 
+      {/* Prompt A/B Experiments */}
+      <PromptExperimentsPanel />
+
+      {/* Identity Drift */}
+      <IdentityDriftPanel />
+
       {/* Performance Analysis */}
       <div className="bg-gray-800 rounded-lg border border-gray-700 p-6">
         <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
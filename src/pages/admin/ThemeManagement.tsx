@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import Icon from '../../../components/Icon';
 import { supabase } from '../../../services/supabaseClient';
 import TemplateEngineStats from './TemplateEngineStats';
+import authService from '../../../services/authService';
 
 // Icon paths
 const iconPaths = {
@@ -67,6 +68,8 @@ const ThemeManagement: React.FC = () => {
   const [editPackageThemeMode, setEditPackageThemeMode] = useState(false);
   const [selectedPackageFilter, setSelectedPackageFilter] = useState<string>('');
 
+  const canEditThemes = authService.hasAdminPermission('themes.edit');
+
   useEffect(() => {
     loadStyles();
     loadStats();
@@ -629,7 +632,7 @@ const ThemeManagement: React.FC = () => {
               Statistics
             </button>
           </div>
-          {activeTab === 'themes' && (
+          {canEditThemes && activeTab === 'themes' && (
             <button
               onClick={startCreate}
               className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 text-sm flex items-center"
@@ -638,7 +641,7 @@ const ThemeManagement: React.FC = () => {
               Create Style
             </button>
           )}
-          {activeTab === 'packages' && (
+          {canEditThemes && activeTab === 'packages' && (
             <button
               onClick={() => {
                 setSelectedPackageTheme(null);
@@ -714,16 +717,18 @@ const ThemeManagement: React.FC = () => {
                 <h3 className="text-lg font-semibold text-white">Package Themes</h3>
                 <p className="text-gray-400 text-sm mt-1">Manage themes for photo packages</p>
               </div>
-              <button
-                onClick={() => {
-                  setSelectedPackageTheme(null);
-                  setEditPackageThemeMode(true);
-                }}
-                className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors flex items-center"
-              >
-                <Icon path={iconPaths.add} className="w-4 h-4 mr-2" />
-                New Theme
-              </button>
+              {canEditThemes && (
+                <button
+                  onClick={() => {
+                    setSelectedPackageTheme(null);
+                    setEditPackageThemeMode(true);
+                  }}
+                  className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors flex items-center"
+                >
+                  <Icon path={iconPaths.add} className="w-4 h-4 mr-2" />
+                  New Theme
+                </button>
+              )}
             </div>
             <div className="p-6">
               {/* Package Filter */}
@@ -817,22 +822,24 @@ const ThemeManagement: React.FC = () => {
                             <p className="text-gray-400 text-sm mt-1">{selectedPackageTheme.description}</p>
                             <p className="text-purple-400 text-sm mt-1">{selectedPackageTheme.photo_packages?.name} Package</p>
                           </div>
-                          <div className="flex space-x-2">
-                            <button
-                              onClick={() => setEditPackageThemeMode(true)}
-                              className="bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 text-sm flex items-center"
-                            >
-                              <Icon path={iconPaths.edit} className="w-4 h-4 mr-2" />
-                              Edit
-                            </button>
-                            <button
-                              onClick={() => deletePackageTheme(selectedPackageTheme.id)}
-                              className="bg-red-600 text-white px-3 py-2 rounded-lg hover:bg-red-700 text-sm flex items-center"
-                            >
-                              <Icon path={iconPaths.delete} className="w-4 h-4 mr-2" />
-                              Delete
-                            </button>
-                          </div>
+                          {canEditThemes && (
+                            <div className="flex space-x-2">
+                              <button
+                                onClick={() => setEditPackageThemeMode(true)}
+                                className="bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 text-sm flex items-center"
+                              >
+                                <Icon path={iconPaths.edit} className="w-4 h-4 mr-2" />
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => deletePackageTheme(selectedPackageTheme.id)}
+                                className="bg-red-600 text-white px-3 py-2 rounded-lg hover:bg-red-700 text-sm flex items-center"
+                              >
+                                <Icon path={iconPaths.delete} className="w-4 h-4 mr-2" />
+                                Delete
+                              </button>
+                            </div>
+                          )}
                         </div>
 
                         {/* Theme Details Grid */}
@@ -1085,28 +1092,31 @@ const ThemeManagement: React.FC = () => {
                   <h3 className="text-xl font-semibold text-white">{selectedStyle.name}</h3>
                   <p className="text-gray-400 text-sm mt-1">{selectedStyle.description}</p>
                 </div>
-                <div className="flex space-x-2">
-                  <button
-                    onClick={() => startEdit(selectedStyle)}
-                    className="bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 text-sm flex items-center"
-                  >
-                    <Icon path={iconPaths.edit} className="w-4 h-4 mr-2" />
-                    Edit
-                  </button>
-                  <button
-                    onClick={() => deleteStyle(selectedStyle.id)}
-                    className="bg-red-600 text-white px-3 py-2 rounded-lg hover:bg-red-700 text-sm flex items-center"
-                  >
-                    <Icon path={iconPaths.delete} className="w-4 h-4 mr-2" />
-                    Delete
-                  </button>
-                </div>
+                {canEditThemes && (
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => startEdit(selectedStyle)}
+                      className="bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 text-sm flex items-center"
+                    >
+                      <Icon path={iconPaths.edit} className="w-4 h-4 mr-2" />
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => deleteStyle(selectedStyle.id)}
+                      className="bg-red-600 text-white px-3 py-2 rounded-lg hover:bg-red-700 text-sm flex items-center"
+                    >
+                      <Icon path={iconPaths.delete} className="w-4 h-4 mr-2" />
+                      Delete
+                    </button>
+                  </div>
+                )}
               </div>
 
               {/* Quick Actions */}
               <div className="flex flex-wrap gap-2">
                 <button
                   onClick={() => toggleStyleStatus(selectedStyle.id, 'enabled', !selectedStyle.enabled)}
+                  disabled={!canEditThemes}
                   className={`px-3 py-1 rounded text-sm ${
                     selectedStyle.enabled
                       ? 'bg-green-600 text-white hover:bg-green-700'
@@ -1117,6 +1127,7 @@ const ThemeManagement: React.FC = () => {
                 </button>
                 <button
                   onClick={() => toggleStyleStatus(selectedStyle.id, 'featured', !selectedStyle.featured)}
+                  disabled={!canEditThemes}
                   className={`px-3 py-1 rounded text-sm ${
                     selectedStyle.featured
                       ? 'bg-yellow-600 text-white hover:bg-yellow-700'
@@ -1127,6 +1138,7 @@ const ThemeManagement: React.FC = () => {
                 </button>
                 <button
                   onClick={() => toggleStyleStatus(selectedStyle.id, 'seasonal', !selectedStyle.seasonal)}
+                  disabled={!canEditThemes}
                   className={`px-3 py-1 rounded text-sm ${
                     selectedStyle.seasonal
                       ? 'bg-cyan-600 text-white hover:bg-cyan-700'
@@ -1137,6 +1149,7 @@ const ThemeManagement: React.FC = () => {
                 </button>
                 <button
                   onClick={() => toggleStyleStatus(selectedStyle.id, 'premium_only', !selectedStyle.premium_only)}
+                  disabled={!canEditThemes}
                   className={`px-3 py-1 rounded text-sm ${
                     selectedStyle.premium_only
                       ? 'bg-purple-600 text-white hover:bg-purple-700'
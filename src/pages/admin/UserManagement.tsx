@@ -3,6 +3,7 @@ import Icon from '../../../components/Icon';
 import { format } from 'date-fns';
 import { adminService, User } from '../../services/adminService';
 import SearchInput from '../../components/admin/SearchInput';
+import authService from '../../../services/authService';
 
 // Icon paths
 const iconPaths = {
@@ -18,6 +19,9 @@ const iconPaths = {
 };
 
 const UserManagement: React.FC = () => {
+  const canEditUsers = authService.hasAdminPermission('users.edit');
+  const canSuspendUsers = authService.hasAdminPermission('users.suspend');
+  const canExportUsers = authService.hasAdminPermission('export.pii');
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
@@ -140,10 +144,12 @@ const UserManagement: React.FC = () => {
             <Icon path={iconPaths.refreshCw} className="w-5 h-5 mr-2" />
             Refresh
           </button>
-          <button className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors flex items-center">
-            <Icon path={iconPaths.userPlus} className="w-5 h-5 mr-2" />
-            Add User
-          </button>
+          {canEditUsers && (
+            <button className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors flex items-center">
+              <Icon path={iconPaths.userPlus} className="w-5 h-5 mr-2" />
+              Add User
+            </button>
+          )}
         </div>
       </div>
 
@@ -194,18 +200,20 @@ const UserManagement: React.FC = () => {
             <Icon path={iconPaths.filter} className="w-5 h-5 mr-2" />
             Filters
           </button>
-          <button
-            onClick={exportUsers}
-            disabled={actionLoading === 'export'}
-            className="px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white hover:bg-gray-600 transition-colors flex items-center disabled:opacity-50"
-          >
-            {actionLoading === 'export' ? (
-              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
-            ) : (
-              <Icon path={iconPaths.download} className="w-5 h-5 mr-2" />
-            )}
-            Export {selectedUsers.length > 0 && `(${selectedUsers.length})`}
-          </button>
+          {canExportUsers && (
+            <button
+              onClick={exportUsers}
+              disabled={actionLoading === 'export'}
+              className="px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white hover:bg-gray-600 transition-colors flex items-center disabled:opacity-50"
+            >
+              {actionLoading === 'export' ? (
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+              ) : (
+                <Icon path={iconPaths.download} className="w-5 h-5 mr-2" />
+              )}
+              Export {selectedUsers.length > 0 && `(${selectedUsers.length})`}
+            </button>
+          )}
         </div>
         
         {showFilters && (
@@ -324,12 +332,14 @@ const UserManagement: React.FC = () => {
                     </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center space-x-2">
-                        <button 
-                          className="text-gray-400 hover:text-white p-1 rounded"
-                          title="Edit user"
-                        >
-                          <Icon path={iconPaths.edit} className="w-4 h-4" />
-                        </button>
+                        {canEditUsers && (
+                          <button 
+                            className="text-gray-400 hover:text-white p-1 rounded"
+                            title="Edit user"
+                          >
+                            <Icon path={iconPaths.edit} className="w-4 h-4" />
+                          </button>
+                        )}
                         {actionLoading === user.id ? (
                           <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-400"></div>
                         ) : (
@@ -414,18 +424,24 @@ const UserManagement: React.FC = () => {
               {selectedUsers.length} user{selectedUsers.length !== 1 ? 's' : ''} selected
             </span>
             <div className="flex space-x-2">
-              <button className="px-3 py-2 bg-green-600 text-white text-sm rounded hover:bg-green-700 transition-colors">
-                Activate
-              </button>
-              <button className="px-3 py-2 bg-red-600 text-white text-sm rounded hover:bg-red-700 transition-colors">
-                Suspend
-              </button>
-              <button 
-                onClick={exportUsers}
-                className="px-3 py-2 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 transition-colors"
-              >
-                Export
-              </button>
+              {canSuspendUsers && (
+                <>
+                  <button className="px-3 py-2 bg-green-600 text-white text-sm rounded hover:bg-green-700 transition-colors">
+                    Activate
+                  </button>
+                  <button className="px-3 py-2 bg-red-600 text-white text-sm rounded hover:bg-red-700 transition-colors">
+                    Suspend
+                  </button>
+                </>
+              )}
+              {canExportUsers && (
+                <button 
+                  onClick={exportUsers}
+                  className="px-3 py-2 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 transition-colors"
+                >
+                  Export
+                </button>
+              )}
               <button 
                 onClick={() => setSelectedUsers([])}
                 className="px-3 py-2 bg-gray-600 text-white text-sm rounded hover:bg-gray-700 transition-colors"
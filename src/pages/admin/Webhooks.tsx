@@ -0,0 +1,483 @@
+import React, { useState, useEffect } from 'react';
+import Icon from '../../../components/Icon';
+import AlertNotification from '../../components/admin/AlertNotification';
+import LoadingSpinner from '../../components/admin/LoadingSpinner';
+import {
+  adminService,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEndpointInput,
+  WebhookEventType
+} from '../../services/adminService';
+import { format } from 'date-fns';
+
+// Icon paths
+const iconPaths = {
+  webhook: "M10 15l5.88 0c.27-.31.67-.5 1.12-.5.83 0 1.5.67 1.5 1.5s-.67 1.5-1.5 1.5c-.44 0-.84-.19-1.12-.5H11.9c-.46 2.28-2.48 4-4.9 4-2.76 0-5-2.24-5-5 0-2.42 1.72-4.44 4-4.9v2.07c-1.16.41-2 1.53-2 2.83 0 1.65 1.35 3 3 3s3-1.35 3-3v-1zm2.5-11c1.65 0 3 1.35 3 3h2c0-2.76-2.24-5-5-5s-5 2.24-5 5c0 1.43.6 2.71 1.55 3.62l-2.35 3.9C6.02 14.66 5.5 15.27 5.5 16c0 .83.67 1.5 1.5 1.5s1.5-.67 1.5-1.5c0-.17-.03-.33-.08-.48l3.38-5.63C10.49 9.61 9.5 8.42 9.5 7c0-1.65 1.35-3 3-3zm4.5 9c-.64 0-1.23.2-1.72.54l-3.05-5.07C11.53 8.35 11 7.74 11 7c0-.83.67-1.5 1.5-1.5S14 6.17 14 7c0 .15-.02.29-.06.43l2.19 3.65c.29-.05.57-.08.87-.08 2.76 0 5 2.24 5 5s-2.24 5-5 5c-1.85 0-3.47-1.01-4.33-2.5h2.67c.48.32 1.05.5 1.66.5 1.65 0 3-1.35 3-3s-1.35-3-3-3z"
+};
+
+const EVENTS: { value: WebhookEventType; label: string }[] = [
+  { value: 'generation.completed', label: 'Generation completed' },
+  { value: 'generation.failed', label: 'Generation failed' },
+  { value: 'credits.low', label: 'Credits low' },
+  { value: 'payment.succeeded', label: 'Payment succeeded' }
+];
+
+const emptyDraft: WebhookEndpointInput = {
+  ownerEmail: '',
+  url: '',
+  description: '',
+  events: ['generation.completed', 'generation.failed'],
+  enabled: true
+};
+
+const statusStyles: Record<WebhookDelivery['status'], string> = {
+  delivered: 'bg-green-900 text-green-300',
+  pending: 'bg-yellow-900 text-yellow-300',
+  failed: 'bg-red-900 text-red-300'
+};
+
+type NotificationType = 'success' | 'error' | 'warning' | 'info';
+
+const Webhooks: React.FC = () => {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [draft, setDraft] = useState<WebhookEndpointInput>(emptyDraft);
+  const [revealedSecretId, setRevealedSecretId] = useState<string | null>(null);
+  const [expandedDeliveryId, setExpandedDeliveryId] = useState<string | null>(null);
+  const [filterStatus, setFilterStatus] = useState<WebhookDelivery['status'] | 'all'>('all');
+  const [filterEndpointId, setFilterEndpointId] = useState<string>('all');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [notification, setNotification] = useState<{ type: NotificationType; title: string; message: string } | null>(null);
+
+  useEffect(() => {
+    loadEndpoints();
+  }, []);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [filterStatus, filterEndpointId]);
+
+  const loadEndpoints = async () => {
+    try {
+      setEndpoints(await adminService.getWebhookEndpoints());
+    } catch (err: any) {
+      console.error('Failed to load webhook endpoints:', err);
+      setNotification({ type: 'error', title: 'Failed to load webhooks', message: err.message || 'Please try again.' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadDeliveries = async () => {
+    try {
+      setDeliveries(await adminService.getWebhookDeliveries({
+        status: filterStatus === 'all' ? undefined : filterStatus,
+        endpointId: filterEndpointId === 'all' ? undefined : filterEndpointId
+      }));
+    } catch (err: any) {
+      console.error('Failed to load webhook deliveries:', err);
+      setNotification({ type: 'error', title: 'Failed to load deliveries', message: err.message || 'Please try again.' });
+    }
+  };
+
+  const refresh = async () => {
+    await Promise.all([loadEndpoints(), loadDeliveries()]);
+  };
+
+  const startEditing = (endpoint?: WebhookEndpoint) => {
+    setEditingId(endpoint?.id || 'new');
+    setDraft(endpoint
+      ? {
+          ownerEmail: endpoint.ownerEmail || '',
+          url: endpoint.url,
+          description: endpoint.description || '',
+          events: endpoint.events,
+          enabled: endpoint.enabled
+        }
+      : emptyDraft
+    );
+  };
+
+  const toggleEvent = (event: WebhookEventType) => {
+    setDraft(prev => ({
+      ...prev,
+      events: prev.events.includes(event)
+        ? prev.events.filter(e => e !== event)
+        : [...prev.events, event]
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^https:\/\//.test(draft.url.trim())) {
+      setNotification({ type: 'error', title: 'Invalid URL', message: 'Enter the full URL, starting with https://' });
+      return;
+    }
+    if (draft.events.length === 0) {
+      setNotification({ type: 'error', title: 'No events', message: 'Choose at least one event' });
+      return;
+    }
+
+    setBusy('save');
+    try {
+      await adminService.saveWebhookEndpoint(draft, editingId === 'new' ? undefined : editingId || undefined);
+      setEditingId(null);
+      setNotification({ type: 'success', title: 'Webhook saved', message: draft.url.trim() });
+      await loadEndpoints();
+    } catch (err: any) {
+      setNotification({ type: 'error', title: 'Failed to save webhook', message: err.message || 'Please try again.' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    if (!confirm(`Delete the webhook to ${endpoint.url}? Its delivery history will be deleted too.`)) {
+      return;
+    }
+
+    try {
+      await adminService.deleteWebhookEndpoint(endpoint.id);
+      if (filterEndpointId === endpoint.id) setFilterEndpointId('all');
+      await refresh();
+    } catch (err: any) {
+      setNotification({ type: 'error', title: 'Failed to delete webhook', message: err.message || 'Please try again.' });
+    }
+  };
+
+  const handleTest = async (endpoint: WebhookEndpoint) => {
+    setBusy(`test:${endpoint.id}`);
+    try {
+      const status = await adminService.sendTestWebhook(endpoint.id);
+      setNotification(status === 'delivered'
+        ? { type: 'success', title: 'Test event delivered', message: endpoint.url }
+        : { type: 'error', title: 'Test event failed', message: 'See the delivery history for the response.' });
+      await loadDeliveries();
+    } catch (err: any) {
+      setNotification({ type: 'error', title: 'Failed to send test event', message: err.message || 'Please try again.' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleReplay = async (delivery: WebhookDelivery) => {
+    setBusy(`replay:${delivery.id}`);
+    try {
+      const status = await adminService.replayWebhookDelivery(delivery.id);
+      setNotification(status === 'delivered'
+        ? { type: 'success', title: 'Event replayed', message: `${delivery.eventType} delivered to ${delivery.endpointUrl}` }
+        : { type: 'error', title: 'Replay failed', message: 'See the delivery history for the response.' });
+      await loadDeliveries();
+    } catch (err: any) {
+      setNotification({ type: 'error', title: 'Failed to replay event', message: err.message || 'Please try again.' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm';
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Webhooks</h1>
+          <p className="text-gray-400 mt-2">
+            Endpoints notified of generation, credit and payment events on their owner's account.
+            Failed deliveries are retried with backoff.
+          </p>
+        </div>
+        <div className="mt-4 md:mt-0 flex space-x-2">
+          <button
+            onClick={refresh}
+            className="bg-gray-700 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Refresh
+          </button>
+          {editingId === null && (
+            <button
+              onClick={() => startEditing()}
+              className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+            >
+              New Webhook
+            </button>
+          )}
+        </div>
+      </div>
+
+      {notification && (
+        <AlertNotification
+          type={notification.type}
+          title={notification.title}
+          message={notification.message}
+          onClose={() => setNotification(null)}
+          autoClose={true}
+        />
+      )}
+
+      {editingId !== null && (
+        <form onSubmit={handleSave} className="bg-gray-800 rounded-lg border border-gray-700 p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-white">
+            {editingId === 'new' ? 'Register a webhook' : 'Edit webhook'}
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Owner account email</label>
+              <input
+                type="email"
+                required
+                disabled={editingId !== 'new'}
+                value={draft.ownerEmail}
+                onChange={(e) => setDraft({ ...draft, ownerEmail: e.target.value })}
+                placeholder="partner@example.com"
+                className={`${inputClass} disabled:opacity-50`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">URL</label>
+              <input
+                type="url"
+                required
+                value={draft.url}
+                onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                placeholder="https://example.com/webhooks/portraits"
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">Description</label>
+            <input
+              type="text"
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              placeholder="What receives these events"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <span className="block text-sm text-gray-400 mb-2">Events</span>
+            <div className="flex flex-wrap gap-4">
+              {EVENTS.map(event => (
+                <label key={event.value} className="flex items-center space-x-2 text-gray-300 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={draft.events.includes(event.value)}
+                    onChange={() => toggleEvent(event.value)}
+                    className="rounded bg-gray-700 border-gray-600"
+                  />
+                  <span>{event.label} <code className="text-gray-500">{event.value}</code></span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-2 text-gray-400 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+                className="rounded border-gray-600 bg-gray-700 text-purple-600"
+              />
+              <span>Enabled</span>
+            </label>
+            <div className="flex space-x-2">
+              <button
+                type="button"
+                onClick={() => setEditingId(null)}
+                className="bg-gray-700 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={busy === 'save'}
+                className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors text-sm disabled:opacity-50"
+              >
+                {busy === 'save' ? 'Saving...' : 'Save Webhook'}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {/* Endpoints */}
+      <div className="bg-gray-800 rounded-lg border border-gray-700 p-6 space-y-3">
+        <h2 className="text-lg font-semibold text-white">Endpoints</h2>
+        {loading ? (
+          <div className="p-6 flex justify-center">
+            <LoadingSpinner />
+          </div>
+        ) : endpoints.length === 0 ? (
+          <div className="p-6 text-center">
+            <Icon path={iconPaths.webhook} className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+            <p className="text-gray-400">No webhooks registered yet</p>
+          </div>
+        ) : (
+          endpoints.map(endpoint => (
+            <div key={endpoint.id} className="bg-gray-900 rounded-lg border border-gray-700 p-4">
+              <div className="flex items-start justify-between">
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span className={`font-mono text-sm truncate ${endpoint.enabled ? 'text-white' : 'text-gray-500'}`}>
+                      {endpoint.url}
+                    </span>
+                    {!endpoint.enabled && <span className="text-xs text-gray-500">Disabled</span>}
+                  </div>
+                  <p className="text-sm text-gray-400">
+                    {endpoint.ownerEmail || endpoint.ownerId}
+                    {endpoint.apiKeyName && <span className="text-gray-500"> · via API key {endpoint.apiKeyName}</span>}
+                    {endpoint.description && <span className="text-gray-500"> · {endpoint.description}</span>}
+                  </p>
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {endpoint.events.map(event => (
+                      <span key={event} className="px-2 py-0.5 text-xs rounded-full bg-gray-700 text-gray-300">{event}</span>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Signing secret:{' '}
+                    {revealedSecretId === endpoint.id ? (
+                      <span className="font-mono text-gray-300 select-all">{endpoint.signingSecret}</span>
+                    ) : (
+                      <button onClick={() => setRevealedSecretId(endpoint.id)} className="text-purple-500 hover:text-purple-400">
+                        Reveal
+                      </button>
+                    )}
+                  </p>
+                </div>
+                <div className="flex space-x-3 ml-4 text-sm whitespace-nowrap">
+                  <button
+                    onClick={() => handleTest(endpoint)}
+                    disabled={busy === `test:${endpoint.id}`}
+                    className="text-green-500 hover:text-green-400 disabled:opacity-50"
+                  >
+                    {busy === `test:${endpoint.id}` ? 'Sending...' : 'Send test event'}
+                  </button>
+                  <button onClick={() => startEditing(endpoint)} className="text-purple-500 hover:text-purple-400">
+                    Edit
+                  </button>
+                  <button onClick={() => handleDelete(endpoint)} className="text-red-500 hover:text-red-400">
+                    Delete
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Delivery history */}
+      <div className="bg-gray-800 rounded-lg border border-gray-700 p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+          <h2 className="text-lg font-semibold text-white">Delivery History</h2>
+          <div className="flex gap-2">
+            <select
+              value={filterStatus}
+              onChange={(e) => setFilterStatus(e.target.value as WebhookDelivery['status'] | 'all')}
+              className="px-3 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+            >
+              <option value="all">All statuses</option>
+              <option value="delivered">Delivered</option>
+              <option value="pending">Pending</option>
+              <option value="failed">Failed</option>
+            </select>
+            <select
+              value={filterEndpointId}
+              onChange={(e) => setFilterEndpointId(e.target.value)}
+              className="px-3 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm max-w-xs"
+            >
+              <option value="all">All endpoints</option>
+              {endpoints.map(endpoint => (
+                <option key={endpoint.id} value={endpoint.id}>{endpoint.url}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing sent yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700">
+                  <th className="py-2 pr-4">Queued</th>
+                  <th className="py-2 pr-4">Event</th>
+                  <th className="py-2 pr-4">Endpoint</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2 pr-4">Attempts</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.map(delivery => (
+                  <React.Fragment key={delivery.id}>
+                    <tr className="border-b border-gray-700 align-top">
+                      <td className="py-2 pr-4 text-gray-300 whitespace-nowrap">
+                        {format(delivery.createdAt, 'MMM dd, HH:mm:ss')}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-300">
+                        <button
+                          onClick={() => setExpandedDeliveryId(expandedDeliveryId === delivery.id ? null : delivery.id)}
+                          className="font-mono hover:text-white"
+                        >
+                          {delivery.eventType}
+                        </button>
+                        {delivery.replayOf && <span className="text-xs text-gray-500 ml-1">[Replay]</span>}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-300">
+                        <div className="font-mono truncate max-w-xs">{delivery.endpointUrl || 'Deleted endpoint'}</div>
+                        {delivery.ownerEmail && <div className="text-xs text-gray-500">{delivery.ownerEmail}</div>}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${statusStyles[delivery.status]}`}>
+                          {delivery.status}
+                        </span>
+                        {delivery.responseStatus !== null && (
+                          <span className="text-xs text-gray-500 ml-1">HTTP {delivery.responseStatus}</span>
+                        )}
+                        {delivery.lastError && delivery.status !== 'delivered' && (
+                          <div className="text-xs text-red-400 mt-1 max-w-xs break-words">{delivery.lastError}</div>
+                        )}
+                        {delivery.status === 'pending' && delivery.attempts > 0 && (
+                          <div className="text-xs text-gray-500 mt-1">Next try {format(delivery.nextAttemptAt, 'HH:mm')}</div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-300">{delivery.attempts}/{delivery.maxAttempts}</td>
+                      <td className="py-2 text-right">
+                        {delivery.endpointUrl && (
+                          <button
+                            onClick={() => handleReplay(delivery)}
+                            disabled={busy === `replay:${delivery.id}`}
+                            className="text-purple-500 hover:text-purple-400 disabled:opacity-50"
+                          >
+                            {busy === `replay:${delivery.id}` ? 'Sending...' : 'Replay'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {expandedDeliveryId === delivery.id && (
+                      <tr className="border-b border-gray-700">
+                        <td colSpan={6} className="py-2">
+                          <pre className="bg-gray-900 rounded-lg p-3 text-xs text-gray-300 overflow-x-auto">
+                            {JSON.stringify(delivery.payload, null, 2)}
+                          </pre>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Webhooks;
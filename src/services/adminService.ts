@@ -55,6 +55,176 @@ export interface SystemStatus {
   lastUpdate: string;
 }
 
+export interface CreditMismatch {
+  id: string;
+  userId: string;
+  email: string;
+  bucket: 'paid' | 'bonus' | 'subscription';
+  recordedBalance: number;
+  ledgerBalance: number;
+  detectedAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreditReconciliationRun {
+  id: string;
+  startedAt: Date;
+  completedAt: Date | null;
+  usersChecked: number;
+  mismatchesFound: number;
+  unbalancedEntries: number;
+}
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+export type AlertOperator = '>' | '<' | '>=' | '<=' | '=';
+export type AlertStatus = 'open' | 'acknowledged' | 'resolved';
+
+export interface AlertConfig {
+  id: string;
+  name: string | null;
+  description: string | null;
+  metric: string; // alert_type: a system_metrics metric_type or a check_alerts check
+  operator: AlertOperator;
+  threshold: number;
+  windowMinutes: number; // 0 compares each value on its own
+  cooldownMinutes: number;
+  severity: AlertSeverity;
+  channels: string[];
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type AlertConfigInput = Omit<AlertConfig, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface SystemAlert {
+  id: string;
+  configId: string | null; // null for alerts raised directly, e.g. payment disputes
+  name: string | null;
+  metric: string | null;
+  severity: AlertSeverity;
+  status: AlertStatus;
+  message: string;
+  value: number | null;
+  triggeredAt: Date;
+  acknowledgedAt: Date | null;
+  acknowledgedBy: string | null;
+  resolvedAt: Date | null;
+  resolvedBy: string | null;
+  resolutionNote: string | null;
+}
+
+export type AlertChannelType = 'email' | 'slack' | 'webhook';
+
+export interface NotificationChannel {
+  id: string;
+  name: string;
+  type: AlertChannelType;
+  target: string; // email address, or the Slack/webhook URL
+  signingSecret: string; // webhook receivers verify X-Webhook-Signature with this
+  enabled: boolean;
+  createdAt: Date;
+}
+
+export type NotificationChannelInput = Pick<NotificationChannel, 'name' | 'type' | 'target' | 'enabled'>;
+
+export interface AlertDelivery {
+  id: string;
+  alertId: string | null;
+  channelId: string;
+  channelName: string | null;
+  channelType: AlertChannelType | null;
+  isTest: boolean;
+  message: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  responseStatus: number | null;
+  lastError: string | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+}
+
+export type ApiKeyScope = 'shoots:write' | 'shoots:read' | 'catalog:read' | 'webhooks:write';
+
+export interface PartnerApiKey {
+  id: string;
+  name: string;
+  description: string | null;
+  keyPrefix: string; // keys look like wpk_<keyPrefix>_<secret>
+  ownerId: string;
+  ownerEmail: string | null;
+  scopes: ApiKeyScope[];
+  rateLimitPerHour: number;
+  status: 'active' | 'expired' | 'revoked';
+  requestsThisHour: number;
+  requestsLast24h: number;
+  shootsLast24h: number;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  rotatedAt: Date | null;
+  revokedAt: Date | null;
+}
+
+export interface ApiKeyInput {
+  name: string;
+  ownerEmail: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerHour: number;
+  expiresDays: number | null;
+  description: string;
+}
+
+export interface IssuedApiKey {
+  id: string;
+  key: string; // shown once; only its hash is stored
+  keyPrefix: string;
+}
+
+export type WebhookEventType = 'generation.completed' | 'generation.failed' | 'credits.low' | 'payment.succeeded';
+
+export interface WebhookEndpoint {
+  id: string;
+  ownerId: string;
+  ownerEmail: string | null;
+  apiKeyName: string | null; // set when registered through the public API
+  url: string;
+  description: string | null;
+  events: WebhookEventType[];
+  signingSecret: string;
+  enabled: boolean;
+  createdAt: Date;
+}
+
+export interface WebhookEndpointInput {
+  ownerEmail: string;
+  url: string;
+  description: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  endpointUrl: string | null;
+  ownerEmail: string | null;
+  eventId: string | null;
+  eventType: string;
+  payload: Record<string, any>;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  responseStatus: number | null;
+  lastError: string | null;
+  deliveredAt: Date | null;
+  replayOf: string | null;
+  createdAt: Date;
+}
+
 class AdminService {
   private calculateUserStatus(lastLogin: string | null, generationCount: number): 'active' | 'inactive' | 'suspended' {
     // Consider a user active if they've logged in within the last 30 days OR have generated content recently
@@ -97,17 +267,15 @@ class AdminService {
 
       if (userError) {
         console.error('Error checking user role:', userError);
-        // Fallback to email check if we can't query the users table
-        return user.email === 'admin@huybuilds.app';
+        return false;
       }
 
       if (import.meta.env.DEV) console.log('🔍 isAdmin: user role =', userData?.role);
       
       return userData?.role ? ['admin', 'super_admin'].includes(userData.role) : false;
     } catch (error) {
-      // Fallback to email check in case of any errors
-      console.warn('Error checking admin status, using email-based check:', error);
-      return user.email === 'admin@huybuilds.app';
+      console.warn('Error checking admin status:', error);
+      return false;
     }
   }
 
@@ -877,6 +1045,607 @@ class AdminService {
       throw error;
     }
   }
+
+  /**
+   * Latest reconciliation run and the balances that still disagree with the credits ledger
+   */
+  async getCreditReconciliation(): Promise<{
+    lastRun: CreditReconciliationRun | null;
+    mismatches: CreditMismatch[];
+  }> {
+    const isAdminUser = await this.isAdmin();
+    if (!isAdminUser) {
+      throw new Error('Unauthorized: Admin access required');
+    }
+
+    const [{ data: runs, error: runsError }, { data: mismatches, error: mismatchesError }] = await Promise.all([
+      supabase
+        .from('credit_reconciliation_runs')
+        .select('id, started_at, completed_at, users_checked, mismatches_found, unbalanced_entries')
+        .order('started_at', { ascending: false })
+        .limit(1),
+      supabase
+        .from('credit_balance_mismatches')
+        .select('id, user_id, bucket, recorded_balance, ledger_balance, detected_at, updated_at, users(email)')
+        .eq('status', 'open')
+        .order('detected_at', { ascending: false })
+    ]);
+
+    if (runsError) throw runsError;
+    if (mismatchesError) throw mismatchesError;
+
+    const run = runs?.[0];
+
+    return {
+      lastRun: run ? {
+        id: run.id,
+        startedAt: new Date(run.started_at),
+        completedAt: run.completed_at ? new Date(run.completed_at) : null,
+        usersChecked: run.users_checked,
+        mismatchesFound: run.mismatches_found,
+        unbalancedEntries: run.unbalanced_entries
+      } : null,
+      mismatches: (mismatches || []).map((mismatch: any) => ({
+        id: mismatch.id,
+        userId: mismatch.user_id,
+        email: mismatch.users?.email || 'Unknown',
+        bucket: mismatch.bucket,
+        recordedBalance: mismatch.recorded_balance,
+        ledgerBalance: mismatch.ledger_balance,
+        detectedAt: new Date(mismatch.detected_at),
+        updatedAt: new Date(mismatch.updated_at)
+      }))
+    };
+  }
+
+  async runCreditReconciliation(): Promise<{ mismatchesFound: number; unbalancedEntries: number }> {
+    const isAdminUser = await this.isAdmin();
+    if (!isAdminUser) {
+      throw new Error('Unauthorized: Admin access required');
+    }
+
+    const { data, error } = await supabase.rpc('reconcile_credit_balances');
+    if (error) throw error;
+
+    return {
+      mismatchesFound: data.mismatches_found,
+      unbalancedEntries: data.unbalanced_entries
+    };
+  }
+
+  /**
+   * Reset the stored balance to what the ledger says it should be
+   */
+  async correctCreditMismatch(mismatchId: string): Promise<boolean> {
+    const isAdminUser = await this.isAdmin();
+    if (!isAdminUser) {
+      throw new Error('Unauthorized: Admin access required');
+    }
+
+    const { data, error } = await supabase.rpc('correct_credit_mismatch', { p_mismatch_id: mismatchId });
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to correct balance');
+    }
+
+    return true;
+  }
+
+  async getAlerts(status: AlertStatus | 'all' = 'all', limit: number = 100): Promise<SystemAlert[]> {
+    const isAdminUser = await this.isAdmin();
+    if (!isAdminUser) {
+      throw new Error('Unauthorized: Admin access required');
+    }
+
+    let query = supabase
+      .from('alert_history')
+      .select(`
+        id, alert_config_id, alert_value, alert_message, metadata, triggered_at,
+        acknowledged_at, resolved_at, resolution_note,
+        alert_configs (name, alert_type, severity),
+        acknowledger:users!alert_history_acknowledged_by_user_id_fkey (email),
+        resolver:users!alert_history_resolved_by_fkey (email)
+      `)
+      .order('triggered_at', { ascending: false })
+      .limit(limit);
+
+    if (status === 'open') {
+      query = query.is('resolved_at', null).is('acknowledged_at', null);
+    } else if (status === 'acknowledged') {
+      query = query.is('resolved_at', null).not('acknowledged_at', 'is', null);
+    } else if (status === 'resolved') {
+      query = query.not('resolved_at', 'is', null);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      configId: row.alert_config_id,
+      name: row.alert_configs?.name || null,
+      metric: row.alert_configs?.alert_type || null,
+      severity: row.metadata?.severity || row.alert_configs?.severity || 'warning',
+      status: row.resolved_at ? 'resolved' : row.acknowledged_at ? 'acknowledged' : 'open',
+      message: row.alert_message,
+      value: row.alert_value !== null ? Number(row.alert_value) : null,
+      triggeredAt: new Date(row.triggered_at),
+      acknowledgedAt: row.acknowledged_at ? new Date(row.acknowledged_at) : null,
+      acknowledgedBy: row.acknowledger?.email || null,
+      resolvedAt: row.resolved_at ? new Date(row.resolved_at) : null,
+      resolvedBy: row.resolver?.email || null,
+      resolutionNote: row.resolution_note
+    }));
+  }
+
+  async acknowledgeAlert(alertId: string): Promise<void> {
+    const { data, error } = await supabase.rpc('acknowledge_alert', { p_alert_id: alertId });
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to acknowledge alert');
+    }
+  }
+
+  async resolveAlert(alertId: string, note?: string): Promise<void> {
+    const { data, error } = await supabase.rpc('resolve_alert', {
+      p_alert_id: alertId,
+      p_note: note || null
+    });
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to resolve alert');
+    }
+  }
+
+  async getAlertConfigs(): Promise<AlertConfig[]> {
+    const isAdminUser = await this.isAdmin();
+    if (!isAdminUser) {
+      throw new Error('Unauthorized: Admin access required');
+    }
+
+    const { data, error } = await supabase
+      .from('alert_configs')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      metric: row.alert_type,
+      operator: row.comparison_operator,
+      threshold: Number(row.threshold_value),
+      windowMinutes: row.window_minutes,
+      cooldownMinutes: row.cooldown_minutes,
+      severity: row.severity,
+      channels: row.alert_channels || [],
+      enabled: row.enabled,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    }));
+  }
+
+  /**
+   * Create an alert rule, or update it when an id is given
+   */
+  async saveAlertConfig(config: AlertConfigInput, id?: string): Promise<void> {
+    const row = {
+      name: config.name?.trim() || null,
+      description: config.description?.trim() || null,
+      alert_type: config.metric.trim(),
+      comparison_operator: config.operator,
+      threshold_value: config.threshold,
+      window_minutes: config.windowMinutes,
+      cooldown_minutes: config.cooldownMinutes,
+      severity: config.severity,
+      alert_channels: config.channels,
+      enabled: config.enabled,
+      updated_at: new Date().toISOString()
+    };
+
+    if (id) {
+      const { error } = await supabase.from('alert_configs').update(row).eq('id', id);
+      if (error) throw error;
+      return;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from('alert_configs')
+      .insert({ ...row, created_by: user?.id || null });
+    if (error) throw error;
+  }
+
+  /**
+   * Deleting a rule also deletes the alerts it raised
+   */
+  async deleteAlertConfig(id: string): Promise<void> {
+    const { error } = await supabase.from('alert_configs').delete().eq('id', id);
+    if (error) throw error;
+  }
+
+  async getNotificationChannels(): Promise<NotificationChannel[]> {
+    const isAdminUser = await this.isAdmin();
+    if (!isAdminUser) {
+      throw new Error('Unauthorized: Admin access required');
+    }
+
+    const { data, error } = await supabase
+      .from('alert_notification_channels')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      id: row.id,
+      name: row.name,
+      type: row.channel_type,
+      target: row.target,
+      signingSecret: row.signing_secret,
+      enabled: row.enabled,
+      createdAt: new Date(row.created_at)
+    }));
+  }
+
+  /**
+   * Create a notification channel, or update it when an id is given
+   */
+  async saveNotificationChannel(channel: NotificationChannelInput, id?: string): Promise<void> {
+    const row = {
+      name: channel.name.trim(),
+      channel_type: channel.type,
+      target: channel.target.trim(),
+      enabled: channel.enabled,
+      updated_at: new Date().toISOString()
+    };
+
+    if (id) {
+      const { error } = await supabase.from('alert_notification_channels').update(row).eq('id', id);
+      if (error) throw error;
+      return;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from('alert_notification_channels')
+      .insert({ ...row, created_by: user?.id || null });
+    if (error) throw error;
+  }
+
+  async deleteNotificationChannel(id: string): Promise<void> {
+    const { error } = await supabase.from('alert_notification_channels').delete().eq('id', id);
+    if (error) throw error;
+  }
+
+  async getAlertDeliveries(limit: number = 50): Promise<AlertDelivery[]> {
+    const isAdminUser = await this.isAdmin();
+    if (!isAdminUser) {
+      throw new Error('Unauthorized: Admin access required');
+    }
+
+    const { data, error } = await supabase
+      .from('alert_deliveries')
+      .select('*, alert_notification_channels (name, channel_type)')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      alertId: row.alert_id,
+      channelId: row.channel_id,
+      channelName: row.alert_notification_channels?.name || null,
+      channelType: row.alert_notification_channels?.channel_type || null,
+      isTest: row.is_test,
+      message: row.payload?.alert?.message || '',
+      status: row.status,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      nextAttemptAt: new Date(row.next_attempt_at),
+      responseStatus: row.response_status,
+      lastError: row.last_error,
+      deliveredAt: row.delivered_at ? new Date(row.delivered_at) : null,
+      createdAt: new Date(row.created_at)
+    }));
+  }
+
+  /**
+   * Send a test alert to a channel; the returned status says whether it arrived
+   */
+  async sendTestAlert(channelId: string): Promise<AlertDelivery['status']> {
+    const data = await this.callAlertNotifications({ action: 'test', channel_id: channelId });
+    return data.delivery.status;
+  }
+
+  async retryAlertDelivery(deliveryId: string): Promise<AlertDelivery['status']> {
+    const data = await this.callAlertNotifications({ action: 'retry', delivery_id: deliveryId });
+    return data.delivery.status;
+  }
+
+  // Sending needs the channel secrets, so it runs in the alert-notifications function
+  private async callAlertNotifications(body: Record<string, string>): Promise<any> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      throw new Error('No valid session found');
+    }
+
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
+    const response = await fetch(`${supabaseUrl}/functions/v1/alert-notifications`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to send alert notification');
+    }
+    return data;
+  }
+
+  /**
+   * Partner keys for the public API with their usage; the older internal
+   * service keys are not listed
+   */
+  async getApiKeys(): Promise<PartnerApiKey[]> {
+    const isAdminUser = await this.isAdmin();
+    if (!isAdminUser) {
+      throw new Error('Unauthorized: Admin access required');
+    }
+
+    const [{ data, error }, { data: usage, error: usageError }] = await Promise.all([
+      supabase
+        .from('api_keys')
+        .select('id, key_name, description, key_prefix, user_id, permissions, rate_limit_per_hour, is_active, created_at, last_used_at, expires_at, rotated_at, revoked_at, users!api_keys_user_id_fkey (email)')
+        .not('user_id', 'is', null)
+        .order('created_at', { ascending: false }),
+      supabase.rpc('get_api_key_usage', { p_hours: 24 })
+    ]);
+
+    if (error) throw error;
+    if (usageError) throw usageError;
+
+    const usageByKey = new Map<string, any>((usage || []).map((row: any) => [row.api_key_id, row]));
+    const now = Date.now();
+
+    return (data || []).map((row: any) => {
+      const keyUsage = usageByKey.get(row.id);
+      const expired = row.expires_at && new Date(row.expires_at).getTime() <= now;
+      return {
+        id: row.id,
+        name: row.key_name,
+        description: row.description,
+        keyPrefix: row.key_prefix,
+        ownerId: row.user_id,
+        ownerEmail: row.users?.email || null,
+        scopes: row.permissions || [],
+        rateLimitPerHour: row.rate_limit_per_hour,
+        status: row.revoked_at || !row.is_active ? 'revoked' : expired ? 'expired' : 'active',
+        requestsThisHour: keyUsage?.current_hour || 0,
+        requestsLast24h: Number(keyUsage?.requests || 0),
+        shootsLast24h: Number(keyUsage?.shoots || 0),
+        createdAt: new Date(row.created_at),
+        lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : null,
+        expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+        rotatedAt: row.rotated_at ? new Date(row.rotated_at) : null,
+        revokedAt: row.revoked_at ? new Date(row.revoked_at) : null
+      };
+    });
+  }
+
+  /**
+   * Issue a key for the account with the given email; its shoots spend that account's credits
+   */
+  async issueApiKey(input: ApiKeyInput): Promise<IssuedApiKey> {
+    const ownerId = await this.findUserIdByEmail(input.ownerEmail);
+
+    const { data, error } = await supabase.rpc('issue_api_key', {
+      p_name: input.name,
+      p_user_id: ownerId,
+      p_scopes: input.scopes,
+      p_rate_limit_per_hour: input.rateLimitPerHour,
+      p_expires_days: input.expiresDays,
+      p_description: input.description
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to issue API key');
+    }
+
+    return { id: data.id, key: data.key, keyPrefix: data.key_prefix };
+  }
+
+  /**
+   * Replace a key's secret; the old key stops working immediately
+   */
+  async rotateApiKey(keyId: string): Promise<IssuedApiKey> {
+    const { data, error } = await supabase.rpc('rotate_api_key', { p_key_id: keyId });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to rotate API key');
+    }
+
+    return { id: data.id, key: data.key, keyPrefix: data.key_prefix };
+  }
+
+  async revokeApiKey(keyId: string): Promise<void> {
+    const { data, error } = await supabase.rpc('revoke_api_key', { p_key_id: keyId });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to revoke API key');
+    }
+  }
+
+  private async findUserIdByEmail(email: string): Promise<string> {
+    const { data: owner, error } = await supabase
+      .from('users')
+      .select('id')
+      .ilike('email', email.trim())
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!owner) {
+      throw new Error(`No account found for ${email.trim()}`);
+    }
+    return owner.id;
+  }
+
+  async getWebhookEndpoints(): Promise<WebhookEndpoint[]> {
+    const isAdminUser = await this.isAdmin();
+    if (!isAdminUser) {
+      throw new Error('Unauthorized: Admin access required');
+    }
+
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .select('*, users!webhook_endpoints_user_id_fkey (email), api_keys (key_name)')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      ownerId: row.user_id,
+      ownerEmail: row.users?.email || null,
+      apiKeyName: row.api_keys?.key_name || null,
+      url: row.url,
+      description: row.description,
+      events: row.events || [],
+      signingSecret: row.signing_secret,
+      enabled: row.enabled,
+      createdAt: new Date(row.created_at)
+    }));
+  }
+
+  /**
+   * Register an endpoint for the account with the given email, or update it
+   * when an id is given (the owner can't be changed)
+   */
+  async saveWebhookEndpoint(endpoint: WebhookEndpointInput, id?: string): Promise<void> {
+    const row = {
+      url: endpoint.url.trim(),
+      description: endpoint.description.trim() || null,
+      events: endpoint.events,
+      enabled: endpoint.enabled,
+      updated_at: new Date().toISOString()
+    };
+
+    // The table only accepts https:// URLs on public hosts
+    const toError = (error: { code?: string }) => error.code === '23514'
+      ? new Error('The URL must be https:// on a public host, not a local or private address')
+      : error;
+
+    if (id) {
+      const { error } = await supabase.from('webhook_endpoints').update(row).eq('id', id);
+      if (error) throw toError(error);
+      return;
+    }
+
+    const ownerId = await this.findUserIdByEmail(endpoint.ownerEmail);
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from('webhook_endpoints')
+      .insert({ ...row, user_id: ownerId, created_by: user?.id || null });
+    if (error) throw toError(error);
+  }
+
+  async deleteWebhookEndpoint(id: string): Promise<void> {
+    const { error } = await supabase.from('webhook_endpoints').delete().eq('id', id);
+    if (error) throw error;
+  }
+
+  async getWebhookDeliveries(filters: {
+    status?: WebhookDelivery['status'];
+    endpointId?: string;
+    limit?: number;
+  } = {}): Promise<WebhookDelivery[]> {
+    const isAdminUser = await this.isAdmin();
+    if (!isAdminUser) {
+      throw new Error('Unauthorized: Admin access required');
+    }
+
+    let query = supabase
+      .from('webhook_deliveries')
+      .select('*, webhook_endpoints (url, users!webhook_endpoints_user_id_fkey (email))')
+      .order('created_at', { ascending: false })
+      .limit(filters.limit || 100);
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+    if (filters.endpointId) {
+      query = query.eq('endpoint_id', filters.endpointId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      endpointId: row.endpoint_id,
+      endpointUrl: row.webhook_endpoints?.url || null,
+      ownerEmail: row.webhook_endpoints?.users?.email || null,
+      eventId: row.event_id,
+      eventType: row.event_type,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      nextAttemptAt: new Date(row.next_attempt_at),
+      responseStatus: row.response_status,
+      lastError: row.last_error,
+      deliveredAt: row.delivered_at ? new Date(row.delivered_at) : null,
+      replayOf: row.replay_of,
+      createdAt: new Date(row.created_at)
+    }));
+  }
+
+  async sendTestWebhook(endpointId: string): Promise<WebhookDelivery['status']> {
+    const data = await this.callWebhooks({ action: 'test', endpoint_id: endpointId });
+    return data.delivery.status;
+  }
+
+  /**
+   * Send a past delivery again as a new delivery with the same event
+   */
+  async replayWebhookDelivery(deliveryId: string): Promise<WebhookDelivery['status']> {
+    const data = await this.callWebhooks({ action: 'replay', delivery_id: deliveryId });
+    return data.delivery.status;
+  }
+
+  // Sending needs the endpoint secrets, so it runs in the webhooks function
+  private async callWebhooks(body: Record<string, string>): Promise<any> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      throw new Error('No valid session found');
+    }
+
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
+    const response = await fetch(`${supabaseUrl}/functions/v1/webhooks`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to send webhook');
+    }
+    return data;
+  }
 }
 
 export const adminService = new AdminService();
\ No newline at end of file
@@ -0,0 +1,100 @@
+// Authorizes admin edge function requests against the permission catalogue
+// (admin_permissions, see the admin_rbac migration). Roles grant permissions by
+// default and admin_users.permissions overrides them per admin; get_admin_access
+// resolves both, so functions only ask for the permission they need.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export type AdminRole = 'super_admin' | 'admin' | 'viewer'
+
+export const ADMIN_PERMISSIONS = [
+  'dashboard.view',
+  'users.view',
+  'users.edit',
+  'users.suspend',
+  'users.delete',
+  'credits.grant',
+  'export.data',
+  'export.pii',
+  'packages.edit',
+  'themes.edit',
+  'pricing.edit',
+  'prompts.edit',
+  'promotions.edit',
+  'alerts.manage',
+  'api_keys.manage',
+  'webhooks.manage',
+  'admins.manage'
+] as const
+
+export type AdminPermission = typeof ADMIN_PERMISSIONS[number]
+
+export interface AdminContext {
+  adminId: string | null // admin_users row; null for admins that only have users.role
+  userId: string
+  email: string | null
+  role: AdminRole
+  permissions: AdminPermission[]
+}
+
+export type AdminAuthResult =
+  | { admin: AdminContext }
+  | { error: string; status: 401 | 403 }
+
+export const hasPermission = (admin: AdminContext, permission: AdminPermission): boolean =>
+  admin.permissions.includes(permission)
+
+/**
+ * The admin context of a user, or null if they are not an admin.
+ */
+export const getAdminContext = async (
+  supabase: SupabaseClient,
+  userId: string,
+  email: string | null = null
+): Promise<AdminContext | null> => {
+  const { data: access, error } = await supabase.rpc('get_admin_access', { p_user_id: userId })
+  if (error) {
+    console.error('Admin access lookup failed:', error)
+    return null
+  }
+  if (!access) return null
+
+  return {
+    adminId: access.admin_id,
+    userId,
+    email,
+    role: access.role,
+    permissions: access.permissions
+  }
+}
+
+/**
+ * Resolves the admin behind the request's bearer token. With a permission,
+ * admins that lack it are refused too. The client must use the service role.
+ */
+export const authorizeAdmin = async (
+  supabase: SupabaseClient,
+  req: Request,
+  permission?: AdminPermission
+): Promise<AdminAuthResult> => {
+  const authHeader = req.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) {
+    return { error: 'Missing authorization header', status: 401 }
+  }
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+  if (authError || !user) {
+    return { error: 'Invalid or expired session', status: 401 }
+  }
+
+  const admin = await getAdminContext(supabase, user.id, user.email ?? null)
+  if (!admin) {
+    return { error: 'Access denied: Admin privileges required', status: 403 }
+  }
+
+  if (permission && !hasPermission(admin, permission)) {
+    return { error: `Insufficient permissions: ${permission} required`, status: 403 }
+  }
+
+  return { admin }
+}
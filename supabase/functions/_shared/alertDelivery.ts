@@ -0,0 +1,291 @@
+// Delivers queued alert notifications (alert_deliveries) to email, Slack and
+// signed webhook channels, retrying failures with exponential backoff.
+//
+// Set ALERT_CAPTURE_URL to send every notification to a capture sink instead
+// of its real destination (see /api/dev/alert-capture in server/dev-server.js).
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { SIGNATURE_HEADER, signPayload } from './webhookSignature.ts'
+
+export type AlertChannelType = 'email' | 'slack' | 'webhook'
+
+export interface AlertChannel {
+  id: string
+  name: string
+  channel_type: AlertChannelType
+  target: string
+  signing_secret: string
+  enabled: boolean
+}
+
+export interface AlertPayload {
+  event: string
+  alert: {
+    id: string | null
+    name: string
+    metric: string | null
+    severity: string
+    message: string
+    value: number | null
+    triggered_at: string
+  }
+}
+
+export interface AlertDelivery {
+  id: string
+  alert_id: string | null
+  channel_id: string
+  is_test: boolean
+  payload: AlertPayload
+  status: 'pending' | 'delivered' | 'failed'
+  attempts: number
+  max_attempts: number
+  next_attempt_at: string
+  response_status: number | null
+  last_error: string | null
+  delivered_at: string | null
+}
+
+interface SendResult {
+  ok: boolean
+  status: number | null
+  error: string | null
+}
+
+const SITE_URL = Deno.env.get('SITE_URL') || 'http://localhost:5173'
+const REQUEST_TIMEOUT_MS = 10000
+
+const subjectFor = (payload: AlertPayload): string => {
+  const prefix = payload.event === 'alert.test' ? '[Test] ' : ''
+  return `${prefix}[${payload.alert.severity.toUpperCase()}] ${payload.alert.name}`
+}
+
+const textFor = (payload: AlertPayload): string => [
+  payload.alert.message,
+  `Severity: ${payload.alert.severity}`,
+  `Triggered: ${new Date(payload.alert.triggered_at).toUTCString()}`,
+  `Review alerts: ${SITE_URL}/admin/alerts`
+].join('\n')
+
+const post = async (url: string, body: string, headers: Record<string, string>): Promise<SendResult> => {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    })
+    const error = response.ok ? null : `HTTP ${response.status}: ${(await response.text()).slice(0, 500)}`
+    return { ok: response.ok, status: response.status, error }
+  } catch (error) {
+    return { ok: false, status: null, error: error.message || String(error) }
+  }
+}
+
+const sendEmail = async (channel: AlertChannel, payload: AlertPayload): Promise<SendResult> => {
+  const apiKey = Deno.env.get('RESEND_API_KEY')
+  if (!apiKey) {
+    return { ok: false, status: null, error: 'RESEND_API_KEY is not set' }
+  }
+
+  return post('https://api.resend.com/emails', JSON.stringify({
+    from: Deno.env.get('ALERT_FROM_EMAIL') || Deno.env.get('RECEIPT_FROM_EMAIL') || 'AI Wedding Portraits <alerts@example.com>',
+    to: [channel.target],
+    subject: subjectFor(payload),
+    text: textFor(payload)
+  }), { 'Authorization': `Bearer ${apiKey}` })
+}
+
+const sendSlack = (channel: AlertChannel, payload: AlertPayload): Promise<SendResult> =>
+  post(channel.target, JSON.stringify({
+    text: `*${subjectFor(payload)}*\n${textFor(payload)}`
+  }), {})
+
+const sendWebhook = async (channel: AlertChannel, payload: AlertPayload, deliveryId: string): Promise<SendResult> => {
+  const body = JSON.stringify({ ...payload, delivery_id: deliveryId })
+  return post(channel.target, body, {
+    [SIGNATURE_HEADER]: await signPayload(channel.signing_secret, body),
+    'X-Webhook-Event': payload.event,
+    'X-Webhook-Delivery': deliveryId
+  })
+}
+
+// Everything the real send would have delivered, for inspecting locally
+const sendToCapture = (captureUrl: string, channel: AlertChannel, payload: AlertPayload, deliveryId: string): Promise<SendResult> =>
+  post(captureUrl, JSON.stringify({
+    delivery_id: deliveryId,
+    channel: { id: channel.id, name: channel.name, type: channel.channel_type, target: channel.target },
+    subject: subjectFor(payload),
+    text: textFor(payload),
+    payload
+  }), {})
+
+const send = (channel: AlertChannel, delivery: AlertDelivery): Promise<SendResult> => {
+  const captureUrl = Deno.env.get('ALERT_CAPTURE_URL')
+  if (captureUrl) {
+    return sendToCapture(captureUrl, channel, delivery.payload, delivery.id)
+  }
+
+  switch (channel.channel_type) {
+    case 'email':
+      return sendEmail(channel, delivery.payload)
+    case 'slack':
+      return sendSlack(channel, delivery.payload)
+    case 'webhook':
+      return sendWebhook(channel, delivery.payload, delivery.id)
+  }
+}
+
+// 1, 2, 4, 8... minutes after each failed attempt
+const backoffMs = (attempts: number): number => Math.pow(2, attempts - 1) * 60 * 1000
+
+const recordResult = async (
+  supabase: SupabaseClient,
+  delivery: AlertDelivery,
+  result: SendResult,
+  retryable: boolean
+): Promise<AlertDelivery> => {
+  const attempts = delivery.attempts + 1
+  const now = new Date()
+  const status = result.ok ? 'delivered' : retryable && attempts < delivery.max_attempts ? 'pending' : 'failed'
+
+  if (!result.ok) {
+    console.error(`Alert delivery ${delivery.id} attempt ${attempts} failed:`, result.error)
+  }
+
+  const { data, error } = await supabase
+    .from('alert_deliveries')
+    .update({
+      status,
+      attempts,
+      response_status: result.status,
+      last_error: result.error,
+      delivered_at: result.ok ? now.toISOString() : null,
+      next_attempt_at: new Date(now.getTime() + (status === 'pending' ? backoffMs(attempts) : 0)).toISOString(),
+      updated_at: now.toISOString()
+    })
+    .eq('id', delivery.id)
+    .select()
+    .single()
+
+  if (error) {
+    console.error(`Failed to record alert delivery ${delivery.id}:`, error)
+    return { ...delivery, status, attempts }
+  }
+
+  return data
+}
+
+/**
+ * Send one delivery and record the outcome. Failures are retried until
+ * max_attempts, after which the delivery is marked failed.
+ */
+export const deliver = async (
+  supabase: SupabaseClient,
+  delivery: AlertDelivery,
+  channel: AlertChannel | null
+): Promise<AlertDelivery> => {
+  if (!channel) {
+    return recordResult(supabase, delivery, { ok: false, status: null, error: 'Channel no longer exists' }, false)
+  }
+  return recordResult(supabase, delivery, await send(channel, delivery), true)
+}
+
+/**
+ * Send every delivery that is due: new alerts and retries whose backoff has passed
+ */
+export const deliverDueAlerts = async (
+  supabase: SupabaseClient,
+  limit = 50
+): Promise<{ delivered: number; failed: number; retrying: number }> => {
+  const { data: due, error } = await supabase.rpc('claim_alert_deliveries', { p_limit: limit })
+  if (error) throw error
+
+  const counts = { delivered: 0, failed: 0, retrying: 0 }
+  if (!due || due.length === 0) return counts
+
+  const channelIds = [...new Set((due as AlertDelivery[]).map(delivery => delivery.channel_id))]
+  const { data: channels } = await supabase
+    .from('alert_notification_channels')
+    .select('*')
+    .in('id', channelIds)
+
+  const channelsById = new Map<string, AlertChannel>((channels || []).map((channel: AlertChannel) => [channel.id, channel]))
+
+  for (const delivery of due as AlertDelivery[]) {
+    const channel = channelsById.get(delivery.channel_id) || null
+    // Disabled after the alert was queued
+    const result = channel && !channel.enabled
+      ? await recordResult(supabase, delivery, { ok: false, status: null, error: 'Channel is disabled' }, false)
+      : await deliver(supabase, delivery, channel)
+    if (result.status === 'delivered') counts.delivered++
+    else if (result.status === 'failed') counts.failed++
+    else counts.retrying++
+  }
+
+  return counts
+}
+
+/**
+ * Queue and immediately send a test alert to one channel
+ */
+export const sendTestAlert = async (supabase: SupabaseClient, channelId: string): Promise<AlertDelivery> => {
+  const { data: channel, error: channelError } = await supabase
+    .from('alert_notification_channels')
+    .select('*')
+    .eq('id', channelId)
+    .single()
+
+  if (channelError || !channel) {
+    throw new Error('Channel not found')
+  }
+
+  const payload: AlertPayload = {
+    event: 'alert.test',
+    alert: {
+      id: null,
+      name: 'Test alert',
+      metric: null,
+      severity: 'info',
+      message: `Test alert for ${channel.name}. If you can read this, the channel works.`,
+      value: null,
+      triggered_at: new Date().toISOString()
+    }
+  }
+
+  // A test is a single attempt: it reports whether the channel works right now
+  const { data: delivery, error } = await supabase
+    .from('alert_deliveries')
+    .insert({ channel_id: channel.id, is_test: true, payload, max_attempts: 1 })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  return deliver(supabase, delivery, channel)
+}
+
+/**
+ * Send a failed or pending delivery again now, with a fresh set of attempts
+ */
+export const retryDelivery = async (supabase: SupabaseClient, deliveryId: string): Promise<AlertDelivery> => {
+  const { data: delivery, error } = await supabase
+    .from('alert_deliveries')
+    .update({ status: 'pending', attempts: 0, updated_at: new Date().toISOString() })
+    .eq('id', deliveryId)
+    .neq('status', 'delivered')
+    .select()
+    .single()
+
+  if (error || !delivery) {
+    throw new Error('Delivery not found or already delivered')
+  }
+
+  const { data: channel } = await supabase
+    .from('alert_notification_channels')
+    .select('*')
+    .eq('id', delivery.channel_id)
+    .maybeSingle()
+
+  return deliver(supabase, delivery, channel)
+}
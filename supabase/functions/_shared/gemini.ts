@@ -0,0 +1,77 @@
+// Gemini image generation provider
+
+import type { ImageGenerationProvider, ImageGenerationResult } from './imageProvider.ts'
+
+const GEMINI_MODEL_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-image-preview:generateContent'
+
+// Finish reasons Gemini uses when it refuses to produce an image
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII']
+
+export const geminiProvider: ImageGenerationProvider = {
+  name: 'gemini',
+
+  async generate(image, prompt, options = {}): Promise<ImageGenerationResult> {
+    const apiKey = Deno.env.get('GEMINI_API_KEY')!
+
+    const requestBody = {
+      contents: [{
+        parts: [
+          ...[image, ...(options.referenceImages || [])].map(source => ({
+            inlineData: {
+              mimeType: source.mimeType,
+              data: source.data
+            }
+          })),
+          {
+            text: prompt
+          }
+        ]
+      }],
+      generationConfig: {
+        responseModalities: ['IMAGE', 'TEXT']
+      }
+    }
+
+    const response = await fetch(`${GEMINI_MODEL_URL}?key=${apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(requestBody)
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('Gemini API error:', response.status, errorText)
+      throw new Error(`Gemini API error: ${response.status} - ${errorText}`)
+    }
+
+    const result = await response.json()
+
+    // Extract image and text from response
+    const generated: ImageGenerationResult = {
+      imageUrl: null,
+      text: null,
+      safety: { blocked: false },
+      provider: 'gemini'
+    }
+
+    const candidate = result.candidates?.[0]
+    for (const part of candidate?.content?.parts || []) {
+      if (part.text) {
+        generated.text = part.text
+      } else if (part.inlineData) {
+        generated.imageUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`
+      }
+    }
+
+    const blockReason = result.promptFeedback?.blockReason
+      || (SAFETY_FINISH_REASONS.includes(candidate?.finishReason) ? candidate.finishReason : undefined)
+
+    if (blockReason || !generated.imageUrl) {
+      generated.safety = { blocked: true, reason: blockReason || 'No image returned' }
+    }
+
+    return generated
+  }
+}
@@ -0,0 +1,547 @@
+// Background photo shoots: a shoot is accepted once, its styles are generated
+// server-side by a small worker pool, and callers poll for progress. Used by
+// the generation-jobs function (signed-in users) and the public API (API keys).
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4'
+import { UNSAFE_CONTENT_MESSAGE } from './imageProvider.ts'
+import { generateVerifiedPortrait, recordIdentityCheck } from './identityCheck.ts'
+import { storePortrait, asUuid, decodeDataUrl, PORTRAITS_BUCKET } from './portraitStorage.ts'
+import {
+  checkRateLimit,
+  generateRequestHash,
+  getUserType,
+  recordGenerationRequest,
+  updateGenerationRequest
+} from './rateLimits.ts'
+
+// Supabase edge runtime keeps the worker alive for promises handed to waitUntil
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined
+
+// Job processing configuration
+export const MAX_STYLES_PER_JOB = 6
+const MAX_ATTEMPTS_PER_STYLE = 2
+const STALE_AFTER_SECONDS = 180 // a style still "processing" after this long lost its worker
+const WORKER_CONCURRENCY = 3
+const SIGNED_URL_TTL_SECONDS = 60 * 60
+
+export interface JobStyleInput {
+  style: string
+  prompt: string
+  themeId?: string
+}
+
+export interface CreateJobInput {
+  imageData: string // base64 encoded image
+  imageType: string // mime type
+  styles: JobStyleInput[]
+  photoType?: 'single' | 'couple' | 'family'
+  generationId?: string
+  sessionId?: string
+  packageId?: string
+  usageId?: string
+  apiKeyId?: string // set for shoots created through the public API
+  organizationId?: string | null // team wallet that pays for the shoot
+  clientIp?: string
+  userAgent?: string | null
+}
+
+export type CreateJobResult =
+  | { ok: true; jobId: string }
+  | { ok: false; status: number; error: string }
+
+export interface JobView {
+  job: {
+    id: string
+    status: string
+    generation_id: string | null
+    photo_type: string
+    total_styles: number
+    completed_styles: number
+    failed_styles: number
+    credits_reserved: number
+    credits_refunded: number
+    created_at: string
+    completed_at: string | null
+  }
+  items: Array<{
+    id: string
+    style: string
+    theme_id: string | null
+    status: string
+    attempts: number
+    portrait_id: string | null
+    text: string | null
+    identity_score: number | null
+    identity_flagged: boolean
+    error: string | null
+    image_url: string | null
+  }>
+}
+
+/**
+ * Run work after the response is sent; falls back to fire-and-forget locally
+ */
+export const runInBackground = (promise: Promise<unknown>) => {
+  const guarded = promise.catch(error => console.error('Background job processing error:', error))
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(guarded)
+  }
+}
+
+const loadSourceImage = async (supabase: SupabaseClient, job: any): Promise<{ base64: string; mimeType: string }> => {
+  const { data, error } = await supabase.storage.from(PORTRAITS_BUCKET).download(job.source_path)
+  if (error || !data) {
+    throw new Error(`Failed to load source image: ${error?.message || 'not found'}`)
+  }
+
+  const bytes = new Uint8Array(await data.arrayBuffer())
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+
+  return { base64: btoa(binary), mimeType: job.source_mime_type || data.type || 'image/jpeg' }
+}
+
+/**
+ * Claim and generate styles until none are left, then close the job
+ */
+export const processJob = async (supabase: SupabaseClient, jobId: string) => {
+  const { data: job, error } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single()
+
+  if (error || !job) {
+    console.error('Generation job not found:', jobId, error)
+    return
+  }
+
+  let source: { base64: string; mimeType: string }
+  try {
+    source = await loadSourceImage(supabase, job)
+  } catch (sourceError) {
+    const message = sourceError instanceof Error ? sourceError.message : 'Source image unavailable'
+    await supabase
+      .from('generation_job_items')
+      .update({ status: 'failed', error_message: message, completed_at: new Date().toISOString() })
+      .eq('job_id', jobId)
+      .in('status', ['pending', 'processing'])
+    await finalizeJob(supabase, job)
+    return
+  }
+
+  const worker = async () => {
+    while (true) {
+      const { data: claimed, error: claimError } = await supabase.rpc('claim_next_job_item', { p_job_id: jobId })
+      if (claimError) {
+        console.error('Failed to claim job item:', claimError)
+        return
+      }
+
+      const item = Array.isArray(claimed) ? claimed[0] : claimed
+      if (!item) return
+
+      const startTime = Date.now()
+      if (item.generation_request_id) {
+        await updateGenerationRequest(supabase, item.generation_request_id, 'processing')
+      }
+
+      try {
+        const { identity, ...result } = await generateVerifiedPortrait(source.base64, source.mimeType, item.prompt, { style: item.style })
+        const stored = result.imageUrl
+          ? await storePortrait(supabase, job.user_id, result.imageUrl, {
+              style: item.style,
+              photoType: job.photo_type,
+              generationId: job.generation_id,
+              usageId: job.package_usage_id,
+              packageId: job.package_id,
+              themeId: item.theme_id,
+              modelText: result.text
+            })
+          : null
+
+        if (!stored) {
+          throw new Error('Generated image could not be saved')
+        }
+
+        await supabase
+          .from('generation_job_items')
+          .update({
+            status: 'completed',
+            portrait_id: stored.id,
+            model_text: result.text,
+            identity_score: identity?.score ?? null,
+            identity_flagged: identity?.flagged ?? false,
+            error_message: null,
+            completed_at: new Date().toISOString()
+          })
+          .eq('id', item.id)
+
+        if (item.generation_request_id) {
+          await updateGenerationRequest(supabase, item.generation_request_id, 'completed', Date.now() - startTime)
+        }
+
+        await recordIdentityCheck(supabase, identity, {
+          style: item.style,
+          userId: job.user_id,
+          portraitId: stored.id,
+          jobItemId: item.id,
+          generationId: job.generation_id,
+          packageId: job.package_id,
+          themeId: item.theme_id
+        })
+      } catch (generationError) {
+        const message = generationError instanceof Error ? generationError.message : 'Unknown error'
+        const retry = item.attempts < MAX_ATTEMPTS_PER_STYLE && message !== UNSAFE_CONTENT_MESSAGE
+        console.error(`Job ${jobId} style "${item.style}" failed (attempt ${item.attempts}):`, message)
+
+        await supabase
+          .from('generation_job_items')
+          .update({
+            status: retry ? 'pending' : 'failed',
+            error_message: message,
+            completed_at: retry ? null : new Date().toISOString()
+          })
+          .eq('id', item.id)
+
+        if (item.generation_request_id && !retry) {
+          await updateGenerationRequest(supabase, item.generation_request_id, 'failed', Date.now() - startTime, message)
+        }
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: WORKER_CONCURRENCY }, () => worker()))
+  await finalizeJob(supabase, job)
+}
+
+const finalizeJob = async (supabase: SupabaseClient, job: any) => {
+  const { data: finalized, error } = await supabase.rpc('finalize_generation_job', { p_job_id: job.id })
+  if (error) {
+    console.error('Failed to finalize generation job:', error)
+    return
+  }
+
+  // The source photo is only needed while styles are outstanding
+  if (finalized?.completed_at && job.source_path) {
+    await supabase.storage.from(PORTRAITS_BUCKET).remove([job.source_path])
+  }
+}
+
+/**
+ * Give back a shoot's reserved credit, to the balance it came from, when the
+ * shoot could not be started
+ */
+const releaseReservation = async (
+  supabase: SupabaseClient,
+  userId: string,
+  organizationId: string | null,
+  creditSource: string | null
+) => {
+  const { error } = organizationId
+    ? await supabase.rpc('refund_organization_credits', {
+        p_organization_id: organizationId,
+        p_user_id: userId,
+        p_credits: 1,
+        p_description: 'Refund: photo shoot could not be started'
+      })
+    : await supabase.rpc('refund_reserved_credits', {
+        p_user_id: userId,
+        p_source: creditSource,
+        p_credits: 1,
+        p_description: 'Refund: photo shoot could not be started'
+      })
+
+  if (error) {
+    console.error('Failed to refund reserved credit:', error)
+  }
+}
+
+/**
+ * Check the user's generation rate limit, reserve the shoot's credit, upload
+ * the photo and queue its styles. The caller starts processing with
+ * runInBackground(processJob(...)).
+ */
+export const createJob = async (
+  supabase: SupabaseClient,
+  userId: string,
+  input: CreateJobInput
+): Promise<CreateJobResult> => {
+  const { imageData, imageType, styles } = input
+
+  if (!imageData || !imageType || !Array.isArray(styles) || styles.length === 0) {
+    return { ok: false, status: 400, error: 'Missing required fields: imageData, imageType, styles' }
+  }
+
+  if (styles.length > MAX_STYLES_PER_JOB || styles.some(s => !s.style || !s.prompt)) {
+    return { ok: false, status: 400, error: `Each job needs 1-${MAX_STYLES_PER_JOB} styles with a prompt` }
+  }
+
+  const decoded = decodeDataUrl(`data:${imageType};base64,${imageData}`)
+  if (!decoded) {
+    return { ok: false, status: 400, error: 'imageData must be a base64 encoded image' }
+  }
+
+  // A package usage is only attached to the shoot of the user it belongs to
+  const usageId = asUuid(input.usageId)
+  if (input.usageId && !usageId) {
+    return { ok: false, status: 400, error: 'usageId must be a package usage id' }
+  }
+
+  if (usageId) {
+    const { data: usage } = await supabase
+      .from('package_usage')
+      .select('id')
+      .eq('id', usageId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (!usage) {
+      return { ok: false, status: 400, error: 'usageId does not match a package usage of this user' }
+    }
+  }
+
+  // Every style counts as one generation, the same as shoots run from the browser
+  const rateLimit = await checkRateLimit(supabase, userId, 'user', await getUserType(supabase, userId))
+  if (!rateLimit.can_proceed || Math.min(rateLimit.hourly_remaining, rateLimit.daily_remaining) < styles.length) {
+    return { ok: false, status: 429, error: 'Rate limit exceeded' }
+  }
+
+  // Reserve the shoot's credit upfront, from the team wallet when one is
+  // selected; unfinished styles are refunded on finalize
+  const organizationId = asUuid(input.organizationId)
+  const description = `Photo shoot (${styles.length} styles)`
+  const { data: reservedFrom, error: creditError } = organizationId
+    ? await supabase.rpc('consume_organization_credit', {
+        p_organization_id: organizationId,
+        p_description: description,
+        p_user_id: userId
+      })
+    : await supabase.rpc('consume_credit_atomic', {
+        p_user_id: userId,
+        p_description: description
+      })
+
+  if (creditError) {
+    console.error('Failed to reserve credits for job:', creditError)
+    // Wallet errors (not a member, monthly limit reached) are meant for the user
+    return { ok: false, status: 402, error: organizationId ? creditError.message : 'Insufficient credits' }
+  }
+
+  // Balance the personal reservation came from (free_daily, bonus, paid...)
+  const creditSource: string | null = organizationId ? null : reservedFrom
+
+  const jobId = crypto.randomUUID()
+  const extension = imageType.split('/')[1]?.replace('jpeg', 'jpg') || 'jpg'
+  const sourcePath = `jobs/${jobId}/source.${extension}`
+
+  const { error: uploadError } = await supabase.storage
+    .from(PORTRAITS_BUCKET)
+    .upload(sourcePath, decoded.bytes, { contentType: imageType, upsert: true })
+
+  if (uploadError) {
+    console.error('Failed to upload job source image:', uploadError)
+    await releaseReservation(supabase, userId, organizationId, creditSource)
+    return { ok: false, status: 500, error: 'Failed to start photo shoot' }
+  }
+
+  const { error: jobError } = await supabase
+    .from('generation_jobs')
+    .insert({
+      id: jobId,
+      user_id: userId,
+      session_id: input.sessionId || null,
+      generation_id: input.generationId || null,
+      source_path: sourcePath,
+      source_mime_type: imageType,
+      photo_type: input.photoType || 'couple',
+      package_id: asUuid(input.packageId),
+      package_usage_id: usageId,
+      api_key_id: asUuid(input.apiKeyId),
+      organization_id: organizationId,
+      total_styles: styles.length,
+      credits_reserved: 1,
+      credit_source: creditSource
+    })
+
+  if (jobError) {
+    console.error('Failed to create generation job:', jobError)
+    await supabase.storage.from(PORTRAITS_BUCKET).remove([sourcePath])
+    await releaseReservation(supabase, userId, organizationId, creditSource)
+    return { ok: false, status: 500, error: 'Failed to start photo shoot' }
+  }
+
+  let itemsError: unknown = null
+  try {
+    const requestIds = await Promise.all(styles.map(async s => recordGenerationRequest(
+      supabase,
+      userId,
+      input.sessionId || null,
+      input.clientIp || '127.0.0.1',
+      input.userAgent || null,
+      await generateRequestHash(imageData, s.prompt),
+      [s.style],
+      1
+    )))
+
+    const { error } = await supabase
+      .from('generation_job_items')
+      .insert(styles.map((s, index) => ({
+        job_id: jobId,
+        style: s.style,
+        prompt: s.prompt,
+        theme_id: asUuid(s.themeId),
+        generation_request_id: requestIds[index],
+        sort_order: index
+      })))
+    itemsError = error
+  } catch (error) {
+    itemsError = error
+  }
+
+  if (itemsError) {
+    console.error('Failed to create generation job items:', itemsError)
+    await supabase.from('generation_jobs').update({ error_message: 'Failed to queue styles' }).eq('id', jobId)
+    // No styles were queued, so finalizing refunds nothing
+    await supabase.rpc('finalize_generation_job', { p_job_id: jobId })
+    await releaseReservation(supabase, userId, organizationId, creditSource)
+    return { ok: false, status: 500, error: 'Failed to start photo shoot' }
+  }
+
+  return { ok: true, jobId }
+}
+
+/**
+ * Restart a shoot whose worker died: requeue its stale styles and start a new
+ * worker, or close it if nothing is left
+ */
+const resumeJob = async (supabase: SupabaseClient, job: any) => {
+  const { data: remaining } = await supabase.rpc('requeue_stale_job_items', {
+    p_job_id: job.id,
+    p_stale_after_seconds: STALE_AFTER_SECONDS,
+    p_max_attempts: MAX_ATTEMPTS_PER_STYLE
+  })
+
+  if (remaining === 0) {
+    await finalizeJob(supabase, job)
+    return
+  }
+
+  const { count: inFlight } = await supabase
+    .from('generation_job_items')
+    .select('id', { count: 'exact', head: true })
+    .eq('job_id', job.id)
+    .eq('status', 'processing')
+
+  // Live workers always hold at least one claimed style; none means nobody is working the queue
+  if (!inFlight) {
+    runInBackground(processJob(supabase, job.id))
+  }
+}
+
+/**
+ * The user's job with its styles and signed result URLs, or null if it isn't theirs
+ */
+export const getJob = async (supabase: SupabaseClient, userId: string, jobId: string): Promise<JobView | null> => {
+  const { data: job, error } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .single()
+
+  if (error || !job) return null
+
+  if (!job.completed_at) {
+    await resumeJob(supabase, job)
+  }
+
+  const { data: refreshedJob } = await supabase.from('generation_jobs').select('*').eq('id', jobId).single()
+  const { data: items } = await supabase
+    .from('generation_job_items')
+    .select('id, style, theme_id, status, attempts, portrait_id, model_text, identity_score, identity_flagged, error_message, started_at, completed_at, generated_portraits(storage_path)')
+    .eq('job_id', jobId)
+    .order('sort_order')
+
+  const paths = (items || [])
+    .map((item: any) => item.generated_portraits?.storage_path)
+    .filter(Boolean) as string[]
+
+  const signedUrls = new Map<string, string>()
+  if (paths.length > 0) {
+    const { data: signed } = await supabase.storage
+      .from(PORTRAITS_BUCKET)
+      .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS)
+    for (const entry of signed || []) {
+      if (entry.path && entry.signedUrl) signedUrls.set(entry.path, entry.signedUrl)
+    }
+  }
+
+  return {
+    job: {
+      id: refreshedJob.id,
+      status: refreshedJob.status,
+      generation_id: refreshedJob.generation_id,
+      photo_type: refreshedJob.photo_type,
+      total_styles: refreshedJob.total_styles,
+      completed_styles: refreshedJob.completed_styles,
+      failed_styles: refreshedJob.failed_styles,
+      credits_reserved: refreshedJob.credits_reserved,
+      credits_refunded: refreshedJob.credits_refunded,
+      created_at: refreshedJob.created_at,
+      completed_at: refreshedJob.completed_at
+    },
+    items: (items || []).map((item: any) => ({
+      id: item.id,
+      style: item.style,
+      theme_id: item.theme_id,
+      status: item.status,
+      attempts: item.attempts,
+      portrait_id: item.portrait_id,
+      text: item.model_text,
+      identity_score: item.identity_score,
+      identity_flagged: item.identity_flagged,
+      error: item.error_message,
+      image_url: item.generated_portraits?.storage_path
+        ? signedUrls.get(item.generated_portraits.storage_path) || null
+        : null
+    }))
+  }
+}
+
+/**
+ * Cancel the user's job's pending styles. Returns false if the job isn't theirs.
+ */
+export const cancelJob = async (supabase: SupabaseClient, userId: string, jobId: string): Promise<boolean> => {
+  const { data: job, error } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .single()
+
+  if (error || !job) return false
+
+  if (!job.completed_at) {
+    await supabase
+      .from('generation_job_items')
+      .update({ status: 'cancelled', completed_at: new Date().toISOString() })
+      .eq('job_id', job.id)
+      .eq('status', 'pending')
+    await supabase.from('generation_jobs').update({ status: 'cancelled' }).eq('id', job.id)
+
+    // Styles already in flight will finish and finalize the job themselves
+    const { data: remaining } = await supabase.rpc('requeue_stale_job_items', {
+      p_job_id: job.id,
+      p_stale_after_seconds: STALE_AFTER_SECONDS,
+      p_max_attempts: MAX_ATTEMPTS_PER_STYLE
+    })
+    if (remaining === 0) {
+      await finalizeJob(supabase, job)
+    }
+  }
+
+  return true
+}
@@ -0,0 +1,379 @@
+// Post-generation identity check: scores how closely a generated portrait still resembles the uploaded photo.
+// FACE_SIMILARITY_SCORER selects the implementation: 'local' (default, CPU-only), 'remote' or 'none'.
+// Results below FACE_SIMILARITY_THRESHOLD are flagged; FACE_SIMILARITY_AUTO_RETRY=true regenerates a flagged style once.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4'
+import jpeg from 'https://esm.sh/jpeg-js@0.4.4'
+import UPNG from 'https://esm.sh/upng-js@2.1.0'
+import { generatePortraitImage, ImageGenerationOptions } from './imageProvider.ts'
+import { asUuid, decodeDataUrl } from './portraitStorage.ts'
+
+export interface ImageBytes {
+  mimeType: string
+  bytes: Uint8Array
+}
+
+export interface SimilarityScorer {
+  readonly name: string
+  /** Similarity in [0, 1], or null when the images can't be compared */
+  score(source: ImageBytes, result: ImageBytes): Promise<number | null>
+}
+
+export interface IdentityCheckResult {
+  score: number | null
+  flagged: boolean
+  retried: boolean
+  scorer: string
+  threshold: number
+}
+
+export interface IdentityCheckContext {
+  style: string
+  userId?: string | null
+  portraitId?: string | null
+  jobItemId?: string | null
+  generationId?: string | null
+  packageId?: string | null
+  themeId?: string | null
+}
+
+const DEFAULT_THRESHOLD = 0.5
+
+// ---- Local scorer ----
+// A coarse, dependency-light comparison that runs in the edge worker: locate the skin region of each image,
+// then compare its gradient structure (face layout) and skin-tone distribution. It is not face recognition;
+// it catches results where the people were replaced or heavily restyled. Calibrate the threshold per scorer.
+
+interface Raster {
+  width: number
+  height: number
+  data: Uint8Array // RGBA
+}
+
+const SAMPLE_SIZE = 128 // longer side of the working image
+const FACE_SIZE = 32 // face crop is resampled to FACE_SIZE x FACE_SIZE
+const CELL_SIZE = 8
+const ORIENTATION_BINS = 9
+const TONE_BINS = 8
+const MIN_SKIN_SHARE = 0.01
+
+const decodeRaster = (image: ImageBytes): Raster | null => {
+  try {
+    if (image.mimeType === 'image/jpeg' || image.mimeType === 'image/jpg') {
+      const decoded = jpeg.decode(image.bytes, { useTArray: true, formatAsRGBA: true, maxMemoryUsageInMB: 256 })
+      return { width: decoded.width, height: decoded.height, data: decoded.data }
+    }
+    if (image.mimeType === 'image/png') {
+      const buffer = image.bytes.buffer.slice(image.bytes.byteOffset, image.bytes.byteOffset + image.bytes.byteLength)
+      const decoded = UPNG.decode(buffer)
+      const frames = UPNG.toRGBA8(decoded)
+      return { width: decoded.width, height: decoded.height, data: new Uint8Array(frames[0]) }
+    }
+  } catch (error) {
+    console.warn(`Could not decode ${image.mimeType} for identity check:`, error)
+    return null
+  }
+
+  // WebP and other formats have no pure-JS decoder here
+  return null
+}
+
+// Nearest-neighbour downscale so the longer side is SAMPLE_SIZE
+const downscale = (raster: Raster): Raster => {
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(raster.width, raster.height))
+  const width = Math.max(1, Math.round(raster.width * scale))
+  const height = Math.max(1, Math.round(raster.height * scale))
+  const data = new Uint8Array(width * height * 4)
+
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(raster.height - 1, Math.floor(y / scale))
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(raster.width - 1, Math.floor(x / scale))
+      data.set(raster.data.subarray((sy * raster.width + sx) * 4, (sy * raster.width + sx) * 4 + 4), (y * width + x) * 4)
+    }
+  }
+
+  return { width, height, data }
+}
+
+const toYCbCr = (r: number, g: number, b: number): [number, number, number] => [
+  0.299 * r + 0.587 * g + 0.114 * b,
+  128 - 0.168736 * r - 0.331264 * g + 0.5 * b,
+  128 + 0.5 * r - 0.418688 * g - 0.081312 * b,
+]
+
+const isSkin = (cb: number, cr: number) => cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173
+
+interface FaceFeatures {
+  structure: Float64Array
+  tone: Float64Array | null
+}
+
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))]
+
+const extractFeatures = (raster: Raster): FaceFeatures => {
+  const { width, height, data } = downscale(raster)
+  const luma = new Float64Array(width * height)
+  const skinX: number[] = []
+  const skinY: number[] = []
+  const tone = new Float64Array(TONE_BINS * TONE_BINS)
+
+  for (let i = 0; i < width * height; i++) {
+    const [y, cb, cr] = toYCbCr(data[i * 4], data[i * 4 + 1], data[i * 4 + 2])
+    luma[i] = y
+    if (isSkin(cb, cr)) {
+      skinX.push(i % width)
+      skinY.push(Math.floor(i / width))
+      const cbBin = Math.min(TONE_BINS - 1, Math.floor(((cb - 77) / 51) * TONE_BINS))
+      const crBin = Math.min(TONE_BINS - 1, Math.floor(((cr - 133) / 41) * TONE_BINS))
+      tone[cbBin * TONE_BINS + crBin]++
+    }
+  }
+
+  // Skin bounding box, trimmed so stray skin-coloured background doesn't stretch it
+  let left = 0, top = 0, right = width - 1, bottom = height - 1
+  const hasSkin = skinX.length >= width * height * MIN_SKIN_SHARE
+  if (hasSkin) {
+    const xs = [...skinX].sort((a, b) => a - b)
+    const ys = [...skinY].sort((a, b) => a - b)
+    left = percentile(xs, 0.05)
+    right = Math.max(left + 1, percentile(xs, 0.95))
+    top = percentile(ys, 0.05)
+    bottom = Math.max(top + 1, percentile(ys, 0.95))
+  }
+
+  // Resample the region to a fixed-size, contrast-normalised grayscale crop
+  const crop = new Float64Array(FACE_SIZE * FACE_SIZE)
+  for (let y = 0; y < FACE_SIZE; y++) {
+    const sy = Math.min(height - 1, Math.round(top + (y / (FACE_SIZE - 1)) * (bottom - top)))
+    for (let x = 0; x < FACE_SIZE; x++) {
+      const sx = Math.min(width - 1, Math.round(left + (x / (FACE_SIZE - 1)) * (right - left)))
+      crop[y * FACE_SIZE + x] = luma[sy * width + sx]
+    }
+  }
+  const mean = crop.reduce((sum, v) => sum + v, 0) / crop.length
+  const deviation = Math.sqrt(crop.reduce((sum, v) => sum + (v - mean) ** 2, 0) / crop.length) || 1
+  for (let i = 0; i < crop.length; i++) crop[i] = (crop[i] - mean) / deviation
+
+  // Histogram of oriented gradients over CELL_SIZE cells
+  const cells = FACE_SIZE / CELL_SIZE
+  const structure = new Float64Array(cells * cells * ORIENTATION_BINS)
+  for (let y = 1; y < FACE_SIZE - 1; y++) {
+    for (let x = 1; x < FACE_SIZE - 1; x++) {
+      const gx = crop[y * FACE_SIZE + x + 1] - crop[y * FACE_SIZE + x - 1]
+      const gy = crop[(y + 1) * FACE_SIZE + x] - crop[(y - 1) * FACE_SIZE + x]
+      const magnitude = Math.hypot(gx, gy)
+      const angle = (Math.atan2(gy, gx) + Math.PI) % Math.PI // unsigned orientation
+      const bin = Math.min(ORIENTATION_BINS - 1, Math.floor((angle / Math.PI) * ORIENTATION_BINS))
+      const cell = Math.floor(y / CELL_SIZE) * cells + Math.floor(x / CELL_SIZE)
+      structure[cell * ORIENTATION_BINS + bin] += magnitude
+    }
+  }
+
+  return { structure, tone: hasSkin ? tone : null }
+}
+
+// Pearson correlation; gradient histograms are all positive, so plain cosine rates any two photos as similar
+const correlation = (a: Float64Array, b: Float64Array): number => {
+  const meanA = a.reduce((sum, v) => sum + v, 0) / a.length
+  const meanB = b.reduce((sum, v) => sum + v, 0) / b.length
+  let dot = 0, normA = 0, normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += (a[i] - meanA) * (b[i] - meanB)
+    normA += (a[i] - meanA) ** 2
+    normB += (b[i] - meanB) ** 2
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+const histogramIntersection = (a: Float64Array, b: Float64Array): number => {
+  const totalA = a.reduce((sum, v) => sum + v, 0)
+  const totalB = b.reduce((sum, v) => sum + v, 0)
+  if (!totalA || !totalB) return 0
+
+  let overlap = 0
+  for (let i = 0; i < a.length; i++) overlap += Math.min(a[i] / totalA, b[i] / totalB)
+  return overlap
+}
+
+export const localScorer: SimilarityScorer = {
+  name: 'local',
+
+  async score(source, result) {
+    const sourceRaster = decodeRaster(source)
+    const resultRaster = decodeRaster(result)
+    if (!sourceRaster || !resultRaster) return null
+
+    const a = extractFeatures(sourceRaster)
+    const b = extractFeatures(resultRaster)
+    const structure = Math.max(0, correlation(a.structure, b.structure))
+
+    // No visible skin on one side usually means the people are gone entirely
+    if (!a.tone || !b.tone) return a.tone || b.tone ? structure * 0.5 : structure
+
+    return 0.65 * structure + 0.35 * histogramIntersection(a.tone, b.tone)
+  },
+}
+
+// ---- Remote scorer ----
+// Posts both images to FACE_SIMILARITY_ENDPOINT (e.g. a face-embedding service) and expects { similarity: 0..1 }.
+
+const REMOTE_TIMEOUT_MS = 15000
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export const remoteScorer: SimilarityScorer = {
+  name: 'remote',
+
+  async score(source, result) {
+    const endpoint = Deno.env.get('FACE_SIMILARITY_ENDPOINT')
+    if (!endpoint) {
+      console.warn('FACE_SIMILARITY_ENDPOINT is not set, skipping identity check')
+      return null
+    }
+
+    const apiKey = Deno.env.get('FACE_SIMILARITY_API_KEY')
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), REMOTE_TIMEOUT_MS)
+
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          source: { mimeType: source.mimeType, data: toBase64(source.bytes) },
+          result: { mimeType: result.mimeType, data: toBase64(result.bytes) },
+        }),
+        signal: controller.signal,
+      })
+
+      if (!response.ok) {
+        console.warn(`Face similarity service returned ${response.status}`)
+        return null
+      }
+
+      const { similarity } = await response.json()
+      return typeof similarity === 'number' ? Math.min(1, Math.max(0, similarity)) : null
+    } finally {
+      clearTimeout(timer)
+    }
+  },
+}
+
+const scorers: Record<string, SimilarityScorer | null> = {
+  [localScorer.name]: localScorer,
+  [remoteScorer.name]: remoteScorer,
+  none: null,
+}
+
+export const getSimilarityScorer = (): SimilarityScorer | null => {
+  const configured = (Deno.env.get('FACE_SIMILARITY_SCORER') || localScorer.name).toLowerCase()
+
+  if (!(configured in scorers)) {
+    console.warn(`Unknown FACE_SIMILARITY_SCORER "${configured}", falling back to ${localScorer.name}`)
+    return localScorer
+  }
+
+  return scorers[configured]
+}
+
+const getThreshold = (): number => {
+  const configured = Number(Deno.env.get('FACE_SIMILARITY_THRESHOLD'))
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_THRESHOLD
+}
+
+// Scoring problems never fail a generation; the result is simply left unscored
+const scoreResult = async (scorer: SimilarityScorer, source: ImageBytes, imageUrl: string): Promise<number | null> => {
+  const result = decodeDataUrl(imageUrl)
+  if (!result) return null
+
+  try {
+    const score = await scorer.score(source, result)
+    return score === null ? null : Math.round(score * 10000) / 10000
+  } catch (error) {
+    console.warn(`${scorer.name} identity scorer failed:`, error)
+    return null
+  }
+}
+
+/**
+ * Generate a portrait and score it against the source photo.
+ * A flagged result is regenerated once when auto-retry is enabled; the closer of the two is returned.
+ */
+export const generateVerifiedPortrait = async (
+  imageData: string,
+  mimeType: string,
+  prompt: string,
+  options: ImageGenerationOptions = {}
+): Promise<{ imageUrl: string; text: string | null; identity: IdentityCheckResult | null }> => {
+  const generated = await generatePortraitImage(imageData, mimeType, prompt, options)
+  const scorer = getSimilarityScorer()
+  // A portrait composed from several photos has no single source to compare against
+  if (!scorer || options.referenceImages?.length) return { ...generated, identity: null }
+
+  const threshold = getThreshold()
+  const source: ImageBytes = { mimeType, bytes: Uint8Array.from(atob(imageData), c => c.charCodeAt(0)) }
+  const score = await scoreResult(scorer, source, generated.imageUrl)
+  const flagged = score !== null && score < threshold
+
+  if (score === null || !flagged || Deno.env.get('FACE_SIMILARITY_AUTO_RETRY') !== 'true') {
+    return { ...generated, identity: { score, flagged, retried: false, scorer: scorer.name, threshold } }
+  }
+
+  console.warn(`Style "${options.style}" scored ${score} (< ${threshold}), retrying once`)
+  try {
+    const retry = await generatePortraitImage(imageData, mimeType, prompt, options)
+    const retryScore = await scoreResult(scorer, source, retry.imageUrl)
+
+    if (retryScore !== null && retryScore > score) {
+      return {
+        ...retry,
+        identity: { score: retryScore, flagged: retryScore < threshold, retried: true, scorer: scorer.name, threshold },
+      }
+    }
+  } catch (error) {
+    console.warn(`Identity retry for style "${options.style}" failed:`, error instanceof Error ? error.message : error)
+  }
+
+  return { ...generated, identity: { score, flagged, retried: true, scorer: scorer.name, threshold } }
+}
+
+/**
+ * Record an identity check so admins can see which themes drift.
+ * Failures are logged and swallowed; the check is diagnostic only.
+ */
+export const recordIdentityCheck = async (
+  supabase: SupabaseClient,
+  identity: IdentityCheckResult | null,
+  context: IdentityCheckContext
+): Promise<void> => {
+  if (!identity || identity.score === null) return
+
+  const { error } = await supabase.from('portrait_identity_checks').insert({
+    portrait_id: asUuid(context.portraitId),
+    job_item_id: asUuid(context.jobItemId),
+    user_id: asUuid(context.userId),
+    generation_id: context.generationId || null,
+    package_id: asUuid(context.packageId),
+    theme_id: asUuid(context.themeId),
+    style: context.style,
+    score: identity.score,
+    threshold: identity.threshold,
+    flagged: identity.flagged,
+    retried: identity.retried,
+    scorer: identity.scorer,
+  })
+
+  if (error) {
+    console.error('Failed to record identity check:', error)
+  }
+}
@@ -0,0 +1,75 @@
+// Image generation provider abstraction shared by the portrait generation functions.
+// IMAGE_PROVIDER selects the implementation: 'gemini' (default) or 'stub' for offline development.
+
+import { geminiProvider } from './gemini.ts'
+import { stubProvider } from './stubImageProvider.ts'
+
+export const UNSAFE_CONTENT_MESSAGE = 'API did not return an image. It may have considered the prompt unsafe.'
+
+export interface ImageGenerationInput {
+  data: string // base64 encoded image
+  mimeType: string
+}
+
+export interface ImageGenerationOptions {
+  style?: string
+  // Further source photos (e.g. one per partner), sent after the main image in this order
+  referenceImages?: ImageGenerationInput[]
+}
+
+export interface SafetyVerdict {
+  blocked: boolean
+  reason?: string
+}
+
+export interface ImageGenerationResult {
+  imageUrl: string | null // data URL
+  text: string | null
+  safety: SafetyVerdict
+  provider: string
+}
+
+export interface ImageGenerationProvider {
+  readonly name: string
+  generate(image: ImageGenerationInput, prompt: string, options?: ImageGenerationOptions): Promise<ImageGenerationResult>
+}
+
+const providers: Record<string, ImageGenerationProvider> = {
+  [geminiProvider.name]: geminiProvider,
+  [stubProvider.name]: stubProvider,
+}
+
+export const getImageProvider = (): ImageGenerationProvider => {
+  const configured = (Deno.env.get('IMAGE_PROVIDER') || geminiProvider.name).toLowerCase()
+  const provider = providers[configured]
+
+  if (!provider) {
+    console.warn(`Unknown IMAGE_PROVIDER "${configured}", falling back to ${geminiProvider.name}`)
+    return geminiProvider
+  }
+
+  return provider
+}
+
+/**
+ * Generate a portrait with the configured provider.
+ * Blocked results throw UNSAFE_CONTENT_MESSAGE so callers can treat them as non-retryable.
+ */
+export const generatePortraitImage = async (
+  imageData: string,
+  mimeType: string,
+  prompt: string,
+  options: ImageGenerationOptions = {}
+): Promise<{ imageUrl: string; text: string | null }> => {
+  const provider = getImageProvider()
+  const result = await provider.generate({ data: imageData, mimeType }, prompt, options)
+
+  if (result.safety.blocked || !result.imageUrl) {
+    if (result.safety.reason) {
+      console.warn(`${provider.name} blocked generation: ${result.safety.reason}`)
+    }
+    throw new Error(UNSAFE_CONTENT_MESSAGE)
+  }
+
+  return { imageUrl: result.imageUrl, text: result.text }
+}
@@ -0,0 +1,104 @@
+// Persists generated portraits to the private `portraits` bucket and generated_portraits table
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4'
+
+export const PORTRAITS_BUCKET = 'portraits'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export interface PortraitMetadata {
+  style: string
+  photoType?: 'single' | 'couple' | 'family'
+  generationId?: string | null
+  generationRequestId?: string | null
+  usageId?: string | null
+  packageId?: string | null
+  themeId?: string | null
+  modelText?: string | null
+}
+
+export interface StoredPortrait {
+  id: string
+  storage_path: string
+}
+
+export const asUuid = (value?: string | null): string | null => {
+  return value && UUID_PATTERN.test(value) ? value : null
+}
+
+/**
+ * Split a data URL into its mime type and raw bytes
+ */
+export const decodeDataUrl = (dataUrl: string): { mimeType: string; bytes: Uint8Array } | null => {
+  const match = dataUrl.match(/^data:(.*?);base64,(.*)$/)
+  if (!match) return null
+
+  const [, mimeType, base64Data] = match
+  return { mimeType, bytes: Uint8Array.from(atob(base64Data), c => c.charCodeAt(0)) }
+}
+
+/**
+ * Upload a generated image and record it in generated_portraits.
+ * Storage failures are logged and swallowed so the user still receives the inline image.
+ */
+export const storePortrait = async (
+  supabase: SupabaseClient,
+  userId: string,
+  imageUrl: string,
+  metadata: PortraitMetadata
+): Promise<StoredPortrait | null> => {
+  try {
+    const decoded = decodeDataUrl(imageUrl)
+    if (!decoded) {
+      console.warn('Generated image is not a data URL, skipping storage')
+      return null
+    }
+
+    const { mimeType, bytes } = decoded
+    const extension = mimeType.split('/')[1]?.replace('jpeg', 'jpg') || 'png'
+    const portraitId = crypto.randomUUID()
+    const month = new Date().toISOString().slice(0, 7)
+    const storagePath = `${userId}/${month}/${portraitId}.${extension}`
+
+    const { error: uploadError } = await supabase.storage
+      .from(PORTRAITS_BUCKET)
+      .upload(storagePath, bytes, { contentType: mimeType, upsert: false })
+
+    if (uploadError) {
+      console.error('Failed to upload portrait to storage:', uploadError)
+      return null
+    }
+
+    const { data, error } = await supabase
+      .from('generated_portraits')
+      .insert({
+        id: portraitId,
+        user_id: userId,
+        generation_request_id: asUuid(metadata.generationRequestId),
+        package_usage_id: asUuid(metadata.usageId),
+        package_id: asUuid(metadata.packageId),
+        theme_id: asUuid(metadata.themeId),
+        storage_path: storagePath,
+        mime_type: mimeType,
+        file_size_bytes: bytes.byteLength,
+        style: metadata.style,
+        photo_type: metadata.photoType || 'couple',
+        generation_id: metadata.generationId || null,
+        model_text: metadata.modelText || null
+      })
+      .select('id, storage_path')
+      .single()
+
+    if (error) {
+      console.error('Failed to record generated portrait:', error)
+      // Don't leave orphaned objects behind
+      await supabase.storage.from(PORTRAITS_BUCKET).remove([storagePath])
+      return null
+    }
+
+    return data as StoredPortrait
+  } catch (error) {
+    console.error('Portrait storage error:', error)
+    return null
+  }
+}
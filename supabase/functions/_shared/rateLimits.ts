@@ -0,0 +1,131 @@
+// Generation rate limits and the generation_requests audit trail they are counted from
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4'
+
+export type RateLimitUserType = 'anonymous' | 'authenticated' | 'premium'
+
+export interface RateLimitResult {
+  can_proceed: boolean
+  hourly_count: number
+  daily_count: number
+  hourly_limit: number
+  daily_limit: number
+  hourly_remaining: number
+  daily_remaining: number
+  reset_at: string
+}
+
+// Rate limiting configuration
+export const RATE_LIMITS = {
+  anonymous: { hourly: 9, daily: 9 }, // Daily limit only - 3 photo shoots per day (3 portraits each)
+  authenticated: { hourly: 30, daily: 100 },
+  premium: { hourly: 100, daily: 500 }
+}
+
+export const checkRateLimit = async (
+  supabase: SupabaseClient,
+  identifier: string,
+  identifierType: string,
+  userType: RateLimitUserType = 'anonymous'
+): Promise<RateLimitResult> => {
+  const limits = RATE_LIMITS[userType]
+
+  const { data, error } = await supabase.rpc('check_rate_limit', {
+    p_identifier: identifier,
+    p_identifier_type: identifierType,
+    p_limit_per_hour: limits.hourly,
+    p_limit_per_day: limits.daily
+  })
+
+  if (error) {
+    console.error('Rate limit check error:', error)
+    throw new Error('Rate limit check failed')
+  }
+
+  return data as RateLimitResult
+}
+
+export const recordGenerationRequest = async (
+  supabase: SupabaseClient,
+  userId: string | null,
+  sessionId: string | null,
+  ipAddress: string,
+  userAgent: string | null,
+  requestHash: string,
+  styles: string[],
+  creditsConsumed: number = 1
+): Promise<string> => {
+  const { data, error } = await supabase.rpc('record_generation_request', {
+    p_user_id: userId,
+    p_session_id: sessionId,
+    p_ip_address: ipAddress,
+    p_user_agent: userAgent,
+    p_request_hash: requestHash,
+    p_styles: styles,
+    p_credits_consumed: creditsConsumed
+  })
+
+  if (error) {
+    console.error('Failed to record generation request:', error)
+    throw new Error('Failed to record request')
+  }
+
+  return data
+}
+
+export const updateGenerationRequest = async (
+  supabase: SupabaseClient,
+  requestId: string,
+  status: string,
+  processingTimeMs?: number,
+  errorMessage?: string
+) => {
+  const { error } = await supabase.rpc('update_generation_request', {
+    p_request_id: requestId,
+    p_status: status,
+    p_processing_time_ms: processingTimeMs,
+    p_error_message: errorMessage
+  })
+
+  if (error) {
+    console.error('Failed to update generation request:', error)
+  }
+}
+
+export const generateRequestHash = async (imageData: string, prompt: string): Promise<string> => {
+  const encoder = new TextEncoder()
+  const data = encoder.encode(imageData + prompt)
+  const hashBuffer = await crypto.subtle.digest('SHA-256', data)
+  const hashArray = Array.from(new Uint8Array(hashBuffer))
+  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+export const getUserType = async (supabase: SupabaseClient, userId: string | null): Promise<RateLimitUserType> => {
+  if (!userId) return 'anonymous'
+
+  // Check if user has any credits (paid or bonus)
+  const { data: credits } = await supabase
+    .from('user_credits')
+    .select('paid_credits, bonus_credits')
+    .eq('user_id', userId)
+    .single()
+
+  if (credits && (credits.paid_credits > 0 || credits.bonus_credits > 0)) {
+    return 'premium'
+  }
+
+  return 'authenticated'
+}
+
+export const getClientIP = (request: Request): string => {
+  // Try to get real IP from various headers
+  const forwardedFor = request.headers.get('x-forwarded-for')
+  const realIP = request.headers.get('x-real-ip')
+  const cfConnectingIP = request.headers.get('cf-connecting-ip')
+
+  if (cfConnectingIP) return cfConnectingIP
+  if (realIP) return realIP
+  if (forwardedFor) return forwardedFor.split(',')[0].trim()
+
+  return '127.0.0.1' // fallback
+}
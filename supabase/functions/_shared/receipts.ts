@@ -0,0 +1,167 @@
+// Renders purchase receipts from email-templates/receipt.{html,txt} and emails them
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export interface ReceiptLineItem {
+  description: string
+  quantity: number
+  unit_amount: number
+  amount: number
+}
+
+export interface Receipt {
+  id: string
+  receipt_number: string
+  user_id: string | null
+  currency: string
+  line_items: ReceiptLineItem[]
+  subtotal_cents: number
+  discount_cents: number
+  tax_cents: number
+  total_cents: number
+  credits_granted: number
+  bonus_credits: number
+  promotion_code: string | null
+  gift_card_id: string | null
+  customer_email: string | null
+  customer_name: string | null
+  billing_address: Record<string, string | null> | null
+  emailed_at: string | null
+  created_at: string
+}
+
+type TemplateFormat = 'html' | 'txt'
+
+const SITE_URL = Deno.env.get('SITE_URL') || 'http://localhost:5173'
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const formatMoney = (cents: number, currency: string): string =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(cents / 100)
+
+// Bundled with the functions that render receipts (see static_files in config.toml)
+const loadTemplate = (format: TemplateFormat): Promise<string> =>
+  Deno.readTextFile(new URL(`../../../email-templates/receipt.${format}`, import.meta.url))
+
+const billedTo = (receipt: Receipt): string[] => {
+  const address = receipt.billing_address
+  return [
+    receipt.customer_name,
+    receipt.customer_email,
+    address?.line1,
+    address?.line2,
+    [address?.postal_code, address?.city].filter(Boolean).join(' '),
+    [address?.state, address?.country].filter(Boolean).join(', ')
+  ].filter((line): line is string => !!line)
+}
+
+const creditsSummary = (receipt: Receipt): string => {
+  const bonus = receipt.bonus_credits > 0 ? ` + ${receipt.bonus_credits} bonus credits` : ''
+  return receipt.gift_card_id
+    ? `${receipt.credits_granted} credits bought as a gift${bonus}`
+    : `${receipt.credits_granted} credits added to your account${bonus}`
+}
+
+/**
+ * Fill a receipt template. Placeholders use the same {{ .Name }} form as the
+ * auth email templates.
+ */
+export const renderReceipt = async (receipt: Receipt, format: TemplateFormat): Promise<string> => {
+  const template = await loadTemplate(format)
+  const money = (cents: number) => formatMoney(cents, receipt.currency)
+  const html = format === 'html'
+  const text = (value: string) => html ? escapeHtml(value) : value
+
+  const lineItems = receipt.line_items.map(item => html
+    ? `<tr>
+                        <td style="padding: 12px 0; border-bottom: 1px solid #f3f4f6; font-size: 14px; color: #374151;">${escapeHtml(item.description)}</td>
+                        <td align="center" style="padding: 12px 0; border-bottom: 1px solid #f3f4f6; font-size: 14px; color: #374151;">${item.quantity}</td>
+                        <td align="right" style="padding: 12px 0; border-bottom: 1px solid #f3f4f6; font-size: 14px; color: #374151;">${money(item.amount)}</td>
+                      </tr>`
+    : `${item.quantity} x ${item.description}: ${money(item.amount)}`
+  ).join('\n')
+
+  const adjustments: Array<[string, string]> = []
+  if (receipt.discount_cents > 0) {
+    adjustments.push([
+      receipt.promotion_code ? `Discount (${receipt.promotion_code})` : 'Discount',
+      `-${money(receipt.discount_cents)}`
+    ])
+  }
+  if (receipt.tax_cents > 0) {
+    adjustments.push(['Tax', money(receipt.tax_cents)])
+  }
+
+  const adjustmentRows = adjustments.map(([label, amount]) => html
+    ? `<tr>
+                        <td colspan="2" style="padding: 4px 0; font-size: 14px; color: #6b7280;">${escapeHtml(label)}</td>
+                        <td align="right" style="padding: 4px 0; font-size: 14px; color: #374151;">${amount}</td>
+                      </tr>`
+    : `${label}: ${amount}`
+  ).join('\n')
+
+  const values: Record<string, string> = {
+    ReceiptNumber: text(receipt.receipt_number),
+    Date: new Date(receipt.created_at).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+    BilledTo: billedTo(receipt).map(text).join(html ? '<br>' : ', ') || '-',
+    LineItems: lineItems,
+    Subtotal: money(receipt.subtotal_cents),
+    AdjustmentRows: adjustmentRows,
+    Total: money(receipt.total_cents),
+    CreditsGranted: String(receipt.credits_granted),
+    CreditsSummary: text(creditsSummary(receipt)),
+    SiteURL: SITE_URL
+  }
+
+  return template.replace(/\{\{\s*\.(\w+)\s*\}\}/g, (placeholder, name) => values[name] ?? placeholder)
+}
+
+/**
+ * Email a receipt to its customer through Resend. Returns false when email
+ * isn't configured or the receipt has no address.
+ */
+export const sendReceiptEmail = async (supabase: SupabaseClient, receipt: Receipt): Promise<boolean> => {
+  const apiKey = Deno.env.get('RESEND_API_KEY')
+  if (!apiKey) {
+    console.warn(`RESEND_API_KEY not set, receipt ${receipt.receipt_number} not emailed`)
+    return false
+  }
+  if (!receipt.customer_email) {
+    console.warn(`Receipt ${receipt.receipt_number} has no email address`)
+    return false
+  }
+
+  const [html, text] = await Promise.all([renderReceipt(receipt, 'html'), renderReceipt(receipt, 'txt')])
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      from: Deno.env.get('RECEIPT_FROM_EMAIL') || 'AI Wedding Portraits <receipts@example.com>',
+      to: [receipt.customer_email],
+      subject: `Your receipt ${receipt.receipt_number}`,
+      html,
+      text
+    })
+  })
+
+  if (!response.ok) {
+    console.error(`Failed to email receipt ${receipt.receipt_number}:`, response.status, await response.text())
+    return false
+  }
+
+  await supabase
+    .from('receipts')
+    .update({ emailed_at: new Date().toISOString() })
+    .eq('id', receipt.id)
+
+  return true
+}
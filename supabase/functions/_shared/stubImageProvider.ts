@@ -0,0 +1,221 @@
+// Offline stub image provider for local development and end-to-end testing.
+// Returns a deterministic, clearly watermarked placeholder PNG instead of calling a model:
+// the same photo + prompt always produce the same image, and no network or API spend is involved.
+// Prompts containing STUB_BLOCK_MARKER return a blocked verdict to exercise safety handling.
+
+import type { ImageGenerationProvider, ImageGenerationResult } from './imageProvider.ts'
+
+export const STUB_BLOCK_MARKER = '[stub:block]'
+
+const WIDTH = 384
+const HEIGHT = 384
+
+// 5x7 bitmap glyphs, one 5-bit row per entry
+const GLYPHS: Record<string, number[]> = {
+  '0': [0x0e, 0x11, 0x13, 0x15, 0x19, 0x11, 0x0e],
+  '1': [0x04, 0x0c, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  '2': [0x0e, 0x11, 0x01, 0x02, 0x04, 0x08, 0x1f],
+  '3': [0x1f, 0x02, 0x04, 0x02, 0x01, 0x11, 0x0e],
+  '4': [0x02, 0x06, 0x0a, 0x12, 0x1f, 0x02, 0x02],
+  '5': [0x1f, 0x10, 0x1e, 0x01, 0x01, 0x11, 0x0e],
+  '6': [0x06, 0x08, 0x10, 0x1e, 0x11, 0x11, 0x0e],
+  '7': [0x1f, 0x01, 0x02, 0x04, 0x08, 0x08, 0x08],
+  '8': [0x0e, 0x11, 0x11, 0x0e, 0x11, 0x11, 0x0e],
+  '9': [0x0e, 0x11, 0x11, 0x0f, 0x01, 0x02, 0x0c],
+  'A': [0x0e, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+  'B': [0x1e, 0x11, 0x11, 0x1e, 0x11, 0x11, 0x1e],
+  'C': [0x0e, 0x11, 0x10, 0x10, 0x10, 0x11, 0x0e],
+  'D': [0x1c, 0x12, 0x11, 0x11, 0x11, 0x12, 0x1c],
+  'E': [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x1f],
+  'F': [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x10],
+  'S': [0x0f, 0x10, 0x10, 0x0e, 0x01, 0x01, 0x1e],
+  'T': [0x1f, 0x04, 0x04, 0x04, 0x04, 0x04, 0x04],
+  'U': [0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+}
+
+// FNV-1a, good enough to derive a stable fingerprint and colour
+const fingerprint = (...parts: string[]): number => {
+  let hash = 0x811c9dc5
+  for (const part of parts) {
+    for (let i = 0; i < part.length; i++) {
+      hash ^= part.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193) >>> 0
+    }
+  }
+  return hash
+}
+
+const hslToRgb = (h: number, s: number, l: number): [number, number, number] => {
+  const k = (n: number) => (n + h / 30) % 12
+  const a = s * Math.min(l, 1 - l)
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1))
+  return [Math.round(f(0) * 255), Math.round(f(8) * 255), Math.round(f(4) * 255)]
+}
+
+const drawText = (pixels: Uint8Array, text: string, centerY: number, scale: number) => {
+  const glyphWidth = 6 * scale
+  let x = Math.floor((WIDTH - text.length * glyphWidth + scale) / 2)
+  const top = Math.floor(centerY - (7 * scale) / 2)
+
+  for (const char of text) {
+    const rows = GLYPHS[char]
+    if (rows) {
+      for (let row = 0; row < 7; row++) {
+        for (let col = 0; col < 5; col++) {
+          if (!(rows[row] & (0x10 >> col))) continue
+          for (let dy = 0; dy < scale; dy++) {
+            for (let dx = 0; dx < scale; dx++) {
+              const offset = ((top + row * scale + dy) * WIDTH + x + col * scale + dx) * 3
+              pixels[offset] = pixels[offset + 1] = pixels[offset + 2] = 255
+            }
+          }
+        }
+      }
+    }
+    x += glyphWidth
+  }
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length)
+  const view = new DataView(chunk.buffer)
+  view.setUint32(0, data.length)
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i)
+  chunk.set(data, 8)
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)))
+  return chunk
+}
+
+// zlib stream using uncompressed (stored) deflate blocks - no compression library needed
+const zlibStore = (raw: Uint8Array): Uint8Array => {
+  const blockSize = 65535
+  const blockCount = Math.ceil(raw.length / blockSize)
+  const out = new Uint8Array(2 + raw.length + blockCount * 5 + 4)
+  const view = new DataView(out.buffer)
+  out[0] = 0x78
+  out[1] = 0x01
+
+  let pos = 2
+  for (let i = 0; i < blockCount; i++) {
+    const block = raw.subarray(i * blockSize, (i + 1) * blockSize)
+    out[pos] = i === blockCount - 1 ? 1 : 0
+    view.setUint16(pos + 1, block.length, true)
+    view.setUint16(pos + 3, ~block.length & 0xffff, true)
+    out.set(block, pos + 5)
+    pos += 5 + block.length
+  }
+
+  let a = 1
+  let b = 0
+  for (const byte of raw) {
+    a = (a + byte) % 65521
+    b = (b + a) % 65521
+  }
+  view.setUint32(pos, ((b << 16) | a) >>> 0)
+  return out
+}
+
+const encodePng = (pixels: Uint8Array): Uint8Array => {
+  // Each scanline is prefixed with filter type 0 (none)
+  const raw = new Uint8Array(HEIGHT * (WIDTH * 3 + 1))
+  for (let y = 0; y < HEIGHT; y++) {
+    raw.set(pixels.subarray(y * WIDTH * 3, (y + 1) * WIDTH * 3), y * (WIDTH * 3 + 1) + 1)
+  }
+
+  const header = new Uint8Array(13)
+  const headerView = new DataView(header.buffer)
+  headerView.setUint32(0, WIDTH)
+  headerView.setUint32(4, HEIGHT)
+  header[8] = 8 // bit depth
+  header[9] = 2 // colour type: RGB
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlibStore(raw)),
+    pngChunk('IEND', new Uint8Array(0)),
+  ]
+
+  const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    png.set(part, offset)
+    offset += part.length
+  }
+  return png
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export const renderPlaceholderPng = (seed: number): Uint8Array => {
+  const [r1, g1, b1] = hslToRgb(seed % 360, 0.45, 0.55)
+  const [r2, g2, b2] = hslToRgb((seed + 60) % 360, 0.45, 0.3)
+  const pixels = new Uint8Array(WIDTH * HEIGHT * 3)
+
+  for (let y = 0; y < HEIGHT; y++) {
+    const t = y / (HEIGHT - 1)
+    for (let x = 0; x < WIDTH; x++) {
+      // Diagonal watermark stripes over a vertical gradient
+      const stripe = (x + y) % 48 < 6 ? 40 : 0
+      const offset = (y * WIDTH + x) * 3
+      pixels[offset] = Math.min(255, r1 + (r2 - r1) * t + stripe)
+      pixels[offset + 1] = Math.min(255, g1 + (g2 - g1) * t + stripe)
+      pixels[offset + 2] = Math.min(255, b1 + (b2 - b1) * t + stripe)
+    }
+  }
+
+  drawText(pixels, 'STUB', HEIGHT * 0.42, 12)
+  drawText(pixels, seed.toString(16).toUpperCase().padStart(8, '0'), HEIGHT * 0.68, 4)
+  return encodePng(pixels)
+}
+
+export const stubProvider: ImageGenerationProvider = {
+  name: 'stub',
+
+  async generate(image, prompt, options = {}): Promise<ImageGenerationResult> {
+    if (prompt.includes(STUB_BLOCK_MARKER)) {
+      return {
+        imageUrl: null,
+        text: null,
+        safety: { blocked: true, reason: 'Blocked by stub provider marker' },
+        provider: 'stub'
+      }
+    }
+
+    const seed = fingerprint(image.data, prompt, options.style || '')
+    const png = renderPlaceholderPng(seed)
+
+    return {
+      imageUrl: `data:image/png;base64,${toBase64(png)}`,
+      text: `Stub placeholder for "${options.style || 'portrait'}" (${seed.toString(16)})`,
+      safety: { blocked: false },
+      provider: 'stub'
+    }
+  }
+}
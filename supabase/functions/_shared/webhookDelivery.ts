@@ -0,0 +1,359 @@
+// Delivers queued partner webhook events (webhook_deliveries) to the
+// endpoints users register, signed with the endpoint's secret and retried
+// with exponential backoff. Deliveries are queued in the database when an
+// activity that maps to a webhook event is logged.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { SIGNATURE_HEADER, signPayload } from './webhookSignature.ts'
+
+export const WEBHOOK_EVENTS = ['generation.completed', 'generation.failed', 'credits.low', 'payment.succeeded'] as const
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number]
+
+export interface WebhookEndpoint {
+  id: string
+  user_id: string
+  url: string
+  events: WebhookEventType[]
+  signing_secret: string
+  enabled: boolean
+}
+
+export interface WebhookPayload {
+  id: string
+  type: WebhookEventType | 'webhook.test'
+  created_at: string
+  data: Record<string, unknown>
+}
+
+export interface WebhookDelivery {
+  id: string
+  endpoint_id: string
+  event_id: string | null
+  event_type: string
+  payload: WebhookPayload
+  status: 'pending' | 'delivered' | 'failed'
+  attempts: number
+  max_attempts: number
+  next_attempt_at: string
+  response_status: number | null
+  last_error: string | null
+  delivered_at: string | null
+  replay_of: string | null
+}
+
+interface SendResult {
+  ok: boolean
+  status: number | null
+  error: string | null
+}
+
+const REQUEST_TIMEOUT_MS = 10000
+
+// Same rules as is_public_webhook_url in the outgoing webhooks migration
+const BLOCKED_HOST_SUFFIX = /(^|\.)(localhost|local|localdomain|internal|intranet|lan|home\.arpa)$/
+
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+]
+
+const ipv4ToNumber = (address: string): number | null => {
+  const parts = address.split('.')
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null
+  return parts.reduce((value, part) => value * 256 + Number(part), 0)
+}
+
+const isBlockedIpv4 = (address: string): boolean => {
+  const value = ipv4ToNumber(address)
+  if (value === null) return true
+  return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits)
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(base)! / size)
+  })
+}
+
+// The eight 16-bit groups of an IPv6 address, or null if it doesn't parse
+const ipv6Groups = (address: string): number[] | null => {
+  let text = address.toLowerCase().split('%')[0]
+  const embedded = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/)
+  if (embedded) {
+    const value = ipv4ToNumber(embedded[2])
+    if (value === null) return null
+    text = `${embedded[1]}${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`
+  }
+
+  const halves = text.split('::')
+  if (halves.length > 2) return null
+  const head = halves[0] ? halves[0].split(':') : []
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : []
+  const zeros = 8 - head.length - tail.length
+  if (halves.length === 1 ? zeros !== 0 : zeros < 1) return null
+
+  const groups = [...head, ...Array(halves.length === 2 ? zeros : 0).fill('0'), ...tail]
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) return null
+  return groups.map(group => parseInt(group, 16))
+}
+
+const isBlockedIpv6 = (address: string): boolean => {
+  const g = ipv6Groups(address)
+  if (!g) return true
+  const zeroUntil = (index: number) => g.slice(0, index).every(group => group === 0)
+  return (zeroUntil(7) && g[7] <= 1) // unspecified and loopback
+    || (zeroUntil(5) && g[5] === 0xffff) // IPv4-mapped
+    || (g[0] === 0x64 && g[1] === 0xff9b && g.slice(2, 6).every(group => group === 0)) // NAT64
+    || (g[0] === 0x100 && g.slice(1, 4).every(group => group === 0)) // discard-only
+    || (g[0] === 0x2001 && g[1] === 0xdb8) // documentation
+    || (g[0] & 0xfe00) === 0xfc00 // unique local
+    || (g[0] & 0xffc0) === 0xfe80 // link-local
+    || (g[0] & 0xff00) === 0xff00 // multicast
+}
+
+const isBlockedAddress = (address: string): boolean => {
+  return address.includes(':') ? isBlockedIpv6(address) : isBlockedIpv4(address)
+}
+
+/**
+ * Why a URL can't be a webhook endpoint, or null if it can: endpoints must be
+ * https:// URLs on a public host. Names are checked as written; see
+ * checkWebhookDestination for where they resolve.
+ */
+export const checkWebhookUrl = (value: string): string | null => {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return 'url must be an https:// URL'
+  }
+
+  if (url.protocol !== 'https:') return 'url must be an https:// URL'
+  if (url.username || url.password) return 'url must not contain credentials'
+
+  // URL normalizes IPv4 in any notation to dotted decimal and keeps IPv6 in brackets
+  const host = url.hostname.replace(/\.$/, '')
+  if (host.startsWith('[')) {
+    return isBlockedIpv6(host.slice(1, -1)) ? 'url must point to a public address' : null
+  }
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(host)) {
+    return isBlockedIpv4(host) ? 'url must point to a public address' : null
+  }
+  if (!host.includes('.') || BLOCKED_HOST_SUFFIX.test(host)) {
+    return 'url must point to a public host'
+  }
+
+  return null
+}
+
+/**
+ * checkWebhookUrl, plus every address the host resolves to must be public.
+ * Run right before each request, as DNS can change after registration.
+ * Hosts that don't resolve are left for the request itself to fail on.
+ */
+export const checkWebhookDestination = async (value: string): Promise<string | null> => {
+  const problem = checkWebhookUrl(value)
+  if (problem) return problem
+
+  const host = new URL(value).hostname.replace(/\.$/, '')
+  if (host.startsWith('[') || /^\d+\.\d+\.\d+\.\d+$/.test(host)) return null
+
+  const lookups = await Promise.allSettled([Deno.resolveDns(host, 'A'), Deno.resolveDns(host, 'AAAA')])
+  const addresses = lookups.flatMap(lookup => (lookup.status === 'fulfilled' ? lookup.value : []))
+
+  return addresses.some(isBlockedAddress) ? `${host} resolves to a private address` : null
+}
+
+const send = async (endpoint: WebhookEndpoint, delivery: WebhookDelivery): Promise<SendResult> => {
+  const body = JSON.stringify(delivery.payload)
+  try {
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [SIGNATURE_HEADER]: await signPayload(endpoint.signing_secret, body),
+        'X-Webhook-Event': delivery.payload.type,
+        'X-Webhook-Delivery': delivery.id
+      },
+      body,
+      // Signed events only go to the registered URL, never where it redirects
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    })
+    const error = response.ok ? null : `HTTP ${response.status}: ${(await response.text()).slice(0, 500)}`
+    return { ok: response.ok, status: response.status, error }
+  } catch (error) {
+    return { ok: false, status: null, error: error.message || String(error) }
+  }
+}
+
+// 1, 2, 4, 8, 16 minutes after each failed attempt
+const backoffMs = (attempts: number): number => Math.pow(2, attempts - 1) * 60 * 1000
+
+const recordResult = async (
+  supabase: SupabaseClient,
+  delivery: WebhookDelivery,
+  result: SendResult,
+  retryable: boolean
+): Promise<WebhookDelivery> => {
+  const attempts = delivery.attempts + 1
+  const now = new Date()
+  const status = result.ok ? 'delivered' : retryable && attempts < delivery.max_attempts ? 'pending' : 'failed'
+
+  if (!result.ok) {
+    console.error(`Webhook delivery ${delivery.id} attempt ${attempts} failed:`, result.error)
+  }
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status,
+      attempts,
+      response_status: result.status,
+      last_error: result.error,
+      delivered_at: result.ok ? now.toISOString() : null,
+      next_attempt_at: new Date(now.getTime() + (status === 'pending' ? backoffMs(attempts) : 0)).toISOString(),
+      updated_at: now.toISOString()
+    })
+    .eq('id', delivery.id)
+    .select()
+    .single()
+
+  if (error) {
+    console.error(`Failed to record webhook delivery ${delivery.id}:`, error)
+    return { ...delivery, status, attempts }
+  }
+
+  return data
+}
+
+/**
+ * Send one delivery and record the outcome. Failures are retried until
+ * max_attempts; deliveries to removed, disabled or non-public endpoints fail
+ * at once.
+ */
+export const deliverWebhook = async (
+  supabase: SupabaseClient,
+  delivery: WebhookDelivery,
+  endpoint: WebhookEndpoint | null
+): Promise<WebhookDelivery> => {
+  if (!endpoint) {
+    return recordResult(supabase, delivery, { ok: false, status: null, error: 'Endpoint no longer exists' }, false)
+  }
+  if (!endpoint.enabled) {
+    return recordResult(supabase, delivery, { ok: false, status: null, error: 'Endpoint is disabled' }, false)
+  }
+
+  const blocked = await checkWebhookDestination(endpoint.url)
+  if (blocked) {
+    return recordResult(supabase, delivery, { ok: false, status: null, error: `Endpoint refused: ${blocked}` }, false)
+  }
+
+  return recordResult(supabase, delivery, await send(endpoint, delivery), true)
+}
+
+/**
+ * Send every delivery that is due: new events and retries whose backoff has passed
+ */
+export const deliverDueWebhooks = async (
+  supabase: SupabaseClient,
+  limit = 50
+): Promise<{ delivered: number; failed: number; retrying: number }> => {
+  const { data: due, error } = await supabase.rpc('claim_webhook_deliveries', { p_limit: limit })
+  if (error) throw error
+
+  const counts = { delivered: 0, failed: 0, retrying: 0 }
+  if (!due || due.length === 0) return counts
+
+  const endpointIds = [...new Set((due as WebhookDelivery[]).map(delivery => delivery.endpoint_id))]
+  const { data: endpoints } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .in('id', endpointIds)
+
+  const endpointsById = new Map<string, WebhookEndpoint>((endpoints || []).map((endpoint: WebhookEndpoint) => [endpoint.id, endpoint]))
+
+  for (const delivery of due as WebhookDelivery[]) {
+    const result = await deliverWebhook(supabase, delivery, endpointsById.get(delivery.endpoint_id) || null)
+    if (result.status === 'delivered') counts.delivered++
+    else if (result.status === 'failed') counts.failed++
+    else counts.retrying++
+  }
+
+  return counts
+}
+
+const loadEndpoint = async (supabase: SupabaseClient, endpointId: string): Promise<WebhookEndpoint | null> => {
+  const { data } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('id', endpointId)
+    .maybeSingle()
+  return data
+}
+
+/**
+ * Send a delivery again now as a new delivery with the same payload, so the
+ * receiver sees the original event id. The original keeps its history.
+ */
+export const replayDelivery = async (supabase: SupabaseClient, deliveryId: string): Promise<WebhookDelivery> => {
+  const { data: original, error: originalError } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('id', deliveryId)
+    .single()
+
+  if (originalError || !original) {
+    throw new Error('Delivery not found')
+  }
+
+  const endpoint = await loadEndpoint(supabase, original.endpoint_id)
+  if (!endpoint) {
+    throw new Error('Endpoint no longer exists')
+  }
+
+  // A replay is one attempt; it reports whether the endpoint accepts it now
+  const { data: replay, error } = await supabase
+    .from('webhook_deliveries')
+    .insert({
+      endpoint_id: original.endpoint_id,
+      event_id: original.event_id,
+      event_type: original.event_type,
+      payload: original.payload,
+      max_attempts: 1,
+      replay_of: original.id
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  return deliverWebhook(supabase, replay, endpoint)
+}
+
+/**
+ * Queue and immediately send a webhook.test event to one endpoint
+ */
+export const sendTestWebhook = async (supabase: SupabaseClient, endpointId: string): Promise<WebhookDelivery> => {
+  const endpoint = await loadEndpoint(supabase, endpointId)
+  if (!endpoint) {
+    throw new Error('Endpoint not found')
+  }
+
+  const eventId = crypto.randomUUID()
+  const payload: WebhookPayload = {
+    id: eventId,
+    type: 'webhook.test',
+    created_at: new Date().toISOString(),
+    data: { message: 'Test event. If you can read this, the endpoint works.' }
+  }
+
+  const { data: delivery, error } = await supabase
+    .from('webhook_deliveries')
+    .insert({ endpoint_id: endpoint.id, event_id: eventId, event_type: payload.type, payload, max_attempts: 1 })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  return deliverWebhook(supabase, delivery, endpoint)
+}
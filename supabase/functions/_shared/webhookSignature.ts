@@ -0,0 +1,30 @@
+// Signs outgoing webhook requests so receivers can check they came from us.
+//
+// The signature header has the form `t=<unix seconds>,v1=<hex>`, where v1 is
+// the HMAC-SHA256 of `<t>.<raw body>` keyed with the endpoint's secret (the
+// same scheme Stripe uses). Receivers should recompute it over the raw body
+// and reject timestamps older than a few minutes.
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature'
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+
+export const signPayload = async (
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Promise<string> => {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`))
+  return `t=${timestamp},v1=${toHex(signature)}`
+}
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { ADMIN_PERMISSIONS, authorizeAdmin } from '../_shared/adminAuth.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,11 +9,16 @@ const corsHeaders = {
   'Access-Control-Max-Age': '86400',
 }
 
-interface AdminUser {
-  id: string;
-  user_id: string;
-  role: 'super_admin' | 'admin' | 'viewer';
-  permissions: Record<string, boolean>;
+// admin_users.permissions overrides the role's defaults: { "<permission>": true | false }
+const invalidPermissionOverrides = (permissions: unknown): string | null => {
+  if (typeof permissions !== 'object' || permissions === null || Array.isArray(permissions)) {
+    return 'permissions must be an object of permission names to true or false'
+  }
+  for (const [key, value] of Object.entries(permissions)) {
+    if (!(ADMIN_PERMISSIONS as readonly string[]).includes(key)) return `Unknown permission: ${key}`
+    if (typeof value !== 'boolean') return `Permission ${key} must be true or false`
+  }
+  return null
 }
 
 serve(async (req) => {
@@ -97,21 +103,12 @@ async function handleAdminLogin(supabase: any, req: Request) {
     }
 
     // Check if user is an admin
-    const { data: adminUser, error: adminError } = await supabase
-      .from('admin_users')
-      .select(`
-        *,
-        users!admin_users_user_id_fkey (
-          email,
-          display_name,
-          created_at
-        )
-      `)
-      .eq('user_id', authData.user.id)
-      .single()
+    const { data: access, error: accessError } = await supabase.rpc('get_admin_access', {
+      p_user_id: authData.user.id
+    })
 
-    if (adminError || !adminUser) {
-      console.error('Admin check error:', adminError)
+    if (accessError || !access) {
+      console.error('Admin check error:', accessError)
       
       // Sign out the user since they're not an admin
       await supabase.auth.signOut()
@@ -124,8 +121,14 @@ async function handleAdminLogin(supabase: any, req: Request) {
       })
     }
 
+    const { data: profile } = await supabase
+      .from('users')
+      .select('email, display_name')
+      .eq('id', authData.user.id)
+      .single()
+
     // Log admin login activity
-    await logAdminActivity(supabase, adminUser.user_id, 'admin_login', {
+    await logAdminActivity(supabase, authData.user.id, 'admin_login', {
       login_timestamp: new Date().toISOString(),
       ip_address: req.headers.get('x-forwarded-for') || 'unknown'
     })
@@ -134,13 +137,12 @@ async function handleAdminLogin(supabase: any, req: Request) {
     return new Response(JSON.stringify({
       success: true,
       admin: {
-        id: adminUser.id,
-        user_id: adminUser.user_id,
-        email: adminUser.users.email,
-        display_name: adminUser.users.display_name,
-        role: adminUser.role,
-        permissions: adminUser.permissions,
-        created_at: adminUser.created_at
+        id: access.admin_id,
+        user_id: authData.user.id,
+        email: profile?.email ?? authData.user.email,
+        display_name: profile?.display_name,
+        role: access.role,
+        permissions: access.permissions
       },
       session: {
         access_token: authData.session.access_token,
@@ -185,27 +187,24 @@ async function handleVerifyAdmin(supabase: any, req: Request) {
       })
     }
 
-    // Get admin data
-    const { data: adminUser, error: adminError } = await supabase
-      .from('admin_users')
-      .select(`
-        *,
-        users!admin_users_user_id_fkey (
-          email,
-          display_name,
-          last_login
-        )
-      `)
-      .eq('user_id', user.id)
-      .single()
+    // Get admin role and effective permissions
+    const { data: access, error: accessError } = await supabase.rpc('get_admin_access', {
+      p_user_id: user.id
+    })
 
-    if (adminError || !adminUser) {
+    if (accessError || !access) {
       return new Response(JSON.stringify({ error: 'Admin privileges not found' }), {
         status: 403,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     }
 
+    const { data: profile } = await supabase
+      .from('users')
+      .select('email, display_name, last_login')
+      .eq('id', user.id)
+      .single()
+
     // Update last login timestamp
     await supabase
       .from('users')
@@ -215,13 +214,13 @@ async function handleVerifyAdmin(supabase: any, req: Request) {
     return new Response(JSON.stringify({
       valid: true,
       admin: {
-        id: adminUser.id,
-        user_id: adminUser.user_id,
-        email: adminUser.users.email,
-        display_name: adminUser.users.display_name,
-        role: adminUser.role,
-        permissions: adminUser.permissions,
-        last_login: adminUser.users.last_login
+        id: access.admin_id,
+        user_id: user.id,
+        email: profile?.email ?? user.email,
+        display_name: profile?.display_name,
+        role: access.role,
+        permissions: access.permissions,
+        last_login: profile?.last_login
       }
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -238,16 +237,17 @@ async function handleVerifyAdmin(supabase: any, req: Request) {
   }
 }
 
-// Promote user to admin (super admin only)
+// Promote user to admin (admins.manage)
 async function handlePromoteUser(supabase: any, req: Request) {
   try {
-    const adminUser = await verifyAdminAccess(supabase, req, 'super_admin')
-    if (!adminUser) {
-      return new Response(JSON.stringify({ error: 'Super admin access required' }), {
-        status: 403,
+    const auth = await authorizeAdmin(supabase, req, 'admins.manage')
+    if ('error' in auth) {
+      return new Response(JSON.stringify({ error: auth.error }), {
+        status: auth.status,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     }
+    const adminUser = auth.admin
 
     const { user_id, role = 'admin', permissions = {} } = await req.json()
 
@@ -265,6 +265,14 @@ async function handlePromoteUser(supabase: any, req: Request) {
       })
     }
 
+    const permissionsError = invalidPermissionOverrides(permissions)
+    if (permissionsError) {
+      return new Response(JSON.stringify({ error: permissionsError }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
     // Check if user exists
     const { data: user, error: userError } = await supabase
       .from('users')
@@ -301,7 +309,7 @@ async function handlePromoteUser(supabase: any, req: Request) {
 
       if (updateError) throw updateError
 
-      await logAdminActivity(supabase, adminUser.user_id, 'admin_role_updated', {
+      await logAdminActivity(supabase, adminUser.userId, 'admin_role_updated', {
         target_user_id: user_id,
         new_role: role,
         permissions
@@ -322,14 +330,14 @@ async function handlePromoteUser(supabase: any, req: Request) {
           user_id,
           role,
           permissions,
-          created_by: adminUser.id
+          created_by: adminUser.adminId
         })
         .select()
         .single()
 
       if (createError) throw createError
 
-      await logAdminActivity(supabase, adminUser.user_id, 'admin_promoted', {
+      await logAdminActivity(supabase, adminUser.userId, 'admin_promoted', {
         target_user_id: user_id,
         role,
         permissions
@@ -356,16 +364,17 @@ async function handlePromoteUser(supabase: any, req: Request) {
   }
 }
 
-// Demote admin user (super admin only)
+// Demote admin user (admins.manage)
 async function handleDemoteUser(supabase: any, req: Request) {
   try {
-    const adminUser = await verifyAdminAccess(supabase, req, 'super_admin')
-    if (!adminUser) {
-      return new Response(JSON.stringify({ error: 'Super admin access required' }), {
-        status: 403,
+    const auth = await authorizeAdmin(supabase, req, 'admins.manage')
+    if ('error' in auth) {
+      return new Response(JSON.stringify({ error: auth.error }), {
+        status: auth.status,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     }
+    const adminUser = auth.admin
 
     const { user_id } = await req.json()
 
@@ -377,7 +386,7 @@ async function handleDemoteUser(supabase: any, req: Request) {
     }
 
     // Prevent self-demotion
-    if (user_id === adminUser.user_id) {
+    if (user_id === adminUser.userId) {
       return new Response(JSON.stringify({ error: 'Cannot demote yourself' }), {
         status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -392,7 +401,7 @@ async function handleDemoteUser(supabase: any, req: Request) {
 
     if (deleteError) throw deleteError
 
-    await logAdminActivity(supabase, adminUser.user_id, 'admin_demoted', {
+    await logAdminActivity(supabase, adminUser.userId, 'admin_demoted', {
       target_user_id: user_id
     })
 
@@ -414,16 +423,17 @@ async function handleDemoteUser(supabase: any, req: Request) {
   }
 }
 
-// Update admin permissions
+// Update admin permission overrides (admins.manage)
 async function handleUpdatePermissions(supabase: any, req: Request) {
   try {
-    const adminUser = await verifyAdminAccess(supabase, req, 'super_admin')
-    if (!adminUser) {
-      return new Response(JSON.stringify({ error: 'Super admin access required' }), {
-        status: 403,
+    const auth = await authorizeAdmin(supabase, req, 'admins.manage')
+    if ('error' in auth) {
+      return new Response(JSON.stringify({ error: auth.error }), {
+        status: auth.status,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     }
+    const adminUser = auth.admin
 
     const { user_id, permissions } = await req.json()
 
@@ -434,6 +444,14 @@ async function handleUpdatePermissions(supabase: any, req: Request) {
       })
     }
 
+    const permissionsError = invalidPermissionOverrides(permissions)
+    if (permissionsError) {
+      return new Response(JSON.stringify({ error: permissionsError }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
     const { data: updatedAdmin, error } = await supabase
       .from('admin_users')
       .update({
@@ -446,7 +464,7 @@ async function handleUpdatePermissions(supabase: any, req: Request) {
 
     if (error) throw error
 
-    await logAdminActivity(supabase, adminUser.user_id, 'admin_permissions_updated', {
+    await logAdminActivity(supabase, adminUser.userId, 'admin_permissions_updated', {
       target_user_id: user_id,
       new_permissions: permissions
     })
@@ -473,10 +491,10 @@ async function handleUpdatePermissions(supabase: any, req: Request) {
 // Get admin sessions and activity
 async function handleGetAdminSessions(supabase: any, req: Request) {
   try {
-    const adminUser = await verifyAdminAccess(supabase, req)
-    if (!adminUser) {
-      return new Response(JSON.stringify({ error: 'Admin access required' }), {
-        status: 403,
+    const auth = await authorizeAdmin(supabase, req)
+    if ('error' in auth) {
+      return new Response(JSON.stringify({ error: auth.error }), {
+        status: auth.status,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     }
@@ -530,43 +548,6 @@ async function handleGetAdminSessions(supabase: any, req: Request) {
   }
 }
 
-// Helper function to verify admin access
-async function verifyAdminAccess(supabase: any, req: Request, requiredRole?: string): Promise<AdminUser | null> {
-  try {
-    const authHeader = req.headers.get('authorization')
-    if (!authHeader) return null
-
-    const { data: { user }, error: authError } = await supabase.auth.getUser(
-      authHeader.replace('Bearer ', '')
-    )
-
-    if (authError || !user) return null
-
-    const { data: adminUser, error: adminError } = await supabase
-      .from('admin_users')
-      .select('*')
-      .eq('user_id', user.id)
-      .single()
-
-    if (adminError || !adminUser) return null
-
-    // Check role requirements
-    if (requiredRole) {
-      if (requiredRole === 'super_admin' && adminUser.role !== 'super_admin') {
-        return null
-      }
-      if (requiredRole === 'admin' && !['super_admin', 'admin'].includes(adminUser.role)) {
-        return null
-      }
-    }
-
-    return adminUser
-  } catch (error) {
-    console.error('Verify admin access error:', error)
-    return null
-  }
-}
-
 // Helper function to log admin activities
 async function logAdminActivity(supabase: any, userId: string, activityType: string, activityData: any) {
   try {
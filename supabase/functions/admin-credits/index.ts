@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authorizeAdmin } from '../_shared/adminAuth.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,36 +19,16 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
-    // Verify admin access by checking auth header
-    const authHeader = req.headers.get('authorization')
-    if (!authHeader) {
+    const auth = await authorizeAdmin(supabase, req, 'credits.grant')
+    if ('error' in auth) {
       return new Response(
-        JSON.stringify({ error: 'Authorization required' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: auth.error }),
+        { status: auth.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
+    const { admin } = auth
 
-    // Get user from auth token
-    const { data: { user }, error: authError } = await supabase.auth.getUser(
-      authHeader.replace('Bearer ', '')
-    )
-
-    if (authError || !user) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid authorization' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    // Check if user is admin (email-based for now)
-    if (user.email !== 'admin@huybuilds.app') {
-      return new Response(
-        JSON.stringify({ error: 'Admin access required' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    console.log('Admin credits request from:', user.email)
+    console.log('Admin credits request from:', admin.email)
 
     // Parse request body
     const body = await req.json()
@@ -67,110 +48,24 @@ serve(async (req) => {
       )
     }
 
-    // Ensure user_credits record exists
-    const { data: existingCredits, error: checkError } = await supabase
-      .from('user_credits')
-      .select('*')
-      .eq('user_id', user_id)
-      .single()
-
-    let userCredits = existingCredits
-
-    if (checkError && checkError.code === 'PGRST116') {
-      // Create user_credits record if it doesn't exist
-      const { data: newCredits, error: insertError } = await supabase
-        .from('user_credits')
-        .insert({
-          user_id: user_id,
-          paid_credits: 0,
-          bonus_credits: 0,
-          free_credits_used_today: 0,
-          last_free_reset: new Date().toISOString().split('T')[0]
-        })
-        .select()
-        .single()
-
-      if (insertError) {
-        console.error('Error creating user_credits:', insertError)
-        return new Response(
-          JSON.stringify({ error: 'Failed to create user credits record' }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
-      }
-
-      userCredits = newCredits
-    } else if (checkError) {
-      console.error('Error checking user_credits:', checkError)
+    // Balances only change through the credits ledger
+    const { data: result, error: adjustError } = await supabase.rpc('admin_adjust_credits', {
+      p_user_id: user_id,
+      p_amount: action === 'grant' ? amount : -amount,
+      p_reason: reason,
+      p_admin_id: admin.userId
+    })
+
+    if (adjustError) {
+      console.error('Error adjusting credits:', adjustError)
+      const insufficient = adjustError.message?.startsWith('Insufficient credits')
       return new Response(
-        JSON.stringify({ error: 'Failed to check user credits' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: insufficient ? adjustError.message : 'Failed to update user credits' }),
+        { status: insufficient ? 400 : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
-    let newPaidCredits = userCredits.paid_credits
-    let newBonusCredits = userCredits.bonus_credits
-    let transactionType = ''
-    let transactionAmount = 0
-
-    if (action === 'grant') {
-      // Grant credits as bonus credits
-      newBonusCredits += amount
-      transactionType = 'bonus'
-      transactionAmount = amount
-    } else if (action === 'deduct') {
-      // Deduct credits (bonus first, then paid)
-      const totalCredits = userCredits.paid_credits + userCredits.bonus_credits
-      
-      if (totalCredits < amount) {
-        return new Response(
-          JSON.stringify({ error: `Insufficient credits. User has ${totalCredits} credits, trying to deduct ${amount}` }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
-      }
-
-      let deductFromBonus = Math.min(amount, userCredits.bonus_credits)
-      let deductFromPaid = amount - deductFromBonus
-
-      newBonusCredits = userCredits.bonus_credits - deductFromBonus
-      newPaidCredits = userCredits.paid_credits - deductFromPaid
-      transactionType = 'usage'
-      transactionAmount = -amount
-    }
-
-    // Update user_credits
-    const { error: updateError } = await supabase
-      .from('user_credits')
-      .update({
-        paid_credits: newPaidCredits,
-        bonus_credits: newBonusCredits
-      })
-      .eq('user_id', user_id)
-
-    if (updateError) {
-      console.error('Error updating user_credits:', updateError)
-      return new Response(
-        JSON.stringify({ error: 'Failed to update user credits' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    const newBalance = newPaidCredits + newBonusCredits
-
-    // Log the transaction
-    const { error: transactionError } = await supabase
-      .from('credit_transactions')
-      .insert({
-        user_id: user_id,
-        type: transactionType,
-        amount: transactionAmount,
-        balance_after: newBalance,
-        description: reason
-      })
-
-    if (transactionError) {
-      console.error('Error logging transaction:', transactionError)
-      // Don't fail the whole operation for transaction logging
-    }
+    const newBalance = result.new_balance
 
     console.log(`Admin ${action} credits: ${amount} for user ${user_id}. New balance: ${newBalance}`)
 
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AdminContext, AdminPermission, authorizeAdmin, hasPermission } from '../_shared/adminAuth.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,11 +9,11 @@ const corsHeaders = {
   'Access-Control-Max-Age': '86400',
 }
 
-interface AdminUser {
-  id: string;
-  user_id: string;
-  role: 'super_admin' | 'admin' | 'viewer';
-  permissions: Record<string, boolean>;
+const forbidden = (permission: AdminPermission) => {
+  return new Response(JSON.stringify({ error: `Insufficient permissions: ${permission} required` }), {
+    status: 403,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
 }
 
 serve(async (req) => {
@@ -28,40 +29,14 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
-    // Extract and verify admin authentication
-    const authHeader = req.headers.get('authorization')
-    if (!authHeader) {
-      return new Response(JSON.stringify({ error: 'Missing authorization header' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
-    // Verify the user's session and admin status
-    const { data: { user }, error: authError } = await supabase.auth.getUser(
-      authHeader.replace('Bearer ', '')
-    )
-
-    if (authError || !user) {
-      return new Response(JSON.stringify({ error: 'Invalid token' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
-    // Check if user is an admin
-    const { data: adminUser, error: adminError } = await supabase
-      .from('admin_users')
-      .select('*')
-      .eq('user_id', user.id)
-      .single()
-
-    if (adminError || !adminUser) {
-      return new Response(JSON.stringify({ error: 'Access denied: Admin privileges required' }), {
-        status: 403,
+    const auth = await authorizeAdmin(supabase, req, 'dashboard.view')
+    if ('error' in auth) {
+      return new Response(JSON.stringify({ error: auth.error }), {
+        status: auth.status,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     }
+    const adminUser = auth.admin
 
     const url = new URL(req.url)
     const path = url.pathname.split('/').pop()
@@ -231,8 +206,12 @@ async function handleMetrics(supabase: any, params: URLSearchParams) {
 }
 
 // Users handler
-async function handleUsers(supabase: any, params: URLSearchParams, adminUser: AdminUser) {
+async function handleUsers(supabase: any, params: URLSearchParams, adminUser: AdminContext) {
   try {
+    if (!hasPermission(adminUser, 'users.view')) {
+      return forbidden('users.view')
+    }
+
     const page = parseInt(params.get('page') || '1')
     const limit = parseInt(params.get('limit') || '50')
     const search = params.get('search')
@@ -423,13 +402,10 @@ async function handleGetAlerts(supabase: any) {
   }
 }
 
-async function handleCreateAlert(supabase: any, req: Request, adminUser: AdminUser) {
+async function handleCreateAlert(supabase: any, req: Request, adminUser: AdminContext) {
   try {
-    if (!['super_admin', 'admin'].includes(adminUser.role)) {
-      return new Response(JSON.stringify({ error: 'Insufficient permissions' }), {
-        status: 403,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+    if (!hasPermission(adminUser, 'alerts.manage')) {
+      return forbidden('alerts.manage')
     }
 
     const alertConfig = await req.json()
@@ -454,13 +430,10 @@ async function handleCreateAlert(supabase: any, req: Request, adminUser: AdminUs
   }
 }
 
-async function handleUpdateAlert(supabase: any, req: Request, adminUser: AdminUser) {
+async function handleUpdateAlert(supabase: any, req: Request, adminUser: AdminContext) {
   try {
-    if (!['super_admin', 'admin'].includes(adminUser.role)) {
-      return new Response(JSON.stringify({ error: 'Insufficient permissions' }), {
-        status: 403,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+    if (!hasPermission(adminUser, 'alerts.manage')) {
+      return forbidden('alerts.manage')
     }
 
     const { id, ...updates } = await req.json()
@@ -486,13 +459,10 @@ async function handleUpdateAlert(supabase: any, req: Request, adminUser: AdminUs
   }
 }
 
-async function handleDeleteAlert(supabase: any, params: URLSearchParams, adminUser: AdminUser) {
+async function handleDeleteAlert(supabase: any, params: URLSearchParams, adminUser: AdminContext) {
   try {
-    if (adminUser.role !== 'super_admin') {
-      return new Response(JSON.stringify({ error: 'Insufficient permissions' }), {
-        status: 403,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+    if (!hasPermission(adminUser, 'alerts.manage')) {
+      return forbidden('alerts.manage')
     }
 
     const id = params.get('id')
@@ -523,12 +493,17 @@ async function handleDeleteAlert(supabase: any, params: URLSearchParams, adminUs
 }
 
 // Export handler
-async function handleExport(supabase: any, params: URLSearchParams, adminUser: AdminUser) {
+async function handleExport(supabase: any, params: URLSearchParams, adminUser: AdminContext) {
   try {
     const exportType = params.get('type') || 'users'
     const format = params.get('format') || 'csv'
     const filters = JSON.parse(params.get('filters') || '{}')
 
+    const permission: AdminPermission = exportType === 'analytics' ? 'export.data' : 'export.pii'
+    if (!hasPermission(adminUser, permission)) {
+      return forbidden(permission)
+    }
+
     let data: any[] = []
     let filename = ''
 
@@ -574,7 +549,7 @@ async function handleExport(supabase: any, params: URLSearchParams, adminUser: A
     await supabase
       .from('export_logs')
       .insert({
-        exported_by: adminUser.id,
+        exported_by: adminUser.adminId,
         export_type: exportType,
         export_format: format,
         filters,
@@ -669,12 +644,18 @@ function calculateRevenueSummary(data: any[]): any {
     acc.netRevenue += item.net_revenue || 0
     acc.totalRefunds += item.refunds || 0
     acc.stripeFees += item.stripe_fees || 0
+    // Totals are in the base currency; this keeps what was charged in each currency
+    for (const [currency, amount] of Object.entries(item.revenue_by_currency || {})) {
+      acc.revenueByCurrency[currency] = (acc.revenueByCurrency[currency] || 0) + (amount as number)
+    }
     return acc
   }, {
     totalRevenue: 0,
     netRevenue: 0,
     totalRefunds: 0,
-    stripeFees: 0
+    stripeFees: 0,
+    baseCurrency: 'USD',
+    revenueByCurrency: {} as Record<string, number>
   })
 }
 
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AdminContext, authorizeAdmin, hasPermission } from '../_shared/adminAuth.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,13 +9,6 @@ const corsHeaders = {
   'Access-Control-Max-Age': '86400',
 }
 
-interface AdminUser {
-  id: string;
-  user_id: string;
-  role: 'super_admin' | 'admin' | 'viewer';
-  permissions: Record<string, boolean>;
-}
-
 interface ExportRequest {
   type: 'users' | 'transactions' | 'analytics' | 'payments' | 'activity_logs';
   format: 'csv' | 'json' | 'excel';
@@ -43,13 +37,14 @@ serve(async (req) => {
     )
 
     // Verify admin authentication
-    const adminUser = await verifyAdminAccess(supabase, req)
-    if (!adminUser) {
-      return new Response(JSON.stringify({ error: 'Admin access required' }), {
-        status: 403,
+    const auth = await authorizeAdmin(supabase, req, 'export.data')
+    if ('error' in auth) {
+      return new Response(JSON.stringify({ error: auth.error }), {
+        status: auth.status,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     }
+    const adminUser = auth.admin
 
     const url = new URL(req.url)
     const action = url.pathname.split('/').pop()
@@ -86,7 +81,7 @@ serve(async (req) => {
 })
 
 // Handle data export requests
-async function handleExport(supabase: any, req: Request, adminUser: AdminUser) {
+async function handleExport(supabase: any, req: Request, adminUser: AdminContext) {
   try {
     const exportRequest: ExportRequest = await req.json()
     const { type, format, filters = {}, columns } = exportRequest
@@ -106,6 +101,14 @@ async function handleExport(supabase: any, req: Request, adminUser: AdminUser) {
       })
     }
 
+    // Everything but aggregate analytics identifies individual users
+    if (type !== 'analytics' && !hasPermission(adminUser, 'export.pii')) {
+      return new Response(JSON.stringify({ error: 'Insufficient permissions: export.pii required' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
     // Get data based on type
     let data: any[] = []
     let filename = ''
@@ -155,7 +158,8 @@ async function handleExport(supabase: any, req: Request, adminUser: AdminUser) {
     const { data: exportLog, error: logError } = await supabase
       .from('export_logs')
       .insert({
-        exported_by: adminUser.id,
+        exported_by: adminUser.adminId,
+        exported_by_user: adminUser.userId,
         export_type: type,
         export_format: format,
         filters,
@@ -512,7 +516,7 @@ async function handleGetExportTemplates(supabase: any) {
 }
 
 // Get export history
-async function handleExportHistory(supabase: any, adminUser: AdminUser) {
+async function handleExportHistory(supabase: any, adminUser: AdminContext) {
   try {
     const { data: exports, error } = await supabase
       .from('export_logs')
@@ -523,6 +527,10 @@ async function handleExportHistory(supabase: any, adminUser: AdminUser) {
             email,
             display_name
           )
+        ),
+        exporter:users!export_logs_exported_by_user_fkey (
+          email,
+          display_name
         )
       `)
       .order('created_at', { ascending: false })
@@ -532,9 +540,10 @@ async function handleExportHistory(supabase: any, adminUser: AdminUser) {
 
     const processedExports = exports?.map(exp => ({
       ...exp,
-      exported_by_email: exp.admin_users?.users?.email,
-      exported_by_name: exp.admin_users?.users?.display_name,
-      admin_users: undefined
+      exported_by_email: exp.admin_users?.users?.email || exp.exporter?.email,
+      exported_by_name: exp.admin_users?.users?.display_name || exp.exporter?.display_name,
+      admin_users: undefined,
+      exporter: undefined
     })) || []
 
     return new Response(JSON.stringify({ exports: processedExports }), {
@@ -550,7 +559,7 @@ async function handleExportHistory(supabase: any, adminUser: AdminUser) {
 }
 
 // Download previous export (if we were storing files)
-async function handleDownloadExport(supabase: any, params: URLSearchParams, adminUser: AdminUser) {
+async function handleDownloadExport(supabase: any, params: URLSearchParams, adminUser: AdminContext) {
   const exportId = params.get('id')
   
   if (!exportId) {
@@ -611,31 +620,4 @@ function convertToCSV(data: any[]): string {
   ]
   
   return csvRows.join('\n')
-}
-
-// Helper function to verify admin access
-async function verifyAdminAccess(supabase: any, req: Request): Promise<AdminUser | null> {
-  try {
-    const authHeader = req.headers.get('authorization')
-    if (!authHeader) return null
-
-    const { data: { user }, error: authError } = await supabase.auth.getUser(
-      authHeader.replace('Bearer ', '')
-    )
-
-    if (authError || !user) return null
-
-    const { data: adminUser, error: adminError } = await supabase
-      .from('admin_users')
-      .select('*')
-      .eq('user_id', user.id)
-      .single()
-
-    if (adminError || !adminUser) return null
-
-    return adminUser
-  } catch (error) {
-    console.error('Verify admin access error:', error)
-    return null
-  }
 }
\ No newline at end of file
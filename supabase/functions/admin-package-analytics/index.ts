@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authorizeAdmin } from '../_shared/adminAuth.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -21,37 +22,10 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
-    // Extract and verify admin authentication
-    const authHeader = req.headers.get('authorization')
-    if (!authHeader) {
-      return new Response(JSON.stringify({ error: 'Missing authorization header' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
-    // Verify the user's session and admin status
-    const { data: { user }, error: authError } = await supabase.auth.getUser(
-      authHeader.replace('Bearer ', '')
-    )
-
-    if (authError || !user) {
-      return new Response(JSON.stringify({ error: 'Invalid token' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
-    // Check if user is admin
-    const { data: userProfile, error: profileError } = await supabase
-      .from('user_profiles')
-      .select('is_admin')
-      .eq('id', user.id)
-      .single()
-
-    if (profileError || !userProfile?.is_admin) {
-      return new Response(JSON.stringify({ error: 'Admin access required' }), {
-        status: 403,
+    const auth = await authorizeAdmin(supabase, req, 'dashboard.view')
+    if ('error' in auth) {
+      return new Response(JSON.stringify({ error: auth.error }), {
+        status: auth.status,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     }
@@ -184,6 +158,52 @@ serve(async (req) => {
               headers: { ...corsHeaders, 'Content-Type': 'application/json' }
             })
 
+          case 'ratings':
+            // Get user ratings and reason tags per theme
+            const { data: ratingSummary, error: ratingError } = await supabase.rpc('get_theme_rating_summary', {
+              p_package_id: packageId,
+              p_start_date: startDate,
+              p_end_date: endDate
+            })
+
+            if (ratingError) {
+              return new Response(JSON.stringify({ error: ratingError.message }), {
+                status: 500,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+              })
+            }
+
+            return new Response(JSON.stringify({
+              ratings: ratingSummary || [],
+              type: 'ratings'
+            }), {
+              status: 200,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            })
+
+          case 'identity':
+            // Get identity similarity scores per theme, most drift first
+            const { data: identityDrift, error: identityError } = await supabase.rpc('get_theme_identity_drift', {
+              p_package_id: packageId,
+              p_start_date: startDate,
+              p_end_date: endDate
+            })
+
+            if (identityError) {
+              return new Response(JSON.stringify({ error: identityError.message }), {
+                status: 500,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+              })
+            }
+
+            return new Response(JSON.stringify({
+              identity: identityDrift || [],
+              type: 'identity'
+            }), {
+              status: 200,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            })
+
           case 'revenue':
             // Get revenue analytics
             let revenueQuery = supabase
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authorizeAdmin } from '../_shared/adminAuth.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -17,6 +18,14 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
+    const auth = await authorizeAdmin(supabase, req, 'admins.manage')
+    if ('error' in auth) {
+      return new Response(
+        JSON.stringify({ error: auth.error }),
+        { status: auth.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
     const { email } = await req.json()
     
     if (!email) {
@@ -46,12 +55,7 @@ serve(async (req) => {
       .upsert({
         user_id: user.id,
         role: 'admin',
-        permissions: {
-          dashboard: true,
-          users: true,
-          analytics: true,
-          exports: true
-        }
+        created_by: auth.admin.adminId
       }, {
         onConflict: 'user_id'
       })
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AdminContext, authorizeAdmin, hasPermission } from '../_shared/adminAuth.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,13 +9,6 @@ const corsHeaders = {
   'Access-Control-Max-Age': '86400',
 }
 
-interface AdminUser {
-  id: string;
-  user_id: string;
-  role: 'super_admin' | 'admin' | 'viewer';
-  permissions: Record<string, boolean>;
-}
-
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -28,40 +22,14 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
-    // Extract and verify admin authentication
-    const authHeader = req.headers.get('authorization')
-    if (!authHeader) {
-      return new Response(JSON.stringify({ error: 'Missing authorization header' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
-    // Verify the user's session and admin status
-    const { data: { user }, error: authError } = await supabase.auth.getUser(
-      authHeader.replace('Bearer ', '')
-    )
-
-    if (authError || !user) {
-      return new Response(JSON.stringify({ error: 'Invalid token' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
-    // Check if user is an admin
-    const { data: adminUser, error: adminError } = await supabase
-      .from('admin_users')
-      .select('*')
-      .eq('user_id', user.id)
-      .single()
-
-    if (adminError || !adminUser) {
-      return new Response(JSON.stringify({ error: 'Access denied: Admin privileges required' }), {
-        status: 403,
+    const auth = await authorizeAdmin(supabase, req, 'users.view')
+    if ('error' in auth) {
+      return new Response(JSON.stringify({ error: auth.error }), {
+        status: auth.status,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     }
+    const adminUser = auth.admin
 
     const url = new URL(req.url)
     const pathSegments = url.pathname.split('/').filter(Boolean)
@@ -114,7 +82,7 @@ serve(async (req) => {
 })
 
 // Get multiple users with filtering, pagination, and sorting
-async function handleGetUsers(supabase: any, params: URLSearchParams, adminUser: AdminUser) {
+async function handleGetUsers(supabase: any, params: URLSearchParams, adminUser: AdminContext) {
   try {
     const page = parseInt(params.get('page') || '1')
     const limit = Math.min(parseInt(params.get('limit') || '50'), 100) // Max 100
@@ -226,7 +194,7 @@ async function handleGetUsers(supabase: any, params: URLSearchParams, adminUser:
 }
 
 // Get single user with detailed information
-async function handleGetUser(supabase: any, userId: string, adminUser: AdminUser) {
+async function handleGetUser(supabase: any, userId: string, adminUser: AdminContext) {
   try {
     // Get user details
     const { data: user, error: userError } = await supabase
@@ -324,11 +292,11 @@ async function handleGetUser(supabase: any, userId: string, adminUser: AdminUser
   }
 }
 
-// Create new user (admin only)
-async function handleCreateUser(supabase: any, req: Request, adminUser: AdminUser) {
+// Create new user (users.edit)
+async function handleCreateUser(supabase: any, req: Request, adminUser: AdminContext) {
   try {
-    if (!['super_admin', 'admin'].includes(adminUser.role)) {
-      return new Response(JSON.stringify({ error: 'Insufficient permissions' }), {
+    if (!hasPermission(adminUser, 'users.edit')) {
+      return new Response(JSON.stringify({ error: 'Insufficient permissions: users.edit required' }), {
         status: 403,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
@@ -337,6 +305,13 @@ async function handleCreateUser(supabase: any, req: Request, adminUser: AdminUse
     const userData = await req.json()
     const { email, password, display_name, initial_credits = 0 } = userData
 
+    if (initial_credits > 0 && !hasPermission(adminUser, 'credits.grant')) {
+      return new Response(JSON.stringify({ error: 'Insufficient permissions: credits.grant required' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
     if (!email || !password) {
       return new Response(JSON.stringify({ error: 'Email and password are required' }), {
         status: 400,
@@ -380,7 +355,7 @@ async function handleCreateUser(supabase: any, req: Request, adminUser: AdminUse
         user_id: authUser.user.id,
         activity_type: 'admin_created',
         activity_data: {
-          created_by: adminUser.user_id,
+          created_by: adminUser.userId,
           initial_credits
         }
       })
@@ -411,11 +386,11 @@ async function handleCreateUser(supabase: any, req: Request, adminUser: AdminUse
   }
 }
 
-// Update user (admin only)
-async function handleUpdateUser(supabase: any, req: Request, userId: string, adminUser: AdminUser) {
+// Update user (users.edit)
+async function handleUpdateUser(supabase: any, req: Request, userId: string, adminUser: AdminContext) {
   try {
-    if (!['super_admin', 'admin'].includes(adminUser.role)) {
-      return new Response(JSON.stringify({ error: 'Insufficient permissions' }), {
+    if (!hasPermission(adminUser, 'users.edit')) {
+      return new Response(JSON.stringify({ error: 'Insufficient permissions: users.edit required' }), {
         status: 403,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
@@ -424,6 +399,13 @@ async function handleUpdateUser(supabase: any, req: Request, userId: string, adm
     const updates = await req.json()
     const { display_name, email, credits_adjustment, note } = updates
 
+    if (credits_adjustment && !hasPermission(adminUser, 'credits.grant')) {
+      return new Response(JSON.stringify({ error: 'Insufficient permissions: credits.grant required' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
     // Update user profile
     const userUpdates: any = {}
     if (display_name !== undefined) userUpdates.display_name = display_name
@@ -461,60 +443,15 @@ async function handleUpdateUser(supabase: any, req: Request, userId: string, adm
 
     // Handle credits adjustment
     if (credits_adjustment && credits_adjustment !== 0) {
-      const adjustmentType = credits_adjustment > 0 ? 'bonus' : 'admin_adjustment'
-      
-      if (credits_adjustment > 0) {
-        // Add bonus credits
-        await supabase.rpc('add_paid_credits', {
-          p_user_id: userId,
-          p_credits: credits_adjustment,
-          p_stripe_payment_id: null,
-          p_description: `Admin adjustment: ${note || 'No note provided'}`
-        })
-      } else {
-        // Deduct credits
-        const { data: currentCredits } = await supabase
-          .from('user_credits')
-          .select('paid_credits, bonus_credits')
-          .eq('user_id', userId)
-          .single()
-
-        if (currentCredits) {
-          const totalCredits = currentCredits.paid_credits + currentCredits.bonus_credits
-          const newTotal = Math.max(0, totalCredits + credits_adjustment)
-          
-          // Adjust bonus credits first, then paid credits if needed
-          let newBonusCredits = currentCredits.bonus_credits
-          let newPaidCredits = currentCredits.paid_credits
-          
-          const reduction = Math.abs(credits_adjustment)
-          if (newBonusCredits >= reduction) {
-            newBonusCredits -= reduction
-          } else {
-            const remainingReduction = reduction - newBonusCredits
-            newBonusCredits = 0
-            newPaidCredits = Math.max(0, newPaidCredits - remainingReduction)
-          }
-
-          await supabase
-            .from('user_credits')
-            .update({
-              paid_credits: newPaidCredits,
-              bonus_credits: newBonusCredits
-            })
-            .eq('user_id', userId)
-
-          // Log the adjustment
-          await supabase
-            .from('credit_transactions')
-            .insert({
-              user_id: userId,
-              type: 'admin_adjustment',
-              amount: credits_adjustment,
-              balance_after: newPaidCredits + newBonusCredits,
-              description: `Admin adjustment: ${note || 'No note provided'}`
-            })
-        }
+      const { error: adjustError } = await supabase.rpc('admin_adjust_credits', {
+        p_user_id: userId,
+        p_amount: credits_adjustment,
+        p_reason: `Admin adjustment: ${note || 'No note provided'}`,
+        p_admin_id: adminUser.userId
+      })
+
+      if (adjustError) {
+        console.error('Error adjusting credits:', adjustError)
       }
     }
 
@@ -525,7 +462,7 @@ async function handleUpdateUser(supabase: any, req: Request, userId: string, adm
         user_id: userId,
         activity_type: 'admin_updated',
         activity_data: {
-          updated_by: adminUser.user_id,
+          updated_by: adminUser.userId,
           changes: updates,
           note
         }
@@ -556,18 +493,18 @@ async function handleUpdateUser(supabase: any, req: Request, userId: string, adm
   }
 }
 
-// Delete user (super admin only)
-async function handleDeleteUser(supabase: any, userId: string, adminUser: AdminUser) {
+// Delete user (users.delete)
+async function handleDeleteUser(supabase: any, userId: string, adminUser: AdminContext) {
   try {
-    if (adminUser.role !== 'super_admin') {
-      return new Response(JSON.stringify({ error: 'Only super admins can delete users' }), {
+    if (!hasPermission(adminUser, 'users.delete')) {
+      return new Response(JSON.stringify({ error: 'Insufficient permissions: users.delete required' }), {
         status: 403,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     }
 
     // Prevent self-deletion
-    if (userId === adminUser.user_id) {
+    if (userId === adminUser.userId) {
       return new Response(JSON.stringify({ error: 'Cannot delete your own account' }), {
         status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -598,7 +535,7 @@ async function handleDeleteUser(supabase: any, userId: string, adminUser: AdminU
         user_id: userId,
         activity_type: 'admin_deleted',
         activity_data: {
-          deleted_by: adminUser.user_id,
+          deleted_by: adminUser.userId,
           user_email: user.email,
           deletion_timestamp: new Date().toISOString()
         }
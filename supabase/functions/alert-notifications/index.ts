@@ -0,0 +1,61 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authenticatedCorsHeaders as corsHeaders } from '../_shared/cors.ts'
+import { retryDelivery, sendTestAlert } from '../_shared/alertDelivery.ts'
+import { authorizeAdmin } from '../_shared/adminAuth.ts'
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+)
+
+const jsonResponse = (body: unknown, status = 200) => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+/**
+ * Admin actions on alert notifications. Channels and the delivery log are
+ * read and edited directly through RLS; sending needs the channel secrets, so
+ * it happens here.
+ *
+ * POST { action: 'test', channel_id } sends a test alert to one channel.
+ * POST { action: 'retry', delivery_id } sends a failed delivery again.
+ * Both return the delivery with its outcome.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const auth = await authorizeAdmin(supabase, req, 'alerts.manage')
+    if ('error' in auth) {
+      return jsonResponse({ error: auth.error }, auth.status)
+    }
+
+    const { action, channel_id, delivery_id } = await req.json()
+
+    switch (action) {
+      case 'test':
+        if (!channel_id) return jsonResponse({ error: 'channel_id is required' }, 400)
+        return jsonResponse({ delivery: await sendTestAlert(supabase, channel_id) })
+
+      case 'retry':
+        if (!delivery_id) return jsonResponse({ error: 'delivery_id is required' }, 400)
+        return jsonResponse({ delivery: await retryDelivery(supabase, delivery_id) })
+
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+  } catch (error) {
+    console.error('Alert notifications error:', error)
+    return jsonResponse({ error: error.message || 'Failed to process request' }, 500)
+  }
+})
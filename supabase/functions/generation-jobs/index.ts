@@ -0,0 +1,138 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4'
+import { corsHeaders } from '../_shared/cors.ts'
+import { asUuid } from '../_shared/portraitStorage.ts'
+import { getClientIP } from '../_shared/rateLimits.ts'
+import {
+  createJob,
+  getJob,
+  cancelJob,
+  processJob,
+  runInBackground,
+  type CreateJobInput
+} from '../_shared/generationJobs.ts'
+
+// Environment variables
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+// Create Supabase client with service role
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+
+interface CreateJobRequest extends Omit<CreateJobInput, 'apiKeyId' | 'clientIp' | 'userAgent'> {
+  action: 'create'
+}
+
+interface CancelJobRequest {
+  action: 'cancel'
+  jobId: string
+}
+
+const jsonResponse = (body: unknown, status = 200) => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+const getAuthenticatedUserId = async (req: Request): Promise<string | null> => {
+  const authHeader = req.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) return null
+
+  const token = authHeader.replace('Bearer ', '')
+  // Anon/publishable keys are not user sessions
+  if (!token.includes('.') || token.startsWith('sb_')) return null
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser(token)
+    return user?.id || null
+  } catch (error) {
+    console.warn('Failed to get user from token:', error)
+    return null
+  }
+}
+
+const handleCreate = async (req: Request, userId: string, body: CreateJobRequest) => {
+  const result = await createJob(supabase, userId, {
+    imageData: body.imageData,
+    imageType: body.imageType,
+    styles: body.styles,
+    photoType: body.photoType,
+    generationId: body.generationId,
+    sessionId: body.sessionId,
+    packageId: body.packageId,
+    usageId: body.usageId,
+    organizationId: body.organizationId,
+    clientIp: getClientIP(req),
+    userAgent: req.headers.get('user-agent')
+  })
+  if ('error' in result) {
+    return jsonResponse({ error: result.error }, result.status)
+  }
+
+  runInBackground(processJob(supabase, result.jobId))
+
+  return jsonResponse({ success: true, jobId: result.jobId, status: 'queued' }, 202)
+}
+
+const handleGet = async (userId: string, jobId: string) => {
+  const view = await getJob(supabase, userId, jobId)
+  if (!view) {
+    return jsonResponse({ error: 'Job not found' }, 404)
+  }
+
+  return jsonResponse({ success: true, ...view })
+}
+
+const handleCancel = async (userId: string, body: CancelJobRequest) => {
+  const found = await cancelJob(supabase, userId, body.jobId)
+  if (!found) {
+    return jsonResponse({ error: 'Job not found' }, 404)
+  }
+
+  return jsonResponse({ success: true, jobId: body.jobId, status: 'cancelled' })
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Background jobs spend credits, so they are only available to signed-in users
+    const userId = await getAuthenticatedUserId(req)
+    if (!userId) {
+      return jsonResponse({ error: 'Authentication required' }, 401)
+    }
+
+    if (req.method === 'GET') {
+      const jobId = new URL(req.url).searchParams.get('jobId')
+      if (!jobId || !asUuid(jobId)) {
+        return jsonResponse({ error: 'Missing or invalid jobId' }, 400)
+      }
+      return await handleGet(userId, jobId)
+    }
+
+    if (req.method === 'POST') {
+      const body = await req.json()
+      switch (body.action) {
+        case 'create':
+          return await handleCreate(req, userId, body as CreateJobRequest)
+        case 'cancel':
+          return await handleCancel(userId, body as CancelJobRequest)
+        default:
+          return jsonResponse({ error: 'Invalid action. Must be "create" or "cancel"' }, 400)
+      }
+    }
+
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+
+  } catch (error) {
+    console.error('Generation jobs error:', error)
+    return jsonResponse({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500)
+  }
+})
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { deliverDueAlerts } from '../_shared/alertDelivery.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -36,6 +37,9 @@ serve(async (req) => {
       
       case 'alerts':
         return await handleCheckAlerts(supabase)
+
+      case 'deliver':
+        return await handleDeliverAlerts(supabase)
       
       case 'revenue':
         return await handleRevenueAggregation(supabase)
@@ -140,7 +144,7 @@ async function handleRealTimeMetrics(supabase: any) {
       // Revenue today
       supabase
         .from('payment_logs')
-        .select('amount')
+        .select('amount, currency')
         .eq('status', 'succeeded')
         .gte('created_at', today),
 
@@ -174,6 +178,8 @@ async function handleRealTimeMetrics(supabase: any) {
       performanceResult
     ] = metrics
 
+    const rates = await loadExchangeRates(supabase)
+
     // Calculate real-time metrics
     const realTimeMetrics = {
       timestamp: now.toISOString(),
@@ -182,7 +188,8 @@ async function handleRealTimeMetrics(supabase: any) {
         new Set(activeSessionsResult.value.data?.map((log: any) => log.user_id)).size : 0,
       generationsToday: generationsResult.status === 'fulfilled' ? generationsResult.value.count : 0,
       revenueToday: revenueResult.status === 'fulfilled' ? 
-        revenueResult.value.data?.reduce((sum: number, payment: any) => sum + payment.amount, 0) : 0,
+        revenueResult.value.data?.reduce((sum: number, payment: any) =>
+          sum + toBaseCurrency(payment.amount, payment.currency, rates), 0) : 0,
       creditsUsedToday: creditsUsedResult.status === 'fulfilled' ? 
         Math.abs(creditsUsedResult.value.data?.reduce((sum: number, tx: any) => sum + tx.amount, 0)) : 0,
       pendingAlerts: alertsResult.status === 'fulfilled' ? alertsResult.value.count : 0,
@@ -278,26 +285,14 @@ async function handleCheckAlerts(supabase: any) {
       throw error
     }
 
-    // Get any new alerts created in the last minute
-    const oneMinuteAgo = new Date(Date.now() - 60 * 1000).toISOString()
-    const { data: newAlerts } = await supabase
-      .from('alert_history')
-      .select(`
-        *,
-        alert_configs (alert_type, alert_channels)
-      `)
-      .gte('triggered_at', oneMinuteAgo)
-      .is('resolved_at', null)
-
-    // Process new alerts (send notifications, etc.)
-    if (newAlerts && newAlerts.length > 0) {
-      await processNewAlerts(supabase, newAlerts)
-    }
+    // New alerts queue their notifications on insert; send those and any
+    // retries that are due
+    const deliveries = await deliverDueAlerts(supabase)
 
     return new Response(JSON.stringify({
       success: true,
       alertsChecked: true,
-      newAlerts: newAlerts?.length || 0
+      deliveries
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     })
@@ -313,6 +308,30 @@ async function handleCheckAlerts(supabase: any) {
   }
 }
 
+// Send queued alert notifications, including retries whose backoff has passed.
+// Schedule this every minute so failed deliveries are retried between alert checks.
+async function handleDeliverAlerts(supabase: any) {
+  try {
+    const deliveries = await deliverDueAlerts(supabase)
+
+    return new Response(JSON.stringify({
+      success: true,
+      deliveries
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  } catch (error) {
+    console.error('Deliver alerts error:', error)
+    return new Response(JSON.stringify({ 
+      error: 'Failed to deliver alerts',
+      details: error.message 
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+}
+
 // Handle revenue aggregation
 async function handleRevenueAggregation(supabase: any) {
   try {
@@ -341,6 +360,30 @@ async function handleRevenueAggregation(supabase: any) {
   }
 }
 
+const BASE_CURRENCY = 'USD'
+
+// Value of one unit of each currency in the base currency
+async function loadExchangeRates(supabase: any): Promise<Record<string, number>> {
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('currency, rate_to_base')
+
+  if (error) {
+    console.error('Error fetching exchange rates:', error)
+    throw error
+  }
+
+  return Object.fromEntries((data || []).map((rate: any) => [rate.currency, Number(rate.rate_to_base)]))
+}
+
+// Minor units of a currency in base currency minor units
+function toBaseCurrency(amount: number, currency: string | null, rates: Record<string, number>): number {
+  const code = (currency || BASE_CURRENCY).toUpperCase()
+  if (code === BASE_CURRENCY) return amount
+  if (!rates[code]) console.warn(`No exchange rate for ${code}, counting it as ${BASE_CURRENCY}`)
+  return Math.round(amount * (rates[code] || 1))
+}
+
 // Helper function to aggregate revenue data
 async function aggregateRevenueData(supabase: any, date: string) {
   const startDate = `${date}T00:00:00.000Z`
@@ -359,19 +402,25 @@ async function aggregateRevenueData(supabase: any, date: string) {
     throw error
   }
 
-  // Group by product type based on amount
+  const rates = await loadExchangeRates(supabase)
+
+  // Group by the pack recorded at checkout, or by amount for older USD payments.
+  // Revenue is summed in the base currency; revenue_by_currency keeps the originals.
   const revenueByProduct = payments.reduce((acc: any, payment: any) => {
-    let productType = 'unknown'
-    switch (payment.amount) {
-      case 499:
-        productType = 'starter_pack'
-        break
-      case 999:
-        productType = 'wedding_pack'
-        break
-      case 2499:
-        productType = 'party_pack'
-        break
+    const currency = (payment.currency || 'USD').toUpperCase()
+    let productType = payment.metadata?.pack_id ? `${payment.metadata.pack_id}_pack` : 'unknown'
+    if (productType === 'unknown' && currency === 'USD') {
+      switch (payment.amount) {
+        case 499:
+          productType = 'starter_pack'
+          break
+        case 999:
+          productType = 'wedding_pack'
+          break
+        case 2499:
+          productType = 'party_pack'
+          break
+      }
     }
 
     if (!acc[productType]) {
@@ -380,16 +429,21 @@ async function aggregateRevenueData(supabase: any, date: string) {
         gross_revenue: 0,
         net_revenue: 0,
         refunds: 0,
-        stripe_fees: 0
+        stripe_fees: 0,
+        base_currency: BASE_CURRENCY,
+        revenue_by_currency: {}
       }
     }
 
+    const amount = toBaseCurrency(payment.amount, currency, rates)
     acc[productType].quantity_sold++
-    acc[productType].gross_revenue += payment.amount
+    acc[productType].gross_revenue += amount
+    acc[productType].revenue_by_currency[currency] =
+      (acc[productType].revenue_by_currency[currency] || 0) + payment.amount
     // Estimate stripe fees (2.9% + 30 cents)
-    const stripeFee = Math.round(payment.amount * 0.029 + 30)
+    const stripeFee = Math.round(amount * 0.029 + 30)
     acc[productType].stripe_fees += stripeFee
-    acc[productType].net_revenue += (payment.amount - stripeFee)
+    acc[productType].net_revenue += (amount - stripeFee)
 
     return acc
   }, {})
@@ -432,7 +486,8 @@ function processSystemMetrics(metrics: any[]) {
   return processed
 }
 
-// Helper function to check alerts for specific metrics
+// Helper function to check alerts for specific metrics. Rules with a window
+// compare the metric's average over that window instead of the single value.
 async function checkAlertsForMetric(supabase: any, metricType: string, metricValue: number) {
   try {
     // Get alert configs for this metric type
@@ -444,76 +499,78 @@ async function checkAlertsForMetric(supabase: any, metricType: string, metricVal
 
     if (!configs || configs.length === 0) return
 
+    let triggered = false
     for (const config of configs) {
+      let value = metricValue
+      if (config.window_minutes > 0) {
+        const windowStart = new Date(Date.now() - config.window_minutes * 60 * 1000)
+        const { data: recent } = await supabase
+          .from('system_metrics')
+          .select('metric_value')
+          .eq('metric_type', metricType)
+          .gte('timestamp', windowStart.toISOString())
+
+        if (recent && recent.length > 0) {
+          value = recent.reduce((sum: number, row: any) => sum + Number(row.metric_value), 0) / recent.length
+        }
+      }
+
+      const threshold = Number(config.threshold_value)
       let shouldTrigger = false
       
       switch (config.comparison_operator) {
         case '>':
-          shouldTrigger = metricValue > config.threshold_value
+          shouldTrigger = value > threshold
           break
         case '<':
-          shouldTrigger = metricValue < config.threshold_value
+          shouldTrigger = value < threshold
           break
         case '>=':
-          shouldTrigger = metricValue >= config.threshold_value
+          shouldTrigger = value >= threshold
           break
         case '<=':
-          shouldTrigger = metricValue <= config.threshold_value
+          shouldTrigger = value <= threshold
           break
         case '=':
-          shouldTrigger = metricValue === config.threshold_value
+          shouldTrigger = value === threshold
           break
       }
 
       if (shouldTrigger) {
-        // Check if alert was recently triggered to avoid spam
-        const recentThreshold = new Date(Date.now() - 60 * 60 * 1000) // 1 hour ago
+        // Don't fire again while the last alert is open or within the rule's cooldown
+        const cooldownStart = new Date(Date.now() - (config.cooldown_minutes ?? 60) * 60 * 1000)
         const { data: recentAlerts } = await supabase
           .from('alert_history')
           .select('id')
           .eq('alert_config_id', config.id)
-          .gte('triggered_at', recentThreshold.toISOString())
-          .is('resolved_at', null)
+          .or(`resolved_at.is.null,triggered_at.gte.${cooldownStart.toISOString()}`)
+          .limit(1)
 
         if (!recentAlerts || recentAlerts.length === 0) {
+          const roundedValue = Math.round(value * 100) / 100
           // Create new alert
           await supabase
             .from('alert_history')
             .insert({
               alert_config_id: config.id,
-              alert_value: metricValue,
-              alert_message: `${metricType} alert: Value ${metricValue} ${config.comparison_operator} threshold ${config.threshold_value}`
+              alert_value: roundedValue,
+              alert_message: `${config.name || metricType}: ${metricType} is ${roundedValue} (threshold ${config.comparison_operator} ${threshold})`,
+              metadata: {
+                severity: config.severity,
+                window_minutes: config.window_minutes,
+                threshold,
+                operator: config.comparison_operator
+              }
             })
+          triggered = true
         }
       }
     }
+
+    if (triggered) {
+      await deliverDueAlerts(supabase)
+    }
   } catch (error) {
     console.error('Error checking alerts for metric:', error)
   }
 }
-
-// Helper function to process new alerts
-async function processNewAlerts(supabase: any, alerts: any[]) {
-  for (const alert of alerts) {
-    console.log(`Processing alert: ${alert.alert_message}`)
-    
-    // Here you would implement notification logic based on alert_channels
-    // For now, just log the alert
-    const channels = alert.alert_configs?.alert_channels || []
-    
-    if (channels.includes('email')) {
-      // Send email notification
-      console.log(`Would send email for alert: ${alert.alert_message}`)
-    }
-    
-    if (channels.includes('slack')) {
-      // Send Slack notification
-      console.log(`Would send Slack message for alert: ${alert.alert_message}`)
-    }
-    
-    if (channels.includes('webhook')) {
-      // Send webhook
-      console.log(`Would send webhook for alert: ${alert.alert_message}`)
-    }
-  }
-}
\ No newline at end of file
@@ -1,8 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { corsHeaders } from '../_shared/cors.ts'
-
-// Environment variables
-const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY')!
+import { generateVerifiedPortrait } from '../_shared/identityCheck.ts'
 
 interface GenerationRequest {
   imageData: string // base64 encoded image
@@ -33,65 +31,6 @@ const checkSimpleRateLimit = (identifier: string, limit: number = 3): { canProce
   return { canProceed, remaining }
 }
 
-const callGeminiAPI = async (imageData: string, mimeType: string, prompt: string) => {
-  const requestBody = {
-    contents: [{
-      parts: [
-        {
-          inlineData: {
-            mimeType: mimeType,
-            data: imageData
-          }
-        },
-        {
-          text: prompt
-        }
-      ]
-    }],
-    generationConfig: {
-      responseModalities: ['IMAGE', 'TEXT']
-    }
-  }
-
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-image-preview:generateContent?key=${GEMINI_API_KEY}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(requestBody)
-  })
-
-  if (!response.ok) {
-    const errorText = await response.text()
-    console.error('Gemini API error:', response.status, errorText)
-    throw new Error(`Gemini API error: ${response.status} - ${errorText}`)
-  }
-
-  const result = await response.json()
-  
-  // Extract image and text from response
-  const generatedContent = {
-    imageUrl: null as string | null,
-    text: null as string | null,
-  }
-
-  if (result.candidates && result.candidates.length > 0) {
-    for (const part of result.candidates[0].content.parts) {
-      if (part.text) {
-        generatedContent.text = part.text
-      } else if (part.inlineData) {
-        generatedContent.imageUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`
-      }
-    }
-  }
-  
-  if (!generatedContent.imageUrl) {
-    throw new Error("API did not return an image. It may have considered the prompt unsafe.")
-  }
-
-  return generatedContent
-}
-
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -146,8 +85,8 @@ serve(async (req) => {
       )
     }
 
-    // Call Gemini API
-    const result = await callGeminiAPI(imageData, imageType, prompt)
+    // Call the configured image provider and check the result still looks like the uploaded photo
+    const result = await generateVerifiedPortrait(imageData, imageType, prompt, { style })
     
     const processingTime = Date.now() - startTime
 
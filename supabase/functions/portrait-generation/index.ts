@@ -1,11 +1,20 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4'
 import { corsHeaders } from '../_shared/cors.ts'
+import { generateVerifiedPortrait, recordIdentityCheck } from '../_shared/identityCheck.ts'
+import { storePortrait } from '../_shared/portraitStorage.ts'
+import {
+  checkRateLimit,
+  generateRequestHash,
+  getClientIP,
+  getUserType,
+  recordGenerationRequest,
+  updateGenerationRequest
+} from '../_shared/rateLimits.ts'
 
 // Environment variables
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY')!
 
 // Create Supabase client with service role
 const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
@@ -13,89 +22,26 @@ const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
 interface GenerationRequest {
   imageData: string // base64 encoded image
   imageType: string // mime type
+  additionalImages?: SourceImage[] // further photos when composing from separate photos of each person
   prompt: string
   style: string
   userId?: string
   sessionId?: string
   apiKey?: string
+  photoType?: 'single' | 'couple' | 'family'
+  generationId?: string // client-side shoot id
+  usageId?: string // package_usage row, when generating through a package
+  packageId?: string
+  themeId?: string
 }
 
-interface RateLimitResult {
-  can_proceed: boolean
-  hourly_count: number
-  daily_count: number
-  hourly_limit: number
-  daily_limit: number
-  hourly_remaining: number
-  daily_remaining: number
-  reset_at: string
+interface SourceImage {
+  data: string // base64 encoded image
+  mimeType: string
 }
 
-// Rate limiting configuration
-const RATE_LIMITS = {
-  anonymous: { hourly: 9, daily: 9 }, // Daily limit only - 3 photo shoots per day (3 portraits each)
-  authenticated: { hourly: 30, daily: 100 },
-  premium: { hourly: 100, daily: 500 }
-}
-
-const callGeminiAPI = async (imageData: string, mimeType: string, prompt: string) => {
-  const requestBody = {
-    contents: [{
-      parts: [
-        {
-          inlineData: {
-            mimeType: mimeType,
-            data: imageData
-          }
-        },
-        {
-          text: prompt
-        }
-      ]
-    }],
-    generationConfig: {
-      responseModalities: ['IMAGE', 'TEXT']
-    }
-  }
-
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-image-preview:generateContent?key=${GEMINI_API_KEY}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(requestBody)
-  })
-
-  if (!response.ok) {
-    const errorText = await response.text()
-    console.error('Gemini API error:', response.status, errorText)
-    throw new Error(`Gemini API error: ${response.status} - ${errorText}`)
-  }
-
-  const result = await response.json()
-  
-  // Extract image and text from response
-  const generatedContent = {
-    imageUrl: null as string | null,
-    text: null as string | null,
-  }
-
-  if (result.candidates && result.candidates.length > 0) {
-    for (const part of result.candidates[0].content.parts) {
-      if (part.text) {
-        generatedContent.text = part.text
-      } else if (part.inlineData) {
-        generatedContent.imageUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`
-      }
-    }
-  }
-  
-  if (!generatedContent.imageUrl) {
-    throw new Error("API did not return an image. It may have considered the prompt unsafe.")
-  }
-
-  return generatedContent
-}
+// Main photo plus additional photos, e.g. one per family member
+const MAX_SOURCE_IMAGES = 6
 
 const validateApiKey = async (apiKey: string): Promise<any> => {
   const { data, error } = await supabase.rpc('validate_api_key', {
@@ -110,109 +56,46 @@ const validateApiKey = async (apiKey: string): Promise<any> => {
   return data
 }
 
-const checkRateLimit = async (
-  identifier: string, 
-  identifierType: string, 
-  userType: 'anonymous' | 'authenticated' | 'premium' = 'anonymous'
-): Promise<RateLimitResult> => {
-  const limits = RATE_LIMITS[userType]
-  
-  const { data, error } = await supabase.rpc('check_rate_limit', {
-    p_identifier: identifier,
-    p_identifier_type: identifierType,
-    p_limit_per_hour: limits.hourly,
-    p_limit_per_day: limits.daily
-  })
-  
-  if (error) {
-    console.error('Rate limit check error:', error)
-    throw new Error('Rate limit check failed')
-  }
-  
-  return data as RateLimitResult
-}
+// Activity logs feed partner webhooks, so only events for signed-in users are logged
+const logGenerationActivity = async (userId: string | null, activityType: string, data: Record<string, unknown>) => {
+  if (!userId) return
 
-const recordGenerationRequest = async (
-  userId: string | null,
-  sessionId: string | null,
-  ipAddress: string,
-  userAgent: string | null,
-  requestHash: string,
-  styles: string[],
-  creditsConsumed: number = 1
-): Promise<string> => {
-  const { data, error } = await supabase.rpc('record_generation_request', {
+  const { error } = await supabase.rpc('log_user_activity', {
     p_user_id: userId,
-    p_session_id: sessionId,
-    p_ip_address: ipAddress,
-    p_user_agent: userAgent,
-    p_request_hash: requestHash,
-    p_styles: styles,
-    p_credits_consumed: creditsConsumed
+    p_activity_type: activityType,
+    p_activity_data: data
   })
-  
+
   if (error) {
-    console.error('Failed to record generation request:', error)
-    throw new Error('Failed to record request')
+    console.error('Failed to log generation activity:', error)
   }
-  
-  return data
 }
 
-const updateGenerationRequest = async (
-  requestId: string,
-  status: string,
-  processingTimeMs?: number,
-  errorMessage?: string
-) => {
-  const { error } = await supabase.rpc('update_generation_request', {
-    p_request_id: requestId,
-    p_status: status,
-    p_processing_time_ms: processingTimeMs,
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Gives back the failed style's share of the package credits; returns the credits refunded
+const refundFailedGeneration = async (
+  usageId: string | undefined,
+  userId: string | null,
+  style: string,
+  errorMessage: string
+): Promise<number> => {
+  if (!userId || !usageId || !UUID_PATTERN.test(usageId)) return 0
+
+  const { data, error } = await supabase.rpc('refund_failed_generation', {
+    p_usage_id: usageId,
+    p_user_id: userId,
+    p_style: style,
+    p_reason: /unsafe|safety|blocked/i.test(errorMessage) ? 'unsafe' : 'failed',
     p_error_message: errorMessage
   })
-  
-  if (error) {
-    console.error('Failed to update generation request:', error)
-  }
-}
-
-const generateRequestHash = async (imageData: string, prompt: string): Promise<string> => {
-  const encoder = new TextEncoder()
-  const data = encoder.encode(imageData + prompt)
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data)
-  const hashArray = Array.from(new Uint8Array(hashBuffer))
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('')
-}
 
-const getUserType = async (userId: string | null): Promise<'anonymous' | 'authenticated' | 'premium'> => {
-  if (!userId) return 'anonymous'
-  
-  // Check if user has any credits (paid or bonus)
-  const { data: credits } = await supabase
-    .from('user_credits')
-    .select('paid_credits, bonus_credits')
-    .eq('user_id', userId)
-    .single()
-  
-  if (credits && (credits.paid_credits > 0 || credits.bonus_credits > 0)) {
-    return 'premium'
+  if (error) {
+    console.error('Failed to refund generation credits:', error)
+    return 0
   }
-  
-  return 'authenticated'
-}
 
-const getClientIP = (request: Request): string => {
-  // Try to get real IP from various headers
-  const forwardedFor = request.headers.get('x-forwarded-for')
-  const realIP = request.headers.get('x-real-ip')
-  const cfConnectingIP = request.headers.get('cf-connecting-ip')
-  
-  if (cfConnectingIP) return cfConnectingIP
-  if (realIP) return realIP
-  if (forwardedFor) return forwardedFor.split(',')[0].trim()
-  
-  return '127.0.0.1' // fallback
+  return data || 0
 }
 
 serve(async (req) => {
@@ -239,6 +122,7 @@ serve(async (req) => {
     // Parse request body
     const requestData: GenerationRequest = await req.json()
     const { imageData, imageType, prompt, style, userId, sessionId, apiKey } = requestData
+    const additionalImages = requestData.additionalImages || []
 
     // Validate required fields
     if (!imageData || !imageType || !prompt || !style) {
@@ -251,6 +135,16 @@ serve(async (req) => {
       )
     }
 
+    if (additionalImages.length + 1 > MAX_SOURCE_IMAGES || additionalImages.some(image => !image?.data || !image?.mimeType)) {
+      return new Response(
+        JSON.stringify({ error: `additionalImages must be at most ${MAX_SOURCE_IMAGES - 1} images with data and mimeType` }),
+        { 
+          status: 400, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
     // Validate API key if provided
     if (apiKey) {
       if (apiKey.startsWith('sb_publishable_')) {
@@ -307,12 +201,12 @@ serve(async (req) => {
     const finalUserId = authenticatedUserId || userId || null
 
     // Determine user type and identifier for rate limiting
-    const userType = await getUserType(finalUserId)
+    const userType = await getUserType(supabase, finalUserId)
     const identifier = finalUserId || sessionId || clientIP
     const identifierType = finalUserId ? 'user' : sessionId ? 'anonymous' : 'ip'
 
     // Check rate limits
-    const rateLimitResult = await checkRateLimit(identifier, identifierType, userType)
+    const rateLimitResult = await checkRateLimit(supabase, identifier, identifierType, userType)
     
     if (!rateLimitResult.can_proceed) {
       return new Response(
@@ -332,10 +226,11 @@ serve(async (req) => {
     }
 
     // Generate request hash for duplicate detection
-    const requestHash = await generateRequestHash(imageData, prompt)
+    const requestHash = await generateRequestHash(imageData + additionalImages.map(image => image.data).join(''), prompt)
 
     // Record the generation request
     const requestId = await recordGenerationRequest(
+      supabase,
       finalUserId,
       sessionId || null,
       clientIP,
@@ -346,22 +241,63 @@ serve(async (req) => {
     )
 
     // Update request status to processing
-    await updateGenerationRequest(requestId, 'processing')
+    await updateGenerationRequest(supabase, requestId, 'processing')
 
     try {
-      // Call Gemini API
-      const result = await callGeminiAPI(imageData, imageType, prompt)
-      
+      // Call the configured image provider and check the result still looks like the uploaded photo
+      const { identity, ...result } = await generateVerifiedPortrait(imageData, imageType, prompt, {
+        style,
+        referenceImages: additionalImages
+      })
+
+      // Persist the image to the user's gallery (authenticated users only; the
+      // body's userId is unverified, so it never picks whose gallery this is)
+      const storedPortrait = authenticatedUserId && result.imageUrl
+        ? await storePortrait(supabase, authenticatedUserId, result.imageUrl, {
+            style,
+            photoType: requestData.photoType,
+            generationId: requestData.generationId,
+            generationRequestId: requestId,
+            usageId: requestData.usageId,
+            packageId: requestData.packageId,
+            themeId: requestData.themeId,
+            modelText: result.text
+          })
+        : null
+
+      await recordIdentityCheck(supabase, identity, {
+        style,
+        userId: authenticatedUserId,
+        portraitId: storedPortrait?.id,
+        generationId: requestData.generationId,
+        packageId: requestData.packageId,
+        themeId: requestData.themeId
+      })
+
       const processingTime = Date.now() - startTime
 
       // Update request status to completed
-      await updateGenerationRequest(requestId, 'completed', processingTime)
+      await updateGenerationRequest(supabase, requestId, 'completed', processingTime)
+
+      await logGenerationActivity(authenticatedUserId, 'generation.completed', {
+        generation_id: requestData.generationId || null,
+        portrait_id: storedPortrait?.id || null,
+        style,
+        package_id: requestData.packageId || null,
+        theme_id: requestData.themeId || null,
+        source: 'app'
+      })
 
       // Return successful result
       return new Response(
         JSON.stringify({
           success: true,
-          data: result,
+          data: {
+            ...result,
+            portraitId: storedPortrait?.id || null,
+            storagePath: storedPortrait?.storage_path || null,
+            identity
+          },
           style: style,
           processing_time_ms: processingTime,
           rate_limit: {
@@ -383,12 +319,24 @@ serve(async (req) => {
       console.error('Gemini API error:', errorMessage)
       
       // Update request status to failed
-      await updateGenerationRequest(requestId, 'failed', processingTime, errorMessage)
+      await updateGenerationRequest(supabase, requestId, 'failed', processingTime, errorMessage)
+
+      const creditsRefunded = await refundFailedGeneration(requestData.usageId, authenticatedUserId, style, errorMessage)
+
+      await logGenerationActivity(authenticatedUserId, 'generation.failed', {
+        generation_id: requestData.generationId || null,
+        style,
+        package_id: requestData.packageId || null,
+        theme_id: requestData.themeId || null,
+        error: errorMessage,
+        source: 'app'
+      })
       
       return new Response(
         JSON.stringify({ 
           error: 'Portrait generation failed', 
           details: errorMessage,
+          credits_refunded: creditsRefunded,
           processing_time_ms: processingTime
         }),
         { 
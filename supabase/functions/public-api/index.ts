@@ -0,0 +1,550 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4'
+import { asUuid } from '../_shared/portraitStorage.ts'
+import {
+  createJob,
+  getJob,
+  cancelJob,
+  processJob,
+  runInBackground,
+  MAX_STYLES_PER_JOB,
+  type JobStyleInput
+} from '../_shared/generationJobs.ts'
+import { getClientIP } from '../_shared/rateLimits.ts'
+import { WEBHOOK_EVENTS, checkWebhookDestination } from '../_shared/webhookDelivery.ts'
+import { openApiDocument } from './openapi.ts'
+
+// Environment variables
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+// Create Supabase client with service role
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+
+type Scope = 'shoots:write' | 'shoots:read' | 'catalog:read' | 'webhooks:write'
+
+const MAX_WEBHOOKS_PER_KEY = 10
+
+interface ApiKeyContext {
+  keyId: string
+  userId: string
+  rateHeaders: Record<string, string>
+}
+
+interface CreateShootRequest {
+  image?: string // base64 encoded image, optionally as a data URL
+  image_type?: string
+  photo_type?: 'single' | 'couple' | 'family'
+  package_id?: string
+  styles?: Array<{ theme_id?: string; style?: string; prompt?: string }>
+  note?: string
+}
+
+interface CreateWebhookRequest {
+  url?: string
+  events?: string[]
+  description?: string
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-api-key, content-type',
+  'Access-Control-Expose-Headers': 'x-ratelimit-limit, x-ratelimit-remaining, x-ratelimit-reset',
+  'Access-Control-Max-Age': '86400',
+}
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, 'Content-Type': 'application/json' }
+  })
+}
+
+const errorResponse = (status: number, code: string, error: string, headers: Record<string, string> = {}) => {
+  return jsonResponse({ error, code }, status, headers)
+}
+
+const readApiKey = (req: Request): string | null => {
+  const header = req.headers.get('x-api-key')
+  if (header) return header.trim()
+
+  const authHeader = req.headers.get('authorization')
+  if (authHeader?.startsWith('Bearer ')) return authHeader.slice(7).trim()
+
+  return null
+}
+
+/**
+ * Check the key has the scope and count the request against its hourly quota.
+ * Returns the context on success, or the error response to send.
+ */
+const authenticate = async (req: Request, scope: Scope): Promise<ApiKeyContext | Response> => {
+  const rawKey = readApiKey(req)
+  if (!rawKey) {
+    return errorResponse(401, 'missing_api_key', 'Send your API key as "Authorization: Bearer <key>" or "X-API-Key: <key>"')
+  }
+
+  const { data, error } = await supabase.rpc('authenticate_api_key', { p_raw_key: rawKey, p_scope: scope })
+  if (error || !data) {
+    console.error('API key check failed:', error)
+    return errorResponse(500, 'internal_error', 'Could not verify API key')
+  }
+
+  const rateHeaders: Record<string, string> = {}
+  if (data.limit !== undefined) {
+    rateHeaders['X-RateLimit-Limit'] = String(data.limit)
+    rateHeaders['X-RateLimit-Remaining'] = String(data.remaining)
+    rateHeaders['X-RateLimit-Reset'] = String(Math.floor(new Date(data.reset_at).getTime() / 1000))
+  }
+
+  if (!data.valid) {
+    if (data.status === 429) {
+      const retryAfter = Math.max(1, Math.ceil((new Date(data.reset_at).getTime() - Date.now()) / 1000))
+      rateHeaders['Retry-After'] = String(retryAfter)
+    }
+    return errorResponse(data.status || 401, data.code || 'invalid_api_key', data.error || 'Invalid API key', rateHeaders)
+  }
+
+  return { keyId: data.key_id, userId: data.user_id, rateHeaders }
+}
+
+const fillTemplate = (template: string, values: Record<string, string>) => {
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in values ? values[name] : match))
+}
+
+/**
+ * Build a style's prompt from its package template the way the app does,
+ * falling back to the theme's own prompts when the package has no template
+ */
+const buildThemePrompt = (theme: any, photoType: string, note: string) => {
+  const pkg = theme.photo_packages
+  const withPrefix = (text: string | null, prefix: string) => (text ? `${prefix}: ${text}` : '')
+  const values: Record<string, string> = {
+    style: theme.name,
+    portraitType: photoType,
+    theme: theme.name,
+    themeDescription: theme.setting_prompt || theme.description || '',
+    clothingDescription: theme.clothing_prompt || '',
+    atmosphereDescription: theme.atmosphere_prompt || '',
+    customPrompt: note,
+    enhanceSection: note ? `, Additional: ${note}` : '',
+    familyMemberCount: '3',
+    setting_prompt: withPrefix(theme.setting_prompt, 'Setting'),
+    clothing_prompt: withPrefix(theme.clothing_prompt, 'Attire'),
+    atmosphere_prompt: withPrefix(theme.atmosphere_prompt, 'Mood'),
+    technical_prompt: withPrefix(theme.technical_prompt, 'Technical')
+  }
+
+  const prompt = pkg?.base_prompt_template
+    ? fillTemplate(pkg.base_prompt_template, values)
+    : [
+        `Create a ${photoType} wedding portrait in the ${theme.name} style.`,
+        values.setting_prompt,
+        values.clothing_prompt,
+        values.atmosphere_prompt,
+        values.technical_prompt,
+        note
+      ].filter(Boolean).join(' ')
+
+  // Templates without the technical placeholder still get the theme's camera direction
+  return pkg?.base_prompt_template && theme.technical_prompt && !pkg.base_prompt_template.includes('{technical_prompt}')
+    ? `${prompt} ${values.technical_prompt}`
+    : prompt
+}
+
+const toShoot = (job: any) => ({
+  id: job.id,
+  status: job.status,
+  photo_type: job.photo_type,
+  total_styles: job.total_styles,
+  completed_styles: job.completed_styles,
+  failed_styles: job.failed_styles,
+  created_at: job.created_at,
+  completed_at: job.completed_at
+})
+
+const handleCreateShoot = async (ctx: ApiKeyContext, req: Request) => {
+  let body: CreateShootRequest
+  try {
+    body = await req.json()
+  } catch {
+    return errorResponse(400, 'invalid_request', 'Body must be JSON', ctx.rateHeaders)
+  }
+
+  const photoType = body.photo_type || 'couple'
+  if (!['single', 'couple', 'family'].includes(photoType)) {
+    return errorResponse(400, 'invalid_request', 'photo_type must be single, couple or family', ctx.rateHeaders)
+  }
+
+  // Accept a bare base64 string or a data URL
+  let image = body.image || ''
+  let imageType = body.image_type || ''
+  const dataUrl = image.match(/^data:([^;]+);base64,(.+)$/)
+  if (dataUrl) {
+    imageType = imageType || dataUrl[1]
+    image = dataUrl[2]
+  }
+  if (!image || !imageType) {
+    return errorResponse(400, 'invalid_request', 'image and image_type are required', ctx.rateHeaders)
+  }
+
+  const requested = Array.isArray(body.styles) ? body.styles : []
+  if (requested.length === 0 || requested.length > MAX_STYLES_PER_JOB) {
+    return errorResponse(400, 'invalid_request', `styles must list 1-${MAX_STYLES_PER_JOB} themes or custom styles`, ctx.rateHeaders)
+  }
+
+  const themeIds = requested.map(s => s.theme_id).filter(Boolean) as string[]
+  if (themeIds.some(id => !asUuid(id))) {
+    return errorResponse(400, 'invalid_request', 'theme_id must be a UUID', ctx.rateHeaders)
+  }
+
+  const themes = new Map<string, any>()
+  if (themeIds.length > 0) {
+    const { data, error } = await supabase
+      .from('package_themes')
+      .select('id, package_id, name, description, setting_prompt, clothing_prompt, atmosphere_prompt, technical_prompt, photo_packages!inner(id, base_prompt_template, is_active)')
+      .in('id', themeIds)
+      .eq('is_active', true)
+      .eq('photo_packages.is_active', true)
+
+    if (error) throw error
+    for (const theme of data || []) themes.set(theme.id, theme)
+  }
+
+  const note = (body.note || '').trim()
+  const styles: JobStyleInput[] = []
+  for (const entry of requested) {
+    if (entry.theme_id) {
+      const theme = themes.get(entry.theme_id)
+      if (!theme) {
+        return errorResponse(400, 'unknown_theme', `Theme ${entry.theme_id} does not exist or is not available`, ctx.rateHeaders)
+      }
+      styles.push({ style: theme.name, prompt: buildThemePrompt(theme, photoType, note), themeId: theme.id })
+    } else if (entry.style && entry.prompt) {
+      styles.push({ style: entry.style, prompt: note ? `${entry.prompt} ${note}` : entry.prompt })
+    } else {
+      return errorResponse(400, 'invalid_request', 'Each style needs a theme_id, or a style and prompt', ctx.rateHeaders)
+    }
+  }
+
+  // A package is recorded when every themed style comes from the same one
+  const packageIds = new Set([...themes.values()].map(theme => theme.package_id))
+  const packageId = body.package_id || (packageIds.size === 1 ? [...packageIds][0] : undefined)
+
+  const result = await createJob(supabase, ctx.userId, {
+    imageData: image,
+    imageType,
+    styles,
+    photoType,
+    packageId,
+    apiKeyId: ctx.keyId,
+    clientIp: getClientIP(req),
+    userAgent: req.headers.get('user-agent')
+  })
+  if ('error' in result) {
+    const code = result.status === 402 ? 'insufficient_credits'
+      : result.status === 429 ? 'rate_limited'
+      : result.status === 400 ? 'invalid_request'
+      : 'internal_error'
+    return errorResponse(result.status, code, result.error, ctx.rateHeaders)
+  }
+
+  runInBackground(processJob(supabase, result.jobId))
+
+  const view = await getJob(supabase, ctx.userId, result.jobId)
+  return jsonResponse({ shoot: view ? toShoot(view.job) : { id: result.jobId, status: 'queued' } }, 202, {
+    ...ctx.rateHeaders,
+    Location: `/v1/shoots/${result.jobId}`
+  })
+}
+
+const handleListShoots = async (ctx: ApiKeyContext, url: URL) => {
+  const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '20', 10) || 20, 1), 100)
+  const before = url.searchParams.get('before')
+
+  let query = supabase
+    .from('generation_jobs')
+    .select('id, status, photo_type, total_styles, completed_styles, failed_styles, created_at, completed_at')
+    .eq('api_key_id', ctx.keyId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (before) {
+    query = query.lt('created_at', before)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+
+  const shoots = (data || []).map(toShoot)
+  return jsonResponse({
+    shoots,
+    next_before: shoots.length === limit ? shoots[shoots.length - 1].created_at : null
+  }, 200, ctx.rateHeaders)
+}
+
+/**
+ * Keys only see the shoots they created, not the account's other shoots
+ */
+const isKeyShoot = async (ctx: ApiKeyContext, shootId: string) => {
+  const { count } = await supabase
+    .from('generation_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('id', shootId)
+    .eq('api_key_id', ctx.keyId)
+  return !!count
+}
+
+const handleGetShoot = async (ctx: ApiKeyContext, shootId: string, resultsOnly: boolean) => {
+  const view = await isKeyShoot(ctx, shootId) ? await getJob(supabase, ctx.userId, shootId) : null
+  if (!view) {
+    return errorResponse(404, 'not_found', 'Shoot not found', ctx.rateHeaders)
+  }
+
+  const results = view.items.map(item => ({
+    id: item.id,
+    style: item.style,
+    theme_id: item.theme_id,
+    status: item.status,
+    image_url: item.image_url,
+    error: item.error
+  }))
+
+  if (resultsOnly) {
+    return jsonResponse({
+      shoot_id: view.job.id,
+      results: results.filter(result => result.status === 'completed')
+    }, 200, ctx.rateHeaders)
+  }
+
+  return jsonResponse({ shoot: { ...toShoot(view.job), results } }, 200, ctx.rateHeaders)
+}
+
+const handleCancelShoot = async (ctx: ApiKeyContext, shootId: string) => {
+  const found = await isKeyShoot(ctx, shootId) && await cancelJob(supabase, ctx.userId, shootId)
+  if (!found) {
+    return errorResponse(404, 'not_found', 'Shoot not found', ctx.rateHeaders)
+  }
+
+  const view = await getJob(supabase, ctx.userId, shootId)
+  return jsonResponse({ shoot: view ? toShoot(view.job) : { id: shootId, status: 'cancelled' } }, 200, ctx.rateHeaders)
+}
+
+const handleListPackages = async (ctx: ApiKeyContext) => {
+  const { data, error } = await supabase
+    .from('photo_packages')
+    .select('id, slug, name, description, category, images_per_generation, sort_order')
+    .eq('is_active', true)
+    .order('sort_order')
+
+  if (error) throw error
+
+  return jsonResponse({
+    packages: (data || []).map(({ sort_order: _sortOrder, ...pkg }) => pkg)
+  }, 200, ctx.rateHeaders)
+}
+
+const handleListThemes = async (ctx: ApiKeyContext, url: URL) => {
+  const packageId = url.searchParams.get('package_id')
+  if (packageId && !asUuid(packageId)) {
+    return errorResponse(400, 'invalid_request', 'package_id must be a UUID', ctx.rateHeaders)
+  }
+
+  let query = supabase
+    .from('package_themes')
+    .select('id, package_id, name, description, is_premium, sort_order, photo_packages!inner(is_active)')
+    .eq('is_active', true)
+    .eq('photo_packages.is_active', true)
+    .order('sort_order')
+
+  if (packageId) {
+    query = query.eq('package_id', packageId)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+
+  return jsonResponse({
+    themes: (data || []).map((theme: any) => ({
+      id: theme.id,
+      package_id: theme.package_id,
+      name: theme.name,
+      description: theme.description,
+      is_premium: theme.is_premium
+    }))
+  }, 200, ctx.rateHeaders)
+}
+
+const toWebhook = (endpoint: any) => ({
+  id: endpoint.id,
+  url: endpoint.url,
+  events: endpoint.events,
+  description: endpoint.description,
+  enabled: endpoint.enabled,
+  created_at: endpoint.created_at
+})
+
+const handleListWebhooks = async (ctx: ApiKeyContext) => {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('id, url, events, description, enabled, created_at')
+    .eq('api_key_id', ctx.keyId)
+    .order('created_at')
+
+  if (error) throw error
+
+  return jsonResponse({ webhooks: (data || []).map(toWebhook) }, 200, ctx.rateHeaders)
+}
+
+/**
+ * Register an endpoint for the key's account. The signing secret is only
+ * returned here.
+ */
+const handleCreateWebhook = async (ctx: ApiKeyContext, req: Request) => {
+  let body: CreateWebhookRequest
+  try {
+    body = await req.json()
+  } catch {
+    return errorResponse(400, 'invalid_request', 'Body must be JSON', ctx.rateHeaders)
+  }
+
+  const urlProblem = await checkWebhookDestination(body.url || '')
+  if (urlProblem) {
+    return errorResponse(400, 'invalid_request', urlProblem, ctx.rateHeaders)
+  }
+  const url = new URL(body.url)
+
+  const events = Array.isArray(body.events) ? [...new Set(body.events)] : []
+  if (events.length === 0 || events.some(event => !(WEBHOOK_EVENTS as readonly string[]).includes(event))) {
+    return errorResponse(400, 'invalid_request', `events must list one or more of ${WEBHOOK_EVENTS.join(', ')}`, ctx.rateHeaders)
+  }
+
+  const { count } = await supabase
+    .from('webhook_endpoints')
+    .select('id', { count: 'exact', head: true })
+    .eq('api_key_id', ctx.keyId)
+  if ((count || 0) >= MAX_WEBHOOKS_PER_KEY) {
+    return errorResponse(400, 'invalid_request', `A key can register at most ${MAX_WEBHOOKS_PER_KEY} webhooks`, ctx.rateHeaders)
+  }
+
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .insert({
+      user_id: ctx.userId,
+      api_key_id: ctx.keyId,
+      url: url.toString(),
+      events,
+      description: body.description?.trim() || null
+    })
+    .select('id, url, events, description, enabled, created_at, signing_secret')
+    .single()
+
+  if (error) throw error
+
+  return jsonResponse({ webhook: { ...toWebhook(data), signing_secret: data.signing_secret } }, 201, ctx.rateHeaders)
+}
+
+const handleDeleteWebhook = async (ctx: ApiKeyContext, webhookId: string) => {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .delete()
+    .eq('id', webhookId)
+    .eq('api_key_id', ctx.keyId)
+    .select('id')
+
+  if (error) throw error
+  if (!data || data.length === 0) {
+    return errorResponse(404, 'not_found', 'Webhook not found', ctx.rateHeaders)
+  }
+
+  return jsonResponse({ deleted: true, id: webhookId }, 200, ctx.rateHeaders)
+}
+
+/**
+ * Routes under /public-api/v1. Each route names the scope its key needs.
+ */
+const route = async (req: Request, path: string, url: URL): Promise<Response> => {
+  const shootMatch = path.match(/^\/v1\/shoots\/([^/]+)(\/results|\/cancel)?$/)
+
+  if (path === '/v1/shoots' && req.method === 'POST') {
+    const ctx = await authenticate(req, 'shoots:write')
+    return ctx instanceof Response ? ctx : await handleCreateShoot(ctx, req)
+  }
+
+  if (path === '/v1/shoots' && req.method === 'GET') {
+    const ctx = await authenticate(req, 'shoots:read')
+    return ctx instanceof Response ? ctx : await handleListShoots(ctx, url)
+  }
+
+  if (shootMatch) {
+    const [, shootId, suffix] = shootMatch
+    if (!asUuid(shootId)) {
+      return errorResponse(404, 'not_found', 'Shoot not found')
+    }
+
+    if (suffix === '/cancel' && req.method === 'POST') {
+      const ctx = await authenticate(req, 'shoots:write')
+      return ctx instanceof Response ? ctx : await handleCancelShoot(ctx, shootId)
+    }
+
+    if (suffix !== '/cancel' && req.method === 'GET') {
+      const ctx = await authenticate(req, 'shoots:read')
+      return ctx instanceof Response ? ctx : await handleGetShoot(ctx, shootId, suffix === '/results')
+    }
+
+    return errorResponse(405, 'method_not_allowed', 'Method not allowed')
+  }
+
+  if ((path === '/v1/packages' || path === '/v1/themes') && req.method === 'GET') {
+    const ctx = await authenticate(req, 'catalog:read')
+    if (ctx instanceof Response) return ctx
+    return path === '/v1/packages' ? await handleListPackages(ctx) : await handleListThemes(ctx, url)
+  }
+
+  if (path === '/v1/webhooks') {
+    if (req.method !== 'GET' && req.method !== 'POST') {
+      return errorResponse(405, 'method_not_allowed', 'Method not allowed')
+    }
+    const ctx = await authenticate(req, 'webhooks:write')
+    if (ctx instanceof Response) return ctx
+    return req.method === 'POST' ? await handleCreateWebhook(ctx, req) : await handleListWebhooks(ctx)
+  }
+
+  const webhookMatch = path.match(/^\/v1\/webhooks\/([^/]+)$/)
+  if (webhookMatch) {
+    if (req.method !== 'DELETE') {
+      return errorResponse(405, 'method_not_allowed', 'Method not allowed')
+    }
+    if (!asUuid(webhookMatch[1])) {
+      return errorResponse(404, 'not_found', 'Webhook not found')
+    }
+    const ctx = await authenticate(req, 'webhooks:write')
+    return ctx instanceof Response ? ctx : await handleDeleteWebhook(ctx, webhookMatch[1])
+  }
+
+  if (path === '/v1/openapi.json' && req.method === 'GET') {
+    return jsonResponse(openApiDocument(`${SUPABASE_URL}/functions/v1/public-api`))
+  }
+
+  return errorResponse(404, 'not_found', 'Unknown endpoint. See /v1/openapi.json')
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const url = new URL(req.url)
+    // The function is mounted at /functions/v1/public-api (or /public-api when served locally)
+    const path = url.pathname.replace(/^.*\/public-api/, '').replace(/\/+$/, '') || '/'
+
+    return await route(req, path, url)
+
+  } catch (error) {
+    console.error('Public API error:', error)
+    return errorResponse(500, 'internal_error', 'Internal server error')
+  }
+})
@@ -0,0 +1,428 @@
+// OpenAPI 3.1 description of the public API, served at /v1/openapi.json
+
+import { WEBHOOK_EVENTS } from '../_shared/webhookDelivery.ts'
+
+const errorSchema = {
+  type: 'object',
+  required: ['error', 'code'],
+  properties: {
+    error: { type: 'string' },
+    code: {
+      type: 'string',
+      enum: [
+        'missing_api_key', 'invalid_api_key', 'insufficient_scope', 'rate_limited',
+        'invalid_request', 'unknown_theme', 'insufficient_credits', 'not_found',
+        'method_not_allowed', 'internal_error'
+      ]
+    }
+  }
+}
+
+const rateLimitHeaders = {
+  'X-RateLimit-Limit': { description: 'Requests allowed per clock hour for this key', schema: { type: 'integer' } },
+  'X-RateLimit-Remaining': { description: 'Requests left in the current hour', schema: { type: 'integer' } },
+  'X-RateLimit-Reset': { description: 'Unix time when the quota resets', schema: { type: 'integer' } }
+}
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+})
+
+const commonErrors = {
+  '401': errorResponse('Missing, invalid, revoked or expired API key'),
+  '403': errorResponse('The key does not have the scope this endpoint needs'),
+  '429': {
+    ...errorResponse('Hourly quota exceeded; retry after the Retry-After header'),
+    headers: { ...rateLimitHeaders, 'Retry-After': { schema: { type: 'integer' } } }
+  }
+}
+
+const ok = (description: string, schema: unknown, status = '200') => ({
+  [status]: {
+    description,
+    headers: rateLimitHeaders,
+    content: { 'application/json': { schema } }
+  }
+})
+
+const shootIdParam = { name: 'shootId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } }
+
+const webhookEvent = (summary: string, data: unknown) => ({
+  post: {
+    summary,
+    description: 'Signed with the endpoint\'s secret: X-Webhook-Signature is t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">. ' +
+      'Respond with a 2xx within 10 seconds; other responses are retried with backoff. Deduplicate on the event id.',
+    parameters: [
+      { name: 'X-Webhook-Signature', in: 'header', required: true, schema: { type: 'string' } },
+      { name: 'X-Webhook-Event', in: 'header', required: true, schema: { type: 'string' } },
+      { name: 'X-Webhook-Delivery', in: 'header', required: true, schema: { type: 'string', format: 'uuid' } }
+    ],
+    requestBody: {
+      content: {
+        'application/json': {
+          schema: {
+            allOf: [
+              { $ref: '#/components/schemas/WebhookEvent' },
+              { type: 'object', properties: { data } }
+            ]
+          }
+        }
+      }
+    },
+    responses: { '200': { description: 'Acknowledged' } }
+  }
+})
+
+export const openApiDocument = (serverUrl: string) => ({
+  openapi: '3.1.0',
+  info: {
+    title: 'Wedding Portrait Public API',
+    version: '1.0.0',
+    description: 'Create portrait shoots from a couple\'s photo and fetch the results. ' +
+      'Each shoot spends one credit from the account the API key belongs to; styles that fail are refunded. ' +
+      'Shoots run in the background: poll GET /v1/shoots/{shootId} until completed_at is set.'
+  },
+  servers: [{ url: serverUrl }],
+  security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+  paths: {
+    '/v1/shoots': {
+      post: {
+        summary: 'Create a shoot',
+        description: 'Requires the shoots:write scope.',
+        operationId: 'createShoot',
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/CreateShootRequest' } } }
+        },
+        responses: {
+          ...ok('Shoot accepted and queued', {
+            type: 'object',
+            properties: { shoot: { $ref: '#/components/schemas/Shoot' } }
+          }, '202'),
+          '400': errorResponse('Invalid request or unknown theme'),
+          '402': errorResponse('The account has no credits left'),
+          ...commonErrors,
+          '429': {
+            ...errorResponse("Hourly quota exceeded, or the account's portrait generation limit has too few portraits left for this shoot"),
+            headers: commonErrors['429'].headers
+          }
+        }
+      },
+      get: {
+        summary: 'List shoots created with this key',
+        description: 'Requires the shoots:read scope. Newest first; pass next_before as before for the next page.',
+        operationId: 'listShoots',
+        parameters: [
+          { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 } },
+          { name: 'before', in: 'query', schema: { type: 'string', format: 'date-time' } }
+        ],
+        responses: {
+          ...ok('Shoots', {
+            type: 'object',
+            properties: {
+              shoots: { type: 'array', items: { $ref: '#/components/schemas/Shoot' } },
+              next_before: { type: ['string', 'null'], format: 'date-time' }
+            }
+          }),
+          ...commonErrors
+        }
+      }
+    },
+    '/v1/shoots/{shootId}': {
+      get: {
+        summary: 'Get a shoot and the status of each style',
+        description: 'Requires the shoots:read scope.',
+        operationId: 'getShoot',
+        parameters: [shootIdParam],
+        responses: {
+          ...ok('Shoot', {
+            type: 'object',
+            properties: {
+              shoot: {
+                allOf: [
+                  { $ref: '#/components/schemas/Shoot' },
+                  { type: 'object', properties: { results: { type: 'array', items: { $ref: '#/components/schemas/Result' } } } }
+                ]
+              }
+            }
+          }),
+          '404': errorResponse('Shoot not found'),
+          ...commonErrors
+        }
+      }
+    },
+    '/v1/shoots/{shootId}/results': {
+      get: {
+        summary: 'List the finished portraits of a shoot',
+        description: 'Requires the shoots:read scope. Image URLs are signed and expire after an hour; fetch the shoot again for fresh ones.',
+        operationId: 'listShootResults',
+        parameters: [shootIdParam],
+        responses: {
+          ...ok('Completed results', {
+            type: 'object',
+            properties: {
+              shoot_id: { type: 'string', format: 'uuid' },
+              results: { type: 'array', items: { $ref: '#/components/schemas/Result' } }
+            }
+          }),
+          '404': errorResponse('Shoot not found'),
+          ...commonErrors
+        }
+      }
+    },
+    '/v1/shoots/{shootId}/cancel': {
+      post: {
+        summary: 'Cancel the styles of a shoot that have not started',
+        description: 'Requires the shoots:write scope. Unstarted styles are refunded.',
+        operationId: 'cancelShoot',
+        parameters: [shootIdParam],
+        responses: {
+          ...ok('Shoot', { type: 'object', properties: { shoot: { $ref: '#/components/schemas/Shoot' } } }),
+          '404': errorResponse('Shoot not found'),
+          ...commonErrors
+        }
+      }
+    },
+    '/v1/packages': {
+      get: {
+        summary: 'List photo packages',
+        description: 'Requires the catalog:read scope.',
+        operationId: 'listPackages',
+        responses: {
+          ...ok('Packages', {
+            type: 'object',
+            properties: { packages: { type: 'array', items: { $ref: '#/components/schemas/Package' } } }
+          }),
+          ...commonErrors
+        }
+      }
+    },
+    '/v1/themes': {
+      get: {
+        summary: 'List themes, optionally for one package',
+        description: 'Requires the catalog:read scope. Use a theme id in a shoot\'s styles.',
+        operationId: 'listThemes',
+        parameters: [{ name: 'package_id', in: 'query', schema: { type: 'string', format: 'uuid' } }],
+        responses: {
+          ...ok('Themes', {
+            type: 'object',
+            properties: { themes: { type: 'array', items: { $ref: '#/components/schemas/Theme' } } }
+          }),
+          ...commonErrors
+        }
+      }
+    },
+    '/v1/webhooks': {
+      get: {
+        summary: 'List webhooks registered with this key',
+        description: 'Requires the webhooks:write scope.',
+        operationId: 'listWebhooks',
+        responses: {
+          ...ok('Webhooks', {
+            type: 'object',
+            properties: { webhooks: { type: 'array', items: { $ref: '#/components/schemas/Webhook' } } }
+          }),
+          ...commonErrors
+        }
+      },
+      post: {
+        summary: 'Register a webhook',
+        description: 'Requires the webhooks:write scope. Events for the key\'s account are sent to the URL. ' +
+          'The signing secret is only returned in this response.',
+        operationId: 'createWebhook',
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/CreateWebhookRequest' } } }
+        },
+        responses: {
+          ...ok('Webhook registered', {
+            type: 'object',
+            properties: {
+              webhook: {
+                allOf: [
+                  { $ref: '#/components/schemas/Webhook' },
+                  { type: 'object', properties: { signing_secret: { type: 'string' } } }
+                ]
+              }
+            }
+          }, '201'),
+          '400': errorResponse('Invalid URL or events, or too many webhooks'),
+          ...commonErrors
+        }
+      }
+    },
+    '/v1/webhooks/{webhookId}': {
+      delete: {
+        summary: 'Remove a webhook',
+        description: 'Requires the webhooks:write scope.',
+        operationId: 'deleteWebhook',
+        parameters: [{ name: 'webhookId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } }],
+        responses: {
+          ...ok('Webhook removed', {
+            type: 'object',
+            properties: { deleted: { type: 'boolean' }, id: { type: 'string', format: 'uuid' } }
+          }),
+          '404': errorResponse('Webhook not found'),
+          ...commonErrors
+        }
+      }
+    },
+    '/v1/openapi.json': {
+      get: {
+        summary: 'This document',
+        operationId: 'getOpenApiDocument',
+        security: [],
+        responses: { '200': { description: 'OpenAPI document' } }
+      }
+    }
+  },
+  webhooks: {
+    'generation.completed': webhookEvent('A shoot or single portrait finished', {
+      type: 'object',
+      properties: {
+        shoot_id: { type: 'string', format: 'uuid', description: 'Set for shoots' },
+        portrait_id: { type: ['string', 'null'], description: 'Set for single portraits' },
+        style: { type: 'string', description: 'Set for single portraits' },
+        generation_id: { type: ['string', 'null'] },
+        status: { type: 'string', enum: ['completed', 'partial'] },
+        total_styles: { type: 'integer' },
+        completed_styles: { type: 'integer' },
+        failed_styles: { type: 'integer' },
+        credits_refunded: { type: 'integer' },
+        source: { type: 'string', enum: ['api', 'app'] }
+      }
+    }),
+    'generation.failed': webhookEvent('A shoot or single portrait produced no images', {
+      type: 'object',
+      properties: {
+        shoot_id: { type: 'string', format: 'uuid', description: 'Set for shoots' },
+        style: { type: 'string', description: 'Set for single portraits' },
+        generation_id: { type: ['string', 'null'] },
+        error: { type: 'string', description: 'Set for single portraits' },
+        source: { type: 'string', enum: ['api', 'app'] }
+      }
+    }),
+    'credits.low': webhookEvent('The account balance dropped below the threshold', {
+      type: 'object',
+      properties: { balance: { type: 'integer' }, threshold: { type: 'integer' } }
+    }),
+    'payment.succeeded': webhookEvent('A credit, gift or subscription payment went through', {
+      type: 'object',
+      properties: {
+        amount_paid: { type: 'integer', description: 'In the smallest currency unit' },
+        credits_purchased: { type: 'integer' }
+      }
+    })
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer', description: 'Authorization: Bearer wpk_...' },
+      apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+    },
+    schemas: {
+      Error: errorSchema,
+      Webhook: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          url: { type: 'string', format: 'uri' },
+          events: { type: 'array', items: { type: 'string', enum: WEBHOOK_EVENTS } },
+          description: { type: ['string', 'null'] },
+          enabled: { type: 'boolean' },
+          created_at: { type: 'string', format: 'date-time' }
+        }
+      },
+      CreateWebhookRequest: {
+        type: 'object',
+        required: ['url', 'events'],
+        properties: {
+          url: { type: 'string', format: 'uri', description: 'Must be https://' },
+          events: { type: 'array', minItems: 1, items: { type: 'string', enum: WEBHOOK_EVENTS } },
+          description: { type: 'string' }
+        }
+      },
+      WebhookEvent: {
+        type: 'object',
+        required: ['id', 'type', 'created_at', 'data'],
+        properties: {
+          id: { type: 'string', format: 'uuid', description: 'Same for retries and replays of one event' },
+          type: { type: 'string', enum: [...WEBHOOK_EVENTS, 'webhook.test'] },
+          created_at: { type: 'string', format: 'date-time' },
+          data: { type: 'object' }
+        }
+      },
+      CreateShootRequest: {
+        type: 'object',
+        required: ['image', 'styles'],
+        properties: {
+          image: { type: 'string', description: 'Base64 encoded photo, or a data URL' },
+          image_type: { type: 'string', example: 'image/jpeg', description: 'Required unless image is a data URL' },
+          photo_type: { type: 'string', enum: ['single', 'couple', 'family'], default: 'couple' },
+          package_id: { type: 'string', format: 'uuid' },
+          styles: {
+            type: 'array',
+            minItems: 1,
+            maxItems: 6,
+            items: {
+              oneOf: [
+                { type: 'object', required: ['theme_id'], properties: { theme_id: { type: 'string', format: 'uuid' } } },
+                {
+                  type: 'object',
+                  required: ['style', 'prompt'],
+                  properties: { style: { type: 'string' }, prompt: { type: 'string' } }
+                }
+              ]
+            }
+          },
+          note: { type: 'string', description: 'Extra direction added to every style' }
+        }
+      },
+      Shoot: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          status: { type: 'string', enum: ['queued', 'processing', 'completed', 'partial', 'failed', 'cancelled'] },
+          photo_type: { type: 'string', enum: ['single', 'couple', 'family'] },
+          total_styles: { type: 'integer' },
+          completed_styles: { type: 'integer' },
+          failed_styles: { type: 'integer' },
+          created_at: { type: 'string', format: 'date-time' },
+          completed_at: { type: ['string', 'null'], format: 'date-time' }
+        }
+      },
+      Result: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          style: { type: 'string' },
+          theme_id: { type: ['string', 'null'], format: 'uuid' },
+          status: { type: 'string', enum: ['pending', 'processing', 'completed', 'failed', 'cancelled'] },
+          image_url: { type: ['string', 'null'], format: 'uri' },
+          error: { type: ['string', 'null'] }
+        }
+      },
+      Package: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          slug: { type: 'string' },
+          name: { type: 'string' },
+          description: { type: ['string', 'null'] },
+          category: { type: 'string' },
+          images_per_generation: { type: 'integer' }
+        }
+      },
+      Theme: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          package_id: { type: 'string', format: 'uuid' },
+          name: { type: 'string' },
+          description: { type: ['string', 'null'] },
+          is_premium: { type: 'boolean' }
+        }
+      }
+    }
+  }
+})
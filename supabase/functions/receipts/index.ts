@@ -0,0 +1,110 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authenticatedCorsHeaders as corsHeaders } from '../_shared/cors.ts'
+import { renderReceipt, sendReceiptEmail, type Receipt } from '../_shared/receipts.ts'
+import { getAdminContext, hasPermission } from '../_shared/adminAuth.ts'
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+)
+
+const jsonResponse = (body: unknown, status = 200) => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+const getAuthenticatedUserId = async (req: Request): Promise<string | null> => {
+  const authHeader = req.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) return null
+
+  const token = authHeader.replace('Bearer ', '')
+  // Anon/publishable keys are not user sessions
+  if (!token.includes('.') || token.startsWith('sb_')) return null
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser(token)
+    return user?.id || null
+  } catch (error) {
+    console.warn('Failed to get user from token:', error)
+    return null
+  }
+}
+
+/**
+ * The receipt if it belongs to the user (admins with users.view can open any receipt)
+ */
+const getReceipt = async (receiptId: string, userId: string): Promise<Receipt | null> => {
+  const { data: receipt } = await supabase
+    .from('receipts')
+    .select('*')
+    .eq('id', receiptId)
+    .maybeSingle()
+
+  if (!receipt) return null
+  if (receipt.user_id === userId) return receipt
+
+  const admin = await getAdminContext(supabase, userId)
+  return admin && hasPermission(admin, 'users.view') ? receipt : null
+}
+
+/**
+ * GET ?id=<receipt id>&format=html|txt returns the receipt document.
+ * POST { action: 'resend', id } emails it to the customer again.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const userId = await getAuthenticatedUserId(req)
+    if (!userId) {
+      return jsonResponse({ error: 'Authentication required' }, 401)
+    }
+
+    if (req.method === 'GET') {
+      const url = new URL(req.url)
+      const receiptId = url.searchParams.get('id')
+      const format = url.searchParams.get('format') === 'txt' ? 'txt' : 'html'
+
+      const receipt = receiptId ? await getReceipt(receiptId, userId) : null
+      if (!receipt) {
+        return jsonResponse({ error: 'Receipt not found' }, 404)
+      }
+
+      return new Response(await renderReceipt(receipt, format), {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': format === 'html' ? 'text/html; charset=utf-8' : 'text/plain; charset=utf-8',
+          'Content-Disposition': `inline; filename="receipt-${receipt.receipt_number}.${format}"`
+        }
+      })
+    }
+
+    if (req.method === 'POST') {
+      const { action, id } = await req.json()
+      if (action !== 'resend') {
+        return jsonResponse({ error: 'Unknown action' }, 400)
+      }
+
+      const receipt = id ? await getReceipt(id, userId) : null
+      if (!receipt) {
+        return jsonResponse({ error: 'Receipt not found' }, 404)
+      }
+
+      const sent = await sendReceiptEmail(supabase, receipt)
+      if (!sent) {
+        return jsonResponse({ error: 'The receipt could not be emailed. Please try again later.' }, 502)
+      }
+      return jsonResponse({ success: true })
+    }
+
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  } catch (error) {
+    console.error('Receipts error:', error)
+    return jsonResponse({ error: 'Failed to process receipt request' }, 500)
+  }
+})
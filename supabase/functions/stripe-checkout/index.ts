@@ -6,6 +6,85 @@ const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') as string, {
   apiVersion: '2024-12-18.acacia',
 })
 
+interface ReservedPromotion {
+  redemption_id: string
+  promotion_id: string
+  code: string
+  percent_off: number | null
+  amount_off: number | null
+  stripe_coupon_id: string | null
+}
+
+interface GiftDetails {
+  recipientName?: string
+  recipientEmail?: string
+  message?: string
+  deliverAt?: string
+}
+
+// Promotions and revenue are kept in the base currency
+const BASE_CURRENCY = 'usd'
+
+// Value of one unit of the currency in the base currency
+async function getRateToBase(supabase: ReturnType<typeof createClient>, currency: string): Promise<number> {
+  if (currency.toLowerCase() === BASE_CURRENCY) return 1
+
+  const { data } = await supabase
+    .from('exchange_rates')
+    .select('rate_to_base')
+    .eq('currency', currency.toUpperCase())
+    .maybeSingle()
+
+  return Number(data?.rate_to_base) || 1
+}
+
+// Reuse the promotion's Stripe coupon, creating it if it's missing in this Stripe environment
+async function getStripeCoupon(
+  supabase: ReturnType<typeof createClient>,
+  promotion: ReservedPromotion,
+  currency: string
+): Promise<string> {
+  // The stored coupon is in the base currency; other currencies get a single-use
+  // coupon for the converted amount
+  if (promotion.amount_off && currency.toLowerCase() !== BASE_CURRENCY) {
+    const rate = await getRateToBase(supabase, currency)
+    const coupon = await stripe.coupons.create({
+      name: promotion.code,
+      duration: 'once',
+      amount_off: Math.round(promotion.amount_off / rate),
+      currency,
+      max_redemptions: 1,
+      metadata: { promotion_id: promotion.promotion_id }
+    })
+    return coupon.id
+  }
+
+  if (promotion.stripe_coupon_id) {
+    try {
+      const existing = await stripe.coupons.retrieve(promotion.stripe_coupon_id)
+      if (existing.valid) return existing.id
+    } catch (_error) {
+      console.log('Stored coupon not found in current Stripe environment, creating new one')
+    }
+  }
+
+  const coupon = await stripe.coupons.create({
+    name: promotion.code,
+    duration: 'once',
+    ...(promotion.percent_off
+      ? { percent_off: promotion.percent_off }
+      : { amount_off: promotion.amount_off as number, currency }),
+    metadata: { promotion_id: promotion.promotion_id }
+  })
+
+  await supabase
+    .from('promotions')
+    .update({ stripe_coupon_id: coupon.id, updated_at: new Date().toISOString() })
+    .eq('id', promotion.promotion_id)
+
+  return coupon.id
+}
+
 serve(async (req) => {
   console.log('Stripe checkout function called:', req.method)
   
@@ -21,7 +100,13 @@ serve(async (req) => {
   }
 
   try {
-    const { priceId, userId, couponCode } = await req.json()
+    const { priceId, userId, couponCode, gift, organizationId } = await req.json() as {
+      priceId?: string
+      userId?: string
+      couponCode?: string
+      gift?: GiftDetails
+      organizationId?: string
+    }
 
     if (!priceId || !userId) {
       return new Response(
@@ -42,6 +127,45 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
+    // The signed-in user, from the session token (the anon key has none).
+    // Coupon codes are reserved for this user, never for the body's userId.
+    const token = req.headers.get('authorization')?.replace('Bearer ', '') || ''
+    const { data: { user: authUser } } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null } }
+
+    if (authUser && authUser.id !== userId) {
+      return new Response(
+        JSON.stringify({ error: 'userId does not match the signed-in user' }),
+        {
+          status: 403,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    // Regional prices carry their pack's credits, so the webhook doesn't have to
+    // infer them from the amount paid
+    const { data: regionalPrice } = await supabase.rpc('resolve_checkout_price', {
+      p_stripe_price_id: priceId
+    })
+
+    if (regionalPrice?.found && !regionalPrice.active) {
+      return new Response(
+        JSON.stringify({ error: 'This price is no longer available' }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
     // Get user details
     const { data: userData, error: userError } = await supabase
       .from('users')
@@ -132,22 +256,158 @@ serve(async (req) => {
       }
     }
 
-    // Apply coupon if provided
+    if (regionalPrice?.found) {
+      sessionParams.metadata = {
+        ...sessionParams.metadata,
+        pack_id: regionalPrice.product_id,
+        credits: String(regionalPrice.credits ?? ''),
+        price_book: regionalPrice.price_book
+      }
+    }
+
+    // Credits bought with a team wallet selected go to the team; any member can top it up
+    if (organizationId && !gift) {
+      const { data: membership } = await supabase
+        .from('organization_members')
+        .select('role')
+        .eq('organization_id', organizationId)
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      if (!membership) {
+        return new Response(
+          JSON.stringify({ error: 'You are not a member of this team' }),
+          {
+            status: 403,
+            headers: {
+              'Content-Type': 'application/json',
+              'Access-Control-Allow-Origin': '*',
+            }
+          }
+        )
+      }
+
+      sessionParams.metadata = { ...sessionParams.metadata, organization_id: organizationId }
+    }
+
+    // Gift purchases pay out to a redeemable code instead of the buyer's balance
+    let giftCardId: string | null = null
+    if (gift) {
+      const { data: giftCard, error: giftError } = await supabase.rpc('create_gift_card', {
+        p_purchaser_user_id: userId,
+        p_price_id: priceId,
+        p_recipient_name: gift.recipientName || null,
+        p_recipient_email: gift.recipientEmail || null,
+        p_message: gift.message || null,
+        p_deliver_at: gift.deliverAt || null
+      })
+
+      if (giftError) {
+        return new Response(
+          JSON.stringify({ error: giftError.message || 'Invalid gift details' }),
+          {
+            status: 400,
+            headers: {
+              'Content-Type': 'application/json',
+              'Access-Control-Allow-Origin': '*',
+            }
+          }
+        )
+      }
+
+      giftCardId = giftCard.id
+      sessionParams.metadata = { ...sessionParams.metadata, gift_card_id: giftCard.id }
+      sessionParams.success_url = `${req.headers.get('origin') || 'http://localhost:5173'}/gift?purchased={CHECKOUT_SESSION_ID}`
+    }
+
+    // Validate and reserve the promotion code server-side
+    let promotion: ReservedPromotion | null = null
     if (couponCode) {
-      try {
-        const coupon = await stripe.coupons.retrieve(couponCode)
-        if (coupon.valid) {
-          sessionParams.discounts = [{
-            coupon: couponCode
-          }]
-        }
-      } catch (couponError) {
-        console.warn('Invalid coupon code:', couponCode)
-        // Continue without coupon rather than failing
+      if (!authUser) {
+        return new Response(
+          JSON.stringify({ error: 'Please sign in to use a coupon code' }),
+          {
+            status: 401,
+            headers: {
+              'Content-Type': 'application/json',
+              'Access-Control-Allow-Origin': '*',
+            }
+          }
+        )
+      }
+
+      const price = await stripe.prices.retrieve(priceId)
+      const { data: reservation, error: reservationError } = await supabase.rpc('reserve_promotion', {
+        p_code: couponCode,
+        p_user_id: authUser.id,
+        p_price_id: regionalPrice?.promotion_price_id || priceId,
+        p_amount: Math.round((price.unit_amount ?? 0) * await getRateToBase(supabase, price.currency))
+      })
+
+      if (reservationError) {
+        throw reservationError
+      }
+
+      if (!reservation?.valid) {
+        return new Response(
+          JSON.stringify({ error: reservation?.error || 'Invalid coupon code' }),
+          {
+            status: 400,
+            headers: {
+              'Content-Type': 'application/json',
+              'Access-Control-Allow-Origin': '*',
+            }
+          }
+        )
+      }
+
+      promotion = reservation as ReservedPromotion
+      sessionParams.metadata = {
+        ...sessionParams.metadata,
+        promotion_code: promotion.code,
+        promotion_redemption_id: promotion.redemption_id
+      }
+
+      // Bonus-credit-only codes have nothing to discount
+      if (promotion.percent_off || promotion.amount_off) {
+        sessionParams.discounts = [{
+          coupon: await getStripeCoupon(supabase, promotion, price.currency)
+        }]
       }
     }
 
-    const session = await stripe.checkout.sessions.create(sessionParams)
+    let session: Stripe.Checkout.Session
+    try {
+      session = await stripe.checkout.sessions.create(sessionParams)
+    } catch (sessionError) {
+      if (promotion) {
+        await supabase
+          .from('promotion_redemptions')
+          .update({ status: 'released' })
+          .eq('id', promotion.redemption_id)
+      }
+      if (giftCardId) {
+        await supabase
+          .from('gift_cards')
+          .update({ status: 'canceled', updated_at: new Date().toISOString() })
+          .eq('id', giftCardId)
+      }
+      throw sessionError
+    }
+
+    if (promotion) {
+      await supabase
+        .from('promotion_redemptions')
+        .update({ stripe_session_id: session.id })
+        .eq('id', promotion.redemption_id)
+    }
+
+    if (giftCardId) {
+      await supabase
+        .from('gift_cards')
+        .update({ stripe_session_id: session.id })
+        .eq('id', giftCardId)
+    }
     
     console.log('✅ Checkout session created:', session.id)
     console.log('🔗 Webhook URL configured:', webhookUrl)
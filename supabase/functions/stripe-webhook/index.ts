@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { sendReceiptEmail, type Receipt } from '../_shared/receipts.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,6 +10,58 @@ const corsHeaders = {
   'Access-Control-Max-Age': '86400',
 }
 
+/**
+ * Record the numbered receipt for a paid checkout and email it the first time.
+ * A failure here is logged and never undoes the purchase.
+ */
+async function issueReceipt(
+  stripe: Stripe,
+  supabase: ReturnType<typeof createClient>,
+  session: Stripe.Checkout.Session,
+  userId: string,
+  creditsGranted: number,
+  bonusCredits: number
+) {
+  try {
+    const { data: lineItems } = await stripe.checkout.sessions.listLineItems(session.id, { limit: 100 })
+
+    const { data: receipt, error } = await supabase.rpc('create_receipt', {
+      p_user_id: userId,
+      p_stripe_session_id: session.id,
+      p_stripe_payment_id: session.payment_intent as string | null,
+      p_currency: session.currency || 'usd',
+      p_line_items: lineItems.map(item => ({
+        description: item.description,
+        quantity: item.quantity ?? 1,
+        unit_amount: item.price?.unit_amount ?? item.amount_subtotal,
+        amount: item.amount_subtotal
+      })),
+      p_subtotal_cents: session.amount_subtotal ?? 0,
+      p_discount_cents: session.total_details?.amount_discount ?? 0,
+      p_tax_cents: session.total_details?.amount_tax ?? 0,
+      p_total_cents: session.amount_total ?? 0,
+      p_credits_granted: creditsGranted,
+      p_bonus_credits: bonusCredits,
+      p_promotion_code: session.metadata?.promotion_code || null,
+      p_gift_card_id: session.metadata?.gift_card_id || null,
+      p_customer_email: session.customer_details?.email || session.customer_email,
+      p_customer_name: session.customer_details?.name || null,
+      p_billing_address: session.customer_details?.address || null
+    })
+
+    if (error) {
+      console.error('Failed to create receipt:', error)
+      return
+    }
+
+    if (receipt.created) {
+      await sendReceiptEmail(supabase, receipt as Receipt)
+    }
+  } catch (receiptError) {
+    console.error('Receipt error:', receiptError)
+  }
+}
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -120,21 +173,35 @@ serve(async (req) => {
           console.error('No user_id found in session metadata or customer lookup')
           break
         }
+
+        // Subscription allowances are granted per paid invoice (see invoice.paid)
+        if (session.mode === 'subscription') {
+          console.log('Subscription checkout completed for user:', userId)
+          break
+        }
         
-        // Calculate credits based on amount
-        let creditsToAdd = 0
-        switch (amountTotal) {
-          case 499:  // $4.99 - Starter Pack
-            creditsToAdd = 10
-            break
-          case 999:  // $9.99 - Wedding Pack
-            creditsToAdd = 25
-            break
-          case 2499: // $24.99 - Party Pack
-            creditsToAdd = 75
-            break
-          default:
-            console.warn(`Unknown payment amount: ${amountTotal} cents`)
+        // Regional prices carry their credits in the metadata. Otherwise calculate them
+        // from the list price; amount_total is lower when a promotion applied
+        const listAmount = session.amount_subtotal ?? amountTotal
+        const currency = (session.currency || 'usd').toUpperCase()
+        const redemptionId = session.metadata?.promotion_redemption_id
+        const giftCardId = session.metadata?.gift_card_id
+        const organizationId = session.metadata?.organization_id
+        let creditsToAdd = Number(session.metadata?.credits) || 0
+        if (!creditsToAdd && currency === 'USD') {
+          switch (listAmount) {
+            case 499:  // $4.99 - Starter Pack
+              creditsToAdd = 10
+              break
+            case 999:  // $9.99 - Wedding Pack
+              creditsToAdd = 25
+              break
+            case 2499: // $24.99 - Party Pack
+              creditsToAdd = 75
+              break
+            default:
+              console.warn(`Unknown payment amount: ${listAmount} cents`)
+          }
         }
         
         // Log payment details for admin dashboard
@@ -143,34 +210,63 @@ serve(async (req) => {
           customer_id: session.customer as string,
           user_id: userId,
           amount: amountTotal,
+          currency,
           status: 'succeeded',
           event_type: event.type,
           metadata: {
             session_id: session.id,
+            pack_id: session.metadata?.pack_id,
+            price_book: session.metadata?.price_book,
             customer_email: session.customer_email,
             payment_method_types: session.payment_method_types,
-            credits_added: creditsToAdd
+            credits_added: creditsToAdd,
+            promotion_code: session.metadata?.promotion_code,
+            discount_amount: session.total_details?.amount_discount || 0,
+            gift_card_id: giftCardId,
+            organization_id: organizationId
           }
         }
 
         // Insert payment log for admin tracking
+        let paymentLogId: string | null = null
         try {
-          await supabase
+          const { data: paymentLog } = await supabase
             .from('payment_logs')
             .insert(paymentLogData)
+            .select('id')
+            .single()
+          paymentLogId = paymentLog?.id || null
         } catch (logError) {
           console.error('Failed to log payment:', logError)
         }
 
         if (creditsToAdd > 0) {
           try {
-            // Call database function to add credits
-            const { error } = await supabase.rpc('add_paid_credits', {
-              p_user_id: userId,
-              p_credits: creditsToAdd,
-              p_stripe_payment_id: session.payment_intent,
-              p_description: `Credit purchase - Session ${session.id}`
-            })
+            // Gift purchases activate the gift code; the recipient is credited on redemption.
+            // Activation only moves a pending gift, so retried events are harmless.
+            // Team wallet purchases credit the organization instead of the buyer.
+            const { error } = giftCardId
+              ? await supabase.rpc('activate_gift_card', {
+                  p_gift_card_id: giftCardId,
+                  p_stripe_session_id: session.id,
+                  p_stripe_payment_id: session.payment_intent,
+                  p_credits: creditsToAdd,
+                  p_amount_paid: amountTotal
+                })
+              : organizationId
+                ? await supabase.rpc('add_organization_credits', {
+                    p_organization_id: organizationId,
+                    p_user_id: userId,
+                    p_credits: creditsToAdd,
+                    p_stripe_payment_id: session.payment_intent,
+                    p_description: `Team credit purchase - Session ${session.id}`
+                  })
+                : await supabase.rpc('add_paid_credits', {
+                    p_user_id: userId,
+                    p_credits: creditsToAdd,
+                    p_stripe_payment_id: session.payment_intent,
+                    p_description: `Credit purchase - Session ${session.id}`
+                  })
             
             if (error) {
               console.error('Error adding credits:', error)
@@ -184,18 +280,24 @@ serve(async (req) => {
                 })
                 .eq('stripe_payment_id', session.payment_intent || session.id)
             } else {
-              console.log(`Successfully added ${creditsToAdd} credits to user ${userId}`)
+              console.log(giftCardId
+                ? `Activated ${creditsToAdd}-credit gift card ${giftCardId} for user ${userId}`
+                : organizationId
+                  ? `Successfully added ${creditsToAdd} credits to team ${organizationId} for user ${userId}`
+                  : `Successfully added ${creditsToAdd} credits to user ${userId}`)
               
               // Log user activity
               await supabase
                 .from('user_activity_logs')
                 .insert({
                   user_id: userId,
-                  activity_type: 'purchase',
+                  activity_type: giftCardId ? 'gift_purchase' : 'purchase',
                   activity_data: {
                     credits_purchased: creditsToAdd,
                     amount_paid: amountTotal,
-                    stripe_session_id: session.id
+                    stripe_session_id: session.id,
+                    gift_card_id: giftCardId,
+                    organization_id: organizationId
                   }
                 })
 
@@ -206,6 +308,35 @@ serve(async (req) => {
                   p_stripe_customer_id: session.customer
                 })
               }
+
+              // Reward both sides of a pending referral on the first paid purchase
+              const { data: referralCompleted, error: referralError } = await supabase.rpc('complete_referral_on_purchase', {
+                p_user_id: userId
+              })
+
+              if (referralError) {
+                console.error('Failed to complete referral:', referralError)
+              } else if (referralCompleted) {
+                console.log(`Referral rewards granted for user ${userId}`)
+              }
+
+              // Mark the promotion redeemed and grant any bonus credits it carries
+              let promotionBonus = 0
+              if (redemptionId) {
+                const { data: bonusCredits, error: promotionError } = await supabase.rpc('redeem_promotion', {
+                  p_redemption_id: redemptionId,
+                  p_payment_log_id: paymentLogId
+                })
+
+                if (promotionError) {
+                  console.error('Failed to redeem promotion:', promotionError)
+                } else if (bonusCredits > 0) {
+                  promotionBonus = bonusCredits
+                  console.log(`Added ${bonusCredits} promotion bonus credits to user ${userId}`)
+                }
+              }
+
+              await issueReceipt(stripe, supabase, session, userId, creditsToAdd, promotionBonus)
             }
           } catch (dbError) {
             console.error('Database error:', dbError)
@@ -223,6 +354,73 @@ serve(async (req) => {
         break
       }
       
+      case 'checkout.session.expired': {
+        const session = event.data.object as Stripe.Checkout.Session
+
+        // Free up the promotion reserved for an abandoned checkout
+        if (session.metadata?.promotion_redemption_id) {
+          const { error } = await supabase
+            .from('promotion_redemptions')
+            .update({ status: 'released' })
+            .eq('id', session.metadata.promotion_redemption_id)
+            .eq('status', 'reserved')
+
+          if (error) {
+            console.error('Failed to release promotion reservation:', error)
+          }
+        }
+
+        if (session.metadata?.gift_card_id) {
+          const { error } = await supabase
+            .from('gift_cards')
+            .update({ status: 'canceled', updated_at: new Date().toISOString() })
+            .eq('id', session.metadata.gift_card_id)
+            .eq('status', 'pending')
+
+          if (error) {
+            console.error('Failed to cancel gift card:', error)
+          }
+        }
+        break
+      }
+
+      case 'charge.refunded': {
+        const charge = event.data.object as Stripe.Charge
+        console.log('Charge refunded:', charge.id)
+
+        // Only a full refund voids a gift; partial refunds are handled manually
+        if (!charge.payment_intent || charge.amount_refunded < charge.amount) {
+          break
+        }
+
+        const { data: giftRefund, error: giftRefundError } = await supabase.rpc('refund_gift_card', {
+          p_stripe_payment_id: charge.payment_intent as string
+        })
+
+        if (giftRefundError) {
+          console.error('Failed to refund gift card:', giftRefundError)
+        } else if (giftRefund?.gift) {
+          console.log(`Gift card ${giftRefund.code} refunded, ${giftRefund.credits_reversed} credits reversed`)
+
+          await supabase
+            .from('payment_logs')
+            .insert({
+              stripe_payment_id: charge.payment_intent,
+              customer_id: charge.customer,
+              amount: -charge.amount_refunded,
+              currency: (charge.currency || 'usd').toUpperCase(),
+              status: 'refunded',
+              event_type: event.type,
+              metadata: {
+                charge_id: charge.id,
+                gift_card_code: giftRefund.code,
+                credits_reversed: giftRefund.credits_reversed
+              }
+            })
+        }
+        break
+      }
+
       case 'payment_intent.succeeded': {
         const paymentIntent = event.data.object as any
         console.log('Payment intent succeeded:', paymentIntent.id)
@@ -234,6 +432,7 @@ serve(async (req) => {
             stripe_payment_id: paymentIntent.id,
             customer_id: paymentIntent.customer,
             amount: paymentIntent.amount,
+            currency: (paymentIntent.currency || 'usd').toUpperCase(),
             status: 'succeeded',
             event_type: event.type,
             metadata: {
@@ -256,6 +455,7 @@ serve(async (req) => {
             stripe_payment_id: paymentIntent.id,
             customer_id: paymentIntent.customer,
             amount: paymentIntent.amount,
+            currency: (paymentIntent.currency || 'usd').toUpperCase(),
             status: 'failed',
             event_type: event.type,
             error_code: paymentIntent.last_payment_error?.code,
@@ -279,6 +479,7 @@ serve(async (req) => {
           .insert({
             stripe_payment_id: dispute.charge,
             amount: dispute.amount,
+            currency: (dispute.currency || 'usd').toUpperCase(),
             status: 'disputed',
             event_type: event.type,
             error_message: `Dispute reason: ${dispute.reason}`,
@@ -301,6 +502,99 @@ serve(async (req) => {
         break
       }
 
+      case 'invoice.paid': {
+        const invoice = event.data.object as any
+        if (!invoice.subscription) {
+          break
+        }
+        console.log('Subscription invoice paid:', invoice.id)
+
+        const subscription = await stripe.subscriptions.retrieve(invoice.subscription as string)
+        let subscriptionUserId = subscription.metadata?.user_id
+
+        if (!subscriptionUserId) {
+          const { data: customer } = await supabase
+            .from('stripe_customers')
+            .select('user_id')
+            .eq('stripe_customer_id', invoice.customer)
+            .single()
+          subscriptionUserId = customer?.user_id
+        }
+
+        if (!subscriptionUserId) {
+          console.error('No user found for subscription invoice:', invoice.id)
+          break
+        }
+
+        const priceId = subscription.items.data[0]?.price?.id
+        const planId = subscription.metadata?.plan_id || null
+
+        try {
+          await supabase
+            .from('payment_logs')
+            .insert({
+              stripe_payment_id: invoice.payment_intent || invoice.id,
+              customer_id: invoice.customer,
+              user_id: subscriptionUserId,
+              amount: invoice.amount_paid,
+              currency: (invoice.currency || 'usd').toUpperCase(),
+              status: 'succeeded',
+              event_type: event.type,
+              metadata: {
+                invoice_id: invoice.id,
+                subscription_id: subscription.id,
+                billing_reason: invoice.billing_reason,
+                plan_id: planId || priceId
+              }
+            })
+        } catch (logError) {
+          console.error('Failed to log subscription payment:', logError)
+        }
+
+        // Log user activity
+        await supabase
+          .from('user_activity_logs')
+          .insert({
+            user_id: subscriptionUserId,
+            activity_type: 'subscription_payment',
+            activity_data: {
+              amount_paid: invoice.amount_paid,
+              currency: (invoice.currency || 'usd').toUpperCase(),
+              invoice_id: invoice.id,
+              subscription_id: subscription.id,
+              billing_reason: invoice.billing_reason,
+              plan_id: planId || priceId
+            }
+          })
+
+        const { data: creditsGranted, error: grantError } = await supabase.rpc('grant_subscription_credits', {
+          p_user_id: subscriptionUserId,
+          p_stripe_subscription_id: subscription.id,
+          p_stripe_invoice_id: invoice.id,
+          p_plan_id: planId,
+          p_price_id: priceId,
+          p_billing_reason: invoice.billing_reason,
+          p_period_start: new Date(subscription.current_period_start * 1000).toISOString(),
+          p_period_end: new Date(subscription.current_period_end * 1000).toISOString(),
+          p_previous_plan_id: subscription.metadata?.previous_plan_id || null
+        })
+
+        if (grantError) {
+          console.error('Failed to grant subscription credits:', grantError)
+          await supabase
+            .from('alert_history')
+            .insert({
+              alert_config_id: null,
+              alert_value: invoice.amount_paid,
+              alert_message: `Subscription credits not granted for invoice ${invoice.id}: ${grantError.message}`,
+              metadata: { user_id: subscriptionUserId, subscription_id: subscription.id }
+            })
+        } else {
+          console.log(`Granted ${creditsGranted} subscription credits to user ${subscriptionUserId}`)
+        }
+        break
+      }
+
       case 'invoice.payment_failed': {
         const invoice = event.data.object as any
         console.log('Invoice payment failed:', invoice.id)
@@ -312,6 +606,7 @@ serve(async (req) => {
             stripe_payment_id: invoice.payment_intent,
             customer_id: invoice.customer,
             amount: invoice.amount_due,
+            currency: (invoice.currency || 'usd').toUpperCase(),
             status: 'failed',
             event_type: event.type,
             error_message: 'Subscription payment failed',
@@ -348,6 +643,14 @@ serve(async (req) => {
                 updated_at: new Date().toISOString()
               })
               .eq('stripe_subscription_id', subscription.id)
+
+            const { error: expireError } = await supabase.rpc('expire_subscription_credits', {
+              p_user_id: customer.user_id,
+              p_description: 'Subscription ended - unused allowance expired'
+            })
+            if (expireError) {
+              console.error('Failed to expire subscription credits:', expireError)
+            }
           } else {
             await supabase
               .from('user_subscriptions')
@@ -357,7 +660,7 @@ serve(async (req) => {
                 status: subscription.status,
                 current_period_start: new Date(subscription.current_period_start * 1000).toISOString(),
                 current_period_end: new Date(subscription.current_period_end * 1000).toISOString(),
-                plan_id: subscription.items?.data?.[0]?.price?.id,
+                plan_id: subscription.metadata?.plan_id || subscription.items?.data?.[0]?.price?.id,
                 cancel_at_period_end: subscription.cancel_at_period_end,
                 canceled_at: subscription.canceled_at ? new Date(subscription.canceled_at * 1000).toISOString() : null,
                 updated_at: new Date().toISOString()
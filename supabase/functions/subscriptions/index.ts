@@ -0,0 +1,245 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { corsHeaders } from '../_shared/cors.ts'
+
+const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') as string, {
+  apiVersion: '2024-12-18.acacia',
+  httpClient: Stripe.createFetchHttpClient(),
+})
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+)
+
+// Statuses that still belong to a live subscription the user can manage
+const MANAGEABLE_STATUSES = ['active', 'trialing', 'past_due']
+
+interface SubscriptionPlan {
+  id: string
+  name: string
+  stripe_price_id: string | null
+  monthly_credits: number
+}
+
+const jsonResponse = (body: unknown, status = 200) => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+const getAuthenticatedUserId = async (req: Request): Promise<string | null> => {
+  const authHeader = req.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) return null
+
+  const token = authHeader.replace('Bearer ', '')
+  // Anon/publishable keys are not user sessions
+  if (!token.includes('.') || token.startsWith('sb_')) return null
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser(token)
+    return user?.id || null
+  } catch (error) {
+    console.warn('Failed to get user from token:', error)
+    return null
+  }
+}
+
+const getPlan = async (planId: string): Promise<SubscriptionPlan | null> => {
+  const { data } = await supabase
+    .from('subscription_plans')
+    .select('id, name, stripe_price_id, monthly_credits')
+    .eq('id', planId)
+    .eq('is_active', true)
+    .single()
+
+  return data?.stripe_price_id ? data : null
+}
+
+const getCurrentSubscription = async (userId: string) => {
+  const { data } = await supabase
+    .from('user_subscriptions')
+    .select('stripe_subscription_id, plan_id, status')
+    .eq('user_id', userId)
+    .in('status', MANAGEABLE_STATUSES)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  return data
+}
+
+/**
+ * Stripe customer linked to the user, created (or re-created for a new Stripe environment) if needed
+ */
+const getOrCreateCustomer = async (userId: string): Promise<string> => {
+  const { data: existingCustomer } = await supabase
+    .from('stripe_customers')
+    .select('stripe_customer_id')
+    .eq('user_id', userId)
+    .single()
+
+  if (existingCustomer) {
+    try {
+      await stripe.customers.retrieve(existingCustomer.stripe_customer_id)
+      return existingCustomer.stripe_customer_id
+    } catch (_error) {
+      console.log('Customer not found in current Stripe environment, creating new one')
+    }
+  }
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('email')
+    .eq('id', userId)
+    .single()
+
+  const customer = await stripe.customers.create({
+    email: userData?.email,
+    metadata: { user_id: userId }
+  })
+
+  if (existingCustomer) {
+    await supabase
+      .from('stripe_customers')
+      .update({ stripe_customer_id: customer.id })
+      .eq('user_id', userId)
+  } else {
+    await supabase
+      .from('stripe_customers')
+      .insert({ user_id: userId, stripe_customer_id: customer.id })
+  }
+
+  return customer.id
+}
+
+const startCheckout = async (req: Request, userId: string, planId: string) => {
+  const plan = planId ? await getPlan(planId) : null
+  if (!plan) {
+    return jsonResponse({ error: 'Plan not available' }, 400)
+  }
+
+  if (await getCurrentSubscription(userId)) {
+    return jsonResponse({ error: 'You already have a subscription. Change plan instead.' }, 409)
+  }
+
+  const origin = req.headers.get('origin') || 'http://localhost:5173'
+  const session = await stripe.checkout.sessions.create({
+    customer: await getOrCreateCustomer(userId),
+    mode: 'subscription',
+    line_items: [{ price: plan.stripe_price_id!, quantity: 1 }],
+    success_url: `${origin}/?subscribed=true&session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${origin}/?canceled=true`,
+    metadata: { user_id: userId, plan_id: plan.id },
+    // The webhook reads these from the subscription on every invoice
+    subscription_data: {
+      metadata: { user_id: userId, plan_id: plan.id }
+    }
+  })
+
+  return jsonResponse({ url: session.url, sessionId: session.id })
+}
+
+const setCancelAtPeriodEnd = async (userId: string, cancel: boolean) => {
+  const current = await getCurrentSubscription(userId)
+  if (!current) {
+    return jsonResponse({ error: 'No active subscription' }, 404)
+  }
+
+  const subscription = await stripe.subscriptions.update(current.stripe_subscription_id, {
+    cancel_at_period_end: cancel
+  })
+
+  // Mirror immediately; the customer.subscription.updated webhook will confirm
+  await supabase
+    .from('user_subscriptions')
+    .update({
+      cancel_at_period_end: subscription.cancel_at_period_end,
+      updated_at: new Date().toISOString()
+    })
+    .eq('stripe_subscription_id', subscription.id)
+
+  return jsonResponse({
+    success: true,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    currentPeriodEnd: new Date(subscription.current_period_end * 1000).toISOString()
+  })
+}
+
+/**
+ * Switch plans mid-period. Stripe invoices the price difference straight away;
+ * the invoice.paid webhook then tops up the prorated credit allowance.
+ */
+const changePlan = async (userId: string, planId: string) => {
+  const plan = planId ? await getPlan(planId) : null
+  if (!plan) {
+    return jsonResponse({ error: 'Plan not available' }, 400)
+  }
+
+  const current = await getCurrentSubscription(userId)
+  if (!current) {
+    return jsonResponse({ error: 'No active subscription' }, 404)
+  }
+
+  const subscription = await stripe.subscriptions.retrieve(current.stripe_subscription_id)
+  const item = subscription.items.data[0]
+  if (item?.price?.id === plan.stripe_price_id) {
+    return jsonResponse({ error: 'You are already on this plan' }, 400)
+  }
+
+  const previousPlanId = subscription.metadata?.plan_id || current.plan_id
+
+  const updated = await stripe.subscriptions.update(subscription.id, {
+    items: [{ id: item.id, price: plan.stripe_price_id! }],
+    proration_behavior: 'always_invoice',
+    cancel_at_period_end: false,
+    metadata: {
+      user_id: userId,
+      plan_id: plan.id,
+      previous_plan_id: previousPlanId || ''
+    }
+  })
+
+  return jsonResponse({ success: true, planId: plan.id, status: updated.status })
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const userId = await getAuthenticatedUserId(req)
+    if (!userId) {
+      return jsonResponse({ error: 'Authentication required' }, 401)
+    }
+
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405)
+    }
+
+    const body = await req.json()
+    switch (body.action) {
+      case 'checkout':
+        return await startCheckout(req, userId, body.planId)
+      case 'cancel':
+        return await setCancelAtPeriodEnd(userId, true)
+      case 'resume':
+        return await setCancelAtPeriodEnd(userId, false)
+      case 'change_plan':
+        return await changePlan(userId, body.planId)
+      default:
+        return jsonResponse({ error: 'Invalid action. Must be "checkout", "cancel", "resume" or "change_plan"' }, 400)
+    }
+
+  } catch (error) {
+    console.error('Subscriptions error:', error)
+    return jsonResponse({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500)
+  }
+})
@@ -0,0 +1,97 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authenticatedCorsHeaders as corsHeaders } from '../_shared/cors.ts'
+import { deliverDueWebhooks, replayDelivery, sendTestWebhook } from '../_shared/webhookDelivery.ts'
+import { getAdminContext, hasPermission } from '../_shared/adminAuth.ts'
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+)
+
+const jsonResponse = (body: unknown, status = 200) => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+const getRequestUser = async (req: Request): Promise<{ id: string; isAdmin: boolean } | null> => {
+  const authHeader = req.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) return null
+
+  const { data: { user } } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+  if (!user) return null
+
+  const admin = await getAdminContext(supabase, user.id, user.email ?? null)
+  return { id: user.id, isAdmin: !!admin && hasPermission(admin, 'webhooks.manage') }
+}
+
+// Admins with webhooks.manage may act on any endpoint; users only on their own
+const canUseEndpoint = async (user: { id: string; isAdmin: boolean }, endpointId: string): Promise<boolean> => {
+  if (user.isAdmin) return true
+
+  const { data: endpoint } = await supabase
+    .from('webhook_endpoints')
+    .select('user_id')
+    .eq('id', endpointId)
+    .maybeSingle()
+  return endpoint?.user_id === user.id
+}
+
+/**
+ * Outgoing partner webhooks.
+ *
+ * ?action=deliver sends due deliveries and retries (run by cron every minute).
+ * POST { action: 'test', endpoint_id } sends a webhook.test event to one endpoint.
+ * POST { action: 'replay', delivery_id } sends a past delivery again as a new delivery.
+ * Test and replay return the delivery with its outcome.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    if (new URL(req.url).searchParams.get('action') === 'deliver') {
+      return jsonResponse({ success: true, deliveries: await deliverDueWebhooks(supabase) })
+    }
+
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405)
+    }
+
+    const user = await getRequestUser(req)
+    if (!user) {
+      return jsonResponse({ error: 'Authentication required' }, 401)
+    }
+
+    const { action, endpoint_id, delivery_id } = await req.json()
+
+    switch (action) {
+      case 'test':
+        if (!endpoint_id) return jsonResponse({ error: 'endpoint_id is required' }, 400)
+        if (!await canUseEndpoint(user, endpoint_id)) return jsonResponse({ error: 'Endpoint not found' }, 404)
+        return jsonResponse({ delivery: await sendTestWebhook(supabase, endpoint_id) })
+
+      case 'replay': {
+        if (!delivery_id) return jsonResponse({ error: 'delivery_id is required' }, 400)
+        const { data: delivery } = await supabase
+          .from('webhook_deliveries')
+          .select('endpoint_id')
+          .eq('id', delivery_id)
+          .maybeSingle()
+        if (!delivery || !await canUseEndpoint(user, delivery.endpoint_id)) {
+          return jsonResponse({ error: 'Delivery not found' }, 404)
+        }
+        return jsonResponse({ delivery: await replayDelivery(supabase, delivery_id) })
+      }
+
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+  } catch (error) {
+    console.error('Webhooks error:', error)
+    return jsonResponse({ error: error.message || 'Failed to process request' }, 500)
+  }
+})
@@ -0,0 +1,165 @@
+-- Portrait Gallery Storage
+-- Persists generated portraits in Supabase Storage with one row per image
+
+BEGIN;
+
+-- ==========================================
+-- 1. STORAGE BUCKET
+-- ==========================================
+
+-- Private bucket; images are served through short-lived signed URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('portraits', 'portraits', false, 10485760, ARRAY['image/png', 'image/jpeg', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+-- ==========================================
+-- 2. GENERATED PORTRAITS TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS generated_portraits (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  generation_request_id UUID REFERENCES generation_requests(id) ON DELETE SET NULL,
+  package_usage_id UUID REFERENCES package_usage(id) ON DELETE SET NULL,
+  package_id UUID REFERENCES photo_packages(id) ON DELETE SET NULL,
+  theme_id UUID REFERENCES package_themes(id) ON DELETE SET NULL,
+
+  -- Storage object (path is relative to the portraits bucket: <user_id>/<yyyy-mm>/<id>.<ext>)
+  storage_path TEXT NOT NULL UNIQUE,
+  mime_type TEXT NOT NULL DEFAULT 'image/png',
+  file_size_bytes INTEGER,
+
+  -- Shoot metadata used for gallery filtering
+  style TEXT NOT NULL,
+  photo_type TEXT DEFAULT 'couple' CHECK (photo_type IN ('single', 'couple', 'family')),
+  generation_id TEXT, -- client-side shoot id, groups the images of one shoot
+  model_text TEXT,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  deleted_at TIMESTAMP WITH TIME ZONE
+);
+
+-- ==========================================
+-- 3. INDEXES
+-- ==========================================
+
+CREATE INDEX IF NOT EXISTS idx_generated_portraits_user_created ON generated_portraits(user_id, created_at DESC) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_generated_portraits_user_style ON generated_portraits(user_id, style) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_generated_portraits_user_photo_type ON generated_portraits(user_id, photo_type) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_generated_portraits_generation_request ON generated_portraits(generation_request_id);
+CREATE INDEX IF NOT EXISTS idx_generated_portraits_package_usage ON generated_portraits(package_usage_id);
+CREATE INDEX IF NOT EXISTS idx_generated_portraits_generation_id ON generated_portraits(generation_id);
+
+-- ==========================================
+-- 4. RLS POLICIES
+-- ==========================================
+
+ALTER TABLE generated_portraits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own portraits" ON generated_portraits;
+CREATE POLICY "Users can view their own portraits"
+  ON generated_portraits FOR SELECT
+  USING (auth.uid() = user_id AND deleted_at IS NULL);
+
+-- Users soft delete through delete_user_portrait(): a row with deleted_at set
+-- no longer passes the SELECT policy, so a direct UPDATE would be rejected
+DROP POLICY IF EXISTS "Users can soft delete their own portraits" ON generated_portraits;
+
+DROP POLICY IF EXISTS "Service role can manage portraits" ON generated_portraits;
+CREATE POLICY "Service role can manage portraits"
+  ON generated_portraits FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP POLICY IF EXISTS "Admins can view all portraits" ON generated_portraits;
+CREATE POLICY "Admins can view all portraits"
+  ON generated_portraits FOR SELECT
+  USING (is_admin(auth.uid()));
+
+-- Storage policies: users may read objects under their own <user_id>/ prefix.
+-- Uploads are performed by the portrait-generation edge function with the service role.
+DROP POLICY IF EXISTS "Users can read their own portrait objects" ON storage.objects;
+CREATE POLICY "Users can read their own portrait objects"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'portraits'
+    AND auth.uid()::TEXT = (storage.foldername(name))[1]
+  );
+
+-- ==========================================
+-- 5. FUNCTIONS
+-- ==========================================
+
+-- Gallery listing with optional filters, newest first
+CREATE OR REPLACE FUNCTION get_user_portraits(
+  p_user_id UUID,
+  p_style TEXT DEFAULT NULL,
+  p_photo_type TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  storage_path TEXT,
+  mime_type TEXT,
+  style TEXT,
+  photo_type TEXT,
+  generation_id TEXT,
+  package_id UUID,
+  package_name TEXT,
+  theme_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  -- Users may only list their own portraits; admins may list anyone's
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    gp.id,
+    gp.storage_path,
+    gp.mime_type,
+    gp.style,
+    gp.photo_type,
+    gp.generation_id,
+    gp.package_id,
+    pp.name AS package_name,
+    gp.theme_id,
+    gp.created_at
+  FROM generated_portraits gp
+  LEFT JOIN photo_packages pp ON pp.id = gp.package_id
+  WHERE gp.user_id = p_user_id
+    AND gp.deleted_at IS NULL
+    AND (p_style IS NULL OR gp.style = p_style)
+    AND (p_photo_type IS NULL OR gp.photo_type = p_photo_type)
+  ORDER BY gp.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Soft delete; the storage object is kept until the retention job removes it.
+-- Returns false when the portrait isn't the caller's or is already deleted.
+CREATE OR REPLACE FUNCTION delete_user_portrait(p_portrait_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  UPDATE generated_portraits
+  SET deleted_at = NOW()
+  WHERE id = p_portrait_id
+    AND user_id = auth.uid()
+    AND deleted_at IS NULL;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_user_portraits(UUID, TEXT, TEXT, INTEGER, INTEGER) TO authenticated;
+REVOKE EXECUTE ON FUNCTION delete_user_portrait(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION delete_user_portrait(UUID) TO authenticated;
+
+COMMIT;
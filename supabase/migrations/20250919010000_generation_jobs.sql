@@ -0,0 +1,339 @@
+-- Background Generation Jobs
+-- A shoot is submitted once, processed server-side style by style, and polled by the client
+
+BEGIN;
+
+-- ==========================================
+-- 1. JOB TABLES
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS generation_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  session_id TEXT,
+  generation_id TEXT, -- client-side shoot id, shared with generated_portraits
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'partial', 'failed', 'cancelled')),
+
+  -- Shoot input
+  source_path TEXT, -- uploaded photo in the portraits bucket, removed once the job finishes
+  source_mime_type TEXT,
+  photo_type TEXT DEFAULT 'couple' CHECK (photo_type IN ('single', 'couple', 'family')),
+  package_id UUID REFERENCES photo_packages(id) ON DELETE SET NULL,
+  package_usage_id UUID REFERENCES package_usage(id) ON DELETE SET NULL,
+
+  -- Progress counters (maintained by finalize_generation_job)
+  total_styles INTEGER NOT NULL DEFAULT 0,
+  completed_styles INTEGER NOT NULL DEFAULT 0,
+  failed_styles INTEGER NOT NULL DEFAULT 0,
+
+  -- Credits reserved when the job was accepted and given back for unfinished styles
+  credits_reserved INTEGER NOT NULL DEFAULT 0,
+  credits_refunded INTEGER NOT NULL DEFAULT 0,
+  credit_source TEXT, -- balance the reservation came from, as returned by consume_credit_atomic
+
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS generation_job_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID REFERENCES generation_jobs(id) ON DELETE CASCADE NOT NULL,
+  style TEXT NOT NULL,
+  theme_id UUID REFERENCES package_themes(id) ON DELETE SET NULL,
+  prompt TEXT NOT NULL,
+  sort_order INTEGER DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  portrait_id UUID REFERENCES generated_portraits(id) ON DELETE SET NULL,
+  generation_request_id UUID REFERENCES generation_requests(id) ON DELETE SET NULL, -- counts towards rate limits
+  model_text TEXT,
+  error_message TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ==========================================
+-- 2. INDEXES
+-- ==========================================
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_user_created ON generation_jobs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_active ON generation_jobs(status, updated_at) WHERE status IN ('queued', 'processing');
+CREATE INDEX IF NOT EXISTS idx_generation_job_items_job ON generation_job_items(job_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_generation_job_items_pending ON generation_job_items(job_id, status) WHERE status IN ('pending', 'processing');
+
+DROP TRIGGER IF EXISTS update_generation_jobs_updated_at ON generation_jobs;
+CREATE TRIGGER update_generation_jobs_updated_at
+  BEFORE UPDATE ON generation_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ==========================================
+-- 3. RLS POLICIES
+-- ==========================================
+
+ALTER TABLE generation_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE generation_job_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own generation jobs" ON generation_jobs;
+CREATE POLICY "Users can view their own generation jobs"
+  ON generation_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Service role can manage generation jobs" ON generation_jobs;
+CREATE POLICY "Service role can manage generation jobs"
+  ON generation_jobs FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view their own generation job items" ON generation_job_items;
+CREATE POLICY "Users can view their own generation job items"
+  ON generation_job_items FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM generation_jobs
+      WHERE generation_jobs.id = generation_job_items.job_id
+      AND generation_jobs.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role can manage generation job items" ON generation_job_items;
+CREATE POLICY "Service role can manage generation job items"
+  ON generation_job_items FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- ==========================================
+-- 4. CREDIT RESERVATION
+-- ==========================================
+
+-- Takes one credit for a generation (free daily generations first, then
+-- bonus, then purchased credits) and returns the balance it came from, so a
+-- refund can go back to the same balance
+DROP FUNCTION IF EXISTS consume_credit_atomic(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION consume_credit_atomic(
+  p_user_id UUID,
+  p_description TEXT DEFAULT 'Portrait generation'
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_credits user_credits%ROWTYPE;
+  v_source TEXT;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Not allowed to consume credits for another user';
+  END IF;
+
+  PERFORM get_user_credits_with_reset(p_user_id);
+
+  SELECT * INTO v_credits FROM user_credits WHERE user_id = p_user_id FOR UPDATE;
+
+  IF v_credits.free_credits_used_today < 5 THEN
+    v_source := 'free_daily';
+    UPDATE user_credits SET free_credits_used_today = free_credits_used_today + 1
+    WHERE user_id = p_user_id;
+  ELSIF v_credits.bonus_credits > 0 THEN
+    v_source := 'bonus';
+    UPDATE user_credits SET bonus_credits = bonus_credits - 1
+    WHERE user_id = p_user_id;
+  ELSIF v_credits.paid_credits > 0 THEN
+    v_source := 'paid';
+    UPDATE user_credits SET paid_credits = paid_credits - 1
+    WHERE user_id = p_user_id;
+  ELSE
+    RAISE EXCEPTION 'Insufficient credits';
+  END IF;
+
+  INSERT INTO credit_transactions (user_id, type, amount, balance_after, description)
+  SELECT p_user_id, 'usage', -1, uc.paid_credits + uc.bonus_credits,
+    p_description || ' (' || v_source || ')'
+  FROM user_credits uc
+  WHERE uc.user_id = p_user_id;
+
+  RETURN v_source;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Gives reserved credits back to the balance they were taken from. Free daily
+-- generations aren't given back: they reset daily, and returning them as
+-- bonus credits would turn them into credits that last. Returns the credits
+-- refunded.
+CREATE OR REPLACE FUNCTION refund_reserved_credits(
+  p_user_id UUID,
+  p_source TEXT,
+  p_credits INTEGER,
+  p_description TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_new_balance INTEGER;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  IF COALESCE(p_credits, 0) <= 0 OR p_source IS NULL OR p_source NOT IN ('bonus', 'paid') THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE user_credits
+  SET paid_credits = paid_credits + CASE WHEN p_source = 'paid' THEN p_credits ELSE 0 END,
+      bonus_credits = bonus_credits + CASE WHEN p_source = 'bonus' THEN p_credits ELSE 0 END
+  WHERE user_id = p_user_id
+  RETURNING paid_credits + bonus_credits INTO v_new_balance;
+
+  INSERT INTO credit_transactions (user_id, type, amount, balance_after, description)
+  VALUES (p_user_id, 'refund', p_credits, COALESCE(v_new_balance, p_credits), p_description);
+
+  RETURN p_credits;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ==========================================
+-- 5. JOB FUNCTIONS
+-- ==========================================
+
+-- Atomically claim the next pending style of a job. SKIP LOCKED lets several
+-- workers (or a resumed worker) process the same job without double-generating.
+CREATE OR REPLACE FUNCTION claim_next_job_item(p_job_id UUID)
+RETURNS SETOF generation_job_items AS $$
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  UPDATE generation_jobs
+  SET status = 'processing'
+  WHERE id = p_job_id AND status = 'queued';
+
+  RETURN QUERY
+  UPDATE generation_job_items
+  SET status = 'processing',
+      attempts = attempts + 1,
+      started_at = NOW()
+  WHERE id = (
+    SELECT gji.id FROM generation_job_items gji
+    JOIN generation_jobs gj ON gj.id = gji.job_id
+    WHERE gji.job_id = p_job_id
+      AND gji.status = 'pending'
+      AND gj.status IN ('queued', 'processing')
+    ORDER BY gji.sort_order
+    LIMIT 1
+    FOR UPDATE OF gji SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Return styles whose worker died back to the queue (or fail them once out of attempts).
+-- Returns the number of styles that still need processing.
+CREATE OR REPLACE FUNCTION requeue_stale_job_items(
+  p_job_id UUID,
+  p_stale_after_seconds INTEGER DEFAULT 180,
+  p_max_attempts INTEGER DEFAULT 2
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_remaining INTEGER;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  UPDATE generation_job_items
+  SET status = CASE WHEN attempts >= p_max_attempts THEN 'failed' ELSE 'pending' END,
+      error_message = CASE WHEN attempts >= p_max_attempts THEN 'Generation did not finish in time' ELSE error_message END,
+      completed_at = CASE WHEN attempts >= p_max_attempts THEN NOW() ELSE NULL END
+  WHERE job_id = p_job_id
+    AND status = 'processing'
+    AND started_at < NOW() - make_interval(secs => p_stale_after_seconds);
+
+  SELECT COUNT(*) INTO v_remaining
+  FROM generation_job_items
+  WHERE job_id = p_job_id AND status IN ('pending', 'processing');
+
+  RETURN v_remaining;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Recompute job counters and, once every style has settled, close the job and
+-- refund the share of reserved credits that belongs to styles that never finished,
+-- rounded up so a single failed style is never refunded nothing, to the balance
+-- the reservation came from.
+CREATE OR REPLACE FUNCTION finalize_generation_job(p_job_id UUID)
+RETURNS generation_jobs AS $$
+DECLARE
+  v_job generation_jobs;
+  v_total INTEGER;
+  v_completed INTEGER;
+  v_failed INTEGER;
+  v_open INTEGER;
+  v_refund INTEGER := 0;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  SELECT * INTO v_job FROM generation_jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Generation job % not found', p_job_id;
+  END IF;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE status = 'completed'),
+    COUNT(*) FILTER (WHERE status IN ('failed', 'cancelled')),
+    COUNT(*) FILTER (WHERE status IN ('pending', 'processing'))
+  INTO v_total, v_completed, v_failed, v_open
+  FROM generation_job_items
+  WHERE job_id = p_job_id;
+
+  UPDATE generation_jobs
+  SET total_styles = v_total,
+      completed_styles = v_completed,
+      failed_styles = v_failed
+  WHERE id = p_job_id;
+
+  -- Still running, or already closed
+  IF v_open > 0 OR v_job.completed_at IS NOT NULL THEN
+    SELECT * INTO v_job FROM generation_jobs WHERE id = p_job_id;
+    RETURN v_job;
+  END IF;
+
+  -- Credits are reserved per shoot, so each unfinished style is owed its share,
+  -- rounded up to whole credits
+  IF v_total > 0 AND v_job.credits_reserved > 0 THEN
+    v_refund := LEAST(CEIL(v_job.credits_reserved * v_failed::NUMERIC / v_total)::INTEGER, v_job.credits_reserved);
+  END IF;
+
+  IF v_refund > 0 THEN
+    v_refund := refund_reserved_credits(v_job.user_id, v_job.credit_source, v_refund,
+      format('Refund for %s unfinished style(s) in generation job %s', v_failed, p_job_id));
+  END IF;
+
+  UPDATE generation_jobs
+  SET status = CASE
+        WHEN v_job.status = 'cancelled' THEN 'cancelled'
+        WHEN v_completed = v_total THEN 'completed'
+        WHEN v_completed = 0 THEN 'failed'
+        ELSE 'partial'
+      END,
+      credits_refunded = v_refund,
+      completed_at = NOW()
+  WHERE id = p_job_id
+  RETURNING * INTO v_job;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION consume_credit_atomic(UUID, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION refund_reserved_credits(UUID, TEXT, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_next_job_item(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION requeue_stale_job_items(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION finalize_generation_job(UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE generation_jobs IS 'Server-side photo shoots that survive tab closes and reconnects';
+COMMENT ON TABLE generation_job_items IS 'One row per style in a generation job';
+
+COMMIT;
@@ -0,0 +1,234 @@
+-- Prompt Template Version History
+-- Every change to a prompt template is recorded as an immutable version row,
+-- so a bad edit can be diffed against earlier versions and rolled back
+
+BEGIN;
+
+-- ==========================================
+-- 1. VERSIONS TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS prompt_template_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id TEXT REFERENCES prompt_templates(id) ON DELETE CASCADE NOT NULL,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  template TEXT NOT NULL,
+  is_default BOOLEAN DEFAULT false,
+  change_note TEXT,
+  restored_from_version INTEGER, -- set when this version was created by a rollback
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (template_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_template_versions_template ON prompt_template_versions(template_id, version DESC);
+
+-- ==========================================
+-- 2. RLS POLICIES (read-only for admins; rows are written by triggers)
+-- ==========================================
+
+ALTER TABLE prompt_template_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admin users can view prompt template versions" ON prompt_template_versions;
+CREATE POLICY "Admin users can view prompt template versions"
+  ON prompt_template_versions FOR SELECT
+  USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Service role can manage prompt template versions" ON prompt_template_versions;
+CREATE POLICY "Service role can manage prompt template versions"
+  ON prompt_template_versions FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Versions are immutable once written
+CREATE OR REPLACE FUNCTION prevent_prompt_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Prompt template versions are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_prevent_prompt_version_update ON prompt_template_versions;
+CREATE TRIGGER trigger_prevent_prompt_version_update
+  BEFORE UPDATE ON prompt_template_versions
+  FOR EACH ROW EXECUTE FUNCTION prevent_prompt_version_update();
+
+-- ==========================================
+-- 3. VERSIONING TRIGGERS ON prompt_templates
+-- ==========================================
+
+-- The server owns the version counter: bump it whenever the content changes
+CREATE OR REPLACE FUNCTION bump_prompt_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.template IS DISTINCT FROM OLD.template
+     OR NEW.name IS DISTINCT FROM OLD.name
+     OR NEW.is_default IS DISTINCT FROM OLD.is_default THEN
+    NEW.version = COALESCE(OLD.version, 0) + 1;
+  ELSE
+    NEW.version = OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_bump_prompt_template_version ON prompt_templates;
+CREATE TRIGGER trigger_bump_prompt_template_version
+  BEFORE UPDATE ON prompt_templates
+  FOR EACH ROW EXECUTE FUNCTION bump_prompt_template_version();
+
+-- Snapshot the saved content. Change notes and rollback sources are passed through
+-- transaction-local settings by save_prompt_template / rollback_prompt_template.
+CREATE OR REPLACE FUNCTION record_prompt_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.version = OLD.version THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO prompt_template_versions (
+    template_id, version, name, template, is_default,
+    change_note, restored_from_version, author_id
+  )
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.version, 1),
+    NEW.name,
+    NEW.template,
+    NEW.is_default,
+    NULLIF(current_setting('app.prompt_change_note', true), ''),
+    NULLIF(current_setting('app.prompt_restored_from_version', true), '')::INTEGER,
+    auth.uid()
+  )
+  ON CONFLICT (template_id, version) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_record_prompt_template_version ON prompt_templates;
+CREATE TRIGGER trigger_record_prompt_template_version
+  AFTER INSERT OR UPDATE ON prompt_templates
+  FOR EACH ROW EXECUTE FUNCTION record_prompt_template_version();
+
+-- ==========================================
+-- 4. FUNCTIONS
+-- ==========================================
+
+-- Save template content with an optional change note
+CREATE OR REPLACE FUNCTION save_prompt_template(
+  p_template_id TEXT,
+  p_template TEXT,
+  p_name TEXT DEFAULT NULL,
+  p_change_note TEXT DEFAULT NULL
+)
+RETURNS prompt_templates AS $$
+DECLARE
+  v_result prompt_templates;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  PERFORM set_config('app.prompt_change_note', COALESCE(p_change_note, ''), true);
+  PERFORM set_config('app.prompt_restored_from_version', '', true);
+
+  UPDATE prompt_templates
+  SET template = p_template,
+      name = COALESCE(p_name, name)
+  WHERE id = p_template_id
+  RETURNING * INTO v_result;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prompt template % not found', p_template_id;
+  END IF;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Roll back by saving an earlier version's content as a new version; history is never rewritten
+CREATE OR REPLACE FUNCTION rollback_prompt_template(
+  p_template_id TEXT,
+  p_version INTEGER,
+  p_change_note TEXT DEFAULT NULL
+)
+RETURNS prompt_templates AS $$
+DECLARE
+  v_target prompt_template_versions;
+  v_result prompt_templates;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT * INTO v_target
+  FROM prompt_template_versions
+  WHERE template_id = p_template_id AND version = p_version;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Version % of prompt template % not found', p_version, p_template_id;
+  END IF;
+
+  PERFORM set_config('app.prompt_change_note', COALESCE(p_change_note, format('Rolled back to version %s', p_version)), true);
+  PERFORM set_config('app.prompt_restored_from_version', p_version::TEXT, true);
+
+  UPDATE prompt_templates
+  SET template = v_target.template,
+      name = v_target.name
+  WHERE id = p_template_id
+  RETURNING * INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Version list with author details for the admin editor
+CREATE OR REPLACE FUNCTION get_prompt_template_versions(p_template_id TEXT)
+RETURNS TABLE (
+  id UUID,
+  template_id TEXT,
+  version INTEGER,
+  name TEXT,
+  template TEXT,
+  is_default BOOLEAN,
+  change_note TEXT,
+  restored_from_version INTEGER,
+  author_id UUID,
+  author_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    v.id, v.template_id, v.version, v.name, v.template, v.is_default,
+    v.change_note, v.restored_from_version, v.author_id,
+    u.email AS author_email,
+    v.created_at
+  FROM prompt_template_versions v
+  LEFT JOIN users u ON u.id = v.author_id
+  WHERE v.template_id = p_template_id
+  ORDER BY v.version DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION save_prompt_template(TEXT, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION rollback_prompt_template(TEXT, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_prompt_template_versions(TEXT) TO authenticated;
+
+-- ==========================================
+-- 5. BACKFILL CURRENT VERSIONS
+-- ==========================================
+
+INSERT INTO prompt_template_versions (template_id, version, name, template, is_default, change_note, author_id, created_at)
+SELECT id, COALESCE(version, 1), name, template, is_default, 'Version recorded when history was enabled', updated_by, COALESCE(updated_at, NOW())
+FROM prompt_templates
+ON CONFLICT (template_id, version) DO NOTHING;
+
+COMMENT ON TABLE prompt_template_versions IS 'Immutable history of prompt template edits';
+
+COMMIT;
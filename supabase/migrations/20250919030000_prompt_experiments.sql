@@ -0,0 +1,261 @@
+-- Prompt Experiments (A/B testing)
+-- Admins define weighted variants of a prompt template, package template or theme
+-- setting prompt. Clients assign a variant per user/session deterministically and
+-- report outcomes, which are aggregated per variant for the admin stats page.
+
+BEGIN;
+
+-- ==========================================
+-- 1. TABLES
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS prompt_experiments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  -- prompt_template: prompt_templates.id
+  -- package_template: photo_packages.id (replaces the package's selected prompt template)
+  -- theme_setting_prompt: package_themes.id (replaces setting_prompt)
+  target_type TEXT NOT NULL CHECK (target_type IN ('prompt_template', 'package_template', 'theme_setting_prompt')),
+  target_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'paused', 'completed')),
+  started_at TIMESTAMP WITH TIME ZONE,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Only one running experiment per target so assignment is unambiguous
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_experiments_running_target
+  ON prompt_experiments(target_type, target_id)
+  WHERE status = 'running';
+
+CREATE TABLE IF NOT EXISTS prompt_experiment_variants (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  experiment_id UUID REFERENCES prompt_experiments(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  -- NULL content means "control": keep the target's current prompt text
+  content TEXT,
+  weight INTEGER NOT NULL DEFAULT 50 CHECK (weight >= 0),
+  sort_order INTEGER DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_experiment_variants_experiment ON prompt_experiment_variants(experiment_id, sort_order);
+
+-- First exposure of a subject (user id or anonymous session id) to an experiment
+CREATE TABLE IF NOT EXISTS prompt_experiment_assignments (
+  experiment_id UUID REFERENCES prompt_experiments(id) ON DELETE CASCADE NOT NULL,
+  subject_id TEXT NOT NULL,
+  variant_id UUID REFERENCES prompt_experiment_variants(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  assigned_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (experiment_id, subject_id)
+);
+
+CREATE TABLE IF NOT EXISTS prompt_experiment_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  experiment_id UUID REFERENCES prompt_experiments(id) ON DELETE CASCADE NOT NULL,
+  variant_id UUID REFERENCES prompt_experiment_variants(id) ON DELETE CASCADE NOT NULL,
+  subject_id TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('success', 'failure', 'download', 'regenerate', 'rating')),
+  value NUMERIC, -- rating score for 'rating' events
+  metadata JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_experiment_events_variant ON prompt_experiment_events(experiment_id, variant_id, event_type);
+
+DROP TRIGGER IF EXISTS update_prompt_experiments_updated_at ON prompt_experiments;
+CREATE TRIGGER update_prompt_experiments_updated_at
+  BEFORE UPDATE ON prompt_experiments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ==========================================
+-- 2. RLS POLICIES
+-- ==========================================
+
+ALTER TABLE prompt_experiments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_experiment_variants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_experiment_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_experiment_events ENABLE ROW LEVEL SECURITY;
+
+-- Clients need running experiments and their variants to assign themselves
+DROP POLICY IF EXISTS "Anyone can view running experiments" ON prompt_experiments;
+CREATE POLICY "Anyone can view running experiments"
+  ON prompt_experiments FOR SELECT
+  USING (status = 'running');
+
+DROP POLICY IF EXISTS "Admins can manage experiments" ON prompt_experiments;
+CREATE POLICY "Admins can manage experiments"
+  ON prompt_experiments FOR ALL
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Anyone can view variants of running experiments" ON prompt_experiment_variants;
+CREATE POLICY "Anyone can view variants of running experiments"
+  ON prompt_experiment_variants FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM prompt_experiments e
+    WHERE e.id = experiment_id AND e.status = 'running'
+  ));
+
+DROP POLICY IF EXISTS "Admins can manage experiment variants" ON prompt_experiment_variants;
+CREATE POLICY "Admins can manage experiment variants"
+  ON prompt_experiment_variants FOR ALL
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+-- Assignments and events are written through record_experiment_* functions only
+DROP POLICY IF EXISTS "Admins can view experiment assignments" ON prompt_experiment_assignments;
+CREATE POLICY "Admins can view experiment assignments"
+  ON prompt_experiment_assignments FOR SELECT
+  USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can view experiment events" ON prompt_experiment_events;
+CREATE POLICY "Admins can view experiment events"
+  ON prompt_experiment_events FOR SELECT
+  USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Service role can manage experiment assignments" ON prompt_experiment_assignments;
+CREATE POLICY "Service role can manage experiment assignments"
+  ON prompt_experiment_assignments FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP POLICY IF EXISTS "Service role can manage experiment events" ON prompt_experiment_events;
+CREATE POLICY "Service role can manage experiment events"
+  ON prompt_experiment_events FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- ==========================================
+-- 3. FUNCTIONS
+-- ==========================================
+
+-- Helper: variant must belong to a running experiment
+CREATE OR REPLACE FUNCTION is_running_experiment_variant(p_experiment_id UUID, p_variant_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM prompt_experiment_variants v
+    JOIN prompt_experiments e ON e.id = v.experiment_id
+    WHERE v.id = p_variant_id
+      AND e.id = p_experiment_id
+      AND e.status = 'running'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Record the first exposure of a subject; later calls keep the original variant
+CREATE OR REPLACE FUNCTION record_experiment_assignment(
+  p_experiment_id UUID,
+  p_variant_id UUID,
+  p_subject_id TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT is_running_experiment_variant(p_experiment_id, p_variant_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO prompt_experiment_assignments (experiment_id, subject_id, variant_id, user_id)
+  VALUES (p_experiment_id, LEFT(p_subject_id, 100), p_variant_id, auth.uid())
+  ON CONFLICT (experiment_id, subject_id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION record_experiment_event(
+  p_experiment_id UUID,
+  p_variant_id UUID,
+  p_subject_id TEXT,
+  p_event_type TEXT,
+  p_value NUMERIC DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT is_running_experiment_variant(p_experiment_id, p_variant_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO prompt_experiment_events (experiment_id, variant_id, subject_id, user_id, event_type, value, metadata)
+  VALUES (p_experiment_id, p_variant_id, LEFT(p_subject_id, 100), auth.uid(), p_event_type, p_value, COALESCE(p_metadata, '{}'::jsonb));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Per-variant outcome aggregates for the admin stats page
+CREATE OR REPLACE FUNCTION get_experiment_results(p_experiment_id UUID)
+RETURNS TABLE (
+  variant_id UUID,
+  variant_name TEXT,
+  weight INTEGER,
+  is_control BOOLEAN,
+  subjects BIGINT,
+  generations BIGINT,
+  failures BIGINT,
+  failure_rate NUMERIC,
+  downloads BIGINT,
+  download_rate NUMERIC,
+  regenerates BIGINT,
+  regenerate_rate NUMERIC,
+  ratings BIGINT,
+  average_rating NUMERIC
+) AS $$
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  WITH counts AS (
+    SELECT
+      ev.variant_id,
+      COUNT(*) FILTER (WHERE ev.event_type IN ('success', 'failure')) AS generations,
+      COUNT(*) FILTER (WHERE ev.event_type = 'failure') AS failures,
+      COUNT(*) FILTER (WHERE ev.event_type = 'download') AS downloads,
+      COUNT(*) FILTER (WHERE ev.event_type = 'regenerate') AS regenerates,
+      COUNT(*) FILTER (WHERE ev.event_type = 'rating') AS ratings,
+      AVG(ev.value) FILTER (WHERE ev.event_type = 'rating') AS average_rating
+    FROM prompt_experiment_events ev
+    WHERE ev.experiment_id = p_experiment_id
+    GROUP BY ev.variant_id
+  ),
+  subjects AS (
+    SELECT a.variant_id, COUNT(*) AS subjects
+    FROM prompt_experiment_assignments a
+    WHERE a.experiment_id = p_experiment_id
+    GROUP BY a.variant_id
+  )
+  SELECT
+    v.id,
+    v.name,
+    v.weight,
+    v.content IS NULL,
+    COALESCE(s.subjects, 0),
+    COALESCE(c.generations, 0),
+    COALESCE(c.failures, 0),
+    CASE WHEN COALESCE(c.generations, 0) > 0 THEN ROUND(c.failures::NUMERIC / c.generations, 4) ELSE 0 END,
+    COALESCE(c.downloads, 0),
+    CASE WHEN COALESCE(c.generations - c.failures, 0) > 0 THEN ROUND(c.downloads::NUMERIC / (c.generations - c.failures), 4) ELSE 0 END,
+    COALESCE(c.regenerates, 0),
+    CASE WHEN COALESCE(c.generations, 0) > 0 THEN ROUND(c.regenerates::NUMERIC / c.generations, 4) ELSE 0 END,
+    COALESCE(c.ratings, 0),
+    ROUND(COALESCE(c.average_rating, 0), 2)
+  FROM prompt_experiment_variants v
+  LEFT JOIN counts c ON c.variant_id = v.id
+  LEFT JOIN subjects s ON s.variant_id = v.id
+  WHERE v.experiment_id = p_experiment_id
+  ORDER BY v.sort_order, v.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION record_experiment_assignment(UUID, UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_experiment_event(UUID, UUID, TEXT, TEXT, NUMERIC, JSONB) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_experiment_results(UUID) TO authenticated;
+
+COMMENT ON TABLE prompt_experiments IS 'A/B experiments over prompt templates and package theme prompts';
+COMMENT ON TABLE prompt_experiment_events IS 'Generation outcomes attributed to experiment variants';
+
+COMMIT;
@@ -0,0 +1,290 @@
+-- Portrait Ratings
+-- Users rate each generated portrait 1-5 (thumbs up/down map to 5/1) with optional
+-- reason tags. Ratings feed package_usage.result_quality_score and roll up into
+-- package_themes.popularity_score.
+
+BEGIN;
+
+-- ==========================================
+-- 1. RATINGS TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS portrait_ratings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id TEXT, -- anonymous raters
+  rater_key TEXT NOT NULL, -- user id or session id, one rating per rater per image
+  portrait_id UUID REFERENCES generated_portraits(id) ON DELETE SET NULL,
+  package_usage_id UUID REFERENCES package_usage(id) ON DELETE SET NULL,
+  package_id UUID REFERENCES photo_packages(id) ON DELETE SET NULL,
+  theme_id UUID REFERENCES package_themes(id) ON DELETE SET NULL,
+  generation_id TEXT NOT NULL DEFAULT '',
+  style TEXT NOT NULL,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  reason_tags TEXT[] DEFAULT '{}',
+  comment TEXT CHECK (char_length(comment) <= 1000),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (rater_key, generation_id, style)
+);
+
+CREATE INDEX IF NOT EXISTS idx_portrait_ratings_theme ON portrait_ratings(theme_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_portrait_ratings_usage ON portrait_ratings(package_usage_id);
+
+DROP TRIGGER IF EXISTS update_portrait_ratings_updated_at ON portrait_ratings;
+CREATE TRIGGER update_portrait_ratings_updated_at
+  BEFORE UPDATE ON portrait_ratings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Rating rollup columns on themes. The curated score is the admin-set value and
+-- acts as the prior so a handful of ratings can't swing a theme's ranking.
+ALTER TABLE package_themes
+  ADD COLUMN IF NOT EXISTS curated_popularity_score INTEGER,
+  ADD COLUMN IF NOT EXISTS rating_count INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS average_rating DECIMAL(3,2);
+
+UPDATE package_themes
+SET curated_popularity_score = popularity_score
+WHERE curated_popularity_score IS NULL;
+
+-- Admin edits to popularity_score become the new curated score; rating refreshes don't
+CREATE OR REPLACE FUNCTION track_curated_popularity_score()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('app.theme_rating_refresh', true), '') <> 'on'
+     AND (TG_OP = 'INSERT' OR NEW.popularity_score IS DISTINCT FROM OLD.popularity_score) THEN
+    NEW.curated_popularity_score = NEW.popularity_score;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_track_curated_popularity_score ON package_themes;
+CREATE TRIGGER trigger_track_curated_popularity_score
+  BEFORE INSERT OR UPDATE ON package_themes
+  FOR EACH ROW EXECUTE FUNCTION track_curated_popularity_score();
+
+-- ==========================================
+-- 2. RLS POLICIES
+-- ==========================================
+
+ALTER TABLE portrait_ratings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own ratings" ON portrait_ratings;
+CREATE POLICY "Users can view own ratings"
+  ON portrait_ratings FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view all ratings" ON portrait_ratings;
+CREATE POLICY "Admins can view all ratings"
+  ON portrait_ratings FOR SELECT
+  USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Service role can manage ratings" ON portrait_ratings;
+CREATE POLICY "Service role can manage ratings"
+  ON portrait_ratings FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- ==========================================
+-- 3. FUNCTIONS
+-- ==========================================
+
+-- Recompute a theme's rating rollup and popularity (0-10 scale)
+CREATE OR REPLACE FUNCTION refresh_theme_rating_stats(p_theme_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_count INTEGER;
+  v_average DECIMAL;
+  v_prior_weight CONSTANT INTEGER := 10;
+BEGIN
+  SELECT COUNT(*), AVG(rating)
+  INTO v_count, v_average
+  FROM portrait_ratings
+  WHERE theme_id = p_theme_id;
+
+  PERFORM set_config('app.theme_rating_refresh', 'on', true);
+
+  UPDATE package_themes
+  SET rating_count = v_count,
+      average_rating = ROUND(v_average, 2),
+      -- Bayesian average: curated score weighted as v_prior_weight ratings, stars mapped to 0-10
+      popularity_score = CASE
+        WHEN v_count = 0 THEN COALESCE(curated_popularity_score, popularity_score)
+        ELSE ROUND(
+          (COALESCE(curated_popularity_score, 5) * v_prior_weight + (v_average - 1) * 2.5 * v_count)
+          / (v_prior_weight + v_count)
+        )
+      END
+  WHERE id = p_theme_id;
+
+  PERFORM set_config('app.theme_rating_refresh', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Rate (or re-rate) a generated portrait
+CREATE OR REPLACE FUNCTION rate_portrait(
+  p_rating INTEGER,
+  p_style TEXT,
+  p_generation_id TEXT DEFAULT NULL,
+  p_portrait_id UUID DEFAULT NULL,
+  p_theme_id UUID DEFAULT NULL,
+  p_package_id UUID DEFAULT NULL,
+  p_reason_tags TEXT[] DEFAULT '{}',
+  p_comment TEXT DEFAULT NULL,
+  p_session_id TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_rater_key TEXT;
+  v_usage_id UUID;
+  v_package_id UUID := p_package_id;
+  v_theme_id UUID := p_theme_id;
+  v_portrait_id UUID;
+  v_portrait_package_id UUID;
+  v_portrait_theme_id UUID;
+  v_previous_theme_id UUID;
+  v_rating_id UUID;
+BEGIN
+  IF p_rating IS NULL OR p_rating < 1 OR p_rating > 5 THEN
+    RAISE EXCEPTION 'Rating must be between 1 and 5';
+  END IF;
+
+  v_rater_key := COALESCE(v_user_id::TEXT, NULLIF(LEFT(p_session_id, 100), ''));
+  IF v_rater_key IS NULL THEN
+    RAISE EXCEPTION 'A signed-in user or session id is required';
+  END IF;
+
+  -- Saved portraits carry the package usage, package and theme
+  IF p_portrait_id IS NOT NULL AND v_user_id IS NOT NULL THEN
+    SELECT id, package_usage_id, package_id, theme_id
+    INTO v_portrait_id, v_usage_id, v_portrait_package_id, v_portrait_theme_id
+    FROM generated_portraits
+    WHERE id = p_portrait_id AND user_id = v_user_id;
+
+    v_package_id := COALESCE(v_portrait_package_id, v_package_id);
+    v_theme_id := COALESCE(v_portrait_theme_id, v_theme_id);
+  END IF;
+
+  -- Package styles are named after their theme
+  IF v_theme_id IS NULL THEN
+    SELECT id, package_id INTO v_portrait_theme_id, v_portrait_package_id
+    FROM package_themes
+    WHERE name = p_style
+      AND (v_package_id IS NULL OR package_id = v_package_id)
+    ORDER BY is_active DESC, popularity_score DESC
+    LIMIT 1;
+
+    v_theme_id := v_portrait_theme_id;
+    v_package_id := COALESCE(v_portrait_package_id, v_package_id);
+  END IF;
+
+  SELECT theme_id INTO v_previous_theme_id
+  FROM portrait_ratings
+  WHERE rater_key = v_rater_key
+    AND generation_id = COALESCE(p_generation_id, '')
+    AND style = p_style;
+
+  INSERT INTO portrait_ratings (
+    user_id, session_id, rater_key, portrait_id, package_usage_id, package_id, theme_id,
+    generation_id, style, rating, reason_tags, comment
+  )
+  VALUES (
+    v_user_id, CASE WHEN v_user_id IS NULL THEN v_rater_key END, v_rater_key,
+    v_portrait_id,
+    v_usage_id, v_package_id, v_theme_id,
+    COALESCE(p_generation_id, ''), p_style, p_rating, COALESCE(p_reason_tags, '{}'), NULLIF(TRIM(p_comment), '')
+  )
+  ON CONFLICT (rater_key, generation_id, style) DO UPDATE
+  SET rating = EXCLUDED.rating,
+      reason_tags = EXCLUDED.reason_tags,
+      comment = EXCLUDED.comment,
+      portrait_id = COALESCE(EXCLUDED.portrait_id, portrait_ratings.portrait_id),
+      package_usage_id = COALESCE(EXCLUDED.package_usage_id, portrait_ratings.package_usage_id),
+      package_id = COALESCE(EXCLUDED.package_id, portrait_ratings.package_id),
+      theme_id = COALESCE(EXCLUDED.theme_id, portrait_ratings.theme_id)
+  RETURNING id, package_usage_id, theme_id INTO v_rating_id, v_usage_id, v_theme_id;
+
+  -- Quality score on the usage record is the average rating of its images
+  IF v_usage_id IS NOT NULL THEN
+    UPDATE package_usage
+    SET result_quality_score = (
+      SELECT ROUND(AVG(rating)) FROM portrait_ratings WHERE package_usage_id = v_usage_id
+    )
+    WHERE id = v_usage_id;
+  END IF;
+
+  IF v_theme_id IS NOT NULL THEN
+    PERFORM refresh_theme_rating_stats(v_theme_id);
+  END IF;
+  IF v_previous_theme_id IS NOT NULL AND v_previous_theme_id IS DISTINCT FROM v_theme_id THEN
+    PERFORM refresh_theme_rating_stats(v_previous_theme_id);
+  END IF;
+
+  RETURN v_rating_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Per-theme rating summary for package analytics
+CREATE OR REPLACE FUNCTION get_theme_rating_summary(
+  p_package_id UUID DEFAULT NULL,
+  p_start_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_end_date TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+  theme_id UUID,
+  theme_name TEXT,
+  package_name TEXT,
+  rating_count BIGINT,
+  average_rating NUMERIC,
+  positive_share NUMERIC,
+  popularity_score INTEGER,
+  reason_counts JSONB
+) AS $$
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  WITH filtered AS (
+    SELECT r.*
+    FROM portrait_ratings r
+    WHERE r.theme_id IS NOT NULL
+      AND (p_package_id IS NULL OR r.package_id = p_package_id)
+      AND (p_start_date IS NULL OR r.created_at >= p_start_date)
+      AND (p_end_date IS NULL OR r.created_at <= p_end_date)
+  ),
+  reasons AS (
+    SELECT f.theme_id, jsonb_object_agg(tag, tag_count) AS reason_counts
+    FROM (
+      SELECT f2.theme_id, tag, COUNT(*) AS tag_count
+      FROM filtered f2, unnest(f2.reason_tags) AS tag
+      GROUP BY f2.theme_id, tag
+    ) f
+    GROUP BY f.theme_id
+  )
+  SELECT
+    t.id,
+    t.name,
+    p.name,
+    COUNT(f.id),
+    ROUND(AVG(f.rating), 2),
+    ROUND(COUNT(f.id) FILTER (WHERE f.rating >= 4)::NUMERIC / NULLIF(COUNT(f.id), 0), 4),
+    t.popularity_score,
+    COALESCE(rs.reason_counts, '{}'::jsonb)
+  FROM filtered f
+  JOIN package_themes t ON t.id = f.theme_id
+  LEFT JOIN photo_packages p ON p.id = t.package_id
+  LEFT JOIN reasons rs ON rs.theme_id = t.id
+  GROUP BY t.id, t.name, p.name, t.popularity_score, rs.reason_counts
+  ORDER BY COUNT(f.id) DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION rate_portrait(INTEGER, TEXT, TEXT, UUID, UUID, UUID, TEXT[], TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_theme_rating_summary(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+COMMENT ON TABLE portrait_ratings IS 'User ratings and reason tags for generated portraits';
+
+COMMIT;
@@ -0,0 +1,123 @@
+-- Portrait Identity Checks
+-- After generation each result is scored against the uploaded photo (0-1 similarity).
+-- Low scores are flagged so admins can see which themes drift away from the couple.
+
+BEGIN;
+
+-- ==========================================
+-- 1. IDENTITY CHECKS TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS portrait_identity_checks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  portrait_id UUID REFERENCES generated_portraits(id) ON DELETE SET NULL,
+  job_item_id UUID REFERENCES generation_job_items(id) ON DELETE SET NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  generation_id TEXT,
+  package_id UUID REFERENCES photo_packages(id) ON DELETE SET NULL,
+  theme_id UUID REFERENCES package_themes(id) ON DELETE SET NULL,
+  style TEXT NOT NULL,
+  score DECIMAL(5,4) NOT NULL CHECK (score BETWEEN 0 AND 1),
+  threshold DECIMAL(5,4) NOT NULL,
+  flagged BOOLEAN NOT NULL DEFAULT false,
+  retried BOOLEAN NOT NULL DEFAULT false, -- the style was regenerated once after a low score
+  scorer TEXT NOT NULL, -- 'local' or 'remote'; scores from different scorers aren't comparable
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_portrait_identity_checks_theme ON portrait_identity_checks(theme_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_portrait_identity_checks_style ON portrait_identity_checks(style, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_portrait_identity_checks_portrait ON portrait_identity_checks(portrait_id);
+
+-- Latest score on the job item so progress polling can surface it
+ALTER TABLE generation_job_items
+  ADD COLUMN IF NOT EXISTS identity_score DECIMAL(5,4),
+  ADD COLUMN IF NOT EXISTS identity_flagged BOOLEAN DEFAULT false;
+
+-- ==========================================
+-- 2. RLS POLICIES
+-- ==========================================
+
+ALTER TABLE portrait_identity_checks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view identity checks" ON portrait_identity_checks;
+CREATE POLICY "Admins can view identity checks"
+  ON portrait_identity_checks FOR SELECT
+  USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Service role can manage identity checks" ON portrait_identity_checks;
+CREATE POLICY "Service role can manage identity checks"
+  ON portrait_identity_checks FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- ==========================================
+-- 3. DRIFT SUMMARY
+-- ==========================================
+
+-- Per-theme (or per-style for themeless generations) identity scores, worst first.
+-- faces_changed_reports counts user ratings tagged 'faces_changed' for the same theme.
+CREATE OR REPLACE FUNCTION get_theme_identity_drift(
+  p_package_id UUID DEFAULT NULL,
+  p_start_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_end_date TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+  theme_id UUID,
+  theme_name TEXT,
+  package_name TEXT,
+  scorer TEXT,
+  check_count BIGINT,
+  average_score NUMERIC,
+  flagged_count BIGINT,
+  flagged_rate NUMERIC,
+  retried_count BIGINT,
+  faces_changed_reports BIGINT
+) AS $$
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  WITH filtered AS (
+    SELECT c.*
+    FROM portrait_identity_checks c
+    WHERE (p_package_id IS NULL OR c.package_id = p_package_id)
+      AND (p_start_date IS NULL OR c.created_at >= p_start_date)
+      AND (p_end_date IS NULL OR c.created_at <= p_end_date)
+  ),
+  complaints AS (
+    SELECT r.theme_id, COUNT(*) AS report_count
+    FROM portrait_ratings r
+    WHERE r.theme_id IS NOT NULL
+      AND 'faces_changed' = ANY(r.reason_tags)
+      AND (p_package_id IS NULL OR r.package_id = p_package_id)
+      AND (p_start_date IS NULL OR r.created_at >= p_start_date)
+      AND (p_end_date IS NULL OR r.created_at <= p_end_date)
+    GROUP BY r.theme_id
+  )
+  SELECT
+    t.id,
+    COALESCE(t.name, MIN(f.style)),
+    p.name,
+    f.scorer,
+    COUNT(f.id),
+    ROUND(AVG(f.score), 4),
+    COUNT(f.id) FILTER (WHERE f.flagged),
+    ROUND(COUNT(f.id) FILTER (WHERE f.flagged)::NUMERIC / NULLIF(COUNT(f.id), 0), 4),
+    COUNT(f.id) FILTER (WHERE f.retried),
+    COALESCE(MAX(cp.report_count), 0)
+  FROM filtered f
+  LEFT JOIN package_themes t ON t.id = f.theme_id
+  LEFT JOIN photo_packages p ON p.id = t.package_id
+  LEFT JOIN complaints cp ON cp.theme_id = t.id
+  GROUP BY t.id, t.name, p.name, f.scorer, CASE WHEN t.id IS NULL THEN f.style END
+  ORDER BY ROUND(COUNT(f.id) FILTER (WHERE f.flagged)::NUMERIC / NULLIF(COUNT(f.id), 0), 4) DESC, AVG(f.score) ASC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_theme_identity_drift(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+COMMENT ON TABLE portrait_identity_checks IS 'Similarity between the uploaded photo and each generated portrait';
+
+COMMIT;
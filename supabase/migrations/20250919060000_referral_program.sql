@@ -0,0 +1,270 @@
+-- Referral Program
+-- Referred users claim a referral code at signup; both parties receive bonus
+-- credits when the referred user completes their first paid purchase.
+-- Claims from a device the referrer has used are rejected as self-referrals.
+
+BEGIN;
+
+-- ==========================================
+-- 1. REFERRAL TRACKING COLUMNS
+-- ==========================================
+
+-- status: 'pending' (claimed), 'completed' (rewarded) or 'rejected' (fraud guard)
+ALTER TABLE referrals
+  ADD COLUMN IF NOT EXISTS referral_code TEXT,
+  ADD COLUMN IF NOT EXISTS referred_fingerprint TEXT,
+  ADD COLUMN IF NOT EXISTS referred_credits INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS rejection_reason TEXT,
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+-- A user can only ever be referred once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_referrals_referred_user_unique
+  ON referrals(referred_user_id) WHERE referred_user_id IS NOT NULL;
+
+-- Device fingerprints seen per account (userIdentificationService fingerprint)
+CREATE TABLE IF NOT EXISTS user_device_fingerprints (
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  fingerprint TEXT NOT NULL,
+  first_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, fingerprint)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_device_fingerprints_fingerprint ON user_device_fingerprints(fingerprint);
+
+-- ==========================================
+-- 2. RLS POLICIES
+-- ==========================================
+
+ALTER TABLE user_device_fingerprints ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view device fingerprints" ON user_device_fingerprints;
+CREATE POLICY "Admins can view device fingerprints"
+  ON user_device_fingerprints FOR SELECT
+  USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Service role can manage device fingerprints" ON user_device_fingerprints;
+CREATE POLICY "Service role can manage device fingerprints"
+  ON user_device_fingerprints FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Referrals are created by claim_referral only
+DROP POLICY IF EXISTS "Users can insert referrals" ON referrals;
+
+DROP POLICY IF EXISTS "Admins can view all referrals" ON referrals;
+CREATE POLICY "Admins can view all referrals"
+  ON referrals FOR SELECT
+  USING (is_admin(auth.uid()));
+
+-- ==========================================
+-- 3. DEVICE FINGERPRINTS
+-- ==========================================
+
+-- True when the two accounts have been used from the same device
+CREATE OR REPLACE FUNCTION referral_shares_device(p_referrer_id UUID, p_referred_id UUID, p_fingerprint TEXT DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_device_fingerprints referrer
+    WHERE referrer.user_id = p_referrer_id
+      AND (
+        referrer.fingerprint = p_fingerprint
+        OR referrer.fingerprint IN (
+          SELECT referred.fingerprint FROM user_device_fingerprints referred WHERE referred.user_id = p_referred_id
+        )
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ==========================================
+-- 4. CLAIM A REFERRAL
+-- ==========================================
+
+-- Called on every sign-in. Always records the device fingerprint (referrers need
+-- theirs on file too), then claims the code if there is one. The code and
+-- fingerprint fall back to the values stored in the signup metadata, e.g. when the
+-- confirmation email is opened on another device. Only accounts created in the
+-- last 7 days can claim.
+CREATE OR REPLACE FUNCTION claim_referral(
+  p_code TEXT DEFAULT NULL,
+  p_fingerprint TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_email TEXT;
+  v_created_at TIMESTAMP WITH TIME ZONE;
+  v_metadata JSONB;
+  v_code TEXT;
+  v_fingerprint TEXT;
+  v_referrer_id UUID;
+  v_existing referrals%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT email, created_at, raw_user_meta_data
+  INTO v_email, v_created_at, v_metadata
+  FROM auth.users
+  WHERE id = v_user_id;
+
+  v_code := lower(trim(COALESCE(NULLIF(p_code, ''), v_metadata ->> 'referral_code', '')));
+  v_fingerprint := COALESCE(NULLIF(p_fingerprint, ''), NULLIF(v_metadata ->> 'device_fingerprint', ''));
+
+  IF v_fingerprint IS NOT NULL THEN
+    INSERT INTO user_device_fingerprints (user_id, fingerprint)
+    VALUES (v_user_id, v_fingerprint)
+    ON CONFLICT (user_id, fingerprint) DO UPDATE SET last_seen_at = NOW();
+  END IF;
+
+  SELECT * INTO v_existing FROM referrals WHERE referred_user_id = v_user_id;
+  IF FOUND THEN
+    RETURN jsonb_build_object('success', v_existing.status <> 'rejected', 'status', v_existing.status, 'reason', 'already_claimed');
+  END IF;
+
+  IF v_code = '' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'no_code');
+  END IF;
+
+  IF v_created_at < NOW() - INTERVAL '7 days' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'account_too_old');
+  END IF;
+
+  SELECT id INTO v_referrer_id FROM users WHERE referral_code = v_code;
+  IF v_referrer_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid_code');
+  END IF;
+
+  IF v_referrer_id = v_user_id THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'self_referral');
+  END IF;
+
+  -- Keep rejected claims so admins can see attempted self-referrals
+  IF referral_shares_device(v_referrer_id, v_user_id, v_fingerprint) THEN
+    INSERT INTO referrals (referrer_user_id, referred_email, referred_user_id, referral_code, referred_fingerprint, status, rejection_reason)
+    VALUES (v_referrer_id, v_email, v_user_id, v_code, v_fingerprint, 'rejected', 'same_device');
+
+    RETURN jsonb_build_object('success', false, 'status', 'rejected', 'reason', 'same_device');
+  END IF;
+
+  INSERT INTO referrals (referrer_user_id, referred_email, referred_user_id, referral_code, referred_fingerprint, status)
+  VALUES (v_referrer_id, v_email, v_user_id, v_code, v_fingerprint, 'pending');
+
+  RETURN jsonb_build_object('success', true, 'status', 'pending');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ==========================================
+-- 5. COMPLETE A REFERRAL
+-- ==========================================
+
+-- Replaces the original complete_referral, which matched any pending row of the referrer
+DROP FUNCTION IF EXISTS complete_referral(UUID, UUID);
+
+CREATE OR REPLACE FUNCTION complete_referral(referrer_id UUID, referred_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_referral_id UUID;
+  v_referrer_reward CONSTANT INTEGER := 5;
+  v_referred_reward CONSTANT INTEGER := 10;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT id INTO v_referral_id
+  FROM referrals
+  WHERE referrer_user_id = referrer_id
+    AND referred_user_id = referred_id
+    AND status = 'pending'
+  FOR UPDATE;
+
+  IF v_referral_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  -- Devices seen since the claim can still reveal a self-referral
+  IF referral_shares_device(referrer_id, referred_id) THEN
+    UPDATE referrals
+    SET status = 'rejected', rejection_reason = 'same_device'
+    WHERE id = v_referral_id;
+    RETURN false;
+  END IF;
+
+  PERFORM add_bonus_credits(referrer_id, v_referrer_reward, 'Referral reward');
+  PERFORM add_bonus_credits(referred_id, v_referred_reward, 'Referral welcome bonus');
+
+  UPDATE referrals
+  SET status = 'completed',
+      credits_earned = v_referrer_reward,
+      referred_credits = v_referred_reward,
+      completed_at = NOW()
+  WHERE id = v_referral_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Called by the Stripe webhook after credits are purchased. A referral stays
+-- pending until the referred user's first purchase, so this rewards at most once.
+CREATE OR REPLACE FUNCTION complete_referral_on_purchase(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_referrer_id UUID;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  SELECT referrer_user_id INTO v_referrer_id
+  FROM referrals
+  WHERE referred_user_id = p_user_id AND status = 'pending';
+
+  IF v_referrer_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  RETURN complete_referral(v_referrer_id, p_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ==========================================
+-- 6. REFERRAL SUMMARY
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION get_my_referral_summary()
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_code TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT referral_code INTO v_code FROM users WHERE id = v_user_id;
+
+  -- Older profiles may predate referral codes
+  IF v_code IS NULL THEN
+    UPDATE users SET referral_code = generate_referral_code()
+    WHERE id = v_user_id
+    RETURNING referral_code INTO v_code;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'referral_code', v_code,
+    'pending', (SELECT COUNT(*) FROM referrals WHERE referrer_user_id = v_user_id AND status = 'pending'),
+    'completed', (SELECT COUNT(*) FROM referrals WHERE referrer_user_id = v_user_id AND status = 'completed'),
+    'credits_earned', (SELECT COALESCE(SUM(credits_earned), 0) FROM referrals WHERE referrer_user_id = v_user_id AND status = 'completed'),
+    'referred_by_status', (SELECT status FROM referrals WHERE referred_user_id = v_user_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION claim_referral(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_my_referral_summary() TO authenticated;
+
+COMMENT ON TABLE user_device_fingerprints IS 'Device fingerprints seen per account, used to reject self-referrals';
+
+COMMIT;
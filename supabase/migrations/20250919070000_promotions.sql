@@ -0,0 +1,379 @@
+-- Promotions
+-- Admin-managed coupon codes: percent or amount off, bonus credits, credit pack
+-- restrictions, schedule, redemption limits and first-purchase-only codes.
+-- Checkout reserves a redemption; the Stripe webhook marks it redeemed and links
+-- it to the payment log.
+
+BEGIN;
+
+-- ==========================================
+-- 1. PROMOTIONS TABLES
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS promotions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE CHECK (code = upper(code) AND length(code) BETWEEN 3 AND 32),
+  description TEXT,
+  percent_off INTEGER CHECK (percent_off BETWEEN 1 AND 100),
+  amount_off INTEGER CHECK (amount_off > 0), -- in cents
+  bonus_credits INTEGER NOT NULL DEFAULT 0 CHECK (bonus_credits >= 0),
+  price_ids TEXT[] NOT NULL DEFAULT '{}', -- Stripe price IDs; empty = every credit pack
+  starts_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  max_redemptions INTEGER CHECK (max_redemptions > 0), -- NULL = unlimited
+  per_user_limit INTEGER DEFAULT 1 CHECK (per_user_limit > 0), -- NULL = unlimited
+  first_purchase_only BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  stripe_coupon_id TEXT, -- created on first use by the checkout endpoint
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (percent_off IS NULL OR amount_off IS NULL),
+  CHECK (percent_off IS NOT NULL OR amount_off IS NOT NULL OR bonus_credits > 0)
+);
+
+-- status: 'reserved' at checkout, 'redeemed' once paid, 'released' if the session expired
+CREATE TABLE IF NOT EXISTS promotion_redemptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  promotion_id UUID REFERENCES promotions(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  price_id TEXT,
+  stripe_session_id TEXT UNIQUE,
+  payment_log_id UUID REFERENCES payment_logs(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'reserved' CHECK (status IN ('reserved', 'redeemed', 'released')),
+  original_amount INTEGER NOT NULL, -- in cents
+  discount_amount INTEGER NOT NULL DEFAULT 0,
+  bonus_credits INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  redeemed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_promotion ON promotion_redemptions(promotion_id, status);
+CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_user ON promotion_redemptions(user_id, promotion_id);
+
+-- Replaces the hardcoded EARLYBIRD check in the client
+INSERT INTO promotions (code, description, percent_off, per_user_limit)
+VALUES ('EARLYBIRD', 'Launch discount', 50, 1)
+ON CONFLICT (code) DO NOTHING;
+
+-- ==========================================
+-- 2. RLS POLICIES
+-- ==========================================
+
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promotion_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Codes are validated through validate_promotion, so users never read the table
+DROP POLICY IF EXISTS "Admins can manage promotions" ON promotions;
+CREATE POLICY "Admins can manage promotions"
+  ON promotions FOR ALL
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Service role can manage promotions" ON promotions;
+CREATE POLICY "Service role can manage promotions"
+  ON promotions FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP POLICY IF EXISTS "Admins can view promotion redemptions" ON promotion_redemptions;
+CREATE POLICY "Admins can view promotion redemptions"
+  ON promotion_redemptions FOR SELECT
+  USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Service role can manage promotion redemptions" ON promotion_redemptions;
+CREATE POLICY "Service role can manage promotion redemptions"
+  ON promotion_redemptions FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- ==========================================
+-- 3. VALIDATION
+-- ==========================================
+
+-- Checks a code for a user and (optionally) a credit pack. p_amount is the pack's
+-- list price in cents and is used to work out the discount. Users may only
+-- validate for themselves; the checkout endpoints call this with the service role.
+CREATE OR REPLACE FUNCTION validate_promotion(
+  p_code TEXT,
+  p_price_id TEXT DEFAULT NULL,
+  p_amount INTEGER DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := COALESCE(p_user_id, auth.uid());
+  v_promotion promotions%ROWTYPE;
+  v_total_uses INTEGER;
+  v_user_uses INTEGER;
+  v_discount INTEGER;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' AND v_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT * INTO v_promotion FROM promotions WHERE code = upper(trim(p_code));
+
+  IF NOT FOUND OR NOT v_promotion.is_active THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'Invalid coupon code');
+  END IF;
+
+  IF v_promotion.starts_at IS NOT NULL AND v_promotion.starts_at > NOW() THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'This code is not active yet');
+  END IF;
+
+  IF v_promotion.expires_at IS NOT NULL AND v_promotion.expires_at <= NOW() THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'This code has expired');
+  END IF;
+
+  IF p_price_id IS NOT NULL
+    AND cardinality(v_promotion.price_ids) > 0
+    AND NOT (p_price_id = ANY(v_promotion.price_ids)) THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'This code is not valid for this credit pack');
+  END IF;
+
+  -- Reservations count until their checkout session expires (24 hours)
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE user_id = v_user_id)
+  INTO v_total_uses, v_user_uses
+  FROM promotion_redemptions
+  WHERE promotion_id = v_promotion.id
+    AND (status = 'redeemed' OR (status = 'reserved' AND created_at > NOW() - INTERVAL '24 hours'));
+
+  IF v_promotion.max_redemptions IS NOT NULL AND v_total_uses >= v_promotion.max_redemptions THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'This code has reached its redemption limit');
+  END IF;
+
+  IF v_user_id IS NOT NULL AND v_promotion.per_user_limit IS NOT NULL AND v_user_uses >= v_promotion.per_user_limit THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'You have already used this code');
+  END IF;
+
+  IF v_promotion.first_purchase_only AND v_user_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM payment_logs WHERE user_id = v_user_id AND status = 'succeeded'
+  ) THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'This code is only valid on your first purchase');
+  END IF;
+
+  IF p_amount IS NOT NULL THEN
+    v_discount := CASE
+      WHEN v_promotion.percent_off IS NOT NULL THEN ROUND(p_amount * v_promotion.percent_off / 100.0)
+      WHEN v_promotion.amount_off IS NOT NULL THEN LEAST(v_promotion.amount_off, p_amount)
+      ELSE 0
+    END;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'promotion_id', v_promotion.id,
+    'code', v_promotion.code,
+    'description', v_promotion.description,
+    'percent_off', v_promotion.percent_off,
+    'amount_off', v_promotion.amount_off,
+    'bonus_credits', v_promotion.bonus_credits,
+    'price_ids', to_jsonb(v_promotion.price_ids),
+    'stripe_coupon_id', CASE WHEN auth.jwt() ->> 'role' = 'service_role' THEN v_promotion.stripe_coupon_id END,
+    'discount_amount', v_discount
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ==========================================
+-- 4. RESERVE AND REDEEM
+-- ==========================================
+
+-- Validates and reserves in one step so concurrent checkouts can't exceed the
+-- limits. A user holds at most one pending reservation per code: starting a new
+-- checkout releases the one they left, so repeated checkouts can't use up the
+-- code's redemptions for everyone (a late payment on it still redeems).
+CREATE OR REPLACE FUNCTION reserve_promotion(
+  p_code TEXT,
+  p_user_id UUID,
+  p_price_id TEXT,
+  p_amount INTEGER
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_result JSONB;
+  v_redemption_id UUID;
+  v_promotion_id UUID;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  IF p_user_id IS NULL THEN
+    RAISE EXCEPTION 'A user is required to reserve a promotion';
+  END IF;
+
+  SELECT id INTO v_promotion_id FROM promotions WHERE code = upper(trim(p_code)) FOR UPDATE;
+
+  UPDATE promotion_redemptions
+  SET status = 'released'
+  WHERE promotion_id = v_promotion_id AND user_id = p_user_id AND status = 'reserved';
+
+  v_result := validate_promotion(p_code, p_price_id, p_amount, p_user_id);
+  IF NOT (v_result ->> 'valid')::BOOLEAN THEN
+    RETURN v_result;
+  END IF;
+
+  INSERT INTO promotion_redemptions (promotion_id, user_id, price_id, original_amount, discount_amount, bonus_credits)
+  VALUES (
+    (v_result ->> 'promotion_id')::UUID,
+    p_user_id,
+    p_price_id,
+    p_amount,
+    COALESCE((v_result ->> 'discount_amount')::INTEGER, 0),
+    COALESCE((v_result ->> 'bonus_credits')::INTEGER, 0)
+  )
+  RETURNING id INTO v_redemption_id;
+
+  RETURN v_result || jsonb_build_object('redemption_id', v_redemption_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Called by the Stripe webhook once the purchase credits are added. Grants the
+-- promotion's bonus credits and returns how many were added (0 if already redeemed).
+CREATE OR REPLACE FUNCTION redeem_promotion(
+  p_redemption_id UUID,
+  p_payment_log_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_redemption promotion_redemptions%ROWTYPE;
+  v_code TEXT;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  SELECT * INTO v_redemption FROM promotion_redemptions WHERE id = p_redemption_id FOR UPDATE;
+
+  -- A late payment on a released reservation still counts as a redemption
+  IF NOT FOUND OR v_redemption.status = 'redeemed' THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE promotion_redemptions
+  SET status = 'redeemed',
+      payment_log_id = p_payment_log_id,
+      redeemed_at = NOW()
+  WHERE id = p_redemption_id;
+
+  IF v_redemption.bonus_credits > 0 AND v_redemption.user_id IS NOT NULL THEN
+    SELECT code INTO v_code FROM promotions WHERE id = v_redemption.promotion_id;
+    PERFORM add_bonus_credits(v_redemption.user_id, v_redemption.bonus_credits, 'Promotion bonus - ' || v_code);
+  END IF;
+
+  RETURN v_redemption.bonus_credits;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ==========================================
+-- 5. ADMIN REPORTING
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION get_promotion_summaries()
+RETURNS TABLE (
+  id UUID,
+  code TEXT,
+  description TEXT,
+  percent_off INTEGER,
+  amount_off INTEGER,
+  bonus_credits INTEGER,
+  price_ids TEXT[],
+  starts_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  max_redemptions INTEGER,
+  per_user_limit INTEGER,
+  first_purchase_only BOOLEAN,
+  is_active BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  redeemed_count BIGINT,
+  reserved_count BIGINT,
+  total_discount BIGINT,
+  total_bonus_credits BIGINT,
+  revenue BIGINT
+) AS $$
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.code,
+    p.description,
+    p.percent_off,
+    p.amount_off,
+    p.bonus_credits,
+    p.price_ids,
+    p.starts_at,
+    p.expires_at,
+    p.max_redemptions,
+    p.per_user_limit,
+    p.first_purchase_only,
+    p.is_active,
+    p.created_at,
+    COUNT(r.id) FILTER (WHERE r.status = 'redeemed'),
+    COUNT(r.id) FILTER (WHERE r.status = 'reserved' AND r.created_at > NOW() - INTERVAL '24 hours'),
+    COALESCE(SUM(r.discount_amount) FILTER (WHERE r.status = 'redeemed'), 0)::BIGINT,
+    COALESCE(SUM(r.bonus_credits) FILTER (WHERE r.status = 'redeemed'), 0)::BIGINT,
+    COALESCE(SUM(r.original_amount - r.discount_amount) FILTER (WHERE r.status = 'redeemed'), 0)::BIGINT
+  FROM promotions p
+  LEFT JOIN promotion_redemptions r ON r.promotion_id = p.id
+  GROUP BY p.id
+  ORDER BY p.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_promotion_redemptions(p_promotion_id UUID)
+RETURNS TABLE (
+  id UUID,
+  user_email TEXT,
+  price_id TEXT,
+  status TEXT,
+  original_amount INTEGER,
+  discount_amount INTEGER,
+  bonus_credits INTEGER,
+  stripe_session_id TEXT,
+  stripe_payment_id TEXT,
+  payment_status TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  redeemed_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    u.email,
+    r.price_id,
+    r.status,
+    r.original_amount,
+    r.discount_amount,
+    r.bonus_credits,
+    r.stripe_session_id,
+    pl.stripe_payment_id,
+    pl.status,
+    r.created_at,
+    r.redeemed_at
+  FROM promotion_redemptions r
+  LEFT JOIN users u ON u.id = r.user_id
+  LEFT JOIN payment_logs pl ON pl.id = r.payment_log_id
+  WHERE r.promotion_id = p_promotion_id
+  ORDER BY r.created_at DESC
+  LIMIT 500;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION validate_promotion(TEXT, TEXT, INTEGER, UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_promotion_summaries() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_promotion_redemptions(UUID) TO authenticated;
+
+COMMENT ON TABLE promotions IS 'Admin-managed coupon codes applied at checkout';
+COMMENT ON TABLE promotion_redemptions IS 'Coupon uses, reserved at checkout and redeemed by the Stripe webhook';
+
+COMMIT;
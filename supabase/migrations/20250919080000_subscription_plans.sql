@@ -0,0 +1,470 @@
+-- Subscription Plans
+-- Monthly plans that grant a credit allowance each time Stripe reports a paid
+-- invoice. Subscription credits are tracked separately from paid and bonus
+-- credits so unused allowance can roll over up to a per-plan cap, and are spent
+-- before the credits a user bought outright.
+
+BEGIN;
+
+-- ==========================================
+-- 1. PLANS
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS subscription_plans (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  stripe_price_id TEXT UNIQUE, -- recurring monthly price; plans without one can't be subscribed to
+  monthly_credits INTEGER NOT NULL CHECK (monthly_credits > 0),
+  price_cents INTEGER NOT NULL CHECK (price_cents >= 0),
+  rollover_cap INTEGER CHECK (rollover_cap >= 0), -- unused credits carried into the next period; NULL = no cap
+  features TEXT[] NOT NULL DEFAULT '{}',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO subscription_plans (id, name, description, monthly_credits, price_cents, rollover_cap, features, sort_order)
+VALUES
+  ('monthly', 'Monthly', 'A steady supply of portraits every month', 20, 799, 20,
+    ARRAY['20 credits every month', 'Unused credits roll over (up to 20)', 'Cancel anytime'], 1),
+  ('monthly_pro', 'Monthly Pro', 'For planners running several shoots a month', 60, 1999, 60,
+    ARRAY['60 credits every month', 'Unused credits roll over (up to 60)', 'Prorated upgrades', 'Cancel anytime'], 2)
+ON CONFLICT (id) DO NOTHING;
+
+-- ==========================================
+-- 2. SUBSCRIPTION CREDITS
+-- ==========================================
+
+ALTER TABLE user_credits
+  ADD COLUMN IF NOT EXISTS subscription_credits INTEGER NOT NULL DEFAULT 0 CHECK (subscription_credits >= 0);
+
+-- One row per paid subscription invoice; the unique invoice ID keeps webhook retries idempotent
+CREATE TABLE IF NOT EXISTS subscription_credit_grants (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  stripe_subscription_id TEXT NOT NULL,
+  stripe_invoice_id TEXT NOT NULL UNIQUE,
+  plan_id TEXT REFERENCES subscription_plans(id),
+  billing_reason TEXT, -- Stripe invoice billing_reason: subscription_create, subscription_cycle, subscription_update
+  period_start TIMESTAMP WITH TIME ZONE,
+  period_end TIMESTAMP WITH TIME ZONE,
+  credits_granted INTEGER NOT NULL DEFAULT 0,
+  rolled_over INTEGER NOT NULL DEFAULT 0,
+  expired INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_credit_grants_user_id ON subscription_credit_grants(user_id);
+CREATE INDEX IF NOT EXISTS idx_subscription_credit_grants_subscription ON subscription_credit_grants(stripe_subscription_id);
+
+-- ==========================================
+-- 3. ROW LEVEL SECURITY
+-- ==========================================
+
+ALTER TABLE subscription_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE subscription_credit_grants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view active subscription plans" ON subscription_plans;
+CREATE POLICY "Anyone can view active subscription plans" ON subscription_plans
+  FOR SELECT USING (is_active = true);
+
+DROP POLICY IF EXISTS "Admins can manage subscription plans" ON subscription_plans;
+CREATE POLICY "Admins can manage subscription plans" ON subscription_plans
+  FOR ALL USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Service role can manage subscription plans" ON subscription_plans;
+CREATE POLICY "Service role can manage subscription plans" ON subscription_plans
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view their own subscription credit grants" ON subscription_credit_grants;
+CREATE POLICY "Users can view their own subscription credit grants" ON subscription_credit_grants
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Service role can manage subscription credit grants" ON subscription_credit_grants;
+CREATE POLICY "Service role can manage subscription credit grants" ON subscription_credit_grants
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- ==========================================
+-- 4. GRANTING AND EXPIRING ALLOWANCES
+-- ==========================================
+
+-- Called by the Stripe webhook on invoice.paid.
+--   subscription_create / subscription_cycle: carry over unused credits up to the
+--     plan's rollover cap, then add the monthly allowance.
+--   subscription_update (plan change): upgrades get the difference in allowance
+--     prorated over what's left of the period; downgrades take effect next cycle.
+CREATE OR REPLACE FUNCTION grant_subscription_credits(
+  p_user_id UUID,
+  p_stripe_subscription_id TEXT,
+  p_stripe_invoice_id TEXT,
+  p_plan_id TEXT,
+  p_price_id TEXT,
+  p_billing_reason TEXT,
+  p_period_start TIMESTAMP WITH TIME ZONE,
+  p_period_end TIMESTAMP WITH TIME ZONE,
+  p_previous_plan_id TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_plan subscription_plans%ROWTYPE;
+  v_previous_credits INTEGER;
+  v_current INTEGER;
+  v_rolled_over INTEGER := 0;
+  v_expired INTEGER := 0;
+  v_granted INTEGER := 0;
+  v_remaining_fraction NUMERIC;
+  v_new_balance INTEGER;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM subscription_credit_grants WHERE stripe_invoice_id = p_stripe_invoice_id) THEN
+    RETURN 0;
+  END IF;
+
+  SELECT * INTO v_plan
+  FROM subscription_plans
+  WHERE id = p_plan_id OR (p_price_id IS NOT NULL AND stripe_price_id = p_price_id)
+  ORDER BY (id = p_plan_id) DESC NULLS LAST
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown subscription plan: %', COALESCE(p_plan_id, p_price_id);
+  END IF;
+
+  INSERT INTO user_credits (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT subscription_credits INTO v_current
+  FROM user_credits
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF p_billing_reason = 'subscription_update' THEN
+    SELECT monthly_credits INTO v_previous_credits FROM subscription_plans WHERE id = p_previous_plan_id;
+
+    IF v_previous_credits IS NOT NULL AND v_plan.monthly_credits > v_previous_credits
+       AND p_period_end > p_period_start THEN
+      v_remaining_fraction := GREATEST(0, LEAST(1,
+        EXTRACT(EPOCH FROM (p_period_end - NOW())) / EXTRACT(EPOCH FROM (p_period_end - p_period_start))
+      ));
+      v_granted := CEIL((v_plan.monthly_credits - v_previous_credits) * v_remaining_fraction);
+    END IF;
+
+    v_rolled_over := v_current;
+  ELSE
+    v_rolled_over := LEAST(v_current, COALESCE(v_plan.rollover_cap, v_current));
+    v_expired := v_current - v_rolled_over;
+    v_granted := v_plan.monthly_credits;
+  END IF;
+
+  v_new_balance := v_rolled_over + v_granted;
+
+  UPDATE user_credits
+  SET subscription_credits = v_new_balance
+  WHERE user_id = p_user_id;
+
+  INSERT INTO subscription_credit_grants (
+    user_id, stripe_subscription_id, stripe_invoice_id, plan_id, billing_reason,
+    period_start, period_end, credits_granted, rolled_over, expired
+  ) VALUES (
+    p_user_id, p_stripe_subscription_id, p_stripe_invoice_id, v_plan.id, p_billing_reason,
+    p_period_start, p_period_end, v_granted, v_rolled_over, v_expired
+  );
+
+  IF v_expired > 0 THEN
+    INSERT INTO credit_transactions (user_id, type, amount, balance_after, description)
+    VALUES (p_user_id, 'subscription_expired', -v_expired, v_current - v_expired,
+      'Unused subscription credits over the ' || v_plan.name || ' rollover cap');
+  END IF;
+
+  IF v_granted > 0 THEN
+    INSERT INTO credit_transactions (user_id, type, amount, balance_after, description, stripe_payment_id)
+    VALUES (p_user_id, 'subscription', v_granted, v_new_balance,
+      CASE WHEN p_billing_reason = 'subscription_update'
+        THEN 'Prorated upgrade to ' || v_plan.name
+        ELSE v_plan.name || ' monthly allowance'
+      END,
+      p_stripe_invoice_id);
+  END IF;
+
+  RETURN v_granted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Called when a subscription ends; credits bought outright are untouched
+CREATE OR REPLACE FUNCTION expire_subscription_credits(
+  p_user_id UUID,
+  p_description TEXT DEFAULT 'Subscription ended'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_current INTEGER;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  SELECT subscription_credits INTO v_current
+  FROM user_credits
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_current = 0 THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE user_credits
+  SET subscription_credits = 0
+  WHERE user_id = p_user_id;
+
+  INSERT INTO credit_transactions (user_id, type, amount, balance_after, description)
+  VALUES (p_user_id, 'subscription_expired', -v_current, 0, p_description);
+
+  RETURN v_current;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ==========================================
+-- 5. BALANCE AND CONSUMPTION
+-- ==========================================
+
+-- The return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS get_user_credits_with_reset(UUID);
+
+CREATE OR REPLACE FUNCTION get_user_credits_with_reset(p_user_id UUID)
+RETURNS TABLE (
+  ret_user_id UUID,
+  ret_free_credits_used_today INTEGER,
+  ret_paid_credits INTEGER,
+  ret_bonus_credits INTEGER,
+  ret_subscription_credits INTEGER,
+  ret_last_free_reset DATE
+) AS $$
+BEGIN
+  INSERT INTO user_credits (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  UPDATE user_credits
+  SET free_credits_used_today = 0,
+      last_free_reset = CURRENT_DATE
+  WHERE user_credits.user_id = p_user_id
+    AND last_free_reset < CURRENT_DATE;
+
+  RETURN QUERY
+  SELECT
+    uc.user_id,
+    uc.free_credits_used_today,
+    uc.paid_credits,
+    uc.bonus_credits,
+    uc.subscription_credits,
+    uc.last_free_reset
+  FROM user_credits uc
+  WHERE uc.user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Spends one credit: free daily credits first, then the subscription allowance
+-- (which can expire), then bonus and finally purchased credits.
+-- Returns which balance the credit came from.
+DROP FUNCTION IF EXISTS consume_credit_atomic(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION consume_credit_atomic(
+  p_user_id UUID,
+  p_description TEXT DEFAULT 'Portrait generation'
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_credits user_credits%ROWTYPE;
+  v_source TEXT;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Not allowed to consume credits for another user';
+  END IF;
+
+  PERFORM get_user_credits_with_reset(p_user_id);
+
+  SELECT * INTO v_credits FROM user_credits WHERE user_id = p_user_id FOR UPDATE;
+
+  IF v_credits.free_credits_used_today < 5 THEN
+    v_source := 'free_daily';
+    UPDATE user_credits SET free_credits_used_today = free_credits_used_today + 1
+    WHERE user_id = p_user_id;
+  ELSIF v_credits.subscription_credits > 0 THEN
+    v_source := 'subscription';
+    UPDATE user_credits SET subscription_credits = subscription_credits - 1
+    WHERE user_id = p_user_id;
+  ELSIF v_credits.bonus_credits > 0 THEN
+    v_source := 'bonus';
+    UPDATE user_credits SET bonus_credits = bonus_credits - 1
+    WHERE user_id = p_user_id;
+  ELSIF v_credits.paid_credits > 0 THEN
+    v_source := 'paid';
+    UPDATE user_credits SET paid_credits = paid_credits - 1
+    WHERE user_id = p_user_id;
+  ELSE
+    RAISE EXCEPTION 'Insufficient credits';
+  END IF;
+
+  INSERT INTO credit_transactions (user_id, type, amount, balance_after, description)
+  SELECT p_user_id, 'usage', -1,
+    uc.paid_credits + uc.bonus_credits + uc.subscription_credits,
+    p_description || ' (' || v_source || ')'
+  FROM user_credits uc
+  WHERE uc.user_id = p_user_id;
+
+  RETURN v_source;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- As before, plus subscription credits (which lapse at period end) are given
+-- back when a reservation taken from them is refunded
+CREATE OR REPLACE FUNCTION refund_reserved_credits(
+  p_user_id UUID,
+  p_source TEXT,
+  p_credits INTEGER,
+  p_description TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_new_balance INTEGER;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  IF COALESCE(p_credits, 0) <= 0 OR p_source IS NULL OR p_source NOT IN ('subscription', 'bonus', 'paid') THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE user_credits
+  SET paid_credits = paid_credits + CASE WHEN p_source = 'paid' THEN p_credits ELSE 0 END,
+      bonus_credits = bonus_credits + CASE WHEN p_source = 'bonus' THEN p_credits ELSE 0 END,
+      subscription_credits = subscription_credits + CASE WHEN p_source = 'subscription' THEN p_credits ELSE 0 END
+  WHERE user_id = p_user_id
+  RETURNING paid_credits + bonus_credits + subscription_credits INTO v_new_balance;
+
+  INSERT INTO credit_transactions (user_id, type, amount, balance_after, description)
+  VALUES (p_user_id, 'refund', p_credits, COALESCE(v_new_balance, p_credits), p_description);
+
+  RETURN p_credits;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- As before, but packages spend the subscription allowance first, then bonus
+-- and finally purchased credits
+CREATE OR REPLACE FUNCTION process_package_usage(
+  p_user_id UUID,
+  p_package_id UUID,
+  p_tier_id UUID,
+  p_session_id TEXT DEFAULT NULL,
+  p_themes_used TEXT[] DEFAULT '{}',
+  p_upload_type TEXT DEFAULT 'couple'
+)
+RETURNS JSONB AS $$
+DECLARE
+  usage_id UUID;
+  tier_info RECORD;
+  user_credits_info RECORD;
+  final_credit_cost INTEGER;
+  from_subscription INTEGER;
+  from_bonus INTEGER;
+  remaining_credits INTEGER;
+BEGIN
+  -- Get tier information
+  SELECT * INTO tier_info
+  FROM package_pricing_tiers
+  WHERE id = p_tier_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Invalid or disabled pricing tier'
+    );
+  END IF;
+
+  -- Get user credits
+  SELECT * INTO user_credits_info
+  FROM user_credits
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'User credits not found'
+    );
+  END IF;
+
+  -- Calculate final credit cost (using 1 credit for now, can be enhanced)
+  final_credit_cost := 1;
+
+  -- Check if user has enough credits
+  IF (user_credits_info.paid_credits + user_credits_info.bonus_credits + user_credits_info.subscription_credits) < final_credit_cost THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Insufficient credits',
+      'required', final_credit_cost,
+      'available', user_credits_info.paid_credits + user_credits_info.bonus_credits + user_credits_info.subscription_credits
+    );
+  END IF;
+
+  -- Create usage record
+  INSERT INTO package_usage (
+    user_id, package_id, tier_id, credits_used,
+    generations_count, themes_used, session_id, upload_type
+  ) VALUES (
+    p_user_id, p_package_id, p_tier_id, final_credit_cost,
+    3, p_themes_used, p_session_id, p_upload_type
+  ) RETURNING id INTO usage_id;
+
+  -- Deduct credits (subscription credits lapse at period end, then bonus
+  -- credits, then purchased)
+  from_subscription := LEAST(user_credits_info.subscription_credits, final_credit_cost);
+  from_bonus := LEAST(user_credits_info.bonus_credits, final_credit_cost - from_subscription);
+
+  UPDATE user_credits
+  SET subscription_credits = subscription_credits - from_subscription,
+      bonus_credits = bonus_credits - from_bonus,
+      paid_credits = paid_credits - (final_credit_cost - from_subscription - from_bonus)
+  WHERE user_id = p_user_id
+  RETURNING paid_credits + bonus_credits + subscription_credits INTO remaining_credits;
+
+  -- Log credit transaction
+  INSERT INTO credit_transactions (
+    user_id, type, amount, balance_after, description,
+    package_id, tier_id, usage_id
+  )
+  VALUES (
+    p_user_id, 'usage', -final_credit_cost,
+    remaining_credits,
+    'Package usage: ' || tier_info.name,
+    p_package_id, p_tier_id, usage_id
+  );
+
+  -- Update rate limiting
+  PERFORM increment_package_usage(p_user_id::TEXT, p_package_id, 1);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'usage_id', usage_id,
+    'credits_used', final_credit_cost,
+    'remaining_credits', remaining_credits,
+    'generations_included', 3
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_user_credits_with_reset(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION consume_credit_atomic(UUID, TEXT) TO authenticated;
+
+COMMENT ON TABLE subscription_plans IS 'Monthly subscription plans and their credit allowances';
+COMMENT ON TABLE subscription_credit_grants IS 'Subscription allowance granted per paid Stripe invoice';
+COMMENT ON FUNCTION get_user_credits_with_reset IS 'Get user credits with automatic daily reset';
+
+COMMIT;
@@ -0,0 +1,255 @@
+-- Gift Cards
+-- A buyer pays for a credit pack through Stripe and gets a code to pass on,
+-- with an optional message and an opening date. The recipient redeems the code
+-- for paid credits. The Stripe webhook activates a gift once paid and voids
+-- (or claws back) it if the charge is refunded.
+
+BEGIN;
+
+-- ==========================================
+-- 1. GIFT CARDS TABLE
+-- ==========================================
+
+-- status: 'pending' at checkout, 'active' once paid, then 'redeemed',
+-- 'refunded' or 'canceled' (checkout expired or failed)
+CREATE TABLE IF NOT EXISTS gift_cards (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  purchaser_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  price_id TEXT NOT NULL,
+  credits INTEGER NOT NULL DEFAULT 0 CHECK (credits >= 0), -- set from the paid pack when activated
+  amount_paid INTEGER, -- in cents
+  recipient_name TEXT CHECK (length(recipient_name) <= 100),
+  recipient_email TEXT CHECK (length(recipient_email) <= 255),
+  message TEXT CHECK (length(message) <= 500),
+  deliver_at TIMESTAMP WITH TIME ZONE, -- can't be opened or redeemed before this; NULL = right away
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'redeemed', 'refunded', 'canceled')),
+  stripe_session_id TEXT UNIQUE,
+  stripe_payment_id TEXT,
+  redeemed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  redeemed_at TIMESTAMP WITH TIME ZONE,
+  refunded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_gift_cards_purchaser ON gift_cards(purchaser_user_id);
+CREATE INDEX IF NOT EXISTS idx_gift_cards_payment ON gift_cards(stripe_payment_id);
+CREATE INDEX IF NOT EXISTS idx_gift_cards_status ON gift_cards(status);
+
+-- ==========================================
+-- 2. ROW LEVEL SECURITY
+-- ==========================================
+
+ALTER TABLE gift_cards ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view gift cards they bought or redeemed" ON gift_cards;
+CREATE POLICY "Users can view gift cards they bought or redeemed" ON gift_cards
+  FOR SELECT USING (auth.uid() = purchaser_user_id OR auth.uid() = redeemed_by);
+
+DROP POLICY IF EXISTS "Admins can view gift cards" ON gift_cards;
+CREATE POLICY "Admins can view gift cards" ON gift_cards
+  FOR SELECT USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Service role can manage gift cards" ON gift_cards;
+CREATE POLICY "Service role can manage gift cards" ON gift_cards
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- ==========================================
+-- 3. PURCHASE (checkout endpoints and Stripe webhook)
+-- ==========================================
+
+-- Creates the pending gift for a checkout session; returns its id and code
+CREATE OR REPLACE FUNCTION create_gift_card(
+  p_purchaser_user_id UUID,
+  p_price_id TEXT,
+  p_recipient_name TEXT DEFAULT NULL,
+  p_recipient_email TEXT DEFAULT NULL,
+  p_message TEXT DEFAULT NULL,
+  p_deliver_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_hex TEXT;
+  v_code TEXT;
+  v_id UUID;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  IF p_deliver_at IS NOT NULL AND p_deliver_at > NOW() + INTERVAL '1 year' THEN
+    RAISE EXCEPTION 'Delivery date must be within a year';
+  END IF;
+
+  LOOP
+    -- gen_random_uuid() draws from a strong random source
+    v_hex := upper(replace(gen_random_uuid()::text, '-', ''));
+    v_code := 'GIFT-' || substr(v_hex, 1, 4) || '-' || substr(v_hex, 5, 4) || '-' || substr(v_hex, 9, 4);
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM gift_cards WHERE code = v_code);
+  END LOOP;
+
+  INSERT INTO gift_cards (
+    code, purchaser_user_id, price_id, recipient_name, recipient_email, message, deliver_at
+  ) VALUES (
+    v_code, p_purchaser_user_id, p_price_id,
+    NULLIF(trim(p_recipient_name), ''),
+    NULLIF(lower(trim(p_recipient_email)), ''),
+    NULLIF(trim(p_message), ''),
+    p_deliver_at
+  )
+  RETURNING id INTO v_id;
+
+  RETURN jsonb_build_object('id', v_id, 'code', v_code);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Marks a paid gift redeemable. Safe to call again for the same session.
+CREATE OR REPLACE FUNCTION activate_gift_card(
+  p_gift_card_id UUID,
+  p_stripe_session_id TEXT,
+  p_stripe_payment_id TEXT,
+  p_credits INTEGER,
+  p_amount_paid INTEGER
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  -- A late payment on an expired checkout still activates the gift
+  UPDATE gift_cards
+  SET status = 'active',
+      credits = p_credits,
+      amount_paid = p_amount_paid,
+      stripe_session_id = p_stripe_session_id,
+      stripe_payment_id = p_stripe_payment_id,
+      updated_at = NOW()
+  WHERE id = p_gift_card_id
+    AND status IN ('pending', 'canceled');
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Voids a gift whose charge was refunded. If it was already redeemed, the
+-- credits are taken back from the recipient (never below zero).
+CREATE OR REPLACE FUNCTION refund_gift_card(p_stripe_payment_id TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_gift gift_cards%ROWTYPE;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  SELECT * INTO v_gift FROM gift_cards WHERE stripe_payment_id = p_stripe_payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('gift', false);
+  END IF;
+
+  IF v_gift.status NOT IN ('active', 'redeemed') THEN
+    RETURN jsonb_build_object('gift', true, 'code', v_gift.code, 'status', v_gift.status, 'credits_reversed', 0);
+  END IF;
+
+  UPDATE gift_cards
+  SET status = 'refunded',
+      refunded_at = NOW(),
+      updated_at = NOW()
+  WHERE id = v_gift.id;
+
+  IF v_gift.status = 'redeemed' AND v_gift.redeemed_by IS NOT NULL THEN
+    PERFORM process_refund(v_gift.redeemed_by, v_gift.credits, p_stripe_payment_id,
+      'Gift card refunded - ' || v_gift.code);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'gift', true,
+    'code', v_gift.code,
+    'status', 'refunded',
+    'credits_reversed', CASE WHEN v_gift.status = 'redeemed' THEN v_gift.credits ELSE 0 END
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ==========================================
+-- 4. REDEMPTION
+-- ==========================================
+
+-- What the redemption screen shows for a code. The message stays hidden
+-- until the gift's delivery date.
+CREATE OR REPLACE FUNCTION get_gift_card(p_code TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_gift gift_cards%ROWTYPE;
+  v_sender TEXT;
+  v_opened BOOLEAN;
+BEGIN
+  SELECT * INTO v_gift FROM gift_cards WHERE code = upper(trim(p_code));
+
+  IF NOT FOUND OR v_gift.status IN ('pending', 'canceled') THEN
+    RETURN jsonb_build_object('found', false);
+  END IF;
+
+  SELECT display_name INTO v_sender FROM users WHERE id = v_gift.purchaser_user_id;
+  v_opened := v_gift.deliver_at IS NULL OR v_gift.deliver_at <= NOW();
+
+  RETURN jsonb_build_object(
+    'found', true,
+    'code', v_gift.code,
+    'status', v_gift.status,
+    'credits', v_gift.credits,
+    'sender_name', v_sender,
+    'recipient_name', v_gift.recipient_name,
+    'message', CASE WHEN v_opened THEN v_gift.message END,
+    'deliver_at', v_gift.deliver_at,
+    'redeemable', v_gift.status = 'active' AND v_opened
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION redeem_gift_card(p_code TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_gift gift_cards%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Please sign in to redeem a gift');
+  END IF;
+
+  SELECT * INTO v_gift FROM gift_cards WHERE code = upper(trim(p_code)) FOR UPDATE;
+
+  IF NOT FOUND OR v_gift.status IN ('pending', 'canceled') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Gift code not found');
+  ELSIF v_gift.status = 'redeemed' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This gift has already been redeemed');
+  ELSIF v_gift.status = 'refunded' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This gift is no longer valid');
+  ELSIF v_gift.deliver_at IS NOT NULL AND v_gift.deliver_at > NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error',
+      'This gift opens on ' || to_char(v_gift.deliver_at, 'FMMonth FMDD, YYYY'));
+  END IF;
+
+  UPDATE gift_cards
+  SET status = 'redeemed',
+      redeemed_by = v_user_id,
+      redeemed_at = NOW(),
+      updated_at = NOW()
+  WHERE id = v_gift.id;
+
+  PERFORM add_paid_credits(v_user_id, v_gift.credits, v_gift.stripe_payment_id,
+    'Gift card redeemed - ' || v_gift.code);
+
+  RETURN jsonb_build_object('success', true, 'credits', v_gift.credits);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_gift_card(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION redeem_gift_card(TEXT) TO authenticated;
+
+COMMENT ON TABLE gift_cards IS 'Credit packs bought as gifts, redeemable by code';
+
+COMMIT;
@@ -0,0 +1,899 @@
+-- Credits Ledger
+-- Every change to a purchased, bonus or subscription balance is posted as a
+-- balanced journal entry: one line on the user's account and the opposite line
+-- on a system account named after the kind of change. user_credits stays as the
+-- balance everything reads, but only post_credit_entry may change it, and a
+-- reconciliation job recomputes balances from the ledger to catch drift.
+-- Free daily credits reset every day and are not part of the ledger.
+
+BEGIN;
+
+-- ==========================================
+-- 1. LEDGER TABLES
+-- ==========================================
+
+-- One row per credit change. user_id has no foreign key so the history
+-- outlives deleted accounts (the tables are append-only).
+CREATE TABLE IF NOT EXISTS credit_journal (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  entry_type TEXT NOT NULL, -- 'purchase', 'bonus', 'usage', 'refund', 'subscription', 'correction', ...
+  description TEXT,
+  stripe_payment_id TEXT,
+  created_by UUID, -- admin behind a manual adjustment or correction
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- account: 'user:paid', 'user:bonus' or 'user:subscription' (with user_id),
+-- or 'system:<entry_type>' for the other side of the entry
+CREATE TABLE IF NOT EXISTS credit_ledger (
+  id BIGSERIAL PRIMARY KEY,
+  journal_id UUID NOT NULL REFERENCES credit_journal(id),
+  account TEXT NOT NULL,
+  user_id UUID,
+  amount INTEGER NOT NULL CHECK (amount <> 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT credit_ledger_user_account CHECK ((account LIKE 'user:%') = (user_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_journal_user_created ON credit_journal(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_credit_journal_payment ON credit_journal(stripe_payment_id);
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_journal ON credit_ledger(journal_id);
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_user_account ON credit_ledger(user_id, account) WHERE user_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION prevent_credit_ledger_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION '% is append-only; post a correcting entry instead', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS credit_journal_append_only ON credit_journal;
+CREATE TRIGGER credit_journal_append_only
+  BEFORE UPDATE OR DELETE ON credit_journal
+  FOR EACH ROW EXECUTE FUNCTION prevent_credit_ledger_changes();
+
+DROP TRIGGER IF EXISTS credit_ledger_append_only ON credit_ledger;
+CREATE TRIGGER credit_ledger_append_only
+  BEFORE UPDATE OR DELETE ON credit_ledger
+  FOR EACH ROW EXECUTE FUNCTION prevent_credit_ledger_changes();
+
+-- Checked at commit, once all lines of the entry are in
+CREATE OR REPLACE FUNCTION check_credit_journal_balanced()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (SELECT SUM(amount) FROM credit_ledger WHERE journal_id = NEW.journal_id) <> 0 THEN
+    RAISE EXCEPTION 'Credit journal entry % does not balance', NEW.journal_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS credit_ledger_balanced ON credit_ledger;
+CREATE CONSTRAINT TRIGGER credit_ledger_balanced
+  AFTER INSERT ON credit_ledger
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION check_credit_journal_balanced();
+
+-- ==========================================
+-- 2. RECONCILIATION TABLES
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS credit_reconciliation_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  users_checked INTEGER NOT NULL DEFAULT 0,
+  mismatches_found INTEGER NOT NULL DEFAULT 0,
+  unbalanced_entries INTEGER NOT NULL DEFAULT 0,
+  triggered_by UUID REFERENCES users(id) ON DELETE SET NULL -- NULL = scheduled
+);
+
+-- One open row per user and balance while the drift lasts. A later run that
+-- finds the balance back in line marks it 'resolved'.
+CREATE TABLE IF NOT EXISTS credit_balance_mismatches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  bucket TEXT NOT NULL CHECK (bucket IN ('paid', 'bonus', 'subscription')),
+  recorded_balance INTEGER NOT NULL, -- user_credits
+  ledger_balance INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'corrected', 'resolved')),
+  first_run_id UUID REFERENCES credit_reconciliation_runs(id) ON DELETE SET NULL,
+  last_run_id UUID REFERENCES credit_reconciliation_runs(id) ON DELETE SET NULL,
+  corrected_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  corrected_at TIMESTAMP WITH TIME ZONE,
+  detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_mismatches_open
+  ON credit_balance_mismatches(user_id, bucket) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_credit_mismatches_status ON credit_balance_mismatches(status, detected_at DESC);
+
+-- ==========================================
+-- 3. ROW LEVEL SECURITY
+-- ==========================================
+
+ALTER TABLE credit_journal ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_balance_mismatches ENABLE ROW LEVEL SECURITY;
+
+-- Writes only happen inside the credit functions below
+DROP POLICY IF EXISTS "Admins can view the credit journal" ON credit_journal;
+CREATE POLICY "Admins can view the credit journal" ON credit_journal
+  FOR SELECT USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can view the credit ledger" ON credit_ledger;
+CREATE POLICY "Admins can view the credit ledger" ON credit_ledger
+  FOR SELECT USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can view reconciliation runs" ON credit_reconciliation_runs;
+CREATE POLICY "Admins can view reconciliation runs" ON credit_reconciliation_runs
+  FOR SELECT USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can view credit mismatches" ON credit_balance_mismatches;
+CREATE POLICY "Admins can view credit mismatches" ON credit_balance_mismatches
+  FOR SELECT USING (is_admin(auth.uid()));
+
+-- ==========================================
+-- 4. POSTING
+-- ==========================================
+
+-- Set for the duration of a posting so the guard below lets the update through
+CREATE OR REPLACE FUNCTION guard_user_credit_balances()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('credits.ledger_posting', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF COALESCE(NEW.paid_credits, 0) <> 0
+       OR COALESCE(NEW.bonus_credits, 0) <> 0
+       OR COALESCE(NEW.subscription_credits, 0) <> 0 THEN
+      RAISE EXCEPTION 'Credit balances can only be changed through the credits ledger';
+    END IF;
+  ELSIF NEW.paid_credits IS DISTINCT FROM OLD.paid_credits
+     OR NEW.bonus_credits IS DISTINCT FROM OLD.bonus_credits
+     OR NEW.subscription_credits IS DISTINCT FROM OLD.subscription_credits THEN
+    RAISE EXCEPTION 'Credit balances can only be changed through the credits ledger';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_user_credit_balances ON user_credits;
+CREATE TRIGGER guard_user_credit_balances
+  BEFORE INSERT OR UPDATE ON user_credits
+  FOR EACH ROW EXECUTE FUNCTION guard_user_credit_balances();
+
+-- The single write path for credit balances. Moves p_amount (negative for a
+-- debit) in or out of one of the user's balances, records the balanced
+-- journal entry and, unless the caller logs its own, the credit_transactions
+-- row. Returns the user's total balance afterwards. A 'correction' brings the
+-- balance back to the ledger, which already holds the amount, so its journal
+-- entry has no ledger lines.
+-- Runs with the caller's rights, so clients can't call it directly; the credit
+-- functions that use it are SECURITY DEFINER.
+CREATE OR REPLACE FUNCTION post_credit_entry(
+  p_user_id UUID,
+  p_bucket TEXT,
+  p_amount INTEGER,
+  p_entry_type TEXT,
+  p_description TEXT,
+  p_stripe_payment_id TEXT DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL,
+  p_log_transaction BOOLEAN DEFAULT true
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_journal_id UUID;
+  v_balance INTEGER;
+  v_total INTEGER;
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'Credits can only be posted by the credit functions';
+  END IF;
+
+  IF p_bucket NOT IN ('paid', 'bonus', 'subscription') THEN
+    RAISE EXCEPTION 'Unknown credit balance: %', p_bucket;
+  END IF;
+
+  IF COALESCE(p_amount, 0) = 0 THEN
+    RAISE EXCEPTION 'A credit entry needs a non-zero amount';
+  END IF;
+
+  INSERT INTO user_credits (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  PERFORM set_config('credits.ledger_posting', 'on', true);
+
+  UPDATE user_credits
+  SET paid_credits = paid_credits + CASE WHEN p_bucket = 'paid' THEN p_amount ELSE 0 END,
+      bonus_credits = bonus_credits + CASE WHEN p_bucket = 'bonus' THEN p_amount ELSE 0 END,
+      subscription_credits = subscription_credits + CASE WHEN p_bucket = 'subscription' THEN p_amount ELSE 0 END
+  WHERE user_id = p_user_id
+  RETURNING
+    CASE p_bucket WHEN 'paid' THEN paid_credits WHEN 'bonus' THEN bonus_credits ELSE subscription_credits END,
+    paid_credits + bonus_credits + subscription_credits
+  INTO v_balance, v_total;
+
+  PERFORM set_config('credits.ledger_posting', 'off', true);
+
+  IF v_balance < 0 THEN
+    RAISE EXCEPTION 'Insufficient credits';
+  END IF;
+
+  INSERT INTO credit_journal (user_id, entry_type, description, stripe_payment_id, created_by)
+  VALUES (p_user_id, p_entry_type, p_description, p_stripe_payment_id, p_created_by)
+  RETURNING id INTO v_journal_id;
+
+  IF p_entry_type <> 'correction' THEN
+    INSERT INTO credit_ledger (journal_id, account, user_id, amount) VALUES
+      (v_journal_id, 'user:' || p_bucket, p_user_id, p_amount),
+      (v_journal_id, 'system:' || p_entry_type, NULL, -p_amount);
+  END IF;
+
+  IF p_log_transaction THEN
+    INSERT INTO credit_transactions (user_id, type, amount, balance_after, description, stripe_payment_id)
+    VALUES (p_user_id, p_entry_type, p_amount, v_total, p_description, p_stripe_payment_id);
+  END IF;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ==========================================
+-- 5. OPENING BALANCES
+-- ==========================================
+
+-- Balances that predate the ledger are carried in as one opening entry per
+-- user and balance, so the first reconciliation starts from zero drift
+DO $$
+DECLARE
+  v_row RECORD;
+  v_journal_id UUID;
+BEGIN
+  FOR v_row IN
+    SELECT uc.user_id, b.bucket, b.amount
+    FROM user_credits uc
+    CROSS JOIN LATERAL (VALUES
+      ('paid', uc.paid_credits),
+      ('bonus', uc.bonus_credits),
+      ('subscription', uc.subscription_credits)
+    ) AS b(bucket, amount)
+    WHERE COALESCE(b.amount, 0) <> 0
+      AND NOT EXISTS (
+        SELECT 1 FROM credit_ledger cl
+        WHERE cl.user_id = uc.user_id AND cl.account = 'user:' || b.bucket
+      )
+  LOOP
+    INSERT INTO credit_journal (user_id, entry_type, description)
+    VALUES (v_row.user_id, 'opening_balance', 'Balance carried into the credits ledger')
+    RETURNING id INTO v_journal_id;
+
+    INSERT INTO credit_ledger (journal_id, account, user_id, amount) VALUES
+      (v_journal_id, 'user:' || v_row.bucket, v_row.user_id, v_row.amount),
+      (v_journal_id, 'system:opening_balance', NULL, -v_row.amount);
+  END LOOP;
+END;
+$$;
+
+-- ==========================================
+-- 6. CREDIT FUNCTIONS, NOW POSTING TO THE LEDGER
+-- ==========================================
+
+-- add_paid_credits, add_bonus_credits and process_refund run with the caller's
+-- rights like post_credit_entry: the service role may call them, and so may
+-- the SECURITY DEFINER functions that use them (gift card redemption,
+-- referrals, promotions). Clients can't mint or take credits through them.
+-- The legacy verify_payment_and_add_credits, which credited any session id it
+-- was given, is taken away from clients below; the Stripe webhook adds
+-- purchased credits.
+CREATE OR REPLACE FUNCTION add_paid_credits(
+  p_user_id UUID,
+  p_credits INTEGER,
+  p_stripe_payment_id TEXT,
+  p_description TEXT DEFAULT 'Credit purchase'
+) RETURNS void AS $$
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' AND current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'Only the service role can change credit balances';
+  END IF;
+
+  PERFORM post_credit_entry(p_user_id, 'paid', p_credits, 'purchase', p_description, p_stripe_payment_id);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION add_bonus_credits(
+  p_user_id UUID,
+  p_credits INTEGER,
+  p_description TEXT
+) RETURNS VOID AS $$
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' AND current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'Only the service role can change credit balances';
+  END IF;
+
+  PERFORM post_credit_entry(p_user_id, 'bonus', p_credits, 'bonus', p_description);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Takes back refunded purchased credits, as many as are left
+CREATE OR REPLACE FUNCTION process_refund(
+  p_user_id UUID,
+  p_credits INTEGER,
+  p_stripe_payment_id TEXT,
+  p_description TEXT DEFAULT 'Refund processed'
+) RETURNS void AS $$
+DECLARE
+  v_paid INTEGER;
+  v_amount INTEGER;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' AND current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'Only the service role can change credit balances';
+  END IF;
+
+  SELECT paid_credits INTO v_paid
+  FROM user_credits
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  v_amount := LEAST(p_credits, COALESCE(v_paid, 0));
+
+  IF v_amount > 0 THEN
+    PERFORM post_credit_entry(p_user_id, 'paid', -v_amount, 'refund', p_description, p_stripe_payment_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION add_paid_credits(UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION add_bonus_credits(UUID, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION process_refund(UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION add_paid_credits(UUID, INTEGER, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION add_bonus_credits(UUID, INTEGER, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION process_refund(UUID, INTEGER, TEXT, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION verify_payment_and_add_credits(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION consume_credit_atomic(
+  p_user_id UUID,
+  p_description TEXT DEFAULT 'Portrait generation'
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_credits user_credits%ROWTYPE;
+  v_source TEXT;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Not allowed to consume credits for another user';
+  END IF;
+
+  PERFORM get_user_credits_with_reset(p_user_id);
+
+  SELECT * INTO v_credits FROM user_credits WHERE user_id = p_user_id FOR UPDATE;
+
+  IF v_credits.free_credits_used_today < 5 THEN
+    v_source := 'free_daily';
+  ELSIF v_credits.subscription_credits > 0 THEN
+    v_source := 'subscription';
+  ELSIF v_credits.bonus_credits > 0 THEN
+    v_source := 'bonus';
+  ELSIF v_credits.paid_credits > 0 THEN
+    v_source := 'paid';
+  ELSE
+    RAISE EXCEPTION 'Insufficient credits';
+  END IF;
+
+  IF v_source = 'free_daily' THEN
+    UPDATE user_credits SET free_credits_used_today = free_credits_used_today + 1
+    WHERE user_id = p_user_id;
+
+    INSERT INTO credit_transactions (user_id, type, amount, balance_after, description)
+    VALUES (p_user_id, 'usage', -1,
+      v_credits.paid_credits + v_credits.bonus_credits + v_credits.subscription_credits,
+      p_description || ' (free_daily)');
+  ELSE
+    PERFORM post_credit_entry(p_user_id, v_source, -1, 'usage', p_description || ' (' || v_source || ')');
+  END IF;
+
+  RETURN v_source;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION grant_subscription_credits(
+  p_user_id UUID,
+  p_stripe_subscription_id TEXT,
+  p_stripe_invoice_id TEXT,
+  p_plan_id TEXT,
+  p_price_id TEXT,
+  p_billing_reason TEXT,
+  p_period_start TIMESTAMP WITH TIME ZONE,
+  p_period_end TIMESTAMP WITH TIME ZONE,
+  p_previous_plan_id TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_plan subscription_plans%ROWTYPE;
+  v_previous_credits INTEGER;
+  v_current INTEGER;
+  v_rolled_over INTEGER := 0;
+  v_expired INTEGER := 0;
+  v_granted INTEGER := 0;
+  v_remaining_fraction NUMERIC;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM subscription_credit_grants WHERE stripe_invoice_id = p_stripe_invoice_id) THEN
+    RETURN 0;
+  END IF;
+
+  SELECT * INTO v_plan
+  FROM subscription_plans
+  WHERE id = p_plan_id OR (p_price_id IS NOT NULL AND stripe_price_id = p_price_id)
+  ORDER BY (id = p_plan_id) DESC NULLS LAST
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown subscription plan: %', COALESCE(p_plan_id, p_price_id);
+  END IF;
+
+  INSERT INTO user_credits (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT subscription_credits INTO v_current
+  FROM user_credits
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF p_billing_reason = 'subscription_update' THEN
+    SELECT monthly_credits INTO v_previous_credits FROM subscription_plans WHERE id = p_previous_plan_id;
+
+    IF v_previous_credits IS NOT NULL AND v_plan.monthly_credits > v_previous_credits
+       AND p_period_end > p_period_start THEN
+      v_remaining_fraction := GREATEST(0, LEAST(1,
+        EXTRACT(EPOCH FROM (p_period_end - NOW())) / EXTRACT(EPOCH FROM (p_period_end - p_period_start))
+      ));
+      v_granted := CEIL((v_plan.monthly_credits - v_previous_credits) * v_remaining_fraction);
+    END IF;
+
+    v_rolled_over := v_current;
+  ELSE
+    v_rolled_over := LEAST(v_current, COALESCE(v_plan.rollover_cap, v_current));
+    v_expired := v_current - v_rolled_over;
+    v_granted := v_plan.monthly_credits;
+  END IF;
+
+  INSERT INTO subscription_credit_grants (
+    user_id, stripe_subscription_id, stripe_invoice_id, plan_id, billing_reason,
+    period_start, period_end, credits_granted, rolled_over, expired
+  ) VALUES (
+    p_user_id, p_stripe_subscription_id, p_stripe_invoice_id, v_plan.id, p_billing_reason,
+    p_period_start, p_period_end, v_granted, v_rolled_over, v_expired
+  );
+
+  IF v_expired > 0 THEN
+    PERFORM post_credit_entry(p_user_id, 'subscription', -v_expired, 'subscription_expired',
+      'Unused subscription credits over the ' || v_plan.name || ' rollover cap');
+  END IF;
+
+  IF v_granted > 0 THEN
+    PERFORM post_credit_entry(p_user_id, 'subscription', v_granted, 'subscription',
+      CASE WHEN p_billing_reason = 'subscription_update'
+        THEN 'Prorated upgrade to ' || v_plan.name
+        ELSE v_plan.name || ' monthly allowance'
+      END,
+      p_stripe_invoice_id);
+  END IF;
+
+  RETURN v_granted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION expire_subscription_credits(
+  p_user_id UUID,
+  p_description TEXT DEFAULT 'Subscription ended'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_current INTEGER;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  SELECT subscription_credits INTO v_current
+  FROM user_credits
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_current = 0 THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM post_credit_entry(p_user_id, 'subscription', -v_current, 'subscription_expired', p_description);
+
+  RETURN v_current;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION process_package_usage(
+  p_user_id UUID,
+  p_package_id UUID,
+  p_tier_id UUID,
+  p_session_id TEXT DEFAULT NULL,
+  p_themes_used TEXT[] DEFAULT '{}',
+  p_upload_type TEXT DEFAULT 'couple'
+)
+RETURNS JSONB AS $$
+DECLARE
+  usage_id UUID;
+  tier_info RECORD;
+  user_credits_info RECORD;
+  final_credit_cost INTEGER;
+  from_subscription INTEGER;
+  from_bonus INTEGER;
+  remaining_credits INTEGER;
+BEGIN
+  -- Get tier information
+  SELECT * INTO tier_info
+  FROM package_pricing_tiers
+  WHERE id = p_tier_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Invalid or disabled pricing tier'
+    );
+  END IF;
+
+  -- Get user credits
+  SELECT * INTO user_credits_info
+  FROM user_credits
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'User credits not found'
+    );
+  END IF;
+
+  -- Calculate final credit cost (using 1 credit for now, can be enhanced)
+  final_credit_cost := 1;
+
+  -- Check if user has enough credits
+  IF (user_credits_info.paid_credits + user_credits_info.bonus_credits + user_credits_info.subscription_credits) < final_credit_cost THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Insufficient credits',
+      'required', final_credit_cost,
+      'available', user_credits_info.paid_credits + user_credits_info.bonus_credits + user_credits_info.subscription_credits
+    );
+  END IF;
+
+  -- Create usage record
+  INSERT INTO package_usage (
+    user_id, package_id, tier_id, credits_used,
+    generations_count, themes_used, session_id, upload_type
+  ) VALUES (
+    p_user_id, p_package_id, p_tier_id, final_credit_cost,
+    3, p_themes_used, p_session_id, p_upload_type
+  ) RETURNING id INTO usage_id;
+
+  -- Deduct credits (subscription credits lapse at period end, then bonus
+  -- credits, then purchased). The transaction row is logged below so it can
+  -- carry the package references.
+  from_subscription := LEAST(user_credits_info.subscription_credits, final_credit_cost);
+  from_bonus := LEAST(user_credits_info.bonus_credits, final_credit_cost - from_subscription);
+
+  IF from_subscription > 0 THEN
+    PERFORM post_credit_entry(p_user_id, 'subscription', -from_subscription, 'usage',
+      'Package usage: ' || tier_info.name, NULL, NULL, false);
+  END IF;
+
+  IF from_bonus > 0 THEN
+    PERFORM post_credit_entry(p_user_id, 'bonus', -from_bonus, 'usage',
+      'Package usage: ' || tier_info.name, NULL, NULL, false);
+  END IF;
+
+  IF final_credit_cost > from_subscription + from_bonus THEN
+    PERFORM post_credit_entry(p_user_id, 'paid', -(final_credit_cost - from_subscription - from_bonus), 'usage',
+      'Package usage: ' || tier_info.name, NULL, NULL, false);
+  END IF;
+
+  SELECT paid_credits + bonus_credits + subscription_credits INTO remaining_credits
+  FROM user_credits
+  WHERE user_id = p_user_id;
+
+  -- Log credit transaction
+  INSERT INTO credit_transactions (
+    user_id, type, amount, balance_after, description,
+    package_id, tier_id, usage_id
+  )
+  VALUES (
+    p_user_id, 'usage', -final_credit_cost,
+    remaining_credits,
+    'Package usage: ' || tier_info.name,
+    p_package_id, p_tier_id, usage_id
+  );
+
+  -- Update rate limiting
+  PERFORM increment_package_usage(p_user_id::TEXT, p_package_id, 1);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'usage_id', usage_id,
+    'credits_used', final_credit_cost,
+    'remaining_credits', remaining_credits,
+    'generations_included', 3
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Job refunds go back to the balance the reservation came from; free daily
+-- generations still aren't refunded
+CREATE OR REPLACE FUNCTION refund_reserved_credits(
+  p_user_id UUID,
+  p_source TEXT,
+  p_credits INTEGER,
+  p_description TEXT
+)
+RETURNS INTEGER AS $$
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  IF COALESCE(p_credits, 0) <= 0 OR p_source IS NULL OR p_source NOT IN ('subscription', 'bonus', 'paid') THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM post_credit_entry(p_user_id, p_source, p_credits, 'refund', p_description);
+
+  RETURN p_credits;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Manual grant or deduction from the admin panel. Grants go to bonus credits;
+-- deductions take bonus credits first, then purchased ones.
+CREATE OR REPLACE FUNCTION admin_adjust_credits(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_reason TEXT,
+  p_admin_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_admin_id UUID := COALESCE(auth.uid(), p_admin_id);
+  v_credits user_credits%ROWTYPE;
+  v_from_bonus INTEGER;
+  v_total INTEGER;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF COALESCE(p_amount, 0) = 0 THEN
+    RAISE EXCEPTION 'Amount must not be zero';
+  END IF;
+
+  IF p_amount > 0 THEN
+    v_total := post_credit_entry(p_user_id, 'bonus', p_amount, 'admin_adjustment', p_reason, NULL, v_admin_id);
+    RETURN jsonb_build_object('success', true, 'new_balance', v_total);
+  END IF;
+
+  INSERT INTO user_credits (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO v_credits FROM user_credits WHERE user_id = p_user_id FOR UPDATE;
+
+  IF v_credits.paid_credits + v_credits.bonus_credits < -p_amount THEN
+    RAISE EXCEPTION 'Insufficient credits. User has % credits, trying to deduct %',
+      v_credits.paid_credits + v_credits.bonus_credits, -p_amount;
+  END IF;
+
+  v_from_bonus := LEAST(v_credits.bonus_credits, -p_amount);
+  v_total := v_credits.paid_credits + v_credits.bonus_credits + v_credits.subscription_credits;
+
+  IF v_from_bonus > 0 THEN
+    v_total := post_credit_entry(p_user_id, 'bonus', -v_from_bonus, 'admin_adjustment', p_reason, NULL, v_admin_id);
+  END IF;
+
+  IF -p_amount > v_from_bonus THEN
+    v_total := post_credit_entry(p_user_id, 'paid', p_amount + v_from_bonus, 'admin_adjustment', p_reason, NULL, v_admin_id);
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'new_balance', v_total);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ==========================================
+-- 7. RECONCILIATION
+-- ==========================================
+
+-- Recomputes every balance from the ledger and compares it with user_credits.
+-- Meant to run nightly; admins can also run it from the credits page.
+CREATE OR REPLACE FUNCTION reconcile_credit_balances()
+RETURNS JSONB AS $$
+DECLARE
+  v_run_id UUID;
+  v_users INTEGER;
+  v_mismatches INTEGER;
+  v_unbalanced INTEGER;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  INSERT INTO credit_reconciliation_runs (triggered_by)
+  VALUES (auth.uid())
+  RETURNING id INTO v_run_id;
+
+  CREATE TEMP TABLE credit_reconciliation_balances ON COMMIT DROP AS
+  WITH recorded AS (
+    SELECT uc.user_id, b.bucket, COALESCE(b.amount, 0) AS amount
+    FROM user_credits uc
+    CROSS JOIN LATERAL (VALUES
+      ('paid', uc.paid_credits),
+      ('bonus', uc.bonus_credits),
+      ('subscription', uc.subscription_credits)
+    ) AS b(bucket, amount)
+  ),
+  ledger AS (
+    SELECT user_id, substr(account, 6) AS bucket, SUM(amount)::INTEGER AS amount
+    FROM credit_ledger
+    WHERE user_id IS NOT NULL
+    GROUP BY user_id, account
+  )
+  SELECT
+    COALESCE(r.user_id, l.user_id) AS user_id,
+    COALESCE(r.bucket, l.bucket) AS bucket,
+    COALESCE(r.amount, 0) AS recorded_balance,
+    COALESCE(l.amount, 0) AS ledger_balance
+  FROM recorded r
+  FULL OUTER JOIN ledger l ON l.user_id = r.user_id AND l.bucket = r.bucket
+  WHERE EXISTS (SELECT 1 FROM users u WHERE u.id = COALESCE(r.user_id, l.user_id));
+
+  SELECT COUNT(DISTINCT user_id) INTO v_users FROM credit_reconciliation_balances;
+
+  -- Drift that has gone away since the last run
+  UPDATE credit_balance_mismatches m
+  SET status = 'resolved',
+      last_run_id = v_run_id,
+      updated_at = NOW()
+  WHERE m.status = 'open'
+    AND NOT EXISTS (
+      SELECT 1 FROM credit_reconciliation_balances b
+      WHERE b.user_id = m.user_id AND b.bucket = m.bucket
+        AND b.recorded_balance <> b.ledger_balance
+    );
+
+  INSERT INTO credit_balance_mismatches (
+    user_id, bucket, recorded_balance, ledger_balance, first_run_id, last_run_id
+  )
+  SELECT user_id, bucket, recorded_balance, ledger_balance, v_run_id, v_run_id
+  FROM credit_reconciliation_balances
+  WHERE recorded_balance <> ledger_balance
+  ON CONFLICT (user_id, bucket) WHERE status = 'open' DO UPDATE
+  SET recorded_balance = EXCLUDED.recorded_balance,
+      ledger_balance = EXCLUDED.ledger_balance,
+      last_run_id = v_run_id,
+      updated_at = NOW();
+
+  GET DIAGNOSTICS v_mismatches = ROW_COUNT;
+
+  -- Can't happen while the balance trigger is in place; checked anyway
+  SELECT COUNT(*) INTO v_unbalanced
+  FROM (
+    SELECT journal_id FROM credit_ledger GROUP BY journal_id HAVING SUM(amount) <> 0
+  ) unbalanced;
+
+  UPDATE credit_reconciliation_runs
+  SET completed_at = NOW(),
+      users_checked = v_users,
+      mismatches_found = v_mismatches,
+      unbalanced_entries = v_unbalanced
+  WHERE id = v_run_id;
+
+  DROP TABLE credit_reconciliation_balances;
+
+  RETURN jsonb_build_object(
+    'run_id', v_run_id,
+    'users_checked', v_users,
+    'mismatches_found', v_mismatches,
+    'unbalanced_entries', v_unbalanced
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The ledger is the source of truth: a correction posts the stored balance back
+-- to the ledger balance, with a 'correction' transaction in the user's history
+CREATE OR REPLACE FUNCTION correct_credit_mismatch(p_mismatch_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_mismatch credit_balance_mismatches%ROWTYPE;
+  v_ledger_balance INTEGER;
+  v_recorded INTEGER;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT * INTO v_mismatch FROM credit_balance_mismatches WHERE id = p_mismatch_id FOR UPDATE;
+
+  IF NOT FOUND OR v_mismatch.status <> 'open' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Mismatch is no longer open');
+  END IF;
+
+  -- Recompute rather than trust the figures from the last run
+  SELECT COALESCE(SUM(amount), 0)::INTEGER INTO v_ledger_balance
+  FROM credit_ledger
+  WHERE user_id = v_mismatch.user_id AND account = 'user:' || v_mismatch.bucket;
+
+  INSERT INTO user_credits (user_id)
+  VALUES (v_mismatch.user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT CASE v_mismatch.bucket
+      WHEN 'paid' THEN paid_credits
+      WHEN 'bonus' THEN bonus_credits
+      ELSE subscription_credits
+    END
+  INTO v_recorded
+  FROM user_credits
+  WHERE user_id = v_mismatch.user_id
+  FOR UPDATE;
+
+  IF v_recorded <> v_ledger_balance THEN
+    PERFORM post_credit_entry(v_mismatch.user_id, v_mismatch.bucket, v_ledger_balance - v_recorded, 'correction',
+      'Balance corrected to match the credits ledger (' || v_mismatch.bucket || ')', NULL, auth.uid());
+  END IF;
+
+  UPDATE credit_balance_mismatches
+  SET status = 'corrected',
+      recorded_balance = v_recorded,
+      ledger_balance = v_ledger_balance,
+      corrected_by = auth.uid(),
+      corrected_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_mismatch_id;
+
+  INSERT INTO admin_actions (admin_user_id, action_type, action_details)
+  VALUES (auth.uid(), 'credit_balance_corrected', jsonb_build_object(
+    'mismatch_id', p_mismatch_id,
+    'user_id', v_mismatch.user_id,
+    'bucket', v_mismatch.bucket,
+    'from', v_recorded,
+    'to', v_ledger_balance
+  ));
+
+  RETURN jsonb_build_object('success', true, 'balance', v_ledger_balance, 'adjustment', v_ledger_balance - v_recorded);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION admin_adjust_credits(UUID, INTEGER, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION reconcile_credit_balances() TO authenticated;
+GRANT EXECUTE ON FUNCTION correct_credit_mismatch(UUID) TO authenticated;
+
+-- Nightly reconciliation (if pg_cron is available). The job runs without a
+-- request JWT, so it sets the service role claim first.
+-- SELECT cron.schedule('reconcile-credit-balances', '30 3 * * *', $$
+--   SELECT set_config('request.jwt.claims', '{"role": "service_role"}', true);
+--   SELECT reconcile_credit_balances();
+-- $$);
+
+COMMENT ON TABLE credit_journal IS 'Append-only journal of every credit balance change';
+COMMENT ON TABLE credit_ledger IS 'Double-entry lines for credit_journal; each entry sums to zero';
+COMMENT ON TABLE credit_balance_mismatches IS 'Differences between user_credits and the balances recomputed from the ledger';
+COMMENT ON FUNCTION post_credit_entry IS 'The only write path for paid, bonus and subscription credit balances';
+
+COMMIT;
@@ -0,0 +1,296 @@
+-- Generation Refunds
+-- Package credits are taken up front for the whole shoot. Each style that
+-- fails (including images the model refuses as unsafe) gives back its share of
+-- those credits, recorded against the package usage, so support no longer has
+-- to grant them by hand.
+
+BEGIN;
+
+-- ==========================================
+-- 1. PER-STYLE REFUNDS
+-- ==========================================
+
+ALTER TABLE package_usage
+  ADD COLUMN IF NOT EXISTS styles_failed INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS credits_refunded INTEGER NOT NULL DEFAULT 0,
+  -- Credits taken from each balance, e.g. {"bonus": 1}, less what has been
+  -- refunded to it; filled in by process_package_usage
+  ADD COLUMN IF NOT EXISTS charged_buckets JSONB NOT NULL DEFAULT '{}';
+
+-- One row per failed style of a package usage; credits_refunded is what that
+-- failure added to the usage's refund (0 once the usage is fully refunded)
+CREATE TABLE IF NOT EXISTS generation_refunds (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  usage_id UUID REFERENCES package_usage(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  style TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('failed', 'unsafe')),
+  error_message TEXT,
+  credits_refunded INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE (usage_id, style)
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_refunds_user_created ON generation_refunds(user_id, created_at DESC);
+
+ALTER TABLE generation_refunds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own generation refunds" ON generation_refunds;
+CREATE POLICY "Users can view their own generation refunds" ON generation_refunds
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view generation refunds" ON generation_refunds;
+CREATE POLICY "Admins can view generation refunds" ON generation_refunds
+  FOR SELECT USING (is_admin(auth.uid()));
+
+-- ==========================================
+-- 2. PACKAGE USAGE
+-- ==========================================
+
+-- As before, plus: records which balances the credits came from
+CREATE OR REPLACE FUNCTION process_package_usage(
+  p_user_id UUID,
+  p_package_id UUID,
+  p_tier_id UUID,
+  p_session_id TEXT DEFAULT NULL,
+  p_themes_used TEXT[] DEFAULT '{}',
+  p_upload_type TEXT DEFAULT 'couple'
+)
+RETURNS JSONB AS $$
+DECLARE
+  usage_id UUID;
+  tier_info RECORD;
+  user_credits_info RECORD;
+  final_credit_cost INTEGER;
+  from_subscription INTEGER;
+  from_bonus INTEGER;
+  remaining_credits INTEGER;
+BEGIN
+  -- Get tier information
+  SELECT * INTO tier_info
+  FROM package_pricing_tiers
+  WHERE id = p_tier_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Invalid or disabled pricing tier'
+    );
+  END IF;
+
+  -- Get user credits
+  SELECT * INTO user_credits_info
+  FROM user_credits
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'User credits not found'
+    );
+  END IF;
+
+  -- Calculate final credit cost (using 1 credit for now, can be enhanced)
+  final_credit_cost := 1;
+
+  -- Check if user has enough credits
+  IF (user_credits_info.paid_credits + user_credits_info.bonus_credits + user_credits_info.subscription_credits) < final_credit_cost THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Insufficient credits',
+      'required', final_credit_cost,
+      'available', user_credits_info.paid_credits + user_credits_info.bonus_credits + user_credits_info.subscription_credits
+    );
+  END IF;
+
+  -- Create usage record
+  INSERT INTO package_usage (
+    user_id, package_id, tier_id, credits_used,
+    generations_count, themes_used, session_id, upload_type
+  ) VALUES (
+    p_user_id, p_package_id, p_tier_id, final_credit_cost,
+    3, p_themes_used, p_session_id, p_upload_type
+  ) RETURNING id INTO usage_id;
+
+  -- Deduct credits (subscription credits lapse at period end, then bonus
+  -- credits, then purchased). The transaction row is logged below so it can
+  -- carry the package references.
+  from_subscription := LEAST(user_credits_info.subscription_credits, final_credit_cost);
+  from_bonus := LEAST(user_credits_info.bonus_credits, final_credit_cost - from_subscription);
+
+  IF from_subscription > 0 THEN
+    PERFORM post_credit_entry(p_user_id, 'subscription', -from_subscription, 'usage',
+      'Package usage: ' || tier_info.name, NULL, NULL, false);
+  END IF;
+
+  IF from_bonus > 0 THEN
+    PERFORM post_credit_entry(p_user_id, 'bonus', -from_bonus, 'usage',
+      'Package usage: ' || tier_info.name, NULL, NULL, false);
+  END IF;
+
+  IF final_credit_cost > from_subscription + from_bonus THEN
+    PERFORM post_credit_entry(p_user_id, 'paid', -(final_credit_cost - from_subscription - from_bonus), 'usage',
+      'Package usage: ' || tier_info.name, NULL, NULL, false);
+  END IF;
+
+  -- Remember which balances paid for the usage, so failed styles are refunded to them
+  UPDATE package_usage
+  SET charged_buckets = jsonb_build_object(
+    'subscription', from_subscription,
+    'bonus', from_bonus,
+    'paid', final_credit_cost - from_subscription - from_bonus
+  )
+  WHERE id = usage_id;
+
+  SELECT paid_credits + bonus_credits + subscription_credits INTO remaining_credits
+  FROM user_credits
+  WHERE user_id = p_user_id;
+
+  -- Log credit transaction
+  INSERT INTO credit_transactions (
+    user_id, type, amount, balance_after, description,
+    package_id, tier_id, usage_id
+  )
+  VALUES (
+    p_user_id, 'usage', -final_credit_cost,
+    remaining_credits,
+    'Package usage: ' || tier_info.name,
+    p_package_id, p_tier_id, usage_id
+  );
+
+  -- Update rate limiting
+  PERFORM increment_package_usage(p_user_id::TEXT, p_package_id, 1);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'usage_id', usage_id,
+    'credits_used', final_credit_cost,
+    'remaining_credits', remaining_credits,
+    'generations_included', 3
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ==========================================
+-- 3. REFUND FUNCTION (portrait-generation edge function)
+-- ==========================================
+
+-- Records a failed style and refunds the usage's credits in proportion to its
+-- failed styles, rounded up to whole credits and never more than the usage
+-- cost (the same rule as finalize_generation_job). Credits go back to the
+-- balances they were taken from. Styles that aren't part of the usage are
+-- ignored, and calling again for the same style is safe. Returns the credits
+-- refunded by this call.
+CREATE OR REPLACE FUNCTION refund_failed_generation(
+  p_usage_id UUID,
+  p_user_id UUID,
+  p_style TEXT,
+  p_reason TEXT DEFAULT 'failed',
+  p_error_message TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_usage package_usage%ROWTYPE;
+  v_failed INTEGER;
+  v_owed INTEGER;
+  v_refund INTEGER;
+  v_total INTEGER;
+  v_bucket TEXT;
+  v_charged JSONB;
+  v_take INTEGER;
+  v_left INTEGER;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  SELECT * INTO v_usage FROM package_usage WHERE id = p_usage_id FOR UPDATE;
+
+  IF NOT FOUND OR v_usage.user_id IS DISTINCT FROM p_user_id THEN
+    RETURN 0;
+  END IF;
+
+  -- themes_used holds theme ids for the app's package shoots, and the edge
+  -- function reports the theme's name as the style
+  IF NOT (
+    p_style = ANY(COALESCE(v_usage.themes_used, '{}'))
+    OR EXISTS (
+      SELECT 1 FROM package_themes
+      WHERE name = p_style AND id::TEXT = ANY(COALESCE(v_usage.themes_used, '{}'))
+    )
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO generation_refunds (usage_id, user_id, style, reason, error_message)
+  VALUES (p_usage_id, p_user_id, p_style, p_reason, left(p_error_message, 500))
+  ON CONFLICT (usage_id, style) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  v_failed := v_usage.styles_failed + 1;
+  v_owed := LEAST(
+    CEIL(
+      COALESCE(v_usage.credits_used, 0) * LEAST(v_failed, GREATEST(v_usage.generations_count, 1))::NUMERIC
+        / GREATEST(v_usage.generations_count, 1)
+    )::INTEGER,
+    COALESCE(v_usage.credits_used, 0)
+  );
+  v_refund := GREATEST(v_owed - v_usage.credits_refunded, 0);
+
+  v_charged := v_usage.charged_buckets;
+
+  IF v_refund > 0 THEN
+    UPDATE generation_refunds
+    SET credits_refunded = v_refund
+    WHERE usage_id = p_usage_id AND style = p_style;
+
+    -- Purchased credits go back first, as they never expire. Logged here
+    -- rather than by post_credit_entry so the row links to the usage.
+    v_left := v_refund;
+    FOREACH v_bucket IN ARRAY ARRAY['paid', 'subscription', 'bonus'] LOOP
+      v_take := LEAST(v_left, COALESCE((v_charged ->> v_bucket)::INTEGER, 0));
+      CONTINUE WHEN v_take <= 0;
+
+      v_total := post_credit_entry(p_user_id, v_bucket, v_take, 'refund',
+        NULL, NULL, NULL, false);
+      v_charged := jsonb_set(v_charged, ARRAY[v_bucket], to_jsonb((v_charged ->> v_bucket)::INTEGER - v_take));
+      v_left := v_left - v_take;
+    END LOOP;
+
+    -- Usages recorded before charged_buckets existed
+    IF v_left > 0 THEN
+      v_total := post_credit_entry(p_user_id, 'bonus', v_left, 'refund',
+        NULL, NULL, NULL, false);
+    END IF;
+
+    INSERT INTO credit_transactions (
+      user_id, type, amount, balance_after, description,
+      package_id, tier_id, usage_id
+    ) VALUES (
+      p_user_id, 'refund', v_refund, v_total,
+      CASE WHEN p_reason = 'unsafe'
+        THEN format('Refund for "%s" (blocked by the safety check)', p_style)
+        ELSE format('Refund for "%s" (generation failed)', p_style)
+      END,
+      v_usage.package_id, v_usage.tier_id, p_usage_id
+    );
+  END IF;
+
+  UPDATE package_usage
+  SET styles_failed = v_failed,
+      credits_refunded = credits_refunded + v_refund,
+      charged_buckets = v_charged
+  WHERE id = p_usage_id;
+
+  RETURN v_refund;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON TABLE generation_refunds IS 'Failed styles of a package usage and the credits given back for them';
+
+COMMIT;
@@ -0,0 +1,586 @@
+-- Credit Lots and Expiry
+-- Every credit added to a balance is kept as a lot with its source and, for
+-- sources that have a lifetime, an expiry date. Spending takes the lot that
+-- expires soonest; a scheduled job expires what is left of lapsed lots through
+-- the ledger. Lots are maintained by post_credit_entry, so per balance they
+-- always add up to the user_credits figure.
+
+BEGIN;
+
+-- ==========================================
+-- 1. LIFETIMES
+-- ==========================================
+
+-- How long credits stay usable, by source (the ledger entry type) or, for
+-- sources without a row, by the balance they were added to. Purchased credits
+-- are deliberately absent: they are the only credits that never expire.
+-- Subscription credits last for the subscription period instead.
+CREATE TABLE IF NOT EXISTS credit_lifetimes (
+  source TEXT PRIMARY KEY,
+  lifetime_days INTEGER NOT NULL CHECK (lifetime_days > 0),
+  description TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO credit_lifetimes (source, lifetime_days, description) VALUES
+  ('bonus', 365, 'Waitlist, referral and promotional bonus credits'),
+  ('admin_adjustment', 180, 'Credits granted from the admin panel')
+ON CONFLICT (source) DO NOTHING;
+
+-- ==========================================
+-- 2. LOTS
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS credit_lots (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  bucket TEXT NOT NULL CHECK (bucket IN ('paid', 'bonus', 'subscription')),
+  source TEXT NOT NULL,
+  journal_id UUID REFERENCES credit_journal(id),
+  original_amount INTEGER NOT NULL CHECK (original_amount > 0),
+  remaining INTEGER NOT NULL CHECK (remaining >= 0),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  expired_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CHECK (remaining <= original_amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_lots_user_open ON credit_lots(user_id, expires_at) WHERE remaining > 0;
+CREATE INDEX IF NOT EXISTS idx_credit_lots_expiring ON credit_lots(expires_at) WHERE remaining > 0 AND expires_at IS NOT NULL;
+
+-- ==========================================
+-- 3. ROW LEVEL SECURITY
+-- ==========================================
+
+ALTER TABLE credit_lifetimes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_lots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view credit lifetimes" ON credit_lifetimes;
+CREATE POLICY "Anyone can view credit lifetimes" ON credit_lifetimes
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage credit lifetimes" ON credit_lifetimes;
+CREATE POLICY "Admins can manage credit lifetimes" ON credit_lifetimes
+  FOR ALL USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Users can view their own credit lots" ON credit_lots;
+CREATE POLICY "Users can view their own credit lots" ON credit_lots
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view credit lots" ON credit_lots;
+CREATE POLICY "Admins can view credit lots" ON credit_lots
+  FOR SELECT USING (is_admin(auth.uid()));
+
+-- ==========================================
+-- 4. POSTING, NOW KEEPING LOTS
+-- ==========================================
+
+-- Subscription credits last until the end of the user's latest paid period,
+-- plus a day for the renewal invoice (paid shortly after the period ends) to
+-- roll them over
+CREATE OR REPLACE FUNCTION subscription_credits_expire_at(p_user_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+  SELECT MAX(period_end) + INTERVAL '1 day'
+  FROM subscription_credit_grants
+  WHERE user_id = p_user_id;
+$$ LANGUAGE sql STABLE;
+
+-- As before, plus: a credit opens a lot (expiring per credit_lifetimes, or
+-- with the subscription period for subscription credits) and a debit draws
+-- down the balance's lots, soonest expiry first. A refund reopens the lots it
+-- was drawn from, most recently drawn first, so refunded credits keep their
+-- expiry date. A correction brings the open lots in line with the corrected
+-- balance.
+CREATE OR REPLACE FUNCTION post_credit_entry(
+  p_user_id UUID,
+  p_bucket TEXT,
+  p_amount INTEGER,
+  p_entry_type TEXT,
+  p_description TEXT,
+  p_stripe_payment_id TEXT DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL,
+  p_log_transaction BOOLEAN DEFAULT true
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_journal_id UUID;
+  v_balance INTEGER;
+  v_total INTEGER;
+  v_lot RECORD;
+  v_left INTEGER;
+  v_take INTEGER;
+  v_expires_at TIMESTAMP WITH TIME ZONE;
+  v_lifetime_days INTEGER;
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'Credits can only be posted by the credit functions';
+  END IF;
+
+  IF p_bucket NOT IN ('paid', 'bonus', 'subscription') THEN
+    RAISE EXCEPTION 'Unknown credit balance: %', p_bucket;
+  END IF;
+
+  IF COALESCE(p_amount, 0) = 0 THEN
+    RAISE EXCEPTION 'A credit entry needs a non-zero amount';
+  END IF;
+
+  INSERT INTO user_credits (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  PERFORM set_config('credits.ledger_posting', 'on', true);
+
+  UPDATE user_credits
+  SET paid_credits = paid_credits + CASE WHEN p_bucket = 'paid' THEN p_amount ELSE 0 END,
+      bonus_credits = bonus_credits + CASE WHEN p_bucket = 'bonus' THEN p_amount ELSE 0 END,
+      subscription_credits = subscription_credits + CASE WHEN p_bucket = 'subscription' THEN p_amount ELSE 0 END
+  WHERE user_id = p_user_id
+  RETURNING
+    CASE p_bucket WHEN 'paid' THEN paid_credits WHEN 'bonus' THEN bonus_credits ELSE subscription_credits END,
+    paid_credits + bonus_credits + subscription_credits
+  INTO v_balance, v_total;
+
+  PERFORM set_config('credits.ledger_posting', 'off', true);
+
+  IF v_balance < 0 THEN
+    RAISE EXCEPTION 'Insufficient credits';
+  END IF;
+
+  INSERT INTO credit_journal (user_id, entry_type, description, stripe_payment_id, created_by)
+  VALUES (p_user_id, p_entry_type, p_description, p_stripe_payment_id, p_created_by)
+  RETURNING id INTO v_journal_id;
+
+  IF p_entry_type <> 'correction' THEN
+    INSERT INTO credit_ledger (journal_id, account, user_id, amount) VALUES
+      (v_journal_id, 'user:' || p_bucket, p_user_id, p_amount),
+      (v_journal_id, 'system:' || p_entry_type, NULL, -p_amount);
+  END IF;
+
+  -- Credits to add to (or, when negative, take from) the balance's lots
+  IF p_entry_type = 'correction' THEN
+    SELECT v_balance - COALESCE(SUM(remaining), 0)::INTEGER INTO v_left
+    FROM credit_lots
+    WHERE user_id = p_user_id AND bucket = p_bucket AND remaining > 0;
+  ELSE
+    v_left := p_amount;
+  END IF;
+
+  IF v_left > 0 AND p_entry_type = 'refund' THEN
+    FOR v_lot IN
+      SELECT id, original_amount - remaining AS drawn
+      FROM credit_lots
+      WHERE user_id = p_user_id AND bucket = p_bucket AND remaining < original_amount
+      ORDER BY expires_at DESC NULLS FIRST, created_at DESC, id DESC
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_left = 0;
+      v_take := LEAST(v_lot.drawn, v_left);
+      UPDATE credit_lots SET remaining = remaining + v_take WHERE id = v_lot.id;
+      v_left := v_left - v_take;
+    END LOOP;
+  END IF;
+
+  IF v_left > 0 THEN
+    IF p_bucket = 'subscription' THEN
+      v_expires_at := subscription_credits_expire_at(p_user_id);
+
+      -- Credits rolled over from earlier periods last as long as the new ones
+      IF p_entry_type NOT IN ('refund', 'correction') THEN
+        UPDATE credit_lots
+        SET expires_at = v_expires_at
+        WHERE user_id = p_user_id AND bucket = 'subscription' AND remaining > 0
+          AND (expires_at IS NULL OR (expires_at > NOW() AND expires_at < v_expires_at));
+      END IF;
+    ELSE
+      SELECT COALESCE(
+        (SELECT lifetime_days FROM credit_lifetimes WHERE source = p_entry_type),
+        (SELECT lifetime_days FROM credit_lifetimes WHERE source = p_bucket)
+      ) INTO v_lifetime_days;
+
+      IF v_lifetime_days IS NULL AND p_bucket <> 'paid' THEN
+        RAISE EXCEPTION 'No credit lifetime for % credits', p_bucket;
+      END IF;
+
+      v_expires_at := NOW() + make_interval(days => v_lifetime_days);
+    END IF;
+
+    INSERT INTO credit_lots (user_id, bucket, source, journal_id, original_amount, remaining, expires_at)
+    VALUES (p_user_id, p_bucket, p_entry_type, v_journal_id, v_left, v_left, v_expires_at);
+  ELSIF v_left < 0 THEN
+    v_left := -v_left;
+
+    FOR v_lot IN
+      SELECT id, remaining
+      FROM credit_lots
+      WHERE user_id = p_user_id AND bucket = p_bucket AND remaining > 0
+      ORDER BY expires_at ASC NULLS LAST, created_at, id
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_left = 0;
+      v_take := LEAST(v_lot.remaining, v_left);
+      UPDATE credit_lots SET remaining = remaining - v_take WHERE id = v_lot.id;
+      v_left := v_left - v_take;
+    END LOOP;
+  END IF;
+
+  IF p_log_transaction THEN
+    INSERT INTO credit_transactions (user_id, type, amount, balance_after, description, stripe_payment_id)
+    VALUES (p_user_id, p_entry_type, p_amount, v_total, p_description, p_stripe_payment_id);
+  END IF;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The balance of the user's lot that expires soonest, among p_buckets (in
+-- that order of preference when expiry dates tie)
+CREATE OR REPLACE FUNCTION next_credit_bucket(
+  p_user_id UUID,
+  p_buckets TEXT[] DEFAULT ARRAY['subscription', 'bonus', 'paid']
+)
+RETURNS TEXT AS $$
+  SELECT bucket
+  FROM credit_lots
+  WHERE user_id = p_user_id AND remaining > 0 AND bucket = ANY(p_buckets)
+  ORDER BY expires_at ASC NULLS LAST, array_position(p_buckets, bucket), created_at
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Debits p_amount across p_buckets, soonest-expiring lots first. Returns the
+-- user's total balance afterwards. Like post_credit_entry, only for use inside
+-- the credit functions.
+CREATE OR REPLACE FUNCTION spend_credit_lots(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_entry_type TEXT,
+  p_description TEXT,
+  p_buckets TEXT[] DEFAULT ARRAY['subscription', 'bonus', 'paid'],
+  p_created_by UUID DEFAULT NULL,
+  p_log_transaction BOOLEAN DEFAULT true
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_left INTEGER := p_amount;
+  v_bucket TEXT;
+  v_available INTEGER;
+  v_take INTEGER;
+  v_total INTEGER;
+BEGIN
+  WHILE v_left > 0 LOOP
+    v_bucket := next_credit_bucket(p_user_id, p_buckets);
+
+    IF v_bucket IS NULL THEN
+      RAISE EXCEPTION 'Insufficient credits';
+    END IF;
+
+    -- Stay within lots that share the soonest expiry, so a later lot in the
+    -- same balance isn't drawn ahead of one in another balance
+    SELECT SUM(remaining)::INTEGER INTO v_available
+    FROM credit_lots
+    WHERE user_id = p_user_id AND bucket = v_bucket AND remaining > 0
+      AND expires_at IS NOT DISTINCT FROM (
+        SELECT MIN(expires_at) FROM credit_lots
+        WHERE user_id = p_user_id AND bucket = v_bucket AND remaining > 0
+      );
+
+    v_take := LEAST(v_left, v_available);
+    v_total := post_credit_entry(p_user_id, v_bucket, -v_take, p_entry_type, p_description,
+      NULL, p_created_by, p_log_transaction);
+    v_left := v_left - v_take;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ==========================================
+-- 5. OPENING LOTS
+-- ==========================================
+
+-- Existing balances become one lot each. Bonus credits start their lifetime
+-- now; subscription credits end with the current subscription period.
+INSERT INTO credit_lots (user_id, bucket, source, original_amount, remaining, expires_at)
+SELECT uc.user_id, b.bucket, 'opening_balance', b.amount, b.amount,
+  CASE b.bucket
+    WHEN 'bonus' THEN NOW() + make_interval(days => (SELECT lifetime_days FROM credit_lifetimes WHERE source = 'bonus'))
+    WHEN 'subscription' THEN subscription_credits_expire_at(uc.user_id)
+  END
+FROM user_credits uc
+CROSS JOIN LATERAL (VALUES
+  ('paid', uc.paid_credits),
+  ('bonus', uc.bonus_credits),
+  ('subscription', uc.subscription_credits)
+) AS b(bucket, amount)
+WHERE COALESCE(b.amount, 0) > 0
+  AND NOT EXISTS (
+    SELECT 1 FROM credit_lots cl
+    WHERE cl.user_id = uc.user_id AND cl.bucket = b.bucket
+  );
+
+-- ==========================================
+-- 6. SPENDING, SOONEST EXPIRY FIRST
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION consume_credit_atomic(
+  p_user_id UUID,
+  p_description TEXT DEFAULT 'Portrait generation'
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_credits user_credits%ROWTYPE;
+  v_source TEXT;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Not allowed to consume credits for another user';
+  END IF;
+
+  PERFORM get_user_credits_with_reset(p_user_id);
+
+  SELECT * INTO v_credits FROM user_credits WHERE user_id = p_user_id FOR UPDATE;
+
+  -- Free daily credits go first; they lapse at midnight
+  IF v_credits.free_credits_used_today < 5 THEN
+    v_source := 'free_daily';
+  ELSE
+    v_source := next_credit_bucket(p_user_id);
+  END IF;
+
+  IF v_source IS NULL THEN
+    RAISE EXCEPTION 'Insufficient credits';
+  END IF;
+
+  IF v_source = 'free_daily' THEN
+    UPDATE user_credits SET free_credits_used_today = free_credits_used_today + 1
+    WHERE user_id = p_user_id;
+
+    INSERT INTO credit_transactions (user_id, type, amount, balance_after, description)
+    VALUES (p_user_id, 'usage', -1,
+      v_credits.paid_credits + v_credits.bonus_credits + v_credits.subscription_credits,
+      p_description || ' (free_daily)');
+  ELSE
+    PERFORM post_credit_entry(p_user_id, v_source, -1, 'usage', p_description || ' (' || v_source || ')');
+  END IF;
+
+  RETURN v_source;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION process_package_usage(
+  p_user_id UUID,
+  p_package_id UUID,
+  p_tier_id UUID,
+  p_session_id TEXT DEFAULT NULL,
+  p_themes_used TEXT[] DEFAULT '{}',
+  p_upload_type TEXT DEFAULT 'couple'
+)
+RETURNS JSONB AS $$
+DECLARE
+  usage_id UUID;
+  tier_info RECORD;
+  user_credits_info RECORD;
+  credits_after RECORD;
+  final_credit_cost INTEGER;
+  remaining_credits INTEGER;
+BEGIN
+  -- Get tier information
+  SELECT * INTO tier_info
+  FROM package_pricing_tiers
+  WHERE id = p_tier_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Invalid or disabled pricing tier'
+    );
+  END IF;
+
+  -- Get user credits
+  SELECT * INTO user_credits_info
+  FROM user_credits
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'User credits not found'
+    );
+  END IF;
+
+  -- Calculate final credit cost (using 1 credit for now, can be enhanced)
+  final_credit_cost := 1;
+
+  -- Check if user has enough credits
+  IF (user_credits_info.paid_credits + user_credits_info.bonus_credits + user_credits_info.subscription_credits) < final_credit_cost THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Insufficient credits',
+      'required', final_credit_cost,
+      'available', user_credits_info.paid_credits + user_credits_info.bonus_credits + user_credits_info.subscription_credits
+    );
+  END IF;
+
+  -- Create usage record
+  INSERT INTO package_usage (
+    user_id, package_id, tier_id, credits_used,
+    generations_count, themes_used, session_id, upload_type
+  ) VALUES (
+    p_user_id, p_package_id, p_tier_id, final_credit_cost,
+    3, p_themes_used, p_session_id, p_upload_type
+  ) RETURNING id INTO usage_id;
+
+  -- Deduct credits from the soonest-expiring subscription, bonus or purchased
+  -- lots. The transaction row is logged below so it can carry the package
+  -- references.
+  PERFORM spend_credit_lots(p_user_id, final_credit_cost, 'usage',
+    'Package usage: ' || tier_info.name, ARRAY['subscription', 'bonus', 'paid'], NULL, false);
+
+  SELECT * INTO credits_after
+  FROM user_credits
+  WHERE user_id = p_user_id;
+
+  remaining_credits := credits_after.paid_credits + credits_after.bonus_credits + credits_after.subscription_credits;
+
+  -- Remember which balances paid for the usage, so failed styles are refunded to them
+  UPDATE package_usage
+  SET charged_buckets = jsonb_build_object(
+    'paid', user_credits_info.paid_credits - credits_after.paid_credits,
+    'bonus', user_credits_info.bonus_credits - credits_after.bonus_credits,
+    'subscription', user_credits_info.subscription_credits - credits_after.subscription_credits
+  )
+  WHERE id = usage_id;
+
+  -- Log credit transaction
+  INSERT INTO credit_transactions (
+    user_id, type, amount, balance_after, description,
+    package_id, tier_id, usage_id
+  )
+  VALUES (
+    p_user_id, 'usage', -final_credit_cost,
+    remaining_credits,
+    'Package usage: ' || tier_info.name,
+    p_package_id, p_tier_id, usage_id
+  );
+
+  -- Update rate limiting
+  PERFORM increment_package_usage(p_user_id::TEXT, p_package_id, 1);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'usage_id', usage_id,
+    'credits_used', final_credit_cost,
+    'remaining_credits', remaining_credits,
+    'generations_included', 3
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Manual grant or deduction from the admin panel. Grants go to bonus credits;
+-- deductions take bonus and purchased credits, soonest expiry first.
+CREATE OR REPLACE FUNCTION admin_adjust_credits(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_reason TEXT,
+  p_admin_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_admin_id UUID := COALESCE(auth.uid(), p_admin_id);
+  v_credits user_credits%ROWTYPE;
+  v_total INTEGER;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF COALESCE(p_amount, 0) = 0 THEN
+    RAISE EXCEPTION 'Amount must not be zero';
+  END IF;
+
+  IF p_amount > 0 THEN
+    v_total := post_credit_entry(p_user_id, 'bonus', p_amount, 'admin_adjustment', p_reason, NULL, v_admin_id);
+    RETURN jsonb_build_object('success', true, 'new_balance', v_total);
+  END IF;
+
+  INSERT INTO user_credits (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO v_credits FROM user_credits WHERE user_id = p_user_id FOR UPDATE;
+
+  IF v_credits.paid_credits + v_credits.bonus_credits < -p_amount THEN
+    RAISE EXCEPTION 'Insufficient credits. User has % credits, trying to deduct %',
+      v_credits.paid_credits + v_credits.bonus_credits, -p_amount;
+  END IF;
+
+  v_total := spend_credit_lots(p_user_id, -p_amount, 'admin_adjustment', p_reason,
+    ARRAY['bonus', 'paid'], v_admin_id);
+
+  RETURN jsonb_build_object('success', true, 'new_balance', v_total);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ==========================================
+-- 7. EXPIRY
+-- ==========================================
+
+-- Takes what is left of every lapsed lot out of its balance, one 'expired'
+-- transaction per lot (scheduled job, service role or admin)
+CREATE OR REPLACE FUNCTION expire_credit_lots()
+RETURNS JSONB AS $$
+DECLARE
+  v_lot RECORD;
+  v_lots INTEGER := 0;
+  v_credits INTEGER := 0;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  -- Lapsed lots are always the first drawn from their balance, so in this
+  -- order each posting draws down exactly the lot it is for
+  FOR v_lot IN
+    SELECT cl.id, cl.user_id, cl.bucket, cl.remaining, cl.source, cl.expires_at
+    FROM credit_lots cl
+    WHERE cl.remaining > 0 AND cl.expires_at <= NOW()
+    ORDER BY cl.user_id, cl.bucket, cl.expires_at, cl.created_at, cl.id
+    FOR UPDATE
+  LOOP
+    BEGIN
+      PERFORM post_credit_entry(v_lot.user_id, v_lot.bucket, -v_lot.remaining, 'expired',
+        format('%s %s credit(s) expired on %s', v_lot.remaining,
+          CASE v_lot.source
+            WHEN 'admin_adjustment' THEN 'granted'
+            WHEN 'opening_balance' THEN v_lot.bucket
+            ELSE v_lot.source
+          END,
+          to_char(v_lot.expires_at, 'FMMonth FMDD, YYYY')));
+
+      UPDATE credit_lots SET expired_at = NOW() WHERE id = v_lot.id;
+
+      v_lots := v_lots + 1;
+      v_credits := v_credits + v_lot.remaining;
+    EXCEPTION WHEN OTHERS THEN
+      -- Left for reconciliation to flag; the other lots still expire
+      RAISE WARNING 'Could not expire credit lot %: %', v_lot.id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN jsonb_build_object('lots_expired', v_lots, 'credits_expired', v_credits);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION expire_credit_lots() TO authenticated;
+
+-- Hourly expiry (if pg_cron is available), with the service role claim set
+-- as for the reconciliation job
+-- SELECT cron.schedule('expire-credit-lots', '15 * * * *', $$
+--   SELECT set_config('request.jwt.claims', '{"role": "service_role"}', true);
+--   SELECT expire_credit_lots();
+-- $$);
+
+COMMENT ON TABLE credit_lifetimes IS 'How long credits from each source stay usable; sources not listed never expire';
+COMMENT ON TABLE credit_lots IS 'Credits as added to a balance, with source, expiry and what is left';
+
+COMMIT;
@@ -0,0 +1,267 @@
+-- Regional Price Books
+-- Each price book prices the credit packs (and, for display, package tiers) in
+-- one currency for a set of countries, with the Stripe price to charge. Visitors
+-- get the book for their country; checkout charges that book's Stripe price and
+-- the webhook credits the pack it belongs to. Revenue is reported in the base
+-- currency using admin-maintained exchange rates.
+
+BEGIN;
+
+-- ==========================================
+-- 1. EXCHANGE RATES
+-- ==========================================
+
+-- rate_to_base: value of one unit of the currency in the base currency (USD).
+-- Amounts are stored in minor units throughout, so conversion is a multiply.
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  currency TEXT PRIMARY KEY CHECK (currency = upper(currency) AND length(currency) = 3),
+  rate_to_base NUMERIC(12, 6) NOT NULL CHECK (rate_to_base > 0),
+  is_base BOOLEAN NOT NULL DEFAULT false,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exchange_rates_base ON exchange_rates(is_base) WHERE is_base;
+
+INSERT INTO exchange_rates (currency, rate_to_base, is_base) VALUES
+  ('USD', 1, true),
+  ('EUR', 1.08, false),
+  ('GBP', 1.27, false),
+  ('INR', 0.012, false),
+  ('AUD', 0.66, false)
+ON CONFLICT (currency) DO NOTHING;
+
+-- Minor units of p_currency in base currency minor units
+CREATE OR REPLACE FUNCTION convert_to_base_currency(p_amount INTEGER, p_currency TEXT)
+RETURNS INTEGER AS $$
+  SELECT ROUND(p_amount * COALESCE(
+    (SELECT rate_to_base FROM exchange_rates WHERE currency = upper(p_currency)),
+    1
+  ))::INTEGER;
+$$ LANGUAGE sql STABLE;
+
+-- ==========================================
+-- 2. PRICE BOOKS
+-- ==========================================
+
+-- countries: ISO 3166 alpha-2 codes the book applies to. The default book
+-- serves everyone else.
+CREATE TABLE IF NOT EXISTS price_books (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  currency TEXT NOT NULL REFERENCES exchange_rates(currency),
+  countries TEXT[] NOT NULL DEFAULT '{}',
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_books_default ON price_books(is_default) WHERE is_default;
+
+-- product_id: the credit pack id ('starter', 'wedding', 'party') or the
+-- package_pricing_tiers id. A price without a Stripe price is shown but not
+-- sold; checkout falls back to the default book's price.
+CREATE TABLE IF NOT EXISTS price_book_prices (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  price_book_id UUID REFERENCES price_books(id) ON DELETE CASCADE NOT NULL,
+  product_type TEXT NOT NULL CHECK (product_type IN ('credit_pack', 'package_tier')),
+  product_id TEXT NOT NULL,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents >= 0), -- minor units of the book's currency
+  credits INTEGER CHECK (credits > 0), -- credit packs only
+  stripe_price_id TEXT UNIQUE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE (price_book_id, product_type, product_id)
+);
+
+INSERT INTO price_books (code, name, currency, countries, is_default) VALUES
+  ('us', 'United States', 'USD', ARRAY['US'], true),
+  ('eu', 'Eurozone', 'EUR', ARRAY['AT', 'BE', 'CY', 'DE', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PT', 'SI', 'SK'], false),
+  ('uk', 'United Kingdom', 'GBP', ARRAY['GB'], false),
+  ('in', 'India', 'INR', ARRAY['IN'], false),
+  ('au', 'Australia', 'AUD', ARRAY['AU'], false)
+ON CONFLICT (code) DO NOTHING;
+
+-- Launch prices per region; Stripe prices are attached from the admin panel
+INSERT INTO price_book_prices (price_book_id, product_type, product_id, amount_cents, credits)
+SELECT pb.id, 'credit_pack', p.pack, p.amount, p.credits
+FROM price_books pb
+JOIN (VALUES
+  ('us', 'starter', 499, 10), ('us', 'wedding', 999, 25), ('us', 'party', 2499, 75),
+  ('eu', 'starter', 499, 10), ('eu', 'wedding', 999, 25), ('eu', 'party', 2499, 75),
+  ('uk', 'starter', 449, 10), ('uk', 'wedding', 899, 25), ('uk', 'party', 2199, 75),
+  ('in', 'starter', 19900, 10), ('in', 'wedding', 39900, 25), ('in', 'party', 99900, 75),
+  ('au', 'starter', 799, 10), ('au', 'wedding', 1499, 25), ('au', 'party', 3799, 75)
+) AS p(book, pack, amount, credits) ON p.book = pb.code
+ON CONFLICT (price_book_id, product_type, product_id) DO NOTHING;
+
+-- The default book charges the packs' existing Stripe prices
+UPDATE price_book_prices pbp
+SET stripe_price_id = p.stripe_price_id
+FROM price_books pb,
+  (VALUES
+    ('starter', 'price_1S80xuBBS2fcAqSN3PCh3SND'),
+    ('wedding', 'price_1S80xzBBS2fcAqSNRfHmQ0Fl'),
+    ('party', 'price_1S80y3BBS2fcAqSNLzTop2ir')
+  ) AS p(pack, stripe_price_id)
+WHERE pbp.price_book_id = pb.id
+  AND pb.code = 'us'
+  AND pbp.product_type = 'credit_pack'
+  AND pbp.product_id = p.pack
+  AND pbp.stripe_price_id IS NULL;
+
+-- ==========================================
+-- 3. ROW LEVEL SECURITY
+-- ==========================================
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_books ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_book_prices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view exchange rates" ON exchange_rates;
+CREATE POLICY "Anyone can view exchange rates" ON exchange_rates
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage exchange rates" ON exchange_rates;
+CREATE POLICY "Admins can manage exchange rates" ON exchange_rates
+  FOR ALL USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Anyone can view active price books" ON price_books;
+CREATE POLICY "Anyone can view active price books" ON price_books
+  FOR SELECT USING (is_active OR is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can manage price books" ON price_books;
+CREATE POLICY "Admins can manage price books" ON price_books
+  FOR ALL USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Anyone can view active prices" ON price_book_prices;
+CREATE POLICY "Anyone can view active prices" ON price_book_prices
+  FOR SELECT USING (is_active OR is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can manage prices" ON price_book_prices;
+CREATE POLICY "Admins can manage prices" ON price_book_prices
+  FOR ALL USING (is_admin(auth.uid()));
+
+-- ==========================================
+-- 4. LOOKUP
+-- ==========================================
+
+-- The price book for a visitor: by country, then by preferred currency, then
+-- the default book
+CREATE OR REPLACE FUNCTION get_price_book(
+  p_country TEXT DEFAULT NULL,
+  p_currency TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_book price_books%ROWTYPE;
+BEGIN
+  SELECT * INTO v_book
+  FROM price_books
+  WHERE is_active
+    AND (
+      (p_country IS NOT NULL AND upper(p_country) = ANY(countries))
+      OR (p_currency IS NOT NULL AND currency = upper(p_currency))
+      OR is_default
+    )
+  ORDER BY
+    (p_country IS NOT NULL AND upper(p_country) = ANY(countries)) DESC,
+    (p_currency IS NOT NULL AND currency = upper(p_currency)) DESC,
+    is_default DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'code', v_book.code,
+    'name', v_book.name,
+    'currency', v_book.currency,
+    'rate_to_base', (SELECT rate_to_base FROM exchange_rates WHERE currency = v_book.currency),
+    'is_default', v_book.is_default,
+    'prices', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_type', product_type,
+        'product_id', product_id,
+        'amount_cents', amount_cents,
+        'credits', credits,
+        'stripe_price_id', stripe_price_id
+      ))
+      FROM price_book_prices
+      WHERE price_book_id = v_book.id AND is_active
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_price_book(TEXT, TEXT) TO anon, authenticated;
+
+-- What a Stripe price sells, for the checkout endpoints. promotion_price_id is
+-- the same pack's price in the default book: promotions list those prices, so
+-- a code limited to a pack applies to the pack in every region.
+CREATE OR REPLACE FUNCTION resolve_checkout_price(p_stripe_price_id TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_price price_book_prices%ROWTYPE;
+  v_book price_books%ROWTYPE;
+  v_default_price_id TEXT;
+BEGIN
+  SELECT * INTO v_price FROM price_book_prices WHERE stripe_price_id = p_stripe_price_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('found', false);
+  END IF;
+
+  SELECT * INTO v_book FROM price_books WHERE id = v_price.price_book_id;
+
+  SELECT pbp.stripe_price_id INTO v_default_price_id
+  FROM price_book_prices pbp
+  JOIN price_books pb ON pb.id = pbp.price_book_id
+  WHERE pb.is_default
+    AND pbp.product_type = v_price.product_type
+    AND pbp.product_id = v_price.product_id;
+
+  RETURN jsonb_build_object(
+    'found', true,
+    'active', v_price.is_active AND v_book.is_active,
+    'product_type', v_price.product_type,
+    'product_id', v_price.product_id,
+    'credits', v_price.credits,
+    'amount_cents', v_price.amount_cents,
+    'currency', v_book.currency,
+    'price_book', v_book.code,
+    'promotion_price_id', COALESCE(v_default_price_id, p_stripe_price_id)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ==========================================
+-- 5. PAYMENTS AND REVENUE IN THE BASE CURRENCY
+-- ==========================================
+
+ALTER TABLE payment_logs ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+
+-- Revenue figures are in base currency minor units; revenue_by_currency keeps
+-- the gross in each original currency
+ALTER TABLE revenue_analytics
+  ADD COLUMN IF NOT EXISTS base_currency TEXT NOT NULL DEFAULT 'USD',
+  ADD COLUMN IF NOT EXISTS revenue_by_currency JSONB NOT NULL DEFAULT '{}';
+
+-- The aggregator upserts one row per day and product
+DELETE FROM revenue_analytics a
+USING revenue_analytics b
+WHERE a.date = b.date
+  AND a.product_type = b.product_type
+  AND a.created_at < b.created_at;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_revenue_analytics_date_product ON revenue_analytics(date, product_type);
+
+COMMENT ON TABLE exchange_rates IS 'Conversion of each supported currency into the base currency for reporting';
+COMMENT ON TABLE price_books IS 'Regional price lists, each in one currency';
+COMMENT ON TABLE price_book_prices IS 'Price and Stripe price of a credit pack or package tier in a price book';
+
+COMMIT;
@@ -0,0 +1,116 @@
+-- Purchase Receipts
+-- Every completed credit-pack checkout gets a numbered receipt the buyer can
+-- expense: what was bought, the discount and tax charged, and the credits it
+-- granted. The Stripe webhook creates it and emails it; users list and download
+-- their receipts from their profile.
+
+BEGIN;
+
+-- ==========================================
+-- 1. RECEIPTS
+-- ==========================================
+
+CREATE SEQUENCE IF NOT EXISTS receipt_number_seq;
+
+-- Amounts are in minor units of the currency charged. line_items holds
+-- [{description, quantity, unit_amount, amount}] as shown on the receipt.
+CREATE TABLE IF NOT EXISTS receipts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  receipt_number TEXT NOT NULL UNIQUE,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  stripe_session_id TEXT NOT NULL UNIQUE,
+  stripe_payment_id TEXT,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  line_items JSONB NOT NULL DEFAULT '[]',
+  subtotal_cents INTEGER NOT NULL DEFAULT 0,
+  discount_cents INTEGER NOT NULL DEFAULT 0,
+  tax_cents INTEGER NOT NULL DEFAULT 0,
+  total_cents INTEGER NOT NULL DEFAULT 0,
+  credits_granted INTEGER NOT NULL DEFAULT 0,
+  bonus_credits INTEGER NOT NULL DEFAULT 0,
+  promotion_code TEXT,
+  gift_card_id UUID REFERENCES gift_cards(id) ON DELETE SET NULL,
+  customer_email TEXT,
+  customer_name TEXT,
+  billing_address JSONB,
+  emailed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_receipts_user_created ON receipts(user_id, created_at DESC);
+
+ALTER TABLE receipts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own receipts" ON receipts;
+CREATE POLICY "Users can view their own receipts" ON receipts
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view receipts" ON receipts;
+CREATE POLICY "Admins can view receipts" ON receipts
+  FOR SELECT USING (is_admin(auth.uid()));
+
+-- ==========================================
+-- 2. CREATE RECEIPT (Stripe webhook)
+-- ==========================================
+
+-- One receipt per checkout session: a retried webhook gets the existing
+-- receipt back with created = false, so it isn't emailed twice.
+CREATE OR REPLACE FUNCTION create_receipt(
+  p_user_id UUID,
+  p_stripe_session_id TEXT,
+  p_stripe_payment_id TEXT,
+  p_currency TEXT,
+  p_line_items JSONB,
+  p_subtotal_cents INTEGER,
+  p_discount_cents INTEGER,
+  p_tax_cents INTEGER,
+  p_total_cents INTEGER,
+  p_credits_granted INTEGER,
+  p_bonus_credits INTEGER DEFAULT 0,
+  p_promotion_code TEXT DEFAULT NULL,
+  p_gift_card_id UUID DEFAULT NULL,
+  p_customer_email TEXT DEFAULT NULL,
+  p_customer_name TEXT DEFAULT NULL,
+  p_billing_address JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_receipt receipts%ROWTYPE;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  SELECT * INTO v_receipt FROM receipts WHERE stripe_session_id = p_stripe_session_id;
+  IF FOUND THEN
+    RETURN to_jsonb(v_receipt) || jsonb_build_object('created', false);
+  END IF;
+
+  INSERT INTO receipts (
+    receipt_number, user_id, stripe_session_id, stripe_payment_id, currency,
+    line_items, subtotal_cents, discount_cents, tax_cents, total_cents,
+    credits_granted, bonus_credits, promotion_code, gift_card_id,
+    customer_email, customer_name, billing_address
+  ) VALUES (
+    format('R-%s-%s', to_char(NOW(), 'YYYY'), lpad(nextval('receipt_number_seq')::TEXT, 6, '0')),
+    p_user_id, p_stripe_session_id, p_stripe_payment_id, upper(p_currency),
+    COALESCE(p_line_items, '[]'::jsonb), p_subtotal_cents, p_discount_cents, p_tax_cents, p_total_cents,
+    p_credits_granted, COALESCE(p_bonus_credits, 0), p_promotion_code, p_gift_card_id,
+    p_customer_email, p_customer_name, p_billing_address
+  )
+  ON CONFLICT (stripe_session_id) DO NOTHING
+  RETURNING * INTO v_receipt;
+
+  -- Lost a race with a concurrent delivery of the same event
+  IF NOT FOUND THEN
+    SELECT * INTO v_receipt FROM receipts WHERE stripe_session_id = p_stripe_session_id;
+    RETURN to_jsonb(v_receipt) || jsonb_build_object('created', false);
+  END IF;
+
+  RETURN to_jsonb(v_receipt) || jsonb_build_object('created', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON TABLE receipts IS 'Numbered receipts for completed credit pack purchases';
+
+COMMIT;
@@ -0,0 +1,818 @@
+-- Team Wallets
+-- Organizations (wedding planners and studios) share one credit wallet. The
+-- owner invites members by email, can cap how many wallet credits each member
+-- spends per month, and sees usage broken down by member. Wallet credits are
+-- posted through the credits ledger on an 'org:credits' account; the journal
+-- entry's user_id is the member who bought or spent them.
+
+BEGIN;
+
+-- ==========================================
+-- 1. ORGANIZATIONS
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 80),
+  owner_id UUID NOT NULL REFERENCES users(id),
+  credits INTEGER NOT NULL DEFAULT 0 CHECK (credits >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- monthly_credit_limit: wallet credits the member may spend per calendar
+-- month; NULL means no limit
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  monthly_credit_limit INTEGER CHECK (monthly_credit_limit >= 0),
+  joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS organization_invitations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  monthly_credit_limit INTEGER CHECK (monthly_credit_limit >= 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'revoked')),
+  invited_by UUID REFERENCES users(id),
+  expires_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() + INTERVAL '14 days',
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user ON organization_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_organization_invitations_email ON organization_invitations(lower(email)) WHERE status = 'pending';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_invitations_pending
+  ON organization_invitations(organization_id, lower(email)) WHERE status = 'pending';
+
+-- Security definer so the policies below can check membership without
+-- recursing into organization_members' own policies
+CREATE OR REPLACE FUNCTION organization_role(p_organization_id UUID, p_user_id UUID DEFAULT auth.uid())
+RETURNS TEXT AS $$
+  SELECT role FROM organization_members
+  WHERE organization_id = p_organization_id AND user_id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ==========================================
+-- 2. ROW LEVEL SECURITY
+-- ==========================================
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view their organizations" ON organizations;
+CREATE POLICY "Members can view their organizations" ON organizations
+  FOR SELECT USING (organization_role(id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Admins can view organizations" ON organizations;
+CREATE POLICY "Admins can view organizations" ON organizations
+  FOR SELECT USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Members can view their teammates" ON organization_members;
+CREATE POLICY "Members can view their teammates" ON organization_members
+  FOR SELECT USING (organization_role(organization_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Admins can view organization members" ON organization_members;
+CREATE POLICY "Admins can view organization members" ON organization_members
+  FOR SELECT USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Owners can view invitations" ON organization_invitations;
+CREATE POLICY "Owners can view invitations" ON organization_invitations
+  FOR SELECT USING (organization_role(organization_id) = 'owner');
+
+-- Changes to all three tables go through the functions below
+
+-- ==========================================
+-- 3. WALLET LEDGER
+-- ==========================================
+
+ALTER TABLE credit_journal ADD COLUMN IF NOT EXISTS organization_id UUID;
+ALTER TABLE credit_ledger ADD COLUMN IF NOT EXISTS organization_id UUID;
+
+ALTER TABLE credit_ledger DROP CONSTRAINT IF EXISTS credit_ledger_organization_account;
+ALTER TABLE credit_ledger ADD CONSTRAINT credit_ledger_organization_account
+  CHECK ((account LIKE 'org:%') = (organization_id IS NOT NULL));
+
+CREATE INDEX IF NOT EXISTS idx_credit_journal_organization_created
+  ON credit_journal(organization_id, created_at DESC) WHERE organization_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_organization
+  ON credit_ledger(organization_id) WHERE organization_id IS NOT NULL;
+
+-- Package usages and background shoots charged to a wallet are refunded to it
+ALTER TABLE package_usage ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id);
+ALTER TABLE generation_jobs ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id);
+
+-- Same rule as user_credits: the wallet balance only moves through the ledger
+CREATE OR REPLACE FUNCTION guard_organization_credits()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('credits.ledger_posting', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP = 'INSERT' AND NEW.credits <> 0)
+     OR (TG_OP = 'UPDATE' AND NEW.credits IS DISTINCT FROM OLD.credits) THEN
+    RAISE EXCEPTION 'Credit balances can only be changed through the credits ledger';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_organization_credits ON organizations;
+CREATE TRIGGER guard_organization_credits
+  BEFORE INSERT OR UPDATE ON organizations
+  FOR EACH ROW EXECUTE FUNCTION guard_organization_credits();
+
+-- The wallet counterpart of post_credit_entry: moves p_amount (negative for a
+-- debit) in or out of the wallet and records the balanced journal entry, with
+-- p_user_id as the member behind it. Returns the wallet balance afterwards.
+-- Only for use inside the wallet functions.
+CREATE OR REPLACE FUNCTION post_organization_credit_entry(
+  p_organization_id UUID,
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_entry_type TEXT,
+  p_description TEXT,
+  p_stripe_payment_id TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_journal_id UUID;
+  v_balance INTEGER;
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'Credits can only be posted by the credit functions';
+  END IF;
+
+  IF COALESCE(p_amount, 0) = 0 THEN
+    RAISE EXCEPTION 'A credit entry needs a non-zero amount';
+  END IF;
+
+  PERFORM set_config('credits.ledger_posting', 'on', true);
+
+  -- The CHECK on credits rejects an overdraft before the trigger is reset
+  BEGIN
+    UPDATE organizations
+    SET credits = credits + p_amount,
+        updated_at = NOW()
+    WHERE id = p_organization_id
+    RETURNING credits INTO v_balance;
+  EXCEPTION WHEN check_violation THEN
+    RAISE EXCEPTION 'Insufficient credits';
+  END;
+
+  PERFORM set_config('credits.ledger_posting', 'off', true);
+
+  IF v_balance IS NULL THEN
+    RAISE EXCEPTION 'Organization not found';
+  END IF;
+
+  INSERT INTO credit_journal (user_id, organization_id, entry_type, description, stripe_payment_id)
+  VALUES (p_user_id, p_organization_id, p_entry_type, p_description, p_stripe_payment_id)
+  RETURNING id INTO v_journal_id;
+
+  INSERT INTO credit_ledger (journal_id, account, organization_id, amount) VALUES
+    (v_journal_id, 'org:credits', p_organization_id, p_amount),
+    (v_journal_id, 'system:' || p_entry_type, NULL, -p_amount);
+
+  RETURN v_balance;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Wallet credits a member has spent since p_since, less what was refunded
+CREATE OR REPLACE FUNCTION organization_member_usage(
+  p_organization_id UUID,
+  p_user_id UUID,
+  p_since TIMESTAMP WITH TIME ZONE DEFAULT date_trunc('month', NOW())
+)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(-SUM(l.amount), 0)::INTEGER
+  FROM credit_journal j
+  JOIN credit_ledger l ON l.journal_id = j.id AND l.account = 'org:credits'
+  WHERE j.organization_id = p_organization_id
+    AND j.user_id = p_user_id
+    AND j.entry_type IN ('usage', 'refund')
+    AND j.created_at >= p_since;
+$$ LANGUAGE sql STABLE;
+
+-- ==========================================
+-- 4. MEMBERSHIP
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION create_organization(p_name TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_organization organizations%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to create a team';
+  END IF;
+
+  INSERT INTO organizations (name, owner_id)
+  VALUES (trim(p_name), v_user_id)
+  RETURNING * INTO v_organization;
+
+  INSERT INTO organization_members (organization_id, user_id, role)
+  VALUES (v_organization.id, v_user_id, 'owner');
+
+  RETURN to_jsonb(v_organization);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION invite_organization_member(
+  p_organization_id UUID,
+  p_email TEXT,
+  p_role TEXT DEFAULT 'member',
+  p_monthly_credit_limit INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_email TEXT := lower(trim(p_email));
+  v_invitation organization_invitations%ROWTYPE;
+BEGIN
+  IF organization_role(p_organization_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only team owners can invite members';
+  END IF;
+
+  IF v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email address';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM organization_members m
+    JOIN users u ON u.id = m.user_id
+    WHERE m.organization_id = p_organization_id AND lower(u.email) = v_email
+  ) THEN
+    RAISE EXCEPTION '% is already on this team', v_email;
+  END IF;
+
+  -- Inviting the same address again refreshes the pending invitation
+  UPDATE organization_invitations
+  SET status = 'revoked'
+  WHERE organization_id = p_organization_id AND lower(email) = v_email AND status = 'pending';
+
+  INSERT INTO organization_invitations (organization_id, email, role, monthly_credit_limit, invited_by)
+  VALUES (p_organization_id, v_email, p_role, p_monthly_credit_limit, auth.uid())
+  RETURNING * INTO v_invitation;
+
+  RETURN to_jsonb(v_invitation);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION revoke_organization_invitation(p_invitation_id UUID)
+RETURNS void AS $$
+DECLARE
+  v_invitation organization_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invitation FROM organization_invitations WHERE id = p_invitation_id;
+
+  IF NOT FOUND OR organization_role(v_invitation.organization_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  UPDATE organization_invitations SET status = 'revoked'
+  WHERE id = p_invitation_id AND status = 'pending';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Pending invitations addressed to the signed-in user's email
+CREATE OR REPLACE FUNCTION get_my_organization_invitations()
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', i.id,
+    'organization_id', i.organization_id,
+    'organization_name', o.name,
+    'role', i.role,
+    'invited_by', COALESCE(u.display_name, u.email),
+    'expires_at', i.expires_at
+  ) ORDER BY i.created_at DESC), '[]'::jsonb)
+  FROM organization_invitations i
+  JOIN organizations o ON o.id = i.organization_id
+  LEFT JOIN users u ON u.id = i.invited_by
+  WHERE lower(i.email) = lower(auth.jwt() ->> 'email')
+    AND i.status = 'pending'
+    AND i.expires_at > NOW();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION accept_organization_invitation(p_invitation_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_invitation organization_invitations%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Please sign in to join a team');
+  END IF;
+
+  SELECT * INTO v_invitation
+  FROM organization_invitations
+  WHERE id = p_invitation_id
+    AND lower(email) = lower(auth.jwt() ->> 'email')
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_invitation.status = 'revoked' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invitation not found');
+  ELSIF v_invitation.status = 'accepted' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This invitation has already been accepted');
+  ELSIF v_invitation.expires_at <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This invitation has expired');
+  END IF;
+
+  INSERT INTO organization_members (organization_id, user_id, role, monthly_credit_limit)
+  VALUES (v_invitation.organization_id, v_user_id, v_invitation.role, v_invitation.monthly_credit_limit)
+  ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+  UPDATE organization_invitations
+  SET status = 'accepted', accepted_at = NOW()
+  WHERE id = p_invitation_id;
+
+  RETURN jsonb_build_object('success', true, 'organization_id', v_invitation.organization_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Owners change roles and limits. A team always keeps at least one owner.
+CREATE OR REPLACE FUNCTION update_organization_member(
+  p_organization_id UUID,
+  p_user_id UUID,
+  p_role TEXT,
+  p_monthly_credit_limit INTEGER DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  IF organization_role(p_organization_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only team owners can change members';
+  END IF;
+
+  IF p_role <> 'owner' AND organization_role(p_organization_id, p_user_id) = 'owner'
+     AND (SELECT COUNT(*) FROM organization_members
+          WHERE organization_id = p_organization_id AND role = 'owner') = 1 THEN
+    RAISE EXCEPTION 'A team needs at least one owner';
+  END IF;
+
+  UPDATE organization_members
+  SET role = p_role,
+      monthly_credit_limit = p_monthly_credit_limit
+  WHERE organization_id = p_organization_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Owners remove members; members can remove themselves (leave the team)
+CREATE OR REPLACE FUNCTION remove_organization_member(p_organization_id UUID, p_user_id UUID)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM p_user_id
+     AND organization_role(p_organization_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only team owners can remove members';
+  END IF;
+
+  IF organization_role(p_organization_id, p_user_id) = 'owner'
+     AND (SELECT COUNT(*) FROM organization_members
+          WHERE organization_id = p_organization_id AND role = 'owner') = 1 THEN
+    RAISE EXCEPTION 'A team needs at least one owner';
+  END IF;
+
+  DELETE FROM organization_members
+  WHERE organization_id = p_organization_id AND user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ==========================================
+-- 5. WALLET FUNCTIONS
+-- ==========================================
+
+-- Checkout webhook: a purchase made with the team wallet selected
+CREATE OR REPLACE FUNCTION add_organization_credits(
+  p_organization_id UUID,
+  p_user_id UUID,
+  p_credits INTEGER,
+  p_stripe_payment_id TEXT,
+  p_description TEXT DEFAULT 'Credit purchase'
+)
+RETURNS INTEGER AS $$
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  RETURN post_organization_credit_entry(p_organization_id, p_user_id, p_credits, 'purchase',
+    p_description, p_stripe_payment_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Generation jobs: gives back a wallet-charged shoot's credit when the shoot
+-- could not be started
+CREATE OR REPLACE FUNCTION refund_organization_credits(
+  p_organization_id UUID,
+  p_user_id UUID,
+  p_credits INTEGER,
+  p_description TEXT DEFAULT 'Refund'
+)
+RETURNS INTEGER AS $$
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  RETURN post_organization_credit_entry(p_organization_id, p_user_id, p_credits, 'refund', p_description);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- What the signed-in member can spend from the wallet right now: the wallet
+-- balance, capped by what is left of their monthly limit
+CREATE OR REPLACE FUNCTION get_organization_wallet(p_organization_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_member organization_members%ROWTYPE;
+  v_credits INTEGER;
+  v_used INTEGER;
+BEGIN
+  SELECT * INTO v_member
+  FROM organization_members
+  WHERE organization_id = p_organization_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a member of this team';
+  END IF;
+
+  SELECT credits INTO v_credits FROM organizations WHERE id = p_organization_id;
+  v_used := organization_member_usage(p_organization_id, auth.uid());
+
+  RETURN jsonb_build_object(
+    'organization_id', p_organization_id,
+    'credits', v_credits,
+    'role', v_member.role,
+    'monthly_credit_limit', v_member.monthly_credit_limit,
+    'used_this_month', v_used,
+    'available', CASE
+      WHEN v_member.monthly_credit_limit IS NULL THEN v_credits
+      ELSE GREATEST(0, LEAST(v_credits, v_member.monthly_credit_limit - v_used))
+    END
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Spends p_amount wallet credits on a member's behalf (the signed-in member,
+-- or any member for the service role), enforcing their monthly limit.
+-- Returns the wallet balance afterwards.
+CREATE OR REPLACE FUNCTION spend_organization_credits(
+  p_organization_id UUID,
+  p_amount INTEGER,
+  p_description TEXT,
+  p_user_id UUID DEFAULT auth.uid()
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_member organization_members%ROWTYPE;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Not allowed to spend team credits for another user';
+  END IF;
+
+  SELECT * INTO v_member
+  FROM organization_members
+  WHERE organization_id = p_organization_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a member of this team';
+  END IF;
+
+  -- Serialize a member's spending so concurrent requests can't both pass the limit
+  PERFORM 1 FROM organizations WHERE id = p_organization_id FOR UPDATE;
+
+  IF v_member.monthly_credit_limit IS NOT NULL
+     AND organization_member_usage(p_organization_id, p_user_id) + p_amount > v_member.monthly_credit_limit THEN
+    RAISE EXCEPTION 'Monthly team credit limit reached';
+  END IF;
+
+  RETURN post_organization_credit_entry(p_organization_id, p_user_id, -p_amount, 'usage', p_description);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION consume_organization_credit(
+  p_organization_id UUID,
+  p_description TEXT DEFAULT 'Portrait generation',
+  p_user_id UUID DEFAULT auth.uid()
+)
+RETURNS INTEGER AS $$
+BEGIN
+  RETURN spend_organization_credits(p_organization_id, 1, p_description || ' (team wallet)', p_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- process_package_usage for the team wallet: records the usage under the
+-- member and charges the wallet instead of their own credits
+CREATE OR REPLACE FUNCTION process_organization_package_usage(
+  p_organization_id UUID,
+  p_package_id UUID,
+  p_tier_id UUID,
+  p_session_id TEXT DEFAULT NULL,
+  p_themes_used TEXT[] DEFAULT '{}',
+  p_upload_type TEXT DEFAULT 'couple'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  usage_id UUID;
+  tier_info RECORD;
+  final_credit_cost INTEGER := 1;
+  remaining_credits INTEGER;
+BEGIN
+  SELECT * INTO tier_info
+  FROM package_pricing_tiers
+  WHERE id = p_tier_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Invalid or disabled pricing tier'
+    );
+  END IF;
+
+  -- Not a member, limit reached or the wallet is empty
+  BEGIN
+    remaining_credits := spend_organization_credits(p_organization_id, final_credit_cost,
+      'Package usage: ' || tier_info.name);
+  EXCEPTION WHEN raise_exception THEN
+    RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+  END;
+
+  INSERT INTO package_usage (
+    user_id, organization_id, package_id, tier_id, credits_used,
+    generations_count, themes_used, session_id, upload_type
+  ) VALUES (
+    v_user_id, p_organization_id, p_package_id, p_tier_id, final_credit_cost,
+    3, p_themes_used, p_session_id, p_upload_type
+  ) RETURNING id INTO usage_id;
+
+  PERFORM increment_package_usage(v_user_id::TEXT, p_package_id, 1);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'usage_id', usage_id,
+    'credits_used', final_credit_cost,
+    'remaining_credits', remaining_credits,
+    'generations_included', 3
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Wallet usage per member since p_since. Owners see every member; members
+-- see their own row.
+CREATE OR REPLACE FUNCTION get_organization_usage(
+  p_organization_id UUID,
+  p_since TIMESTAMP WITH TIME ZONE DEFAULT date_trunc('month', NOW())
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_role TEXT := organization_role(p_organization_id);
+BEGIN
+  IF v_role IS NULL AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'You are not a member of this team';
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+      'user_id', m.user_id,
+      'email', u.email,
+      'display_name', u.display_name,
+      'role', m.role,
+      'monthly_credit_limit', m.monthly_credit_limit,
+      'credits_used', organization_member_usage(p_organization_id, m.user_id, p_since),
+      'credits_purchased', (
+        SELECT COALESCE(SUM(l.amount), 0)::INTEGER
+        FROM credit_journal j
+        JOIN credit_ledger l ON l.journal_id = j.id AND l.account = 'org:credits'
+        WHERE j.organization_id = p_organization_id AND j.user_id = m.user_id
+          AND j.entry_type = 'purchase' AND j.created_at >= p_since
+      ),
+      'joined_at', m.joined_at
+    ) ORDER BY m.role DESC, m.joined_at)
+    FROM organization_members m
+    JOIN users u ON u.id = m.user_id
+    WHERE m.organization_id = p_organization_id
+      AND (v_role = 'owner' OR m.user_id = auth.uid() OR is_admin(auth.uid()))
+  ), '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ==========================================
+-- 6. WALLET REFUNDS
+-- ==========================================
+
+-- As before, but a shoot charged to a team wallet is refunded to the wallet
+CREATE OR REPLACE FUNCTION finalize_generation_job(p_job_id UUID)
+RETURNS generation_jobs AS $$
+DECLARE
+  v_job generation_jobs;
+  v_total INTEGER;
+  v_completed INTEGER;
+  v_failed INTEGER;
+  v_open INTEGER;
+  v_refund INTEGER := 0;
+  v_description TEXT;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  SELECT * INTO v_job FROM generation_jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Generation job % not found', p_job_id;
+  END IF;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE status = 'completed'),
+    COUNT(*) FILTER (WHERE status IN ('failed', 'cancelled')),
+    COUNT(*) FILTER (WHERE status IN ('pending', 'processing'))
+  INTO v_total, v_completed, v_failed, v_open
+  FROM generation_job_items
+  WHERE job_id = p_job_id;
+
+  UPDATE generation_jobs
+  SET total_styles = v_total,
+      completed_styles = v_completed,
+      failed_styles = v_failed
+  WHERE id = p_job_id;
+
+  -- Still running, or already closed
+  IF v_open > 0 OR v_job.completed_at IS NOT NULL THEN
+    SELECT * INTO v_job FROM generation_jobs WHERE id = p_job_id;
+    RETURN v_job;
+  END IF;
+
+  -- Credits are reserved per shoot, so each unfinished style is owed its share,
+  -- rounded up to whole credits
+  IF v_total > 0 AND v_job.credits_reserved > 0 THEN
+    v_refund := LEAST(CEIL(v_job.credits_reserved * v_failed::NUMERIC / v_total)::INTEGER, v_job.credits_reserved);
+  END IF;
+
+  IF v_refund > 0 THEN
+    v_description := format('Refund for %s unfinished style(s) in generation job %s', v_failed, p_job_id);
+
+    IF v_job.organization_id IS NOT NULL THEN
+      PERFORM post_organization_credit_entry(v_job.organization_id, v_job.user_id, v_refund, 'refund', v_description);
+    ELSE
+      v_refund := refund_reserved_credits(v_job.user_id, v_job.credit_source, v_refund, v_description);
+    END IF;
+  END IF;
+
+  UPDATE generation_jobs
+  SET status = CASE
+        WHEN v_job.status = 'cancelled' THEN 'cancelled'
+        WHEN v_completed = v_total THEN 'completed'
+        WHEN v_completed = 0 THEN 'failed'
+        ELSE 'partial'
+      END,
+      credits_refunded = v_refund,
+      completed_at = NOW()
+  WHERE id = p_job_id
+  RETURNING * INTO v_job;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- As before, but failed styles of a usage charged to a team wallet are
+-- refunded to the wallet
+CREATE OR REPLACE FUNCTION refund_failed_generation(
+  p_usage_id UUID,
+  p_user_id UUID,
+  p_style TEXT,
+  p_reason TEXT DEFAULT 'failed',
+  p_error_message TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_usage package_usage%ROWTYPE;
+  v_failed INTEGER;
+  v_owed INTEGER;
+  v_refund INTEGER;
+  v_total INTEGER;
+  v_bucket TEXT;
+  v_charged JSONB;
+  v_take INTEGER;
+  v_left INTEGER;
+  v_description TEXT;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  SELECT * INTO v_usage FROM package_usage WHERE id = p_usage_id FOR UPDATE;
+
+  IF NOT FOUND OR v_usage.user_id IS DISTINCT FROM p_user_id THEN
+    RETURN 0;
+  END IF;
+
+  -- themes_used holds theme ids for the app's package shoots, and the edge
+  -- function reports the theme's name as the style
+  IF NOT (
+    p_style = ANY(COALESCE(v_usage.themes_used, '{}'))
+    OR EXISTS (
+      SELECT 1 FROM package_themes
+      WHERE name = p_style AND id::TEXT = ANY(COALESCE(v_usage.themes_used, '{}'))
+    )
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO generation_refunds (usage_id, user_id, style, reason, error_message)
+  VALUES (p_usage_id, p_user_id, p_style, p_reason, left(p_error_message, 500))
+  ON CONFLICT (usage_id, style) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  v_failed := v_usage.styles_failed + 1;
+  v_owed := LEAST(
+    CEIL(
+      COALESCE(v_usage.credits_used, 0) * LEAST(v_failed, GREATEST(v_usage.generations_count, 1))::NUMERIC
+        / GREATEST(v_usage.generations_count, 1)
+    )::INTEGER,
+    COALESCE(v_usage.credits_used, 0)
+  );
+  v_refund := GREATEST(v_owed - v_usage.credits_refunded, 0);
+
+  v_charged := v_usage.charged_buckets;
+
+  IF v_refund > 0 THEN
+    UPDATE generation_refunds
+    SET credits_refunded = v_refund
+    WHERE usage_id = p_usage_id AND style = p_style;
+
+    v_description := CASE WHEN p_reason = 'unsafe'
+      THEN format('Refund for "%s" (blocked by the safety check)', p_style)
+      ELSE format('Refund for "%s" (generation failed)', p_style)
+    END;
+
+    IF v_usage.organization_id IS NOT NULL THEN
+      PERFORM post_organization_credit_entry(v_usage.organization_id, p_user_id, v_refund, 'refund', v_description);
+    ELSE
+      -- Purchased credits go back first, as they never expire. Logged here
+      -- rather than by post_credit_entry so the row links to the usage.
+      v_left := v_refund;
+      FOREACH v_bucket IN ARRAY ARRAY['paid', 'subscription', 'bonus'] LOOP
+        v_take := LEAST(v_left, COALESCE((v_charged ->> v_bucket)::INTEGER, 0));
+        CONTINUE WHEN v_take <= 0;
+
+        v_total := post_credit_entry(p_user_id, v_bucket, v_take, 'refund',
+          NULL, NULL, NULL, false);
+        v_charged := jsonb_set(v_charged, ARRAY[v_bucket], to_jsonb((v_charged ->> v_bucket)::INTEGER - v_take));
+        v_left := v_left - v_take;
+      END LOOP;
+
+      -- Usages recorded before charged_buckets existed
+      IF v_left > 0 THEN
+        v_total := post_credit_entry(p_user_id, 'bonus', v_left, 'refund',
+          NULL, NULL, NULL, false);
+      END IF;
+
+      INSERT INTO credit_transactions (
+        user_id, type, amount, balance_after, description,
+        package_id, tier_id, usage_id
+      ) VALUES (
+        p_user_id, 'refund', v_refund, v_total, v_description,
+        v_usage.package_id, v_usage.tier_id, p_usage_id
+      );
+    END IF;
+  END IF;
+
+  UPDATE package_usage
+  SET styles_failed = v_failed,
+      credits_refunded = credits_refunded + v_refund,
+      charged_buckets = v_charged
+  WHERE id = p_usage_id;
+
+  RETURN v_refund;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_organization(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION invite_organization_member(UUID, TEXT, TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_organization_invitation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_my_organization_invitations() TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_organization_invitation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_organization_member(UUID, UUID, TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_organization_member(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_organization_wallet(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION consume_organization_credit(UUID, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION process_organization_package_usage(UUID, UUID, UUID, TEXT, TEXT[], TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_organization_usage(UUID, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION refund_organization_credits(UUID, UUID, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+
+COMMIT;
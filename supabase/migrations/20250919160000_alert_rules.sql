@@ -0,0 +1,174 @@
+-- Alert Rules
+-- alert_configs become editable rules: which metric to watch, the comparison,
+-- the window the metric is averaged over and how long to wait before the same
+-- rule fires again. Admins acknowledge and resolve triggered alerts from the
+-- admin Alerts page. Admin access follows users.role (is_admin), like the
+-- other admin tables, instead of admin_users.
+
+BEGIN;
+
+-- ==========================================
+-- 1. RULE SETTINGS
+-- ==========================================
+
+-- alert_type stays the metric name: a system_metrics metric_type, or one of
+-- the computed checks in check_alerts ('low_credits', 'high_error_rate')
+ALTER TABLE alert_configs ADD COLUMN IF NOT EXISTS name TEXT;
+ALTER TABLE alert_configs ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE alert_configs ADD COLUMN IF NOT EXISTS severity TEXT NOT NULL DEFAULT 'warning'
+  CHECK (severity IN ('info', 'warning', 'critical'));
+-- 0 compares each recorded value on its own
+ALTER TABLE alert_configs ADD COLUMN IF NOT EXISTS window_minutes INTEGER NOT NULL DEFAULT 0
+  CHECK (window_minutes >= 0);
+ALTER TABLE alert_configs ADD COLUMN IF NOT EXISTS cooldown_minutes INTEGER NOT NULL DEFAULT 60
+  CHECK (cooldown_minutes >= 0);
+ALTER TABLE alert_configs ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES users(id);
+
+ALTER TABLE alert_history ADD COLUMN IF NOT EXISTS acknowledged_by_user_id UUID REFERENCES users(id);
+ALTER TABLE alert_history ADD COLUMN IF NOT EXISTS resolved_by UUID REFERENCES users(id);
+ALTER TABLE alert_history ADD COLUMN IF NOT EXISTS resolution_note TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_alert_history_config_triggered ON alert_history(alert_config_id, triggered_at DESC);
+
+-- ==========================================
+-- 2. ROW LEVEL SECURITY
+-- ==========================================
+
+DROP POLICY IF EXISTS "Admins can manage alert configs" ON alert_configs;
+CREATE POLICY "Admins can manage alert configs" ON alert_configs
+  FOR ALL USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can view alert history" ON alert_history;
+CREATE POLICY "Admins can view alert history" ON alert_history
+  FOR SELECT USING (is_admin(auth.uid()));
+
+-- Acknowledging and resolving go through the functions below
+DROP POLICY IF EXISTS "Admins can acknowledge alerts" ON alert_history;
+
+-- ==========================================
+-- 3. EVALUATION
+-- ==========================================
+
+-- As before, but each rule uses its own window and cooldown, and the alert
+-- carries the rule's settings for the Alerts page
+CREATE OR REPLACE FUNCTION check_alerts() RETURNS void AS $$
+DECLARE
+  alert_record RECORD;
+  current_value DECIMAL(10, 2);
+  should_trigger BOOLEAN;
+BEGIN
+  FOR alert_record IN SELECT * FROM alert_configs WHERE enabled = true LOOP
+    should_trigger := FALSE;
+
+    CASE alert_record.alert_type
+      WHEN 'low_credits' THEN
+        SELECT COUNT(*) INTO current_value
+        FROM user_credits
+        WHERE (paid_credits + bonus_credits) < alert_record.threshold_value;
+
+      WHEN 'high_error_rate' THEN
+        SELECT COUNT(*) FILTER (WHERE metric_type = 'error') * 100.0 / GREATEST(COUNT(*), 1) INTO current_value
+        FROM system_metrics
+        WHERE timestamp >= NOW() - make_interval(mins => GREATEST(alert_record.window_minutes, 60));
+
+      ELSE
+        -- Recorded metrics are checked as they arrive (metrics-aggregator);
+        -- windowed rules are also checked here so they fire without new data
+        IF alert_record.window_minutes = 0 THEN
+          CONTINUE;
+        END IF;
+
+        SELECT AVG(metric_value) INTO current_value
+        FROM system_metrics
+        WHERE metric_type = alert_record.alert_type
+          AND timestamp >= NOW() - make_interval(mins => alert_record.window_minutes);
+
+        IF current_value IS NULL THEN
+          CONTINUE;
+        END IF;
+    END CASE;
+
+    EXECUTE format('SELECT %s %s %s', current_value, alert_record.comparison_operator, alert_record.threshold_value)
+    INTO should_trigger;
+
+    IF should_trigger AND NOT EXISTS (
+      SELECT 1 FROM alert_history
+      WHERE alert_config_id = alert_record.id
+        AND (resolved_at IS NULL
+          OR triggered_at >= NOW() - make_interval(mins => alert_record.cooldown_minutes))
+    ) THEN
+      INSERT INTO alert_history (alert_config_id, alert_value, alert_message, metadata)
+      VALUES (
+        alert_record.id,
+        current_value,
+        format('%s: %s is %s (threshold %s %s)',
+          COALESCE(alert_record.name, alert_record.alert_type),
+          alert_record.alert_type,
+          current_value,
+          alert_record.comparison_operator,
+          alert_record.threshold_value
+        ),
+        jsonb_build_object(
+          'severity', alert_record.severity,
+          'window_minutes', alert_record.window_minutes,
+          'threshold', alert_record.threshold_value,
+          'operator', alert_record.comparison_operator
+        )
+      );
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ==========================================
+-- 4. ACKNOWLEDGE AND RESOLVE
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION acknowledge_alert(p_alert_id UUID)
+RETURNS JSONB AS $$
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  UPDATE alert_history
+  SET acknowledged_at = NOW(),
+      acknowledged_by_user_id = auth.uid()
+  WHERE id = p_alert_id AND acknowledged_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Alert not found or already acknowledged');
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Resolving also acknowledges an alert nobody acknowledged yet
+CREATE OR REPLACE FUNCTION resolve_alert(p_alert_id UUID, p_note TEXT DEFAULT NULL)
+RETURNS JSONB AS $$
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  UPDATE alert_history
+  SET resolved_at = NOW(),
+      resolved_by = auth.uid(),
+      resolution_note = NULLIF(trim(p_note), ''),
+      acknowledged_at = COALESCE(acknowledged_at, NOW()),
+      acknowledged_by_user_id = COALESCE(acknowledged_by_user_id, auth.uid())
+  WHERE id = p_alert_id AND resolved_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Alert not found or already resolved');
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION acknowledge_alert(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_alert(UUID, TEXT) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,141 @@
+-- Alert Notifications
+-- Triggered alerts are delivered to notification channels: email addresses,
+-- Slack incoming webhooks and signed HTTP webhooks. Each alert rule lists the
+-- channel types it notifies (alert_configs.alert_channels); alerts raised
+-- outside a rule, like payment disputes, go to every enabled channel. Every
+-- alert queues one delivery per channel, which metrics-aggregator sends and
+-- retries with backoff. The delivery log is shown on the admin Alerts page.
+
+BEGIN;
+
+-- ==========================================
+-- 1. CHANNELS
+-- ==========================================
+
+-- target is the email address for 'email' and the URL for 'slack'/'webhook'.
+-- Webhook requests are signed with signing_secret (see _shared/webhookSignature.ts).
+CREATE TABLE IF NOT EXISTS alert_notification_channels (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  channel_type TEXT NOT NULL CHECK (channel_type IN ('email', 'slack', 'webhook')),
+  target TEXT NOT NULL,
+  signing_secret TEXT NOT NULL DEFAULT encode(gen_random_bytes(32), 'hex'),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE alert_notification_channels ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage notification channels" ON alert_notification_channels;
+CREATE POLICY "Admins can manage notification channels" ON alert_notification_channels
+  FOR ALL USING (is_admin(auth.uid()));
+
+-- ==========================================
+-- 2. DELIVERIES
+-- ==========================================
+
+-- alert_id is NULL for test alerts sent from the admin page
+CREATE TABLE IF NOT EXISTS alert_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  alert_id UUID REFERENCES alert_history(id) ON DELETE CASCADE,
+  channel_id UUID NOT NULL REFERENCES alert_notification_channels(id) ON DELETE CASCADE,
+  is_test BOOLEAN NOT NULL DEFAULT false,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  response_status INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (alert_id, channel_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_due ON alert_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_created ON alert_deliveries(created_at DESC);
+
+ALTER TABLE alert_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view alert deliveries" ON alert_deliveries;
+CREATE POLICY "Admins can view alert deliveries" ON alert_deliveries
+  FOR SELECT USING (is_admin(auth.uid()));
+
+-- ==========================================
+-- 3. QUEUEING
+-- ==========================================
+
+-- The payload is what every channel renders, so a retry sends the alert as it
+-- was when it triggered
+CREATE OR REPLACE FUNCTION queue_alert_deliveries() RETURNS TRIGGER AS $$
+DECLARE
+  v_config alert_configs%ROWTYPE;
+  v_payload JSONB;
+BEGIN
+  IF NEW.alert_config_id IS NOT NULL THEN
+    SELECT * INTO v_config FROM alert_configs WHERE id = NEW.alert_config_id;
+  END IF;
+
+  v_payload := jsonb_build_object(
+    'event', 'alert.triggered',
+    'alert', jsonb_build_object(
+      'id', NEW.id,
+      'name', COALESCE(v_config.name, v_config.alert_type, 'System alert'),
+      'metric', v_config.alert_type,
+      'severity', COALESCE(NEW.metadata ->> 'severity', v_config.severity, 'warning'),
+      'message', NEW.alert_message,
+      'value', NEW.alert_value,
+      'triggered_at', NEW.triggered_at
+    )
+  );
+
+  INSERT INTO alert_deliveries (alert_id, channel_id, payload)
+  SELECT NEW.id, c.id, v_payload
+  FROM alert_notification_channels c
+  WHERE c.enabled
+    AND (NEW.alert_config_id IS NULL
+      OR COALESCE(v_config.alert_channels, '[]'::jsonb) ? c.channel_type)
+  ON CONFLICT (alert_id, channel_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS queue_alert_deliveries ON alert_history;
+CREATE TRIGGER queue_alert_deliveries
+  AFTER INSERT ON alert_history
+  FOR EACH ROW EXECUTE FUNCTION queue_alert_deliveries();
+
+-- ==========================================
+-- 4. CLAIMING (metrics-aggregator)
+-- ==========================================
+
+-- Due deliveries for one dispatcher run. Claimed rows are pushed back five
+-- minutes so a concurrent or crashed run doesn't send them twice; the
+-- dispatcher sets the real next attempt when it records the result.
+CREATE OR REPLACE FUNCTION claim_alert_deliveries(p_limit INTEGER DEFAULT 50)
+RETURNS SETOF alert_deliveries AS $$
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  RETURN QUERY
+  UPDATE alert_deliveries d
+  SET next_attempt_at = NOW() + INTERVAL '5 minutes',
+      updated_at = NOW()
+  WHERE d.id IN (
+    SELECT id FROM alert_deliveries
+    WHERE status = 'pending' AND next_attempt_at <= NOW()
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMIT;
@@ -0,0 +1,298 @@
+-- Public Developer API
+-- Partner photographers and planners create shoots and fetch results through
+-- the versioned public-api function, authenticated with API keys that admins
+-- issue, rotate and revoke. A partner key belongs to a user whose credits its
+-- shoots spend, is limited to its scopes, and may make rate_limit_per_hour
+-- requests per clock hour.
+
+BEGIN;
+
+-- ==========================================
+-- 1. PARTNER KEYS
+-- ==========================================
+
+-- Partner keys look like wpk_<key_prefix>_<secret>. The prefix is stored in the
+-- clear so a key is found without comparing its hash against every row; the
+-- full key is only kept as a bcrypt hash, as before.
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES users(id) ON DELETE CASCADE;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS key_prefix TEXT UNIQUE;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES users(id);
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS rotated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys(user_id);
+
+DROP POLICY IF EXISTS "Admin can manage API keys" ON api_keys;
+CREATE POLICY "Admin can manage API keys" ON api_keys
+  FOR ALL USING (is_admin(auth.uid()));
+
+-- Requests per key per clock hour
+CREATE TABLE IF NOT EXISTS api_key_usage (
+  api_key_id UUID NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (api_key_id, window_start)
+);
+
+ALTER TABLE api_key_usage ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view API key usage" ON api_key_usage;
+CREATE POLICY "Admins can view API key usage" ON api_key_usage
+  FOR SELECT USING (is_admin(auth.uid()));
+
+-- Shoots created through the API, for listing them per key
+ALTER TABLE generation_jobs ADD COLUMN IF NOT EXISTS api_key_id UUID REFERENCES api_keys(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_api_key ON generation_jobs(api_key_id, created_at DESC) WHERE api_key_id IS NOT NULL;
+
+-- ==========================================
+-- 2. ISSUE, ROTATE AND REVOKE (admin)
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION new_partner_api_key()
+RETURNS TABLE (raw_key TEXT, key_prefix TEXT) AS $$
+DECLARE
+  v_prefix TEXT := encode(gen_random_bytes(6), 'hex');
+BEGIN
+  RETURN QUERY SELECT 'wpk_' || v_prefix || '_' || encode(gen_random_bytes(24), 'hex'), v_prefix;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Scopes: shoots:write (create and cancel shoots), shoots:read (status and
+-- results), catalog:read (packages and themes). The raw key is only returned here.
+CREATE OR REPLACE FUNCTION issue_api_key(
+  p_name TEXT,
+  p_user_id UUID,
+  p_scopes TEXT[],
+  p_rate_limit_per_hour INTEGER DEFAULT 100,
+  p_expires_days INTEGER DEFAULT NULL,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_key RECORD;
+  v_id UUID;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF NULLIF(trim(p_name), '') IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Key name is required');
+  END IF;
+  IF EXISTS (SELECT 1 FROM api_keys WHERE key_name = trim(p_name)) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A key with this name already exists');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = p_user_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Account not found');
+  END IF;
+  IF COALESCE(array_length(p_scopes, 1), 0) = 0
+    OR NOT p_scopes <@ ARRAY['shoots:write', 'shoots:read', 'catalog:read'] THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Choose at least one valid scope');
+  END IF;
+  IF p_rate_limit_per_hour IS NULL OR p_rate_limit_per_hour < 1 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Hourly quota must be at least 1');
+  END IF;
+
+  SELECT * INTO v_key FROM new_partner_api_key();
+
+  INSERT INTO api_keys (
+    key_name, key_hash, key_prefix, permissions, rate_limit_per_hour,
+    expires_at, user_id, description, created_by
+  ) VALUES (
+    trim(p_name),
+    crypt(v_key.raw_key, gen_salt('bf', 12)),
+    v_key.key_prefix,
+    p_scopes,
+    p_rate_limit_per_hour,
+    CASE WHEN p_expires_days IS NOT NULL THEN NOW() + make_interval(days => p_expires_days) END,
+    p_user_id,
+    NULLIF(trim(p_description), ''),
+    auth.uid()
+  )
+  RETURNING id INTO v_id;
+
+  RETURN jsonb_build_object('success', true, 'id', v_id, 'key', v_key.raw_key, 'key_prefix', v_key.key_prefix);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replaces the secret; the old key stops working immediately
+CREATE OR REPLACE FUNCTION rotate_api_key(p_key_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_key RECORD;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT * INTO v_key FROM new_partner_api_key();
+
+  UPDATE api_keys
+  SET key_hash = crypt(v_key.raw_key, gen_salt('bf', 12)),
+      key_prefix = v_key.key_prefix,
+      rotated_at = NOW()
+  WHERE id = p_key_id AND user_id IS NOT NULL AND revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Key not found or revoked');
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'id', p_key_id, 'key', v_key.raw_key, 'key_prefix', v_key.key_prefix);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION revoke_api_key(p_key_id UUID)
+RETURNS JSONB AS $$
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  UPDATE api_keys
+  SET is_active = false,
+      revoked_at = NOW()
+  WHERE id = p_key_id AND user_id IS NOT NULL AND revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Key not found or already revoked');
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION issue_api_key(TEXT, UUID, TEXT[], INTEGER, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION rotate_api_key(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_api_key(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION new_partner_api_key() FROM PUBLIC;
+
+-- ==========================================
+-- 3. AUTHENTICATE A REQUEST (public-api)
+-- ==========================================
+
+-- Checks the key and scope and counts the request against the key's hourly
+-- quota. status is the HTTP status to answer with when valid is false.
+CREATE OR REPLACE FUNCTION authenticate_api_key(p_raw_key TEXT, p_scope TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_key api_keys%ROWTYPE;
+  v_window TIMESTAMP WITH TIME ZONE := date_trunc('hour', NOW());
+  v_count INTEGER;
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  SELECT * INTO v_key
+  FROM api_keys
+  WHERE key_prefix = substring(p_raw_key FROM '^wpk_([0-9a-f]{12})_[0-9a-f]+$')
+    AND user_id IS NOT NULL;
+
+  IF NOT FOUND OR v_key.key_hash <> crypt(p_raw_key, v_key.key_hash) THEN
+    RETURN jsonb_build_object('valid', false, 'status', 401, 'code', 'invalid_api_key', 'error', 'Invalid API key');
+  END IF;
+
+  IF NOT v_key.is_active OR (v_key.expires_at IS NOT NULL AND v_key.expires_at <= NOW()) THEN
+    RETURN jsonb_build_object('valid', false, 'status', 401, 'code', 'invalid_api_key', 'error', 'API key is revoked or expired');
+  END IF;
+
+  IF NOT p_scope = ANY(v_key.permissions) THEN
+    RETURN jsonb_build_object('valid', false, 'status', 403, 'code', 'insufficient_scope',
+      'error', format('This API key does not have the %s scope', p_scope));
+  END IF;
+
+  INSERT INTO api_key_usage (api_key_id, window_start, request_count)
+  VALUES (v_key.id, v_window, 1)
+  ON CONFLICT (api_key_id, window_start) DO UPDATE
+    SET request_count = api_key_usage.request_count + 1
+    WHERE api_key_usage.request_count < v_key.rate_limit_per_hour
+  RETURNING request_count INTO v_count;
+
+  UPDATE api_keys SET last_used_at = NOW() WHERE id = v_key.id;
+
+  IF v_count IS NULL THEN
+    RETURN jsonb_build_object(
+      'valid', false, 'status', 429, 'code', 'rate_limited',
+      'error', 'Hourly request quota exceeded',
+      'limit', v_key.rate_limit_per_hour,
+      'remaining', 0,
+      'reset_at', v_window + INTERVAL '1 hour'
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'key_id', v_key.id,
+    'user_id', v_key.user_id,
+    'scopes', v_key.permissions,
+    'limit', v_key.rate_limit_per_hour,
+    'remaining', v_key.rate_limit_per_hour - v_count,
+    'reset_at', v_window + INTERVAL '1 hour'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Partner keys are found by prefix; only the older service keys still need
+-- their hash compared row by row
+CREATE OR REPLACE FUNCTION validate_api_key(p_raw_key TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_key_info RECORD;
+BEGIN
+  SELECT
+    id,
+    key_name,
+    permissions,
+    rate_limit_per_hour,
+    is_active,
+    expires_at
+  INTO v_key_info
+  FROM api_keys
+  WHERE (key_prefix = substring(p_raw_key FROM '^wpk_([0-9a-f]{12})_[0-9a-f]+$')
+      OR (key_prefix IS NULL AND p_raw_key NOT LIKE 'wpk\_%'))
+    AND key_hash = crypt(p_raw_key, key_hash)
+    AND is_active = true
+    AND (expires_at IS NULL OR expires_at > NOW());
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'Invalid or expired API key');
+  END IF;
+
+  -- Update last used timestamp
+  UPDATE api_keys SET last_used_at = NOW() WHERE id = v_key_info.id;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'key_name', v_key_info.key_name,
+    'permissions', v_key_info.permissions,
+    'rate_limit_per_hour', v_key_info.rate_limit_per_hour
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Usage of each partner key in the last p_hours, for the admin API keys screen
+CREATE OR REPLACE FUNCTION get_api_key_usage(p_hours INTEGER DEFAULT 24)
+RETURNS TABLE (api_key_id UUID, requests BIGINT, current_hour INTEGER, shoots BIGINT) AS $$
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    k.id,
+    COALESCE((SELECT SUM(u.request_count) FROM api_key_usage u
+      WHERE u.api_key_id = k.id AND u.window_start >= NOW() - make_interval(hours => p_hours)), 0)::BIGINT,
+    COALESCE((SELECT u.request_count FROM api_key_usage u
+      WHERE u.api_key_id = k.id AND u.window_start = date_trunc('hour', NOW())), 0),
+    (SELECT COUNT(*) FROM generation_jobs j
+      WHERE j.api_key_id = k.id AND j.created_at >= NOW() - make_interval(hours => p_hours))
+  FROM api_keys k
+  WHERE k.user_id IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_api_key_usage(INTEGER) TO authenticated;
+
+COMMIT;
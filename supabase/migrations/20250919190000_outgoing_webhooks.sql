@@ -0,0 +1,351 @@
+-- Outgoing Webhooks
+-- Users and API key owners register public HTTPS endpoints for events on their
+-- account instead of polling. Events come from user_activity_logs: every
+-- activity that maps to a webhook event queues one signed delivery per
+-- subscribed endpoint, which the webhooks function sends and retries with
+-- backoff. Admins see the delivery history and can replay any delivery.
+--
+-- Events:
+--   generation.completed  a shoot or single portrait finished (shoots may be partial)
+--   generation.failed     a shoot or single portrait produced nothing
+--   credits.low           the account's purchased balance dropped below 3 credits
+--   payment.succeeded     a credit, gift or subscription payment went through
+
+BEGIN;
+
+-- ==========================================
+-- 1. ENDPOINTS
+-- ==========================================
+
+-- Deliveries are sent from our servers, so endpoints must be public https://
+-- URLs: no loopback, private, link-local, shared, multicast or reserved
+-- addresses, and no local names such as localhost or
+-- metadata.google.internal. IP addresses in other notations (decimal, hex,
+-- octal) that URL parsers accept are rejected outright. Delivery checks the
+-- resolved addresses again (see _shared/webhookDelivery.ts).
+CREATE OR REPLACE FUNCTION is_public_webhook_url(p_url TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_host TEXT;
+  v_address INET;
+BEGIN
+  v_host := lower(substring(p_url FROM '^https://([^/?#\\]*)'));
+
+  -- No credentials in the URL, and nothing a URL parser would decode
+  IF v_host IS NULL OR v_host = '' OR v_host ~ '[@%]' THEN
+    RETURN false;
+  END IF;
+
+  IF v_host LIKE '[%' THEN
+    v_host := substring(v_host FROM '^\[([0-9a-f:.]+)\](:[0-9]*)?$');
+  ELSE
+    v_host := rtrim(substring(v_host FROM '^([^:]+)(:[0-9]*)?$'), '.');
+
+    IF v_host IS NULL OR v_host !~ '^[a-z0-9-]+(\.[a-z0-9-]+)+$' THEN
+      RETURN false;
+    END IF;
+
+    -- A numeric last label makes the host an IPv4 address
+    IF v_host !~ '\.(0x[0-9a-f]*|[0-9]+)$' THEN
+      RETURN v_host !~ '(^|\.)(localhost|local|localdomain|internal|intranet|lan|home\.arpa)$';
+    END IF;
+
+    IF v_host !~ '^(0|[1-9][0-9]{0,2})(\.(0|[1-9][0-9]{0,2})){3}$' THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  IF v_host IS NULL THEN
+    RETURN false;
+  END IF;
+
+  BEGIN
+    v_address := v_host::INET;
+  EXCEPTION WHEN OTHERS THEN
+    RETURN false;
+  END;
+
+  RETURN NOT (
+    v_address <<= ANY (ARRAY[
+      '0.0.0.0/8', '10.0.0.0/8', '100.64.0.0/10', '127.0.0.0/8', '169.254.0.0/16',
+      '172.16.0.0/12', '192.0.0.0/24', '192.0.2.0/24', '192.168.0.0/16', '198.18.0.0/15',
+      '198.51.100.0/24', '203.0.113.0/24', '224.0.0.0/4', '240.0.0.0/4',
+      '::/127', '::ffff:0:0/96', '64:ff9b::/96', '100::/64', '2001:db8::/32',
+      'fc00::/7', 'fe80::/10', 'ff00::/8'
+    ]::INET[])
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- api_key_id is set for endpoints registered through the public API.
+-- Requests are signed with signing_secret (see _shared/webhookSignature.ts).
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  api_key_id UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+  url TEXT NOT NULL CONSTRAINT webhook_endpoints_public_url CHECK (is_public_webhook_url(url)),
+  description TEXT,
+  events TEXT[] NOT NULL CHECK (
+    array_length(events, 1) > 0
+    AND events <@ ARRAY['generation.completed', 'generation.failed', 'credits.low', 'payment.succeeded']
+  ),
+  signing_secret TEXT NOT NULL DEFAULT encode(gen_random_bytes(32), 'hex'),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user ON webhook_endpoints(user_id) WHERE enabled;
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage webhook endpoints" ON webhook_endpoints;
+CREATE POLICY "Admins can manage webhook endpoints" ON webhook_endpoints
+  FOR ALL USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Users can manage own webhook endpoints" ON webhook_endpoints;
+CREATE POLICY "Users can manage own webhook endpoints" ON webhook_endpoints
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+-- ==========================================
+-- 2. DELIVERIES
+-- ==========================================
+
+-- payload is the exact body sent, so retries and replays carry the same event
+-- id and receivers can deduplicate on it. A replay is a new delivery that
+-- points at the one it replays.
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  event_id UUID,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 6,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  response_status INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  replay_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_deliveries_event_endpoint
+  ON webhook_deliveries(event_id, endpoint_id) WHERE replay_of IS NULL;
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_created ON webhook_deliveries(created_at DESC);
+
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view webhook deliveries" ON webhook_deliveries;
+CREATE POLICY "Admins can view webhook deliveries" ON webhook_deliveries
+  FOR SELECT USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Users can view own webhook deliveries" ON webhook_deliveries;
+CREATE POLICY "Users can view own webhook deliveries" ON webhook_deliveries
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM webhook_endpoints e WHERE e.id = endpoint_id AND e.user_id = auth.uid())
+  );
+
+-- ==========================================
+-- 3. EVENTS FROM ACTIVITY LOGS
+-- ==========================================
+
+-- Webhook payloads are signed on our behalf, so activity may only be logged
+-- by the backend
+REVOKE EXECUTE ON FUNCTION log_user_activity(UUID, TEXT, JSONB, INET, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION log_user_activity(UUID, TEXT, JSONB, INET, TEXT) TO service_role;
+
+-- The webhook event an activity type is published as, if any
+CREATE OR REPLACE FUNCTION webhook_event_for_activity(p_activity_type TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_activity_type IN ('generation.completed', 'generation.failed', 'credits.low') THEN p_activity_type
+    WHEN p_activity_type IN ('purchase', 'gift_purchase', 'subscription_payment') THEN 'payment.succeeded'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION queue_webhook_deliveries() RETURNS TRIGGER AS $$
+DECLARE
+  v_event TEXT := webhook_event_for_activity(NEW.activity_type);
+BEGIN
+  IF v_event IS NULL OR NEW.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO webhook_deliveries (endpoint_id, event_id, event_type, payload)
+  SELECT e.id, NEW.id, v_event, jsonb_build_object(
+    'id', NEW.id,
+    'type', v_event,
+    'created_at', NOW(),
+    'data', COALESCE(NEW.activity_data, '{}'::jsonb)
+  )
+  FROM webhook_endpoints e
+  WHERE e.user_id = NEW.user_id
+    AND e.enabled
+    AND v_event = ANY(e.events)
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS queue_webhook_deliveries ON user_activity_logs;
+CREATE TRIGGER queue_webhook_deliveries
+  AFTER INSERT ON user_activity_logs
+  FOR EACH ROW EXECUTE FUNCTION queue_webhook_deliveries();
+
+-- Background shoots are closed by finalize_generation_job, which can be
+-- reached from several workers; only the update that closes the shoot logs it
+CREATE OR REPLACE FUNCTION log_generation_job_finished() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM log_user_activity(
+    NEW.user_id,
+    CASE WHEN NEW.status = 'failed' THEN 'generation.failed' ELSE 'generation.completed' END,
+    jsonb_build_object(
+      'shoot_id', NEW.id,
+      'generation_id', NEW.generation_id,
+      'status', NEW.status,
+      'photo_type', NEW.photo_type,
+      'total_styles', NEW.total_styles,
+      'completed_styles', NEW.completed_styles,
+      'failed_styles', NEW.failed_styles,
+      'credits_refunded', NEW.credits_refunded,
+      'source', CASE WHEN NEW.api_key_id IS NOT NULL THEN 'api' ELSE 'app' END
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS log_generation_job_finished ON generation_jobs;
+CREATE TRIGGER log_generation_job_finished
+  AFTER UPDATE OF completed_at ON generation_jobs
+  FOR EACH ROW
+  WHEN (OLD.completed_at IS NULL AND NEW.completed_at IS NOT NULL)
+  EXECUTE FUNCTION log_generation_job_finished();
+
+-- Free daily credits lapse at midnight, so only purchased, bonus and
+-- subscription credits count towards the balance
+CREATE OR REPLACE FUNCTION log_credits_low() RETURNS TRIGGER AS $$
+DECLARE
+  c_threshold CONSTANT INTEGER := 3;
+  v_old INTEGER := COALESCE(OLD.paid_credits, 0) + COALESCE(OLD.bonus_credits, 0) + COALESCE(OLD.subscription_credits, 0);
+  v_new INTEGER := COALESCE(NEW.paid_credits, 0) + COALESCE(NEW.bonus_credits, 0) + COALESCE(NEW.subscription_credits, 0);
+BEGIN
+  IF v_old >= c_threshold AND v_new < c_threshold THEN
+    PERFORM log_user_activity(
+      NEW.user_id,
+      'credits.low',
+      jsonb_build_object('balance', v_new, 'threshold', c_threshold)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS log_credits_low ON user_credits;
+CREATE TRIGGER log_credits_low
+  AFTER UPDATE OF paid_credits, bonus_credits, subscription_credits ON user_credits
+  FOR EACH ROW EXECUTE FUNCTION log_credits_low();
+
+-- ==========================================
+-- 4. CLAIMING (webhooks function)
+-- ==========================================
+
+-- Same scheme as claim_alert_deliveries: claimed rows are pushed back five
+-- minutes so a concurrent or crashed run doesn't send them twice
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(p_limit INTEGER DEFAULT 50)
+RETURNS SETOF webhook_deliveries AS $$
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Service role required';
+  END IF;
+
+  RETURN QUERY
+  UPDATE webhook_deliveries d
+  SET next_attempt_at = NOW() + INTERVAL '5 minutes',
+      updated_at = NOW()
+  WHERE d.id IN (
+    SELECT id FROM webhook_deliveries
+    WHERE status = 'pending' AND next_attempt_at <= NOW()
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ==========================================
+-- 5. PUBLIC API SCOPE
+-- ==========================================
+
+-- webhooks:write lets a partner key register endpoints for its account
+CREATE OR REPLACE FUNCTION issue_api_key(
+  p_name TEXT,
+  p_user_id UUID,
+  p_scopes TEXT[],
+  p_rate_limit_per_hour INTEGER DEFAULT 100,
+  p_expires_days INTEGER DEFAULT NULL,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_key RECORD;
+  v_id UUID;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF NULLIF(trim(p_name), '') IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Key name is required');
+  END IF;
+  IF EXISTS (SELECT 1 FROM api_keys WHERE key_name = trim(p_name)) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A key with this name already exists');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = p_user_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Account not found');
+  END IF;
+  IF COALESCE(array_length(p_scopes, 1), 0) = 0
+    OR NOT p_scopes <@ ARRAY['shoots:write', 'shoots:read', 'catalog:read', 'webhooks:write'] THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Choose at least one valid scope');
+  END IF;
+  IF p_rate_limit_per_hour IS NULL OR p_rate_limit_per_hour < 1 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Hourly quota must be at least 1');
+  END IF;
+
+  SELECT * INTO v_key FROM new_partner_api_key();
+
+  INSERT INTO api_keys (
+    key_name, key_hash, key_prefix, permissions, rate_limit_per_hour,
+    expires_at, user_id, description, created_by
+  ) VALUES (
+    trim(p_name),
+    crypt(v_key.raw_key, gen_salt('bf', 12)),
+    v_key.key_prefix,
+    p_scopes,
+    p_rate_limit_per_hour,
+    CASE WHEN p_expires_days IS NOT NULL THEN NOW() + make_interval(days => p_expires_days) END,
+    p_user_id,
+    NULLIF(trim(p_description), ''),
+    auth.uid()
+  )
+  RETURNING id INTO v_id;
+
+  RETURN jsonb_build_object('success', true, 'id', v_id, 'key', v_key.raw_key, 'key_prefix', v_key.key_prefix);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMIT;
@@ -0,0 +1,116 @@
+-- Admin RBAC
+-- A catalogue of admin permissions with the roles that hold each one by
+-- default. admin_users.permissions holds per-admin overrides on top of the
+-- role: { "export.pii": false } takes a permission away, { "credits.grant": true }
+-- grants one the role lacks. Super admins always hold every permission.
+--
+-- Admins from before admin_users existed (users.role = 'admin' or
+-- 'super_admin' with no admin_users row) keep that role.
+--
+-- Edge functions check permissions through _shared/adminAuth.ts and the admin
+-- UI hides what the current admin can't use, both via get_admin_access().
+
+BEGIN;
+
+-- ==========================================
+-- 1. PERMISSION CATALOGUE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS admin_permissions (
+  key TEXT PRIMARY KEY CHECK (key ~ '^[a-z_]+\.[a-z_]+$'),
+  description TEXT NOT NULL,
+  roles TEXT[] NOT NULL DEFAULT '{}' CHECK (roles <@ ARRAY['super_admin', 'admin', 'viewer']),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO admin_permissions (key, description, roles) VALUES
+  ('dashboard.view',   'View dashboard metrics and analytics',               ARRAY['super_admin', 'admin', 'viewer']),
+  ('users.view',       'View user accounts, credits and activity',           ARRAY['super_admin', 'admin', 'viewer']),
+  ('users.edit',       'Create users and edit their profiles',               ARRAY['super_admin', 'admin']),
+  ('users.suspend',    'Suspend and reactivate user accounts',               ARRAY['super_admin', 'admin']),
+  ('users.delete',     'Delete user accounts',                               ARRAY['super_admin']),
+  ('credits.grant',    'Grant or deduct user credits',                       ARRAY['super_admin', 'admin']),
+  ('export.data',      'Export aggregate analytics',                         ARRAY['super_admin', 'admin', 'viewer']),
+  ('export.pii',       'Export data on individual users',                    ARRAY['super_admin', 'admin']),
+  ('packages.edit',    'Create, edit and delete photo packages',             ARRAY['super_admin', 'admin']),
+  ('themes.edit',      'Create, edit and delete themes',                     ARRAY['super_admin', 'admin']),
+  ('pricing.edit',     'Change package pricing',                             ARRAY['super_admin', 'admin']),
+  ('prompts.edit',     'Edit prompt templates and experiments',              ARRAY['super_admin', 'admin']),
+  ('promotions.edit',  'Manage promotions and gift cards',                   ARRAY['super_admin', 'admin']),
+  ('alerts.manage',    'Create, edit and delete alert rules',                ARRAY['super_admin', 'admin']),
+  ('api_keys.manage',  'Issue, rotate and revoke partner API keys',          ARRAY['super_admin', 'admin']),
+  ('webhooks.manage',  'Manage partner webhooks and replay deliveries',      ARRAY['super_admin', 'admin']),
+  ('admins.manage',    'Promote and demote admins and change permissions',   ARRAY['super_admin'])
+ON CONFLICT (key) DO UPDATE
+SET description = EXCLUDED.description,
+    roles = EXCLUDED.roles;
+
+ALTER TABLE admin_permissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view admin permissions" ON admin_permissions;
+CREATE POLICY "Admins can view admin permissions" ON admin_permissions
+  FOR SELECT USING (is_current_user_admin());
+
+-- ==========================================
+-- 2. EFFECTIVE ACCESS
+-- ==========================================
+
+-- Returns { admin_id, role, permissions: [...] } for an admin and NULL for
+-- anyone else. admin_id is the admin_users row, NULL for legacy admins.
+-- Users may only look themselves up; the service role may look up anyone.
+CREATE OR REPLACE FUNCTION get_admin_access(p_user_id UUID DEFAULT auth.uid())
+RETURNS JSONB AS $$
+DECLARE
+  v_admin_id UUID;
+  v_role TEXT;
+  v_overrides JSONB;
+  v_permissions TEXT[];
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_user_id IS DISTINCT FROM auth.uid() AND COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Not allowed to read another user''s admin access';
+  END IF;
+
+  SELECT id, role, COALESCE(permissions, '{}'::JSONB)
+  INTO v_admin_id, v_role, v_overrides
+  FROM admin_users
+  WHERE user_id = p_user_id;
+
+  IF v_role IS NULL THEN
+    SELECT role INTO v_role
+    FROM users
+    WHERE id = p_user_id AND role IN ('admin', 'super_admin');
+    v_overrides := '{}'::JSONB;
+  END IF;
+
+  IF v_role IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(array_agg(p.key ORDER BY p.key), '{}')
+  INTO v_permissions
+  FROM admin_permissions p
+  WHERE v_role = 'super_admin'
+     OR CASE jsonb_typeof(v_overrides -> p.key)
+          WHEN 'boolean' THEN (v_overrides ->> p.key)::BOOLEAN
+          ELSE v_role = ANY(p.roles)
+        END;
+
+  RETURN jsonb_build_object(
+    'admin_id', v_admin_id,
+    'role', v_role,
+    'permissions', to_jsonb(v_permissions)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION get_admin_access(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_admin_access(UUID) TO authenticated, service_role;
+
+COMMENT ON TABLE admin_permissions IS 'Admin permission catalogue with the roles that hold each permission by default';
+COMMENT ON FUNCTION get_admin_access IS 'Role and effective permissions of an admin, NULL for non-admins';
+
+COMMIT;
@@ -0,0 +1,57 @@
+-- Backfill Legacy Admins
+-- Before admin_users, admins were marked in three places: users.role,
+-- user_profiles (is_admin or role) and, in the admin UI only, the hardcoded
+-- admin@huybuilds.app address. Every one of them now gets an admin_users row,
+-- so admin actions (exports, audit entries) always have an admin id to
+-- record, and users.role, which is_admin() and the RLS policies read, is set
+-- to match. The UI no longer falls back to the hardcoded address, and export
+-- logs also record the exporting user.
+
+BEGIN;
+
+-- ==========================================
+-- 1. ADMIN ROWS
+-- ==========================================
+
+-- A super_admin role anywhere wins; the is_admin flag and the hardcoded
+-- address alone mean admin
+INSERT INTO admin_users (user_id, role)
+SELECT u.id,
+  CASE WHEN u.role = 'super_admin' OR p.role = 'super_admin' THEN 'super_admin' ELSE 'admin' END
+FROM users u
+LEFT JOIN user_profiles p ON p.id = u.id
+WHERE u.role IN ('admin', 'super_admin')
+   OR p.is_admin = true
+   OR p.role IN ('admin', 'super_admin')
+   OR lower(u.email) = 'admin@huybuilds.app'
+ON CONFLICT (user_id) DO NOTHING;
+
+-- ==========================================
+-- 2. USERS.ROLE
+-- ==========================================
+
+-- Admins marked only in user_profiles or by the hardcoded address
+UPDATE users u
+SET role = CASE WHEN p.role = 'super_admin' THEN 'super_admin' ELSE 'admin' END
+FROM users src
+LEFT JOIN user_profiles p ON p.id = src.id
+WHERE src.id = u.id
+  AND COALESCE(u.role, 'user') NOT IN ('admin', 'super_admin')
+  AND (p.is_admin = true
+    OR p.role IN ('admin', 'super_admin')
+    OR lower(u.email) = 'admin@huybuilds.app');
+
+-- ==========================================
+-- 3. EXPORT LOGS
+-- ==========================================
+
+-- exported_by points at admin_users, which an admin given users.role by hand
+-- still lacks; the user is always recorded
+ALTER TABLE export_logs ADD COLUMN IF NOT EXISTS exported_by_user UUID REFERENCES users(id) ON DELETE SET NULL;
+
+UPDATE export_logs e
+SET exported_by_user = a.user_id
+FROM admin_users a
+WHERE a.id = e.exported_by AND e.exported_by_user IS NULL;
+
+COMMIT;
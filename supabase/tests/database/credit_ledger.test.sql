@@ -0,0 +1,102 @@
+-- Job refunds and balance corrections through the credits ledger
+-- Run with: supabase test db
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+SET LOCAL request.jwt.claims = '{"role": "service_role"}';
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000301', 'ledger@example.com'),
+  ('00000000-0000-0000-0000-000000000302', 'ledger-admin@example.com');
+
+UPDATE users SET role = 'admin' WHERE id = '00000000-0000-0000-0000-000000000302';
+
+-- A job refund is posted back to the balance it was reserved from
+
+SELECT add_bonus_credits('00000000-0000-0000-0000-000000000301', 2, 'Welcome bonus');
+
+UPDATE user_credits SET free_credits_used_today = 5
+WHERE user_id = '00000000-0000-0000-0000-000000000301';
+
+SELECT is(
+  consume_credit_atomic('00000000-0000-0000-0000-000000000301', 'Photo shoot (2 styles)'),
+  'bonus',
+  'The shoot is reserved from bonus credits'
+);
+
+INSERT INTO generation_jobs (id, user_id, status, credits_reserved, credit_source) VALUES
+  ('00000000-0000-0000-0000-000000000311', '00000000-0000-0000-0000-000000000301', 'processing', 1, 'bonus');
+
+INSERT INTO generation_job_items (job_id, style, prompt, status) VALUES
+  ('00000000-0000-0000-0000-000000000311', 'Vintage', 'prompt', 'completed'),
+  ('00000000-0000-0000-0000-000000000311', 'Beach', 'prompt', 'failed');
+
+SELECT is(
+  (finalize_generation_job('00000000-0000-0000-0000-000000000311')).credits_refunded,
+  1,
+  'The failed style is refunded'
+);
+
+SELECT is(
+  (SELECT SUM(amount)::INTEGER FROM credit_ledger
+   WHERE user_id = '00000000-0000-0000-0000-000000000301' AND account = 'user:bonus'),
+  2,
+  'The refund is on the bonus ledger account'
+);
+
+-- A drifted balance is corrected back to the ledger
+
+SELECT set_config('credits.ledger_posting', 'on', true);
+
+UPDATE user_credits SET bonus_credits = 5
+WHERE user_id = '00000000-0000-0000-0000-000000000301';
+
+SELECT set_config('credits.ledger_posting', 'off', true);
+
+SELECT reconcile_credit_balances();
+
+SELECT is(
+  (SELECT recorded_balance - ledger_balance FROM credit_balance_mismatches
+   WHERE user_id = '00000000-0000-0000-0000-000000000301' AND bucket = 'bonus' AND status = 'open'),
+  3,
+  'Reconciliation finds the drift'
+);
+
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000000302", "role": "authenticated"}';
+
+SELECT is(
+  (correct_credit_mismatch(
+    (SELECT id FROM credit_balance_mismatches
+     WHERE user_id = '00000000-0000-0000-0000-000000000301' AND bucket = 'bonus' AND status = 'open')
+  ) ->> 'success')::BOOLEAN,
+  true,
+  'An admin corrects the mismatch'
+);
+
+SELECT is(
+  (SELECT bonus_credits FROM user_credits WHERE user_id = '00000000-0000-0000-0000-000000000301'),
+  2,
+  'The stored balance is back to the ledger balance'
+);
+
+SELECT is(
+  (SELECT SUM(amount)::INTEGER FROM credit_ledger
+   WHERE user_id = '00000000-0000-0000-0000-000000000301' AND account = 'user:bonus'),
+  2,
+  'The correction adds no ledger lines'
+);
+
+SELECT is(
+  (SELECT created_by FROM credit_journal
+   WHERE user_id = '00000000-0000-0000-0000-000000000301' AND entry_type = 'correction'),
+  '00000000-0000-0000-0000-000000000302'::UUID,
+  'The correction is journaled with the admin who made it'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,136 @@
+-- Credit lots: refunds keep their expiry, lapsed lots expire, corrections
+-- Run with: supabase test db
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(11);
+
+SET LOCAL request.jwt.claims = '{"role": "service_role"}';
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000501', 'lots@example.com');
+
+-- Two bonus credits that expire tomorrow, one of them reserved for a shoot
+
+SELECT add_bonus_credits('00000000-0000-0000-0000-000000000501', 2, 'Welcome bonus');
+
+UPDATE credit_lots SET expires_at = NOW() + INTERVAL '1 day'
+WHERE user_id = '00000000-0000-0000-0000-000000000501';
+
+UPDATE user_credits SET free_credits_used_today = 5
+WHERE user_id = '00000000-0000-0000-0000-000000000501';
+
+SELECT is(
+  consume_credit_atomic('00000000-0000-0000-0000-000000000501', 'Photo shoot (1 style)'),
+  'bonus',
+  'The shoot is reserved from the bonus lot'
+);
+
+INSERT INTO generation_jobs (id, user_id, status, credits_reserved, credit_source) VALUES
+  ('00000000-0000-0000-0000-000000000511', '00000000-0000-0000-0000-000000000501', 'processing', 1, 'bonus');
+
+INSERT INTO generation_job_items (job_id, style, prompt, status) VALUES
+  ('00000000-0000-0000-0000-000000000511', 'Vintage', 'prompt', 'failed');
+
+SELECT is(
+  (finalize_generation_job('00000000-0000-0000-0000-000000000511')).credits_refunded,
+  1,
+  'The failed shoot is refunded'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM credit_lots
+   WHERE user_id = '00000000-0000-0000-0000-000000000501' AND bucket = 'bonus'),
+  1,
+  'The refund reopens the lot instead of opening a new one'
+);
+
+SELECT is(
+  (SELECT remaining FROM credit_lots
+   WHERE user_id = '00000000-0000-0000-0000-000000000501' AND bucket = 'bonus'),
+  2,
+  'The lot is whole again'
+);
+
+SELECT is(
+  (SELECT expires_at FROM credit_lots
+   WHERE user_id = '00000000-0000-0000-0000-000000000501' AND bucket = 'bonus'),
+  NOW() + INTERVAL '1 day',
+  'The refunded credit keeps its expiry date'
+);
+
+-- The lot lapses
+
+UPDATE credit_lots SET expires_at = NOW() - INTERVAL '1 minute'
+WHERE user_id = '00000000-0000-0000-0000-000000000501';
+
+SELECT expire_credit_lots();
+
+SELECT is(
+  (SELECT bonus_credits FROM user_credits WHERE user_id = '00000000-0000-0000-0000-000000000501'),
+  0,
+  'Lapsed credits are taken out of the balance'
+);
+
+SELECT post_credit_entry('00000000-0000-0000-0000-000000000501', 'bonus', 1, 'refund', 'Refund');
+
+SELECT is(
+  (SELECT bonus_credits FROM user_credits WHERE user_id = '00000000-0000-0000-0000-000000000501'),
+  1,
+  'A refund is added to the balance'
+);
+
+SELECT expire_credit_lots();
+
+SELECT is(
+  (SELECT bonus_credits FROM user_credits WHERE user_id = '00000000-0000-0000-0000-000000000501'),
+  0,
+  'A refund drawn from a lapsed lot lapses again'
+);
+
+-- Lifetimes for new lots
+
+SELECT post_credit_entry('00000000-0000-0000-0000-000000000501', 'bonus', 1, 'promotion', 'Promotion');
+
+SELECT ok(
+  (SELECT expires_at FROM credit_lots
+   WHERE user_id = '00000000-0000-0000-0000-000000000501' AND source = 'promotion') > NOW() + INTERVAL '364 days',
+  'Bonus credits from a source without a lifetime last as long as bonus credits'
+);
+
+SELECT add_paid_credits('00000000-0000-0000-0000-000000000501', 1, 'Credit pack', NULL);
+
+SELECT is(
+  (SELECT expires_at FROM credit_lots
+   WHERE user_id = '00000000-0000-0000-0000-000000000501' AND bucket = 'paid'),
+  NULL,
+  'Purchased credits never expire'
+);
+
+-- A correction brings the lots in line with the balance. Two credits that
+-- never reached the ledger were opened as a lot along with the balance.
+
+SELECT set_config('credits.ledger_posting', 'on', true);
+
+UPDATE user_credits SET bonus_credits = bonus_credits + 2
+WHERE user_id = '00000000-0000-0000-0000-000000000501';
+
+SELECT set_config('credits.ledger_posting', 'off', true);
+
+INSERT INTO credit_lots (user_id, bucket, source, original_amount, remaining, expires_at) VALUES
+  ('00000000-0000-0000-0000-000000000501', 'bonus', 'opening_balance', 2, 2, NOW() + INTERVAL '1 day');
+
+SELECT post_credit_entry('00000000-0000-0000-0000-000000000501', 'bonus', -2, 'correction', 'Correction');
+
+SELECT is(
+  (SELECT SUM(remaining)::INTEGER FROM credit_lots
+   WHERE user_id = '00000000-0000-0000-0000-000000000501' AND bucket = 'bonus'),
+  1,
+  'The bonus lots add up to the corrected balance'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,89 @@
+-- Refunds for unfinished styles of background photo shoots
+-- Run with: supabase test db
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+SET LOCAL request.jwt.claims = '{"role": "service_role"}';
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000201', 'shooter@example.com');
+
+-- A reservation from the free daily generations
+
+SELECT is(
+  consume_credit_atomic('00000000-0000-0000-0000-000000000201', 'Photo shoot (2 styles)'),
+  'free_daily',
+  'Free daily generations are reserved first'
+);
+
+INSERT INTO generation_jobs (id, user_id, status, credits_reserved, credit_source) VALUES
+  ('00000000-0000-0000-0000-000000000211', '00000000-0000-0000-0000-000000000201', 'cancelled', 1, 'free_daily');
+
+INSERT INTO generation_job_items (job_id, style, prompt, status) VALUES
+  ('00000000-0000-0000-0000-000000000211', 'Vintage', 'prompt', 'cancelled'),
+  ('00000000-0000-0000-0000-000000000211', 'Beach', 'prompt', 'cancelled');
+
+SELECT is(
+  (finalize_generation_job('00000000-0000-0000-0000-000000000211')).credits_refunded,
+  0,
+  'A cancelled shoot reserved from free daily generations refunds nothing'
+);
+
+SELECT is(
+  (SELECT paid_credits + bonus_credits + subscription_credits FROM user_credits
+   WHERE user_id = '00000000-0000-0000-0000-000000000201'),
+  0,
+  'No credits were minted from the free generation'
+);
+
+-- A reservation from bonus credits
+
+SELECT add_bonus_credits('00000000-0000-0000-0000-000000000201', 2, 'Welcome bonus');
+
+UPDATE user_credits SET free_credits_used_today = 5
+WHERE user_id = '00000000-0000-0000-0000-000000000201';
+
+SELECT is(
+  consume_credit_atomic('00000000-0000-0000-0000-000000000201', 'Photo shoot (2 styles)'),
+  'bonus',
+  'Bonus credits are reserved once the free generations are used'
+);
+
+INSERT INTO generation_jobs (id, user_id, status, credits_reserved, credit_source) VALUES
+  ('00000000-0000-0000-0000-000000000212', '00000000-0000-0000-0000-000000000201', 'processing', 1, 'bonus');
+
+INSERT INTO generation_job_items (job_id, style, prompt, status) VALUES
+  ('00000000-0000-0000-0000-000000000212', 'Vintage', 'prompt', 'completed'),
+  ('00000000-0000-0000-0000-000000000212', 'Beach', 'prompt', 'failed');
+
+SELECT is(
+  (finalize_generation_job('00000000-0000-0000-0000-000000000212')).credits_refunded,
+  1,
+  'One failed style of two is refunded a whole credit'
+);
+
+SELECT is(
+  (SELECT bonus_credits FROM user_credits WHERE user_id = '00000000-0000-0000-0000-000000000201'),
+  2,
+  'The refund goes back to bonus credits'
+);
+
+SELECT is(
+  (finalize_generation_job('00000000-0000-0000-0000-000000000212')).credits_refunded,
+  1,
+  'Finalizing again refunds nothing more'
+);
+
+SELECT is(
+  (SELECT bonus_credits FROM user_credits WHERE user_id = '00000000-0000-0000-0000-000000000201'),
+  2,
+  'The balance is unchanged by the second finalize'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,88 @@
+-- Refunds for failed styles of package shoots
+-- Run with: supabase test db
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+SET LOCAL request.jwt.claims = '{"role": "service_role"}';
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000401', 'package@example.com');
+
+-- A three-style usage paid with one purchased and two bonus credits
+
+SELECT add_paid_credits('00000000-0000-0000-0000-000000000401', 1, 'Credit pack', NULL);
+SELECT add_bonus_credits('00000000-0000-0000-0000-000000000401', 2, 'Welcome bonus');
+SELECT post_credit_entry('00000000-0000-0000-0000-000000000401', 'paid', -1, 'usage', 'Package usage');
+SELECT post_credit_entry('00000000-0000-0000-0000-000000000401', 'bonus', -2, 'usage', 'Package usage');
+
+INSERT INTO package_usage (id, user_id, credits_used, generations_count, themes_used, charged_buckets) VALUES
+  ('00000000-0000-0000-0000-000000000411', '00000000-0000-0000-0000-000000000401', 3, 3,
+   '{Vintage,Beach,Studio}', '{"paid": 1, "bonus": 2}');
+
+SELECT is(
+  refund_failed_generation('00000000-0000-0000-0000-000000000411', '00000000-0000-0000-0000-000000000401', 'Forest'),
+  0,
+  'A style that is not part of the usage is not refunded'
+);
+
+SELECT is(
+  refund_failed_generation('00000000-0000-0000-0000-000000000411', '00000000-0000-0000-0000-000000000401', 'Vintage'),
+  1,
+  'A failed style is refunded its share'
+);
+
+SELECT is(
+  (SELECT paid_credits FROM user_credits WHERE user_id = '00000000-0000-0000-0000-000000000401'),
+  1,
+  'Purchased credits are given back first'
+);
+
+SELECT is(
+  refund_failed_generation('00000000-0000-0000-0000-000000000411', '00000000-0000-0000-0000-000000000401', 'Vintage'),
+  0,
+  'Reporting the same style again refunds nothing'
+);
+
+SELECT is(
+  refund_failed_generation('00000000-0000-0000-0000-000000000411', '00000000-0000-0000-0000-000000000401', 'Beach', 'unsafe'),
+  1,
+  'A style blocked by the safety check is refunded too'
+);
+
+SELECT is(
+  (SELECT bonus_credits FROM user_credits WHERE user_id = '00000000-0000-0000-0000-000000000401'),
+  1,
+  'The second refund goes back to bonus credits'
+);
+
+SELECT is(
+  (SELECT charged_buckets FROM package_usage WHERE id = '00000000-0000-0000-0000-000000000411'),
+  '{"paid": 0, "bonus": 1}'::JSONB,
+  'The usage keeps what is left to refund per balance'
+);
+
+-- A one-credit usage over three styles is refunded at most its one credit
+
+INSERT INTO package_usage (id, user_id, credits_used, generations_count, themes_used, charged_buckets) VALUES
+  ('00000000-0000-0000-0000-000000000412', '00000000-0000-0000-0000-000000000401', 1, 3,
+   '{Vintage,Beach,Studio}', '{"bonus": 1}');
+
+SELECT is(
+  refund_failed_generation('00000000-0000-0000-0000-000000000412', '00000000-0000-0000-0000-000000000401', 'Vintage'),
+  1,
+  'The share is rounded up to a whole credit'
+);
+
+SELECT is(
+  refund_failed_generation('00000000-0000-0000-0000-000000000412', '00000000-0000-0000-0000-000000000401', 'Beach'),
+  0,
+  'Refunds never exceed the credits used'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,57 @@
+-- Soft deleting gallery portraits as a signed-in user
+-- Run with: supabase test db
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000101', 'owner@example.com'),
+  ('00000000-0000-0000-0000-000000000102', 'other@example.com');
+
+INSERT INTO generated_portraits (id, user_id, storage_path, style) VALUES
+  ('00000000-0000-0000-0000-000000000111', '00000000-0000-0000-0000-000000000101',
+   '00000000-0000-0000-0000-000000000101/2025-09/portrait.png', 'Vintage');
+
+SET LOCAL ROLE authenticated;
+
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000000102", "role": "authenticated"}';
+
+SELECT is(
+  delete_user_portrait('00000000-0000-0000-0000-000000000111'),
+  false,
+  'Another user cannot delete the portrait'
+);
+
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000000101", "role": "authenticated"}';
+
+SELECT is(
+  delete_user_portrait('00000000-0000-0000-0000-000000000111'),
+  true,
+  'The owner can delete the portrait'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM generated_portraits WHERE id = '00000000-0000-0000-0000-000000000111' $$,
+  'The deleted portrait is hidden from the owner'
+);
+
+SELECT is(
+  delete_user_portrait('00000000-0000-0000-0000-000000000111'),
+  false,
+  'Deleting it again reports nothing deleted'
+);
+
+RESET ROLE;
+
+SELECT isnt(
+  (SELECT deleted_at FROM generated_portraits WHERE id = '00000000-0000-0000-0000-000000000111'),
+  NULL,
+  'The row is kept with deleted_at set'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,74 @@
+-- Partner API keys: scopes, hourly quota and revocation
+-- Run with: supabase test db
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000701', 'partner@example.com'),
+  ('00000000-0000-0000-0000-000000000702', 'api-admin@example.com');
+
+UPDATE users SET role = 'admin' WHERE id = '00000000-0000-0000-0000-000000000702';
+
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000000702", "role": "authenticated"}';
+
+CREATE TEMP TABLE issued_key ON COMMIT DROP AS
+SELECT issue_api_key('Partner studio', '00000000-0000-0000-0000-000000000701', ARRAY['shoots:read'], 2) AS result;
+
+SET LOCAL request.jwt.claims = '{"role": "service_role"}';
+
+SELECT is(
+  (authenticate_api_key((SELECT result ->> 'key' FROM issued_key), 'shoots:read') ->> 'remaining')::INTEGER,
+  1,
+  'The first request is counted against the hourly quota'
+);
+
+SELECT is(
+  (authenticate_api_key((SELECT result ->> 'key' FROM issued_key), 'catalog:read') ->> 'status')::INTEGER,
+  403,
+  'A scope the key does not have is refused'
+);
+
+SELECT is(
+  (authenticate_api_key((SELECT result ->> 'key' FROM issued_key), 'shoots:read') ->> 'remaining')::INTEGER,
+  0,
+  'A refused scope does not use up the quota'
+);
+
+SELECT is(
+  (authenticate_api_key((SELECT result ->> 'key' FROM issued_key), 'shoots:read') ->> 'status')::INTEGER,
+  429,
+  'Requests over the hourly quota are refused'
+);
+
+SELECT is(
+  (SELECT request_count FROM api_key_usage
+   WHERE api_key_id = (SELECT (result ->> 'id')::UUID FROM issued_key)),
+  2,
+  'Refused requests are not counted'
+);
+
+SELECT is(
+  (authenticate_api_key('wpk_000000000000_' || repeat('0', 48), 'shoots:read') ->> 'status')::INTEGER,
+  401,
+  'An unknown key is refused'
+);
+
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000000702", "role": "authenticated"}';
+
+SELECT revoke_api_key((SELECT (result ->> 'id')::UUID FROM issued_key));
+
+SET LOCAL request.jwt.claims = '{"role": "service_role"}';
+
+SELECT is(
+  (authenticate_api_key((SELECT result ->> 'key' FROM issued_key), 'shoots:read') ->> 'code'),
+  'invalid_api_key',
+  'A revoked key is refused'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,84 @@
+-- Refunds for shoots charged to a team wallet or to the member's own credits
+-- Run with: supabase test db
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(6);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000601', 'studio-owner@example.com');
+
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000000601", "role": "authenticated"}';
+
+SELECT create_organization('Studio');
+
+SET LOCAL request.jwt.claims = '{"role": "service_role"}';
+
+SELECT add_organization_credits(
+  (SELECT id FROM organizations WHERE owner_id = '00000000-0000-0000-0000-000000000601'),
+  '00000000-0000-0000-0000-000000000601', 2, 'pi_team_pack', 'Team credit purchase'
+);
+
+-- A shoot charged to the wallet is refunded to the wallet
+
+SELECT is(
+  consume_organization_credit(
+    (SELECT id FROM organizations WHERE owner_id = '00000000-0000-0000-0000-000000000601'),
+    'Photo shoot (1 style)', '00000000-0000-0000-0000-000000000601'
+  ),
+  1,
+  'The shoot is charged to the wallet'
+);
+
+INSERT INTO generation_jobs (id, user_id, organization_id, status, credits_reserved) VALUES
+  ('00000000-0000-0000-0000-000000000611', '00000000-0000-0000-0000-000000000601',
+   (SELECT id FROM organizations WHERE owner_id = '00000000-0000-0000-0000-000000000601'), 'processing', 1);
+
+INSERT INTO generation_job_items (job_id, style, prompt, status) VALUES
+  ('00000000-0000-0000-0000-000000000611', 'Vintage', 'prompt', 'failed');
+
+SELECT is(
+  (finalize_generation_job('00000000-0000-0000-0000-000000000611')).credits_refunded,
+  1,
+  'The failed wallet shoot is refunded'
+);
+
+SELECT is(
+  (SELECT credits FROM organizations WHERE owner_id = '00000000-0000-0000-0000-000000000601'),
+  2,
+  'The refund goes back to the wallet'
+);
+
+SELECT is(
+  (SELECT paid_credits + bonus_credits + subscription_credits FROM user_credits
+   WHERE user_id = '00000000-0000-0000-0000-000000000601'),
+  0,
+  'The member gets no credits of their own'
+);
+
+-- A personal shoot from the free daily generations is not refunded
+
+INSERT INTO generation_jobs (id, user_id, status, credits_reserved, credit_source) VALUES
+  ('00000000-0000-0000-0000-000000000612', '00000000-0000-0000-0000-000000000601', 'processing', 1, 'free_daily');
+
+INSERT INTO generation_job_items (job_id, style, prompt, status) VALUES
+  ('00000000-0000-0000-0000-000000000612', 'Vintage', 'prompt', 'failed');
+
+SELECT is(
+  (finalize_generation_job('00000000-0000-0000-0000-000000000612')).credits_refunded,
+  0,
+  'A failed free shoot refunds nothing'
+);
+
+SELECT is(
+  (SELECT paid_credits + bonus_credits + subscription_credits FROM user_credits
+   WHERE user_id = '00000000-0000-0000-0000-000000000601'),
+  0,
+  'No credits are minted from the free generation'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
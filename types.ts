@@ -3,4 +3,12 @@ export interface GeneratedContent {
   imageUrl: string | null;
   text: string | null;
   style?: string;
+  portraitId?: string | null; // generated_portraits row when saved to the gallery
+}
+
+// One of several uploaded photos when a portrait is composed from separate photos of each person
+export interface SourcePhoto {
+  file: File;
+  role: string; // e.g. "Partner 1", "Bride", "Grandma"
+  previewUrl: string;
 }
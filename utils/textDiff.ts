@@ -0,0 +1,76 @@
+/**
+ * Word-level text diff
+ * Used by the admin prompt editor to compare template versions side by side
+ */
+
+export type DiffOperation = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+  type: DiffOperation;
+  value: string;
+}
+
+// Split into words and the whitespace between them so the diff can be re-joined verbatim
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+/**
+ * Diff two strings word by word using a longest-common-subsequence table.
+ * Adjacent parts of the same type are merged.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffOperation, value: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.value += value;
+    } else {
+      parts.push({ type, value });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts;
+}
+
+/**
+ * Count changed words on each side, ignoring whitespace-only changes
+ */
+export function summarizeDiff(parts: DiffPart[]): { added: number; removed: number } {
+  const countWords = (value: string) => (value.match(/[^\s]+/g) || []).length;
+  return parts.reduce(
+    (summary, part) => {
+      if (part.type === 'added') summary.added += countWords(part.value);
+      if (part.type === 'removed') summary.removed += countWords(part.value);
+      return summary;
+    },
+    { added: 0, removed: 0 }
+  );
+}